@@ -1,9 +1,11 @@
 import type { Logger } from '../logger'
+import type { ModuleLifecycle } from '../plugins'
 import type { InboundTransport } from '../transport/InboundTransport'
 import type { OutboundTransport } from '../transport/OutboundTransport'
 import type { InitConfig } from '../types'
 import type { Wallet } from '../wallet/Wallet'
 import type { AgentDependencies } from './AgentDependencies'
+import type { AgentModulesApi, AgentModulesInput, DefaultAgentModules } from './AgentModules'
 import type { AgentMessageReceivedEvent } from './Events'
 import type { TransportSession } from './TransportService'
 import type { Subscription } from 'rxjs'
@@ -12,45 +14,73 @@ import type { DependencyContainer } from 'tsyringe'
 import { concatMap, takeUntil } from 'rxjs/operators'
 import { container as baseContainer } from 'tsyringe'
 
-import { CacheRepository } from '../cache'
+import { CacheRecord, CacheRepository } from '../cache'
 import { InjectionSymbols } from '../constants'
 import { JwsService } from '../crypto/JwsService'
+import { AttachmentService } from '../decorators/attachment/AttachmentService'
 import { AriesFrameworkError } from '../error'
-import { ActionMenuModule } from '../modules/action-menu'
-import { BasicMessagesModule } from '../modules/basic-messages/BasicMessagesModule'
 import { ConnectionsModule } from '../modules/connections/ConnectionsModule'
-import { CredentialsModule } from '../modules/credentials/CredentialsModule'
+import { DidCommDocumentService } from '../modules/didcomm'
 import { DidsModule } from '../modules/dids/DidsModule'
 import { DiscoverFeaturesModule } from '../modules/discover-features'
 import { GenericRecordsModule } from '../modules/generic-records/GenericRecordsModule'
-import { IndyModule } from '../modules/indy/module'
-import { LedgerModule } from '../modules/ledger/LedgerModule'
 import { OutOfBandModule } from '../modules/oob/OutOfBandModule'
-import { ProofsModule } from '../modules/proofs/ProofsModule'
-import { QuestionAnswerModule } from '../modules/question-answer/QuestionAnswerModule'
 import { MediatorModule } from '../modules/routing/MediatorModule'
 import { RecipientModule } from '../modules/routing/RecipientModule'
 import { RoutingService } from '../modules/routing/services/RoutingService'
 import { DependencyManager } from '../plugins'
-import { StorageUpdateService, DidCommMessageRepository, StorageVersionRepository } from '../storage'
+import {
+  StorageUpdateService,
+  DidCommMessageRecord,
+  DidCommMessageRepository,
+  StorageVersionRecord,
+  StorageVersionRepository,
+} from '../storage'
 import { InMemoryMessageRepository } from '../storage/InMemoryMessageRepository'
-import { IndyStorageService } from '../storage/IndyStorageService'
+import { BackupModule } from '../storage/backup/BackupModule'
 import { UpdateAssistant } from '../storage/migration/UpdateAssistant'
 import { DEFAULT_UPDATE_CONFIG } from '../storage/migration/updates'
-import { IndyWallet } from '../wallet/IndyWallet'
+import { OutboxMessageRecord, OutboxMessageRepository } from '../storage/outbox'
+import {
+  QueueConfigRecord,
+  QueueConfigRepository,
+  QueuedMessageRecord,
+  QueuedMessageRepository,
+} from '../storage/queued-message'
 import { WalletModule } from '../wallet/WalletModule'
 import { WalletError } from '../wallet/error'
 
 import { AgentConfig } from './AgentConfig'
+import { coreAgentModules, getDefaultAgentModules } from './AgentModules'
 import { Dispatcher } from './Dispatcher'
 import { EnvelopeService } from './EnvelopeService'
 import { EventEmitter } from './EventEmitter'
 import { AgentEventTypes } from './Events'
 import { MessageReceiver } from './MessageReceiver'
 import { MessageSender } from './MessageSender'
+import { OutboxService } from './OutboxService'
 import { TransportService } from './TransportService'
 
-export class Agent {
+export interface AgentOptions<Modules extends AgentModulesInput> {
+  /**
+   * The injection container to use for the agent. Defaults to a child container of the global container,
+   * so the agent doesn't interfere with anything outside of the agent.
+   */
+  injectionContainer?: DependencyContainer
+
+  /**
+   * The modules to register on the agent, keyed by the property under which the api of the module is available
+   * on `agent.modules`. Defaults to the modules returned by {@link getDefaultAgentModules}. The core modules
+   * (connections, out of band, mediation, discover features, generic records, dids, wallet and backup) are always
+   * registered.
+   *
+   * The wallet and storage service of the agent are registered by the `IndyModule`. If the indy module is not
+   * passed to the agent, a wallet and storage service must be registered in the injection container.
+   */
+  modules?: Modules
+}
+
+export class Agent<Modules extends AgentModulesInput = AgentModulesInput> {
   protected agentConfig: AgentConfig
   protected logger: Logger
   public readonly dependencyManager: DependencyManager
@@ -62,31 +92,40 @@ export class Agent {
   public messageSubscription: Subscription
   private walletService: Wallet
   private routingService: RoutingService
+  private agentModules: Modules
 
   public readonly connections: ConnectionsModule
-  public readonly proofs: ProofsModule
-  public readonly basicMessages: BasicMessagesModule
   public readonly genericRecords: GenericRecordsModule
-  public readonly ledger: LedgerModule
-  public readonly questionAnswer!: QuestionAnswerModule
-  public readonly actionMenu!: ActionMenuModule
-  public readonly credentials: CredentialsModule
   public readonly mediationRecipient: RecipientModule
   public readonly mediator: MediatorModule
   public readonly discovery: DiscoverFeaturesModule
   public readonly dids: DidsModule
   public readonly wallet: WalletModule
+  public readonly backup: BackupModule
   public readonly oob!: OutOfBandModule
 
+  /**
+   * The apis of the modules passed to the agent
+   */
+  public readonly modules: AgentModulesApi<Modules>
+
+  /**
+   * @param options the agent options. Passing an injection container directly is supported for backwards compatibility
+   */
   public constructor(
     initialConfig: InitConfig,
     dependencies: AgentDependencies,
-    injectionContainer?: DependencyContainer
+    options: AgentOptions<Modules> | DependencyContainer = {}
   ) {
+    const { injectionContainer, modules } = isDependencyContainer(options)
+      ? { injectionContainer: options, modules: undefined }
+      : options
+
     // Take input container or child container so we don't interfere with anything outside of this agent
     const container = injectionContainer ?? baseContainer.createChildContainer()
 
     this.dependencyManager = new DependencyManager(container)
+    this.agentModules = modules ?? (getDefaultAgentModules() as AgentModulesInput as Modules)
 
     this.agentConfig = new AgentConfig(initialConfig, dependencies)
     this.logger = this.agentConfig.logger
@@ -118,20 +157,21 @@ export class Agent {
 
     // We set the modules in the constructor because that allows to set them as read-only
     this.connections = this.dependencyManager.resolve(ConnectionsModule)
-    this.credentials = this.dependencyManager.resolve(CredentialsModule) as CredentialsModule
-    this.proofs = this.dependencyManager.resolve(ProofsModule)
     this.mediator = this.dependencyManager.resolve(MediatorModule)
     this.mediationRecipient = this.dependencyManager.resolve(RecipientModule)
-    this.basicMessages = this.dependencyManager.resolve(BasicMessagesModule)
-    this.questionAnswer = this.dependencyManager.resolve(QuestionAnswerModule)
-    this.actionMenu = this.dependencyManager.resolve(ActionMenuModule)
     this.genericRecords = this.dependencyManager.resolve(GenericRecordsModule)
-    this.ledger = this.dependencyManager.resolve(LedgerModule)
     this.discovery = this.dependencyManager.resolve(DiscoverFeaturesModule)
     this.dids = this.dependencyManager.resolve(DidsModule)
     this.wallet = this.dependencyManager.resolve(WalletModule)
+    this.backup = this.dependencyManager.resolve(BackupModule)
     this.oob = this.dependencyManager.resolve(OutOfBandModule)
 
+    const modulesApi: Partial<AgentModulesApi<Modules>> = {}
+    for (const [name, module] of Object.entries(this.agentModules)) {
+      modulesApi[name as keyof Modules] = this.dependencyManager.resolve(module)
+    }
+    this.modules = modulesApi as AgentModulesApi<Modules>
+
     // Listen for new messages (either from transports or somewhere else in the framework / extensions)
     this.messageSubscription = this.eventEmitter
       .observable<AgentMessageReceivedEvent>(AgentEventTypes.AgentMessageReceived)
@@ -142,6 +182,34 @@ export class Agent {
       .subscribe()
   }
 
+  public get credentials() {
+    return this.getDefaultModuleApi('credentials')
+  }
+
+  public get proofs() {
+    return this.getDefaultModuleApi('proofs')
+  }
+
+  public get basicMessages() {
+    return this.getDefaultModuleApi('basicMessages')
+  }
+
+  public get ledger() {
+    return this.getDefaultModuleApi('ledger')
+  }
+
+  public get questionAnswer() {
+    return this.getDefaultModuleApi('questionAnswer')
+  }
+
+  public get actionMenu() {
+    return this.getDefaultModuleApi('actionMenu')
+  }
+
+  public get didRotate() {
+    return this.getDefaultModuleApi('didRotate')
+  }
+
   public registerInboundTransport(inboundTransport: InboundTransport) {
     this.messageReceiver.registerInboundTransport(inboundTransport)
   }
@@ -167,7 +235,7 @@ export class Agent {
   }
 
   public async initialize() {
-    const { connectToIndyLedgersOnStartup, publicDidSeed, walletConfig, mediatorConnectionsInvite } = this.agentConfig
+    const { publicDidSeed, walletConfig, mediatorConnectionsInvite } = this.agentConfig
 
     if (this._isInitialized) {
       throw new AriesFrameworkError(
@@ -213,13 +281,6 @@ export class Agent {
       await this.walletService.initPublicDid({ seed: publicDidSeed })
     }
 
-    // As long as value isn't false we will async connect to all genesis pools on startup
-    if (connectToIndyLedgersOnStartup) {
-      this.ledger.connectToPools().catch((error) => {
-        this.logger.warn('Error connecting to ledger, will try to reconnect when needed.', { error })
-      })
-    }
-
     for (const transport of this.inboundTransports) {
       await transport.start(this)
     }
@@ -239,6 +300,13 @@ export class Agent {
     await this.mediator.initialize()
     await this.mediationRecipient.initialize()
 
+    // Retry messages that could not be delivered, if the outbox is enabled
+    this.dependencyManager.resolve(OutboxService).initialize()
+
+    for (const module of this.moduleLifecycles) {
+      await module.initialize?.()
+    }
+
     this._isInitialized = true
   }
 
@@ -252,6 +320,10 @@ export class Agent {
     const transportPromises = allTransports.map((transport) => transport.stop())
     await Promise.all(transportPromises)
 
+    for (const module of this.moduleLifecycles) {
+      await module.shutdown?.()
+    }
+
     // close wallet if still initialized
     if (this.wallet.isInitialized) {
       await this.wallet.close()
@@ -275,6 +347,27 @@ export class Agent {
     return this.agentConfig
   }
 
+  private get moduleLifecycles() {
+    return Object.values(this.modules) as ModuleLifecycle[]
+  }
+
+  /**
+   * Get the api of one of the default modules, making sure the module is passed to the agent under its default name
+   */
+  private getDefaultModuleApi<Name extends keyof DefaultAgentModules>(
+    name: Name
+  ): AgentModulesApi<DefaultAgentModules>[Name] {
+    const moduleApi = (this.modules as Record<string, unknown>)[name]
+
+    if (!moduleApi) {
+      throw new AriesFrameworkError(
+        `No module is registered on the agent under the name '${name}'. Make sure to include the module in the modules passed to the agent`
+      )
+    }
+
+    return moduleApi as AgentModulesApi<DefaultAgentModules>[Name]
+  }
+
   private async getMediationConnection(mediatorInvitationUrl: string) {
     const outOfBandInvitation = this.oob.parseInvitation(mediatorInvitationUrl)
     const outOfBandRecord = await this.oob.findByInvitationId(outOfBandInvitation.id)
@@ -304,55 +397,66 @@ export class Agent {
     return connection
   }
 
-  private registerDependencies(dependencyManager: DependencyManager) {
+  protected registerDependencies(dependencyManager: DependencyManager) {
     dependencyManager.registerInstance(AgentConfig, this.agentConfig)
+    dependencyManager.registerInstance(DependencyManager, dependencyManager)
 
     // Register internal dependencies
     dependencyManager.registerSingleton(EventEmitter)
     dependencyManager.registerSingleton(MessageSender)
+    dependencyManager.registerSingleton(OutboxService)
     dependencyManager.registerSingleton(MessageReceiver)
     dependencyManager.registerSingleton(TransportService)
     dependencyManager.registerSingleton(Dispatcher)
     dependencyManager.registerSingleton(EnvelopeService)
+    dependencyManager.registerSingleton(DidCommDocumentService)
     dependencyManager.registerSingleton(JwsService)
+    dependencyManager.registerSingleton(AttachmentService)
     dependencyManager.registerSingleton(CacheRepository)
     dependencyManager.registerSingleton(DidCommMessageRepository)
     dependencyManager.registerSingleton(StorageVersionRepository)
+    dependencyManager.registerSingleton(QueuedMessageRepository)
+    dependencyManager.registerSingleton(QueueConfigRepository)
+    dependencyManager.registerSingleton(OutboxMessageRepository)
     dependencyManager.registerSingleton(StorageUpdateService)
+    dependencyManager.registerRecordClasses(
+      CacheRecord,
+      DidCommMessageRecord,
+      StorageVersionRecord,
+      QueuedMessageRecord,
+      QueueConfigRecord,
+      OutboxMessageRecord
+    )
 
     // Register possibly already defined services
-    if (!dependencyManager.isRegistered(InjectionSymbols.Wallet)) {
-      this.dependencyManager.registerSingleton(IndyWallet)
-      const wallet = this.dependencyManager.resolve(IndyWallet)
-      dependencyManager.registerInstance(InjectionSymbols.Wallet, wallet)
-    }
     if (!dependencyManager.isRegistered(InjectionSymbols.Logger)) {
       dependencyManager.registerInstance(InjectionSymbols.Logger, this.logger)
     }
-    if (!dependencyManager.isRegistered(InjectionSymbols.StorageService)) {
-      dependencyManager.registerSingleton(InjectionSymbols.StorageService, IndyStorageService)
-    }
     if (!dependencyManager.isRegistered(InjectionSymbols.MessageRepository)) {
       dependencyManager.registerSingleton(InjectionSymbols.MessageRepository, InMemoryMessageRepository)
     }
 
-    // Register all modules
-    dependencyManager.registerModules(
-      ConnectionsModule,
-      CredentialsModule,
-      ProofsModule,
-      MediatorModule,
-      RecipientModule,
-      BasicMessagesModule,
-      QuestionAnswerModule,
-      ActionMenuModule,
-      GenericRecordsModule,
-      LedgerModule,
-      DiscoverFeaturesModule,
-      DidsModule,
-      WalletModule,
-      OutOfBandModule,
-      IndyModule
-    )
+    // Register the core modules, and the modules passed to the agent
+    dependencyManager.registerInstance(InjectionSymbols.AgentModules, this.agentModules)
+    dependencyManager.registerModules(...coreAgentModules, ...Object.values(this.agentModules))
+
+    // The wallet and storage service are registered by a module (e.g. the indy module), or must be registered in
+    // the injection container passed to the agent
+    if (!dependencyManager.isRegistered(InjectionSymbols.Wallet)) {
+      throw new AriesFrameworkError(
+        'No wallet is registered on the agent. Register a wallet in the injection container passed to the agent, or include the IndyModule in the modules passed to the agent'
+      )
+    }
+    if (!dependencyManager.isRegistered(InjectionSymbols.StorageService)) {
+      throw new AriesFrameworkError(
+        'No storage service is registered on the agent. Register a storage service in the injection container passed to the agent, or include the IndyModule in the modules passed to the agent'
+      )
+    }
   }
 }
+
+function isDependencyContainer<Modules extends AgentModulesInput>(
+  options: AgentOptions<Modules> | DependencyContainer
+): options is DependencyContainer {
+  return typeof (options as DependencyContainer).resolve === 'function'
+}
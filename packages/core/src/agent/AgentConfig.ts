@@ -1,6 +1,6 @@
 import type { Logger } from '../logger'
 import type { FileSystem } from '../storage/FileSystem'
-import type { InitConfig } from '../types'
+import type { DidResolutionCacheConfig, InitConfig, OutboxConfig } from '../types'
 import type { AgentDependencies } from './AgentDependencies'
 
 import { Subject } from 'rxjs'
@@ -9,6 +9,7 @@ import { DID_COMM_TRANSPORT_QUEUE } from '../constants'
 import { AriesFrameworkError } from '../error'
 import { ConsoleLogger, LogLevel } from '../logger'
 import { AutoAcceptCredential } from '../modules/credentials/models/CredentialAutoAcceptType'
+import { PeerDidNumAlgo } from '../modules/dids/methods/peer/didPeer'
 import { AutoAcceptProof } from '../modules/proofs/ProofAutoAcceptType'
 import { DidCommMimeType } from '../types'
 
@@ -91,6 +92,40 @@ export class AgentConfig {
     return this.initConfig.maximumMediatorReconnectionIntervalMs ?? Number.POSITIVE_INFINITY
   }
 
+  public get queuedMessageTtlMs() {
+    return this.initConfig.queuedMessageTtlMs
+  }
+
+  public get maximumQueuedMessages() {
+    return this.initConfig.maximumQueuedMessages
+  }
+
+  public get outbox(): Required<OutboxConfig> | undefined {
+    const { outbox } = this.initConfig
+    if (!outbox) return undefined
+
+    return {
+      initialRetryDelayMs: outbox.initialRetryDelayMs ?? 1000,
+      maximumRetryDelayMs: outbox.maximumRetryDelayMs ?? 5 * 60 * 1000,
+      messageTtlMs: outbox.messageTtlMs ?? 24 * 60 * 60 * 1000,
+      pollingIntervalMs: outbox.pollingIntervalMs ?? 1000,
+    }
+  }
+
+  public get didResolutionCache(): Required<DidResolutionCacheConfig> {
+    const { didResolutionCache } = this.initConfig
+
+    return {
+      limit: didResolutionCache?.limit ?? 500,
+      ttlMs: { sov: 5 * 60 * 1000, indy: 5 * 60 * 1000, web: 5 * 60 * 1000, ...didResolutionCache?.ttlMs },
+      persist: didResolutionCache?.persist ?? false,
+    }
+  }
+
+  public get peerNumAlgoForDidExchange() {
+    return this.initConfig.peerNumAlgoForDidExchange ?? PeerDidNumAlgo.GenesisDoc
+  }
+
   public get endpoints(): [string, ...string[]] {
     // if endpoints is not set, return queue endpoint
     // https://github.com/hyperledger/aries-rfcs/issues/405#issuecomment-582612875
@@ -130,10 +165,14 @@ export class AgentConfig {
   }
 
   public extend(config: Partial<InitConfig>): AgentConfig {
-    return new AgentConfig(
-      { ...this.initConfig, logger: this.logger, label: this.label, ...config },
-      this.agentDependencies
-    )
+    return new AgentConfig({ ...this.toInitConfig(), ...config }, this.agentDependencies)
+  }
+
+  /**
+   * Get the init config this agent config was created with. Can be used to create a new agent based on this config.
+   */
+  public toInitConfig(): InitConfig {
+    return { ...this.initConfig, logger: this.logger, label: this.label }
   }
 
   public toString() {
@@ -0,0 +1,74 @@
+import type { Module } from '../plugins'
+
+import { ActionMenuModule } from '../modules/action-menu'
+import { BasicMessagesModule } from '../modules/basic-messages/BasicMessagesModule'
+import { ConnectionsModule } from '../modules/connections/ConnectionsModule'
+import { CredentialsModule } from '../modules/credentials/CredentialsModule'
+import { DidRotateModule } from '../modules/did-rotate/DidRotateModule'
+import { DidsModule } from '../modules/dids/DidsModule'
+import { DiscoverFeaturesModule } from '../modules/discover-features'
+import { GenericRecordsModule } from '../modules/generic-records/GenericRecordsModule'
+import { IndyModule } from '../modules/indy/module'
+import { LedgerModule } from '../modules/ledger/LedgerModule'
+import { OutOfBandModule } from '../modules/oob/OutOfBandModule'
+import { ProofsModule } from '../modules/proofs/ProofsModule'
+import { QuestionAnswerModule } from '../modules/question-answer/QuestionAnswerModule'
+import { MediatorModule } from '../modules/routing/MediatorModule'
+import { RecipientModule } from '../modules/routing/RecipientModule'
+import { W3cVcModule } from '../modules/vc/module'
+import { BackupModule } from '../storage/backup/BackupModule'
+import { WalletModule } from '../wallet/WalletModule'
+
+/**
+ * Modules passed to the agent, keyed by the property under which the api of the module is available
+ * on `agent.modules`.
+ */
+export type AgentModulesInput = Record<string, Module>
+
+/**
+ * The apis of the modules passed to the agent, as available on `agent.modules`.
+ */
+export type AgentModulesApi<Modules extends AgentModulesInput> = {
+  [Key in keyof Modules]: InstanceType<Modules[Key]>
+}
+
+/**
+ * Modules that are required by the agent itself, and are therefore always registered. The apis of these
+ * modules are available as properties on the agent (e.g. `agent.connections`).
+ */
+export const coreAgentModules: Module[] = [
+  ConnectionsModule,
+  OutOfBandModule,
+  MediatorModule,
+  RecipientModule,
+  DiscoverFeaturesModule,
+  GenericRecordsModule,
+  DidsModule,
+  WalletModule,
+  BackupModule,
+]
+
+/**
+ * Get the modules that are registered when no modules are passed to the agent. Spread the default modules to
+ * add custom modules while keeping the default modules:
+ *
+ * @example
+ * const agent = new Agent(config, agentDependencies, {
+ *   modules: { ...getDefaultAgentModules(), myModule: MyModule },
+ * })
+ */
+export function getDefaultAgentModules() {
+  return {
+    credentials: CredentialsModule,
+    proofs: ProofsModule,
+    ledger: LedgerModule,
+    basicMessages: BasicMessagesModule,
+    questionAnswer: QuestionAnswerModule,
+    actionMenu: ActionMenuModule,
+    didRotate: DidRotateModule,
+    indy: IndyModule,
+    w3cVc: W3cVcModule,
+  }
+}
+
+export type DefaultAgentModules = ReturnType<typeof getDefaultAgentModules>
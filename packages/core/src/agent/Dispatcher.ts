@@ -7,12 +7,13 @@ import type { InboundMessageContext } from './models/InboundMessageContext'
 
 import { AgentConfig } from '../agent/AgentConfig'
 import { AriesFrameworkError } from '../error/AriesFrameworkError'
-import { injectable } from '../plugins'
+import { DependencyManager, injectable } from '../plugins'
 import { canHandleMessageType, parseMessageType } from '../utils/messageType'
 
 import { ProblemReportMessage } from './../modules/problem-reports/messages/ProblemReportMessage'
 import { EventEmitter } from './EventEmitter'
 import { AgentEventTypes } from './Events'
+import { runMessageMiddlewares } from './MessageMiddleware'
 import { MessageSender } from './MessageSender'
 import { isOutboundServiceMessage } from './helpers'
 
@@ -21,11 +22,18 @@ class Dispatcher {
   private handlers: Handler[] = []
   private messageSender: MessageSender
   private eventEmitter: EventEmitter
+  private dependencyManager: DependencyManager
   private logger: Logger
 
-  public constructor(messageSender: MessageSender, eventEmitter: EventEmitter, agentConfig: AgentConfig) {
+  public constructor(
+    messageSender: MessageSender,
+    eventEmitter: EventEmitter,
+    dependencyManager: DependencyManager,
+    agentConfig: AgentConfig
+  ) {
     this.messageSender = messageSender
     this.eventEmitter = eventEmitter
+    this.dependencyManager = dependencyManager
     this.logger = agentConfig.logger
   }
 
@@ -35,16 +43,23 @@ class Dispatcher {
 
   public async dispatch(messageContext: InboundMessageContext): Promise<void> {
     const message = messageContext.message
-    const handler = this.getHandlerForType(message.type)
-
-    if (!handler) {
-      throw new AriesFrameworkError(`No handler for message type "${message.type}" found`)
-    }
 
     let outboundMessage: OutboundMessage<AgentMessage> | OutboundServiceMessage<AgentMessage> | void
+    let stopped = false
 
+    // The middlewares are run for every message, also when no handler is registered for the message type. Errors
+    // thrown while handling the message (including a missing handler) can be caught by the middlewares from `next`,
+    // and are turned into a problem report below if they have one.
     try {
-      outboundMessage = await handler.handle(messageContext)
+      stopped = !(await runMessageMiddlewares(this.dependencyManager.inboundMiddlewares, messageContext, async () => {
+        const handler = this.getHandlerForType(message.type)
+
+        if (!handler) {
+          throw new AriesFrameworkError(`No handler for message type "${message.type}" found`)
+        }
+
+        outboundMessage = await handler.handle(messageContext)
+      }))
     } catch (error) {
       const problemReportMessage = error.problemReport
 
@@ -69,6 +84,11 @@ class Dispatcher {
       }
     }
 
+    if (stopped) {
+      this.logger.debug(`Processing of message with type ${message.type} was stopped by inbound middleware`)
+      return
+    }
+
     if (outboundMessage && isOutboundServiceMessage(outboundMessage)) {
       await this.messageSender.sendMessageToService({
         message: outboundMessage.payload,
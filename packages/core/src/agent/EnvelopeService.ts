@@ -1,35 +1,81 @@
+import type { JweEnvelope } from '../crypto/jose'
 import type { Logger } from '../logger'
-import type { EncryptedMessage, PlaintextMessage } from '../types'
+import type { DidCommV2PlaintextMessage, EncryptedMessage, PlaintextMessage, SignedMessage } from '../types'
+import type { DidCommV2KeyReference } from '../wallet/Wallet'
 import type { AgentMessage } from './AgentMessage'
 
 import { InjectionSymbols } from '../constants'
 import { KeyType } from '../crypto'
+import { isJweWithSupportedAlgorithm, parseJweProtectedHeader } from '../crypto/jose'
+import { AriesFrameworkError } from '../error'
 import { Key } from '../modules/dids'
+import { parseDid } from '../modules/dids/domain/parse'
+import { DidResolverService } from '../modules/dids/services/DidResolverService'
 import { ForwardMessage } from '../modules/routing/messages'
 import { inject, injectable } from '../plugins'
+import { DidCommMimeType } from '../types'
+import { JsonEncoder } from '../utils/JsonEncoder'
+import { TypedArrayEncoder } from '../utils/TypedArrayEncoder'
+import { Buffer } from '../utils/buffer'
+import {
+  didCommV2MessageToPlaintextMessage,
+  isDidCommV2PlaintextMessage,
+  isSignedMessage,
+  plaintextMessageToDidCommV2Message,
+} from '../utils/didcommV2Message'
+import { uuid } from '../utils/uuid'
 import { Wallet } from '../wallet/Wallet'
 
 import { AgentConfig } from './AgentConfig'
 
+export const DIDCOMM_V2_FORWARD_MESSAGE_TYPE = 'https://didcomm.org/routing/2.0/forward'
+
 export interface EnvelopeKeys {
   recipientKeys: Key[]
   routingKeys: Key[]
   senderKey: Key | null
 }
 
+/**
+ * Keys used to create a DIDComm v2 envelope. If a sender key is provided the message is packed using authcrypt
+ * (ECDH-1PU), otherwise anoncrypt (ECDH-ES) is used. All keys must be X25519 key agreement keys.
+ */
+export interface DidCommV2EnvelopeKeys {
+  recipientKeys: DidCommV2KeyReference[]
+  routingKeys: DidCommV2KeyReference[]
+  senderKey: DidCommV2KeyReference | null
+}
+
+export function isDidCommV2EnvelopeKeys(keys: EnvelopeKeys | DidCommV2EnvelopeKeys): keys is DidCommV2EnvelopeKeys {
+  return keys.recipientKeys.some((recipientKey) => !(recipientKey instanceof Key))
+}
+
 @injectable()
 export class EnvelopeService {
   private wallet: Wallet
   private logger: Logger
   private config: AgentConfig
+  private didResolverService: DidResolverService
 
-  public constructor(@inject(InjectionSymbols.Wallet) wallet: Wallet, agentConfig: AgentConfig) {
+  public constructor(
+    @inject(InjectionSymbols.Wallet) wallet: Wallet,
+    agentConfig: AgentConfig,
+    didResolverService: DidResolverService
+  ) {
     this.wallet = wallet
     this.logger = agentConfig.logger
     this.config = agentConfig
+    this.didResolverService = didResolverService
   }
 
-  public async packMessage(payload: AgentMessage, keys: EnvelopeKeys): Promise<EncryptedMessage> {
+  public async packMessage(
+    payload: AgentMessage,
+    keys: EnvelopeKeys | DidCommV2EnvelopeKeys
+  ): Promise<EncryptedMessage> {
+    if (isDidCommV2EnvelopeKeys(keys)) {
+      return this.packDidCommV2Message(payload, keys)
+    }
+
     const { recipientKeys, routingKeys, senderKey } = keys
     let recipientKeysBase58 = recipientKeys.map((key) => key.publicKeyBase58)
     const routingKeysBase58 = routingKeys.map((key) => key.publicKeyBase58)
@@ -61,8 +107,48 @@ export class EnvelopeService {
     return encryptedMessage
   }
 
-  public async unpackMessage(encryptedMessage: EncryptedMessage): Promise<DecryptedMessageContext> {
-    const decryptedMessage = await this.wallet.unpack(encryptedMessage)
+  /**
+   * Create a DIDComm v2 signed message (JWS) for the payload. The signer must be an Ed25519 key stored in the wallet.
+   * Signed messages provide non-repudiation and are sent either as is, or wrapped in an encrypted envelope.
+   */
+  public async signMessage(payload: AgentMessage, signer: DidCommV2KeyReference): Promise<SignedMessage> {
+    if (signer.key.keyType !== KeyType.Ed25519) {
+      throw new AriesFrameworkError(`Unable to sign message with key of type '${signer.key.keyType}'`)
+    }
+
+    const message = plaintextMessageToDidCommV2Message(payload.toJSON() as PlaintextMessage, {
+      from: parseDid(signer.kid).did,
+    })
+
+    const protectedHeader = JsonEncoder.toBase64URL({ typ: DidCommMimeType.V2Signed, alg: 'EdDSA', kid: signer.kid })
+    const encodedPayload = JsonEncoder.toBase64URL(message)
+    const signature = await this.wallet.sign(
+      Buffer.from(`${protectedHeader}.${encodedPayload}`),
+      signer.key.publicKeyBase58
+    )
+
+    return {
+      payload: encodedPayload,
+      signatures: [
+        {
+          protected: protectedHeader,
+          signature: TypedArrayEncoder.toBase64URL(signature),
+          header: { kid: signer.kid },
+        },
+      ],
+    }
+  }
+
+  public async unpackMessage(message: EncryptedMessage | SignedMessage): Promise<DecryptedMessageContext> {
+    if (isSignedMessage(message)) {
+      return this.unpackSignedMessage(message)
+    }
+
+    if (isJweWithSupportedAlgorithm(message)) {
+      return this.unpackDidCommV2Message(message)
+    }
+
+    const decryptedMessage = await this.wallet.unpack(message)
     const { recipientKey, senderKey, plaintextMessage } = decryptedMessage
     return {
       recipientKey: recipientKey ? Key.fromPublicKeyBase58(recipientKey, KeyType.Ed25519) : undefined,
@@ -70,10 +156,152 @@ export class EnvelopeService {
       plaintextMessage,
     }
   }
+
+  private async packDidCommV2Message(
+    payload: AgentMessage,
+    { recipientKeys, routingKeys, senderKey }: DidCommV2EnvelopeKeys
+  ): Promise<EncryptedMessage> {
+    const recipientDids = Array.from(new Set(recipientKeys.map(({ kid }) => parseDid(kid).did)))
+    const message = plaintextMessageToDidCommV2Message(payload.toJSON() as PlaintextMessage, {
+      from: senderKey ? parseDid(senderKey.kid).did : undefined,
+      to: recipientDids,
+    })
+
+    this.logger.debug(`Pack outbound DIDComm v2 message ${message.type}`)
+
+    let encryptedMessage = await this.wallet.packDidCommV2(message, {
+      recipientKeys,
+      senderKey: senderKey ?? undefined,
+    })
+
+    // If the message has routing keys (mediator) wrap the message in a forward message for each mediator
+    let next = recipientDids[0]
+    for (const routingKey of routingKeys) {
+      const mediatorDid = parseDid(routingKey.kid).did
+      const forwardMessage: DidCommV2PlaintextMessage = {
+        id: uuid(),
+        type: DIDCOMM_V2_FORWARD_MESSAGE_TYPE,
+        typ: DidCommMimeType.V2Plain,
+        to: [mediatorDid],
+        body: { next },
+        attachments: [{ id: uuid(), data: { json: encryptedMessage } }],
+      }
+      this.logger.debug('Forward message created', forwardMessage)
+
+      // Forward messages are anon packed
+      encryptedMessage = await this.wallet.packDidCommV2(forwardMessage, { recipientKeys: [routingKey] })
+      next = mediatorDid
+    }
+
+    return encryptedMessage
+  }
+
+  private async unpackDidCommV2Message(encryptedMessage: EncryptedMessage): Promise<DecryptedMessageContext> {
+    const jwe = encryptedMessage as unknown as JweEnvelope
+    const { skid } = parseJweProtectedHeader(jwe)
+
+    // Resolve the keys of all recipients. Keys that can't be resolved can't be ours, so we just skip them
+    const recipientKeys: DidCommV2KeyReference[] = []
+    for (const { header } of jwe.recipients) {
+      try {
+        recipientKeys.push({ kid: header.kid, key: await this.resolveKeyReference(header.kid) })
+      } catch (error) {
+        this.logger.debug(`Unable to resolve recipient key ${header.kid}`, { error })
+      }
+    }
+
+    const senderKey = skid ? { kid: skid, key: await this.resolveKeyReference(skid) } : undefined
+
+    const { plaintextMessage, recipientKid } = await this.wallet.unpackDidCommV2(encryptedMessage, {
+      recipientKeys,
+      senderKey,
+    })
+    const recipientKey = recipientKeys.find(({ kid }) => kid === recipientKid)?.key
+
+    // Encrypted messages can contain a signed message
+    if (isSignedMessage(plaintextMessage)) {
+      const signedMessageContext = await this.unpackSignedMessage(plaintextMessage)
+
+      if (senderKey && parseDid(senderKey.kid).did !== parseDid(signedMessageContext.senderKid as string).did) {
+        throw new AriesFrameworkError('The signer of the signed message does not match the sender of the envelope')
+      }
+
+      return {
+        ...signedMessageContext,
+        senderKey: senderKey?.key ?? signedMessageContext.senderKey,
+        senderKid: senderKey?.kid ?? signedMessageContext.senderKid,
+        recipientKey,
+        recipientKid,
+      }
+    }
+
+    if (!isDidCommV2PlaintextMessage(plaintextMessage)) {
+      throw new AriesFrameworkError('Decrypted DIDComm v2 message is not a valid plaintext message')
+    }
+
+    // The from header must match the sender key id for authcrypt messages
+    if (senderKey && plaintextMessage.from !== parseDid(senderKey.kid).did) {
+      throw new AriesFrameworkError(
+        `Message from header '${plaintextMessage.from}' does not match the sender key id '${senderKey.kid}'`
+      )
+    }
+
+    return {
+      plaintextMessage: didCommV2MessageToPlaintextMessage(plaintextMessage),
+      senderKey: senderKey?.key,
+      senderKid: senderKey?.kid,
+      recipientKey,
+      recipientKid,
+    }
+  }
+
+  private async unpackSignedMessage(signedMessage: SignedMessage): Promise<DecryptedMessageContext> {
+    const [signature] = signedMessage.signatures
+    if (!signature || signedMessage.signatures.length > 1) {
+      throw new AriesFrameworkError('Signed message must contain exactly one signature')
+    }
+
+    const { alg, kid } = JsonEncoder.fromBase64(signature.protected)
+    const signerKid: string | undefined = kid ?? signature.header?.kid
+    if (alg !== 'EdDSA' || !signerKid) {
+      throw new AriesFrameworkError(`Unsupported signed message with alg '${alg}' and kid '${signerKid}'`)
+    }
+
+    const signerKey = await this.resolveKeyReference(signerKid)
+    const isValid = await this.wallet.verify(
+      signerKey.publicKeyBase58,
+      Buffer.from(`${signature.protected}.${signedMessage.payload}`),
+      TypedArrayEncoder.fromBase64(signature.signature)
+    )
+    if (!isValid) {
+      throw new AriesFrameworkError('Invalid signature on signed message')
+    }
+
+    const plaintextMessage = JsonEncoder.fromBase64(signedMessage.payload)
+    if (!isDidCommV2PlaintextMessage(plaintextMessage) || plaintextMessage.from !== parseDid(signerKid).did) {
+      throw new AriesFrameworkError('Signed message does not contain a valid plaintext message from the signer')
+    }
+
+    return {
+      plaintextMessage: didCommV2MessageToPlaintextMessage(plaintextMessage),
+      senderKey: signerKey,
+      senderKid: signerKid,
+    }
+  }
+
+  private async resolveKeyReference(kid: string) {
+    return this.didResolverService.dereferenceKey(kid)
+  }
 }
 
 export interface DecryptedMessageContext {
   plaintextMessage: PlaintextMessage
   senderKey?: Key
   recipientKey?: Key
+
+  /**
+   * Key ids of the sender and recipient keys. Only set for DIDComm v2 messages
+   */
+  senderKid?: string
+  recipientKid?: string
 }
@@ -1,9 +1,12 @@
 import type { ConnectionRecord } from '../modules/connections'
+import type { OutboxMessageRecord } from '../storage/outbox'
 import type { AgentMessage } from './AgentMessage'
 
 export enum AgentEventTypes {
   AgentMessageReceived = 'AgentMessageReceived',
   AgentMessageProcessed = 'AgentMessageProcessed',
+  OutboxMessageSent = 'OutboxMessageSent',
+  OutboxMessageFailed = 'OutboxMessageFailed',
 }
 
 export interface BaseEvent {
@@ -26,3 +29,17 @@ export interface AgentMessageProcessedEvent extends BaseEvent {
     connection?: ConnectionRecord
   }
 }
+
+export interface OutboxMessageSentEvent extends BaseEvent {
+  type: typeof AgentEventTypes.OutboxMessageSent
+  payload: {
+    outboxMessageRecord: OutboxMessageRecord
+  }
+}
+
+export interface OutboxMessageFailedEvent extends BaseEvent {
+  type: typeof AgentEventTypes.OutboxMessageFailed
+  payload: {
+    outboxMessageRecord: OutboxMessageRecord
+  }
+}
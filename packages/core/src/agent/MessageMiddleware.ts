@@ -0,0 +1,71 @@
+import type { AgentMessage } from './AgentMessage'
+import type { DidCommV2EnvelopeKeys, EnvelopeKeys } from './EnvelopeService'
+import type { InboundMessageContext } from './models/InboundMessageContext'
+
+import { AriesFrameworkError } from '../error'
+
+export type MessageMiddlewareNext = () => Promise<void>
+
+/**
+ * Middleware that is called for every inbound message before it is passed to the handler of the message, also
+ * when no handler is registered for the message type. The middleware can inspect the message context or mutate
+ * the message, and must call `next` to continue processing the message. Not calling `next` stops processing of
+ * the message. Errors thrown by the handler, or because no handler was found, are thrown from `next`. Throwing an
+ * error with a `problemReport` (e.g. a `ProblemReportError`) stops processing of the message and sends the problem
+ * report to the connection. Messages of a type for which no message class is registered are rejected by the message
+ * receiver before they are dispatched, and are not passed to the middlewares.
+ */
+export type InboundMessageMiddleware = (
+  messageContext: InboundMessageContext,
+  next: MessageMiddlewareNext
+) => Promise<void>
+
+export interface OutboundMessageContext {
+  message: AgentMessage
+  keys: EnvelopeKeys | DidCommV2EnvelopeKeys
+  endpoint?: string
+  connectionId?: string
+}
+
+/**
+ * Middleware that is called for every outbound message before it is packed. The middleware can inspect the
+ * message context or mutate the message, and must call `next` to continue sending the message. Not calling
+ * `next` or throwing an error aborts sending the message.
+ */
+export type OutboundMessageMiddleware = (
+  messageContext: OutboundMessageContext,
+  next: MessageMiddlewareNext
+) => Promise<void>
+
+/**
+ * Run the middlewares in order, calling `last` after the last middleware called `next`.
+ *
+ * @returns whether all middlewares called `next`
+ */
+export async function runMessageMiddlewares<Context>(
+  middlewares: Array<(messageContext: Context, next: MessageMiddlewareNext) => Promise<void>>,
+  messageContext: Context,
+  last: MessageMiddlewareNext
+): Promise<boolean> {
+  let completed = false
+
+  const run = async (index: number): Promise<void> => {
+    if (index === middlewares.length) {
+      completed = true
+      return last()
+    }
+
+    let nextCalled = false
+    await middlewares[index](messageContext, async () => {
+      if (nextCalled) {
+        throw new AriesFrameworkError('next() called multiple times in message middleware')
+      }
+
+      nextCalled = true
+      await run(index + 1)
+    })
+  }
+
+  await run(0)
+  return completed
+}
@@ -1,17 +1,23 @@
 import type { Logger } from '../logger'
 import type { ConnectionRecord } from '../modules/connections'
 import type { InboundTransport } from '../transport'
-import type { PlaintextMessage, EncryptedMessage } from '../types'
+import type { PlaintextMessage, EncryptedMessage, SignedMessage } from '../types'
 import type { AgentMessage } from './AgentMessage'
-import type { DecryptedMessageContext } from './EnvelopeService'
+import type { DecryptedMessageContext, DidCommV2EnvelopeKeys, EnvelopeKeys } from './EnvelopeService'
 import type { TransportSession } from './TransportService'
 
 import { AriesFrameworkError } from '../error'
 import { ConnectionsModule } from '../modules/connections'
+import { parseDid } from '../modules/dids/domain/parse'
 import { ProblemReportError, ProblemReportMessage, ProblemReportReason } from '../modules/problem-reports'
 import { injectable } from '../plugins'
 import { isValidJweStructure } from '../utils/JWE'
 import { JsonTransformer } from '../utils/JsonTransformer'
+import {
+  didCommV2MessageToPlaintextMessage,
+  isDidCommV2PlaintextMessage,
+  isSignedMessage,
+} from '../utils/didcommV2Message'
 import { canHandleMessageType, parseMessageType, replaceLegacyDidSovPrefixOnMessage } from '../utils/messageType'
 
 import { AgentConfig } from './AgentConfig'
@@ -22,6 +28,20 @@ import { TransportService } from './TransportService'
 import { createOutboundMessage } from './helpers'
 import { InboundMessageContext } from './models/InboundMessageContext'
 
+/**
+ * An inbound message router can take over handling of an inbound message before it is processed by the agent
+ * itself. This is used to hand off messages that are addressed to another agent sharing the same transports,
+ * e.g. a tenant hosted by this agent.
+ */
+export interface InboundMessageRouter {
+  /**
+   * Route the inbound message.
+   *
+   * @returns whether the message has been routed. If `false` the message will be processed by this agent.
+   */
+  routeInboundMessage(inboundMessage: EncryptedMessage, session?: TransportSession): Promise<boolean>
+}
+
 @injectable()
 export class MessageReceiver {
   private config: AgentConfig
@@ -32,6 +52,7 @@ export class MessageReceiver {
   private logger: Logger
   private connectionsModule: ConnectionsModule
   public readonly inboundTransports: InboundTransport[] = []
+  private inboundMessageRouters: InboundMessageRouter[] = []
 
   public constructor(
     config: AgentConfig,
@@ -54,6 +75,10 @@ export class MessageReceiver {
     this.inboundTransports.push(inboundTransport)
   }
 
+  public registerInboundMessageRouter(inboundMessageRouter: InboundMessageRouter) {
+    this.inboundMessageRouters.push(inboundMessageRouter)
+  }
+
   /**
    * Receive and handle an inbound DIDComm message. It will decrypt the message, transform it
    * to it's corresponding message class and finally dispatch it to the dispatcher.
@@ -65,24 +90,41 @@ export class MessageReceiver {
     { session, connection }: { session?: TransportSession; connection?: ConnectionRecord }
   ) {
     this.logger.debug(`Agent ${this.config.label} received message`)
-    if (this.isEncryptedMessage(inboundMessage)) {
-      await this.receiveEncryptedMessage(inboundMessage as EncryptedMessage, session)
+    if (this.isEncryptedMessage(inboundMessage) && (await this.routeInboundMessage(inboundMessage, session))) {
+      return
+    } else if (this.isEncryptedMessage(inboundMessage) || isSignedMessage(inboundMessage)) {
+      await this.receiveEncryptedMessage(inboundMessage, session)
     } else if (this.isPlaintextMessage(inboundMessage)) {
       await this.receivePlaintextMessage(inboundMessage, connection)
+    } else if (isDidCommV2PlaintextMessage(inboundMessage)) {
+      await this.receivePlaintextMessage(didCommV2MessageToPlaintextMessage(inboundMessage), connection)
     } else {
       throw new AriesFrameworkError('Unable to parse incoming message: unrecognized format')
     }
   }
 
+  private async routeInboundMessage(encryptedMessage: EncryptedMessage, session?: TransportSession) {
+    for (const inboundMessageRouter of this.inboundMessageRouters) {
+      if (await inboundMessageRouter.routeInboundMessage(encryptedMessage, session)) {
+        return true
+      }
+    }
+
+    return false
+  }
+
   private async receivePlaintextMessage(plaintextMessage: PlaintextMessage, connection?: ConnectionRecord) {
     const message = await this.transformAndValidate(plaintextMessage)
     const messageContext = new InboundMessageContext(message, { connection })
     await this.dispatcher.dispatch(messageContext)
   }
 
-  private async receiveEncryptedMessage(encryptedMessage: EncryptedMessage, session?: TransportSession) {
+  private async receiveEncryptedMessage(
+    encryptedMessage: EncryptedMessage | SignedMessage,
+    session?: TransportSession
+  ) {
     const decryptedMessage = await this.decryptMessage(encryptedMessage)
-    const { plaintextMessage, senderKey, recipientKey } = decryptedMessage
+    const { plaintextMessage, senderKey, recipientKey, senderKid, recipientKid } = decryptedMessage
 
     this.logger.info(
       `Received message with type '${plaintextMessage['@type']}', recipient key ${recipientKey?.fingerprint} and sender key ${senderKey?.fingerprint}`,
@@ -107,11 +149,19 @@ export class MessageReceiver {
     // If `return_route` defines just `thread`, we decide later whether to use session according to outbound message `threadId`.
     if (senderKey && recipientKey && message.hasAnyReturnRoute() && session) {
       this.logger.debug(`Storing session for inbound message '${message.id}'`)
-      const keys = {
-        recipientKeys: [senderKey],
-        routingKeys: [],
-        senderKey: recipientKey,
-      }
+      // DIDComm v2 messages are responded to using a DIDComm v2 envelope
+      const keys: EnvelopeKeys | DidCommV2EnvelopeKeys =
+        senderKid && recipientKid
+          ? {
+              recipientKeys: [{ kid: senderKid, key: senderKey }],
+              routingKeys: [],
+              senderKey: { kid: recipientKid, key: recipientKey },
+            }
+          : {
+              recipientKeys: [senderKey],
+              routingKeys: [],
+              senderKey: recipientKey,
+            }
       session.keys = keys
       session.inboundMessage = message
       // We allow unready connections to be attached to the session as we want to be able to
@@ -133,7 +183,7 @@ export class MessageReceiver {
    *
    * @param message the received inbound message to decrypt
    */
-  private async decryptMessage(message: EncryptedMessage): Promise<DecryptedMessageContext> {
+  private async decryptMessage(message: EncryptedMessage | SignedMessage): Promise<DecryptedMessageContext> {
     try {
       return await this.envelopeService.unpackMessage(message)
     } catch (error) {
@@ -170,16 +220,46 @@ export class MessageReceiver {
       if (connection) await this.sendProblemReportMessage(error.message, connection, plaintextMessage)
       throw error
     }
+
+    // Messages that are received after their expires_time (e.g. when they've been queued at a mediator for
+    // a long time) must not be processed anymore
+    if (message.timing?.isExpired()) {
+      const error = new ProblemReportError(
+        `Message ${message.id} of type ${message.type} expired at ${message.timing.expiresTime?.toISOString()}`,
+        { problemCode: ProblemReportReason.MessageExpired }
+      )
+      this.logger.warn(error.message)
+      if (connection) {
+        await this.sendProblemReportMessage(
+          error.message,
+          connection,
+          plaintextMessage,
+          ProblemReportReason.MessageExpired
+        )
+      }
+      throw error
+    }
+
     return message
   }
 
   private async findConnectionByMessageKeys({
     recipientKey,
     senderKey,
+    recipientKid,
+    senderKid,
   }: DecryptedMessageContext): Promise<ConnectionRecord | null> {
     // We only fetch connections that are sent in AuthCrypt mode
     if (!recipientKey || !senderKey) return null
 
+    // DIDComm v2 messages reference the keys by key id, from which we can directly derive the dids of the connection
+    if (recipientKid && senderKid) {
+      return this.connectionsModule.findByDids({
+        ourDid: parseDid(recipientKid).did,
+        theirDid: parseDid(senderKid).did,
+      })
+    }
+
     // Try to find the did records that holds the sender and recipient keys
     return this.connectionsModule.findByKeys({
       senderKey,
@@ -226,11 +306,13 @@ export class MessageReceiver {
    * @param message error message to send
    * @param connection connection to send the message to
    * @param plaintextMessage received inbound message
+   * @param problemCode the problem code to include in the problem report
    */
   private async sendProblemReportMessage(
     message: string,
     connection: ConnectionRecord,
-    plaintextMessage: PlaintextMessage
+    plaintextMessage: PlaintextMessage,
+    problemCode: ProblemReportReason = ProblemReportReason.MessageParseFailure
   ) {
     const messageType = parseMessageType(plaintextMessage['@type'])
     if (canHandleMessageType(ProblemReportMessage, messageType)) {
@@ -239,7 +321,7 @@ export class MessageReceiver {
     const problemReportMessage = new ProblemReportMessage({
       description: {
         en: message,
-        code: ProblemReportReason.MessageParseFailure,
+        code: problemCode,
       },
     })
     problemReportMessage.setThread({
@@ -1,14 +1,20 @@
 import type { ConnectionRecord } from '../modules/connections'
-import type { ResolvedDidCommService } from '../modules/didcomm'
+import type { ResolvedDidCommService, ResolvedDidCommV2Service } from '../modules/didcomm'
 import type { DidDocument, Key } from '../modules/dids'
 import type { OutOfBandRecord } from '../modules/oob/repository'
 import type { OutboundTransport } from '../transport/OutboundTransport'
-import type { OutboundMessage, OutboundPackage, EncryptedMessage } from '../types'
+import type { OutboundMessage, OutboundPackage, EncryptedMessage, OutboxConfig, PlaintextMessage } from '../types'
+import type { DidCommV2KeyReference } from '../wallet/Wallet'
 import type { AgentMessage } from './AgentMessage'
-import type { EnvelopeKeys } from './EnvelopeService'
+import type { DidCommV2EnvelopeKeys, EnvelopeKeys } from './EnvelopeService'
+import type { OutboundMessageContext } from './MessageMiddleware'
 import type { TransportSession } from './TransportService'
 
+import { timer } from 'rxjs'
+import { concatMap, takeUntil } from 'rxjs/operators'
+
 import { DID_COMM_TRANSPORT_QUEUE, InjectionSymbols } from '../constants'
+import { KeyType } from '../crypto'
 import { ReturnRouteTypes } from '../decorators/transport/TransportDecorator'
 import { AriesFrameworkError } from '../error'
 import { Logger } from '../logger'
@@ -17,12 +23,16 @@ import { getKeyDidMappingByVerificationMethod } from '../modules/dids/domain/key
 import { didKeyToInstanceOfKey } from '../modules/dids/helpers'
 import { DidResolverService } from '../modules/dids/services/DidResolverService'
 import { OutOfBandRepository } from '../modules/oob/repository'
-import { inject, injectable } from '../plugins'
+import { DependencyManager, inject, injectable } from '../plugins'
 import { MessageRepository } from '../storage/MessageRepository'
+import { OutboxMessageRecord, OutboxMessageRepository } from '../storage/outbox'
 import { MessageValidator } from '../utils/MessageValidator'
+import { getExponentialBackoffDelay } from '../utils/backoff'
 import { getProtocolScheme } from '../utils/uri'
 
+import { AgentConfig } from './AgentConfig'
 import { EnvelopeService } from './EnvelopeService'
+import { runMessageMiddlewares } from './MessageMiddleware'
 import { TransportService } from './TransportService'
 
 export interface TransportPriorityOptions {
@@ -39,6 +49,9 @@ export class MessageSender {
   private didResolverService: DidResolverService
   private didCommDocumentService: DidCommDocumentService
   private outOfBandRepository: OutOfBandRepository
+  private outboxMessageRepository: OutboxMessageRepository
+  private dependencyManager: DependencyManager
+  private agentConfig: AgentConfig
   public readonly outboundTransports: OutboundTransport[] = []
 
   public constructor(
@@ -48,7 +61,10 @@ export class MessageSender {
     @inject(InjectionSymbols.Logger) logger: Logger,
     didResolverService: DidResolverService,
     didCommDocumentService: DidCommDocumentService,
-    outOfBandRepository: OutOfBandRepository
+    outOfBandRepository: OutOfBandRepository,
+    outboxMessageRepository: OutboxMessageRepository,
+    dependencyManager: DependencyManager,
+    agentConfig: AgentConfig
   ) {
     this.envelopeService = envelopeService
     this.transportService = transportService
@@ -57,6 +73,9 @@ export class MessageSender {
     this.didResolverService = didResolverService
     this.didCommDocumentService = didCommDocumentService
     this.outOfBandRepository = outOfBandRepository
+    this.outboxMessageRepository = outboxMessageRepository
+    this.dependencyManager = dependencyManager
+    this.agentConfig = agentConfig
     this.outboundTransports = []
   }
 
@@ -68,26 +87,50 @@ export class MessageSender {
     keys,
     message,
     endpoint,
+    connectionId,
   }: {
-    keys: EnvelopeKeys
+    keys: EnvelopeKeys | DidCommV2EnvelopeKeys
     message: AgentMessage
     endpoint: string
+    connectionId?: string
   }): Promise<OutboundPackage> {
-    const encryptedMessage = await this.envelopeService.packMessage(message, keys)
+    const messageContext: OutboundMessageContext = { message, keys, endpoint, connectionId }
+    const encryptedMessage = await this.runMiddlewaresAndPack(messageContext)
 
     return {
       payload: encryptedMessage,
-      responseRequested: message.hasAnyReturnRoute(),
+      responseRequested: messageContext.message.hasAnyReturnRoute(),
       endpoint,
     }
   }
 
-  private async sendMessageToSession(session: TransportSession, message: AgentMessage) {
+  /**
+   * Run the registered outbound middlewares and pack the message of the (possibly mutated) message context.
+   *
+   * @throws {AriesFrameworkError} if a middleware stopped the message from being sent
+   */
+  private async runMiddlewaresAndPack(messageContext: OutboundMessageContext): Promise<EncryptedMessage> {
+    let encryptedMessage: EncryptedMessage | undefined
+
+    await runMessageMiddlewares(this.dependencyManager.outboundMiddlewares, messageContext, async () => {
+      encryptedMessage = await this.envelopeService.packMessage(messageContext.message, messageContext.keys)
+    })
+
+    if (!encryptedMessage) {
+      throw new AriesFrameworkError(
+        `Sending message ${messageContext.message.id} of type ${messageContext.message.type} was stopped by outbound middleware`
+      )
+    }
+
+    return encryptedMessage
+  }
+
+  private async sendMessageToSession(session: TransportSession, message: AgentMessage, connectionId?: string) {
     this.logger.debug(`Existing ${session.type} transport session has been found.`)
     if (!session.keys) {
       throw new AriesFrameworkError(`There are no keys for the given ${session.type} transport session.`)
     }
-    const encryptedMessage = await this.envelopeService.packMessage(message, session.keys)
+    const encryptedMessage = await this.runMiddlewaresAndPack({ message, keys: session.keys, connectionId })
     await session.send(encryptedMessage)
   }
 
@@ -169,6 +212,11 @@ export class MessageSender {
     outboundMessage: OutboundMessage,
     options?: {
       transportPriority?: TransportPriorityOptions
+      /**
+       * Whether to store the message in the outbox if it is undeliverable, so it can be retried later. Only
+       * applies if the outbox is enabled in the agent config. Defaults to `true`
+       */
+      useOutbox?: boolean
     }
   ) {
     const { connection, outOfBand, sessionId, payload } = outboundMessage
@@ -179,6 +227,24 @@ export class MessageSender {
       connectionId: connection.id,
     })
 
+    // The delay_milli of the timing decorator is relative to the time the message is sent
+    setOutTime(payload)
+
+    // Hold back the message until it is due. If the outbox is enabled the message is stored in the outbox, so it
+    // will be sent when it is due, even if the agent is restarted in the meantime.
+    const dueTime = getDueTime(payload)
+    if (dueTime) {
+      const outboxConfig = this.agentConfig.outbox
+      if (outboxConfig && options?.useOutbox !== false) {
+        this.logger.debug(`Message '${payload.id}' is not due yet. Storing message in outbox until ${dueTime}`)
+        await this.addToOutbox(outboundMessage, outboxConfig, { nextRetryAt: dueTime })
+        return
+      }
+
+      this.holdBackMessage(payload, dueTime, () => this.sendMessage(outboundMessage, options))
+      return
+    }
+
     let session: TransportSession | undefined
 
     if (sessionId) {
@@ -192,7 +258,7 @@ export class MessageSender {
     if (session?.inboundMessage?.hasReturnRouting(payload.threadId)) {
       this.logger.debug(`Found session with return routing for message '${payload.id}' (connection '${connection.id}'`)
       try {
-        await this.sendMessageToSession(session, payload)
+        await this.sendMessageToSession(session, payload, connection.id)
         return
       } catch (error) {
         errors.push(error)
@@ -227,6 +293,8 @@ export class MessageSender {
     // as the `from` field in a received message will identity the did used so we don't have to store all keys in tags to be able to find the connections associated with
     // an incoming message.
     const [firstOurAuthenticationKey] = ourAuthenticationKeys
+    // DIDComm v2 messages are authenticated using a key agreement key instead
+    const ourKeyAgreementKey = getX25519KeyAgreementKey(ourDidDocument)
     // If the returnRoute is already set we won't override it. This allows to set the returnRoute manually if this is desired.
     const shouldAddReturnRoute =
       payload.transport?.returnRoute === undefined && !this.transportService.hasInboundEndpoint(ourDidDocument)
@@ -239,6 +307,7 @@ export class MessageSender {
           message: payload,
           service,
           senderKey: firstOurAuthenticationKey,
+          didCommV2SenderKey: ourKeyAgreementKey,
           returnRoute: shouldAddReturnRoute,
           connectionId: connection.id,
         })
@@ -260,17 +329,24 @@ export class MessageSender {
     if (queueService) {
       this.logger.debug(`Queue message for connection ${connection.id} (${connection.theirLabel})`)
 
-      const keys = {
-        recipientKeys: queueService.recipientKeys,
-        routingKeys: queueService.routingKeys,
-        senderKey: firstOurAuthenticationKey,
-      }
+      const keys = getEnvelopeKeys(queueService, firstOurAuthenticationKey, ourKeyAgreementKey)
 
-      const encryptedMessage = await this.envelopeService.packMessage(payload, keys)
+      const encryptedMessage = await this.runMiddlewaresAndPack({ message: payload, keys, connectionId: connection.id })
       await this.messageRepository.add(connection.id, encryptedMessage)
       return
     }
 
+    // Store the message in the outbox, so it can be retried later
+    const outboxConfig = this.agentConfig.outbox
+    if (outboxConfig && options?.useOutbox !== false) {
+      this.logger.warn(
+        `Message is undeliverable to connection ${connection.id} (${connection.theirLabel}). Storing message in outbox to retry later`,
+        { messageId: payload.id, errors }
+      )
+      await this.addToOutbox(outboundMessage, outboxConfig, { lastError: errors[errors.length - 1]?.message })
+      return
+    }
+
     // Message is undeliverable
     this.logger.error(`Message is undeliverable to connection ${connection.id} (${connection.theirLabel})`, {
       message: payload,
@@ -284,12 +360,17 @@ export class MessageSender {
     message,
     service,
     senderKey,
+    didCommV2SenderKey,
     returnRoute,
     connectionId,
   }: {
     message: AgentMessage
     service: ResolvedDidCommService
     senderKey: Key
+    /**
+     * Key agreement key used to authenticate messages sent to DIDComm v2 services. Messages are anoncrypted if not provided
+     */
+    didCommV2SenderKey?: DidCommV2KeyReference
     returnRoute?: boolean
     connectionId?: string
   }) {
@@ -297,16 +378,22 @@ export class MessageSender {
       throw new AriesFrameworkError('Agent has no outbound transport!')
     }
 
+    // Hold back the message until it is due, based on the timing decorator
+    setOutTime(message)
+    const dueTime = getDueTime(message)
+    if (dueTime) {
+      this.holdBackMessage(message, dueTime, () =>
+        this.sendMessageToService({ message, service, senderKey, didCommV2SenderKey, returnRoute, connectionId })
+      )
+      return
+    }
+
     this.logger.debug(`Sending outbound message to service:`, {
       messageId: message.id,
       service: { ...service, recipientKeys: 'omitted...', routingKeys: 'omitted...' },
     })
 
-    const keys = {
-      recipientKeys: service.recipientKeys,
-      routingKeys: service.routingKeys,
-      senderKey,
-    }
+    const keys = getEnvelopeKeys(service, senderKey, didCommV2SenderKey)
 
     // Set return routing for message if requested
     if (returnRoute) {
@@ -327,7 +414,7 @@ export class MessageSender {
       throw error
     }
 
-    const outboundPackage = await this.packMessage({ message, keys, endpoint: service.serviceEndpoint })
+    const outboundPackage = await this.packMessage({ message, keys, endpoint: service.serviceEndpoint, connectionId })
     outboundPackage.endpoint = service.serviceEndpoint
     outboundPackage.connectionId = connectionId
     for (const transport of this.outboundTransports) {
@@ -342,6 +429,63 @@ export class MessageSender {
     throw new AriesFrameworkError(`Unable to send message to service: ${service.serviceEndpoint}`)
   }
 
+  /**
+   * Hold back a message that is not due yet, and send it once it is due. Held back messages are only kept in memory,
+   * so they are not sent if the agent is shutdown before they are due. Errors while sending the message are logged,
+   * as the caller has already returned by then.
+   */
+  private holdBackMessage(message: AgentMessage, dueTime: Date, send: () => Promise<void>) {
+    this.logger.debug(`Message '${message.id}' is not due yet. Holding back message until ${dueTime}`)
+
+    timer(dueTime)
+      .pipe(
+        takeUntil(this.agentConfig.stop$),
+        concatMap(async () => {
+          try {
+            await send()
+          } catch (error) {
+            this.logger.error(`Error sending delayed message '${message.id}'`, {
+              message: error.message,
+              error,
+            })
+          }
+        })
+      )
+      .subscribe()
+  }
+
+  private async addToOutbox(
+    { payload, connection, outOfBand }: OutboundMessage,
+    { initialRetryDelayMs, maximumRetryDelayMs, messageTtlMs }: Required<OutboxConfig>,
+    { nextRetryAt, lastError }: { nextRetryAt?: Date; lastError?: string }
+  ) {
+    const now = Date.now()
+
+    // The message should not be retried after the expires_time of the timing decorator
+    const expiresTime = payload.timing?.expiresTime?.getTime()
+    const expiresAt = expiresTime !== undefined ? Math.min(now + messageTtlMs, expiresTime) : now + messageTtlMs
+
+    await this.outboxMessageRepository.save(
+      new OutboxMessageRecord({
+        createdAt: new Date(now),
+        connectionId: connection.id,
+        outOfBandId: outOfBand?.id,
+        message: payload.toJSON() as PlaintextMessage,
+        nextRetryAt:
+          nextRetryAt ??
+          new Date(
+            now +
+              getExponentialBackoffDelay(0, {
+                initialDelayMs: initialRetryDelayMs,
+                maximumDelayMs: maximumRetryDelayMs,
+              })
+          ),
+        expiresAt: new Date(expiresAt),
+        lastError,
+      })
+    )
+  }
+
   private async retrieveServicesByConnection(
     connection: ConnectionRecord,
     transportPriority?: TransportPriorityOptions,
@@ -422,3 +566,67 @@ function getAuthenticationKeys(didDocument: DidDocument) {
     }) ?? []
   )
 }
+
+/**
+ * Set the out time of a message with a delay, as the delay of the timing decorator is relative to the time the
+ * message is sent.
+ */
+function setOutTime(message: AgentMessage) {
+  if (message.timing?.delayMilli !== undefined && !message.timing.outTime) {
+    message.timing.outTime = new Date()
+  }
+}
+
+/**
+ * Get the time at which the message is due to be sent based on the timing decorator, or `undefined` if the
+ * message can be sent right away.
+ */
+function getDueTime(message: AgentMessage) {
+  const dueTime = message.timing?.getDueTime()
+
+  return dueTime && dueTime.getTime() > Date.now() ? dueTime : undefined
+}
+
+function isResolvedDidCommV2Service(service: ResolvedDidCommService): service is ResolvedDidCommV2Service {
+  return 'recipientKeyIds' in service
+}
+
+/**
+ * Get the envelope keys to pack a message for the service. Messages to DIDComm v2 services are packed using a
+ * DIDComm v2 envelope, which references keys by key id.
+ */
+function getEnvelopeKeys(
+  service: ResolvedDidCommService,
+  senderKey: Key,
+  didCommV2SenderKey?: DidCommV2KeyReference
+): EnvelopeKeys | DidCommV2EnvelopeKeys {
+  if (isResolvedDidCommV2Service(service)) {
+    return {
+      recipientKeys: service.recipientKeys.map((key, index) => ({ kid: service.recipientKeyIds[index], key })),
+      routingKeys: service.routingKeys.map((key, index) => ({ kid: service.routingKeyIds[index], key })),
+      senderKey: didCommV2SenderKey ?? null,
+    }
+  }
+
+  return {
+    recipientKeys: service.recipientKeys,
+    routingKeys: service.routingKeys,
+    senderKey,
+  }
+}
+
+function getX25519KeyAgreementKey(didDocument: DidDocument): DidCommV2KeyReference | undefined {
+  for (const keyAgreement of didDocument.keyAgreement ?? []) {
+    const verificationMethod =
+      typeof keyAgreement === 'string' ? didDocument.dereferenceVerificationMethod(keyAgreement) : keyAgreement
+    const { getKeyFromVerificationMethod } = getKeyDidMappingByVerificationMethod(verificationMethod)
+    const key = getKeyFromVerificationMethod(verificationMethod)
+
+    if (key.keyType === KeyType.X25519) {
+      const kid = verificationMethod.id.startsWith('#')
+        ? `${didDocument.id}${verificationMethod.id}`
+        : verificationMethod.id
+      return { kid, key }
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import type { Logger } from '../logger'
+import type { OutboxMessageRecord } from '../storage/outbox'
+import type { OutboxConfig } from '../types'
+import type { OutboxMessageFailedEvent, OutboxMessageSentEvent } from './Events'
+
+import { interval } from 'rxjs'
+import { exhaustMap, takeUntil } from 'rxjs/operators'
+
+import { ConnectionRepository } from '../modules/connections/repository/ConnectionRepository'
+import { OutOfBandRepository } from '../modules/oob/repository'
+import { injectable } from '../plugins'
+import { OutboxMessageRepository } from '../storage/outbox'
+import { JsonTransformer } from '../utils/JsonTransformer'
+import { getExponentialBackoffDelay } from '../utils/backoff'
+
+import { AgentConfig } from './AgentConfig'
+import { AgentMessage } from './AgentMessage'
+import { EventEmitter } from './EventEmitter'
+import { AgentEventTypes } from './Events'
+import { MessageSender } from './MessageSender'
+import { createOutboundMessage } from './helpers'
+
+/**
+ * Retries sending the messages that are stored in the outbox by the {@link MessageSender}, until they are delivered
+ * or expire. Only active when the outbox is enabled in the agent config.
+ */
+@injectable()
+export class OutboxService {
+  private agentConfig: AgentConfig
+  private messageSender: MessageSender
+  private outboxMessageRepository: OutboxMessageRepository
+  private connectionRepository: ConnectionRepository
+  private outOfBandRepository: OutOfBandRepository
+  private eventEmitter: EventEmitter
+  private logger: Logger
+
+  public constructor(
+    agentConfig: AgentConfig,
+    messageSender: MessageSender,
+    outboxMessageRepository: OutboxMessageRepository,
+    connectionRepository: ConnectionRepository,
+    outOfBandRepository: OutOfBandRepository,
+    eventEmitter: EventEmitter
+  ) {
+    this.agentConfig = agentConfig
+    this.messageSender = messageSender
+    this.outboxMessageRepository = outboxMessageRepository
+    this.connectionRepository = connectionRepository
+    this.outOfBandRepository = outOfBandRepository
+    this.eventEmitter = eventEmitter
+    this.logger = agentConfig.logger
+  }
+
+  /**
+   * Start processing the outbox at the configured polling interval, until the agent is shutdown.
+   */
+  public initialize() {
+    const outboxConfig = this.agentConfig.outbox
+    if (!outboxConfig) return
+
+    interval(outboxConfig.pollingIntervalMs)
+      .pipe(
+        takeUntil(this.agentConfig.stop$),
+        // Skip ticks while the outbox is still being processed
+        exhaustMap(() => this.processOutbox())
+      )
+      .subscribe()
+  }
+
+  /**
+   * Retry all messages in the outbox that are due for a retry, oldest first.
+   */
+  public async processOutbox() {
+    const outboxConfig = this.agentConfig.outbox
+    if (!outboxConfig) return
+
+    try {
+      const now = new Date()
+      const outboxMessageRecords = await this.outboxMessageRepository.getAll()
+
+      const dueOutboxMessageRecords = outboxMessageRecords
+        .filter((outboxMessageRecord) => outboxMessageRecord.nextRetryAt.getTime() <= now.getTime())
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+
+      for (const outboxMessageRecord of dueOutboxMessageRecords) {
+        await this.retryMessage(outboxMessageRecord, outboxConfig, now)
+      }
+    } catch (error) {
+      this.logger.error('Error processing outbox', { error })
+    }
+  }
+
+  private async retryMessage(
+    outboxMessageRecord: OutboxMessageRecord,
+    outboxConfig: Required<OutboxConfig>,
+    now: Date
+  ) {
+    if (outboxMessageRecord.isExpired(now)) {
+      await this.failMessage(outboxMessageRecord)
+      return
+    }
+
+    this.logger.debug(`Retrying outbox message '${outboxMessageRecord.message['@id']}'`, {
+      connectionId: outboxMessageRecord.connectionId,
+      retryCount: outboxMessageRecord.retryCount,
+    })
+
+    try {
+      const connection = await this.connectionRepository.getById(outboxMessageRecord.connectionId)
+      const outOfBand = outboxMessageRecord.outOfBandId
+        ? await this.outOfBandRepository.getById(outboxMessageRecord.outOfBandId)
+        : undefined
+      const message = JsonTransformer.fromJSON(outboxMessageRecord.message, AgentMessage)
+
+      await this.messageSender.sendMessage(createOutboundMessage(connection, message, outOfBand), { useOutbox: false })
+    } catch (error) {
+      await this.scheduleRetry(outboxMessageRecord, outboxConfig, error, now)
+      return
+    }
+
+    await this.outboxMessageRepository.delete(outboxMessageRecord)
+    this.eventEmitter.emit<OutboxMessageSentEvent>({
+      type: AgentEventTypes.OutboxMessageSent,
+      payload: {
+        outboxMessageRecord,
+      },
+    })
+  }
+
+  private async scheduleRetry(
+    outboxMessageRecord: OutboxMessageRecord,
+    { initialRetryDelayMs, maximumRetryDelayMs }: Required<OutboxConfig>,
+    error: Error,
+    now: Date
+  ) {
+    outboxMessageRecord.retryCount += 1
+    outboxMessageRecord.lastError = error.message
+    outboxMessageRecord.nextRetryAt = new Date(
+      now.getTime() +
+        getExponentialBackoffDelay(outboxMessageRecord.retryCount, {
+          initialDelayMs: initialRetryDelayMs,
+          maximumDelayMs: maximumRetryDelayMs,
+        })
+    )
+
+    // Don't schedule a retry after the message has already expired
+    if (outboxMessageRecord.isExpired(outboxMessageRecord.nextRetryAt)) {
+      await this.failMessage(outboxMessageRecord)
+      return
+    }
+
+    await this.outboxMessageRepository.update(outboxMessageRecord)
+  }
+
+  private async failMessage(outboxMessageRecord: OutboxMessageRecord) {
+    this.logger.error(
+      `Outbox message '${outboxMessageRecord.message['@id']}' to connection ${outboxMessageRecord.connectionId} expired before it could be delivered`,
+      { retryCount: outboxMessageRecord.retryCount, lastError: outboxMessageRecord.lastError }
+    )
+
+    await this.outboxMessageRepository.delete(outboxMessageRecord)
+    this.eventEmitter.emit<OutboxMessageFailedEvent>({
+      type: AgentEventTypes.OutboxMessageFailed,
+      payload: {
+        outboxMessageRecord,
+      },
+    })
+  }
+}
@@ -2,7 +2,7 @@ import type { ConnectionRecord } from '../modules/connections/repository'
 import type { DidDocument } from '../modules/dids'
 import type { EncryptedMessage } from '../types'
 import type { AgentMessage } from './AgentMessage'
-import type { EnvelopeKeys } from './EnvelopeService'
+import type { DidCommV2EnvelopeKeys, EnvelopeKeys } from './EnvelopeService'
 
 import { DID_COMM_TRANSPORT_QUEUE } from '../constants'
 import { injectable } from '../plugins'
@@ -39,7 +39,7 @@ interface TransportSessionTable {
 export interface TransportSession {
   id: string
   type: string
-  keys?: EnvelopeKeys
+  keys?: EnvelopeKeys | DidCommV2EnvelopeKeys
   inboundMessage?: AgentMessage
   connection?: ConnectionRecord
   send(encryptedMessage: EncryptedMessage): Promise<void>
@@ -1,7 +1,9 @@
+import type { DependencyManager } from '../../plugins'
 import type { Wallet } from '../../wallet/Wallet'
 
 import { getBaseConfig } from '../../../tests/helpers'
 import { InjectionSymbols } from '../../constants'
+import { AriesFrameworkError } from '../../error'
 import { BasicMessageRepository, BasicMessageService } from '../../modules/basic-messages'
 import { BasicMessagesModule } from '../../modules/basic-messages/BasicMessagesModule'
 import { ConnectionsModule } from '../../modules/connections/ConnectionsModule'
@@ -10,6 +12,7 @@ import { ConnectionService } from '../../modules/connections/services/Connection
 import { TrustPingService } from '../../modules/connections/services/TrustPingService'
 import { CredentialRepository } from '../../modules/credentials'
 import { CredentialsModule } from '../../modules/credentials/CredentialsModule'
+import { IndyModule } from '../../modules/indy/module'
 import { IndyLedgerService } from '../../modules/ledger'
 import { LedgerModule } from '../../modules/ledger/LedgerModule'
 import { ProofRepository, ProofService } from '../../modules/proofs'
@@ -21,11 +24,13 @@ import {
   MediatorService,
   MediationRecipientService,
 } from '../../modules/routing'
+import { injectable, module } from '../../plugins'
 import { InMemoryMessageRepository } from '../../storage/InMemoryMessageRepository'
 import { IndyStorageService } from '../../storage/IndyStorageService'
 import { IndyWallet } from '../../wallet/IndyWallet'
 import { WalletError } from '../../wallet/error'
 import { Agent } from '../Agent'
+import { getDefaultAgentModules } from '../AgentModules'
 import { Dispatcher } from '../Dispatcher'
 import { EnvelopeService } from '../EnvelopeService'
 import { MessageReceiver } from '../MessageReceiver'
@@ -33,6 +38,21 @@ import { MessageSender } from '../MessageSender'
 
 const { config, agentDependencies: dependencies } = getBaseConfig('Agent Class Test')
 
+@module()
+@injectable()
+class MyModule {
+  public initialize = jest.fn()
+  public shutdown = jest.fn()
+
+  public static register(dependencyManager: DependencyManager) {
+    dependencyManager.registerContextScoped(MyModule)
+  }
+
+  public hello() {
+    return 'world'
+  }
+}
+
 describe('Agent', () => {
   describe('Initialization', () => {
     let agent: Agent
@@ -198,4 +218,45 @@ describe('Agent', () => {
       expect(container.resolve(EnvelopeService)).toBe(container.resolve(EnvelopeService))
     })
   })
+
+  describe('Modules', () => {
+    it('registers the default modules if no modules are provided', () => {
+      const agent = new Agent(config, dependencies)
+
+      expect(Object.keys(agent.modules)).toEqual(Object.keys(getDefaultAgentModules()))
+      expect(agent.modules.credentials).toBe(agent.credentials)
+      expect(agent.ledger).toBeInstanceOf(LedgerModule)
+    })
+
+    it('only registers the core modules and the provided modules', () => {
+      const agent = new Agent(config, dependencies, { modules: { indy: IndyModule, myModule: MyModule } })
+
+      expect(agent.modules.myModule).toBeInstanceOf(MyModule)
+      expect(agent.modules.myModule.hello()).toEqual('world')
+      expect(agent.connections).toBeInstanceOf(ConnectionsModule)
+      expect(agent.mediator).toBeInstanceOf(MediatorModule)
+      expect(agent.dependencyManager.registeredModules).not.toContain(CredentialsModule)
+      expect(() => agent.credentials).toThrow(AriesFrameworkError)
+      expect(() => agent.ledger).toThrow(
+        "No module is registered on the agent under the name 'ledger'. Make sure to include the module in the modules passed to the agent"
+      )
+    })
+
+    it('throws an error if no wallet is registered', () => {
+      expect(() => new Agent(config, dependencies, { modules: { myModule: MyModule } })).toThrow(
+        'No wallet is registered on the agent. Register a wallet in the injection container passed to the agent, or include the IndyModule in the modules passed to the agent'
+      )
+    })
+
+    it('calls the lifecycle hooks of the provided modules', async () => {
+      const agent = new Agent(config, dependencies, { modules: { indy: IndyModule, myModule: MyModule } })
+
+      await agent.initialize()
+      expect(agent.modules.myModule.initialize).toHaveBeenCalledTimes(1)
+
+      await agent.wallet.delete()
+      await agent.shutdown()
+      expect(agent.modules.myModule.shutdown).toHaveBeenCalledTimes(1)
+    })
+  })
 })
@@ -59,4 +59,22 @@ describe('AgentConfig', () => {
       })
     })
   })
+
+  describe('toInitConfig', () => {
+    it('returns the init config, including the logger', () => {
+      const agentConfig = new AgentConfig(
+        {
+          label: 'hello',
+          publicDidSeed: 'hello',
+        },
+        agentDependencies
+      )
+
+      expect(agentConfig.toInitConfig()).toEqual({
+        label: 'hello',
+        publicDidSeed: 'hello',
+        logger: agentConfig.logger,
+      })
+    })
+  })
 })
@@ -1,6 +1,9 @@
 import type { Handler } from '../Handler'
 
-import { getAgentConfig } from '../../../tests/helpers'
+import { getAgentConfig, getMockConnection } from '../../../tests/helpers'
+import { AriesFrameworkError } from '../../error'
+import { ProblemReportError, ProblemReportMessage } from '../../modules/problem-reports'
+import { DependencyManager } from '../../plugins'
 import { parseMessageType } from '../../utils/messageType'
 import { AgentMessage } from '../AgentMessage'
 import { Dispatcher } from '../Dispatcher'
@@ -50,6 +53,7 @@ describe('Dispatcher', () => {
   const agentConfig = getAgentConfig('DispatcherTest')
   const MessageSenderMock = MessageSender as jest.Mock<MessageSender>
   const eventEmitter = new EventEmitter(agentConfig)
+  const dependencyManager = new DependencyManager()
   const fakeProtocolHandler = new TestHandler([CustomProtocolMessage])
   const connectionHandler = new TestHandler([
     ConnectionInvitationTestMessage,
@@ -57,7 +61,7 @@ describe('Dispatcher', () => {
     ConnectionResponseTestMessage,
   ])
 
-  const dispatcher = new Dispatcher(new MessageSenderMock(), eventEmitter, agentConfig)
+  const dispatcher = new Dispatcher(new MessageSenderMock(), eventEmitter, dependencyManager, agentConfig)
 
   dispatcher.registerHandler(connectionHandler)
   dispatcher.registerHandler(new TestHandler([NotificationAckTestMessage]))
@@ -138,7 +142,7 @@ describe('Dispatcher', () => {
 
   describe('dispatch()', () => {
     it('calls the handle method of the handler', async () => {
-      const dispatcher = new Dispatcher(new MessageSenderMock(), eventEmitter, agentConfig)
+      const dispatcher = new Dispatcher(new MessageSenderMock(), eventEmitter, dependencyManager, agentConfig)
       const customProtocolMessage = new CustomProtocolMessage()
       const inboundMessageContext = new InboundMessageContext(customProtocolMessage)
 
@@ -151,7 +155,7 @@ describe('Dispatcher', () => {
     })
 
     it('throws an error if no handler for the message could be found', async () => {
-      const dispatcher = new Dispatcher(new MessageSenderMock(), eventEmitter, agentConfig)
+      const dispatcher = new Dispatcher(new MessageSenderMock(), eventEmitter, dependencyManager, agentConfig)
       const customProtocolMessage = new CustomProtocolMessage()
       const inboundMessageContext = new InboundMessageContext(customProtocolMessage)
 
@@ -162,5 +166,124 @@ describe('Dispatcher', () => {
         'No handler for message type "https://didcomm.org/fake-protocol/1.5/message" found'
       )
     })
+
+    it('calls the inbound middlewares in order before the handler', async () => {
+      const dependencyManager = new DependencyManager()
+      const dispatcher = new Dispatcher(new MessageSenderMock(), eventEmitter, dependencyManager, agentConfig)
+      const inboundMessageContext = new InboundMessageContext(new CustomProtocolMessage())
+
+      const calls: string[] = []
+      dependencyManager.registerInboundMiddleware(async (messageContext, next) => {
+        calls.push('first')
+        messageContext.message.setThread({ threadId: 'middleware-thread-id' })
+        await next()
+        calls.push('first after next')
+      })
+      dependencyManager.registerInboundMiddleware(async (_, next) => {
+        calls.push('second')
+        await next()
+      })
+
+      const mockHandle = jest.fn(async (messageContext: InboundMessageContext) => {
+        calls.push(`handler ${messageContext.message.threadId}`)
+      })
+      dispatcher.registerHandler({ supportedMessages: [CustomProtocolMessage], handle: mockHandle })
+
+      await dispatcher.dispatch(inboundMessageContext)
+
+      expect(calls).toEqual(['first', 'second', 'handler middleware-thread-id', 'first after next'])
+    })
+
+    it('does not call the handler if an inbound middleware does not call next', async () => {
+      const dependencyManager = new DependencyManager()
+      const dispatcher = new Dispatcher(new MessageSenderMock(), eventEmitter, dependencyManager, agentConfig)
+
+      dependencyManager.registerInboundMiddleware(async () => {
+        // Not calling next
+      })
+
+      const mockHandle = jest.fn()
+      dispatcher.registerHandler({ supportedMessages: [CustomProtocolMessage], handle: mockHandle })
+
+      await dispatcher.dispatch(new InboundMessageContext(new CustomProtocolMessage()))
+
+      expect(mockHandle).not.toHaveBeenCalled()
+    })
+
+    it('sends the problem report if an inbound middleware throws a problem report error', async () => {
+      const dependencyManager = new DependencyManager()
+      const messageSender = new MessageSenderMock()
+      const sendMessageSpy = jest.spyOn(messageSender, 'sendMessage').mockResolvedValue()
+      const dispatcher = new Dispatcher(messageSender, eventEmitter, dependencyManager, agentConfig)
+      const connection = getMockConnection()
+      const customProtocolMessage = new CustomProtocolMessage()
+      customProtocolMessage.id = 'message-id'
+
+      dependencyManager.registerInboundMiddleware(async () => {
+        throw new ProblemReportError('Message not allowed by policy', { problemCode: 'policy-violation' })
+      })
+
+      const mockHandle = jest.fn()
+      dispatcher.registerHandler({ supportedMessages: [CustomProtocolMessage], handle: mockHandle })
+
+      await dispatcher.dispatch(new InboundMessageContext(customProtocolMessage, { connection }))
+
+      expect(mockHandle).not.toHaveBeenCalled()
+      expect(sendMessageSpy).toHaveBeenCalledWith({
+        payload: expect.any(ProblemReportMessage),
+        connection,
+      })
+      const [[{ payload }]] = sendMessageSpy.mock.calls
+      expect(payload.threadId).toEqual('message-id')
+    })
+
+    it('calls the inbound middlewares for a message without a handler', async () => {
+      const dependencyManager = new DependencyManager()
+      const dispatcher = new Dispatcher(new MessageSenderMock(), eventEmitter, dependencyManager, agentConfig)
+
+      const middlewareErrors: Error[] = []
+      dependencyManager.registerInboundMiddleware(async (_, next) => {
+        try {
+          await next()
+        } catch (error) {
+          middlewareErrors.push(error)
+          throw error
+        }
+      })
+
+      await expect(dispatcher.dispatch(new InboundMessageContext(new CustomProtocolMessage()))).rejects.toThrow(
+        'No handler for message type "https://didcomm.org/fake-protocol/1.5/message" found'
+      )
+      expect(middlewareErrors).toEqual([
+        new AriesFrameworkError('No handler for message type "https://didcomm.org/fake-protocol/1.5/message" found'),
+      ])
+    })
+
+    it('sends the problem report if an inbound middleware throws a problem report error for a message without a handler', async () => {
+      const dependencyManager = new DependencyManager()
+      const messageSender = new MessageSenderMock()
+      const sendMessageSpy = jest.spyOn(messageSender, 'sendMessage').mockResolvedValue()
+      const dispatcher = new Dispatcher(messageSender, eventEmitter, dependencyManager, agentConfig)
+      const connection = getMockConnection()
+      const customProtocolMessage = new CustomProtocolMessage()
+      customProtocolMessage.id = 'message-id'
+
+      dependencyManager.registerInboundMiddleware(async (_, next) => {
+        try {
+          await next()
+        } catch (error) {
+          throw new ProblemReportError('Message type not supported', { problemCode: 'unsupported-message-type' })
+        }
+      })
+
+      await dispatcher.dispatch(new InboundMessageContext(customProtocolMessage, { connection }))
+
+      expect(sendMessageSpy).toHaveBeenCalledWith({
+        payload: expect.any(ProblemReportMessage),
+        connection,
+      })
+      const [[{ payload }]] = sendMessageSpy.mock.calls
+      expect(payload.threadId).toEqual('message-id')
+    })
   })
 })
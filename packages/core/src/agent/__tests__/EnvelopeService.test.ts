@@ -0,0 +1,207 @@
+import type { CacheRepository } from '../../cache'
+import type { DidCommV2PackKeys, Wallet } from '../../wallet/Wallet'
+
+import { generateKeyPair as generateEd25519KeyPair, sign, verify } from '@stablelib/ed25519'
+import { generateKeyPair as generateX25519KeyPair } from '@stablelib/x25519'
+
+import { getAgentConfig } from '../../../tests/helpers'
+import { KeyType } from '../../crypto'
+import { decryptJwe, encryptJwe, parseJweProtectedHeader } from '../../crypto/jose'
+import { BasicMessage } from '../../modules/basic-messages/messages'
+import { DidKey, Key } from '../../modules/dids'
+import { KeyDidResolver } from '../../modules/dids/methods/key/KeyDidResolver'
+import { DidResolutionCacheService } from '../../modules/dids/services/DidResolutionCacheService'
+import { DidResolverService } from '../../modules/dids/services/DidResolverService'
+import { JsonEncoder } from '../../utils/JsonEncoder'
+import { TypedArrayEncoder } from '../../utils/TypedArrayEncoder'
+import { Buffer } from '../../utils/buffer'
+import { DIDCOMM_V2_FORWARD_MESSAGE_TYPE, EnvelopeService } from '../EnvelopeService'
+import { EventEmitter } from '../EventEmitter'
+
+// In memory private keys, indexed by base58 encoded public key
+const privateKeys = new Map<string, Uint8Array>()
+
+const createX25519KeyReference = () => {
+  const { publicKey, secretKey } = generateX25519KeyPair()
+  const didKey = new DidKey(Key.fromPublicKey(publicKey, KeyType.X25519))
+  privateKeys.set(didKey.key.publicKeyBase58, secretKey)
+
+  return { kid: `${didKey.did}#${didKey.key.fingerprint}`, key: didKey.key }
+}
+
+// Wallet that packs DIDComm v2 messages using in memory key pairs
+const wallet = {
+  packDidCommV2: jest.fn(async (payload: Record<string, unknown>, { recipientKeys, senderKey }: DidCommV2PackKeys) =>
+    encryptJwe({
+      plaintext: JsonEncoder.toBuffer(payload),
+      recipients: recipientKeys.map(({ kid, key }) => ({ kid, publicKey: key.publicKey })),
+      sender: senderKey && {
+        kid: senderKey.kid,
+        publicKey: senderKey.key.publicKey,
+        privateKey: privateKeys.get(senderKey.key.publicKeyBase58) as Uint8Array,
+      },
+    })
+  ),
+  unpackDidCommV2: jest.fn(async (jwe, { recipientKeys, senderKey }: DidCommV2PackKeys) => {
+    const recipientKey = recipientKeys.find(({ key }) => privateKeys.has(key.publicKeyBase58))
+    if (!recipientKey) throw new Error('No recipient key found')
+
+    const plaintext = decryptJwe(jwe, {
+      recipient: {
+        kid: recipientKey.kid,
+        publicKey: recipientKey.key.publicKey,
+        privateKey: privateKeys.get(recipientKey.key.publicKeyBase58) as Uint8Array,
+      },
+      senderPublicKey: senderKey?.key.publicKey,
+    })
+
+    return { plaintextMessage: JsonEncoder.fromBuffer(plaintext), recipientKid: recipientKey.kid }
+  }),
+  sign: jest.fn(async (data: Buffer, verkey: string) => Buffer.from(sign(privateKeys.get(verkey) as Uint8Array, data))),
+  verify: jest.fn(async (verkey: string, data: Buffer, signature: Buffer) =>
+    verify(TypedArrayEncoder.fromBase58(verkey), data, signature)
+  ),
+} as unknown as Wallet
+
+describe('EnvelopeService', () => {
+  let envelopeService: EnvelopeService
+
+  const alice = createX25519KeyReference()
+  const bob = createX25519KeyReference()
+  const mediator = createX25519KeyReference()
+
+  beforeEach(() => {
+    const agentConfig = getAgentConfig('EnvelopeServiceTest')
+    const didResolverService = new DidResolverService(
+      agentConfig,
+      [new KeyDidResolver()],
+      new DidResolutionCacheService(agentConfig, {} as CacheRepository, new EventEmitter(agentConfig))
+    )
+
+    envelopeService = new EnvelopeService(wallet, agentConfig, didResolverService)
+  })
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('DIDComm v2', () => {
+    const createMessage = () => {
+      const message = new BasicMessage({ content: 'Hello Bob' })
+      message.setThread({ threadId: 'thread-id', parentThreadId: 'parent-thread-id' })
+      return message
+    }
+
+    it('packs and unpacks an authcrypt message', async () => {
+      const message = createMessage()
+
+      const encryptedMessage = await envelopeService.packMessage(message, {
+        recipientKeys: [bob],
+        routingKeys: [],
+        senderKey: alice,
+      })
+
+      expect(parseJweProtectedHeader(encryptedMessage)).toMatchObject({ alg: 'ECDH-1PU+A256KW', skid: alice.kid })
+      expect(wallet.packDidCommV2).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: message.id,
+          type: message.type,
+          from: alice.kid.split('#')[0],
+          to: [bob.kid.split('#')[0]],
+          thid: 'thread-id',
+          pthid: 'parent-thread-id',
+          body: expect.objectContaining({ content: 'Hello Bob' }),
+        }),
+        { recipientKeys: [bob], senderKey: alice }
+      )
+
+      const decryptedMessage = await envelopeService.unpackMessage(encryptedMessage)
+
+      expect(decryptedMessage).toEqual({
+        plaintextMessage: {
+          '@id': message.id,
+          '@type': message.type,
+          '~thread': { thid: 'thread-id', pthid: 'parent-thread-id' },
+          content: 'Hello Bob',
+          sent_time: expect.any(String),
+          '~l10n': { locale: 'en' },
+        },
+        senderKey: alice.key,
+        senderKid: alice.kid,
+        recipientKey: bob.key,
+        recipientKid: bob.kid,
+      })
+    })
+
+    it('packs and unpacks an anoncrypt message', async () => {
+      const encryptedMessage = await envelopeService.packMessage(createMessage(), {
+        recipientKeys: [bob],
+        routingKeys: [],
+        senderKey: null,
+      })
+
+      expect(parseJweProtectedHeader(encryptedMessage)).toMatchObject({ alg: 'ECDH-ES+A256KW' })
+
+      const decryptedMessage = await envelopeService.unpackMessage(encryptedMessage)
+      expect(decryptedMessage.senderKey).toBeUndefined()
+      expect(decryptedMessage.senderKid).toBeUndefined()
+      expect(decryptedMessage.recipientKid).toEqual(bob.kid)
+    })
+
+    it('wraps the message in a forward message for each routing key', async () => {
+      const encryptedMessage = await envelopeService.packMessage(createMessage(), {
+        recipientKeys: [bob],
+        routingKeys: [mediator],
+        senderKey: alice,
+      })
+
+      const forwardMessage = await envelopeService.unpackMessage(encryptedMessage)
+
+      expect(forwardMessage).toMatchObject({
+        plaintextMessage: {
+          '@type': DIDCOMM_V2_FORWARD_MESSAGE_TYPE,
+          next: bob.kid.split('#')[0],
+          '~attach': [{ '@id': expect.any(String), data: { json: expect.any(Object) } }],
+        },
+        recipientKid: mediator.kid,
+      })
+    })
+  })
+
+  describe('signMessage', () => {
+    const { publicKey, secretKey } = generateEd25519KeyPair()
+    const didKey = new DidKey(Key.fromPublicKey(publicKey, KeyType.Ed25519))
+    privateKeys.set(didKey.key.publicKeyBase58, secretKey)
+    const signer = { kid: `${didKey.did}#${didKey.key.fingerprint}`, key: didKey.key }
+
+    it('creates a signed message that can be unpacked', async () => {
+      const message = new BasicMessage({ content: 'Hello Bob' })
+      const signedMessage = await envelopeService.signMessage(message, signer)
+
+      expect(JsonEncoder.fromBase64(signedMessage.signatures[0].protected)).toEqual({
+        typ: 'application/didcomm-signed+json',
+        alg: 'EdDSA',
+        kid: signer.kid,
+      })
+
+      const decryptedMessage = await envelopeService.unpackMessage(signedMessage)
+      expect(decryptedMessage).toMatchObject({
+        plaintextMessage: { '@id': message.id, '@type': message.type, content: 'Hello Bob' },
+        senderKey: signer.key,
+        senderKid: signer.kid,
+      })
+    })
+
+    it('throws when the signed payload has been tampered with', async () => {
+      const signedMessage = await envelopeService.signMessage(new BasicMessage({ content: 'Hello Bob' }), signer)
+      const payload = JsonEncoder.fromBase64(signedMessage.payload)
+
+      await expect(
+        envelopeService.unpackMessage({
+          ...signedMessage,
+          payload: JsonEncoder.toBase64URL({ ...payload, body: { content: 'Hello Eve' } }),
+        })
+      ).rejects.toThrow('Invalid signature on signed message')
+    })
+  })
+})
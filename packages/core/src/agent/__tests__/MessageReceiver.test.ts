@@ -0,0 +1,104 @@
+import type { EncryptedMessage, PlaintextMessage } from '../../types'
+
+import { TestMessage } from '../../../tests/TestMessage'
+import { getAgentConfig, getMockConnection, mockFunction } from '../../../tests/helpers'
+import { KeyType } from '../../crypto'
+import { ConnectionsModule } from '../../modules/connections/ConnectionsModule'
+import { Key } from '../../modules/dids'
+import { ProblemReportError, ProblemReportMessage, ProblemReportReason } from '../../modules/problem-reports'
+import { Dispatcher } from '../Dispatcher'
+import { EnvelopeService } from '../EnvelopeService'
+import { MessageReceiver } from '../MessageReceiver'
+import { MessageSender } from '../MessageSender'
+import { TransportService } from '../TransportService'
+
+jest.mock('../Dispatcher')
+jest.mock('../EnvelopeService')
+jest.mock('../MessageSender')
+jest.mock('../TransportService')
+jest.mock('../../modules/connections/ConnectionsModule')
+
+const DispatcherMock = Dispatcher as jest.Mock<Dispatcher>
+const EnvelopeServiceMock = EnvelopeService as jest.Mock<EnvelopeService>
+const MessageSenderMock = MessageSender as jest.Mock<MessageSender>
+const TransportServiceMock = TransportService as jest.Mock<TransportService>
+const ConnectionsModuleMock = ConnectionsModule as unknown as jest.Mock<ConnectionsModule>
+
+const encryptedMessage: EncryptedMessage = {
+  protected: 'base64url',
+  iv: 'base64url',
+  ciphertext: 'base64url',
+  tag: 'base64url',
+}
+
+describe('MessageReceiver', () => {
+  const agentConfig = getAgentConfig('MessageReceiverTest')
+  const connection = getMockConnection()
+  const senderKey = Key.fromPublicKeyBase58('EoGusetSxDJktp493VCyh981nUnzMamTRjvBaHZAy68d', KeyType.Ed25519)
+  const recipientKey = Key.fromPublicKeyBase58('8HH5gYEeNc3z7PYXmd54d4x6qAfCNrqQqEB3nS7Zfu7K', KeyType.Ed25519)
+
+  let dispatcher: Dispatcher
+  let envelopeService: EnvelopeService
+  let messageSender: MessageSender
+  let messageReceiver: MessageReceiver
+
+  beforeEach(() => {
+    dispatcher = new DispatcherMock()
+    envelopeService = new EnvelopeServiceMock()
+    messageSender = new MessageSenderMock()
+    const connectionsModule = new ConnectionsModuleMock()
+
+    mockFunction(dispatcher.getMessageClassForType).mockReturnValue(TestMessage)
+    mockFunction(connectionsModule.findByKeys).mockResolvedValue(connection)
+
+    messageReceiver = new MessageReceiver(
+      agentConfig,
+      envelopeService,
+      new TransportServiceMock(),
+      messageSender,
+      connectionsModule,
+      dispatcher
+    )
+  })
+
+  const mockUnpackMessage = (message: TestMessage) =>
+    mockFunction(envelopeService.unpackMessage).mockResolvedValue({
+      plaintextMessage: message.toJSON() as PlaintextMessage,
+      senderKey,
+      recipientKey,
+    })
+
+  it('dispatches a message that has not expired', async () => {
+    const message = new TestMessage()
+    message.setTiming({ expiresTime: new Date(Date.now() + 60000) })
+    mockUnpackMessage(message)
+
+    await messageReceiver.receiveMessage(encryptedMessage, {})
+
+    expect(dispatcher.dispatch).toHaveBeenCalledTimes(1)
+    expect(messageSender.sendMessage).not.toHaveBeenCalled()
+  })
+
+  it('rejects an expired message and sends a message expired problem report', async () => {
+    const message = new TestMessage()
+    const expiresTime = new Date(Date.now() - 60000)
+    message.setTiming({ expiresTime })
+    mockUnpackMessage(message)
+
+    const expectedError = `Message ${message.id} of type ${message.type} expired at ${expiresTime.toISOString()}`
+    await expect(messageReceiver.receiveMessage(encryptedMessage, {})).rejects.toThrow(
+      new ProblemReportError(expectedError, { problemCode: ProblemReportReason.MessageExpired })
+    )
+
+    expect(dispatcher.dispatch).not.toHaveBeenCalled()
+    expect(messageSender.sendMessage).toHaveBeenCalledTimes(1)
+
+    const [[outboundMessage]] = mockFunction(messageSender.sendMessage).mock.calls
+    expect(outboundMessage.connection).toBe(connection)
+    expect(outboundMessage.payload).toBeInstanceOf(ProblemReportMessage)
+    expect(outboundMessage.payload).toMatchObject({
+      description: { en: expectedError, code: ProblemReportReason.MessageExpired },
+      thread: { threadId: message.id },
+    })
+  })
+})
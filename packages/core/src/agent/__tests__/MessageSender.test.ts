@@ -15,7 +15,10 @@ import { DidResolverService, Key, DidDocument, VerificationMethod } from '../../
 import { DidCommV1Service } from '../../modules/dids/domain/service/DidCommV1Service'
 import { verkeyToInstanceOfKey } from '../../modules/dids/helpers'
 import { OutOfBandRepository } from '../../modules/oob'
+import { DependencyManager } from '../../plugins'
 import { InMemoryMessageRepository } from '../../storage/InMemoryMessageRepository'
+import { OutboxMessageRecord, OutboxMessageRepository } from '../../storage/outbox'
+import { sleep } from '../../utils/sleep'
 import { EnvelopeService as EnvelopeServiceImpl } from '../EnvelopeService'
 import { MessageSender } from '../MessageSender'
 import { TransportService } from '../TransportService'
@@ -28,6 +31,7 @@ jest.mock('../EnvelopeService')
 jest.mock('../../modules/dids/services/DidResolverService')
 jest.mock('../../modules/didcomm/services/DidCommDocumentService')
 jest.mock('../../modules/oob/repository/OutOfBandRepository')
+jest.mock('../../storage/outbox/OutboxMessageRepository')
 
 const logger = testLogger
 
@@ -35,6 +39,7 @@ const TransportServiceMock = TransportService as jest.MockedClass<typeof Transpo
 const DidResolverServiceMock = DidResolverService as jest.Mock<DidResolverService>
 const DidCommDocumentServiceMock = DidCommDocumentService as jest.Mock<DidCommDocumentService>
 const OutOfBandRepositoryMock = OutOfBandRepository as jest.Mock<OutOfBandRepository>
+const OutboxMessageRepositoryMock = OutboxMessageRepository as jest.Mock<OutboxMessageRepository>
 
 class DummyHttpOutboundTransport implements OutboundTransport {
   public start(): Promise<void> {
@@ -84,6 +89,9 @@ describe('MessageSender', () => {
   const didResolverService = new DidResolverServiceMock()
   const didCommDocumentService = new DidCommDocumentServiceMock()
   const outOfBandRepository = new OutOfBandRepositoryMock()
+  const outboxMessageRepository = new OutboxMessageRepositoryMock()
+  const dependencyManager = new DependencyManager()
+  const agentConfig = getAgentConfig('MessageSender')
   const didResolverServiceResolveMock = mockFunction(didResolverService.resolveDidDocument)
   const didResolverServiceResolveDidServicesMock = mockFunction(didCommDocumentService.resolveServicesFromDid)
 
@@ -141,7 +149,10 @@ describe('MessageSender', () => {
         logger,
         didResolverService,
         didCommDocumentService,
-        outOfBandRepository
+        outOfBandRepository,
+        outboxMessageRepository,
+        dependencyManager,
+        agentConfig
       )
       connection = getMockConnection({
         id: 'test-123',
@@ -183,6 +194,109 @@ describe('MessageSender', () => {
       )
     })
 
+    test('stores the message in the outbox when there is no service and the outbox is enabled', async () => {
+      messageSender = new MessageSender(
+        enveloperService,
+        transportService,
+        messageRepository,
+        logger,
+        didResolverService,
+        didCommDocumentService,
+        outOfBandRepository,
+        outboxMessageRepository,
+        dependencyManager,
+        getAgentConfig('MessageSender', { outbox: { messageTtlMs: 60000 } })
+      )
+      messageSender.registerOutboundTransport(outboundTransport)
+
+      didResolverServiceResolveMock.mockResolvedValue(getMockDidDocument({ service: [] }))
+      didResolverServiceResolveDidServicesMock.mockResolvedValue([])
+
+      await messageSender.sendMessage(outboundMessage)
+
+      const [[outboxMessageRecord]] = mockFunction(outboxMessageRepository.save).mock.calls
+      expect(outboxMessageRecord).toBeInstanceOf(OutboxMessageRecord)
+      expect(outboxMessageRecord).toMatchObject({
+        connectionId: 'test-123',
+        message: outboundMessage.payload.toJSON(),
+        retryCount: 0,
+      })
+      expect(outboxMessageRecord.expiresAt.getTime() - outboxMessageRecord.createdAt.getTime()).toBe(60000)
+    })
+
+    test('throws an error when there is no service and the outbox is disabled for the message', async () => {
+      messageSender = new MessageSender(
+        enveloperService,
+        transportService,
+        messageRepository,
+        logger,
+        didResolverService,
+        didCommDocumentService,
+        outOfBandRepository,
+        outboxMessageRepository,
+        dependencyManager,
+        getAgentConfig('MessageSender', { outbox: {} })
+      )
+      messageSender.registerOutboundTransport(outboundTransport)
+
+      didResolverServiceResolveMock.mockResolvedValue(getMockDidDocument({ service: [] }))
+      didResolverServiceResolveDidServicesMock.mockResolvedValue([])
+
+      await expect(messageSender.sendMessage(outboundMessage, { useOutbox: false })).rejects.toThrow(
+        `Message is undeliverable to connection test-123 (Test 123)`
+      )
+      expect(outboxMessageRepository.save).not.toHaveBeenCalled()
+    })
+
+    test('stores a message that is not due yet in the outbox until it is due', async () => {
+      messageSender = new MessageSender(
+        enveloperService,
+        transportService,
+        messageRepository,
+        logger,
+        didResolverService,
+        didCommDocumentService,
+        outOfBandRepository,
+        outboxMessageRepository,
+        dependencyManager,
+        getAgentConfig('MessageSender', { outbox: { messageTtlMs: 60000 } })
+      )
+      messageSender.registerOutboundTransport(outboundTransport)
+      const sendMessageSpy = jest.spyOn(outboundTransport, 'sendMessage')
+
+      const expiresTime = new Date(Date.now() + 30000)
+      outboundMessage.payload.setTiming({ delayMilli: 10000, expiresTime })
+
+      await messageSender.sendMessage(outboundMessage)
+
+      const [[outboxMessageRecord]] = mockFunction(outboxMessageRepository.save).mock.calls
+      const outTime = outboundMessage.payload.timing?.outTime as Date
+      expect(outTime).toBeInstanceOf(Date)
+      expect(outboxMessageRecord.nextRetryAt).toEqual(new Date(outTime.getTime() + 10000))
+      expect(outboxMessageRecord.expiresAt).toEqual(expiresTime)
+      expect(sendMessageSpy).not.toHaveBeenCalled()
+    })
+
+    test('holds back a message that is not due yet until it is due when the outbox is not enabled', async () => {
+      messageSender.registerOutboundTransport(outboundTransport)
+      const sendMessageSpy = jest.spyOn(outboundTransport, 'sendMessage')
+
+      outboundMessage.payload.setTiming({ waitUntilTime: new Date(Date.now() + 50) })
+
+      await messageSender.sendMessage(outboundMessage)
+      expect(sendMessageSpy).not.toHaveBeenCalled()
+      expect(outboxMessageRepository.save).not.toHaveBeenCalled()
+
+      await sleep(100)
+      expect(sendMessageSpy).toHaveBeenCalledWith({
+        connectionId: 'test-123',
+        payload: encryptedMessage,
+        endpoint: firstDidCommService.serviceEndpoint,
+        responseRequested: false,
+      })
+      expect(sendMessageSpy).toHaveBeenCalledTimes(1)
+    })
+
     test('call send message when session send method fails', async () => {
       messageSender.registerOutboundTransport(outboundTransport)
       transportServiceFindSessionMock.mockReturnValue(session)
@@ -344,7 +458,10 @@ describe('MessageSender', () => {
         logger,
         didResolverService,
         didCommDocumentService,
-        outOfBandRepository
+        outOfBandRepository,
+        outboxMessageRepository,
+        dependencyManager,
+        agentConfig
       )
 
       envelopeServicePackMessageMock.mockReturnValue(Promise.resolve(encryptedMessage))
@@ -382,6 +499,53 @@ describe('MessageSender', () => {
       expect(sendMessageSpy).toHaveBeenCalledTimes(1)
     })
 
+    test('holds back a message that is not due yet until it is due', async () => {
+      messageSender.registerOutboundTransport(outboundTransport)
+      const sendMessageSpy = jest.spyOn(outboundTransport, 'sendMessage')
+
+      const message = new TestMessage()
+      message.setTiming({ delayMilli: 50 })
+
+      await messageSender.sendMessageToService({ message, senderKey, service })
+      expect(message.timing?.outTime).toBeInstanceOf(Date)
+      expect(sendMessageSpy).not.toHaveBeenCalled()
+
+      await sleep(100)
+      expect(sendMessageSpy).toHaveBeenCalledWith({
+        payload: encryptedMessage,
+        endpoint: service.serviceEndpoint,
+        responseRequested: false,
+      })
+      expect(sendMessageSpy).toHaveBeenCalledTimes(1)
+    })
+
+    test('does not send a message that is held back when the agent is shutdown before it is due', async () => {
+      const agentConfig = getAgentConfig('MessageSenderTest')
+      messageSender = new MessageSender(
+        enveloperService,
+        transportService,
+        new InMemoryMessageRepository(agentConfig),
+        logger,
+        didResolverService,
+        didCommDocumentService,
+        outOfBandRepository,
+        outboxMessageRepository,
+        dependencyManager,
+        agentConfig
+      )
+      messageSender.registerOutboundTransport(outboundTransport)
+      const sendMessageSpy = jest.spyOn(outboundTransport, 'sendMessage')
+
+      const message = new TestMessage()
+      message.setTiming({ waitUntilTime: new Date(Date.now() + 50) })
+
+      await messageSender.sendMessageToService({ message, senderKey, service })
+      agentConfig.stop$.next(true)
+
+      await sleep(100)
+      expect(sendMessageSpy).not.toHaveBeenCalled()
+    })
+
     test('call send message with responseRequested when message has return route', async () => {
       messageSender.registerOutboundTransport(outboundTransport)
       const sendMessageSpy = jest.spyOn(outboundTransport, 'sendMessage')
@@ -403,6 +567,63 @@ describe('MessageSender', () => {
       expect(sendMessageSpy).toHaveBeenCalledTimes(1)
     })
 
+    test('calls the outbound middlewares before packing the message', async () => {
+      const dependencyManager = new DependencyManager()
+      messageSender = new MessageSender(
+        enveloperService,
+        transportService,
+        new InMemoryMessageRepository(getAgentConfig('MessageSenderTest')),
+        logger,
+        didResolverService,
+        didCommDocumentService,
+        outOfBandRepository,
+        outboxMessageRepository,
+        dependencyManager,
+        agentConfig
+      )
+      messageSender.registerOutboundTransport(outboundTransport)
+
+      const message = new TestMessage()
+      dependencyManager.registerOutboundMiddleware(async (messageContext, next) => {
+        messageContext.message.setThread({ threadId: 'middleware-thread-id' })
+        await next()
+      })
+
+      await messageSender.sendMessageToService({ message, senderKey, service, connectionId: 'connection-id' })
+
+      expect(envelopeServicePackMessageMock).toHaveBeenCalledWith(message, expect.any(Object))
+      expect(message.threadId).toEqual('middleware-thread-id')
+    })
+
+    test('throws an error when an outbound middleware does not call next', async () => {
+      const dependencyManager = new DependencyManager()
+      messageSender = new MessageSender(
+        enveloperService,
+        transportService,
+        new InMemoryMessageRepository(getAgentConfig('MessageSenderTest')),
+        logger,
+        didResolverService,
+        didCommDocumentService,
+        outOfBandRepository,
+        outboxMessageRepository,
+        dependencyManager,
+        agentConfig
+      )
+      messageSender.registerOutboundTransport(outboundTransport)
+      const sendMessageSpy = jest.spyOn(outboundTransport, 'sendMessage')
+
+      dependencyManager.registerOutboundMiddleware(async () => {
+        // Not calling next
+      })
+
+      const message = new TestMessage()
+      await expect(messageSender.sendMessageToService({ message, senderKey, service })).rejects.toThrow(
+        `Sending message ${message.id} of type ${message.type} was stopped by outbound middleware`
+      )
+      expect(envelopeServicePackMessageMock).not.toHaveBeenCalled()
+      expect(sendMessageSpy).not.toHaveBeenCalled()
+    })
+
     test('throw error when message endpoint is not supported by outbound transport schemes', async () => {
       messageSender.registerOutboundTransport(new DummyWsOutboundTransport())
       await expect(
@@ -426,7 +647,10 @@ describe('MessageSender', () => {
         logger,
         didResolverService,
         didCommDocumentService,
-        outOfBandRepository
+        outOfBandRepository,
+        outboxMessageRepository,
+        dependencyManager,
+        agentConfig
       )
       connection = getMockConnection()
 
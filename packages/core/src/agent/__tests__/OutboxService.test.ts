@@ -0,0 +1,137 @@
+import type { OutboxMessageFailedEvent, OutboxMessageSentEvent } from '../Events'
+
+import { TestMessage } from '../../../tests/TestMessage'
+import { getAgentConfig, getMockConnection, mockFunction } from '../../../tests/helpers'
+import { ConnectionRepository } from '../../modules/connections/repository/ConnectionRepository'
+import { OutOfBandRepository } from '../../modules/oob/repository'
+import { OutboxMessageRecord, OutboxMessageRepository } from '../../storage/outbox'
+import { EventEmitter } from '../EventEmitter'
+import { AgentEventTypes } from '../Events'
+import { MessageSender } from '../MessageSender'
+import { OutboxService } from '../OutboxService'
+
+jest.mock('../MessageSender')
+jest.mock('../../storage/outbox/OutboxMessageRepository')
+jest.mock('../../modules/connections/repository/ConnectionRepository')
+jest.mock('../../modules/oob/repository/OutOfBandRepository')
+
+const MessageSenderMock = MessageSender as jest.Mock<MessageSender>
+const OutboxMessageRepositoryMock = OutboxMessageRepository as jest.Mock<OutboxMessageRepository>
+const ConnectionRepositoryMock = ConnectionRepository as jest.Mock<ConnectionRepository>
+const OutOfBandRepositoryMock = OutOfBandRepository as jest.Mock<OutOfBandRepository>
+
+const agentConfig = getAgentConfig('OutboxService', {
+  outbox: { initialRetryDelayMs: 1000, maximumRetryDelayMs: 10000, messageTtlMs: 60000 },
+})
+const connection = getMockConnection({ id: 'connection-id' })
+
+describe('OutboxService', () => {
+  let messageSender: MessageSender
+  let outboxMessageRepository: OutboxMessageRepository
+  let connectionRepository: ConnectionRepository
+  let eventEmitter: EventEmitter
+  let outboxService: OutboxService
+
+  const getOutboxMessageRecord = ({ nextRetryAt = new Date(), expiresAt = new Date(Date.now() + 60000) } = {}) =>
+    new OutboxMessageRecord({
+      connectionId: 'connection-id',
+      message: new TestMessage().toJSON() as OutboxMessageRecord['message'],
+      nextRetryAt,
+      expiresAt,
+    })
+
+  beforeEach(() => {
+    messageSender = new MessageSenderMock()
+    outboxMessageRepository = new OutboxMessageRepositoryMock()
+    connectionRepository = new ConnectionRepositoryMock()
+    eventEmitter = new EventEmitter(agentConfig)
+
+    outboxService = new OutboxService(
+      agentConfig,
+      messageSender,
+      outboxMessageRepository,
+      connectionRepository,
+      new OutOfBandRepositoryMock(),
+      eventEmitter
+    )
+
+    mockFunction(connectionRepository.getById).mockResolvedValue(connection)
+  })
+
+  afterEach(() => {
+    jest.resetAllMocks()
+  })
+
+  test('sends due messages and removes them from the outbox', async () => {
+    const outboxMessageRecord = getOutboxMessageRecord()
+    mockFunction(outboxMessageRepository.getAll).mockResolvedValue([
+      outboxMessageRecord,
+      getOutboxMessageRecord({ nextRetryAt: new Date(Date.now() + 10000) }),
+    ])
+
+    const sentListener = jest.fn()
+    eventEmitter.on<OutboxMessageSentEvent>(AgentEventTypes.OutboxMessageSent, sentListener)
+
+    await outboxService.processOutbox()
+
+    expect(messageSender.sendMessage).toHaveBeenCalledTimes(1)
+    const [[outboundMessage, options]] = mockFunction(messageSender.sendMessage).mock.calls
+    expect(outboundMessage.connection).toBe(connection)
+    expect(outboundMessage.payload.toJSON()).toEqual(outboxMessageRecord.message)
+    expect(options).toEqual({ useOutbox: false })
+
+    expect(outboxMessageRepository.delete).toHaveBeenCalledWith(outboxMessageRecord)
+    expect(sentListener).toHaveBeenCalledWith({
+      type: AgentEventTypes.OutboxMessageSent,
+      payload: { outboxMessageRecord },
+    })
+  })
+
+  test('schedules a retry with exponential backoff when sending fails', async () => {
+    const outboxMessageRecord = getOutboxMessageRecord()
+    mockFunction(outboxMessageRepository.getAll).mockResolvedValue([outboxMessageRecord])
+    mockFunction(messageSender.sendMessage).mockRejectedValue(new Error('Message is undeliverable'))
+
+    const now = Date.now()
+    await outboxService.processOutbox()
+
+    expect(outboxMessageRepository.update).toHaveBeenCalledWith(outboxMessageRecord)
+    expect(outboxMessageRecord.retryCount).toBe(1)
+    expect(outboxMessageRecord.lastError).toBe('Message is undeliverable')
+    // Second retry is after 2 seconds, of which half is randomized
+    expect(outboxMessageRecord.nextRetryAt.getTime()).toBeGreaterThanOrEqual(now + 1000)
+    expect(outboxMessageRecord.nextRetryAt.getTime()).toBeLessThanOrEqual(Date.now() + 2000)
+  })
+
+  test('drops expired messages and emits a failed event', async () => {
+    const outboxMessageRecord = getOutboxMessageRecord({ expiresAt: new Date(Date.now() - 1000) })
+    mockFunction(outboxMessageRepository.getAll).mockResolvedValue([outboxMessageRecord])
+
+    const failedListener = jest.fn()
+    eventEmitter.on<OutboxMessageFailedEvent>(AgentEventTypes.OutboxMessageFailed, failedListener)
+
+    await outboxService.processOutbox()
+
+    expect(messageSender.sendMessage).not.toHaveBeenCalled()
+    expect(outboxMessageRepository.delete).toHaveBeenCalledWith(outboxMessageRecord)
+    expect(failedListener).toHaveBeenCalledWith({
+      type: AgentEventTypes.OutboxMessageFailed,
+      payload: { outboxMessageRecord },
+    })
+  })
+
+  test('drops the message when the next retry would be after it expires', async () => {
+    const outboxMessageRecord = getOutboxMessageRecord({ expiresAt: new Date(Date.now() + 100) })
+    mockFunction(outboxMessageRepository.getAll).mockResolvedValue([outboxMessageRecord])
+    mockFunction(messageSender.sendMessage).mockRejectedValue(new Error('Message is undeliverable'))
+
+    const failedListener = jest.fn()
+    eventEmitter.on<OutboxMessageFailedEvent>(AgentEventTypes.OutboxMessageFailed, failedListener)
+
+    await outboxService.processOutbox()
+
+    expect(outboxMessageRepository.update).not.toHaveBeenCalled()
+    expect(outboxMessageRepository.delete).toHaveBeenCalledWith(outboxMessageRecord)
+    expect(failedListener).toHaveBeenCalledTimes(1)
+  })
+})
@@ -8,6 +8,8 @@ export class PersistedLruCache<CacheValue> {
   private cacheId: string
   private limit: number
   private _cache?: LRUMap<string, CacheValue>
+  // The record is kept, so the cache is persisted using the version of the record that is in storage
+  private cacheRecord?: CacheRecord
   private cacheRepository: CacheRepository
 
   public constructor(cacheId: string, limit: number, cacheRepository: CacheRepository) {
@@ -29,10 +31,21 @@ export class PersistedLruCache<CacheValue> {
     await this.persistCache()
   }
 
+  /**
+   * Remove the entry with the given key from the cache. The cache is only persisted if the entry existed.
+   */
+  public async remove(key: string) {
+    const cache = await this.getCache()
+
+    if (cache.delete(key) !== undefined) {
+      await this.persistCache()
+    }
+  }
+
   private async getCache() {
     if (!this._cache) {
-      const cacheRecord = await this.fetchCacheRecord()
-      this._cache = this.lruFromRecord(cacheRecord)
+      this.cacheRecord = await this.fetchCacheRecord()
+      this._cache = this.lruFromRecord(this.cacheRecord)
     }
 
     return this._cache
@@ -62,12 +75,10 @@ export class PersistedLruCache<CacheValue> {
 
   private async persistCache() {
     const cache = await this.getCache()
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const cacheRecord = this.cacheRecord!
 
-    await this.cacheRepository.update(
-      new CacheRecord({
-        entries: cache.toJSON(),
-        id: this.cacheId,
-      })
-    )
+    cacheRecord.entries = cache.toJSON()
+    await this.cacheRepository.update(cacheRecord)
   }
 }
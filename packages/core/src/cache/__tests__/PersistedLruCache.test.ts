@@ -1,4 +1,9 @@
-import { mockFunction } from '../../../tests/helpers'
+import type { BaseRecord } from '../../storage/BaseRecord'
+import type { StorageService } from '../../storage/StorageService'
+
+import { InMemoryStorageService } from '../../../../../tests/InMemoryStorageService'
+import { getAgentConfig, mockFunction } from '../../../tests/helpers'
+import { EventEmitter } from '../../agent/EventEmitter'
 import { CacheRecord } from '../CacheRecord'
 import { CacheRepository } from '../CacheRepository'
 import { PersistedLruCache } from '../PersistedLruCache'
@@ -68,4 +73,44 @@ describe('PersistedLruCache', () => {
     expect(await cache.get('three')).toBeUndefined()
     expect(await cache.get('two')).toBe('valuetwo')
   })
+
+  it('should remove the value from the persisted record', async () => {
+    const updateMock = mockFunction(cacheRepository.update).mockResolvedValue()
+
+    await cache.set('one', 'valueone')
+    await cache.set('two', 'valuetwo')
+    await cache.remove('one')
+
+    expect(updateMock).toHaveBeenCalledTimes(3)
+    const [cacheRecord] = updateMock.mock.calls[2]
+    expect(cacheRecord.entries).toEqual([{ key: 'two', value: 'valuetwo' }])
+    expect(await cache.get('one')).toBeUndefined()
+
+    // Removing a key that is not in the cache doesn't update the record
+    await cache.remove('doesnotexist')
+    expect(updateMock).toHaveBeenCalledTimes(3)
+  })
+
+  it('should persist the cache with a storage service that checks the record version', async () => {
+    const agentConfig = getAgentConfig('PersistedLruCache')
+    const storageService = new InMemoryStorageService<BaseRecord>()
+    const actualCacheRepository = jest.requireActual('../CacheRepository').CacheRepository
+    const persistedCache = new PersistedLruCache<string>(
+      'cacheId',
+      2,
+      new actualCacheRepository(
+        storageService as unknown as StorageService<CacheRecord>,
+        new EventEmitter(agentConfig)
+      ) as CacheRepository
+    )
+
+    await persistedCache.set('one', 'valueone')
+    await persistedCache.set('two', 'valuetwo')
+    await persistedCache.remove('one')
+
+    expect(storageService.records.cacheId.value).toMatchObject({
+      entries: [{ key: 'two', value: 'valuetwo' }],
+      version: 3,
+    })
+  })
 })
@@ -3,6 +3,8 @@ export const InjectionSymbols = {
   MessageRepository: Symbol('MessageRepository'),
   StorageService: Symbol('StorageService'),
   Logger: Symbol('Logger'),
+  AgentModules: Symbol('AgentModules'),
+  DidResolver: Symbol('DidResolver'),
 }
 
 export const DID_COMM_TRANSPORT_QUEUE = 'didcomm:transport/queue'
@@ -1,17 +1,25 @@
 import type { Buffer } from '../utils'
 import type { Jws, JwsGeneralFormat } from './JwsTypes'
+import type { Jwk } from './jose/jwk'
 
 import { InjectionSymbols } from '../constants'
 import { AriesFrameworkError } from '../error'
+import { Key } from '../modules/dids/domain/Key'
 import { inject, injectable } from '../plugins'
 import { JsonEncoder, TypedArrayEncoder } from '../utils'
 import { Wallet } from '../wallet'
 import { WalletError } from '../wallet/error'
 
-// TODO: support more key types, more generic jws format
-const JWS_KEY_TYPE = 'OKP'
-const JWS_CURVE = 'Ed25519'
-const JWS_ALG = 'EdDSA'
+import { KeyType } from './KeyType'
+import { verifyEcdsaSignature } from './ecdsa/curves'
+
+// TODO: support more generic jws format
+const JWS_ALG_KEY_TYPE_MAPPING: Record<string, KeyType> = {
+  EdDSA: KeyType.Ed25519,
+  ES256: KeyType.P256,
+  ES384: KeyType.P384,
+  ES256K: KeyType.K256,
+}
 
 @injectable()
 export class JwsService {
@@ -50,47 +58,65 @@ export class JwsService {
     const signerVerkeys = []
     for (const jws of signatures) {
       const protectedJson = JsonEncoder.fromBase64(jws.protected)
-
-      const isValidKeyType = protectedJson?.jwk?.kty === JWS_KEY_TYPE
-      const isValidCurve = protectedJson?.jwk?.crv === JWS_CURVE
-      const isValidAlg = protectedJson?.alg === JWS_ALG
-
-      if (!isValidKeyType || !isValidCurve || !isValidAlg) {
-        throw new AriesFrameworkError('Invalid protected header')
-      }
+      const key = this.getKeyFromProtectedHeader(protectedJson)
 
       const data = TypedArrayEncoder.fromString(`${jws.protected}.${base64Payload}`)
       const signature = TypedArrayEncoder.fromBase64(jws.signature)
 
-      const verkey = TypedArrayEncoder.toBase58(TypedArrayEncoder.fromBase64(protectedJson?.jwk?.x))
-      signerVerkeys.push(verkey)
-
-      try {
-        const isValid = await this.wallet.verify(verkey, data, signature)
+      signerVerkeys.push(key.publicKeyBase58)
 
-        if (!isValid) {
-          return {
-            isValid: false,
-            signerVerkeys: [],
-          }
-        }
-      } catch (error) {
-        // WalletError probably means signature verification failed. Would be useful to add
-        // more specific error type in wallet.verify method
-        if (error instanceof WalletError) {
-          return {
-            isValid: false,
-            signerVerkeys: [],
-          }
+      const isValid = await this.verifySignature(key, data, signature)
+      if (!isValid) {
+        return {
+          isValid: false,
+          signerVerkeys: [],
         }
-
-        throw error
       }
     }
 
     return { isValid: true, signerVerkeys }
   }
 
+  /**
+   * Get the key of the signer from the `jwk` in the protected header. The key type of the jwk must match the `alg`
+   * of the protected header.
+   */
+  private getKeyFromProtectedHeader(protectedJson: Record<string, unknown> | undefined) {
+    const keyType = JWS_ALG_KEY_TYPE_MAPPING[protectedJson?.alg as string]
+
+    let key: Key
+    try {
+      key = Key.fromJwk(protectedJson?.jwk as Jwk)
+    } catch (error) {
+      throw new AriesFrameworkError('Invalid protected header', { cause: error })
+    }
+
+    if (!keyType || key.keyType !== keyType) {
+      throw new AriesFrameworkError('Invalid protected header')
+    }
+
+    return key
+  }
+
+  private async verifySignature(key: Key, data: Buffer, signature: Buffer) {
+    // Ed25519 signatures are verified using the wallet, other key types are not supported by the wallet
+    if (key.keyType !== KeyType.Ed25519) {
+      return verifyEcdsaSignature({ keyType: key.keyType, publicKey: key.publicKey, data, signature })
+    }
+
+    try {
+      return await this.wallet.verify(key.publicKeyBase58, data, signature)
+    } catch (error) {
+      // WalletError probably means signature verification failed. Would be useful to add
+      // more specific error type in wallet.verify method
+      if (error instanceof WalletError) {
+        return false
+      }
+
+      throw error
+    }
+  }
+
   /**
    * @todo This currently only work with a single alg, key type and curve
    *    This needs to be extended with other formats in the future
@@ -120,5 +146,8 @@ export interface VerifyJwsOptions {
 
 export interface VerifyJwsResult {
   isValid: boolean
+  /**
+   * Base58 encoded public keys of the signers. Public keys of elliptic curve key types are in compressed form.
+   */
   signerVerkeys: string[]
 }
@@ -4,4 +4,7 @@ export enum KeyType {
   Bls12381g1 = 'bls12381g1',
   Bls12381g2 = 'bls12381g2',
   X25519 = 'x25519',
+  P256 = 'p256',
+  P384 = 'p384',
+  K256 = 'k256',
 }
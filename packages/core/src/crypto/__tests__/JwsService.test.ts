@@ -1,8 +1,10 @@
 import type { Wallet } from '@aries-framework/core'
 
+import { createSign, generateKeyPairSync } from 'crypto'
+
 import { getAgentConfig } from '../../../tests/helpers'
 import { DidKey, Key } from '../../modules/dids'
-import { Buffer, JsonEncoder } from '../../utils'
+import { Buffer, JsonEncoder, TypedArrayEncoder } from '../../utils'
 import { IndyWallet } from '../../wallet/IndyWallet'
 import { JwsService } from '../JwsService'
 import { KeyType } from '../KeyType'
@@ -82,6 +84,54 @@ describe('JwsService', () => {
       expect(signerVerkeys).toMatchObject([])
     })
 
+    describe('ES256', () => {
+      const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+      // The uncompressed public key (0x04 || x || y) is at the end of the DER encoded key
+      const uncompressedPublicKey = publicKey.export({ format: 'der', type: 'spki' }).slice(-65)
+      const key = Key.fromJwk({
+        kty: 'EC',
+        crv: 'P-256',
+        x: TypedArrayEncoder.toBase64URL(uncompressedPublicKey.slice(1, 33)),
+        y: TypedArrayEncoder.toBase64URL(uncompressedPublicKey.slice(33)),
+      })
+
+      const payload = JsonEncoder.toBuffer(didJwsz6Mkf.DATA_JSON)
+      const createJws = (protectedHeader: Record<string, unknown>) => {
+        const base64Protected = JsonEncoder.toBase64URL(protectedHeader)
+        const signature = createSign('sha256')
+          .update(`${base64Protected}.${TypedArrayEncoder.toBase64URL(payload)}`)
+          .sign({ key: privateKey, dsaEncoding: 'ieee-p1363' })
+
+        return { protected: base64Protected, signature: TypedArrayEncoder.toBase64URL(signature), header: {} }
+      }
+
+      it('returns true if the jws signature matches the payload', async () => {
+        const { isValid, signerVerkeys } = await jwsService.verifyJws({
+          payload,
+          jws: createJws({ alg: 'ES256', jwk: key.toJwk() }),
+        })
+
+        expect(isValid).toBe(true)
+        expect(signerVerkeys).toEqual([key.publicKeyBase58])
+      })
+
+      it('returns false if the jws signature does not match the payload', async () => {
+        const { isValid, signerVerkeys } = await jwsService.verifyJws({
+          payload: JsonEncoder.toBuffer({ ...didJwsz6Mkf.DATA_JSON, did: 'another_did' }),
+          jws: createJws({ alg: 'ES256', jwk: key.toJwk() }),
+        })
+
+        expect(isValid).toBe(false)
+        expect(signerVerkeys).toMatchObject([])
+      })
+
+      it('throws an error if the alg does not match the key type of the jwk', async () => {
+        await expect(
+          jwsService.verifyJws({ payload, jws: createJws({ alg: 'EdDSA', jwk: key.toJwk() }) })
+        ).rejects.toThrowError('Invalid protected header')
+      })
+    })
+
     it('throws an error if the jws signatures array does not contain a JWS', async () => {
       await expect(
         jwsService.verifyJws({
@@ -0,0 +1,74 @@
+import { createSign, generateKeyPairSync } from 'crypto'
+
+import { TypedArrayEncoder } from '../../../utils'
+import { KeyType } from '../../KeyType'
+import { compressPublicKey, decompressPublicKey, verifyEcdsaSignature } from '../curves'
+
+const curves = [
+  { keyType: KeyType.P256, namedCurve: 'P-256', hash: 'sha256', byteLength: 32 },
+  { keyType: KeyType.P384, namedCurve: 'P-384', hash: 'sha384', byteLength: 48 },
+  { keyType: KeyType.K256, namedCurve: 'secp256k1', hash: 'sha256', byteLength: 32 },
+] as const
+
+describe('ecdsa', () => {
+  describe.each(curves)('$namedCurve', ({ keyType, namedCurve, hash, byteLength }) => {
+    const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve })
+    // The uncompressed public key (0x04 || x || y) is at the end of the DER encoded key
+    const uncompressedPublicKey = publicKey.export({ format: 'der', type: 'spki' }).slice(-(2 * byteLength + 1))
+    const x = uncompressedPublicKey.slice(1, byteLength + 1)
+    const y = uncompressedPublicKey.slice(byteLength + 1)
+    const compressedPublicKey = compressPublicKey(keyType, uncompressedPublicKey)
+
+    const data = TypedArrayEncoder.fromString('Hello, world!')
+    const signature = createSign(hash).update(data).sign({ key: privateKey, dsaEncoding: 'ieee-p1363' })
+
+    it('should compress and decompress a public key', () => {
+      expect(compressedPublicKey).toHaveLength(byteLength + 1)
+      expect(decompressPublicKey(keyType, compressedPublicKey)).toEqual({
+        x: Uint8Array.from(x),
+        y: Uint8Array.from(y),
+      })
+    })
+
+    it('should throw an error when compressing a public key that is not on the curve', () => {
+      const invalidY = Uint8Array.from(y)
+      invalidY[invalidY.length - 1] ^= 1
+
+      expect(() => compressPublicKey(keyType, Uint8Array.from([...x, ...invalidY]))).toThrow(
+        `Public key is not a point on curve ${namedCurve}`
+      )
+    })
+
+    it('should verify a valid signature', () => {
+      expect(verifyEcdsaSignature({ keyType, publicKey: compressedPublicKey, data, signature })).toBe(true)
+    })
+
+    it('should not verify an invalid signature', () => {
+      const invalidSignature = Uint8Array.from(signature)
+      invalidSignature[0] ^= 1
+
+      expect(verifyEcdsaSignature({ keyType, publicKey: compressedPublicKey, data, signature: invalidSignature })).toBe(
+        false
+      )
+      expect(
+        verifyEcdsaSignature({
+          keyType,
+          publicKey: compressedPublicKey,
+          data: TypedArrayEncoder.fromString('Hello, world?'),
+          signature,
+        })
+      ).toBe(false)
+    })
+  })
+
+  it('should throw an error for key types that are not elliptic curve key types', () => {
+    expect(() =>
+      verifyEcdsaSignature({
+        keyType: KeyType.Ed25519,
+        publicKey: new Uint8Array(32),
+        data: new Uint8Array(),
+        signature: new Uint8Array(64),
+      })
+    ).toThrow("Key type 'ed25519' is not an elliptic curve key type")
+  })
+})
@@ -0,0 +1,96 @@
+import { hash as sha256 } from '@stablelib/sha256'
+import { hash as sha384 } from '@stablelib/sha384'
+import { ec as EC } from 'elliptic'
+
+import { AriesFrameworkError } from '../../error'
+import { KeyType } from '../KeyType'
+
+const ellipticCurveKeyTypeMapping = {
+  [KeyType.P256]: { curve: new EC('p256'), name: 'P-256', hash: sha256 },
+  [KeyType.P384]: { curve: new EC('p384'), name: 'P-384', hash: sha384 },
+  [KeyType.K256]: { curve: new EC('secp256k1'), name: 'secp256k1', hash: sha256 },
+}
+
+export type EllipticCurveKeyType = keyof typeof ellipticCurveKeyTypeMapping
+
+export function isEllipticCurveKeyType(keyType: KeyType): keyType is EllipticCurveKeyType {
+  return keyType in ellipticCurveKeyTypeMapping
+}
+
+function getEllipticCurve(keyType: KeyType) {
+  if (!isEllipticCurveKeyType(keyType)) {
+    throw new AriesFrameworkError(`Key type '${keyType}' is not an elliptic curve key type`)
+  }
+
+  const { curve, name, hash } = ellipticCurveKeyTypeMapping[keyType]
+  return { curve, name, hash, byteLength: curve.curve.p.byteLength() as number }
+}
+
+/**
+ * Decode a public key in SEC1 compressed (`0x02 || x` or `0x03 || x`) or uncompressed (`x || y`, optionally
+ * prefixed with `0x04`) form, and make sure it is a valid point on the curve.
+ */
+function decodePublicKey(keyType: KeyType, publicKey: Uint8Array) {
+  const { curve, name, byteLength } = getEllipticCurve(keyType)
+  const encodedPublicKey = publicKey.length === 2 * byteLength ? Uint8Array.from([0x04, ...publicKey]) : publicKey
+
+  let keyPair
+  try {
+    keyPair = curve.keyFromPublic(Array.from(encodedPublicKey))
+  } catch (error) {
+    throw new AriesFrameworkError(`Invalid public key for curve ${name}`, { cause: error })
+  }
+
+  const point = keyPair.getPublic()
+  if (point.isInfinity() || !curve.curve.validate(point)) {
+    throw new AriesFrameworkError(`Public key is not a point on curve ${name}`)
+  }
+
+  return keyPair
+}
+
+/**
+ * Compress a public key (`x || y`, optionally prefixed with `0x04`) into the SEC1 compressed form, as used in
+ * `did:key` and the `Key` class.
+ */
+export function compressPublicKey(keyType: EllipticCurveKeyType, publicKey: Uint8Array) {
+  return Uint8Array.from(decodePublicKey(keyType, publicKey).getPublic().encode('array', true))
+}
+
+/**
+ * Get the `x` and `y` coordinates of a public key in SEC1 compressed form
+ */
+export function decompressPublicKey(keyType: EllipticCurveKeyType, publicKey: Uint8Array) {
+  const { byteLength } = getEllipticCurve(keyType)
+  const uncompressedPublicKey = decodePublicKey(keyType, publicKey).getPublic().encode('array', false)
+
+  return {
+    x: Uint8Array.from(uncompressedPublicKey.slice(1, byteLength + 1)),
+    y: Uint8Array.from(uncompressedPublicKey.slice(byteLength + 1)),
+  }
+}
+
+/**
+ * Verify an ECDSA signature (in the `r || s` format) over the data. The data is hashed using the hash function
+ * associated with the key type (SHA-256 for P-256 and secp256k1, SHA-384 for P-384), as used by the JWS
+ * `ES256`, `ES384` and `ES256K` algorithms.
+ */
+export function verifyEcdsaSignature({
+  keyType,
+  publicKey,
+  data,
+  signature,
+}: {
+  keyType: KeyType
+  publicKey: Uint8Array
+  data: Uint8Array
+  signature: Uint8Array
+}) {
+  const { curve, hash, byteLength } = getEllipticCurve(keyType)
+  if (signature.length !== 2 * byteLength) return false
+
+  const r = signature.slice(0, byteLength)
+  const s = signature.slice(byteLength)
+
+  return curve.verify(Array.from(hash(data)), { r, s }, decodePublicKey(keyType, publicKey))
+}
@@ -0,0 +1,2 @@
+export { compressPublicKey, decompressPublicKey, isEllipticCurveKeyType, verifyEcdsaSignature } from './curves'
+export type { EllipticCurveKeyType } from './curves'
@@ -0,0 +1,44 @@
+export enum JweAlgorithm {
+  /** Anonymous encryption: ECDH-ES key agreement with AES key wrap */
+  EcdhEsA256Kw = 'ECDH-ES+A256KW',
+  /** Authenticated encryption: ECDH-1PU key agreement with AES key wrap */
+  Ecdh1PuA256Kw = 'ECDH-1PU+A256KW',
+}
+
+export enum JweEncryption {
+  A256CbcHs512 = 'A256CBC-HS512',
+}
+
+export interface JweEphemeralPublicKey {
+  kty: 'OKP'
+  crv: 'X25519'
+  x: string
+}
+
+export interface JweProtectedHeader {
+  typ?: string
+  alg: JweAlgorithm
+  enc: JweEncryption
+  epk: JweEphemeralPublicKey
+  apu?: string
+  apv: string
+  skid?: string
+}
+
+export interface JweRecipient {
+  encrypted_key: string
+  header: {
+    kid: string
+  }
+}
+
+/**
+ * JWE in General JSON Serialization (RFC 7516, section 7.2.1)
+ */
+export interface JweEnvelope {
+  protected: string
+  recipients: JweRecipient[]
+  iv: string
+  ciphertext: string
+  tag: string
+}
@@ -0,0 +1,99 @@
+import { generateKeyPair } from '@stablelib/x25519'
+
+import { JsonEncoder } from '../../../utils/JsonEncoder'
+import { TypedArrayEncoder } from '../../../utils/TypedArrayEncoder'
+import { Buffer } from '../../../utils/buffer'
+import { JweAlgorithm, JweEncryption } from '../JweTypes'
+import { decryptJwe, encryptJwe, isJweWithSupportedAlgorithm, parseJweProtectedHeader } from '../jwe'
+
+const createKeyPair = (kid: string) => {
+  const { publicKey, secretKey } = generateKeyPair()
+  return { kid, publicKey, privateKey: secretKey }
+}
+
+describe('jwe', () => {
+  const alice = createKeyPair('did:example:alice#key-x25519-1')
+  const bob = createKeyPair('did:example:bob#key-x25519-1')
+  const carol = createKeyPair('did:example:carol#key-x25519-1')
+  const plaintext = TypedArrayEncoder.fromString(JsonEncoder.toString({ id: '1234567890', body: { hello: 'world' } }))
+
+  describe('anoncrypt', () => {
+    it('encrypts a payload using ECDH-ES for multiple recipients', () => {
+      const jwe = encryptJwe({ plaintext, recipients: [bob, carol], typ: 'application/didcomm-encrypted+json' })
+
+      const protectedHeader = parseJweProtectedHeader(jwe)
+      expect(protectedHeader).toMatchObject({
+        typ: 'application/didcomm-encrypted+json',
+        alg: JweAlgorithm.EcdhEsA256Kw,
+        enc: JweEncryption.A256CbcHs512,
+        epk: { kty: 'OKP', crv: 'X25519', x: expect.any(String) },
+        apv: expect.any(String),
+      })
+      expect(protectedHeader.skid).toBeUndefined()
+      expect(protectedHeader.apu).toBeUndefined()
+      expect(jwe.recipients.map((recipient) => recipient.header.kid)).toEqual([bob.kid, carol.kid])
+
+      expect(Buffer.from(decryptJwe(jwe, { recipient: bob }))).toEqual(plaintext)
+      expect(Buffer.from(decryptJwe(jwe, { recipient: carol }))).toEqual(plaintext)
+    })
+
+    it('throws when decrypting with a key that is not a recipient', () => {
+      const jwe = encryptJwe({ plaintext, recipients: [bob] })
+
+      expect(() => decryptJwe(jwe, { recipient: carol })).toThrow(`No JWE recipient found for key id '${carol.kid}'`)
+    })
+  })
+
+  describe('authcrypt', () => {
+    it('encrypts a payload using ECDH-1PU and includes the sender key id', () => {
+      const jwe = encryptJwe({ plaintext, recipients: [bob], sender: alice })
+
+      expect(parseJweProtectedHeader(jwe)).toMatchObject({
+        alg: JweAlgorithm.Ecdh1PuA256Kw,
+        enc: JweEncryption.A256CbcHs512,
+        skid: alice.kid,
+        apu: TypedArrayEncoder.toBase64URL(TypedArrayEncoder.fromString(alice.kid)),
+      })
+
+      expect(Buffer.from(decryptJwe(jwe, { recipient: bob, senderPublicKey: alice.publicKey }))).toEqual(plaintext)
+    })
+
+    it('throws when the sender public key is not provided or incorrect', () => {
+      const jwe = encryptJwe({ plaintext, recipients: [bob], sender: alice })
+
+      expect(() => decryptJwe(jwe, { recipient: bob })).toThrow(
+        'The sender public key is required to decrypt an authenticated JWE'
+      )
+      expect(() => decryptJwe(jwe, { recipient: bob, senderPublicKey: carol.publicKey })).toThrow()
+    })
+
+    it('throws when the ciphertext has been tampered with', () => {
+      const jwe = encryptJwe({ plaintext, recipients: [bob], sender: alice })
+      const ciphertext = TypedArrayEncoder.fromBase64(jwe.ciphertext)
+      ciphertext[0] ^= 0x01
+
+      expect(() =>
+        decryptJwe(
+          { ...jwe, ciphertext: TypedArrayEncoder.toBase64URL(ciphertext) },
+          { recipient: bob, senderPublicKey: alice.publicKey }
+        )
+      ).toThrow()
+    })
+  })
+
+  describe('isJweWithSupportedAlgorithm', () => {
+    it('returns true for DIDComm v2 JWEs', () => {
+      expect(isJweWithSupportedAlgorithm(encryptJwe({ plaintext, recipients: [bob] }))).toBe(true)
+    })
+
+    it('returns false for DIDComm v1 JWEs', () => {
+      const protectedHeader = JsonEncoder.toBase64URL({
+        enc: 'xchacha20poly1305_ietf',
+        typ: 'JWM/1.0',
+        alg: 'Authcrypt',
+      })
+
+      expect(isJweWithSupportedAlgorithm({ protected: protectedHeader })).toBe(false)
+    })
+  })
+})
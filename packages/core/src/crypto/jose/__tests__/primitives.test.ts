@@ -0,0 +1,61 @@
+import { TypedArrayEncoder } from '../../../utils/TypedArrayEncoder'
+import { Buffer } from '../../../utils/buffer'
+import { decryptA256CbcHs512, encryptA256CbcHs512 } from '../aesCbcHmacSha2'
+import { aesKeyUnwrap, aesKeyWrap } from '../aesKeyWrap'
+
+const fromHex = (hex: string) => Buffer.from(hex, 'hex')
+
+describe('jose primitives', () => {
+  describe('AES Key Wrap', () => {
+    // RFC 3394, section 4.6: wrap 256 bits of key data with a 256-bit KEK
+    const kek = fromHex('000102030405060708090A0B0C0D0E0F101112131415161718191A1B1C1D1E1F')
+    const key = fromHex('00112233445566778899AABBCCDDEEFF000102030405060708090A0B0C0D0E0F')
+    const wrappedKey = fromHex('28C9F404C4B810F4CBCCB35CFB87F8263F5786E2D80ED326CBC7F0E71A99F43BFB988B9B7A02DD21')
+
+    it('wraps a key according to the RFC 3394 test vector', () => {
+      expect(Buffer.from(aesKeyWrap(kek, key))).toEqual(wrappedKey)
+    })
+
+    it('unwraps a key according to the RFC 3394 test vector', () => {
+      expect(Buffer.from(aesKeyUnwrap(kek, wrappedKey))).toEqual(key)
+    })
+
+    it('throws when the integrity check fails', () => {
+      const tamperedKey = Buffer.from(wrappedKey)
+      tamperedKey[10] ^= 0x01
+
+      expect(() => aesKeyUnwrap(kek, tamperedKey)).toThrow('Unable to unwrap key: integrity check failed')
+    })
+  })
+
+  describe('A256CBC-HS512', () => {
+    // RFC 7518, appendix B.3
+    const key = new Uint8Array(64).map((_, index) => index)
+    const iv = fromHex('1af38c2dc2b96ffdd86694092341bc04')
+    const plaintext = TypedArrayEncoder.fromString(
+      'A cipher system must not be required to be secret, and it must be able to fall into the hands of the enemy without inconvenience'
+    )
+    const aad = TypedArrayEncoder.fromString('The second principle of Auguste Kerckhoffs')
+    const ciphertext = fromHex(
+      '4affaaadb78c31c5da4b1b590d10ffbd3dd8d5d302423526912da037ecbcc7bd822c301dd67c373bccb584ad3e9279c2e6d12a1374b77f077553df829410446b36ebd97066296ae6427ea75c2e0846a11a09ccf5370dc80bfecbad28c73f09b3a3b75e662a2594410ae496b2e2e6609e31e6e02cc837f053d21f37ff4f51950bbe2638d09dd7a4930930806d0703b1f6'
+    )
+    const tag = fromHex('4dd3b4c088a7f45c216839645b2012bf2e6269a8c56a816dbc1b267761955bc5')
+
+    it('encrypts according to the RFC 7518 test vector', () => {
+      const result = encryptA256CbcHs512({ key, iv, plaintext, aad })
+
+      expect(Buffer.from(result.ciphertext)).toEqual(ciphertext)
+      expect(Buffer.from(result.tag)).toEqual(tag)
+    })
+
+    it('decrypts according to the RFC 7518 test vector', () => {
+      expect(Buffer.from(decryptA256CbcHs512({ key, iv, ciphertext, tag, aad }))).toEqual(plaintext)
+    })
+
+    it('throws when the authentication tag is invalid', () => {
+      expect(() =>
+        decryptA256CbcHs512({ key, iv, ciphertext, tag, aad: TypedArrayEncoder.fromString('other aad') })
+      ).toThrow('Unable to decrypt content: invalid authentication tag')
+    })
+  })
+})
@@ -0,0 +1,151 @@
+import { AES } from '@stablelib/aes'
+import { equal, hmac } from '@stablelib/hmac'
+import { SHA512 } from '@stablelib/sha512'
+
+import { AriesFrameworkError } from '../../error'
+import { Buffer } from '../../utils/buffer'
+
+const BLOCK_SIZE = 16
+
+// A256CBC-HS512 uses a 64 byte key, split in a 32 byte MAC key and a 32 byte encryption key.
+export const A256CBC_HS512_KEY_LENGTH = 64
+export const A256CBC_HS512_IV_LENGTH = 16
+const A256CBC_HS512_TAG_LENGTH = 32
+
+/**
+ * Encrypt the plaintext using the `A256CBC-HS512` JWE content encryption algorithm (RFC 7518, section 5.2).
+ */
+export function encryptA256CbcHs512({
+  key,
+  iv,
+  plaintext,
+  aad,
+}: {
+  key: Uint8Array
+  iv: Uint8Array
+  plaintext: Uint8Array
+  aad: Uint8Array
+}) {
+  const { macKey, encKey } = splitKey(key)
+
+  const ciphertext = aesCbcEncrypt(encKey, iv, pkcs7Pad(plaintext))
+  const tag = computeTag(macKey, aad, iv, ciphertext)
+
+  return { ciphertext, tag }
+}
+
+/**
+ * Decrypt the ciphertext using the `A256CBC-HS512` JWE content encryption algorithm (RFC 7518, section 5.2).
+ * Throws if the authentication tag is not valid.
+ */
+export function decryptA256CbcHs512({
+  key,
+  iv,
+  ciphertext,
+  tag,
+  aad,
+}: {
+  key: Uint8Array
+  iv: Uint8Array
+  ciphertext: Uint8Array
+  tag: Uint8Array
+  aad: Uint8Array
+}) {
+  const { macKey, encKey } = splitKey(key)
+
+  if (!equal(computeTag(macKey, aad, iv, ciphertext), tag)) {
+    throw new AriesFrameworkError('Unable to decrypt content: invalid authentication tag')
+  }
+
+  if (iv.length !== A256CBC_HS512_IV_LENGTH || ciphertext.length === 0 || ciphertext.length % BLOCK_SIZE !== 0) {
+    throw new AriesFrameworkError('Unable to decrypt content: invalid iv or ciphertext length')
+  }
+
+  return pkcs7Unpad(aesCbcDecrypt(encKey, iv, ciphertext))
+}
+
+function splitKey(key: Uint8Array) {
+  if (key.length !== A256CBC_HS512_KEY_LENGTH) {
+    throw new AriesFrameworkError(`A256CBC-HS512 requires a key of ${A256CBC_HS512_KEY_LENGTH} bytes`)
+  }
+
+  return { macKey: key.subarray(0, 32), encKey: key.subarray(32) }
+}
+
+function computeTag(macKey: Uint8Array, aad: Uint8Array, iv: Uint8Array, ciphertext: Uint8Array) {
+  // AL is the number of bits in the aad as a 64 bit big endian integer
+  const al = uint64BigEndian(aad.length * 8)
+  const macInput = Buffer.concat([aad, iv, ciphertext, al])
+
+  return hmac(SHA512, macKey, macInput).subarray(0, A256CBC_HS512_TAG_LENGTH)
+}
+
+function uint64BigEndian(value: number) {
+  const bytes = new Uint8Array(8)
+  for (let i = 7; i >= 0; i--) {
+    bytes[i] = value % 256
+    value = Math.floor(value / 256)
+  }
+  return bytes
+}
+
+function aesCbcEncrypt(key: Uint8Array, iv: Uint8Array, plaintext: Uint8Array) {
+  const cipher = new AES(key, true)
+  const ciphertext = new Uint8Array(plaintext.length)
+  let previous = iv
+  const block = new Uint8Array(BLOCK_SIZE)
+
+  for (let offset = 0; offset < plaintext.length; offset += BLOCK_SIZE) {
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+      block[i] = plaintext[offset + i] ^ previous[i]
+    }
+    cipher.encryptBlock(block, block)
+    ciphertext.set(block, offset)
+    previous = ciphertext.subarray(offset, offset + BLOCK_SIZE)
+  }
+
+  cipher.clean()
+  return ciphertext
+}
+
+function aesCbcDecrypt(key: Uint8Array, iv: Uint8Array, ciphertext: Uint8Array) {
+  const cipher = new AES(key)
+  const plaintext = new Uint8Array(ciphertext.length)
+  let previous = iv
+  const block = new Uint8Array(BLOCK_SIZE)
+
+  for (let offset = 0; offset < ciphertext.length; offset += BLOCK_SIZE) {
+    const current = ciphertext.subarray(offset, offset + BLOCK_SIZE)
+    cipher.decryptBlock(current, block)
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+      plaintext[offset + i] = block[i] ^ previous[i]
+    }
+    previous = current
+  }
+
+  cipher.clean()
+  return plaintext
+}
+
+function pkcs7Pad(data: Uint8Array) {
+  const padding = BLOCK_SIZE - (data.length % BLOCK_SIZE)
+  const padded = new Uint8Array(data.length + padding)
+  padded.set(data, 0)
+  padded.fill(padding, data.length)
+  return padded
+}
+
+function pkcs7Unpad(data: Uint8Array) {
+  const padding = data[data.length - 1]
+  if (padding < 1 || padding > BLOCK_SIZE) {
+    throw new AriesFrameworkError('Unable to decrypt content: invalid padding')
+  }
+
+  for (let i = data.length - padding; i < data.length; i++) {
+    if (data[i] !== padding) {
+      throw new AriesFrameworkError('Unable to decrypt content: invalid padding')
+    }
+  }
+
+  return data.slice(0, data.length - padding)
+}
@@ -0,0 +1,88 @@
+import { AES } from '@stablelib/aes'
+import { equal } from '@stablelib/hmac'
+
+import { AriesFrameworkError } from '../../error'
+
+// Default initial value as defined in RFC 3394, section 2.2.3.1
+const DEFAULT_IV = new Uint8Array([0xa6, 0xa6, 0xa6, 0xa6, 0xa6, 0xa6, 0xa6, 0xa6])
+
+/**
+ * Wrap a key using the AES Key Wrap algorithm (RFC 3394). Used for the `A256KW` JWE key management algorithm.
+ */
+export function aesKeyWrap(kek: Uint8Array, key: Uint8Array): Uint8Array {
+  if (key.length < 16 || key.length % 8 !== 0) {
+    throw new AriesFrameworkError('Key to wrap must be at least 16 bytes and a multiple of 8 bytes')
+  }
+
+  const cipher = new AES(kek)
+  const n = key.length / 8
+
+  const a = DEFAULT_IV.slice()
+  const r = new Uint8Array(key)
+  const block = new Uint8Array(16)
+
+  for (let j = 0; j <= 5; j++) {
+    for (let i = 0; i < n; i++) {
+      block.set(a, 0)
+      block.set(r.subarray(i * 8, i * 8 + 8), 8)
+      cipher.encryptBlock(block, block)
+
+      a.set(block.subarray(0, 8))
+      xorCounter(a, n * j + i + 1)
+      r.set(block.subarray(8, 16), i * 8)
+    }
+  }
+
+  cipher.clean()
+
+  const wrapped = new Uint8Array(key.length + 8)
+  wrapped.set(a, 0)
+  wrapped.set(r, 8)
+  return wrapped
+}
+
+/**
+ * Unwrap a key using the AES Key Wrap algorithm (RFC 3394). Throws if the integrity check fails.
+ */
+export function aesKeyUnwrap(kek: Uint8Array, wrappedKey: Uint8Array): Uint8Array {
+  if (wrappedKey.length < 24 || wrappedKey.length % 8 !== 0) {
+    throw new AriesFrameworkError('Wrapped key must be at least 24 bytes and a multiple of 8 bytes')
+  }
+
+  const cipher = new AES(kek)
+  const n = wrappedKey.length / 8 - 1
+
+  const a = new Uint8Array(wrappedKey.subarray(0, 8))
+  const r = new Uint8Array(wrappedKey.subarray(8))
+  const block = new Uint8Array(16)
+
+  for (let j = 5; j >= 0; j--) {
+    for (let i = n - 1; i >= 0; i--) {
+      xorCounter(a, n * j + i + 1)
+      block.set(a, 0)
+      block.set(r.subarray(i * 8, i * 8 + 8), 8)
+      cipher.decryptBlock(block, block)
+
+      a.set(block.subarray(0, 8))
+      r.set(block.subarray(8, 16), i * 8)
+    }
+  }
+
+  cipher.clean()
+
+  if (!equal(a, DEFAULT_IV)) {
+    throw new AriesFrameworkError('Unable to unwrap key: integrity check failed')
+  }
+
+  return r
+}
+
+/**
+ * XOR the 64-bit big endian representation of the counter into the value
+ */
+function xorCounter(value: Uint8Array, counter: number) {
+  for (let k = 7; k >= 0 && counter > 0; k--) {
+    value[k] ^= counter & 0xff
+    counter = Math.floor(counter / 256)
+  }
+}
@@ -0,0 +1,50 @@
+import { hash as sha256 } from '@stablelib/sha256'
+
+import { Buffer } from '../../utils/buffer'
+
+/**
+ * Derive a key using the Concat KDF (NIST SP 800-56A) with SHA-256, as used by the ECDH-ES (RFC 7518, section 4.6.2)
+ * and ECDH-1PU key agreement algorithms.
+ *
+ * @param sharedSecret the shared secret (Z) established using key agreement
+ * @param keyLength the length of the derived key in bytes
+ * @param options the other info used in the derivation. For ECDH-1PU in key wrapping mode the tag of the content
+ *  encryption must be included
+ */
+export function concatKdf(
+  sharedSecret: Uint8Array,
+  keyLength: number,
+  { algorithmId, apu, apv, tag }: { algorithmId: string; apu: Uint8Array; apv: Uint8Array; tag?: Uint8Array }
+) {
+  const suppPubInfo = tag
+    ? Buffer.concat([uint32BigEndian(keyLength * 8), lengthPrefixed(tag)])
+    : uint32BigEndian(keyLength * 8)
+
+  const otherInfo = Buffer.concat([
+    lengthPrefixed(Buffer.from(algorithmId)),
+    lengthPrefixed(apu),
+    lengthPrefixed(apv),
+    suppPubInfo,
+  ])
+
+  const rounds = Math.ceil(keyLength / 32)
+  const derived = new Uint8Array(rounds * 32)
+  for (let round = 1; round <= rounds; round++) {
+    derived.set(sha256(Buffer.concat([uint32BigEndian(round), sharedSecret, otherInfo])), (round - 1) * 32)
+  }
+
+  return derived.slice(0, keyLength)
+}
+
+function uint32BigEndian(value: number) {
+  const bytes = new Uint8Array(4)
+  bytes[0] = (value >>> 24) & 0xff
+  bytes[1] = (value >>> 16) & 0xff
+  bytes[2] = (value >>> 8) & 0xff
+  bytes[3] = value & 0xff
+  return bytes
+}
+
+function lengthPrefixed(data: Uint8Array) {
+  return Buffer.concat([uint32BigEndian(data.length), data])
+}
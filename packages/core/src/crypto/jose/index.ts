@@ -0,0 +1,5 @@
+export * from './JweTypes'
+export { encryptJwe, decryptJwe, parseJweProtectedHeader, isJweWithSupportedAlgorithm } from './jwe'
+export type { JweRecipientPublicKey, JweKeyPair, EncryptJweOptions, DecryptJweOptions } from './jwe'
+export { getJwkFromPublicKey, getPublicKeyFromJwk } from './jwk'
+export type { Jwk } from './jwk'
@@ -0,0 +1,208 @@
+import type { JweEnvelope, JweProtectedHeader } from './JweTypes'
+
+import { randomBytes } from '@stablelib/random'
+import { hash as sha256 } from '@stablelib/sha256'
+import { generateKeyPair, sharedKey } from '@stablelib/x25519'
+
+import { AriesFrameworkError } from '../../error'
+import { JsonEncoder } from '../../utils/JsonEncoder'
+import { TypedArrayEncoder } from '../../utils/TypedArrayEncoder'
+import { Buffer } from '../../utils/buffer'
+
+import { JweAlgorithm, JweEncryption } from './JweTypes'
+import {
+  A256CBC_HS512_IV_LENGTH,
+  A256CBC_HS512_KEY_LENGTH,
+  decryptA256CbcHs512,
+  encryptA256CbcHs512,
+} from './aesCbcHmacSha2'
+import { aesKeyUnwrap, aesKeyWrap } from './aesKeyWrap'
+import { concatKdf } from './concatKdf'
+
+// Length of the A256KW key encryption key in bytes
+const KEK_LENGTH = 32
+
+export interface JweRecipientPublicKey {
+  /** Key id of the X25519 key, as referenced from the JWE recipients */
+  kid: string
+  publicKey: Uint8Array
+}
+
+export interface JweKeyPair extends JweRecipientPublicKey {
+  privateKey: Uint8Array
+}
+
+export interface EncryptJweOptions {
+  plaintext: Uint8Array
+  recipients: JweRecipientPublicKey[]
+
+  /**
+   * The sender key pair. If provided the JWE will be authenticated using ECDH-1PU, otherwise
+   * ECDH-ES is used (anonymous encryption)
+   */
+  sender?: JweKeyPair
+
+  typ?: string
+}
+
+export interface DecryptJweOptions {
+  recipient: JweKeyPair
+
+  /**
+   * The public key of the sender, required to decrypt ECDH-1PU (authenticated) JWEs
+   */
+  senderPublicKey?: Uint8Array
+}
+
+/**
+ * Encrypt a payload for one or more recipients using X25519 keys. All recipients share the same ephemeral key
+ * and content encryption key, as described in the DIDComm v2 specification.
+ */
+export function encryptJwe({ plaintext, recipients, sender, typ }: EncryptJweOptions): JweEnvelope {
+  if (recipients.length === 0) {
+    throw new AriesFrameworkError('At least one recipient is required to encrypt a JWE')
+  }
+
+  const ephemeralKeyPair = generateKeyPair()
+  const algorithm = sender ? JweAlgorithm.Ecdh1PuA256Kw : JweAlgorithm.EcdhEsA256Kw
+
+  const protectedHeader: JweProtectedHeader = {
+    typ,
+    alg: algorithm,
+    enc: JweEncryption.A256CbcHs512,
+    epk: {
+      kty: 'OKP',
+      crv: 'X25519',
+      x: TypedArrayEncoder.toBase64URL(ephemeralKeyPair.publicKey),
+    },
+    apu: sender ? TypedArrayEncoder.toBase64URL(Buffer.from(sender.kid)) : undefined,
+    apv: calculateApv(recipients.map((recipient) => recipient.kid)),
+    skid: sender?.kid,
+  }
+  const encodedProtectedHeader = JsonEncoder.toBase64URL(protectedHeader)
+
+  const contentEncryptionKey = randomBytes(A256CBC_HS512_KEY_LENGTH)
+  const iv = randomBytes(A256CBC_HS512_IV_LENGTH)
+  const { ciphertext, tag } = encryptA256CbcHs512({
+    key: contentEncryptionKey,
+    iv,
+    plaintext,
+    aad: Buffer.from(encodedProtectedHeader),
+  })
+
+  const jweRecipients = recipients.map((recipient) => {
+    const sharedSecret = sender
+      ? Buffer.concat([
+          sharedKey(ephemeralKeyPair.secretKey, recipient.publicKey),
+          sharedKey(sender.privateKey, recipient.publicKey),
+        ])
+      : sharedKey(ephemeralKeyPair.secretKey, recipient.publicKey)
+
+    const keyEncryptionKey = deriveKeyEncryptionKey(sharedSecret, protectedHeader, sender ? tag : undefined)
+
+    return {
+      encrypted_key: TypedArrayEncoder.toBase64URL(aesKeyWrap(keyEncryptionKey, contentEncryptionKey)),
+      header: { kid: recipient.kid },
+    }
+  })
+
+  return {
+    protected: encodedProtectedHeader,
+    recipients: jweRecipients,
+    iv: TypedArrayEncoder.toBase64URL(iv),
+    ciphertext: TypedArrayEncoder.toBase64URL(ciphertext),
+    tag: TypedArrayEncoder.toBase64URL(tag),
+  }
+}
+
+/**
+ * Decrypt a JWE that was encrypted using {@link encryptJwe}, or by any other DIDComm v2 implementation
+ * using X25519 keys and the A256CBC-HS512 content encryption algorithm.
+ */
+export function decryptJwe(jwe: JweEnvelope, { recipient, senderPublicKey }: DecryptJweOptions): Uint8Array {
+  const protectedHeader = parseJweProtectedHeader(jwe)
+
+  if (protectedHeader.enc !== JweEncryption.A256CbcHs512) {
+    throw new AriesFrameworkError(`Unsupported JWE content encryption algorithm '${protectedHeader.enc}'`)
+  }
+
+  if (protectedHeader.epk?.crv !== 'X25519' || !protectedHeader.epk.x) {
+    throw new AriesFrameworkError('Unsupported or missing ephemeral public key in JWE protected header')
+  }
+
+  const jweRecipient = jwe.recipients.find((r) => r.header.kid === recipient.kid)
+  if (!jweRecipient) {
+    throw new AriesFrameworkError(`No JWE recipient found for key id '${recipient.kid}'`)
+  }
+
+  const ephemeralPublicKey = TypedArrayEncoder.fromBase64(protectedHeader.epk.x)
+  const tag = TypedArrayEncoder.fromBase64(jwe.tag)
+
+  let sharedSecret: Uint8Array
+  if (protectedHeader.alg === JweAlgorithm.Ecdh1PuA256Kw) {
+    if (!senderPublicKey) {
+      throw new AriesFrameworkError('The sender public key is required to decrypt an authenticated JWE')
+    }
+
+    sharedSecret = Buffer.concat([
+      sharedKey(recipient.privateKey, ephemeralPublicKey),
+      sharedKey(recipient.privateKey, senderPublicKey),
+    ])
+  } else if (protectedHeader.alg === JweAlgorithm.EcdhEsA256Kw) {
+    sharedSecret = sharedKey(recipient.privateKey, ephemeralPublicKey)
+  } else {
+    throw new AriesFrameworkError(`Unsupported JWE key management algorithm '${protectedHeader.alg}'`)
+  }
+
+  const keyEncryptionKey = deriveKeyEncryptionKey(
+    sharedSecret,
+    protectedHeader,
+    protectedHeader.alg === JweAlgorithm.Ecdh1PuA256Kw ? tag : undefined
+  )
+  const contentEncryptionKey = aesKeyUnwrap(keyEncryptionKey, TypedArrayEncoder.fromBase64(jweRecipient.encrypted_key))
+
+  return decryptA256CbcHs512({
+    key: contentEncryptionKey,
+    iv: TypedArrayEncoder.fromBase64(jwe.iv),
+    ciphertext: TypedArrayEncoder.fromBase64(jwe.ciphertext),
+    tag,
+    aad: Buffer.from(jwe.protected),
+  })
+}
+
+export function parseJweProtectedHeader(jwe: { protected: string }): JweProtectedHeader {
+  try {
+    return JsonEncoder.fromBase64(jwe.protected)
+  } catch (error) {
+    throw new AriesFrameworkError('Unable to parse JWE protected header', { cause: error })
+  }
+}
+
+/**
+ * Returns whether the JWE is encrypted using one of the algorithms supported by {@link decryptJwe}. This can
+ * be used to distinguish DIDComm v2 JWEs from DIDComm v1 envelopes.
+ */
+export function isJweWithSupportedAlgorithm(jwe: { protected: string }) {
+  try {
+    const { alg } = parseJweProtectedHeader(jwe)
+    return alg === JweAlgorithm.EcdhEsA256Kw || alg === JweAlgorithm.Ecdh1PuA256Kw
+  } catch {
+    return false
+  }
+}
+
+function deriveKeyEncryptionKey(sharedSecret: Uint8Array, protectedHeader: JweProtectedHeader, tag?: Uint8Array) {
+  return concatKdf(sharedSecret, KEK_LENGTH, {
+    algorithmId: protectedHeader.alg,
+    apu: protectedHeader.apu ? TypedArrayEncoder.fromBase64(protectedHeader.apu) : new Uint8Array(0),
+    apv: TypedArrayEncoder.fromBase64(protectedHeader.apv),
+    tag,
+  })
+}
+
+/**
+ * The apv is the base64url encoded SHA-256 hash of the sorted recipient key ids, joined by a `.`
+ */
+function calculateApv(kids: string[]) {
+  return TypedArrayEncoder.toBase64URL(sha256(Buffer.from([...kids].sort().join('.'))))
+}
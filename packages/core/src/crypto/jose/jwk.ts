@@ -0,0 +1,82 @@
+import { AriesFrameworkError } from '../../error'
+import { TypedArrayEncoder } from '../../utils/TypedArrayEncoder'
+import { KeyType } from '../KeyType'
+import { compressPublicKey, decompressPublicKey, isEllipticCurveKeyType } from '../ecdsa/curves'
+
+/**
+ * Public JSON Web Key, as defined in RFC 7517. Only the `OKP` and `EC` key types are supported.
+ */
+export interface Jwk {
+  kty: string
+  crv: string
+  x: string
+  y?: string
+  use?: string
+  kid?: string
+  alg?: string
+  [key: string]: unknown
+}
+
+const jwkKeyTypeMapping = [
+  { keyType: KeyType.Ed25519, kty: 'OKP', crv: 'Ed25519' },
+  { keyType: KeyType.X25519, kty: 'OKP', crv: 'X25519' },
+  { keyType: KeyType.P256, kty: 'EC', crv: 'P-256' },
+  { keyType: KeyType.P384, kty: 'EC', crv: 'P-384' },
+  { keyType: KeyType.K256, kty: 'EC', crv: 'secp256k1' },
+]
+
+/**
+ * Create a public JWK from a public key. Public keys of elliptic curve key types must be in compressed form, as
+ * used in `did:key` and the `Key` class.
+ */
+export function getJwkFromPublicKey(publicKey: Uint8Array, keyType: KeyType): Jwk {
+  const mapping = jwkKeyTypeMapping.find((mapping) => mapping.keyType === keyType)
+
+  if (!mapping) {
+    throw new AriesFrameworkError(`Unsupported key type '${keyType}' for JWK`)
+  }
+
+  if (!isEllipticCurveKeyType(keyType)) {
+    return { kty: mapping.kty, crv: mapping.crv, x: TypedArrayEncoder.toBase64URL(publicKey) }
+  }
+
+  const { x, y } = decompressPublicKey(keyType, publicKey)
+  return {
+    kty: mapping.kty,
+    crv: mapping.crv,
+    x: TypedArrayEncoder.toBase64URL(x),
+    y: TypedArrayEncoder.toBase64URL(y),
+  }
+}
+
+/**
+ * Get the public key and key type from a public JWK. Public keys of elliptic curve key types are returned in
+ * compressed form.
+ */
+export function getPublicKeyFromJwk(jwk: Jwk): { publicKey: Uint8Array; keyType: KeyType } {
+  const mapping = jwkKeyTypeMapping.find((mapping) => mapping.kty === jwk.kty && mapping.crv === jwk.crv)
+
+  if (!mapping) {
+    throw new AriesFrameworkError(`Unsupported JWK with kty '${jwk.kty}' and crv '${jwk.crv}'`)
+  }
+
+  if (typeof jwk.x !== 'string') {
+    throw new AriesFrameworkError(`JWK with kty '${jwk.kty}' must contain an x coordinate`)
+  }
+
+  const { keyType } = mapping
+  if (!isEllipticCurveKeyType(keyType)) {
+    return { publicKey: TypedArrayEncoder.fromBase64(jwk.x), keyType }
+  }
+
+  if (typeof jwk.y !== 'string') {
+    throw new AriesFrameworkError(`JWK with kty '${jwk.kty}' must contain a y coordinate`)
+  }
+
+  const publicKey = compressPublicKey(
+    keyType,
+    Uint8Array.from([...TypedArrayEncoder.fromBase64(jwk.x), ...TypedArrayEncoder.fromBase64(jwk.y)])
+  )
+
+  return { publicKey, keyType }
+}
@@ -0,0 +1,233 @@
+import type { VerifyJwsResult } from '../../crypto/JwsService'
+import type { Logger } from '../../logger'
+import type { Key } from '../../modules/dids/domain/Key'
+import type { AttachmentOptions } from './Attachment'
+
+import { AgentConfig } from '../../agent/AgentConfig'
+import { KeyType } from '../../crypto'
+import { JwsService } from '../../crypto/JwsService'
+import { AriesFrameworkError } from '../../error'
+import { DidKey } from '../../modules/dids/methods/key/DidKey'
+import { injectable } from '../../plugins'
+import { Hasher } from '../../utils/Hasher'
+import { HashlinkEncoder } from '../../utils/HashlinkEncoder'
+import { JsonEncoder } from '../../utils/JsonEncoder'
+import { TypedArrayEncoder } from '../../utils/TypedArrayEncoder'
+import { Buffer } from '../../utils/buffer'
+
+import { Attachment, AttachmentData } from './Attachment'
+
+export interface SignAttachmentOptions {
+  /**
+   * The Ed25519 key to sign the attachment with. The key must be stored in the wallet.
+   */
+  key: Key
+
+  /**
+   * The key id to include in the JWS header. Defaults to the did:key of the signing key.
+   */
+  kid?: string
+}
+
+export interface CreateLinkedAttachmentOptions extends Omit<AttachmentOptions, 'data' | 'byteCount'> {
+  /**
+   * The content of the attachment. Not included in the attachment, but used to calculate the sha256 hash
+   * and byte count, so the content can be verified by the receiver after fetching it from one of the links.
+   */
+  content: Buffer | Uint8Array
+
+  /**
+   * Locations at which the content can be fetched
+   */
+  links: string[]
+}
+
+@injectable()
+export class AttachmentService {
+  private jwsService: JwsService
+  private agentConfig: AgentConfig
+  private logger: Logger
+
+  public constructor(jwsService: JwsService, agentConfig: AgentConfig) {
+    this.jwsService = jwsService
+    this.agentConfig = agentConfig
+    this.logger = agentConfig.logger
+  }
+
+  /**
+   * Create an attachment that includes the content by reference. The sha256 hash and byte count of the content
+   * are included in the attachment, so the receiver can verify the integrity of the fetched content.
+   */
+  public createLinkedAttachment({ content, links, ...options }: CreateLinkedAttachmentOptions) {
+    if (links.length === 0) {
+      throw new AriesFrameworkError('At least one link is required to create a linked attachment')
+    }
+
+    return new Attachment({
+      ...options,
+      byteCount: content.length,
+      data: new AttachmentData({
+        links,
+        sha256: this.sha256Hex(content),
+      }),
+    })
+  }
+
+  /**
+   * Sign the content of the attachment using a detached JWS. The JWS is added to the attachment data, so
+   * an attachment can be signed by multiple keys. The content of linked attachments is fetched to sign it.
+   *
+   * @returns the signed attachment
+   */
+  public async signAttachment(attachment: Attachment, { key, kid }: SignAttachmentOptions) {
+    if (key.keyType !== KeyType.Ed25519) {
+      throw new AriesFrameworkError(
+        `Unable to sign attachment with key of type ${key.keyType}. Only Ed25519 is supported`
+      )
+    }
+
+    const payload = await this.getAttachmentContent(attachment)
+
+    const jws = await this.jwsService.createJws({
+      payload,
+      verkey: key.publicKeyBase58,
+      header: {
+        kid: kid ?? new DidKey(key).did,
+      },
+    })
+    attachment.addJws(jws)
+
+    return attachment
+  }
+
+  /**
+   * Verify the detached JWS of the attachment against the content of the attachment. If a signature has
+   * a did:key as key id, the key id must match the key that was used to create the signature.
+   *
+   * @throws {AriesFrameworkError} if the attachment is not signed
+   */
+  public async verifyAttachment(attachment: Attachment): Promise<VerifyJwsResult> {
+    const jws = attachment.data.jws
+    if (!jws) {
+      throw new AriesFrameworkError(`Attachment ${attachment.id} is not signed`)
+    }
+
+    const payload = await this.getAttachmentContent(attachment)
+    const result = await this.jwsService.verifyJws({ jws, payload })
+
+    const signatures = 'signatures' in jws ? jws.signatures : [jws]
+    const hasValidKeyIds = result.signerVerkeys.every((verkey, index) => {
+      const kid = signatures[index].header?.kid
+      return (
+        typeof kid !== 'string' || !kid.startsWith('did:key:') || DidKey.fromDid(kid).key.publicKeyBase58 === verkey
+      )
+    })
+
+    if (!hasValidKeyIds) {
+      this.logger.debug(`Key id in JWS header of attachment ${attachment.id} does not match signing key`)
+      return { isValid: false, signerVerkeys: [] }
+    }
+
+    return result
+  }
+
+  /**
+   * Get the content of the attachment. Inline content is taken from the `base64` or `json` data fields.
+   * Otherwise the content is fetched from the `links` and verified against the `sha256` hash, or the checksum
+   * of the link if the link is a hashlink.
+   *
+   * @throws {AriesFrameworkError} if the content can't be retrieved or fails an integrity check
+   */
+  public async getAttachmentContent(attachment: Attachment): Promise<Buffer> {
+    const { data } = attachment
+
+    if (typeof data.base64 === 'string') {
+      const content = TypedArrayEncoder.fromBase64(data.base64)
+
+      if (data.sha256 && !this.matchesSha256(content, data.sha256)) {
+        throw new AriesFrameworkError(`Content of attachment ${attachment.id} does not match the sha256 hash`)
+      }
+
+      return content
+    } else if (data.json) {
+      return JsonEncoder.toBuffer(data.json)
+    } else if (data.links && data.links.length > 0) {
+      return this.fetchLinkedContent(attachment, data.links)
+    }
+
+    throw new AriesFrameworkError(`Attachment ${attachment.id} has no data in the base64, json or links data fields`)
+  }
+
+  /**
+   * Get the content of the attachment as JSON.
+   *
+   * @see getAttachmentContent
+   */
+  public async getAttachmentContentAsJson<T>(attachment: Attachment): Promise<T> {
+    if (attachment.data.json) return attachment.data.json as T
+
+    return JsonEncoder.fromBuffer(await this.getAttachmentContent(attachment)) as T
+  }
+
+  private async fetchLinkedContent(attachment: Attachment, links: string[]) {
+    const errors: string[] = []
+
+    for (const link of links) {
+      const hashlink = link.startsWith('hl:') ? HashlinkEncoder.decode(link) : undefined
+
+      // Content can only be verified if the attachment has a sha256 hash, or the link is a hashlink
+      if (!hashlink && !attachment.data.sha256) {
+        errors.push(`${link}: no sha256 hash to verify the content against`)
+        continue
+      }
+
+      const urls = hashlink ? hashlink.metadata?.urls ?? [] : [link]
+      for (const url of urls) {
+        try {
+          const content = await this.fetchContent(url)
+
+          if (attachment.byteCount !== undefined && content.length !== attachment.byteCount) {
+            throw new AriesFrameworkError(
+              `Content has ${content.length} bytes while attachment specifies ${attachment.byteCount} bytes`
+            )
+          }
+
+          if (attachment.data.sha256 && !this.matchesSha256(content, attachment.data.sha256)) {
+            throw new AriesFrameworkError('Content does not match the sha256 hash')
+          }
+
+          if (hashlink && HashlinkEncoder.encode(content, 'sha2-256') !== `hl:${hashlink.checksum}`) {
+            throw new AriesFrameworkError('Content does not match the hashlink checksum')
+          }
+
+          return content
+        } catch (error) {
+          this.logger.debug(`Unable to fetch content of attachment ${attachment.id} from ${url}`, { error })
+          errors.push(`${url}: ${error.message}`)
+        }
+      }
+    }
+
+    throw new AriesFrameworkError(
+      `Unable to fetch content of attachment ${attachment.id} from links. Errors: ${errors.join(', ')}`
+    )
+  }
+
+  private async fetchContent(url: string) {
+    const response = await this.agentConfig.agentDependencies.fetch(url)
+
+    if (!response.ok) {
+      throw new AriesFrameworkError(`Response status ${response.status}`)
+    }
+
+    return Buffer.from(await response.arrayBuffer())
+  }
+
+  private sha256Hex(content: Buffer | Uint8Array) {
+    return Buffer.from(Hasher.hash(content, 'sha2-256')).toString('hex')
+  }
+
+  private matchesSha256(content: Buffer | Uint8Array, sha256: string) {
+    return this.sha256Hex(content) === sha256.toLowerCase()
+  }
+}
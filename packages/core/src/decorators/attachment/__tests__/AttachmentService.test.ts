@@ -0,0 +1,205 @@
+import type { AgentDependencies } from '../../../agent/AgentDependencies'
+import type { JwsGeneralFormat } from '../../../crypto/JwsTypes'
+
+import { getBaseConfig, mockFunction } from '../../../../tests/helpers'
+import { AgentConfig } from '../../../agent/AgentConfig'
+import { KeyType } from '../../../crypto'
+import { JwsService } from '../../../crypto/JwsService'
+import { DidKey, Key } from '../../../modules/dids'
+import { HashlinkEncoder } from '../../../utils/HashlinkEncoder'
+import { JsonEncoder } from '../../../utils/JsonEncoder'
+import { TypedArrayEncoder } from '../../../utils/TypedArrayEncoder'
+import { Buffer } from '../../../utils/buffer'
+import { Attachment, AttachmentData } from '../Attachment'
+import { AttachmentService } from '../AttachmentService'
+
+jest.mock('../../../crypto/JwsService')
+const JwsServiceMock = JwsService as jest.Mock<JwsService>
+
+const key = Key.fromPublicKeyBase58('8HH5gYEeNc3z7PYXmd54d4x6qAfCNrqQqEB3nS7Zfu7K', KeyType.Ed25519)
+const otherKey = Key.fromPublicKeyBase58('79CXkde3j8TNuMXxPdV7nLUrT2g7JAEjH5TreyVY7GEZ', KeyType.Ed25519)
+
+const content = JsonEncoder.toBuffer({ credential: 'large credential' })
+const otherSha256 = '2fdcfb3bc0d4a53d0c60e19ba1dd3aa4b5a9ce5a5fdfde1c9178d98bc2e7e81b'
+
+const jws: JwsGeneralFormat = {
+  protected: 'protected',
+  signature: 'signature',
+  header: { kid: new DidKey(key).did },
+}
+
+describe('AttachmentService', () => {
+  const fetchMock = jest.fn()
+  let jwsService: JwsService
+  let attachmentService: AttachmentService
+
+  beforeEach(() => {
+    const { config, agentDependencies } = getBaseConfig('AttachmentService')
+
+    jwsService = new JwsServiceMock()
+    attachmentService = new AttachmentService(
+      jwsService,
+      new AgentConfig(config, { ...agentDependencies, fetch: fetchMock as unknown as AgentDependencies['fetch'] })
+    )
+
+    mockFunction(jwsService.createJws).mockResolvedValue(jws)
+    fetchMock.mockResolvedValue({ ok: true, status: 200, arrayBuffer: async () => content })
+  })
+
+  afterEach(() => {
+    jest.resetAllMocks()
+  })
+
+  describe('createLinkedAttachment', () => {
+    it('creates an attachment referencing the content by links', () => {
+      const attachment = attachmentService.createLinkedAttachment({
+        content,
+        links: ['https://example.com/credential.json'],
+        mimeType: 'application/json',
+      })
+
+      expect(attachment).toMatchObject({
+        mimeType: 'application/json',
+        byteCount: content.length,
+        data: {
+          links: ['https://example.com/credential.json'],
+          sha256: expect.stringMatching(/^[0-9a-f]{64}$/),
+        },
+      })
+    })
+
+    it('throws when no links are provided', () => {
+      expect(() => attachmentService.createLinkedAttachment({ content, links: [] })).toThrow(
+        'At least one link is required to create a linked attachment'
+      )
+    })
+  })
+
+  describe('getAttachmentContent', () => {
+    const linkedAttachment = () =>
+      attachmentService.createLinkedAttachment({ content, links: ['https://example.com/credential.json'] })
+
+    it('returns inline base64 content', async () => {
+      const attachment = new Attachment({ data: new AttachmentData({ base64: TypedArrayEncoder.toBase64(content) }) })
+
+      expect(await attachmentService.getAttachmentContent(attachment)).toEqual(content)
+    })
+
+    it('fetches the content from the links and verifies the sha256 hash', async () => {
+      const attachment = linkedAttachment()
+
+      expect(await attachmentService.getAttachmentContent(attachment)).toEqual(content)
+      expect(await attachmentService.getAttachmentContentAsJson(attachment)).toEqual({ credential: 'large credential' })
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com/credential.json')
+    })
+
+    it('tries the next link when the content does not match the sha256 hash', async () => {
+      const attachment = linkedAttachment()
+      attachment.data.links = ['https://example.com/tampered.json', 'https://example.com/credential.json']
+      fetchMock.mockImplementation(async (url: string) => ({
+        ok: true,
+        status: 200,
+        arrayBuffer: async () => (url.includes('tampered') ? Buffer.from('tampered') : content),
+      }))
+
+      expect(await attachmentService.getAttachmentContent(attachment)).toEqual(content)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('throws when the content of none of the links can be verified', async () => {
+      const attachment = linkedAttachment()
+      attachment.data.sha256 = otherSha256
+      attachment.byteCount = undefined
+
+      await expect(attachmentService.getAttachmentContent(attachment)).rejects.toThrow(
+        `Unable to fetch content of attachment ${attachment.id} from links. Errors: https://example.com/credential.json: Content does not match the sha256 hash`
+      )
+    })
+
+    it('does not fetch links when there is no sha256 hash to verify the content against', async () => {
+      const attachment = new Attachment({
+        data: new AttachmentData({ links: ['https://example.com/credential.json'] }),
+      })
+
+      await expect(attachmentService.getAttachmentContent(attachment)).rejects.toThrow(
+        'https://example.com/credential.json: no sha256 hash to verify the content against'
+      )
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it('fetches the content from the urls of a hashlink and verifies the checksum', async () => {
+      const hashlink = HashlinkEncoder.encode(content, 'sha2-256', 'base58btc', {
+        urls: ['https://example.com/credential.json'],
+      })
+      const attachment = new Attachment({ data: new AttachmentData({ links: [hashlink] }) })
+
+      expect(await attachmentService.getAttachmentContent(attachment)).toEqual(content)
+
+      fetchMock.mockResolvedValue({ ok: true, status: 200, arrayBuffer: async () => Buffer.from('tampered') })
+      await expect(attachmentService.getAttachmentContent(attachment)).rejects.toThrow(
+        'Content does not match the hashlink checksum'
+      )
+    })
+
+    it('throws when the response is not ok', async () => {
+      fetchMock.mockResolvedValue({ ok: false, status: 404 })
+
+      await expect(attachmentService.getAttachmentContent(linkedAttachment())).rejects.toThrow('Response status 404')
+    })
+  })
+
+  describe('signAttachment', () => {
+    it('adds a detached jws over the content with the did:key as key id', async () => {
+      const attachment = new Attachment({ data: new AttachmentData({ json: { hello: 'world' } }) })
+
+      await attachmentService.signAttachment(attachment, { key })
+
+      expect(jwsService.createJws).toHaveBeenCalledWith({
+        payload: JsonEncoder.toBuffer({ hello: 'world' }),
+        verkey: key.publicKeyBase58,
+        header: { kid: new DidKey(key).did },
+      })
+      expect(attachment.data.jws).toEqual(jws)
+    })
+
+    it('throws when the key is not an Ed25519 key', async () => {
+      const attachment = new Attachment({ data: new AttachmentData({ json: { hello: 'world' } }) })
+      const x25519Key = Key.fromPublicKeyBase58(key.publicKeyBase58, KeyType.X25519)
+
+      await expect(attachmentService.signAttachment(attachment, { key: x25519Key })).rejects.toThrow(
+        'Unable to sign attachment with key of type x25519. Only Ed25519 is supported'
+      )
+    })
+  })
+
+  describe('verifyAttachment', () => {
+    it('verifies the jws against the content of the attachment', async () => {
+      const attachment = new Attachment({ data: new AttachmentData({ json: { hello: 'world' }, jws }) })
+      mockFunction(jwsService.verifyJws).mockResolvedValue({ isValid: true, signerVerkeys: [key.publicKeyBase58] })
+
+      expect(await attachmentService.verifyAttachment(attachment)).toEqual({
+        isValid: true,
+        signerVerkeys: [key.publicKeyBase58],
+      })
+      expect(jwsService.verifyJws).toHaveBeenCalledWith({ jws, payload: JsonEncoder.toBuffer({ hello: 'world' }) })
+    })
+
+    it('is not valid when the did:key key id does not match the signing key', async () => {
+      const attachment = new Attachment({ data: new AttachmentData({ json: { hello: 'world' }, jws }) })
+      mockFunction(jwsService.verifyJws).mockResolvedValue({
+        isValid: true,
+        signerVerkeys: [otherKey.publicKeyBase58],
+      })
+
+      expect(await attachmentService.verifyAttachment(attachment)).toEqual({ isValid: false, signerVerkeys: [] })
+    })
+
+    it('throws when the attachment is not signed', async () => {
+      const attachment = new Attachment({ id: 'attachment-id', data: new AttachmentData({ json: {} }) })
+
+      await expect(attachmentService.verifyAttachment(attachment)).rejects.toThrow(
+        'Attachment attachment-id is not signed'
+      )
+    })
+  })
+})
@@ -51,4 +51,24 @@ describe('Decorators | TimingDecorator', () => {
 
     expect(jsonString).toEqual(transformed)
   })
+
+  test('isExpired returns whether the expires time has passed', () => {
+    const decorator = new TimingDecorator({ expiresTime: new Date('2019-01-25 18:25:00.000Z') })
+
+    expect(decorator.isExpired(new Date('2019-01-25 18:24:59.999Z'))).toBe(false)
+    expect(decorator.isExpired(new Date('2019-01-25 18:25:00.000Z'))).toBe(true)
+    expect(new TimingDecorator({}).isExpired()).toBe(false)
+  })
+
+  test('getDueTime returns the latest of the wait until time and the out time plus delay', () => {
+    const outTime = new Date('2019-01-23 18:03:27.123Z')
+    const waitUntilTime = new Date('2019-01-24 00:00:00.000Z')
+
+    expect(new TimingDecorator({}).getDueTime()).toBeUndefined()
+    expect(new TimingDecorator({ delayMilli: 1000 }).getDueTime()).toBeUndefined()
+    expect(new TimingDecorator({ outTime, delayMilli: 1000 }).getDueTime()).toEqual(
+      new Date('2019-01-23 18:03:28.123Z')
+    )
+    expect(new TimingDecorator({ outTime, delayMilli: 1000, waitUntilTime }).getDueTime()).toEqual(waitUntilTime)
+  })
 })
@@ -74,4 +74,24 @@ export class TimingDecorator {
   @IsDate()
   @IsOptional()
   public waitUntilTime?: Date
+
+  /**
+   * Whether the decorated message is expired, based on the `expires_time`.
+   */
+  public isExpired(now = new Date()) {
+    return this.expiresTime !== undefined && this.expiresTime.getTime() <= now.getTime()
+  }
+
+  /**
+   * Get the time at which the decorated message is due to be processed, based on the `wait_until_time` and
+   * the `delay_milli` (counted from the `out_time`). Returns `undefined` if the message can be processed right away.
+   */
+  public getDueTime(): Date | undefined {
+    const dueTimes: number[] = []
+
+    if (this.waitUntilTime) dueTimes.push(this.waitUntilTime.getTime())
+    if (this.delayMilli !== undefined && this.outTime) dueTimes.push(this.outTime.getTime() + this.delayMilli)
+
+    return dueTimes.length > 0 ? new Date(Math.max(...dueTimes)) : undefined
+  }
 }
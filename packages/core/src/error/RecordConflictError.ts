@@ -0,0 +1,7 @@
+import { AriesFrameworkError } from './AriesFrameworkError'
+
+export class RecordConflictError extends AriesFrameworkError {
+  public constructor(message: string, { recordType, cause }: { recordType: string; cause?: Error }) {
+    super(`${recordType}: ${message}`, { cause })
+  }
+}
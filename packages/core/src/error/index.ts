@@ -1,5 +1,6 @@
 export * from './AriesFrameworkError'
 export * from './RecordNotFoundError'
 export * from './RecordDuplicateError'
+export * from './RecordConflictError'
 export * from './IndySdkError'
 export * from './ClassValidationError'
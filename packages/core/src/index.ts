@@ -2,28 +2,53 @@
 import 'reflect-metadata'
 
 export { Agent } from './agent/Agent'
+export type { AgentOptions } from './agent/Agent'
+export { getDefaultAgentModules } from './agent/AgentModules'
+export type { AgentModulesInput, AgentModulesApi, DefaultAgentModules } from './agent/AgentModules'
 export { EventEmitter } from './agent/EventEmitter'
 export { Handler, HandlerInboundMessage } from './agent/Handler'
+export type {
+  InboundMessageMiddleware,
+  OutboundMessageMiddleware,
+  OutboundMessageContext,
+  MessageMiddlewareNext,
+} from './agent/MessageMiddleware'
 export { InboundMessageContext } from './agent/models/InboundMessageContext'
 export { AgentConfig } from './agent/AgentConfig'
 export { AgentMessage } from './agent/AgentMessage'
 export { Dispatcher } from './agent/Dispatcher'
 export { MessageSender } from './agent/MessageSender'
 export type { AgentDependencies } from './agent/AgentDependencies'
-export type { InitConfig, OutboundPackage, EncryptedMessage, WalletConfig } from './types'
+export type {
+  InitConfig,
+  OutboundPackage,
+  EncryptedMessage,
+  WalletConfig,
+  OutboxConfig,
+  DidResolutionCacheConfig,
+} from './types'
 export { KeyDerivationMethod, DidCommMimeType } from './types'
 export type { FileSystem } from './storage/FileSystem'
 export * from './storage/BaseRecord'
 export { InMemoryMessageRepository } from './storage/InMemoryMessageRepository'
+export { StorageMessageRepository } from './storage/StorageMessageRepository'
+export * from './storage/MessageRepositoryEvents'
+export * from './storage/queued-message'
+export * from './storage/outbox'
 export { Repository } from './storage/Repository'
 export * from './storage/RepositoryEvents'
+export * from './storage/migration'
+export * from './storage/backup'
 export { StorageService } from './storage/StorageService'
+export type { BaseRecordConstructor, Query, QueryOptions } from './storage/StorageService'
 export { getDirFromFilePath } from './utils/path'
 export { InjectionSymbols } from './constants'
 export type { Wallet } from './wallet/Wallet'
 export type { TransportSession } from './agent/TransportService'
 export { TransportService } from './agent/TransportService'
-export { Attachment } from './decorators/attachment/Attachment'
+export { Attachment, AttachmentData } from './decorators/attachment/Attachment'
+export { AttachmentService } from './decorators/attachment/AttachmentService'
+export type { SignAttachmentOptions, CreateLinkedAttachmentOptions } from './decorators/attachment/AttachmentService'
 
 import { parseInvitationUrl } from './utils/parseInvitation'
 import { uuid } from './utils/uuid'
@@ -36,14 +61,20 @@ export * from './modules/credentials'
 export * from './modules/proofs'
 export * from './modules/connections'
 export * from './modules/ledger'
+export * from './modules/indy/repository'
 export * from './modules/routing'
 export * from './modules/question-answer'
 export * from './modules/oob'
 export * from './modules/dids'
+export * from './modules/did-rotate'
+export * from './modules/tenants'
+export * from './modules/vc'
 export * from './utils/JsonTransformer'
 export * from './logger'
 export * from './error'
 export * from './wallet/error'
+export { KeyType } from './crypto'
+export type { Jwk } from './crypto/jose/jwk'
 export { parseMessageType, IsValidMessageType } from './utils/messageType'
 
 export * from './agent/Events'
@@ -21,6 +21,7 @@ import {
   MenuRequestMessageHandler,
   PerformMessageHandler,
 } from './handlers'
+import { ActionMenuRecord, ActionMenuRepository } from './repository'
 import { ActionMenuService } from './services'
 
 @module()
@@ -155,5 +156,11 @@ export class ActionMenuModule {
 
     // Services
     dependencyManager.registerSingleton(ActionMenuService)
+
+    // Repositories
+    dependencyManager.registerSingleton(ActionMenuRepository)
+
+    // Records
+    dependencyManager.registerRecordClasses(ActionMenuRecord)
   }
 }
@@ -1,4 +1,5 @@
 import type { DependencyManager } from '../../plugins'
+import type { QueryOptions } from '../../storage/StorageService'
 import type { BasicMessageTags } from './repository/BasicMessageRecord'
 
 import { Dispatcher } from '../../agent/Dispatcher'
@@ -8,7 +9,7 @@ import { injectable, module } from '../../plugins'
 import { ConnectionService } from '../connections'
 
 import { BasicMessageHandler } from './handlers'
-import { BasicMessageRepository } from './repository'
+import { BasicMessageRepository, BasicMessageRecord } from './repository'
 import { BasicMessageService } from './services'
 
 @module()
@@ -38,8 +39,8 @@ export class BasicMessagesModule {
     await this.messageSender.sendMessage(outboundMessage)
   }
 
-  public async findAllByQuery(query: Partial<BasicMessageTags>) {
-    return this.basicMessageService.findAllByQuery(query)
+  public async findAllByQuery(query: Partial<BasicMessageTags>, queryOptions?: QueryOptions) {
+    return this.basicMessageService.findAllByQuery(query, queryOptions)
   }
 
   private registerHandlers(dispatcher: Dispatcher) {
@@ -58,5 +59,8 @@ export class BasicMessagesModule {
 
     // Repositories
     dependencyManager.registerSingleton(BasicMessageRepository)
+
+    // Records
+    dependencyManager.registerRecordClasses(BasicMessageRecord)
   }
 }
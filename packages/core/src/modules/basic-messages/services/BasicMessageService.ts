@@ -1,4 +1,5 @@
 import type { InboundMessageContext } from '../../../agent/models/InboundMessageContext'
+import type { QueryOptions } from '../../../storage/StorageService'
 import type { ConnectionRecord } from '../../connections/repository/ConnectionRecord'
 import type { BasicMessageStateChangedEvent } from '../BasicMessageEvents'
 import type { BasicMessageTags } from '../repository'
@@ -61,7 +62,7 @@ export class BasicMessageService {
     })
   }
 
-  public async findAllByQuery(query: Partial<BasicMessageTags>) {
-    return this.basicMessageRepository.findByQuery(query)
+  public async findAllByQuery(query: Partial<BasicMessageTags>, queryOptions?: QueryOptions) {
+    return this.basicMessageRepository.findByQuery(query, queryOptions)
   }
 }
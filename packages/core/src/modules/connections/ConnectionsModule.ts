@@ -1,7 +1,7 @@
 import type { DependencyManager } from '../../plugins'
+import type { Query, QueryOptions } from '../../storage/StorageService'
 import type { Key } from '../dids'
 import type { OutOfBandRecord } from '../oob/repository'
-import type { ConnectionRecord } from './repository/ConnectionRecord'
 import type { Routing } from './services'
 
 import { AgentConfig } from '../../agent/AgentConfig'
@@ -29,6 +29,7 @@ import {
 } from './handlers'
 import { HandshakeProtocol } from './models'
 import { ConnectionRepository } from './repository'
+import { ConnectionRecord } from './repository/ConnectionRecord'
 import { ConnectionService } from './services/ConnectionService'
 import { TrustPingService } from './services/TrustPingService'
 
@@ -191,10 +192,32 @@ export class ConnectionsModule {
   /**
    * Retrieve all connections records
    *
+   * @param queryOptions options to paginate and sort the connection records
    * @returns List containing all connection records
    */
-  public getAll() {
-    return this.connectionService.getAll()
+  public getAll(queryOptions?: QueryOptions) {
+    return this.connectionService.getAll(queryOptions)
+  }
+
+  /**
+   * Retrieve all connection records matching the query
+   *
+   * @param query the query to find the connection records by
+   * @param queryOptions options to paginate and sort the connection records
+   * @returns List containing all connection records matching the query
+   */
+  public findAllByQuery(query: Query<ConnectionRecord>, queryOptions?: QueryOptions) {
+    return this.connectionService.findAllByQuery(query, queryOptions)
+  }
+
+  /**
+   * Count the connection records matching the query
+   *
+   * @param query the query to count the connection records by. Counts all connection records if not provided
+   * @returns The number of connection records matching the query
+   */
+  public count(query?: Query<ConnectionRecord>) {
+    return this.connectionService.count(query)
   }
 
   /**
@@ -233,8 +256,8 @@ export class ConnectionsModule {
     if (theirDidRecord) {
       const ourDidRecord = await this.didRepository.findByRecipientKey(recipientKey)
       if (ourDidRecord) {
-        const connectionRecord = await this.connectionService.findSingleByQuery({
-          did: ourDidRecord.id,
+        const connectionRecord = await this.connectionService.findByDids({
+          ourDid: ourDidRecord.id,
           theirDid: theirDidRecord.id,
         })
         if (connectionRecord && connectionRecord.isReady) return connectionRecord
@@ -248,6 +271,21 @@ export class ConnectionsModule {
     return null
   }
 
+  /**
+   * Find a ready connection by our did and their did. Used to find the connection of DIDComm v2 messages, as these
+   * reference the keys of both parties by key id.
+   *
+   * @returns the connection record, or null if no ready connection is found
+   */
+  public async findByDids({ ourDid, theirDid }: { ourDid: string; theirDid: string }) {
+    const connectionRecord = await this.connectionService.findByDids({ ourDid, theirDid })
+    if (connectionRecord && connectionRecord.isReady) return connectionRecord
+
+    this.agentConfig.logger.debug(`No connection record found for our did ${ourDid} and their did ${theirDid}`)
+
+    return null
+  }
+
   public async findAllByOutOfBandId(outOfBandId: string) {
     return this.connectionService.findAllByOutOfBandId(outOfBandId)
   }
@@ -330,5 +368,8 @@ export class ConnectionsModule {
 
     // Repositories
     dependencyManager.registerSingleton(ConnectionRepository)
+
+    // Records
+    dependencyManager.registerRecordClasses(ConnectionRecord)
   }
 }
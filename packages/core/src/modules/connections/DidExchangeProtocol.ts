@@ -1,5 +1,6 @@
 import type { InboundMessageContext } from '../../agent/models/InboundMessageContext'
 import type { Logger } from '../../logger'
+import type { Buffer } from '../../utils'
 import type { ParsedMessageType } from '../../utils/messageType'
 import type { ResolvedDidCommService } from '../didcomm'
 import type { OutOfBandRecord } from '../oob/repository'
@@ -14,6 +15,7 @@ import { AriesFrameworkError } from '../../error'
 import { injectable } from '../../plugins'
 import { JsonEncoder } from '../../utils/JsonEncoder'
 import { JsonTransformer } from '../../utils/JsonTransformer'
+import { TypedArrayEncoder } from '../../utils/TypedArrayEncoder'
 import { DidDocument, Key } from '../dids'
 import { DidDocumentRole } from '../dids/domain/DidDocumentRole'
 import { createDidDocumentFromServices } from '../dids/domain/createPeerDidFromServices'
@@ -22,6 +24,7 @@ import { didKeyToInstanceOfKey } from '../dids/helpers'
 import { DidKey } from '../dids/methods/key/DidKey'
 import { getNumAlgoFromPeerDid, PeerDidNumAlgo } from '../dids/methods/peer/didPeer'
 import { didDocumentJsonToNumAlgo1Did } from '../dids/methods/peer/peerDidNumAlgo1'
+import { didDocumentToNumAlgo2Did, didToNumAlgo2DidDocument } from '../dids/methods/peer/peerDidNumAlgo2'
 import { DidRepository, DidRecord } from '../dids/repository'
 import { OutOfBandRole } from '../oob/domain/OutOfBandRole'
 import { OutOfBandState } from '../oob/domain/OutOfBandState'
@@ -96,14 +99,19 @@ export class DidExchangeProtocol {
 
     // Create message
     const label = params.label ?? this.config.label
-    const didDocument = await this.createPeerDidDoc(this.routingToServices(routing))
+    const didDocument = await this.createPeerDidDoc(
+      this.routingToServices(routing),
+      this.config.peerNumAlgoForDidExchange
+    )
     const parentThreadId = outOfBandInvitation.id
 
     const message = new DidExchangeRequestMessage({ label, parentThreadId, did: didDocument.id, goal, goalCode })
 
     // Create sign attachment containing didDoc
     if (getNumAlgoFromPeerDid(didDocument.id) === PeerDidNumAlgo.GenesisDoc) {
-      const didDocAttach = await this.createSignedAttachment(didDocument, [routing.recipientKey.publicKeyBase58])
+      const didDocAttach = await this.createSignedAttachment(JsonEncoder.toBuffer(didDocument), 'application/json', [
+        routing.recipientKey.publicKeyBase58,
+      ])
       message.didDoc = didDocAttach
     }
 
@@ -153,9 +161,9 @@ export class DidExchangeProtocol {
       )
     }
     const numAlgo = getNumAlgoFromPeerDid(message.did)
-    if (numAlgo !== PeerDidNumAlgo.GenesisDoc) {
+    if (numAlgo !== PeerDidNumAlgo.GenesisDoc && numAlgo !== PeerDidNumAlgo.MultipleInceptionKeyWithoutDoc) {
       throw new DidExchangeProblemReportError(
-        `Unsupported numalgo ${numAlgo}. Supported numalgos are [${PeerDidNumAlgo.GenesisDoc}]`,
+        `Unsupported numalgo ${numAlgo}. Supported numalgos are [${PeerDidNumAlgo.GenesisDoc}, ${PeerDidNumAlgo.MultipleInceptionKeyWithoutDoc}]`,
         {
           problemCode: DidExchangeProblemReportReason.RequestNotAccepted,
         }
@@ -167,8 +175,8 @@ export class DidExchangeProtocol {
       id: message.did,
       role: DidDocumentRole.Received,
       // It is important to take the did document from the PeerDid class
-      // as it will have the id property
-      didDocument,
+      // as it will have the id property. Method 2 did documents are resolved from the did itself.
+      didDocument: numAlgo === PeerDidNumAlgo.GenesisDoc ? didDocument : undefined,
       tags: {
         // We need to save the recipientKeys, so we can find the associated did
         // of a key when we receive a message from another connection.
@@ -229,12 +237,13 @@ export class DidExchangeProtocol {
       }))
     }
 
-    const didDocument = await this.createPeerDidDoc(services)
+    const didDocument = await this.createPeerDidDoc(services, this.config.peerNumAlgoForDidExchange)
     const message = new DidExchangeResponseMessage({ did: didDocument.id, threadId })
 
     if (getNumAlgoFromPeerDid(didDocument.id) === PeerDidNumAlgo.GenesisDoc) {
       const didDocAttach = await this.createSignedAttachment(
-        didDocument,
+        JsonEncoder.toBuffer(didDocument),
+        'application/json',
         Array.from(
           new Set(
             services
@@ -245,6 +254,16 @@ export class DidExchangeProtocol {
         )
       )
       message.didDoc = didDocAttach
+    } else {
+      // There is no did document to sign, so the did itself is signed with the invitation key, which proves to the
+      // requester that the response was created by the party that created the invitation
+      message.didRotate = await this.createSignedAttachment(
+        TypedArrayEncoder.fromString(didDocument.id),
+        'text/string',
+        outOfBandRecord
+          .getTags()
+          .recipientKeyFingerprints.map((fingerprint) => Key.fromFingerprint(fingerprint).publicKeyBase58)
+      )
     }
 
     connectionRecord.did = didDocument.id
@@ -285,25 +304,28 @@ export class DidExchangeProtocol {
       )
     }
     const numAlgo = getNumAlgoFromPeerDid(message.did)
-    if (numAlgo !== PeerDidNumAlgo.GenesisDoc) {
+    if (numAlgo !== PeerDidNumAlgo.GenesisDoc && numAlgo !== PeerDidNumAlgo.MultipleInceptionKeyWithoutDoc) {
       throw new DidExchangeProblemReportError(
-        `Unsupported numalgo ${numAlgo}. Supported numalgos are [${PeerDidNumAlgo.GenesisDoc}]`,
+        `Unsupported numalgo ${numAlgo}. Supported numalgos are [${PeerDidNumAlgo.GenesisDoc}, ${PeerDidNumAlgo.MultipleInceptionKeyWithoutDoc}]`,
         {
           problemCode: DidExchangeProblemReportReason.ResponseNotAccepted,
         }
       )
     }
 
-    const didDocument = await this.extractDidDocument(
-      message,
-      outOfBandRecord
-        .getTags()
-        .recipientKeyFingerprints.map((fingerprint) => Key.fromFingerprint(fingerprint).publicKeyBase58)
-    )
+    const invitationKeysBase58 = outOfBandRecord
+      .getTags()
+      .recipientKeyFingerprints.map((fingerprint) => Key.fromFingerprint(fingerprint).publicKeyBase58)
+
+    if (numAlgo === PeerDidNumAlgo.MultipleInceptionKeyWithoutDoc) {
+      await this.verifyDidRotateAttachment(message, invitationKeysBase58)
+    }
+
+    const didDocument = await this.extractDidDocument(message, invitationKeysBase58)
     const didRecord = new DidRecord({
       id: message.did,
       role: DidDocumentRole.Received,
-      didDocument,
+      didDocument: numAlgo === PeerDidNumAlgo.GenesisDoc ? didDocument : undefined,
       tags: {
         // We need to save the recipientKeys, so we can find the associated did
         // of a key when we receive a message from another connection.
@@ -393,16 +415,25 @@ export class DidExchangeProtocol {
     return this.connectionService.updateState(connectionRecord, nextState)
   }
 
-  private async createPeerDidDoc(services: ResolvedDidCommService[]) {
-    const didDocument = createDidDocumentFromServices(services)
-
-    const peerDid = didDocumentJsonToNumAlgo1Did(didDocument.toJSON())
-    didDocument.id = peerDid
+  private async createPeerDidDoc(
+    services: ResolvedDidCommService[],
+    numAlgo: PeerDidNumAlgo.GenesisDoc | PeerDidNumAlgo.MultipleInceptionKeyWithoutDoc
+  ) {
+    let didDocument = createDidDocumentFromServices(services)
+
+    if (numAlgo === PeerDidNumAlgo.MultipleInceptionKeyWithoutDoc) {
+      // The keys and services (including the mediator routing keys) are encoded in the did. We use the did document
+      // as resolved from the did, so the key and service ids match the ones the other party will resolve.
+      didDocument = didToNumAlgo2DidDocument(didDocumentToNumAlgo2Did(didDocument))
+    } else {
+      didDocument.id = didDocumentJsonToNumAlgo1Did(didDocument.toJSON())
+    }
 
     const didRecord = new DidRecord({
-      id: peerDid,
+      id: didDocument.id,
       role: DidDocumentRole.Created,
-      didDocument,
+      // Method 2 did documents are resolved from the did itself, so we only need to store method 1 did documents
+      didDocument: numAlgo === PeerDidNumAlgo.GenesisDoc ? didDocument : undefined,
       tags: {
         // We need to save the recipientKeys, so we can find the associated did
         // of a key when we receive a message from another connection.
@@ -422,11 +453,11 @@ export class DidExchangeProtocol {
     return didDocument
   }
 
-  private async createSignedAttachment(didDoc: DidDocument, verkeys: string[]) {
-    const didDocAttach = new Attachment({
-      mimeType: 'application/json',
+  private async createSignedAttachment(payload: Buffer, mimeType: string, verkeys: string[]) {
+    const signedAttach = new Attachment({
+      mimeType,
       data: new AttachmentData({
-        base64: JsonEncoder.toBase64(didDoc),
+        base64: TypedArrayEncoder.toBase64(payload),
       }),
     })
 
@@ -434,7 +465,6 @@ export class DidExchangeProtocol {
       verkeys.map(async (verkey) => {
         const key = Key.fromPublicKeyBase58(verkey, KeyType.Ed25519)
         const kid = new DidKey(key).did
-        const payload = JsonEncoder.toBuffer(didDoc)
 
         const jws = await this.jwsService.createJws({
           payload,
@@ -443,15 +473,48 @@ export class DidExchangeProtocol {
             kid,
           },
         })
-        didDocAttach.addJws(jws)
+        signedAttach.addJws(jws)
       })
     )
 
-    return didDocAttach
+    return signedAttach
+  }
+
+  /**
+   * Verifies the `did_rotate~attach` of a response message, which must contain the did of the response signed with
+   * one of the invitation keys. Required for dids of which the did document is resolved from the did itself, as there
+   * is no signed did document to prove the response was created by the party that created the invitation.
+   *
+   * @param message DID response message
+   * @param invitationKeysBase58 keys from the connection invitation that could be used for signing the did
+   */
+  private async verifyDidRotateAttachment(message: DidExchangeResponseMessage, invitationKeysBase58: string[]) {
+    const jws = message.didRotate?.data.jws
+    if (!message.didRotate?.data.base64 || !jws) {
+      throw new DidExchangeProblemReportError('DID rotate attachment is missing.', {
+        problemCode: DidExchangeProblemReportReason.ResponseNotAccepted,
+      })
+    }
+
+    const payload = TypedArrayEncoder.fromBase64(message.didRotate.data.base64)
+    const { isValid, signerVerkeys } = await this.jwsService.verifyJws({ jws, payload })
+
+    this.logger.trace('DID rotate JWS verification result', { isValid, signerVerkeys, invitationKeysBase58 })
+
+    if (
+      !isValid ||
+      TypedArrayEncoder.toUtf8String(payload) !== message.did ||
+      !signerVerkeys.every((verkey) => invitationKeysBase58.includes(verkey))
+    ) {
+      throw new DidExchangeProblemReportError('DID rotate signature is invalid.', {
+        problemCode: DidExchangeProblemReportReason.ResponseNotAccepted,
+      })
+    }
   }
 
   /**
-   * Extracts DID document as is from request or response message attachment and verifies its signature.
+   * Extracts DID document as is from request or response message attachment and verifies its signature. The DID
+   * document of a method 2 peer did is resolved from the did itself.
    *
    * @param message DID request or DID response message
    * @param invitationKeys array containing keys from connection invitation that could be used for signing of DID document
@@ -461,6 +524,10 @@ export class DidExchangeProtocol {
     message: DidExchangeRequestMessage | DidExchangeResponseMessage,
     invitationKeysBase58: string[] = []
   ): Promise<DidDocument> {
+    if (getNumAlgoFromPeerDid(message.did) === PeerDidNumAlgo.MultipleInceptionKeyWithoutDoc) {
+      return this.resolveNumAlgo2DidDocument(message)
+    }
+
     if (!message.didDoc) {
       const problemCode =
         message instanceof DidExchangeRequestMessage
@@ -511,6 +578,18 @@ export class DidExchangeProtocol {
     return didDocument
   }
 
+  private resolveNumAlgo2DidDocument(message: DidExchangeRequestMessage | DidExchangeResponseMessage) {
+    try {
+      return didToNumAlgo2DidDocument(message.did)
+    } catch (error) {
+      const problemCode =
+        message instanceof DidExchangeRequestMessage
+          ? DidExchangeProblemReportReason.RequestNotAccepted
+          : DidExchangeProblemReportReason.ResponseNotAccepted
+      throw new DidExchangeProblemReportError(`Unable to resolve did document of did ${message.did}.`, { problemCode })
+    }
+  }
+
   private routingToServices(routing: Routing): ResolvedDidCommService[] {
     return routing.endpoints.map((endpoint, index) => ({
       id: `#inline-${index}`,
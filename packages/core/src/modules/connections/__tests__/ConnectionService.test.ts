@@ -893,7 +893,7 @@ describe('ConnectionService', () => {
 
       mockFunction(connectionRepository.getAll).mockReturnValue(Promise.resolve(expected))
       const result = await connectionService.getAll()
-      expect(connectionRepository.getAll).toBeCalledWith()
+      expect(connectionRepository.getAll).toBeCalledWith(undefined)
 
       expect(result).toEqual(expect.arrayContaining(expected))
     })
@@ -45,4 +45,13 @@ export class DidExchangeResponseMessage extends AgentMessage {
   @Type(() => Attachment)
   @ValidateNested()
   public didDoc?: Attachment
+
+  /**
+   * The did of the response signed with the invitation key. Used instead of a signed did document when the did
+   * document is resolved from the did itself, e.g. for a `did:peer` method 2 did.
+   */
+  @Expose({ name: 'did_rotate~attach' })
+  @Type(() => Attachment)
+  @ValidateNested()
+  public didRotate?: Attachment
 }
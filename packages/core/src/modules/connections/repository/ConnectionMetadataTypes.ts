@@ -0,0 +1,11 @@
+export enum ConnectionMetadataKeys {
+  DidRotate = '_internal/didRotate',
+}
+
+export type ConnectionMetadata = {
+  [ConnectionMetadataKeys.DidRotate]: {
+    did: string
+    previousDid: string
+    threadId: string
+  }
+}
@@ -1,5 +1,6 @@
 import type { TagsBase } from '../../../storage/BaseRecord'
 import type { HandshakeProtocol } from '../models'
+import type { ConnectionMetadata } from './ConnectionMetadataTypes'
 
 import { AriesFrameworkError } from '../../../error'
 import { BaseRecord } from '../../../storage/BaseRecord'
@@ -24,6 +25,7 @@ export interface ConnectionRecordProps {
   protocol?: HandshakeProtocol
   outOfBandId?: string
   invitationDid?: string
+  previousDids?: Array<string>
 }
 
 export type CustomConnectionTags = TagsBase
@@ -36,10 +38,11 @@ export type DefaultConnectionTags = {
   theirDid?: string
   outOfBandId?: string
   invitationDid?: string
+  previousDids?: Array<string>
 }
 
 export class ConnectionRecord
-  extends BaseRecord<DefaultConnectionTags, CustomConnectionTags>
+  extends BaseRecord<DefaultConnectionTags, CustomConnectionTags, ConnectionMetadata>
   implements ConnectionRecordProps
 {
   public state!: DidExchangeState
@@ -61,6 +64,9 @@ export class ConnectionRecord
   public outOfBandId?: string
   public invitationDid?: string
 
+  // Our dids that were rotated away from, but are still accepted until the rotation is acknowledged
+  public previousDids?: Array<string>
+
   public static readonly type = 'ConnectionRecord'
   public readonly type = ConnectionRecord.type
 
@@ -85,6 +91,7 @@ export class ConnectionRecord
       this.errorMessage = props.errorMessage
       this.protocol = props.protocol
       this.outOfBandId = props.outOfBandId
+      this.previousDids = props.previousDids
     }
   }
 
@@ -99,6 +106,7 @@ export class ConnectionRecord
       theirDid: this.theirDid,
       outOfBandId: this.outOfBandId,
       invitationDid: this.invitationDid,
+      previousDids: this.previousDids,
     }
   }
 
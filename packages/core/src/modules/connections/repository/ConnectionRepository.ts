@@ -15,9 +15,13 @@ export class ConnectionRepository extends Repository<ConnectionRecord> {
     super(ConnectionRecord, storageService, eventEmitter)
   }
 
+  /**
+   * Find a connection by our did and their did. Our previous dids are also taken into account, so messages sent
+   * to a did that is being rotated away from can still be matched with the connection.
+   */
   public async findByDids({ ourDid, theirDid }: { ourDid: string; theirDid: string }) {
     return this.findSingleByQuery({
-      did: ourDid,
+      $or: [{ did: ourDid }, { previousDids: [ourDid] }],
       theirDid,
     })
   }
@@ -13,6 +13,7 @@ describe('ConnectionRecord', () => {
         theirDid: 'a-their-did',
         outOfBandId: 'a-out-of-band-id',
         invitationDid: 'a-invitation-did',
+        previousDids: ['a-previous-did'],
       })
 
       expect(connectionRecord.getTags()).toEqual({
@@ -24,6 +25,7 @@ describe('ConnectionRecord', () => {
         theirDid: 'a-their-did',
         outOfBandId: 'a-out-of-band-id',
         invitationDid: 'a-invitation-did',
+        previousDids: ['a-previous-did'],
       })
     })
   })
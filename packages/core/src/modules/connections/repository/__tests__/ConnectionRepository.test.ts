@@ -0,0 +1,56 @@
+import type { StorageService } from '../../../../storage/StorageService'
+
+import { InMemoryStorageService } from '../../../../../../../tests/InMemoryStorageService'
+import { getAgentConfig } from '../../../../../tests/helpers'
+import { EventEmitter } from '../../../../agent/EventEmitter'
+import { DidExchangeRole, DidExchangeState } from '../../models'
+import { ConnectionRecord } from '../ConnectionRecord'
+import { ConnectionRepository } from '../ConnectionRepository'
+
+describe('ConnectionRepository', () => {
+  let connectionRepository: ConnectionRepository
+  let connectionRecord: ConnectionRecord
+
+  beforeEach(async () => {
+    const agentConfig = getAgentConfig('ConnectionRepositoryTest')
+    connectionRepository = new ConnectionRepository(
+      new InMemoryStorageService() as unknown as StorageService<ConnectionRecord>,
+      new EventEmitter(agentConfig)
+    )
+
+    connectionRecord = new ConnectionRecord({
+      role: DidExchangeRole.Requester,
+      state: DidExchangeState.Completed,
+      did: 'did:peer:current',
+      theirDid: 'did:peer:theirs',
+      previousDids: ['did:peer:previous'],
+    })
+    await connectionRepository.save(connectionRecord)
+  })
+
+  describe('findByDids()', () => {
+    it('finds the connection by our current did', async () => {
+      const found = await connectionRepository.findByDids({ ourDid: 'did:peer:current', theirDid: 'did:peer:theirs' })
+
+      expect(found?.id).toBe(connectionRecord.id)
+    })
+
+    it('finds the connection by one of our previous dids', async () => {
+      const found = await connectionRepository.findByDids({ ourDid: 'did:peer:previous', theirDid: 'did:peer:theirs' })
+
+      expect(found?.id).toBe(connectionRecord.id)
+    })
+
+    it('does not find the connection if their did does not match', async () => {
+      const found = await connectionRepository.findByDids({ ourDid: 'did:peer:current', theirDid: 'did:peer:other' })
+
+      expect(found).toBeNull()
+    })
+
+    it('does not find the connection for an unknown did of ours', async () => {
+      const found = await connectionRepository.findByDids({ ourDid: 'did:peer:unknown', theirDid: 'did:peer:theirs' })
+
+      expect(found).toBeNull()
+    })
+  })
+})
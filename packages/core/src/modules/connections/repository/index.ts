@@ -1,2 +1,3 @@
 export * from './ConnectionRecord'
 export * from './ConnectionRepository'
+export * from './ConnectionMetadataTypes'
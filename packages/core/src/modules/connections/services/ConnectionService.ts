@@ -1,6 +1,7 @@
 import type { AgentMessage } from '../../../agent/AgentMessage'
 import type { InboundMessageContext } from '../../../agent/models/InboundMessageContext'
 import type { Logger } from '../../../logger'
+import type { Query, QueryOptions } from '../../../storage/StorageService'
 import type { AckMessage } from '../../common'
 import type { OutOfBandDidCommService } from '../../oob/domain/OutOfBandDidCommService'
 import type { OutOfBandRecord } from '../../oob/repository'
@@ -410,9 +411,12 @@ export class ConnectionService {
       }
     }
 
-    connectionRecord.errorMessage = `${connectionProblemReportMessage.description.code} : ${connectionProblemReportMessage.description.en}`
-    await this.update(connectionRecord)
-    return connectionRecord
+    // Other messages for the connection can be processed concurrently, so the error message is applied to the
+    // latest version of the connection record
+    const errorMessage = `${connectionProblemReportMessage.description.code} : ${connectionProblemReportMessage.description.en}`
+    return this.updateWithRetry(connectionRecord.id, (record) => {
+      record.errorMessage = errorMessage
+    })
   }
 
   /**
@@ -514,13 +518,45 @@ export class ConnectionService {
     return this.connectionRepository.update(connectionRecord)
   }
 
+  /**
+   * Apply the update to the latest version of the connection record in storage, and retry when the connection
+   * record was updated concurrently.
+   *
+   * @see Repository.updateWithRetry
+   */
+  public updateWithRetry(connectionId: string, update: (connectionRecord: ConnectionRecord) => void | Promise<void>) {
+    return this.connectionRepository.updateWithRetry(connectionId, update)
+  }
+
   /**
    * Retrieve all connections records
    *
+   * @param queryOptions options to paginate and sort the connection records
    * @returns List containing all connection records
    */
-  public getAll() {
-    return this.connectionRepository.getAll()
+  public getAll(queryOptions?: QueryOptions) {
+    return this.connectionRepository.getAll(queryOptions)
+  }
+
+  /**
+   * Retrieve all connection records matching the query
+   *
+   * @param query the query to find the connection records by
+   * @param queryOptions options to paginate and sort the connection records
+   * @returns List containing all connection records matching the query
+   */
+  public findAllByQuery(query: Query<ConnectionRecord>, queryOptions?: QueryOptions) {
+    return this.connectionRepository.findByQuery(query, queryOptions)
+  }
+
+  /**
+   * Count the connection records matching the query
+   *
+   * @param query the query to count the connection records by. Counts all connection records if not provided
+   * @returns The number of connection records matching the query
+   */
+  public count(query?: Query<ConnectionRecord>) {
+    return this.connectionRepository.count(query)
   }
 
   /**
@@ -559,6 +595,10 @@ export class ConnectionService {
     return this.connectionRepository.findSingleByQuery(query)
   }
 
+  public async findByDids(query: { ourDid: string; theirDid: string }) {
+    return this.connectionRepository.findByDids(query)
+  }
+
   /**
    * Retrieve a connection record by thread id
    *
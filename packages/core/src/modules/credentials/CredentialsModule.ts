@@ -1,6 +1,8 @@
 import type { AgentMessage } from '../../agent/AgentMessage'
 import type { Logger } from '../../logger'
 import type { DependencyManager } from '../../plugins'
+import type { Query, QueryOptions } from '../../storage/StorageService'
+import type { IndyRevocationRegistryRecord } from '../indy/repository'
 import type { DeleteCredentialOptions } from './CredentialServiceOptions'
 import type {
   AcceptCredentialOptions,
@@ -22,7 +24,7 @@ import type {
 } from './CredentialsModuleOptions'
 import type { CredentialFormat } from './formats'
 import type { IndyCredentialFormat } from './formats/indy/IndyCredentialFormat'
-import type { CredentialExchangeRecord } from './repository/CredentialExchangeRecord'
+import type { JsonLdCredentialFormat } from './formats/jsonld/JsonLdCredentialFormat'
 import type { CredentialService } from './services/CredentialService'
 
 import { AgentConfig } from '../../agent/AgentConfig'
@@ -34,12 +36,15 @@ import { injectable, module } from '../../plugins'
 import { DidCommMessageRole } from '../../storage'
 import { DidCommMessageRepository } from '../../storage/didcomm/DidCommMessageRepository'
 import { ConnectionService } from '../connections/services'
+import { IndyRevocationRegistryService } from '../indy/services/IndyRevocationRegistryService'
 import { RoutingService } from '../routing/services/RoutingService'
 
-import { IndyCredentialFormatService } from './formats'
+import { IndyCredentialFormatService, JsonLdCredentialFormatService } from './formats'
 import { CredentialState } from './models/CredentialState'
 import { V1CredentialService } from './protocol/v1/V1CredentialService'
 import { V2CredentialService } from './protocol/v2/V2CredentialService'
+import { CredentialExchangeRecord } from './repository/CredentialExchangeRecord'
+import { CredentialMetadataKeys } from './repository/CredentialMetadataTypes'
 import { CredentialRepository } from './repository/CredentialRepository'
 import { RevocationNotificationService } from './services'
 
@@ -71,6 +76,10 @@ export interface CredentialsModule<CFs extends CredentialFormat[], CSs extends C
   acceptCredential(options: AcceptCredentialOptions): Promise<CredentialExchangeRecord>
   sendProblemReport(options: SendProblemReportOptions): Promise<CredentialExchangeRecord>
 
+  // Revocation
+  revokeCredential(credentialRecordId: string): Promise<CredentialExchangeRecord>
+  publishRevocations(revocationRegistryId?: string): Promise<IndyRevocationRegistryRecord[]>
+
   // Record Methods
   getAll(): Promise<CredentialExchangeRecord[]>
   getById(credentialRecordId: string): Promise<CredentialExchangeRecord>
@@ -88,7 +97,7 @@ export interface CredentialsModule<CFs extends CredentialFormat[], CSs extends C
 @module()
 @injectable()
 export class CredentialsModule<
-  CFs extends CredentialFormat[] = [IndyCredentialFormat],
+  CFs extends CredentialFormat[] = [IndyCredentialFormat, JsonLdCredentialFormat],
   CSs extends CredentialService<CFs>[] = [V1CredentialService, V2CredentialService<CFs>]
 > implements CredentialsModule<CFs, CSs>
 {
@@ -98,6 +107,7 @@ export class CredentialsModule<
   private agentConfig: AgentConfig
   private didCommMessageRepo: DidCommMessageRepository
   private routingService: RoutingService
+  private indyRevocationRegistryService: IndyRevocationRegistryService
   private logger: Logger
   private serviceMap: ServiceMap<CFs, CSs>
 
@@ -110,6 +120,7 @@ export class CredentialsModule<
     didCommMessageRepository: DidCommMessageRepository,
     v1Service: V1CredentialService,
     v2Service: V2CredentialService<CFs>,
+    indyRevocationRegistryService: IndyRevocationRegistryService,
     // only injected so the handlers will be registered
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     _revocationNotificationService: RevocationNotificationService
@@ -120,6 +131,7 @@ export class CredentialsModule<
     this.agentConfig = agentConfig
     this.routingService = mediationRecipientService
     this.didCommMessageRepo = didCommMessageRepository
+    this.indyRevocationRegistryService = indyRevocationRegistryService
     this.logger = agentConfig.logger
 
     // Dynamically build service map. This will be extracted once services are registered dynamically
@@ -545,6 +557,41 @@ export class CredentialsModule<
     return credentialRecord
   }
 
+  /**
+   * Revoke an issued credential. The revocation is not published to the ledger straight away, but is published
+   * together with other pending revocations of the same revocation registry using {@link publishRevocations}.
+   *
+   * @param credentialRecordId The id of the credential record of the issued credential
+   * @returns credential record of the revoked credential
+   */
+  public async revokeCredential(credentialRecordId: string) {
+    const credentialRecord = await this.getById(credentialRecordId)
+    const indyCredentialMetadata = credentialRecord.metadata.get(CredentialMetadataKeys.IndyCredential)
+
+    if (!indyCredentialMetadata?.indyRevocationRegistryId || !indyCredentialMetadata.indyCredentialRevocationId) {
+      throw new AriesFrameworkError(`Credential of credential record '${credentialRecord.id}' is not revocable`)
+    }
+
+    await this.indyRevocationRegistryService.revokeCredential(
+      indyCredentialMetadata.indyRevocationRegistryId,
+      indyCredentialMetadata.indyCredentialRevocationId
+    )
+
+    return credentialRecord
+  }
+
+  /**
+   * Publish the pending revocations of revocation registries to the ledger. All pending revocations of a revocation
+   * registry are published in a single revocation registry entry.
+   *
+   * @param revocationRegistryId The revocation registry to publish the revocations for. If not provided, the pending
+   * revocations of all revocation registries will be published
+   * @returns the revocation registry records for which revocations were published
+   */
+  public async publishRevocations(revocationRegistryId?: string) {
+    return this.indyRevocationRegistryService.publishRevocations(revocationRegistryId)
+  }
+
   public async getFormatData(credentialRecordId: string): Promise<GetFormatDataReturn<CFs>> {
     const credentialRecord = await this.getById(credentialRecordId)
     const service = this.getService(credentialRecord.protocolVersion)
@@ -567,10 +614,35 @@ export class CredentialsModule<
   /**
    * Retrieve all credential records
    *
+   * @param queryOptions options to paginate and sort the credential records
    * @returns List containing all credential records
    */
-  public getAll(): Promise<CredentialExchangeRecord[]> {
-    return this.credentialRepository.getAll()
+  public getAll(queryOptions?: QueryOptions): Promise<CredentialExchangeRecord[]> {
+    return this.credentialRepository.getAll(queryOptions)
+  }
+
+  /**
+   * Retrieve all credential records matching the query
+   *
+   * @param query the query to find the credential records by
+   * @param queryOptions options to paginate and sort the credential records
+   * @returns List containing all credential records matching the query
+   */
+  public findAllByQuery(
+    query: Query<CredentialExchangeRecord>,
+    queryOptions?: QueryOptions
+  ): Promise<CredentialExchangeRecord[]> {
+    return this.credentialRepository.findByQuery(query, queryOptions)
+  }
+
+  /**
+   * Count the credential records matching the query
+   *
+   * @param query the query to count the credential records by. Counts all credential records if not provided
+   * @returns The number of credential records matching the query
+   */
+  public count(query?: Query<CredentialExchangeRecord>): Promise<number> {
+    return this.credentialRepository.count(query)
   }
 
   /**
@@ -640,7 +712,11 @@ export class CredentialsModule<
     // Repositories
     dependencyManager.registerSingleton(CredentialRepository)
 
+    // Records
+    dependencyManager.registerRecordClasses(CredentialExchangeRecord)
+
     // Credential Formats
     dependencyManager.registerSingleton(IndyCredentialFormatService)
+    dependencyManager.registerSingleton(JsonLdCredentialFormatService)
   }
 }
@@ -5,6 +5,7 @@ import type {
   FormatCreateProposalOptions,
   FormatCreateProposalReturn,
   FormatProcessOptions,
+  FormatProcessCredentialOptions,
   FormatCreateOfferOptions,
   FormatCreateOfferReturn,
   FormatCreateRequestOptions,
@@ -49,7 +50,7 @@ export abstract class CredentialFormatService<CF extends CredentialFormat = Cred
   abstract acceptRequest(options: FormatAcceptRequestOptions<CF>): Promise<FormatCreateReturn>
 
   // credential methods
-  abstract processCredential(options: FormatProcessOptions): Promise<void>
+  abstract processCredential(options: FormatProcessCredentialOptions): Promise<void>
 
   // auto accept methods
   abstract shouldAutoRespondToProposal(options: FormatAutoRespondProposalOptions): boolean
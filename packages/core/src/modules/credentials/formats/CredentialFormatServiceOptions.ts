@@ -40,6 +40,10 @@ export interface FormatProcessOptions {
   credentialRecord: CredentialExchangeRecord
 }
 
+export interface FormatProcessCredentialOptions extends FormatProcessOptions {
+  requestAttachment: Attachment
+}
+
 export interface FormatCreateProposalOptions<CF extends CredentialFormat> {
   credentialRecord: CredentialExchangeRecord
   credentialFormats: CredentialFormatPayload<[CF], 'createProposal'>
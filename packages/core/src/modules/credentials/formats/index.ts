@@ -2,3 +2,4 @@ export * from './CredentialFormatService'
 export * from './CredentialFormatServiceOptions'
 export * from './CredentialFormat'
 export * from './indy'
+export * from './jsonld'
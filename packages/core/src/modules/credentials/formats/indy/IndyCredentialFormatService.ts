@@ -14,6 +14,7 @@ import type {
   FormatCreateProposalReturn,
   FormatCreateReturn,
   FormatProcessOptions,
+  FormatProcessCredentialOptions,
   FormatAutoRespondOfferOptions,
   FormatAutoRespondProposalOptions,
   FormatAutoRespondRequestOptions,
@@ -33,7 +34,7 @@ import { uuid } from '../../../../utils/uuid'
 import { Wallet } from '../../../../wallet/Wallet'
 import { ConnectionService } from '../../../connections'
 import { DidResolverService, findVerificationMethodByKeyType } from '../../../dids'
-import { IndyHolderService, IndyIssuerService } from '../../../indy'
+import { IndyHolderService, IndyIssuerService, IndyRevocationRegistryService } from '../../../indy'
 import { IndyLedgerService } from '../../../ledger'
 import { CredentialProblemReportError, CredentialProblemReportReason } from '../../errors'
 import { CredentialFormatSpec } from '../../models/CredentialFormatSpec'
@@ -55,6 +56,7 @@ export class IndyCredentialFormatService extends CredentialFormatService<IndyCre
   private indyIssuerService: IndyIssuerService
   private indyLedgerService: IndyLedgerService
   private indyHolderService: IndyHolderService
+  private indyRevocationRegistryService: IndyRevocationRegistryService
   private connectionService: ConnectionService
   private didResolver: DidResolverService
   private wallet: Wallet
@@ -66,6 +68,7 @@ export class IndyCredentialFormatService extends CredentialFormatService<IndyCre
     indyIssuerService: IndyIssuerService,
     indyLedgerService: IndyLedgerService,
     indyHolderService: IndyHolderService,
+    indyRevocationRegistryService: IndyRevocationRegistryService,
     connectionService: ConnectionService,
     didResolver: DidResolverService,
     agentConfig: AgentConfig,
@@ -75,6 +78,7 @@ export class IndyCredentialFormatService extends CredentialFormatService<IndyCre
     this.indyIssuerService = indyIssuerService
     this.indyLedgerService = indyLedgerService
     this.indyHolderService = indyHolderService
+    this.indyRevocationRegistryService = indyRevocationRegistryService
     this.connectionService = connectionService
     this.didResolver = didResolver
     this.wallet = wallet
@@ -290,12 +294,23 @@ export class IndyCredentialFormatService extends CredentialFormatService<IndyCre
       throw new AriesFrameworkError('Missing indy credential offer or credential request in createCredential')
     }
 
+    // If we created a revocation registry for the credential definition, the credential will be revocable
+    const revocationRegistryRecord = await this.indyRevocationRegistryService.findActiveRevocationRegistry(
+      credentialOffer.cred_def_id
+    )
+
     const [credential, credentialRevocationId] = await this.indyIssuerService.createCredential({
       credentialOffer,
       credentialRequest,
       credentialValues: IndyCredentialUtils.convertAttributesToValues(credentialAttributes),
+      revocationRegistryId: revocationRegistryRecord?.id,
+      tailsFilePath: revocationRegistryRecord?.tailsFilePath,
     })
 
+    if (revocationRegistryRecord) {
+      await this.indyRevocationRegistryService.markCredentialIssued(revocationRegistryRecord)
+    }
+
     if (credential.rev_reg_id) {
       credentialRecord.metadata.add(CredentialMetadataKeys.IndyCredential, {
         indyCredentialRevocationId: credentialRevocationId,
@@ -317,7 +332,7 @@ export class IndyCredentialFormatService extends CredentialFormatService<IndyCre
    * @param options the issue credential message wrapped inside this object
    * @param credentialRecord the credential exchange record for this credential
    */
-  public async processCredential({ credentialRecord, attachment }: FormatProcessOptions): Promise<void> {
+  public async processCredential({ credentialRecord, attachment }: FormatProcessCredentialOptions): Promise<void> {
     const credentialRequestMetadata = credentialRecord.metadata.get(CredentialMetadataKeys.IndyRequest)
 
     if (!credentialRequestMetadata) {
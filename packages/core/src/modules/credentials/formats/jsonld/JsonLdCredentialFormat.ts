@@ -0,0 +1,74 @@
+import type { W3cCredentialSubject, W3cIssuer } from '../../../vc'
+import type { CredentialFormat } from '../CredentialFormat'
+
+export interface JsonCredential {
+  '@context': Array<string | Record<string, unknown>>
+  id?: string
+  type: string[]
+  issuer: string | W3cIssuer
+  issuanceDate: string
+  expirationDate?: string
+  credentialSubject: W3cCredentialSubject | W3cCredentialSubject[]
+  [key: string]: unknown
+}
+
+export interface JsonVerifiableCredential extends JsonCredential {
+  proof: Record<string, unknown> | Array<Record<string, unknown>>
+}
+
+/**
+ * Options describing the proof the issuer will add to the credential.
+ *
+ * @see https://github.com/hyperledger/aries-rfcs/tree/main/features/0593-json-ld-cred-attach#ld-proof-vc-detail-attachment-format
+ */
+export interface JsonLdCredentialDetailOptionsFormat {
+  proofPurpose: string
+  proofType: string
+  created?: string
+  domain?: string
+  challenge?: string
+  credentialStatus?: {
+    type: string
+  }
+}
+
+/**
+ * This defines the module payload for calling CredentialsModule.createProposal, CredentialsModule.offerCredential
+ * and their negotiate counterparts. The format is equal to the `aries/ld-proof-vc-detail@v1.0` attachment.
+ */
+export interface JsonLdCredentialDetailFormat {
+  credential: JsonCredential
+  options: JsonLdCredentialDetailOptionsFormat
+}
+
+/**
+ * This defines the module payload for calling CredentialsModule.acceptRequest
+ */
+export interface JsonLdAcceptRequestFormat {
+  /**
+   * The verification method to sign the credential with. If not provided, the first assertion method
+   * of the issuer DID document is used.
+   */
+  verificationMethod?: string
+}
+
+export interface JsonLdCredentialFormat extends CredentialFormat {
+  formatKey: 'jsonld'
+  credentialRecordType: 'w3c'
+  credentialFormats: {
+    createProposal: JsonLdCredentialDetailFormat
+    acceptProposal: Record<string, never> // empty object
+    createOffer: JsonLdCredentialDetailFormat
+    acceptOffer: Record<string, never> // empty object
+    createRequest: JsonLdCredentialDetailFormat
+    acceptRequest: JsonLdAcceptRequestFormat
+  }
+  // Format data is based on RFC 0593
+  // https://github.com/hyperledger/aries-rfcs/tree/main/features/0593-json-ld-cred-attach
+  formatData: {
+    proposal: JsonLdCredentialDetailFormat
+    offer: JsonLdCredentialDetailFormat
+    request: JsonLdCredentialDetailFormat
+    credential: JsonVerifiableCredential
+  }
+}
@@ -0,0 +1,347 @@
+import type { Attachment } from '../../../../decorators/attachment/Attachment'
+import type { W3cProofPurpose, W3cProofType } from '../../../vc'
+import type {
+  FormatAcceptOfferOptions,
+  FormatAcceptProposalOptions,
+  FormatAcceptRequestOptions,
+  FormatAutoRespondCredentialOptions,
+  FormatAutoRespondOfferOptions,
+  FormatAutoRespondProposalOptions,
+  FormatAutoRespondRequestOptions,
+  FormatCreateOfferOptions,
+  FormatCreateOfferReturn,
+  FormatCreateProposalOptions,
+  FormatCreateProposalReturn,
+  FormatCreateRequestOptions,
+  FormatCreateReturn,
+  FormatProcessCredentialOptions,
+  FormatProcessOptions,
+} from '../CredentialFormatServiceOptions'
+import type { JsonLdCredentialDetailFormat, JsonLdCredentialFormat } from './JsonLdCredentialFormat'
+
+import { EventEmitter } from '../../../../agent/EventEmitter'
+import { AriesFrameworkError } from '../../../../error'
+import { injectable } from '../../../../plugins'
+import { JsonEncoder } from '../../../../utils/JsonEncoder'
+import { JsonTransformer } from '../../../../utils/JsonTransformer'
+import { DidResolverService } from '../../../dids'
+import { W3cCredentialService, W3cVerifiableCredential } from '../../../vc'
+import { CredentialProblemReportError, CredentialProblemReportReason } from '../../errors'
+import { CredentialFormatSpec } from '../../models/CredentialFormatSpec'
+import { CredentialRepository } from '../../repository/CredentialRepository'
+import { CredentialFormatService } from '../CredentialFormatService'
+
+import { JsonLdCredentialDetail } from './models/JsonLdCredentialDetail'
+
+const JSONLD_VC_DETAIL = 'aries/ld-proof-vc-detail@v1.0'
+const JSONLD_VC = 'aries/ld-proof-vc@v1.0'
+
+const SUPPORTED_PROOF_TYPES = ['Ed25519Signature2018', 'Ed25519Signature2020']
+const SUPPORTED_PROOF_PURPOSES = ['assertionMethod', 'authentication']
+
+@injectable()
+export class JsonLdCredentialFormatService extends CredentialFormatService<JsonLdCredentialFormat> {
+  private w3cCredentialService: W3cCredentialService
+  private didResolver: DidResolverService
+
+  public constructor(
+    credentialRepository: CredentialRepository,
+    eventEmitter: EventEmitter,
+    w3cCredentialService: W3cCredentialService,
+    didResolver: DidResolverService
+  ) {
+    super(credentialRepository, eventEmitter)
+    this.w3cCredentialService = w3cCredentialService
+    this.didResolver = didResolver
+  }
+
+  public readonly formatKey = 'jsonld' as const
+  public readonly credentialRecordType = 'w3c' as const
+
+  /**
+   * Create a {@link AttachmentFormats} object dependent on the message type.
+   *
+   * @param options The object containing all the options for the proposed credential
+   * @returns object containing associated attachment, format and optionally the credential preview
+   *
+   */
+  public async createProposal({
+    credentialFormats,
+  }: FormatCreateProposalOptions<JsonLdCredentialFormat>): Promise<FormatCreateProposalReturn> {
+    const jsonLdFormat = credentialFormats.jsonld
+
+    if (!jsonLdFormat) {
+      throw new AriesFrameworkError('Missing jsonld payload in createProposal')
+    }
+
+    return this.createCredentialDetail(jsonLdFormat)
+  }
+
+  public async processProposal({ attachment }: FormatProcessOptions): Promise<void> {
+    this.getCredentialDetail(attachment)
+  }
+
+  /**
+   * Accept a proposal by offering the credential detail from the proposal.
+   */
+  public async acceptProposal({
+    attachId,
+    proposalAttachment,
+  }: FormatAcceptProposalOptions<JsonLdCredentialFormat>): Promise<FormatCreateOfferReturn> {
+    return this.createCredentialDetail(proposalAttachment.getDataAsJson<JsonLdCredentialDetailFormat>(), attachId)
+  }
+
+  public async createOffer({
+    credentialFormats,
+    attachId,
+  }: FormatCreateOfferOptions<JsonLdCredentialFormat>): Promise<FormatCreateOfferReturn> {
+    const jsonLdFormat = credentialFormats.jsonld
+
+    if (!jsonLdFormat) {
+      throw new AriesFrameworkError('Missing jsonld payload in createOffer')
+    }
+
+    return this.createCredentialDetail(jsonLdFormat, attachId)
+  }
+
+  public async processOffer({ attachment }: FormatProcessOptions): Promise<void> {
+    this.getCredentialDetail(attachment)
+  }
+
+  /**
+   * Accept an offer by requesting the credential detail from the offer.
+   */
+  public async acceptOffer({
+    attachId,
+    offerAttachment,
+  }: FormatAcceptOfferOptions<JsonLdCredentialFormat>): Promise<FormatCreateReturn> {
+    return this.createCredentialDetail(offerAttachment.getDataAsJson<JsonLdCredentialDetailFormat>(), attachId)
+  }
+
+  public async createRequest({
+    credentialFormats,
+  }: FormatCreateRequestOptions<JsonLdCredentialFormat>): Promise<FormatCreateReturn> {
+    const jsonLdFormat = credentialFormats.jsonld
+
+    if (!jsonLdFormat) {
+      throw new AriesFrameworkError('Missing jsonld payload in createRequest')
+    }
+
+    return this.createCredentialDetail(jsonLdFormat)
+  }
+
+  public async processRequest({ attachment }: FormatProcessOptions): Promise<void> {
+    this.getCredentialDetail(attachment)
+  }
+
+  /**
+   * Issue the requested credential by signing it with a key of the issuer.
+   */
+  public async acceptRequest({
+    credentialFormats,
+    attachId,
+    requestAttachment,
+  }: FormatAcceptRequestOptions<JsonLdCredentialFormat>): Promise<FormatCreateReturn> {
+    const { credential, options } = this.getCredentialDetail(requestAttachment)
+
+    if (options.credentialStatus) {
+      throw new AriesFrameworkError('Adding a credential status to a jsonld credential is not supported')
+    }
+
+    if (!SUPPORTED_PROOF_TYPES.includes(options.proofType)) {
+      throw new AriesFrameworkError(`Proof type '${options.proofType}' is not supported for jsonld credentials`)
+    }
+
+    if (!SUPPORTED_PROOF_PURPOSES.includes(options.proofPurpose)) {
+      throw new AriesFrameworkError(`Proof purpose '${options.proofPurpose}' is not supported for jsonld credentials`)
+    }
+
+    const verificationMethod =
+      credentialFormats?.jsonld?.verificationMethod ?? (await this.deriveVerificationMethod(credential.issuerId))
+
+    const verifiableCredential = await this.w3cCredentialService.signCredential({
+      credential,
+      proofType: options.proofType as W3cProofType,
+      proofPurpose: options.proofPurpose as W3cProofPurpose,
+      verificationMethod,
+      created: options.created,
+      domain: options.domain,
+      challenge: options.challenge,
+    })
+
+    const format = new CredentialFormatSpec({
+      attachId,
+      format: JSONLD_VC,
+    })
+
+    const attachment = this.getFormatData(JsonTransformer.toJSON(verifiableCredential), format.attachId)
+    return { format, attachment }
+  }
+
+  /**
+   * Processes an incoming credential - verify the credential matches the request, verify the proof
+   * and store it in the wallet
+   */
+  public async processCredential({
+    credentialRecord,
+    attachment,
+    requestAttachment,
+  }: FormatProcessCredentialOptions): Promise<void> {
+    const credentialJson = attachment.getDataAsJson<Record<string, unknown>>()
+    const verifiableCredential = JsonTransformer.fromJSON(credentialJson, W3cVerifiableCredential)
+    const credentialDetail = this.getCredentialDetail(requestAttachment)
+
+    if (!this.credentialMatchesRequest(credentialJson, requestAttachment.getDataAsJson())) {
+      throw new CredentialProblemReportError(
+        `Received credential for credential record ${credentialRecord.id} does not match requested credential`,
+        { problemCode: CredentialProblemReportReason.IssuanceAbandoned }
+      )
+    }
+
+    const { verified, error } = await this.w3cCredentialService.verifyCredential({
+      credential: verifiableCredential,
+      proofPurpose: credentialDetail.options.proofPurpose as W3cProofPurpose,
+      domain: credentialDetail.options.domain,
+      challenge: credentialDetail.options.challenge,
+    })
+
+    if (!verified) {
+      throw new CredentialProblemReportError(
+        `Unable to verify credential for credential record ${credentialRecord.id}: ${error?.message}`,
+        { problemCode: CredentialProblemReportReason.IssuanceAbandoned }
+      )
+    }
+
+    const w3cCredentialRecord = await this.w3cCredentialService.storeCredential({
+      credential: verifiableCredential,
+    })
+
+    credentialRecord.credentials.push({
+      credentialRecordType: this.credentialRecordType,
+      credentialRecordId: w3cCredentialRecord.id,
+    })
+  }
+
+  public supportsFormat(format: string): boolean {
+    const supportedFormats = [JSONLD_VC_DETAIL, JSONLD_VC]
+
+    return supportedFormats.includes(format)
+  }
+
+  public async deleteCredentialById(credentialRecordId: string): Promise<void> {
+    await this.w3cCredentialService.removeCredentialRecord(credentialRecordId)
+  }
+
+  public shouldAutoRespondToProposal({ offerAttachment, proposalAttachment }: FormatAutoRespondProposalOptions) {
+    return this.areAttachmentsEqual(proposalAttachment, offerAttachment)
+  }
+
+  public shouldAutoRespondToOffer({ offerAttachment, proposalAttachment }: FormatAutoRespondOfferOptions) {
+    return this.areAttachmentsEqual(proposalAttachment, offerAttachment)
+  }
+
+  public shouldAutoRespondToRequest({ offerAttachment, requestAttachment }: FormatAutoRespondRequestOptions) {
+    return this.areAttachmentsEqual(offerAttachment, requestAttachment)
+  }
+
+  public shouldAutoRespondToCredential({
+    requestAttachment,
+    credentialAttachment,
+  }: FormatAutoRespondCredentialOptions) {
+    return this.credentialMatchesRequest(credentialAttachment.getDataAsJson(), requestAttachment.getDataAsJson())
+  }
+
+  private createCredentialDetail(credentialDetailJson: JsonLdCredentialDetailFormat, attachId?: string) {
+    // Validate the credential detail before sending it
+    JsonTransformer.fromJSON(credentialDetailJson, JsonLdCredentialDetail)
+
+    const format = new CredentialFormatSpec({
+      attachId,
+      format: JSONLD_VC_DETAIL,
+    })
+
+    const attachment = this.getFormatData(credentialDetailJson, format.attachId)
+    return { format, attachment }
+  }
+
+  private getCredentialDetail(attachment: Attachment) {
+    try {
+      return JsonTransformer.fromJSON(attachment.getDataAsJson(), JsonLdCredentialDetail)
+    } catch (error) {
+      throw new CredentialProblemReportError(`Invalid jsonld credential detail: ${error.message}`, {
+        problemCode: CredentialProblemReportReason.IssuanceAbandoned,
+      })
+    }
+  }
+
+  /**
+   * The issued credential must be equal to the requested credential, except for the added proof (and the suite
+   * context that may be added when signing). The proof must match the requested options.
+   */
+  private credentialMatchesRequest(
+    credentialJson: Record<string, unknown>,
+    { credential: requestedCredential, options }: JsonLdCredentialDetailFormat
+  ) {
+    const { proof, '@context': credentialContext, ...credential } = credentialJson
+    const { '@context': requestedContext, ...requested } = requestedCredential
+
+    const contexts = Array.isArray(credentialContext) ? credentialContext : [credentialContext]
+    const includesRequestedContexts = requestedContext.every((context) =>
+      contexts.some((credentialContext) => JsonEncoder.toString(credentialContext) === JsonEncoder.toString(context))
+    )
+
+    if (!includesRequestedContexts || !this.areJsonEqual(credential, requested)) return false
+
+    const proofs = Array.isArray(proof) ? proof : [proof]
+    return proofs.some(
+      (proof) =>
+        proof?.type === options.proofType &&
+        proof?.proofPurpose === options.proofPurpose &&
+        (options.created === undefined || proof?.created === options.created) &&
+        (options.domain === undefined || proof?.domain === options.domain) &&
+        (options.challenge === undefined || proof?.challenge === options.challenge)
+    )
+  }
+
+  private areAttachmentsEqual(firstAttachment: Attachment, secondAttachment: Attachment) {
+    return this.areJsonEqual(firstAttachment.getDataAsJson(), secondAttachment.getDataAsJson())
+  }
+
+  private areJsonEqual(first: unknown, second: unknown): boolean {
+    if (Array.isArray(first) && Array.isArray(second)) {
+      return first.length === second.length && first.every((item, index) => this.areJsonEqual(item, second[index]))
+    }
+
+    if (first && second && typeof first === 'object' && typeof second === 'object') {
+      const firstEntries = Object.entries(first as Record<string, unknown>).filter(([, value]) => value !== undefined)
+      const secondObject = second as Record<string, unknown>
+      const secondKeys = Object.keys(secondObject).filter((key) => secondObject[key] !== undefined)
+
+      return (
+        firstEntries.length === secondKeys.length &&
+        firstEntries.every(([key, value]) => this.areJsonEqual(value, secondObject[key]))
+      )
+    }
+
+    return first === second
+  }
+
+  /**
+   * Get the first assertion method of the issuer DID document, to use for signing the credential.
+   */
+  private async deriveVerificationMethod(issuerId: string) {
+    const didDocument = await this.didResolver.resolveDidDocument(issuerId)
+    const [assertionMethod] = didDocument.assertionMethod ?? []
+
+    if (!assertionMethod) {
+      throw new AriesFrameworkError(
+        `Unable to derive verification method for issuer ${issuerId}. No assertion methods found in did document.`
+      )
+    }
+
+    const verificationMethod = typeof assertionMethod === 'string' ? assertionMethod : assertionMethod.id
+
+    // Verification methods can be referenced relative to the did document
+    return verificationMethod.startsWith('#') ? `${didDocument.id}${verificationMethod}` : verificationMethod
+  }
+}
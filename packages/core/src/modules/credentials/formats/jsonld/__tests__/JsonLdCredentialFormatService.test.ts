@@ -0,0 +1,231 @@
+import type { CredentialFormatService } from '../../CredentialFormatService'
+import type { JsonLdCredentialDetailFormat, JsonLdCredentialFormat } from '../JsonLdCredentialFormat'
+
+import { getAgentConfig, mockFunction } from '../../../../../../tests/helpers'
+import { EventEmitter } from '../../../../../agent/EventEmitter'
+import { Attachment, AttachmentData } from '../../../../../decorators/attachment/Attachment'
+import { JsonEncoder } from '../../../../../utils/JsonEncoder'
+import { JsonTransformer } from '../../../../../utils/JsonTransformer'
+import { DidKey } from '../../../../dids'
+import { DidResolverService } from '../../../../dids/services/DidResolverService'
+import { W3cCredentialRecord, W3cCredentialService, W3cVerifiableCredential } from '../../../../vc'
+import { CredentialState } from '../../../models'
+import { CredentialExchangeRecord } from '../../../repository/CredentialExchangeRecord'
+import { CredentialRepository } from '../../../repository/CredentialRepository'
+import { JsonLdCredentialFormatService } from '../JsonLdCredentialFormatService'
+
+jest.mock('../../../repository/CredentialRepository')
+jest.mock('../../../../vc/W3cCredentialService')
+jest.mock('../../../../dids/services/DidResolverService')
+
+const CredentialRepositoryMock = CredentialRepository as jest.Mock<CredentialRepository>
+const W3cCredentialServiceMock = W3cCredentialService as jest.Mock<W3cCredentialService>
+const DidResolverServiceMock = DidResolverService as jest.Mock<DidResolverService>
+
+const issuerDidKey = DidKey.fromDid('did:key:z6MkmjY8GnV5i9YTDtPETC2uUAW6ejw3nk5mXF5yci5ab7th')
+const verificationMethod = `${issuerDidKey.did}#${issuerDidKey.key.fingerprint}`
+
+const credentialDetail: JsonLdCredentialDetailFormat = {
+  credential: {
+    '@context': ['https://www.w3.org/2018/credentials/v1', { name: 'https://schema.org/name' }],
+    type: ['VerifiableCredential'],
+    issuer: issuerDidKey.did,
+    issuanceDate: '2022-01-01T00:00:00Z',
+    credentialSubject: {
+      id: 'did:example:b34ca6cd37bbf23',
+      name: 'Alice',
+    },
+  },
+  options: {
+    proofType: 'Ed25519Signature2018',
+    proofPurpose: 'assertionMethod',
+  },
+}
+
+const verifiableCredentialJson = {
+  ...credentialDetail.credential,
+  proof: {
+    type: 'Ed25519Signature2018',
+    proofPurpose: 'assertionMethod',
+    verificationMethod,
+    created: '2022-01-01T00:00:00Z',
+    jws: 'eyJhbGciOiJFZERTQSIsImI2NCI6ZmFsc2UsImNyaXQiOlsiYjY0Il19..signature',
+  },
+}
+
+const createAttachment = (data: unknown) =>
+  new Attachment({
+    id: 'attachment-id',
+    mimeType: 'application/json',
+    data: new AttachmentData({
+      base64: JsonEncoder.toBase64(data),
+    }),
+  })
+
+const mockCredentialRecord = () =>
+  new CredentialExchangeRecord({
+    state: CredentialState.RequestSent,
+    threadId: 'threadId',
+    protocolVersion: 'v2',
+  })
+
+describe('JsonLdCredentialFormatService', () => {
+  let w3cCredentialService: W3cCredentialService
+  let didResolver: DidResolverService
+  let jsonLdCredentialFormatService: CredentialFormatService<JsonLdCredentialFormat>
+
+  beforeEach(() => {
+    const agentConfig = getAgentConfig('JsonLdCredentialFormatServiceTest')
+
+    w3cCredentialService = new W3cCredentialServiceMock()
+    didResolver = new DidResolverServiceMock()
+    jsonLdCredentialFormatService = new JsonLdCredentialFormatService(
+      new CredentialRepositoryMock(),
+      new EventEmitter(agentConfig),
+      w3cCredentialService,
+      didResolver
+    )
+  })
+
+  describe('createOffer', () => {
+    it('creates an ld-proof-vc-detail attachment', async () => {
+      const { format, attachment } = await jsonLdCredentialFormatService.createOffer({
+        credentialRecord: mockCredentialRecord(),
+        credentialFormats: { jsonld: credentialDetail },
+      })
+
+      expect(format.format).toEqual('aries/ld-proof-vc-detail@v1.0')
+      expect(attachment.id).toEqual(format.attachId)
+      expect(attachment.getDataAsJson()).toEqual(credentialDetail)
+    })
+
+    it('throws when the credential detail is invalid', async () => {
+      await expect(
+        jsonLdCredentialFormatService.createOffer({
+          credentialRecord: mockCredentialRecord(),
+          credentialFormats: {
+            jsonld: { ...credentialDetail, credential: { ...credentialDetail.credential, type: ['SomeCredential'] } },
+          },
+        })
+      ).rejects.toThrow()
+    })
+  })
+
+  describe('acceptRequest', () => {
+    it('signs the requested credential using the first assertion method of the issuer', async () => {
+      mockFunction(didResolver.resolveDidDocument).mockResolvedValue(issuerDidKey.didDocument)
+      mockFunction(w3cCredentialService.signCredential).mockResolvedValue(
+        JsonTransformer.fromJSON(verifiableCredentialJson, W3cVerifiableCredential)
+      )
+
+      const { format, attachment } = await jsonLdCredentialFormatService.acceptRequest({
+        credentialRecord: mockCredentialRecord(),
+        requestAttachment: createAttachment(credentialDetail),
+      })
+
+      expect(didResolver.resolveDidDocument).toHaveBeenCalledWith(issuerDidKey.did)
+      expect(w3cCredentialService.signCredential).toHaveBeenCalledWith(
+        expect.objectContaining({
+          proofType: 'Ed25519Signature2018',
+          proofPurpose: 'assertionMethod',
+          verificationMethod,
+        })
+      )
+      expect(format.format).toEqual('aries/ld-proof-vc@v1.0')
+      expect(attachment.getDataAsJson()).toEqual(verifiableCredentialJson)
+    })
+
+    it('throws when the requested proof type is not supported', async () => {
+      await expect(
+        jsonLdCredentialFormatService.acceptRequest({
+          credentialRecord: mockCredentialRecord(),
+          requestAttachment: createAttachment({
+            ...credentialDetail,
+            options: { ...credentialDetail.options, proofType: 'BbsBlsSignature2020' },
+          }),
+        })
+      ).rejects.toThrow("Proof type 'BbsBlsSignature2020' is not supported for jsonld credentials")
+    })
+  })
+
+  describe('processCredential', () => {
+    it('verifies and stores the credential and binds it to the credential record', async () => {
+      const credentialRecord = mockCredentialRecord()
+      const w3cCredentialRecord = new W3cCredentialRecord({
+        id: 'w3c-credential-id',
+        credential: JsonTransformer.fromJSON(verifiableCredentialJson, W3cVerifiableCredential),
+      })
+
+      mockFunction(w3cCredentialService.verifyCredential).mockResolvedValue({ verified: true })
+      mockFunction(w3cCredentialService.storeCredential).mockResolvedValue(w3cCredentialRecord)
+
+      await jsonLdCredentialFormatService.processCredential({
+        credentialRecord,
+        attachment: createAttachment(verifiableCredentialJson),
+        requestAttachment: createAttachment(credentialDetail),
+      })
+
+      expect(w3cCredentialService.verifyCredential).toHaveBeenCalledWith(
+        expect.objectContaining({ proofPurpose: 'assertionMethod' })
+      )
+      expect(credentialRecord.credentials).toEqual([
+        { credentialRecordType: 'w3c', credentialRecordId: 'w3c-credential-id' },
+      ])
+    })
+
+    it('throws when the credential does not match the requested credential', async () => {
+      await expect(
+        jsonLdCredentialFormatService.processCredential({
+          credentialRecord: mockCredentialRecord(),
+          attachment: createAttachment({
+            ...verifiableCredentialJson,
+            credentialSubject: { id: 'did:example:b34ca6cd37bbf23', name: 'Bob' },
+          }),
+          requestAttachment: createAttachment(credentialDetail),
+        })
+      ).rejects.toThrow(/does not match requested credential/)
+
+      expect(w3cCredentialService.storeCredential).not.toHaveBeenCalled()
+    })
+
+    it('throws when the credential proof cannot be verified', async () => {
+      mockFunction(w3cCredentialService.verifyCredential).mockResolvedValue({
+        verified: false,
+        error: new Error('Invalid signature.'),
+      })
+
+      await expect(
+        jsonLdCredentialFormatService.processCredential({
+          credentialRecord: mockCredentialRecord(),
+          attachment: createAttachment(verifiableCredentialJson),
+          requestAttachment: createAttachment(credentialDetail),
+        })
+      ).rejects.toThrow(/Invalid signature/)
+
+      expect(w3cCredentialService.storeCredential).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('shouldAutoRespondToRequest', () => {
+    it('returns true when the request equals the offer', () => {
+      expect(
+        jsonLdCredentialFormatService.shouldAutoRespondToRequest({
+          credentialRecord: mockCredentialRecord(),
+          offerAttachment: createAttachment(credentialDetail),
+          requestAttachment: createAttachment(credentialDetail),
+        })
+      ).toBe(true)
+
+      expect(
+        jsonLdCredentialFormatService.shouldAutoRespondToRequest({
+          credentialRecord: mockCredentialRecord(),
+          offerAttachment: createAttachment(credentialDetail),
+          requestAttachment: createAttachment({
+            ...credentialDetail,
+            options: { ...credentialDetail.options, proofType: 'Ed25519Signature2020' },
+          }),
+        })
+      ).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,3 @@
+export * from './JsonLdCredentialFormatService'
+export * from './JsonLdCredentialFormat'
+export * from './models'
@@ -0,0 +1,36 @@
+import type { W3cCredentialOptions } from '../../../../vc'
+import type { JsonLdCredentialDetailOptionsOptions } from './JsonLdCredentialDetailOptions'
+
+import { Type } from 'class-transformer'
+import { ValidateNested } from 'class-validator'
+
+import { W3cCredential } from '../../../../vc'
+
+import { JsonLdCredentialDetailOptions } from './JsonLdCredentialDetailOptions'
+
+export interface JsonLdCredentialDetailProps {
+  credential: W3cCredentialOptions
+  options: JsonLdCredentialDetailOptionsOptions
+}
+
+/**
+ * Class providing validation for the `aries/ld-proof-vc-detail@v1.0` attachment payload.
+ *
+ * @see https://github.com/hyperledger/aries-rfcs/tree/main/features/0593-json-ld-cred-attach#ld-proof-vc-detail-attachment-format
+ */
+export class JsonLdCredentialDetail {
+  public constructor(options: JsonLdCredentialDetailProps) {
+    if (options) {
+      this.credential = new W3cCredential(options.credential)
+      this.options = new JsonLdCredentialDetailOptions(options.options)
+    }
+  }
+
+  @Type(() => W3cCredential)
+  @ValidateNested()
+  public credential!: W3cCredential
+
+  @Type(() => JsonLdCredentialDetailOptions)
+  @ValidateNested()
+  public options!: JsonLdCredentialDetailOptions
+}
@@ -0,0 +1,65 @@
+import { Type } from 'class-transformer'
+import { IsObject, IsOptional, IsString, ValidateNested } from 'class-validator'
+
+export interface JsonLdCredentialDetailCredentialStatusOptions {
+  type: string
+}
+
+export class JsonLdCredentialDetailCredentialStatus {
+  public constructor(options: JsonLdCredentialDetailCredentialStatusOptions) {
+    if (options) {
+      this.type = options.type
+    }
+  }
+
+  @IsString()
+  public type!: string
+}
+
+export interface JsonLdCredentialDetailOptionsOptions {
+  proofPurpose: string
+  proofType: string
+  created?: string
+  domain?: string
+  challenge?: string
+  credentialStatus?: JsonLdCredentialDetailCredentialStatusOptions
+}
+
+export class JsonLdCredentialDetailOptions {
+  public constructor(options: JsonLdCredentialDetailOptionsOptions) {
+    if (options) {
+      this.proofPurpose = options.proofPurpose
+      this.proofType = options.proofType
+      this.created = options.created
+      this.domain = options.domain
+      this.challenge = options.challenge
+      this.credentialStatus = options.credentialStatus
+        ? new JsonLdCredentialDetailCredentialStatus(options.credentialStatus)
+        : undefined
+    }
+  }
+
+  @IsString()
+  public proofPurpose!: string
+
+  @IsString()
+  public proofType!: string
+
+  @IsString()
+  @IsOptional()
+  public created?: string
+
+  @IsString()
+  @IsOptional()
+  public domain?: string
+
+  @IsString()
+  @IsOptional()
+  public challenge?: string
+
+  @Type(() => JsonLdCredentialDetailCredentialStatus)
+  @ValidateNested()
+  @IsObject()
+  @IsOptional()
+  public credentialStatus?: JsonLdCredentialDetailCredentialStatus
+}
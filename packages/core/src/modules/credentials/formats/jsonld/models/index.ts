@@ -0,0 +1,2 @@
+export * from './JsonLdCredentialDetail'
+export * from './JsonLdCredentialDetailOptions'
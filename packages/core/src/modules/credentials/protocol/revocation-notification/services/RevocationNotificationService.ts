@@ -47,10 +47,14 @@ export class RevocationNotificationService {
     const query = { indyRevocationRegistryId, indyCredentialRevocationId, connectionId: connection.id }
 
     this.logger.trace(`Getting record by query for revocation notification:`, query)
-    const credentialRecord = await this.credentialRepository.getSingleByQuery(query)
+    const { id: credentialRecordId } = await this.credentialRepository.getSingleByQuery(query)
 
-    credentialRecord.revocationNotification = new RevocationNotification(comment)
-    await this.credentialRepository.update(credentialRecord)
+    // The notification can be received while the credential record is updated for another message, so the
+    // notification is applied to the latest version of the credential record
+    const revocationNotification = new RevocationNotification(comment)
+    const credentialRecord = await this.credentialRepository.updateWithRetry(credentialRecordId, (record) => {
+      record.revocationNotification = revocationNotification
+    })
 
     // Clone record to prevent mutations after emitting event.
     const clonedCredentialRecord = JsonTransformer.clone(credentialRecord)
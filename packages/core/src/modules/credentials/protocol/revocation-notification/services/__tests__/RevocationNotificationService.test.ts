@@ -73,6 +73,10 @@ describe('RevocationNotificationService', () => {
       })
 
       mockFunction(credentialRepository.getSingleByQuery).mockResolvedValueOnce(credentialRecord)
+      mockFunction(credentialRepository.updateWithRetry).mockImplementation(async (_, update) => {
+        await update(credentialRecord)
+        return credentialRecord
+      })
       const { indyRevocationRegistryId, indyCredentialRevocationId } = credentialRecord.getTags()
       const revocationNotificationThreadId = `indy::${indyRevocationRegistryId}::${indyCredentialRevocationId}`
 
@@ -179,6 +183,10 @@ describe('RevocationNotificationService', () => {
       })
 
       mockFunction(credentialRepository.getSingleByQuery).mockResolvedValueOnce(credentialRecord)
+      mockFunction(credentialRepository.updateWithRetry).mockImplementation(async (_, update) => {
+        await update(credentialRecord)
+        return credentialRecord
+      })
       const { indyRevocationRegistryId, indyCredentialRevocationId } = credentialRecord.getTags()
       const revocationNotificationCredentialId = `${indyRevocationRegistryId}::${indyCredentialRevocationId}`
 
@@ -833,8 +833,14 @@ export class V1CredentialService extends CredentialService<[IndyCredentialFormat
       throw new AriesFrameworkError('Missing indy credential attachment in processCredential')
     }
 
+    const requestAttachment = requestCredentialMessage?.getRequestAttachmentById(INDY_CREDENTIAL_REQUEST_ATTACHMENT_ID)
+    if (!requestAttachment) {
+      throw new AriesFrameworkError('Missing indy credential request attachment in processCredential')
+    }
+
     await this.formatService.processCredential({
       attachment: issueAttachment,
+      requestAttachment,
       credentialRecord,
     })
 
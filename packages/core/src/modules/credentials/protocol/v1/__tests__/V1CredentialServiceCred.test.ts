@@ -561,6 +561,7 @@ describe('V1CredentialService', () => {
 
       expect(indyCredentialFormatService.processCredential).toHaveBeenNthCalledWith(1, {
         attachment: credentialAttachment,
+        requestAttachment,
         credentialRecord,
       })
     })
@@ -748,10 +749,12 @@ describe('V1CredentialService', () => {
     })
 
     test(`updates problem report error message and returns credential record`, async () => {
-      const repositoryUpdateSpy = jest.spyOn(credentialRepository, 'update')
-
       // given
       mockFunction(credentialRepository.getSingleByQuery).mockReturnValue(Promise.resolve(credential))
+      mockFunction(credentialRepository.updateWithRetry).mockImplementation(async (_, update) => {
+        await update(credential)
+        return credential
+      })
 
       // when
       const returnedCredentialRecord = await credentialService.processProblemReport(messageContext)
@@ -764,9 +767,7 @@ describe('V1CredentialService', () => {
         threadId: 'somethreadid',
         connectionId: connection.id,
       })
-      expect(repositoryUpdateSpy).toHaveBeenCalledTimes(1)
-      const [[updatedCredentialRecord]] = repositoryUpdateSpy.mock.calls
-      expect(updatedCredentialRecord).toMatchObject(expectedCredentialRecord)
+      expect(credentialRepository.updateWithRetry).toHaveBeenCalledWith(credential.id, expect.any(Function))
       expect(returnedCredentialRecord).toMatchObject(expectedCredentialRecord)
     })
   })
@@ -807,7 +808,7 @@ describe('V1CredentialService', () => {
 
       mockFunction(credentialRepository.getAll).mockReturnValue(Promise.resolve(expected))
       const result = await credentialService.getAll()
-      expect(credentialRepository.getAll).toBeCalledWith()
+      expect(credentialRepository.getAll).toBeCalledWith(undefined)
 
       expect(result).toEqual(expect.arrayContaining(expected))
     })
@@ -37,6 +37,7 @@ import { ConnectionService } from '../../../connections'
 import { RoutingService } from '../../../routing/services/RoutingService'
 import { CredentialProblemReportReason } from '../../errors'
 import { IndyCredentialFormatService } from '../../formats/indy/IndyCredentialFormatService'
+import { JsonLdCredentialFormatService } from '../../formats/jsonld/JsonLdCredentialFormatService'
 import { CredentialState, AutoAcceptCredential } from '../../models'
 import { CredentialRepository, CredentialExchangeRecord } from '../../repository'
 import { CredentialService } from '../../services/CredentialService'
@@ -77,7 +78,8 @@ export class V2CredentialService<CFs extends CredentialFormat[] = CredentialForm
     dispatcher: Dispatcher,
     eventEmitter: EventEmitter,
     credentialRepository: CredentialRepository,
-    indyCredentialFormatService: IndyCredentialFormatService
+    indyCredentialFormatService: IndyCredentialFormatService,
+    jsonLdCredentialFormatService: JsonLdCredentialFormatService
   ) {
     super(credentialRepository, didCommMessageRepository, eventEmitter, dispatcher, agentConfig)
     this.connectionService = connectionService
@@ -86,7 +88,7 @@ export class V2CredentialService<CFs extends CredentialFormat[] = CredentialForm
     this.credentialFormatCoordinator = new CredentialFormatCoordinator(didCommMessageRepository)
 
     // Dynamically build format service map. This will be extracted once services are registered dynamically
-    this.formatServiceMap = [indyCredentialFormatService].reduce(
+    this.formatServiceMap = [indyCredentialFormatService, jsonLdCredentialFormatService].reduce(
       (formatServiceMap, formatService) => ({
         ...formatServiceMap,
         [formatService.formatKey]: formatService,
@@ -103,7 +105,9 @@ export class V2CredentialService<CFs extends CredentialFormat[] = CredentialForm
   public readonly version = 'v2' as const
 
   public getFormatServiceForRecordType(credentialRecordType: CFs[number]['credentialRecordType']) {
-    const formatService = this.formatServiceMap[credentialRecordType]
+    const formatService = Object.values(this.formatServiceMap).find(
+      (formatService) => formatService.credentialRecordType === credentialRecordType
+    )
 
     if (!formatService) {
       throw new AriesFrameworkError(
@@ -728,6 +732,7 @@ export class V2CredentialService<CFs extends CredentialFormat[] = CredentialForm
     await this.credentialFormatCoordinator.processCredential({
       credentialRecord,
       formatServices,
+      requestMessage,
       message: credentialMessage,
     })
 
@@ -21,7 +21,7 @@ import { RoutingService } from '../../../../routing/services/RoutingService'
 import { CredentialEventTypes } from '../../../CredentialEvents'
 import { credReq } from '../../../__tests__/fixtures'
 import { CredentialProblemReportReason } from '../../../errors/CredentialProblemReportReason'
-import { IndyCredentialFormatService } from '../../../formats'
+import { IndyCredentialFormatService, JsonLdCredentialFormatService } from '../../../formats'
 import { IndyCredentialUtils } from '../../../formats/indy/IndyCredentialUtils'
 import { CredentialState } from '../../../models/CredentialState'
 import { CredentialExchangeRecord } from '../../../repository/CredentialExchangeRecord'
@@ -39,6 +39,7 @@ import { V2RequestCredentialMessage } from '../messages/V2RequestCredentialMessa
 // Mock classes
 jest.mock('../../../repository/CredentialRepository')
 jest.mock('../../../formats/indy/IndyCredentialFormatService')
+jest.mock('../../../formats/jsonld/JsonLdCredentialFormatService')
 jest.mock('../../../../../storage/didcomm/DidCommMessageRepository')
 jest.mock('../../../../routing/services/RoutingService')
 jest.mock('../../../../connections/services/ConnectionService')
@@ -47,6 +48,7 @@ jest.mock('../../../../../agent/Dispatcher')
 // Mock typed object
 const CredentialRepositoryMock = CredentialRepository as jest.Mock<CredentialRepository>
 const IndyCredentialFormatServiceMock = IndyCredentialFormatService as jest.Mock<IndyCredentialFormatService>
+const JsonLdCredentialFormatServiceMock = JsonLdCredentialFormatService as jest.Mock<JsonLdCredentialFormatService>
 const DidCommMessageRepositoryMock = DidCommMessageRepository as jest.Mock<DidCommMessageRepository>
 const RoutingServiceMock = RoutingService as jest.Mock<RoutingService>
 const ConnectionServiceMock = ConnectionService as jest.Mock<ConnectionService>
@@ -56,6 +58,7 @@ const credentialRepository = new CredentialRepositoryMock()
 const didCommMessageRepository = new DidCommMessageRepositoryMock()
 const routingService = new RoutingServiceMock()
 const indyCredentialFormatService = new IndyCredentialFormatServiceMock()
+const jsonLdCredentialFormatService = new JsonLdCredentialFormatServiceMock()
 const dispatcher = new DispatcherMock()
 const connectionService = new ConnectionServiceMock()
 
@@ -63,6 +66,14 @@ const connectionService = new ConnectionServiceMock()
 // @ts-ignore
 indyCredentialFormatService.formatKey = 'indy'
 
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore
+indyCredentialFormatService.credentialRecordType = 'indy'
+
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore
+jsonLdCredentialFormatService.formatKey = 'jsonld'
+
 const connection = getMockConnection({
   id: '123',
   state: DidExchangeState.Completed,
@@ -256,7 +267,8 @@ describe('CredentialService', () => {
       dispatcher,
       eventEmitter,
       credentialRepository,
-      indyCredentialFormatService
+      indyCredentialFormatService,
+      jsonLdCredentialFormatService
     )
   })
 
@@ -700,6 +712,10 @@ describe('CredentialService', () => {
 
       // given
       mockFunction(credentialRepository.getSingleByQuery).mockResolvedValue(credentialRecord)
+      mockFunction(credentialRepository.updateWithRetry).mockImplementation(async (_, update) => {
+        await update(credentialRecord)
+        return credentialRecord
+      })
 
       // when
       const returnedCredentialRecord = await credentialService.processProblemReport(messageContext)
@@ -710,7 +726,7 @@ describe('CredentialService', () => {
         threadId: 'somethreadid',
         connectionId: connection.id,
       })
-      expect(credentialRepository.update).toHaveBeenCalled()
+      expect(credentialRepository.updateWithRetry).toHaveBeenCalledWith(credentialRecord.id, expect.any(Function))
       expect(returnedCredentialRecord.errorMessage).toBe('issuance-abandoned: Indy error')
     })
   })
@@ -751,7 +767,7 @@ describe('CredentialService', () => {
 
       mockFunction(credentialRepository.getAll).mockReturnValue(Promise.resolve(expected))
       const result = await credentialService.getAll()
-      expect(credentialRepository.getAll).toBeCalledWith()
+      expect(credentialRepository.getAll).toBeCalledWith(undefined)
 
       expect(result).toEqual(expect.arrayContaining(expected))
     })
@@ -5,6 +5,7 @@ import type { EventEmitter } from '../../../agent/EventEmitter'
 import type { InboundMessageContext } from '../../../agent/models/InboundMessageContext'
 import type { Logger } from '../../../logger'
 import type { DidCommMessageRepository } from '../../../storage'
+import type { QueryOptions } from '../../../storage/StorageService'
 import type { ProblemReportMessage } from '../../problem-reports'
 import type { CredentialStateChangedEvent } from '../CredentialEvents'
 import type {
@@ -126,10 +127,12 @@ export abstract class CredentialService<CFs extends CredentialFormat[] = Credent
       connection.id
     )
 
-    // Update record
-    credentialRecord.errorMessage = `${credentialProblemReportMessage.description.code}: ${credentialProblemReportMessage.description.en}`
-    await this.update(credentialRecord)
-    return credentialRecord
+    // Other messages for the thread can be processed concurrently, so the error message is applied to the
+    // latest version of the credential record
+    const errorMessage = `${credentialProblemReportMessage.description.code}: ${credentialProblemReportMessage.description.en}`
+    return this.updateWithRetry(credentialRecord.id, (record) => {
+      record.errorMessage = errorMessage
+    })
   }
 
   /**
@@ -179,10 +182,11 @@ export abstract class CredentialService<CFs extends CredentialFormat[] = Credent
   /**
    * Retrieve all credential records
    *
+   * @param queryOptions options to paginate and sort the credential records
    * @returns List containing all credential records
    */
-  public getAll(): Promise<CredentialExchangeRecord[]> {
-    return this.credentialRepository.getAll()
+  public getAll(queryOptions?: QueryOptions): Promise<CredentialExchangeRecord[]> {
+    return this.credentialRepository.getAll(queryOptions)
   }
 
   /**
@@ -254,4 +258,17 @@ export abstract class CredentialService<CFs extends CredentialFormat[] = Credent
   public async update(credentialRecord: CredentialExchangeRecord) {
     return await this.credentialRepository.update(credentialRecord)
   }
+
+  /**
+   * Apply the update to the latest version of the credential record in storage, and retry when the credential
+   * record was updated concurrently.
+   *
+   * @see Repository.updateWithRetry
+   */
+  public async updateWithRetry(
+    credentialRecordId: string,
+    update: (credentialRecord: CredentialExchangeRecord) => void | Promise<void>
+  ) {
+    return this.credentialRepository.updateWithRetry(credentialRecordId, update)
+  }
 }
@@ -0,0 +1,39 @@
+import type { BaseEvent } from '../../agent/Events'
+import type { ConnectionRecord } from '../connections'
+import type { DidRotateProblemReportMessage } from './messages'
+
+export enum DidRotateEventTypes {
+  DidRotated = 'DidRotated',
+  DidRotateFailed = 'DidRotateFailed',
+  HangupReceived = 'HangupReceived',
+}
+
+export interface DidRotatedEvent extends BaseEvent {
+  type: typeof DidRotateEventTypes.DidRotated
+  payload: {
+    connectionRecord: ConnectionRecord
+    ourDid?: {
+      from: string
+      to: string
+    }
+    theirDid?: {
+      from: string
+      to: string
+    }
+  }
+}
+
+export interface DidRotateFailedEvent extends BaseEvent {
+  type: typeof DidRotateEventTypes.DidRotateFailed
+  payload: {
+    connectionRecord: ConnectionRecord
+    problemReport: DidRotateProblemReportMessage
+  }
+}
+
+export interface HangupReceivedEvent extends BaseEvent {
+  type: typeof DidRotateEventTypes.HangupReceived
+  payload: {
+    connectionRecord: ConnectionRecord
+  }
+}
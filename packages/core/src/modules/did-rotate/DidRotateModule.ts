@@ -0,0 +1,100 @@
+import type { DependencyManager } from '../../plugins'
+import type { HangupOptions, RotateOptions } from './DidRotateModuleOptions'
+
+import { Dispatcher } from '../../agent/Dispatcher'
+import { MessageSender } from '../../agent/MessageSender'
+import { createOutboundMessage } from '../../agent/helpers'
+import { injectable, module } from '../../plugins'
+import { JsonTransformer } from '../../utils/JsonTransformer'
+import { ConnectionService } from '../connections/services'
+
+import { DidRotateProblemReportHandler, HangupHandler, RotateAckHandler, RotateHandler } from './handlers'
+import { DidRotateService } from './services'
+
+@module()
+@injectable()
+export class DidRotateModule {
+  private connectionService: ConnectionService
+  private messageSender: MessageSender
+  private didRotateService: DidRotateService
+
+  public constructor(
+    dispatcher: Dispatcher,
+    connectionService: ConnectionService,
+    messageSender: MessageSender,
+    didRotateService: DidRotateService
+  ) {
+    this.connectionService = connectionService
+    this.messageSender = messageSender
+    this.didRotateService = didRotateService
+    this.registerHandlers(dispatcher)
+  }
+
+  /**
+   * Rotate the did of a connection to a newly created did. The keys of the new did are registered with the
+   * mediator, and the other party is notified of the new did. The previous did is still accepted until the
+   * other party acknowledges the rotation.
+   *
+   * @param options options for rotating the did
+   * @returns the updated connection record
+   */
+  public async rotate(options: RotateOptions) {
+    const connection = await this.connectionService.getById(options.connectionId)
+
+    // The rotate message must be sent from the did we're rotating away from
+    const previousConnection = JsonTransformer.clone(connection)
+
+    const { message } = await this.didRotateService.createRotate(connection, { mediatorId: options.mediatorId })
+
+    try {
+      // The outbox would retry the message from the new did, which the other party doesn't know about yet
+      const outboundMessage = createOutboundMessage(previousConnection, message)
+      await this.messageSender.sendMessage(outboundMessage, { useOutbox: false })
+    } catch (error) {
+      await this.didRotateService.abortRotate(connection)
+      throw error
+    }
+
+    return connection
+  }
+
+  /**
+   * Hang up a connection. The other party is notified that we end the relationship, and the did of the connection
+   * is removed so no messages will be accepted for the connection anymore.
+   *
+   * @param options options for hanging up the connection
+   */
+  public async hangup(options: HangupOptions) {
+    const connection = await this.connectionService.getById(options.connectionId)
+
+    // The hangup message must be sent from the did that is removed from the connection
+    const previousConnection = JsonTransformer.clone(connection)
+
+    const { message } = await this.didRotateService.createHangup(connection)
+
+    const outboundMessage = createOutboundMessage(previousConnection, message)
+    await this.messageSender.sendMessage(outboundMessage, { useOutbox: false })
+
+    if (options.deleteAfterHangup) {
+      await this.connectionService.deleteById(connection.id)
+    }
+  }
+
+  private registerHandlers(dispatcher: Dispatcher) {
+    dispatcher.registerHandler(new RotateHandler(this.didRotateService))
+    dispatcher.registerHandler(new RotateAckHandler(this.didRotateService))
+    dispatcher.registerHandler(new DidRotateProblemReportHandler(this.didRotateService))
+    dispatcher.registerHandler(new HangupHandler(this.didRotateService))
+  }
+
+  /**
+   * Registers the dependencies of the did rotate module on the dependency manager.
+   */
+  public static register(dependencyManager: DependencyManager) {
+    // Api
+    dependencyManager.registerContextScoped(DidRotateModule)
+
+    // Services
+    dependencyManager.registerSingleton(DidRotateService)
+  }
+}
@@ -0,0 +1,18 @@
+export interface RotateOptions {
+  connectionId: string
+
+  /**
+   * Id of the mediator to use for the new did. If not provided, the default mediator will be used (if any).
+   */
+  mediatorId?: string
+}
+
+export interface HangupOptions {
+  connectionId: string
+
+  /**
+   * Whether to delete the connection after the hangup message has been sent. Defaults to false, in which case
+   * the did of the connection is removed, but the connection record is kept.
+   */
+  deleteAfterHangup?: boolean
+}
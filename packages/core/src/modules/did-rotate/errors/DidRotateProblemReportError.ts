@@ -0,0 +1,22 @@
+import type { ProblemReportErrorOptions } from '../../problem-reports'
+import type { DidRotateProblemReportReason } from './DidRotateProblemReportReason'
+
+import { ProblemReportError } from '../../problem-reports'
+import { DidRotateProblemReportMessage } from '../messages'
+
+interface DidRotateProblemReportErrorOptions extends ProblemReportErrorOptions {
+  problemCode: DidRotateProblemReportReason
+}
+export class DidRotateProblemReportError extends ProblemReportError {
+  public problemReport: DidRotateProblemReportMessage
+
+  public constructor(public message: string, { problemCode }: DidRotateProblemReportErrorOptions) {
+    super(message, { problemCode })
+    this.problemReport = new DidRotateProblemReportMessage({
+      description: {
+        en: message,
+        code: problemCode,
+      },
+    })
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Did Rotate errors discussed in RFC 0794.
+ *
+ * @see https://github.com/hyperledger/aries-rfcs/tree/main/features/0794-did-rotate#problem-report
+ */
+export enum DidRotateProblemReportReason {
+  DidNotResolvable = 'e.did.unresolvable',
+  DidDocumentUnsupported = 'e.did.doc-unsupported',
+}
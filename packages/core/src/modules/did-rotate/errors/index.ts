@@ -0,0 +1,2 @@
+export * from './DidRotateProblemReportError'
+export * from './DidRotateProblemReportReason'
@@ -0,0 +1,17 @@
+import type { Handler, HandlerInboundMessage } from '../../../agent/Handler'
+import type { DidRotateService } from '../services'
+
+import { DidRotateProblemReportMessage } from '../messages'
+
+export class DidRotateProblemReportHandler implements Handler {
+  private didRotateService: DidRotateService
+  public supportedMessages = [DidRotateProblemReportMessage]
+
+  public constructor(didRotateService: DidRotateService) {
+    this.didRotateService = didRotateService
+  }
+
+  public async handle(messageContext: HandlerInboundMessage<DidRotateProblemReportHandler>) {
+    await this.didRotateService.processProblemReport(messageContext)
+  }
+}
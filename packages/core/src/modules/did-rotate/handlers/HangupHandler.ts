@@ -0,0 +1,17 @@
+import type { Handler, HandlerInboundMessage } from '../../../agent/Handler'
+import type { DidRotateService } from '../services'
+
+import { HangupMessage } from '../messages'
+
+export class HangupHandler implements Handler {
+  private didRotateService: DidRotateService
+  public supportedMessages = [HangupMessage]
+
+  public constructor(didRotateService: DidRotateService) {
+    this.didRotateService = didRotateService
+  }
+
+  public async handle(messageContext: HandlerInboundMessage<HangupHandler>) {
+    await this.didRotateService.processHangup(messageContext)
+  }
+}
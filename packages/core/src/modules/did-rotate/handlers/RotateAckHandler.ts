@@ -0,0 +1,17 @@
+import type { Handler, HandlerInboundMessage } from '../../../agent/Handler'
+import type { DidRotateService } from '../services'
+
+import { RotateAckMessage } from '../messages'
+
+export class RotateAckHandler implements Handler {
+  private didRotateService: DidRotateService
+  public supportedMessages = [RotateAckMessage]
+
+  public constructor(didRotateService: DidRotateService) {
+    this.didRotateService = didRotateService
+  }
+
+  public async handle(messageContext: HandlerInboundMessage<RotateAckHandler>) {
+    await this.didRotateService.processRotateAck(messageContext)
+  }
+}
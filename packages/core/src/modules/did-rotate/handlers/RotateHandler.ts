@@ -0,0 +1,20 @@
+import type { Handler, HandlerInboundMessage } from '../../../agent/Handler'
+import type { DidRotateService } from '../services'
+
+import { createOutboundMessage } from '../../../agent/helpers'
+import { RotateMessage } from '../messages'
+
+export class RotateHandler implements Handler {
+  private didRotateService: DidRotateService
+  public supportedMessages = [RotateMessage]
+
+  public constructor(didRotateService: DidRotateService) {
+    this.didRotateService = didRotateService
+  }
+
+  public async handle(messageContext: HandlerInboundMessage<RotateHandler>) {
+    const { message, connectionRecord } = await this.didRotateService.processRotate(messageContext)
+
+    return createOutboundMessage(connectionRecord, message)
+  }
+}
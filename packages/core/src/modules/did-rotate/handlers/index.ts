@@ -0,0 +1,4 @@
+export * from './DidRotateProblemReportHandler'
+export * from './HangupHandler'
+export * from './RotateAckHandler'
+export * from './RotateHandler'
@@ -0,0 +1,6 @@
+export * from './DidRotateEvents'
+export * from './DidRotateModule'
+export * from './DidRotateModuleOptions'
+export * from './errors'
+export * from './messages'
+export * from './services'
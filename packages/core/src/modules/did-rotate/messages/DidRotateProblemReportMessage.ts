@@ -0,0 +1,23 @@
+import type { ProblemReportMessageOptions } from '../../problem-reports/messages/ProblemReportMessage'
+
+import { IsValidMessageType, parseMessageType } from '../../../utils/messageType'
+import { ProblemReportMessage } from '../../problem-reports/messages/ProblemReportMessage'
+
+export type DidRotateProblemReportMessageOptions = ProblemReportMessageOptions
+
+/**
+ * @see https://github.com/hyperledger/aries-rfcs/tree/main/features/0794-did-rotate#problem-report
+ */
+export class DidRotateProblemReportMessage extends ProblemReportMessage {
+  /**
+   * Create new DidRotateProblemReportMessage instance.
+   * @param options
+   */
+  public constructor(options: DidRotateProblemReportMessageOptions) {
+    super(options)
+  }
+
+  @IsValidMessageType(DidRotateProblemReportMessage.type)
+  public readonly type = DidRotateProblemReportMessage.type.messageTypeUri
+  public static readonly type = parseMessageType('https://didcomm.org/did-rotate/1.0/problem-report')
+}
@@ -0,0 +1,30 @@
+import { AgentMessage } from '../../../agent/AgentMessage'
+import { IsValidMessageType, parseMessageType } from '../../../utils/messageType'
+
+export interface HangupMessageOptions {
+  id?: string
+}
+
+/**
+ * Message to notify the other party of a connection that the sender ends the relationship, and won't
+ * accept messages for the connection anymore.
+ *
+ * @see https://github.com/hyperledger/aries-rfcs/tree/main/features/0794-did-rotate#hangup
+ */
+export class HangupMessage extends AgentMessage {
+  /**
+   * Create new HangupMessage instance.
+   * @param options
+   */
+  public constructor(options: HangupMessageOptions) {
+    super()
+
+    if (options) {
+      this.id = options.id || this.generateId()
+    }
+  }
+
+  @IsValidMessageType(HangupMessage.type)
+  public readonly type = HangupMessage.type.messageTypeUri
+  public static readonly type = parseMessageType('https://didcomm.org/did-rotate/1.0/hangup')
+}
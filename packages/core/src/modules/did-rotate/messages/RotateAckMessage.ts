@@ -0,0 +1,23 @@
+import type { AckMessageOptions } from '../../common'
+
+import { IsValidMessageType, parseMessageType } from '../../../utils/messageType'
+import { AckMessage } from '../../common'
+
+export type RotateAckMessageOptions = AckMessageOptions
+
+/**
+ * @see https://github.com/hyperledger/aries-rfcs/tree/main/features/0794-did-rotate#ack
+ */
+export class RotateAckMessage extends AckMessage {
+  /**
+   * Create new RotateAckMessage instance.
+   * @param options
+   */
+  public constructor(options: RotateAckMessageOptions) {
+    super(options)
+  }
+
+  @IsValidMessageType(RotateAckMessage.type)
+  public readonly type = RotateAckMessage.type.messageTypeUri
+  public static readonly type = parseMessageType('https://didcomm.org/did-rotate/1.0/ack')
+}
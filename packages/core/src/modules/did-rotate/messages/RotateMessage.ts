@@ -0,0 +1,38 @@
+import { Expose } from 'class-transformer'
+import { IsString } from 'class-validator'
+
+import { AgentMessage } from '../../../agent/AgentMessage'
+import { IsValidMessageType, parseMessageType } from '../../../utils/messageType'
+
+export interface RotateMessageOptions {
+  id?: string
+  toDid: string
+}
+
+/**
+ * Message to notify the other party of a connection that the sender rotates to a new did.
+ *
+ * @see https://github.com/hyperledger/aries-rfcs/tree/main/features/0794-did-rotate#rotate
+ */
+export class RotateMessage extends AgentMessage {
+  /**
+   * Create new RotateMessage instance.
+   * @param options
+   */
+  public constructor(options: RotateMessageOptions) {
+    super()
+
+    if (options) {
+      this.id = options.id || this.generateId()
+      this.toDid = options.toDid
+    }
+  }
+
+  @IsValidMessageType(RotateMessage.type)
+  public readonly type = RotateMessage.type.messageTypeUri
+  public static readonly type = parseMessageType('https://didcomm.org/did-rotate/1.0/rotate')
+
+  @Expose({ name: 'to_did' })
+  @IsString()
+  public readonly toDid!: string
+}
@@ -0,0 +1,4 @@
+export * from './DidRotateProblemReportMessage'
+export * from './HangupMessage'
+export * from './RotateAckMessage'
+export * from './RotateMessage'
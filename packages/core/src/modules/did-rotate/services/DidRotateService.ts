@@ -0,0 +1,328 @@
+import type { InboundMessageContext } from '../../../agent/models/InboundMessageContext'
+import type { Logger } from '../../../logger'
+import type { ConnectionRecord } from '../../connections'
+import type { Routing } from '../../connections/services/ConnectionService'
+import type { ResolvedDidCommService } from '../../didcomm'
+import type { PeerDidNumAlgo2CreateOptions } from '../../dids'
+import type { DidRotateFailedEvent, DidRotatedEvent, HangupReceivedEvent } from '../DidRotateEvents'
+import type { DidRotateProblemReportMessage } from '../messages'
+
+import { AgentConfig } from '../../../agent/AgentConfig'
+import { EventEmitter } from '../../../agent/EventEmitter'
+import { AriesFrameworkError } from '../../../error'
+import { injectable } from '../../../plugins'
+import { AckStatus } from '../../common'
+import { ConnectionMetadataKeys } from '../../connections/repository/ConnectionMetadataTypes'
+import { ConnectionService } from '../../connections/services/ConnectionService'
+import { DidDocumentRole } from '../../dids/domain/DidDocumentRole'
+import { PeerDidNumAlgo } from '../../dids/methods/peer/didPeer'
+import { DidRecord, DidRepository } from '../../dids/repository'
+import { DidRegistrarService } from '../../dids/services/DidRegistrarService'
+import { DidResolverService } from '../../dids/services/DidResolverService'
+import { RoutingService } from '../../routing/services/RoutingService'
+import { DidRotateEventTypes } from '../DidRotateEvents'
+import { DidRotateProblemReportError, DidRotateProblemReportReason } from '../errors'
+import { HangupMessage, RotateAckMessage, RotateMessage } from '../messages'
+
+@injectable()
+export class DidRotateService {
+  private connectionService: ConnectionService
+  private didRepository: DidRepository
+  private didRegistrarService: DidRegistrarService
+  private didResolverService: DidResolverService
+  private routingService: RoutingService
+  private eventEmitter: EventEmitter
+  private logger: Logger
+
+  public constructor(
+    agentConfig: AgentConfig,
+    connectionService: ConnectionService,
+    didRepository: DidRepository,
+    didRegistrarService: DidRegistrarService,
+    didResolverService: DidResolverService,
+    routingService: RoutingService,
+    eventEmitter: EventEmitter
+  ) {
+    this.connectionService = connectionService
+    this.didRepository = didRepository
+    this.didRegistrarService = didRegistrarService
+    this.didResolverService = didResolverService
+    this.routingService = routingService
+    this.eventEmitter = eventEmitter
+    this.logger = agentConfig.logger
+  }
+
+  /**
+   * Create a new did for the connection and a rotate message to notify the other party of the new did.
+   *
+   * The connection is updated to use the new did straight away, but the previous did will still be accepted for
+   * inbound messages until the rotation is acknowledged by the other party.
+   *
+   * NOTE: the rotate message must be sent using the previous did of the connection, as the other party doesn't know
+   * about the new did yet.
+   *
+   * @param connectionRecord The connection to rotate the did for
+   * @param options.mediatorId The mediator to register the keys of the new did with
+   * @returns Object containing the rotate message
+   */
+  public async createRotate(connectionRecord: ConnectionRecord, { mediatorId }: { mediatorId?: string } = {}) {
+    connectionRecord.assertReady()
+
+    const previousDid = connectionRecord.did
+    if (!previousDid) {
+      throw new AriesFrameworkError(`Connection record ${connectionRecord.id} has no did to rotate`)
+    }
+
+    if (connectionRecord.metadata.get(ConnectionMetadataKeys.DidRotate)) {
+      throw new AriesFrameworkError(`A did rotation is already in progress for connection ${connectionRecord.id}`)
+    }
+
+    // Creating the routing will register the new key with the mediator (if applicable)
+    const routing = await this.routingService.getRouting({ mediatorId })
+
+    const { didState } = await this.didRegistrarService.create<PeerDidNumAlgo2CreateOptions>({
+      method: 'peer',
+      options: {
+        numAlgo: PeerDidNumAlgo.MultipleInceptionKeyWithoutDoc,
+        services: this.routingToServices(routing),
+      },
+    })
+
+    if (didState.state !== 'finished') {
+      throw new AriesFrameworkError(`Unable to create did for did rotation: ${didState.reason}`)
+    }
+
+    const message = new RotateMessage({ toDid: didState.did })
+
+    connectionRecord.did = didState.did
+    connectionRecord.previousDids = [...(connectionRecord.previousDids ?? []), previousDid]
+    connectionRecord.metadata.set(ConnectionMetadataKeys.DidRotate, {
+      did: didState.did,
+      previousDid,
+      threadId: message.threadId,
+    })
+
+    await this.updateConnectionOrRemoveDid(connectionRecord, didState.did)
+
+    return { message }
+  }
+
+  /**
+   * Abort the did rotation that is in progress for the connection, and revert the connection to the previous did.
+   * Used when the rotate message could not be delivered, or was rejected by the other party.
+   *
+   * @param connectionRecord The connection to abort the did rotation for
+   */
+  public async abortRotate(connectionRecord: ConnectionRecord) {
+    const didRotateMetadata = connectionRecord.metadata.get(ConnectionMetadataKeys.DidRotate)
+    if (!didRotateMetadata) return
+
+    this.logger.debug(`Aborting did rotation for connection ${connectionRecord.id}`, didRotateMetadata)
+
+    connectionRecord.did = didRotateMetadata.previousDid
+    connectionRecord.previousDids = connectionRecord.previousDids?.filter(
+      (did) => did !== didRotateMetadata.previousDid
+    )
+    connectionRecord.metadata.delete(ConnectionMetadataKeys.DidRotate)
+    await this.connectionService.update(connectionRecord)
+
+    // The new did is not used by any connection anymore
+    const didRecord = await this.didRepository.findById(didRotateMetadata.did)
+    if (didRecord) await this.didRepository.delete(didRecord)
+  }
+
+  /**
+   * Process a received rotate message. The new did of the other party is resolved and stored, and the connection
+   * is updated to use the new did.
+   *
+   * @param messageContext The message context containing the rotate message
+   * @returns Object containing the ack message and the updated connection record
+   */
+  public async processRotate(messageContext: InboundMessageContext<RotateMessage>) {
+    const { message } = messageContext
+    const connectionRecord = messageContext.assertReadyConnection()
+
+    const { didDocument, didResolutionMetadata } = await this.didResolverService.resolve(message.toDid)
+    if (!didDocument) {
+      throw new DidRotateProblemReportError(
+        `Unable to resolve did ${message.toDid}: ${didResolutionMetadata.error} ${didResolutionMetadata.message}`,
+        { problemCode: DidRotateProblemReportReason.DidNotResolvable }
+      )
+    }
+
+    if (didDocument.didCommServices.length === 0) {
+      throw new DidRotateProblemReportError(`Did document of did ${message.toDid} has no DIDComm services`, {
+        problemCode: DidRotateProblemReportReason.DidDocumentUnsupported,
+      })
+    }
+
+    const didRecord = new DidRecord({
+      id: message.toDid,
+      role: DidDocumentRole.Received,
+      didDocument,
+      tags: {
+        // We need to save the recipientKeys, so we can find the associated did
+        // of a key when we receive a message from another connection.
+        recipientKeyFingerprints: didDocument.recipientKeys.map((key) => key.fingerprint),
+      },
+    })
+    await this.didRepository.save(didRecord)
+
+    const previousTheirDid = connectionRecord.theirDid
+    connectionRecord.theirDid = message.toDid
+    await this.updateConnectionOrRemoveDid(connectionRecord, didRecord.id)
+
+    this.eventEmitter.emit<DidRotatedEvent>({
+      type: DidRotateEventTypes.DidRotated,
+      payload: {
+        connectionRecord,
+        theirDid: previousTheirDid ? { from: previousTheirDid, to: message.toDid } : undefined,
+      },
+    })
+
+    const ackMessage = new RotateAckMessage({
+      threadId: message.threadId,
+      status: AckStatus.OK,
+    })
+
+    return { message: ackMessage, connectionRecord }
+  }
+
+  /**
+   * Process a received rotate ack message. The previous did of the connection will not be accepted anymore.
+   *
+   * @param messageContext The message context containing the rotate ack message
+   * @returns The updated connection record
+   */
+  public async processRotateAck(messageContext: InboundMessageContext<RotateAckMessage>) {
+    const { message } = messageContext
+    const connectionRecord = messageContext.assertReadyConnection()
+
+    const didRotateMetadata = connectionRecord.metadata.get(ConnectionMetadataKeys.DidRotate)
+    if (!didRotateMetadata || didRotateMetadata.threadId !== message.threadId) {
+      throw new AriesFrameworkError(
+        `No did rotation in progress with thread id ${message.threadId} for connection ${connectionRecord.id}`
+      )
+    }
+
+    connectionRecord.previousDids = connectionRecord.previousDids?.filter(
+      (did) => did !== didRotateMetadata.previousDid
+    )
+    connectionRecord.metadata.delete(ConnectionMetadataKeys.DidRotate)
+    await this.connectionService.update(connectionRecord)
+
+    this.eventEmitter.emit<DidRotatedEvent>({
+      type: DidRotateEventTypes.DidRotated,
+      payload: {
+        connectionRecord,
+        ourDid: { from: didRotateMetadata.previousDid, to: didRotateMetadata.did },
+      },
+    })
+
+    return connectionRecord
+  }
+
+  /**
+   * Process a received did rotate problem report message. The did rotation is aborted, and the connection
+   * is reverted to the previous did.
+   *
+   * @param messageContext The message context containing the did rotate problem report message
+   * @returns The updated connection record
+   */
+  public async processProblemReport(messageContext: InboundMessageContext<DidRotateProblemReportMessage>) {
+    const { message } = messageContext
+    const connectionRecord = messageContext.assertReadyConnection()
+
+    const didRotateMetadata = connectionRecord.metadata.get(ConnectionMetadataKeys.DidRotate)
+    if (!didRotateMetadata || didRotateMetadata.threadId !== message.threadId) {
+      throw new AriesFrameworkError(
+        `No did rotation in progress with thread id ${message.threadId} for connection ${connectionRecord.id}`
+      )
+    }
+
+    this.logger.warn(`Did rotation for connection ${connectionRecord.id} was rejected`, {
+      description: message.description,
+    })
+
+    await this.abortRotate(connectionRecord)
+
+    this.eventEmitter.emit<DidRotateFailedEvent>({
+      type: DidRotateEventTypes.DidRotateFailed,
+      payload: {
+        connectionRecord,
+        problemReport: message,
+      },
+    })
+
+    return connectionRecord
+  }
+
+  /**
+   * Create a hangup message to notify the other party that we end the relationship. The did of the connection is
+   * removed, so no messages will be accepted for the connection anymore.
+   *
+   * NOTE: the hangup message must be sent using the did of the connection before it was removed.
+   *
+   * @param connectionRecord The connection to hang up
+   * @returns Object containing the hangup message
+   */
+  public async createHangup(connectionRecord: ConnectionRecord) {
+    connectionRecord.assertReady()
+
+    const message = new HangupMessage({})
+
+    connectionRecord.did = undefined
+    connectionRecord.previousDids = []
+    connectionRecord.metadata.delete(ConnectionMetadataKeys.DidRotate)
+    await this.connectionService.update(connectionRecord)
+
+    return { message }
+  }
+
+  /**
+   * Process a received hangup message. The did of the other party is removed from the connection, as the other
+   * party won't accept messages for the connection anymore.
+   *
+   * @param messageContext The message context containing the hangup message
+   * @returns The updated connection record
+   */
+  public async processHangup(messageContext: InboundMessageContext<HangupMessage>) {
+    const connectionRecord = messageContext.assertReadyConnection()
+
+    connectionRecord.theirDid = undefined
+    await this.connectionService.update(connectionRecord)
+
+    this.eventEmitter.emit<HangupReceivedEvent>({
+      type: DidRotateEventTypes.HangupReceived,
+      payload: {
+        connectionRecord,
+      },
+    })
+
+    return connectionRecord
+  }
+
+  /**
+   * Update the connection record after a new did was stored for the connection. If the connection could not be
+   * updated, the new did record is removed again so the did records and connection are kept in sync.
+   */
+  private async updateConnectionOrRemoveDid(connectionRecord: ConnectionRecord, did: string) {
+    try {
+      await this.connectionService.update(connectionRecord)
+    } catch (error) {
+      const didRecord = await this.didRepository.findById(did)
+      if (didRecord) await this.didRepository.delete(didRecord)
+
+      throw error
+    }
+  }
+
+  private routingToServices(routing: Routing): ResolvedDidCommService[] {
+    return routing.endpoints.map((endpoint, index) => ({
+      id: `#inline-${index}`,
+      serviceEndpoint: endpoint,
+      recipientKeys: [routing.recipientKey],
+      routingKeys: routing.routingKeys,
+    }))
+  }
+}
@@ -0,0 +1,294 @@
+import type { AgentConfig } from '../../../../agent/AgentConfig'
+import type { DidRotatedEvent, DidRotateFailedEvent, HangupReceivedEvent } from '../../DidRotateEvents'
+
+import { getAgentConfig, getMockConnection, mockFunction } from '../../../../../tests/helpers'
+import { EventEmitter } from '../../../../agent/EventEmitter'
+import { InboundMessageContext } from '../../../../agent/models/InboundMessageContext'
+import { KeyType } from '../../../../crypto'
+import { AckStatus } from '../../../common'
+import { ConnectionMetadataKeys, DidExchangeState } from '../../../connections'
+import { ConnectionService } from '../../../connections/services/ConnectionService'
+import { DidDocumentRole, Key } from '../../../dids'
+import { createDidDocumentFromServices } from '../../../dids/domain/createPeerDidFromServices'
+import { didDocumentToNumAlgo2Did, didToNumAlgo2DidDocument } from '../../../dids/methods/peer/peerDidNumAlgo2'
+import { DidRecord, DidRepository } from '../../../dids/repository'
+import { DidRegistrarService } from '../../../dids/services/DidRegistrarService'
+import { DidResolverService } from '../../../dids/services/DidResolverService'
+import { RoutingService } from '../../../routing/services/RoutingService'
+import { DidRotateEventTypes } from '../../DidRotateEvents'
+import { DidRotateProblemReportError } from '../../errors'
+import { DidRotateProblemReportMessage, HangupMessage, RotateAckMessage, RotateMessage } from '../../messages'
+import { DidRotateService } from '../DidRotateService'
+
+jest.mock('../../../connections/services/ConnectionService')
+jest.mock('../../../dids/repository/DidRepository')
+jest.mock('../../../dids/services/DidRegistrarService')
+jest.mock('../../../dids/services/DidResolverService')
+jest.mock('../../../routing/services/RoutingService')
+
+const ConnectionServiceMock = ConnectionService as jest.Mock<ConnectionService>
+const DidRepositoryMock = DidRepository as jest.Mock<DidRepository>
+const DidRegistrarServiceMock = DidRegistrarService as jest.Mock<DidRegistrarService>
+const DidResolverServiceMock = DidResolverService as jest.Mock<DidResolverService>
+const RoutingServiceMock = RoutingService as jest.Mock<RoutingService>
+
+const recipientKey = Key.fromPublicKeyBase58('ByHnpUCFb1vAfh9CFZ8ZkmUZguURW8nSw889hy6rD8L7', KeyType.Ed25519)
+const didDocument = didToNumAlgo2DidDocument(
+  didDocumentToNumAlgo2Did(
+    createDidDocumentFromServices([
+      { id: '#inline-0', serviceEndpoint: 'https://example.com', recipientKeys: [recipientKey], routingKeys: [] },
+    ])
+  )
+)
+const newDid = didDocument.id
+
+describe('DidRotateService', () => {
+  let agentConfig: AgentConfig
+  let eventEmitter: EventEmitter
+  let connectionService: ConnectionService
+  let didRepository: DidRepository
+  let didRegistrarService: DidRegistrarService
+  let didResolverService: DidResolverService
+  let routingService: RoutingService
+  let didRotateService: DidRotateService
+
+  beforeAll(() => {
+    agentConfig = getAgentConfig('DidRotateServiceTest')
+  })
+
+  beforeEach(() => {
+    eventEmitter = new EventEmitter(agentConfig)
+    connectionService = new ConnectionServiceMock()
+    didRepository = new DidRepositoryMock()
+    didRegistrarService = new DidRegistrarServiceMock()
+    didResolverService = new DidResolverServiceMock()
+    routingService = new RoutingServiceMock()
+
+    didRotateService = new DidRotateService(
+      agentConfig,
+      connectionService,
+      didRepository,
+      didRegistrarService,
+      didResolverService,
+      routingService,
+      eventEmitter
+    )
+  })
+
+  describe('createRotate', () => {
+    beforeEach(() => {
+      mockFunction(routingService.getRouting).mockResolvedValue({
+        endpoints: ['https://example.com'],
+        routingKeys: [],
+        recipientKey,
+      })
+      mockFunction(didRegistrarService.create).mockResolvedValue({
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: { state: 'finished', did: newDid, didDocument },
+      })
+    })
+
+    it('creates a new did and updates the connection, keeping the previous did', async () => {
+      const connection = getMockConnection({ state: DidExchangeState.Completed, did: 'previous-did' })
+
+      const { message } = await didRotateService.createRotate(connection, { mediatorId: 'mediator-id' })
+
+      expect(routingService.getRouting).toHaveBeenCalledWith({ mediatorId: 'mediator-id' })
+      expect(message).toBeInstanceOf(RotateMessage)
+      expect(message.toDid).toEqual(newDid)
+      expect(connection.did).toEqual(newDid)
+      expect(connection.previousDids).toEqual(['previous-did'])
+      expect(connection.metadata.get(ConnectionMetadataKeys.DidRotate)).toEqual({
+        did: newDid,
+        previousDid: 'previous-did',
+        threadId: message.threadId,
+      })
+      expect(connectionService.update).toHaveBeenCalledWith(connection)
+    })
+
+    it('throws an error when a did rotation is already in progress', async () => {
+      const connection = getMockConnection({ state: DidExchangeState.Completed, did: 'previous-did' })
+      connection.metadata.set(ConnectionMetadataKeys.DidRotate, {
+        did: 'did',
+        previousDid: 'previous-did',
+        threadId: 'thread-id',
+      })
+
+      await expect(didRotateService.createRotate(connection)).rejects.toThrowError(
+        `A did rotation is already in progress for connection ${connection.id}`
+      )
+    })
+
+    it('removes the new did record when the connection could not be updated', async () => {
+      const connection = getMockConnection({ state: DidExchangeState.Completed, did: 'previous-did' })
+      const didRecord = new DidRecord({ id: newDid, role: DidDocumentRole.Created })
+
+      mockFunction(connectionService.update).mockRejectedValue(new Error('Update failed'))
+      mockFunction(didRepository.findById).mockResolvedValue(didRecord)
+
+      await expect(didRotateService.createRotate(connection)).rejects.toThrowError('Update failed')
+      expect(didRepository.delete).toHaveBeenCalledWith(didRecord)
+    })
+  })
+
+  describe('processRotate', () => {
+    it('stores the new did and updates the connection', async () => {
+      const connection = getMockConnection({ state: DidExchangeState.Completed, theirDid: 'previous-their-did' })
+      const message = new RotateMessage({ toDid: newDid })
+
+      mockFunction(didResolverService.resolve).mockResolvedValue({
+        didDocument,
+        didDocumentMetadata: {},
+        didResolutionMetadata: {},
+      })
+
+      const didRotatedListener = jest.fn()
+      eventEmitter.on<DidRotatedEvent>(DidRotateEventTypes.DidRotated, didRotatedListener)
+
+      const { message: ackMessage } = await didRotateService.processRotate(
+        new InboundMessageContext(message, { connection })
+      )
+
+      const [[didRecord]] = mockFunction(didRepository.save).mock.calls
+      expect(didRecord).toMatchObject({
+        id: newDid,
+        role: DidDocumentRole.Received,
+      })
+      expect(didRecord.getTags().recipientKeyFingerprints).toEqual([recipientKey.fingerprint])
+      expect(connection.theirDid).toEqual(newDid)
+      expect(connectionService.update).toHaveBeenCalledWith(connection)
+      expect(ackMessage).toBeInstanceOf(RotateAckMessage)
+      expect(ackMessage.threadId).toEqual(message.threadId)
+      expect(didRotatedListener).toHaveBeenCalledWith({
+        type: DidRotateEventTypes.DidRotated,
+        payload: {
+          connectionRecord: connection,
+          theirDid: { from: 'previous-their-did', to: newDid },
+        },
+      })
+    })
+
+    it('throws a problem report error when the did cannot be resolved', async () => {
+      const connection = getMockConnection({ state: DidExchangeState.Completed })
+      const message = new RotateMessage({ toDid: 'did:unknown:123' })
+
+      mockFunction(didResolverService.resolve).mockResolvedValue({
+        didDocument: null,
+        didDocumentMetadata: {},
+        didResolutionMetadata: { error: 'unsupportedDidMethod' },
+      })
+
+      const promise = didRotateService.processRotate(new InboundMessageContext(message, { connection }))
+
+      await expect(promise).rejects.toThrowError(DidRotateProblemReportError)
+      await expect(promise).rejects.toMatchObject({
+        problemReport: { description: { code: 'e.did.unresolvable' } },
+      })
+      expect(connection.theirDid).toEqual('their-did')
+    })
+  })
+
+  describe('processRotateAck', () => {
+    it('stops accepting the previous did', async () => {
+      const connection = getMockConnection({ state: DidExchangeState.Completed, did: newDid })
+      connection.previousDids = ['previous-did']
+      connection.metadata.set(ConnectionMetadataKeys.DidRotate, {
+        did: newDid,
+        previousDid: 'previous-did',
+        threadId: 'thread-id',
+      })
+
+      const didRotatedListener = jest.fn()
+      eventEmitter.on<DidRotatedEvent>(DidRotateEventTypes.DidRotated, didRotatedListener)
+
+      const message = new RotateAckMessage({ threadId: 'thread-id', status: AckStatus.OK })
+      await didRotateService.processRotateAck(new InboundMessageContext(message, { connection }))
+
+      expect(connection.did).toEqual(newDid)
+      expect(connection.previousDids).toEqual([])
+      expect(connection.metadata.get(ConnectionMetadataKeys.DidRotate)).toBeNull()
+      expect(didRotatedListener).toHaveBeenCalledWith({
+        type: DidRotateEventTypes.DidRotated,
+        payload: {
+          connectionRecord: connection,
+          ourDid: { from: 'previous-did', to: newDid },
+        },
+      })
+    })
+
+    it('throws an error when no did rotation is in progress for the thread', async () => {
+      const connection = getMockConnection({ state: DidExchangeState.Completed })
+      const message = new RotateAckMessage({ threadId: 'thread-id', status: AckStatus.OK })
+
+      await expect(
+        didRotateService.processRotateAck(new InboundMessageContext(message, { connection }))
+      ).rejects.toThrowError(`No did rotation in progress with thread id thread-id for connection ${connection.id}`)
+    })
+  })
+
+  describe('processProblemReport', () => {
+    it('reverts the connection to the previous did and removes the new did', async () => {
+      const connection = getMockConnection({ state: DidExchangeState.Completed, did: newDid })
+      connection.previousDids = ['previous-did']
+      connection.metadata.set(ConnectionMetadataKeys.DidRotate, {
+        did: newDid,
+        previousDid: 'previous-did',
+        threadId: 'thread-id',
+      })
+      const didRecord = new DidRecord({ id: newDid, role: DidDocumentRole.Created })
+      mockFunction(didRepository.findById).mockResolvedValue(didRecord)
+
+      const didRotateFailedListener = jest.fn()
+      eventEmitter.on<DidRotateFailedEvent>(DidRotateEventTypes.DidRotateFailed, didRotateFailedListener)
+
+      const message = new DidRotateProblemReportMessage({
+        description: { en: 'Unable to resolve did', code: 'e.did.unresolvable' },
+      })
+      message.setThread({ threadId: 'thread-id' })
+      await didRotateService.processProblemReport(new InboundMessageContext(message, { connection }))
+
+      expect(connection.did).toEqual('previous-did')
+      expect(connection.previousDids).toEqual([])
+      expect(connection.metadata.get(ConnectionMetadataKeys.DidRotate)).toBeNull()
+      expect(didRepository.delete).toHaveBeenCalledWith(didRecord)
+      expect(didRotateFailedListener).toHaveBeenCalledWith({
+        type: DidRotateEventTypes.DidRotateFailed,
+        payload: {
+          connectionRecord: connection,
+          problemReport: message,
+        },
+      })
+    })
+  })
+
+  describe('hangup', () => {
+    it('removes our did from the connection when creating a hangup', async () => {
+      const connection = getMockConnection({ state: DidExchangeState.Completed })
+
+      const { message } = await didRotateService.createHangup(connection)
+
+      expect(message).toBeInstanceOf(HangupMessage)
+      expect(connection.did).toBeUndefined()
+      expect(connectionService.update).toHaveBeenCalledWith(connection)
+    })
+
+    it('removes their did from the connection when processing a hangup', async () => {
+      const connection = getMockConnection({ state: DidExchangeState.Completed })
+
+      const hangupReceivedListener = jest.fn()
+      eventEmitter.on<HangupReceivedEvent>(DidRotateEventTypes.HangupReceived, hangupReceivedListener)
+
+      await didRotateService.processHangup(new InboundMessageContext(new HangupMessage({}), { connection }))
+
+      expect(connection.theirDid).toBeUndefined()
+      expect(connectionService.update).toHaveBeenCalledWith(connection)
+      expect(hangupReceivedListener).toHaveBeenCalledWith({
+        type: DidRotateEventTypes.HangupReceived,
+        payload: {
+          connectionRecord: connection,
+        },
+      })
+    })
+  })
+})
@@ -1,8 +1,10 @@
 import type { Logger } from '../../../logger'
-import type { ResolvedDidCommService } from '../types'
+import type { DidDocument } from '../../dids'
+import type { ResolvedDidCommService, ResolvedDidCommV2Service } from '../types'
 
 import { AgentConfig } from '../../../agent/AgentConfig'
 import { KeyType } from '../../../crypto'
+import { AriesFrameworkError } from '../../../error'
 import { injectable } from '../../../plugins'
 import { DidResolverService } from '../../dids'
 import { DidCommV1Service, IndyAgentService, keyReferenceToKey } from '../../dids/domain'
@@ -36,11 +38,10 @@ export class DidCommDocumentService {
           serviceEndpoint: didCommService.serviceEndpoint,
         })
       } else if (didCommService instanceof DidCommV1Service) {
-        // Resolve dids to DIDDocs to retrieve routingKeys
+        // Dereference the routing key references (did:key:xxx#xxx) to retrieve the routingKeys
         const routingKeys = []
         for (const routingKey of didCommService.routingKeys ?? []) {
-          const routingDidDocument = await this.didResolverService.resolveDidDocument(routingKey)
-          routingKeys.push(keyReferenceToKey(routingDidDocument, routingKey))
+          routingKeys.push(await this.didResolverService.dereferenceKey(routingKey))
         }
 
         // DidCommV1Service has keys encoded as key references
@@ -66,6 +67,56 @@ export class DidCommDocumentService {
       }
     }
 
+    for (const didCommV2Service of didDocument.didCommV2Services) {
+      // DIDComm v2 services don't define recipient keys, messages are encrypted for the key agreement keys of the did
+      const keyAgreementIds = (didDocument.keyAgreement ?? []).map((keyAgreement) =>
+        typeof keyAgreement === 'string' ? keyAgreement : keyAgreement.id
+      )
+
+      // Routing keys are either key ids, or the did of the mediator in which case the first key agreement key is used
+      const routingKeyIds = []
+      const routingKeys = []
+      for (const routingKey of didCommV2Service.routingKeys ?? []) {
+        if (routingKey.includes('#')) {
+          routingKeyIds.push(routingKey)
+          routingKeys.push(await this.didResolverService.dereferenceKey(routingKey))
+          continue
+        }
+
+        const routingDidDocument = await this.didResolverService.resolveDidDocument(routingKey)
+        const routingKeyId = getFirstKeyAgreementKeyId(routingDidDocument)
+
+        routingKeyIds.push(toAbsoluteKeyId(routingDidDocument, routingKeyId))
+        routingKeys.push(keyReferenceToKey(routingDidDocument, routingKeyId))
+      }
+
+      const resolvedService: ResolvedDidCommV2Service = {
+        id: didCommV2Service.id,
+        recipientKeys: keyAgreementIds.map((keyId) => keyReferenceToKey(didDocument, keyId)),
+        recipientKeyIds: keyAgreementIds.map((keyId) => toAbsoluteKeyId(didDocument, keyId)),
+        routingKeys,
+        routingKeyIds,
+        serviceEndpoint: didCommV2Service.serviceEndpoint,
+      }
+      didCommServices.push(resolvedService)
+    }
+
     return didCommServices
   }
 }
+
+function getFirstKeyAgreementKeyId(didDocument: DidDocument) {
+  const [keyAgreement] = didDocument.keyAgreement ?? []
+  if (!keyAgreement) {
+    throw new AriesFrameworkError(`Did document for did ${didDocument.id} does not contain a key agreement key`)
+  }
+
+  return typeof keyAgreement === 'string' ? keyAgreement : keyAgreement.id
+}
+
+/**
+ * Key ids are used to reference keys from DIDComm v2 envelopes, and thus must be absolute DID urls
+ */
+function toAbsoluteKeyId(didDocument: DidDocument, keyId: string) {
+  return keyId.startsWith('#') ? `${didDocument.id}${keyId}` : keyId
+}
@@ -2,7 +2,7 @@ import type { VerificationMethod } from '../../../dids'
 
 import { getAgentConfig, mockFunction } from '../../../../../tests/helpers'
 import { KeyType } from '../../../../crypto'
-import { DidCommV1Service, DidDocument, IndyAgentService, Key } from '../../../dids'
+import { DidCommV1Service, DidCommV2Service, DidDocument, IndyAgentService, Key } from '../../../dids'
 import { verkeyToInstanceOfKey } from '../../../dids/helpers'
 import { DidResolverService } from '../../../dids/services/DidResolverService'
 import { DidCommDocumentService } from '../DidCommDocumentService'
@@ -97,10 +97,13 @@ describe('DidCommDocumentService', () => {
         })
       )
 
+      const ed25519Key = Key.fromPublicKeyBase58(publicKeyBase58Ed25519, KeyType.Ed25519)
+      mockFunction(didResolverService.dereferenceKey).mockResolvedValue(ed25519Key)
+
       const resolved = await didCommDocumentService.resolveServicesFromDid('did:sov:Q4zqM7aXqm7gDQkUVLng9h')
       expect(didResolverService.resolveDidDocument).toHaveBeenCalledWith('did:sov:Q4zqM7aXqm7gDQkUVLng9h')
+      expect(didResolverService.dereferenceKey).toHaveBeenCalledWith(Ed25519VerificationMethod.id)
 
-      const ed25519Key = Key.fromPublicKeyBase58(publicKeyBase58Ed25519, KeyType.Ed25519)
       expect(resolved).toHaveLength(1)
       expect(resolved[0]).toMatchObject({
         id: 'test-id',
@@ -109,5 +112,56 @@ describe('DidCommDocumentService', () => {
         routingKeys: [ed25519Key],
       })
     })
+
+    test('resolves DidCommV2Service using the key agreement keys of the did document', async () => {
+      const publicKeyBase58X25519 = 'S3AQEEKkGYrrszT9D55ozVVX2XixYp8uynqVm4okbud'
+      const mediatorPublicKeyBase58X25519 = 'GyYtYWU1vjwd5PFJM4VSX5aUiSV3TyZMuLBJBTQvfdF8'
+
+      const X25519VerificationMethod: VerificationMethod = {
+        type: 'X25519KeyAgreementKey2019',
+        controller: 'did:example:alice',
+        id: '#key-agreement-1',
+        publicKeyBase58: publicKeyBase58X25519,
+      }
+      const mediatorX25519VerificationMethod: VerificationMethod = {
+        type: 'X25519KeyAgreementKey2019',
+        controller: 'did:example:mediator',
+        id: 'did:example:mediator#key-agreement-1',
+        publicKeyBase58: mediatorPublicKeyBase58X25519,
+      }
+
+      mockFunction(didResolverService.resolveDidDocument).mockImplementation(async (did) =>
+        did === 'did:example:mediator'
+          ? new DidDocument({
+              id: 'did:example:mediator',
+              verificationMethod: [mediatorX25519VerificationMethod],
+              keyAgreement: [mediatorX25519VerificationMethod.id],
+            })
+          : new DidDocument({
+              id: 'did:example:alice',
+              verificationMethod: [X25519VerificationMethod],
+              keyAgreement: [X25519VerificationMethod.id],
+              service: [
+                new DidCommV2Service({
+                  id: 'test-id',
+                  serviceEndpoint: 'https://test.com',
+                  routingKeys: ['did:example:mediator'],
+                }),
+              ],
+            })
+      )
+
+      const resolved = await didCommDocumentService.resolveServicesFromDid('did:example:alice')
+
+      expect(resolved).toHaveLength(1)
+      expect(resolved[0]).toMatchObject({
+        id: 'test-id',
+        serviceEndpoint: 'https://test.com',
+        recipientKeys: [Key.fromPublicKeyBase58(publicKeyBase58X25519, KeyType.X25519)],
+        recipientKeyIds: ['did:example:alice#key-agreement-1'],
+        routingKeys: [Key.fromPublicKeyBase58(mediatorPublicKeyBase58X25519, KeyType.X25519)],
+        routingKeyIds: ['did:example:mediator#key-agreement-1'],
+      })
+    })
   })
 })
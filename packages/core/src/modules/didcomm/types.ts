@@ -6,3 +6,12 @@ export interface ResolvedDidCommService {
   recipientKeys: Key[]
   routingKeys: Key[]
 }
+
+/**
+ * Resolved DIDComm v2 service. DIDComm v2 envelopes reference keys by their key id (DID url), so next to the
+ * keys the key ids are also resolved. The key ids are in the same order as the keys.
+ */
+export interface ResolvedDidCommV2Service extends ResolvedDidCommService {
+  recipientKeyIds: string[]
+  routingKeyIds: string[]
+}
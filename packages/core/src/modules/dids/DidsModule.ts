@@ -1,21 +1,46 @@
 import type { DependencyManager } from '../../plugins'
 import type { Key } from './domain/Key'
-import type { DidResolutionOptions } from './types'
+import type {
+  DidCreateOptions,
+  DidCreateResult,
+  DidDeactivateOptions,
+  DidDeactivateResult,
+  DidDereferencingOptions,
+  DidResolutionOptions,
+  DidUpdateOptions,
+  DidUpdateResult,
+} from './types'
 
+import { InjectionSymbols } from '../../constants'
 import { injectable, module } from '../../plugins'
 
-import { DidRepository } from './repository'
+import { JwkDidResolver } from './methods/jwk/JwkDidResolver'
+import { KeyDidResolver } from './methods/key/KeyDidResolver'
+import { PeerDidResolver } from './methods/peer/PeerDidResolver'
+import { WebDidResolver } from './methods/web/WebDidResolver'
+import { DidRepository, DidRecord } from './repository'
+import { DidRegistrarService } from './services/DidRegistrarService'
+import { DidResolutionCacheService } from './services/DidResolutionCacheService'
 import { DidResolverService } from './services/DidResolverService'
 
 @module()
 @injectable()
 export class DidsModule {
   private resolverService: DidResolverService
+  private registrarService: DidRegistrarService
   private didRepository: DidRepository
+  private resolutionCacheService: DidResolutionCacheService
 
-  public constructor(resolverService: DidResolverService, didRepository: DidRepository) {
+  public constructor(
+    resolverService: DidResolverService,
+    registrarService: DidRegistrarService,
+    didRepository: DidRepository,
+    resolutionCacheService: DidResolutionCacheService
+  ) {
     this.resolverService = resolverService
+    this.registrarService = registrarService
     this.didRepository = didRepository
+    this.resolutionCacheService = resolutionCacheService
   }
 
   public resolve(didUrl: string, options?: DidResolutionOptions) {
@@ -26,6 +51,51 @@ export class DidsModule {
     return this.resolverService.resolveDidDocument(didUrl)
   }
 
+  /**
+   * Dereference a did url to the resource it references: the did document, a verification method or service in the
+   * did document (`#fragment`), or a service endpoint url (`?service=...&relativeRef=...`).
+   *
+   * @returns the dereferencing result. `dereferencingMetadata.error` is set if the did url could not be dereferenced
+   */
+  public dereference(didUrl: string, options?: DidDereferencingOptions) {
+    return this.resolverService.dereference(didUrl, options)
+  }
+
+  /**
+   * Get the number of did resolution cache hits and misses since the agent was started. Only resolutions of did
+   * methods that are configured to be cached are counted.
+   */
+  public getResolutionCacheStats() {
+    return this.resolutionCacheService.getStats()
+  }
+
+  /**
+   * Create, register and store a did and did document. Created dids are stored in the did repository
+   * with role `created`.
+   *
+   * @param options options for the did method, e.g. the key type or peer did numAlgo
+   * @returns the did creation result. `didState.state` is `failed` if the did could not be created
+   */
+  public create<CreateOptions extends DidCreateOptions = DidCreateOptions>(
+    options: CreateOptions
+  ): Promise<DidCreateResult> {
+    return this.registrarService.create<CreateOptions>(options)
+  }
+
+  /**
+   * Update an existing did document. Not all did methods support updating did documents.
+   */
+  public update(options: DidUpdateOptions): Promise<DidUpdateResult> {
+    return this.registrarService.update(options)
+  }
+
+  /**
+   * Deactivate an existing did. Not all did methods support deactivating dids.
+   */
+  public deactivate(options: DidDeactivateOptions): Promise<DidDeactivateResult> {
+    return this.registrarService.deactivate(options)
+  }
+
   public findByRecipientKey(recipientKey: Key) {
     return this.didRepository.findByRecipientKey(recipientKey)
   }
@@ -43,6 +113,17 @@ export class DidsModule {
 
     // Services
     dependencyManager.registerSingleton(DidResolverService)
+    dependencyManager.registerSingleton(DidResolutionCacheService)
+    dependencyManager.registerSingleton(DidRegistrarService)
     dependencyManager.registerSingleton(DidRepository)
+
+    // Resolvers
+    dependencyManager.registerSingleton(InjectionSymbols.DidResolver, WebDidResolver)
+    dependencyManager.registerSingleton(InjectionSymbols.DidResolver, KeyDidResolver)
+    dependencyManager.registerSingleton(InjectionSymbols.DidResolver, JwkDidResolver)
+    dependencyManager.registerSingleton(InjectionSymbols.DidResolver, PeerDidResolver)
+
+    // Records
+    dependencyManager.registerRecordClasses(DidRecord)
   }
 }
@@ -0,0 +1,132 @@
+import type { Wallet } from '../../../wallet/Wallet'
+import type { DidRepository } from '../repository'
+
+import { getAgentConfig, mockProperty } from '../../../../tests/helpers'
+import { KeyDidRegistrar } from '../methods/key/KeyDidRegistrar'
+import { DidRegistrarService } from '../services/DidRegistrarService'
+
+jest.mock('../methods/key/KeyDidRegistrar')
+
+const agentConfig = getAgentConfig('DidRegistrarService')
+
+describe('DidRegistrarService', () => {
+  const walletMock = jest.fn() as unknown as Wallet
+  const didRepositoryMock = jest.fn() as unknown as DidRepository
+  mockProperty(KeyDidRegistrar.prototype, 'supportedMethods', ['key'])
+  const didRegistrarService = new DidRegistrarService(agentConfig, walletMock, didRepositoryMock)
+
+  const failedResult = {
+    didDocumentMetadata: {},
+    didRegistrationMetadata: {},
+    didState: {
+      state: 'failed' as const,
+      reason: 'registrar result',
+    },
+  }
+
+  describe('create', () => {
+    it('should correctly find and call the correct registrar for a specified did method', async () => {
+      const didKeyCreateSpy = jest.spyOn(KeyDidRegistrar.prototype, 'create').mockResolvedValue(failedResult)
+
+      const result = await didRegistrarService.create({ method: 'key', options: { some: 'option' } })
+      expect(result).toEqual(failedResult)
+
+      expect(didKeyCreateSpy).toHaveBeenCalledTimes(1)
+      expect(didKeyCreateSpy).toHaveBeenCalledWith({ method: 'key', options: { some: 'option' } })
+    })
+
+    it('should return error state failed if no did or method is provided', async () => {
+      const result = await didRegistrarService.create({})
+
+      expect(result).toEqual({
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          did: undefined,
+          reason: 'Either did OR method must be specified',
+        },
+      })
+    })
+
+    it('should return error state failed if both did and method are provided', async () => {
+      const result = await didRegistrarService.create({ did: 'did:key:xxxx', method: 'key' })
+
+      expect(result).toEqual({
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          did: 'did:key:xxxx',
+          reason: 'Either did OR method must be specified',
+        },
+      })
+    })
+
+    it('should return error state failed if no registrar is found for the did', async () => {
+      const result = await didRegistrarService.create({ did: 'did:example:xxxx' })
+
+      expect(result).toEqual({
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          did: 'did:example:xxxx',
+          reason: "Unsupported did method: 'example'",
+        },
+      })
+    })
+  })
+
+  describe('update', () => {
+    it('should correctly find and call the correct registrar for a specified did', async () => {
+      const didKeyUpdateSpy = jest.spyOn(KeyDidRegistrar.prototype, 'update').mockResolvedValue(failedResult)
+
+      const result = await didRegistrarService.update({ did: 'did:key:xxxx', didDocument: {} })
+      expect(result).toEqual(failedResult)
+
+      expect(didKeyUpdateSpy).toHaveBeenCalledTimes(1)
+      expect(didKeyUpdateSpy).toHaveBeenCalledWith({ did: 'did:key:xxxx', didDocument: {} })
+    })
+
+    it('should return error state failed if the did could not be parsed', async () => {
+      const result = await didRegistrarService.update({ did: 'did:__Asd:asdfa', didDocument: {} })
+
+      expect(result).toEqual({
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          did: 'did:__Asd:asdfa',
+          reason: "invalidDid: Unable to parse did 'did:__Asd:asdfa'",
+        },
+      })
+    })
+  })
+
+  describe('deactivate', () => {
+    it('should correctly find and call the correct registrar for a specified did', async () => {
+      const didKeyDeactivateSpy = jest.spyOn(KeyDidRegistrar.prototype, 'deactivate').mockResolvedValue(failedResult)
+
+      const result = await didRegistrarService.deactivate({ did: 'did:key:xxxx' })
+      expect(result).toEqual(failedResult)
+
+      expect(didKeyDeactivateSpy).toHaveBeenCalledTimes(1)
+      expect(didKeyDeactivateSpy).toHaveBeenCalledWith({ did: 'did:key:xxxx' })
+    })
+
+    it('should return error state failed if no registrar is found for the did', async () => {
+      const result = await didRegistrarService.deactivate({ did: 'did:example:xxxx' })
+
+      expect(result).toEqual({
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          did: 'did:example:xxxx',
+          reason: "Unsupported did method: 'example'",
+        },
+      })
+    })
+  })
+})
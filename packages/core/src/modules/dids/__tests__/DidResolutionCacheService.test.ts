@@ -0,0 +1,100 @@
+import type { CacheRecord } from '../../../cache'
+import type { BaseRecord } from '../../../storage/BaseRecord'
+import type { RecordUpdatedEvent } from '../../../storage/RepositoryEvents'
+import type { StorageService } from '../../../storage/StorageService'
+
+import { InMemoryStorageService } from '../../../../../../tests/InMemoryStorageService'
+import { getAgentConfig } from '../../../../tests/helpers'
+import { EventEmitter } from '../../../agent/EventEmitter'
+import { CacheRepository } from '../../../cache'
+import { RepositoryEventTypes } from '../../../storage/RepositoryEvents'
+import { JsonTransformer } from '../../../utils/JsonTransformer'
+import { DidDocument, DidDocumentRole } from '../domain'
+import { DidRecord } from '../repository'
+import { DID_RESOLUTION_CACHE_ID, DidResolutionCacheService } from '../services/DidResolutionCacheService'
+
+import didSovR1xKJw17sUoXhejEpugMYJFixture from './__fixtures__/didSovR1xKJw17sUoXhejEpugMYJ.json'
+
+const did = didSovR1xKJw17sUoXhejEpugMYJFixture.id
+const resolutionResult = {
+  didDocument: JsonTransformer.fromJSON(didSovR1xKJw17sUoXhejEpugMYJFixture, DidDocument),
+  didDocumentMetadata: {},
+  didResolutionMetadata: { contentType: 'application/did+ld+json' },
+}
+
+describe('DidResolutionCacheService', () => {
+  const agentConfig = getAgentConfig('DidResolutionCacheService', {
+    didResolutionCache: { ttlMs: { sov: 1000, web: 0 } },
+  })
+  let eventEmitter: EventEmitter
+  let storageService: InMemoryStorageService<BaseRecord>
+  let cacheRepository: CacheRepository
+  let cacheService: DidResolutionCacheService
+
+  beforeEach(() => {
+    eventEmitter = new EventEmitter(agentConfig)
+    storageService = new InMemoryStorageService<BaseRecord>()
+    cacheRepository = new CacheRepository(storageService as unknown as StorageService<CacheRecord>, eventEmitter)
+    cacheService = new DidResolutionCacheService(agentConfig, cacheRepository, eventEmitter)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should only cache did methods with a ttl', () => {
+    expect(cacheService.isCacheable('sov')).toBe(true)
+    expect(cacheService.isCacheable('web')).toBe(false)
+    expect(cacheService.isCacheable('key')).toBe(false)
+  })
+
+  it('should return cached results until they expire and count hits and misses', async () => {
+    const now = Date.now()
+    const dateNowSpy = jest.spyOn(Date, 'now').mockReturnValue(now)
+
+    expect(await cacheService.get(did)).toBeNull()
+    await cacheService.set(did, 'sov', resolutionResult)
+
+    const cachedResult = await cacheService.get(did)
+    expect(cachedResult?.didDocument).toBeInstanceOf(DidDocument)
+    expect(cachedResult).toEqual(resolutionResult)
+
+    dateNowSpy.mockReturnValue(now + 1000)
+    expect(await cacheService.get(did)).toBeNull()
+
+    expect(cacheService.getStats()).toEqual({ hits: 1, misses: 2 })
+  })
+
+  it('should invalidate the cached result when the did record changes', async () => {
+    await cacheService.set(did, 'sov', resolutionResult)
+
+    eventEmitter.emit<RecordUpdatedEvent<DidRecord>>({
+      type: RepositoryEventTypes.RecordUpdated,
+      payload: { record: new DidRecord({ id: did, role: DidDocumentRole.Received }) },
+    })
+
+    // Invalidation happens asynchronously
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(await cacheService.get(did)).toBeNull()
+  })
+
+  it('should keep the cache in memory by default', async () => {
+    await cacheService.set(did, 'sov', resolutionResult)
+
+    expect(await cacheService.get(did)).toEqual(resolutionResult)
+    expect(storageService.records).toEqual({})
+  })
+
+  it('should persist the cache when persistence is enabled', async () => {
+    const persistedAgentConfig = getAgentConfig('DidResolutionCacheService', {
+      didResolutionCache: { ttlMs: { sov: 1000 }, persist: true },
+    })
+    cacheService = new DidResolutionCacheService(persistedAgentConfig, cacheRepository, eventEmitter)
+    await cacheService.set(did, 'sov', resolutionResult)
+
+    // A new cache service loads the cached results from the storage
+    const otherCacheService = new DidResolutionCacheService(persistedAgentConfig, cacheRepository, eventEmitter)
+    expect(await otherCacheService.get(did)).toEqual(resolutionResult)
+    expect(storageService.records[DID_RESOLUTION_CACHE_ID]).toBeDefined()
+  })
+})
@@ -1,23 +1,26 @@
-import type { IndyLedgerService } from '../../ledger'
-import type { DidRepository } from '../repository'
+import type { DidResolver } from '../domain'
 
-import { getAgentConfig, mockProperty } from '../../../../tests/helpers'
+import { getAgentConfig, mockFunction, mockProperty } from '../../../../tests/helpers'
+import { KeyType } from '../../../crypto'
 import { JsonTransformer } from '../../../utils/JsonTransformer'
 import { DidDocument } from '../domain'
 import { parseDid } from '../domain/parse'
 import { KeyDidResolver } from '../methods/key/KeyDidResolver'
+import { DidResolutionCacheService } from '../services/DidResolutionCacheService'
 import { DidResolverService } from '../services/DidResolverService'
 
+import didExample123Fixture from './__fixtures__/didExample123.json'
 import didKeyEd25519Fixture from './__fixtures__/didKeyEd25519.json'
 
 jest.mock('../methods/key/KeyDidResolver')
+jest.mock('../services/DidResolutionCacheService')
+const DidResolutionCacheServiceMock = DidResolutionCacheService as jest.Mock<DidResolutionCacheService>
 
 const agentConfig = getAgentConfig('DidResolverService')
 
 describe('DidResolverService', () => {
-  const indyLedgerServiceMock = jest.fn() as unknown as IndyLedgerService
-  const didDocumentRepositoryMock = jest.fn() as unknown as DidRepository
-  const didResolverService = new DidResolverService(agentConfig, indyLedgerServiceMock, didDocumentRepositoryMock)
+  const cacheService = new DidResolutionCacheServiceMock()
+  const didResolverService = new DidResolverService(agentConfig, [new KeyDidResolver()], cacheService)
 
   it('should correctly find and call the correct resolver for a specified did', async () => {
     const didKeyResolveSpy = jest.spyOn(KeyDidResolver.prototype, 'resolve')
@@ -66,4 +69,233 @@ describe('DidResolverService', () => {
       },
     })
   })
+
+  it("should return an error with 'invalidOptions' if a version is requested from a resolver without versioning", async () => {
+    const result = await didResolverService.resolve('did:key:xxxx', { versionId: '1' })
+
+    expect(result).toEqual({
+      didDocument: null,
+      didDocumentMetadata: {},
+      didResolutionMetadata: {
+        error: 'invalidOptions',
+        message: "Resolving a specific version of a did document is not supported for did method 'key'",
+      },
+    })
+  })
+
+  describe('dereference', () => {
+    // The did:example fixture, served by the (mocked) did:key resolver
+    const didDocument = JsonTransformer.fromJSON(
+      JSON.parse(JSON.stringify(didExample123Fixture).replace(/did:example:123/g, 'did:key:xxxx')),
+      DidDocument
+    )
+    const didKeyResolveSpy = jest.spyOn(KeyDidResolver.prototype, 'resolve')
+
+    beforeEach(() => {
+      didKeyResolveSpy.mockReset()
+      didKeyResolveSpy.mockResolvedValue({
+        didDocument,
+        didDocumentMetadata: { versionId: '1' },
+        didResolutionMetadata: {},
+      })
+    })
+
+    it('should dereference a did url without fragment to the did document', async () => {
+      const result = await didResolverService.dereference('did:key:xxxx')
+
+      expect(result).toEqual({
+        dereferencingMetadata: { contentType: 'application/did+ld+json' },
+        contentStream: { type: 'didDocument', didDocument },
+        contentMetadata: { versionId: '1' },
+      })
+      expect(didKeyResolveSpy).toHaveBeenCalledWith('did:key:xxxx', parseDid('did:key:xxxx'), {})
+    })
+
+    it('should dereference a fragment to a verification method', async () => {
+      const result = await didResolverService.dereference('did:key:xxxx#key-2')
+
+      expect(result.contentStream).toEqual({
+        type: 'verificationMethod',
+        verificationMethod: didDocument.verificationMethod?.[1],
+      })
+    })
+
+    it('should dereference a fragment to a verification method embedded in a verification relationship', async () => {
+      const result = await didResolverService.dereference('did:key:xxxx#authentication-1')
+
+      expect(result.contentStream).toEqual({
+        type: 'verificationMethod',
+        verificationMethod: didDocument.authentication?.[1],
+      })
+    })
+
+    it('should match the exact id of the verification method', async () => {
+      const result = await didResolverService.dereference('did:key:xxxx#1')
+
+      expect(result).toEqual({
+        dereferencingMetadata: {
+          error: 'notFound',
+          message: "Verification method or service with id 'did:key:xxxx#1' not found",
+        },
+        contentStream: null,
+        contentMetadata: { versionId: '1' },
+      })
+    })
+
+    it('should dereference a fragment to a service', async () => {
+      const result = await didResolverService.dereference('did:key:xxxx#service-3')
+
+      expect(result.contentStream).toEqual({ type: 'service', service: didDocument.service?.[2] })
+    })
+
+    it('should dereference the service query parameter to the service endpoint', async () => {
+      const result = await didResolverService.dereference(
+        'did:key:xxxx?service=service-3&relativeRef=%2Fcredentials%3Fid%3D1#degree'
+      )
+
+      expect(result).toEqual({
+        dereferencingMetadata: { contentType: 'text/uri-list' },
+        contentStream: {
+          type: 'serviceEndpoint',
+          serviceEndpoint: 'https://agent.com/did-comm/credentials?id=1#degree',
+        },
+        contentMetadata: { versionId: '1' },
+      })
+    })
+
+    it("should return an error with 'notFound' if the service from the query doesn't exist", async () => {
+      const result = await didResolverService.dereference('did:key:xxxx?service=service-4')
+
+      expect(result.contentStream).toBeNull()
+      expect(result.dereferencingMetadata).toEqual({
+        error: 'notFound',
+        message: "Service with id 'service-4' not found",
+      })
+    })
+
+    it("should return an error with 'invalidDidUrl' if the did url couldn't be parsed", async () => {
+      const result = await didResolverService.dereference('did:__Asd:asdfa#key-1')
+
+      expect(result).toEqual({
+        dereferencingMetadata: { error: 'invalidDidUrl' },
+        contentStream: null,
+        contentMetadata: {},
+      })
+    })
+
+    it('should return the resolution error if the did could not be resolved', async () => {
+      const result = await didResolverService.dereference('did:key:xxxx?versionTime=2022-01-01T00:00:00Z#key-1')
+
+      expect(didKeyResolveSpy).not.toHaveBeenCalled()
+      expect(result).toEqual({
+        dereferencingMetadata: {
+          error: 'invalidOptions',
+          message: "Resolving a specific version of a did document is not supported for did method 'key'",
+        },
+        contentStream: null,
+        contentMetadata: {},
+      })
+    })
+
+    it('should pass the version query parameters to resolvers that support versioned resolution', async () => {
+      mockProperty<DidResolver, 'supportsVersionedResolution'>(
+        KeyDidResolver.prototype,
+        'supportsVersionedResolution',
+        true
+      )
+
+      await didResolverService.dereference('did:key:xxxx?versionId=1#key-1')
+
+      expect(didKeyResolveSpy).toHaveBeenCalledWith('did:key:xxxx', parseDid('did:key:xxxx'), { versionId: '1' })
+    })
+
+    it('should dereference a key reference to a key', async () => {
+      didKeyResolveSpy.mockResolvedValue({
+        didDocument: JsonTransformer.fromJSON(didKeyEd25519Fixture, DidDocument),
+        didDocumentMetadata: {},
+        didResolutionMetadata: {},
+      })
+
+      const keyId = didKeyEd25519Fixture.keyAgreement[0].id
+      const key = await didResolverService.dereferenceKey(keyId)
+
+      expect(key.publicKeyBase58).toEqual(didKeyEd25519Fixture.keyAgreement[0].publicKeyBase58)
+      expect(key.keyType).toEqual(KeyType.X25519)
+    })
+
+    it('should throw an error if the did url does not reference a verification method', async () => {
+      await expect(didResolverService.dereferenceVerificationMethod('did:key:xxxx#service-3')).rejects.toThrow(
+        "Unable to dereference verification method 'did:key:xxxx#service-3': did url does not reference a verification method"
+      )
+    })
+  })
+
+  describe('caching', () => {
+    const didKeyResolveSpy = jest.spyOn(KeyDidResolver.prototype, 'resolve')
+    const resolutionResult = {
+      didDocument: JsonTransformer.fromJSON(didKeyEd25519Fixture, DidDocument),
+      didDocumentMetadata: {},
+      didResolutionMetadata: {},
+    }
+
+    beforeEach(() => {
+      didKeyResolveSpy.mockReset()
+      didKeyResolveSpy.mockResolvedValue(resolutionResult)
+      mockFunction(cacheService.isCacheable).mockReturnValue(true)
+      mockFunction(cacheService.get).mockReset()
+      mockFunction(cacheService.set).mockReset()
+    })
+
+    it('should return the cached result without calling the resolver', async () => {
+      mockFunction(cacheService.get).mockResolvedValue(resolutionResult)
+
+      const result = await didResolverService.resolve(didKeyEd25519Fixture.id)
+
+      expect(result).toBe(resolutionResult)
+      expect(cacheService.get).toHaveBeenCalledWith(didKeyEd25519Fixture.id)
+      expect(didKeyResolveSpy).not.toHaveBeenCalled()
+    })
+
+    it('should cache the result of the resolver if the did is not cached', async () => {
+      mockFunction(cacheService.get).mockResolvedValue(null)
+
+      const result = await didResolverService.resolve(didKeyEd25519Fixture.id)
+
+      expect(result).toBe(resolutionResult)
+      expect(didKeyResolveSpy).toHaveBeenCalledTimes(1)
+      expect(cacheService.set).toHaveBeenCalledWith(didKeyEd25519Fixture.id, 'key', resolutionResult)
+    })
+
+    it('should bypass the cache if the noCache option is set', async () => {
+      mockFunction(cacheService.get).mockResolvedValue(resolutionResult)
+
+      await didResolverService.resolve(didKeyEd25519Fixture.id, { noCache: true })
+
+      expect(cacheService.get).not.toHaveBeenCalled()
+      expect(didKeyResolveSpy).toHaveBeenCalledTimes(1)
+      expect(cacheService.set).toHaveBeenCalledWith(didKeyEd25519Fixture.id, 'key', resolutionResult)
+    })
+
+    it('should not cache failed resolution results', async () => {
+      mockFunction(cacheService.get).mockResolvedValue(null)
+      didKeyResolveSpy.mockResolvedValue({
+        didDocument: null,
+        didDocumentMetadata: {},
+        didResolutionMetadata: { error: 'notFound' },
+      })
+
+      await didResolverService.resolve(didKeyEd25519Fixture.id)
+
+      expect(cacheService.set).not.toHaveBeenCalled()
+    })
+
+    it('should not use the cache for did methods that are not cached', async () => {
+      mockFunction(cacheService.isCacheable).mockReturnValue(false)
+
+      await didResolverService.resolve(didKeyEd25519Fixture.id)
+
+      expect(cacheService.get).not.toHaveBeenCalled()
+      expect(cacheService.set).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -1,7 +1,8 @@
-import type { IndyLedgerService } from '../../ledger'
+import type { CacheRecord } from '../../../cache'
 
 import { getAgentConfig } from '../../../../tests/helpers'
 import { EventEmitter } from '../../../agent/EventEmitter'
+import { CacheRepository } from '../../../cache'
 import { KeyType } from '../../../crypto'
 import { IndyStorageService } from '../../../storage/IndyStorageService'
 import { JsonTransformer } from '../../../utils'
@@ -11,10 +12,11 @@ import { DidDocumentRole } from '../domain/DidDocumentRole'
 import { convertPublicKeyToX25519, getEd25519VerificationMethod } from '../domain/key-type/ed25519'
 import { getX25519VerificationMethod } from '../domain/key-type/x25519'
 import { DidKey } from '../methods/key'
+import { PeerDidResolver } from '../methods/peer/PeerDidResolver'
 import { getNumAlgoFromPeerDid, PeerDidNumAlgo } from '../methods/peer/didPeer'
 import { didDocumentJsonToNumAlgo1Did } from '../methods/peer/peerDidNumAlgo1'
 import { DidRecord, DidRepository } from '../repository'
-import { DidResolverService } from '../services'
+import { DidResolutionCacheService, DidResolverService } from '../services'
 
 import didPeer1zQmY from './__fixtures__/didPeer1zQmY.json'
 
@@ -35,8 +37,16 @@ describe('peer dids', () => {
     eventEmitter = new EventEmitter(config)
     didRepository = new DidRepository(storageService, eventEmitter)
 
-    // Mocking IndyLedgerService as we're only interested in the did:peer resolver
-    didResolverService = new DidResolverService(config, {} as unknown as IndyLedgerService, didRepository)
+    // Only the did:peer resolver is needed for these tests
+    didResolverService = new DidResolverService(
+      config,
+      [new PeerDidResolver(didRepository)],
+      new DidResolutionCacheService(
+        config,
+        new CacheRepository(new IndyStorageService<CacheRecord>(wallet, config), eventEmitter),
+        eventEmitter
+      )
+    )
   })
 
   afterEach(async () => {
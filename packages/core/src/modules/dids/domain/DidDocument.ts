@@ -9,7 +9,7 @@ import { IsStringOrStringArray } from '../../../utils/transformers'
 
 import { Key } from './Key'
 import { getKeyDidMappingByVerificationMethod } from './key-type'
-import { IndyAgentService, ServiceTransformer, DidCommV1Service } from './service'
+import { IndyAgentService, ServiceTransformer, DidCommV1Service, DidCommV2Service } from './service'
 import { VerificationMethodTransformer, VerificationMethod, IsStringOrVerificationMethod } from './verificationMethod'
 
 type DidPurpose =
@@ -180,6 +180,10 @@ export class DidDocument {
     return services.sort((a, b) => b.priority - a.priority)
   }
 
+  public get didCommV2Services(): DidCommV2Service[] {
+    return (this.service?.filter((service) => service instanceof DidCommV2Service) ?? []) as DidCommV2Service[]
+  }
+
   // TODO: it would probably be easier if we add a utility to each service so we don't have to handle logic for all service types here
   public get recipientKeys(): Key[] {
     let recipientKeys: Key[] = []
@@ -2,5 +2,12 @@ import type { ParsedDid, DidResolutionResult, DidResolutionOptions } from '../ty
 
 export interface DidResolver {
   readonly supportedMethods: string[]
+
+  /**
+   * Whether the resolver can resolve a specific version of a did document using the `versionId` and `versionTime`
+   * resolution options. Defaults to `false`.
+   */
+  readonly supportsVersionedResolution?: boolean
+
   resolve(did: string, parsed: ParsedDid, didResolutionOptions: DidResolutionOptions): Promise<DidResolutionResult>
 }
@@ -1,5 +1,7 @@
 import type { KeyType } from '../../../crypto'
+import type { Jwk } from '../../../crypto/jose/jwk'
 
+import { getJwkFromPublicKey, getPublicKeyFromJwk } from '../../../crypto/jose/jwk'
 import { Buffer, TypedArrayEncoder, MultiBaseEncoder, VarintEncoder } from '../../../utils'
 
 import { getKeyTypeByMultiCodecPrefix, getMultiCodecPrefixByKeytype } from './key-type/multiCodecKey'
@@ -33,6 +35,15 @@ export class Key {
     return new Key(publicKey, keyType)
   }
 
+  /**
+   * Create a key from a public JWK. Keys of elliptic curve key types are stored in compressed form.
+   */
+  public static fromJwk(jwk: Jwk) {
+    const { publicKey, keyType } = getPublicKeyFromJwk(jwk)
+
+    return new Key(publicKey, keyType)
+  }
+
   public get prefixedPublicKey() {
     const multiCodecPrefix = getMultiCodecPrefixByKeytype(this.keyType)
 
@@ -50,4 +61,8 @@ export class Key {
   public get publicKeyBase58() {
     return TypedArrayEncoder.toBase58(this.publicKey)
   }
+
+  public toJwk(): Jwk {
+    return getJwkFromPublicKey(this.publicKey, this.keyType)
+  }
 }
@@ -3,3 +3,6 @@ export * from './verificationMethod'
 export * from './DidDocument'
 export * from './DidDocumentBuilder'
 export * from './Key'
+export * from './DidDocumentRole'
+export * from './DidResolver'
+export * from './DidRegistrar'
@@ -51,8 +51,11 @@ describe('ed25519', () => {
     expect(JsonTransformer.toJSON(verificationMethods)).toMatchObject([didKeyEd25519Fixture.verificationMethod[0]])
   })
 
-  it('supports Ed25519VerificationKey2018 verification method type', () => {
-    expect(keyDidEd25519.supportedVerificationMethodTypes).toMatchObject(['Ed25519VerificationKey2018'])
+  it('supports Ed25519VerificationKey2018 and JsonWebKey2020 verification method types', () => {
+    expect(keyDidEd25519.supportedVerificationMethodTypes).toMatchObject([
+      'Ed25519VerificationKey2018',
+      'JsonWebKey2020',
+    ])
   })
 
   it('returns key for Ed25519VerificationKey2018 verification method', () => {
@@ -63,6 +66,22 @@ describe('ed25519', () => {
     expect(key.fingerprint).toBe(TEST_ED25519_FINGERPRINT)
   })
 
+  it('returns key for JsonWebKey2020 verification method', () => {
+    const verificationMethod = JsonTransformer.fromJSON(
+      {
+        id: `${TEST_ED25519_DID}#0`,
+        type: 'JsonWebKey2020',
+        controller: TEST_ED25519_DID,
+        publicKeyJwk: Key.fromFingerprint(TEST_ED25519_FINGERPRINT).toJwk(),
+      },
+      VerificationMethod
+    )
+
+    const key = keyDidEd25519.getKeyFromVerificationMethod(verificationMethod)
+
+    expect(key.fingerprint).toBe(TEST_ED25519_FINGERPRINT)
+  })
+
   it('throws an error if an invalid verification method is passed', () => {
     const verificationMethod = JsonTransformer.fromJSON(didKeyEd25519Fixture.verificationMethod[0], VerificationMethod)
 
@@ -0,0 +1,99 @@
+import { KeyType } from '../../../../../crypto'
+import { JsonTransformer } from '../../../../../utils'
+import { Key } from '../../../domain/Key'
+import { VerificationMethod } from '../../../domain/verificationMethod'
+import { getKeyDidMappingByKeyType, getKeyDidMappingByVerificationMethod } from '../keyDidMapping'
+
+// Test vectors from the did:key specification
+const TEST_P256_FINGERPRINT = 'zDnaerDaTF5BXEavCrfRZEk316dpbLsfPDZ3WJ5hRTPFU2169'
+const TEST_P256_DID = `did:key:${TEST_P256_FINGERPRINT}`
+const TEST_P256_JWK = {
+  kty: 'EC',
+  crv: 'P-256',
+  x: 'fyNYMN0976ci7xqiSdag3buk-ZCwgXU4kz9XNkBlNUI',
+  y: 'hW2ojTNfH7Jbi8--CJUo3OCbH3y5n91g-IMA9MLMbTU',
+}
+
+const TEST_P384_FINGERPRINT = 'z82Lm1MpAkeJcix9K8TMiLd5NMAhnwkjjCBeWHXyu3U4oT2MVJJKXkcVBgjGhnLBn2Kaau9'
+const TEST_P384_JWK = {
+  kty: 'EC',
+  crv: 'P-384',
+  x: 'lInTxl8fjLKp_UCrxI0WDklahi-7-_6JbtiHjiRvMvhedhKVdHBfi2HCY8t_QJyc',
+  y: 'y6N1IC-2mXxHreETBW7K3mBcw0qGr3CWHCs-yl09yCQRLcyfGv7XhqAngHOu51Zv',
+}
+
+const TEST_K256_FINGERPRINT = 'zQ3shokFTS3brHcDQrn82RUDfCZESWL1ZdCEJwekUDPQiYBme'
+const TEST_K256_JWK = {
+  kty: 'EC',
+  crv: 'secp256k1',
+  x: 'h0wVx_2iDlOcblulc8E5iEw1EYh5n1RYtLQfeSTyNc0',
+  y: 'O2EATIGbu6DezKFptj5scAIRntgfecanVNXxat1rnwE',
+}
+
+describe('JsonWebKey2020', () => {
+  it.each([
+    [KeyType.P256, TEST_P256_FINGERPRINT, TEST_P256_JWK],
+    [KeyType.P384, TEST_P384_FINGERPRINT, TEST_P384_JWK],
+    [KeyType.K256, TEST_K256_FINGERPRINT, TEST_K256_JWK],
+  ])('converts a %s key from and to a jwk', (keyType, fingerprint, jwk) => {
+    const key = Key.fromFingerprint(fingerprint)
+
+    expect(key.keyType).toBe(keyType)
+    expect(key.toJwk()).toEqual(jwk)
+    expect(Key.fromJwk(jwk).fingerprint).toBe(fingerprint)
+  })
+
+  it('should return a valid verification method', async () => {
+    const key = Key.fromFingerprint(TEST_P256_FINGERPRINT)
+    const verificationMethods = getKeyDidMappingByKeyType(KeyType.P256).getVerificationMethods(TEST_P256_DID, key)
+
+    expect(JsonTransformer.toJSON(verificationMethods)).toMatchObject([
+      {
+        id: `${TEST_P256_DID}#${TEST_P256_FINGERPRINT}`,
+        type: 'JsonWebKey2020',
+        controller: TEST_P256_DID,
+        publicKeyJwk: TEST_P256_JWK,
+      },
+    ])
+  })
+
+  it('returns key for JsonWebKey2020 verification method based on the key type of the jwk', () => {
+    const verificationMethod = JsonTransformer.fromJSON(
+      {
+        id: `${TEST_P256_DID}#${TEST_P256_FINGERPRINT}`,
+        type: 'JsonWebKey2020',
+        controller: TEST_P256_DID,
+        publicKeyJwk: TEST_P256_JWK,
+      },
+      VerificationMethod
+    )
+
+    const { getKeyFromVerificationMethod } = getKeyDidMappingByVerificationMethod(verificationMethod)
+    const key = getKeyFromVerificationMethod(verificationMethod)
+
+    expect(key.keyType).toBe(KeyType.P256)
+    expect(key.fingerprint).toBe(TEST_P256_FINGERPRINT)
+  })
+
+  it('throws an error if the jwk does not match the key type of the mapping', () => {
+    const verificationMethod = JsonTransformer.fromJSON(
+      {
+        id: `${TEST_P256_DID}#${TEST_P256_FINGERPRINT}`,
+        type: 'JsonWebKey2020',
+        controller: TEST_P256_DID,
+        publicKeyJwk: TEST_P256_JWK,
+      },
+      VerificationMethod
+    )
+
+    expect(() => getKeyDidMappingByKeyType(KeyType.K256).getKeyFromVerificationMethod(verificationMethod)).toThrowError(
+      "Invalid verification method passed. Expected a jwk with key type 'k256'"
+    )
+  })
+
+  it('throws an error if the jwk is not a point on the curve', () => {
+    expect(() => Key.fromJwk({ ...TEST_P256_JWK, y: TEST_K256_JWK.y })).toThrowError(
+      'Public key is not a point on curve P-256'
+    )
+  })
+})
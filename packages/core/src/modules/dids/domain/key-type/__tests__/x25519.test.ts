@@ -51,8 +51,8 @@ describe('x25519', () => {
     expect(JsonTransformer.toJSON(verificationMethods)).toMatchObject([didKeyX25519Fixture.keyAgreement[0]])
   })
 
-  it('supports X25519KeyAgreementKey2019 verification method type', () => {
-    expect(keyDidX25519.supportedVerificationMethodTypes).toMatchObject(['X25519KeyAgreementKey2019'])
+  it('supports X25519KeyAgreementKey2019 and JsonWebKey2020 verification method types', () => {
+    expect(keyDidX25519.supportedVerificationMethodTypes).toMatchObject(['X25519KeyAgreementKey2019', 'JsonWebKey2020'])
   })
 
   it('returns key for X25519KeyAgreementKey2019 verification method', () => {
@@ -6,6 +6,11 @@ import { convertPublicKeyToX25519 } from '@stablelib/ed25519'
 import { KeyType } from '../../../../crypto'
 import { Key } from '../Key'
 
+import {
+  getKeyFromJsonWebKey2020VerificationMethod,
+  VERIFICATION_METHOD_TYPE_JSON_WEB_KEY_2020,
+} from './jsonWebKey2020'
+
 const VERIFICATION_METHOD_TYPE_ED25519_VERIFICATION_KEY_2018 = 'Ed25519VerificationKey2018'
 
 export function getEd25519VerificationMethod({ key, id, controller }: { id: string; key: Key; controller: string }) {
@@ -18,11 +23,18 @@ export function getEd25519VerificationMethod({ key, id, controller }: { id: stri
 }
 
 export const keyDidEd25519: KeyDidMapping = {
-  supportedVerificationMethodTypes: [VERIFICATION_METHOD_TYPE_ED25519_VERIFICATION_KEY_2018],
+  supportedVerificationMethodTypes: [
+    VERIFICATION_METHOD_TYPE_ED25519_VERIFICATION_KEY_2018,
+    VERIFICATION_METHOD_TYPE_JSON_WEB_KEY_2020,
+  ],
   getVerificationMethods: (did, key) => [
     getEd25519VerificationMethod({ id: `${did}#${key.fingerprint}`, key, controller: did }),
   ],
   getKeyFromVerificationMethod: (verificationMethod: VerificationMethod) => {
+    if (verificationMethod.type === VERIFICATION_METHOD_TYPE_JSON_WEB_KEY_2020) {
+      return getKeyFromJsonWebKey2020VerificationMethod(verificationMethod, KeyType.Ed25519)
+    }
+
     if (
       verificationMethod.type !== VERIFICATION_METHOD_TYPE_ED25519_VERIFICATION_KEY_2018 ||
       !verificationMethod.publicKeyBase58
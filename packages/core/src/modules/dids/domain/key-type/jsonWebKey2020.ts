@@ -0,0 +1,54 @@
+import type { KeyType } from '../../../../crypto'
+import type { VerificationMethod } from '../verificationMethod'
+import type { KeyDidMapping } from './keyDidMapping'
+
+import { Key } from '../Key'
+
+export const VERIFICATION_METHOD_TYPE_JSON_WEB_KEY_2020 = 'JsonWebKey2020'
+
+export function getJsonWebKey2020VerificationMethod({
+  key,
+  id,
+  controller,
+}: {
+  id: string
+  key: Key
+  controller: string
+}) {
+  return {
+    id,
+    type: VERIFICATION_METHOD_TYPE_JSON_WEB_KEY_2020,
+    controller,
+    publicKeyJwk: key.toJwk(),
+  }
+}
+
+export function getKeyFromJsonWebKey2020VerificationMethod(verificationMethod: VerificationMethod, keyType: KeyType) {
+  if (verificationMethod.type !== VERIFICATION_METHOD_TYPE_JSON_WEB_KEY_2020 || !verificationMethod.publicKeyJwk) {
+    throw new Error('Invalid verification method passed')
+  }
+
+  const key = Key.fromJwk(verificationMethod.publicKeyJwk)
+  if (key.keyType !== keyType) {
+    throw new Error(`Invalid verification method passed. Expected a jwk with key type '${keyType}'`)
+  }
+
+  return key
+}
+
+/**
+ * Key did mapping for key types that are only represented using `JsonWebKey2020` verification methods (P-256, P-384
+ * and secp256k1).
+ */
+export function getJsonWebKey2020KeyDidMapping(keyType: KeyType): KeyDidMapping {
+  return {
+    supportedVerificationMethodTypes: [VERIFICATION_METHOD_TYPE_JSON_WEB_KEY_2020],
+
+    getVerificationMethods: (did, key) => [
+      getJsonWebKey2020VerificationMethod({ id: `${did}#${key.fingerprint}`, key, controller: did }),
+    ],
+
+    getKeyFromVerificationMethod: (verificationMethod: VerificationMethod) =>
+      getKeyFromJsonWebKey2020VerificationMethod(verificationMethod, keyType),
+  }
+}
@@ -1,12 +1,13 @@
-import type { Key } from '../Key'
 import type { VerificationMethod } from '../verificationMethod'
 
 import { KeyType } from '../../../../crypto'
+import { Key } from '../Key'
 
 import { keyDidBls12381g1 } from './bls12381g1'
 import { keyDidBls12381g1g2 } from './bls12381g1g2'
 import { keyDidBls12381g2 } from './bls12381g2'
 import { keyDidEd25519 } from './ed25519'
+import { getJsonWebKey2020KeyDidMapping, VERIFICATION_METHOD_TYPE_JSON_WEB_KEY_2020 } from './jsonWebKey2020'
 import { keyDidX25519 } from './x25519'
 
 export interface KeyDidMapping {
@@ -22,6 +23,9 @@ const keyDidMapping: Record<KeyType, KeyDidMapping> = {
   [KeyType.Bls12381g1]: keyDidBls12381g1,
   [KeyType.Bls12381g2]: keyDidBls12381g2,
   [KeyType.Bls12381g1g2]: keyDidBls12381g1g2,
+  [KeyType.P256]: getJsonWebKey2020KeyDidMapping(KeyType.P256),
+  [KeyType.P384]: getJsonWebKey2020KeyDidMapping(KeyType.P384),
+  [KeyType.K256]: getJsonWebKey2020KeyDidMapping(KeyType.K256),
 }
 
 /**
@@ -61,6 +65,11 @@ export function getKeyDidMappingByKeyType(keyType: KeyType) {
 }
 
 export function getKeyDidMappingByVerificationMethod(verificationMethod: VerificationMethod) {
+  // JsonWebKey2020 verification methods can contain keys of any key type, so we use the key type of the jwk
+  if (verificationMethod.type === VERIFICATION_METHOD_TYPE_JSON_WEB_KEY_2020 && verificationMethod.publicKeyJwk) {
+    return getKeyDidMappingByKeyType(Key.fromJwk(verificationMethod.publicKeyJwk).keyType)
+  }
+
   const keyDid = verificationMethodKeyDidMapping[verificationMethod.type]
 
   if (!keyDid) {
@@ -7,6 +7,9 @@ const multiCodecPrefixMap: Record<string, KeyType> = {
   236: KeyType.X25519,
   237: KeyType.Ed25519,
   238: KeyType.Bls12381g1g2,
+  231: KeyType.K256,
+  4608: KeyType.P256,
+  4609: KeyType.P384,
 }
 
 export function getKeyTypeByMultiCodecPrefix(multiCodecPrefix: number): KeyType {
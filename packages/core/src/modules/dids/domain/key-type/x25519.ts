@@ -4,6 +4,11 @@ import type { KeyDidMapping } from './keyDidMapping'
 import { KeyType } from '../../../../crypto'
 import { Key } from '../Key'
 
+import {
+  getKeyFromJsonWebKey2020VerificationMethod,
+  VERIFICATION_METHOD_TYPE_JSON_WEB_KEY_2020,
+} from './jsonWebKey2020'
+
 const VERIFICATION_METHOD_TYPE_X25519_KEY_AGREEMENT_KEY_2019 = 'X25519KeyAgreementKey2019'
 
 export function getX25519VerificationMethod({ key, id, controller }: { id: string; key: Key; controller: string }) {
@@ -16,12 +21,19 @@ export function getX25519VerificationMethod({ key, id, controller }: { id: strin
 }
 
 export const keyDidX25519: KeyDidMapping = {
-  supportedVerificationMethodTypes: [VERIFICATION_METHOD_TYPE_X25519_KEY_AGREEMENT_KEY_2019],
+  supportedVerificationMethodTypes: [
+    VERIFICATION_METHOD_TYPE_X25519_KEY_AGREEMENT_KEY_2019,
+    VERIFICATION_METHOD_TYPE_JSON_WEB_KEY_2020,
+  ],
 
   getVerificationMethods: (did, key) => [
     getX25519VerificationMethod({ id: `${did}#${key.fingerprint}`, key, controller: did }),
   ],
   getKeyFromVerificationMethod: (verificationMethod: VerificationMethod) => {
+    if (verificationMethod.type === VERIFICATION_METHOD_TYPE_JSON_WEB_KEY_2020) {
+      return getKeyFromJsonWebKey2020VerificationMethod(verificationMethod, KeyType.X25519)
+    }
+
     if (
       verificationMethod.type !== VERIFICATION_METHOD_TYPE_X25519_KEY_AGREEMENT_KEY_2019 ||
       !verificationMethod.publicKeyBase58
@@ -8,6 +8,7 @@ import { getBls12381g1VerificationMethod } from './key-type/bls12381g1'
 import { getBls12381g1g2VerificationMethod } from './key-type/bls12381g1g2'
 import { getBls12381g2VerificationMethod } from './key-type/bls12381g2'
 import { convertPublicKeyToX25519, getEd25519VerificationMethod } from './key-type/ed25519'
+import { getJsonWebKey2020VerificationMethod } from './key-type/jsonWebKey2020'
 import { getX25519VerificationMethod } from './key-type/x25519'
 
 const didDocumentKeyTypeMapping = {
@@ -16,6 +17,9 @@ const didDocumentKeyTypeMapping = {
   [KeyType.Bls12381g1]: getBls12381g1DidDoc,
   [KeyType.Bls12381g2]: getBls12381g2DidDoc,
   [KeyType.Bls12381g1g2]: getBls12381g1g2DidDoc,
+  [KeyType.P256]: getJsonWebKey2020DidDoc,
+  [KeyType.P384]: getJsonWebKey2020DidDoc,
+  [KeyType.K256]: getJsonWebKey2020DidDoc,
 }
 
 export function getDidDocumentForKey(did: string, key: Key) {
@@ -97,6 +101,20 @@ function getBls12381g2DidDoc(did: string, key: Key) {
     .build()
 }
 
+function getJsonWebKey2020DidDoc(did: string, key: Key) {
+  const verificationMethod = getJsonWebKey2020VerificationMethod({
+    id: `${did}#${key.fingerprint}`,
+    key,
+    controller: did,
+  })
+
+  // Keys of elliptic curve key types can be used for both signing and key agreement
+  return getSignatureKeyBase({ did, key, verificationMethod })
+    .addKeyAgreement(verificationMethod.id)
+    .addContext('https://w3id.org/security/suites/jws-2020/v1')
+    .build()
+}
+
 function getSignatureKeyBase({
   did,
   key,
@@ -14,6 +14,12 @@ export class DidCommV2Service extends DidDocumentService {
 
   public static type = 'DIDComm'
 
+  /**
+   * Service type used by the latest version of the DIDComm v2 specification. Services with this type are also
+   * transformed into an instance of this class
+   */
+  public static messagingType = 'DIDCommMessaging'
+
   @IsString({ each: true })
   @IsOptional()
   public routingKeys?: string[]
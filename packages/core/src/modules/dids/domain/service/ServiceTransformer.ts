@@ -11,6 +11,7 @@ export const serviceTypes: { [key: string]: unknown | undefined } = {
   [IndyAgentService.type]: IndyAgentService,
   [DidCommV1Service.type]: DidCommV1Service,
   [DidCommV2Service.type]: DidCommV2Service,
+  [DidCommV2Service.messagingType]: DidCommV2Service,
 }
 
 /**
@@ -1,4 +1,6 @@
-import { IsString, IsOptional } from 'class-validator'
+import { IsString, IsOptional, IsObject } from 'class-validator'
+
+import { Jwk } from '../../../../crypto/jose/jwk'
 
 export interface VerificationMethodOptions {
   id: string
@@ -6,7 +8,7 @@ export interface VerificationMethodOptions {
   controller: string
   publicKeyBase58?: string
   publicKeyBase64?: string
-  publicKeyJwk?: Record<string, unknown>
+  publicKeyJwk?: Jwk
   publicKeyHex?: string
   publicKeyMultibase?: string
   publicKeyPem?: string
@@ -48,8 +50,9 @@ export class VerificationMethod {
   @IsString()
   public publicKeyBase64?: string
 
-  // TODO: define JWK structure, we don't support JWK yet
-  public publicKeyJwk?: Record<string, unknown>
+  @IsOptional()
+  @IsObject()
+  public publicKeyJwk?: Jwk
 
   @IsOptional()
   @IsString()
@@ -3,4 +3,12 @@ export * from './domain'
 export * from './DidsModule'
 export * from './repository'
 export * from './services'
-export { DidKey } from './methods/key/DidKey'
+export * from './methods/key'
+export * from './methods/jwk'
+export { PeerDidNumAlgo } from './methods/peer/didPeer'
+export type {
+  PeerDidCreateOptions,
+  PeerDidNumAlgo0CreateOptions,
+  PeerDidNumAlgo1CreateOptions,
+  PeerDidNumAlgo2CreateOptions,
+} from './methods/peer/PeerDidRegistrar'
@@ -0,0 +1,123 @@
+import type { DidResolver } from '../../domain/DidResolver'
+import type { DidResolutionResult, ParsedDid } from '../../types'
+
+import { injectable } from '../../../../plugins'
+import { JsonTransformer } from '../../../../utils/JsonTransformer'
+import { getFullVerkey } from '../../../../utils/did'
+import { parseIndyDid } from '../../../../utils/indyIdentifiers'
+import { IndyLedgerService } from '../../../ledger/services/IndyLedgerService'
+import { DidDocument } from '../../domain'
+import { DidDocumentBuilder } from '../../domain/DidDocumentBuilder'
+import { addServicesFromEndpointsAttrib, getX25519PublicKeyBase58 } from '../sov/util'
+
+/**
+ * Resolver for `did:indy:<namespace>:<did>` dids. The namespace determines the ledger the did is resolved from, as
+ * configured using the `indyNamespace` of the `indyLedgers` agent config.
+ *
+ * @see https://hyperledger.github.io/indy-did-method/#diddoc
+ */
+@injectable()
+export class IndyDidResolver implements DidResolver {
+  private indyLedgerService: IndyLedgerService
+
+  public constructor(indyLedgerService: IndyLedgerService) {
+    this.indyLedgerService = indyLedgerService
+  }
+
+  public readonly supportedMethods = ['indy']
+
+  public async resolve(did: string, parsed: ParsedDid): Promise<DidResolutionResult> {
+    const didDocumentMetadata = {}
+
+    try {
+      const { did: unqualifiedDid } = parseIndyDid(parsed.did)
+      const nym = await this.indyLedgerService.getPublicDid(parsed.did)
+
+      const verificationMethodId = `${parsed.did}#verkey`
+      const publicKeyBase58 = getFullVerkey(unqualifiedDid, nym.verkey)
+
+      const builder = new DidDocumentBuilder(parsed.did)
+        .addContext('https://w3id.org/security/suites/ed25519-2018/v1')
+        .addVerificationMethod({
+          controller: parsed.did,
+          id: verificationMethodId,
+          publicKeyBase58,
+          type: 'Ed25519VerificationKey2018',
+        })
+        .addAuthentication(verificationMethodId)
+
+      let didDocument: DidDocument
+      if (nym.diddocContent) {
+        // If the NYM has did document content, the endpoint ATTRIB must be ignored
+        didDocument = mergeDidDocumentContent(builder.build(), nym.diddocContent)
+      } else {
+        const endpoints = await this.indyLedgerService.getEndpointsForDid(parsed.did)
+
+        // Did documents of dids with an endpoint ATTRIB are constructed the same way as did:sov did documents
+        if (Object.keys(endpoints).length > 0) {
+          const keyAgreementId = `${parsed.did}#key-agreement-1`
+
+          builder
+            .addContext('https://w3id.org/security/suites/x25519-2019/v1')
+            .addVerificationMethod({
+              controller: parsed.did,
+              id: keyAgreementId,
+              publicKeyBase58: getX25519PublicKeyBase58(publicKeyBase58),
+              type: 'X25519KeyAgreementKey2019',
+            })
+            .addKeyAgreement(keyAgreementId)
+
+          addServicesFromEndpointsAttrib(builder, parsed.did, endpoints, keyAgreementId)
+        }
+
+        didDocument = builder.build()
+      }
+
+      return {
+        didDocument,
+        didDocumentMetadata,
+        didResolutionMetadata: { contentType: 'application/did+ld+json' },
+      }
+    } catch (error) {
+      return {
+        didDocument: null,
+        didDocumentMetadata,
+        didResolutionMetadata: {
+          error: 'notFound',
+          message: `resolver_error: Unable to resolve did '${did}': ${error}`,
+        },
+      }
+    }
+  }
+}
+
+/**
+ * Merge the `diddocContent` of a NYM into the base did document. Contexts are combined, array properties (e.g.
+ * `verificationMethod` and `service`) are appended to the properties of the base did document and other properties
+ * are added to the did document. The `id` of the did document can't be changed.
+ */
+function mergeDidDocumentContent(baseDidDocument: DidDocument, diddocContent: Record<string, unknown>) {
+  const didDocumentJson: Record<string, unknown> = baseDidDocument.toJSON()
+
+  for (const [key, value] of Object.entries(diddocContent)) {
+    const baseValue = didDocumentJson[key]
+
+    if (key === 'id') continue
+
+    if (key === '@context') {
+      const contexts = [...asArray(baseValue), ...asArray(value)]
+      didDocumentJson[key] = contexts.filter((context, index) => contexts.indexOf(context) === index)
+    } else if (Array.isArray(baseValue) && Array.isArray(value)) {
+      didDocumentJson[key] = [...baseValue, ...value]
+    } else {
+      didDocumentJson[key] = value
+    }
+  }
+
+  return JsonTransformer.fromJSON(didDocumentJson, DidDocument)
+}
+
+function asArray(value: unknown) {
+  if (value === undefined) return []
+  return Array.isArray(value) ? value : [value]
+}
@@ -0,0 +1,163 @@
+import type { IndyEndpointAttrib, IndyNymResponse } from '../../../../ledger/services/IndyLedgerService'
+
+import { mockFunction } from '../../../../../../tests/helpers'
+import { JsonTransformer } from '../../../../../utils/JsonTransformer'
+import { IndyLedgerService } from '../../../../ledger/services/IndyLedgerService'
+import { parseDid } from '../../../domain/parse'
+import { IndyDidResolver } from '../IndyDidResolver'
+
+jest.mock('../../../../ledger/services/IndyLedgerService')
+const IndyLedgerServiceMock = IndyLedgerService as jest.Mock<IndyLedgerService>
+
+describe('DidResolver', () => {
+  describe('IndyDidResolver', () => {
+    const did = 'did:indy:sovrin:R1xKJw17sUoXhejEpugMYJ'
+    const nymResponse: IndyNymResponse = {
+      did: 'R1xKJw17sUoXhejEpugMYJ',
+      verkey: 'E6D1m3eERqCueX4ZgMCY14B4NceAr6XP2HyVqt55gDhu',
+      role: 'ENDORSER',
+    }
+
+    let ledgerService: IndyLedgerService
+    let indyDidResolver: IndyDidResolver
+
+    beforeEach(() => {
+      ledgerService = new IndyLedgerServiceMock()
+      indyDidResolver = new IndyDidResolver(ledgerService)
+    })
+
+    it('should resolve a did:indy document without endpoints', async () => {
+      mockFunction(ledgerService.getPublicDid).mockResolvedValue(nymResponse)
+      mockFunction(ledgerService.getEndpointsForDid).mockResolvedValue({})
+
+      const result = await indyDidResolver.resolve(did, parseDid(did))
+
+      expect(ledgerService.getPublicDid).toHaveBeenCalledWith(did)
+      expect(JsonTransformer.toJSON(result)).toMatchObject({
+        didDocument: {
+          '@context': ['https://w3id.org/did/v1', 'https://w3id.org/security/suites/ed25519-2018/v1'],
+          id: did,
+          verificationMethod: [
+            {
+              id: `${did}#verkey`,
+              type: 'Ed25519VerificationKey2018',
+              controller: did,
+              publicKeyBase58: 'E6D1m3eERqCueX4ZgMCY14B4NceAr6XP2HyVqt55gDhu',
+            },
+          ],
+          authentication: [`${did}#verkey`],
+        },
+        didDocumentMetadata: {},
+        didResolutionMetadata: {
+          contentType: 'application/did+ld+json',
+        },
+      })
+      expect(result.didDocument?.service).toBeUndefined()
+      expect(result.didDocument?.keyAgreement).toBeUndefined()
+    })
+
+    it('should add a key agreement key and services for the endpoint attrib of the did', async () => {
+      const endpoints: IndyEndpointAttrib = {
+        endpoint: 'https://agent.com',
+        types: ['endpoint', 'did-communication'],
+        routingKeys: ['routingKey1'],
+      }
+
+      mockFunction(ledgerService.getPublicDid).mockResolvedValue(nymResponse)
+      mockFunction(ledgerService.getEndpointsForDid).mockResolvedValue(endpoints)
+
+      const result = await indyDidResolver.resolve(did, parseDid(did))
+
+      expect(JsonTransformer.toJSON(result)).toMatchObject({
+        didDocument: {
+          '@context': [
+            'https://w3id.org/did/v1',
+            'https://w3id.org/security/suites/ed25519-2018/v1',
+            'https://w3id.org/security/suites/x25519-2019/v1',
+          ],
+          verificationMethod: [
+            { id: `${did}#verkey` },
+            {
+              id: `${did}#key-agreement-1`,
+              type: 'X25519KeyAgreementKey2019',
+              controller: did,
+              publicKeyBase58: 'Fbv17ZbnUSbafsiUBJbdGeC62M8v8GEscVMMcE59mRPt',
+            },
+          ],
+          keyAgreement: [`${did}#key-agreement-1`],
+          service: [
+            {
+              id: `${did}#endpoint`,
+              type: 'endpoint',
+              serviceEndpoint: 'https://agent.com',
+            },
+            {
+              id: `${did}#did-communication`,
+              type: 'did-communication',
+              serviceEndpoint: 'https://agent.com',
+              priority: 0,
+              recipientKeys: [`${did}#key-agreement-1`],
+              routingKeys: ['routingKey1'],
+              accept: ['didcomm/aip2;env=rfc19'],
+            },
+          ],
+        },
+      })
+    })
+
+    it('should merge the diddocContent of the nym and ignore the endpoint attrib', async () => {
+      mockFunction(ledgerService.getPublicDid).mockResolvedValue({
+        ...nymResponse,
+        diddocContent: {
+          '@context': ['https://w3id.org/did/v1', 'https://identity.foundation/linked-vp/contexts/v1'],
+          id: 'did:indy:sovrin:123456',
+          service: [
+            {
+              id: `${did}#linked-vp`,
+              type: 'LinkedVerifiablePresentation',
+              serviceEndpoint: 'https://agent.com/vp',
+            },
+          ],
+        },
+      })
+
+      const result = await indyDidResolver.resolve(did, parseDid(did))
+
+      expect(ledgerService.getEndpointsForDid).not.toHaveBeenCalled()
+      expect(JsonTransformer.toJSON(result)).toMatchObject({
+        didDocument: {
+          '@context': [
+            'https://w3id.org/did/v1',
+            'https://w3id.org/security/suites/ed25519-2018/v1',
+            'https://identity.foundation/linked-vp/contexts/v1',
+          ],
+          id: did,
+          verificationMethod: [{ id: `${did}#verkey` }],
+          authentication: [`${did}#verkey`],
+          service: [
+            {
+              id: `${did}#linked-vp`,
+              type: 'LinkedVerifiablePresentation',
+              serviceEndpoint: 'https://agent.com/vp',
+            },
+          ],
+        },
+      })
+    })
+
+    it('should return did resolution metadata with error if the indy ledger service throws an error', async () => {
+      mockFunction(ledgerService.getPublicDid).mockRejectedValue(new Error('Error retrieving did'))
+
+      const result = await indyDidResolver.resolve(did, parseDid(did))
+
+      expect(result).toMatchObject({
+        didDocument: null,
+        didDocumentMetadata: {},
+        didResolutionMetadata: {
+          error: 'notFound',
+          message: `resolver_error: Unable to resolve did '${did}': Error: Error retrieving did`,
+        },
+      })
+    })
+  })
+})
@@ -0,0 +1,46 @@
+import type { Jwk } from '../../../../crypto/jose/jwk'
+
+import { JsonEncoder } from '../../../../utils/JsonEncoder'
+import { Key } from '../../domain/Key'
+import { parseDid } from '../../domain/parse'
+
+import { getDidJwkDocument } from './didJwkDidDocument'
+
+export class DidJwk {
+  public readonly did: string
+  public readonly jwk: Jwk
+
+  private constructor({ did, jwk }: { did: string; jwk: Jwk }) {
+    this.did = did
+    this.jwk = jwk
+  }
+
+  public static fromDid(did: string) {
+    const parsed = parseDid(did)
+    const jwk = JsonEncoder.fromBase64(parsed.id)
+
+    // Make sure the jwk is a supported public key
+    Key.fromJwk(jwk)
+    if ('d' in jwk) {
+      throw new Error('did:jwk must not contain a private key')
+    }
+
+    return new DidJwk({ did, jwk })
+  }
+
+  public static fromJwk(jwk: Jwk) {
+    return new DidJwk({ did: `did:jwk:${JsonEncoder.toBase64URL(jwk)}`, jwk })
+  }
+
+  public static fromKey(key: Key) {
+    return DidJwk.fromJwk(key.toJwk())
+  }
+
+  public get key() {
+    return Key.fromJwk(this.jwk)
+  }
+
+  public get didDocument() {
+    return getDidJwkDocument(this)
+  }
+}
@@ -0,0 +1,140 @@
+import type { Wallet } from '../../../../wallet/Wallet'
+import type { DidRegistrar } from '../../domain/DidRegistrar'
+import type { DidRepository } from '../../repository'
+import type { DidCreateOptions, DidCreateResult, DidDeactivateResult, DidUpdateResult } from '../../types'
+
+import { KeyType } from '../../../../crypto'
+import { DidDocumentRole } from '../../domain/DidDocumentRole'
+import { Key } from '../../domain/Key'
+import { DidRecord } from '../../repository'
+
+import { DidJwk } from './DidJwk'
+
+export class JwkDidRegistrar implements DidRegistrar {
+  public readonly supportedMethods = ['jwk']
+
+  private wallet: Wallet
+  private didRepository: DidRepository
+
+  public constructor(wallet: Wallet, didRepository: DidRepository) {
+    this.wallet = wallet
+    this.didRepository = didRepository
+  }
+
+  public async create(options: JwkDidCreateOptions): Promise<DidCreateResult> {
+    const keyType = options.options?.keyType
+    const seed = options.secret?.seed
+
+    if (!keyType) {
+      return {
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          reason: 'Missing key type',
+        },
+      }
+    }
+
+    // The wallet can only create ed25519 keys. did:jwk dids with other key types can be resolved, but not created
+    if (keyType !== KeyType.Ed25519) {
+      return {
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          reason: `Unsupported key type '${keyType}'. Supported key types are ${KeyType.Ed25519}`,
+        },
+      }
+    }
+
+    if (seed && (typeof seed !== 'string' || seed.length !== 32)) {
+      return {
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          reason: 'Invalid seed provided',
+        },
+      }
+    }
+
+    try {
+      const { verkey } = await this.wallet.createDid({ seed })
+
+      const didJwk = DidJwk.fromKey(Key.fromPublicKeyBase58(verkey, keyType))
+
+      // The did document can be derived from the did itself, so there is no need to store it
+      const didRecord = new DidRecord({
+        id: didJwk.did,
+        role: DidDocumentRole.Created,
+        tags: {
+          // We need to save the recipientKeys, so we can find the associated did
+          // of a key when we receive a message from another connection.
+          recipientKeyFingerprints: [didJwk.key.fingerprint],
+        },
+      })
+      await this.didRepository.save(didRecord)
+
+      return {
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'finished',
+          did: didJwk.did,
+          didDocument: didJwk.didDocument,
+          // The seed can only be returned if it was provided, as the wallet doesn't expose generated seeds
+          secret: { seed },
+        },
+      }
+    } catch (error) {
+      return {
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          reason: `unknownError: ${error.message}`,
+        },
+      }
+    }
+  }
+
+  public async update(): Promise<DidUpdateResult> {
+    return {
+      didDocumentMetadata: {},
+      didRegistrationMetadata: {},
+      didState: {
+        state: 'failed',
+        reason: `notSupported: cannot update did:jwk did`,
+      },
+    }
+  }
+
+  public async deactivate(): Promise<DidDeactivateResult> {
+    return {
+      didDocumentMetadata: {},
+      didRegistrationMetadata: {},
+      didState: {
+        state: 'failed',
+        reason: `notSupported: cannot deactivate did:jwk did`,
+      },
+    }
+  }
+}
+
+export interface JwkDidCreateOptions extends DidCreateOptions {
+  method: 'jwk'
+  // For now we don't support creating a did:jwk with a did or did document
+  did?: never
+  didDocument?: never
+  options: {
+    /**
+     * The key type of the key to create. Only {@link KeyType.Ed25519} is supported, as the wallet can't create
+     * P-256, P-384 or secp256k1 keys. did:jwk dids with these key types can be resolved, but not created.
+     */
+    keyType: KeyType
+  }
+  secret?: {
+    seed?: string
+  }
+}
@@ -0,0 +1,51 @@
+import { KeyType } from '../../../../../crypto'
+import { JsonEncoder } from '../../../../../utils/JsonEncoder'
+import { JsonTransformer } from '../../../../../utils/JsonTransformer'
+import didJwkP256Fixture from '../../../__tests__/__fixtures__/didJwkP256.json'
+import { Key } from '../../../domain/Key'
+import { DidJwk } from '../DidJwk'
+
+const P256_DID =
+  'did:jwk:eyJjcnYiOiJQLTI1NiIsImt0eSI6IkVDIiwieCI6ImFjYklRaXVNczNpOF91c3pFakoydHBUdFJNNEVVM3l6OTFQSDZDZEgyVjAiLCJ5IjoiX0tjeUxqOXZXTXB0bm1LdG00NkdxRHo4d2Y3NEk1TEtncmwyR3pIM25TRSJ9'
+
+// did:jwk with an X25519 key from the did:jwk specification
+const X25519_DID =
+  'did:jwk:eyJrdHkiOiJPS1AiLCJjcnYiOiJYMjU1MTkiLCJ1c2UiOiJlbmMiLCJ4IjoiM3A3YmZYdDl3YlRUVzJIQzdPUTFOei1EUThoYmVHZE5yZngtRkctSUswOCJ9'
+
+describe('DidJwk', () => {
+  it('creates a DidJwk instance from a did', async () => {
+    const didJwk = DidJwk.fromDid(P256_DID)
+
+    expect(didJwk.did).toBe(P256_DID)
+    expect(didJwk.jwk).toEqual({
+      crv: 'P-256',
+      kty: 'EC',
+      x: 'acbIQiuMs3i8_uszEjJ2tpTtRM4EU3yz91PH6CdH2V0',
+      y: '_KcyLj9vWMptnmKtm46GqDz8wf74I5LKgrl2GzH3nSE',
+    })
+    expect(didJwk.key.keyType).toBe(KeyType.P256)
+    expect(JsonTransformer.toJSON(didJwk.didDocument)).toMatchObject(didJwkP256Fixture)
+  })
+
+  it('creates a DidJwk instance from a key', async () => {
+    const key = Key.fromJwk(DidJwk.fromDid(P256_DID).jwk)
+    const didJwk = DidJwk.fromKey(key)
+
+    expect(didJwk.did).toBe(`did:jwk:${JsonEncoder.toBase64URL(key.toJwk())}`)
+    expect(DidJwk.fromDid(didJwk.did).key.publicKeyBase58).toBe(key.publicKeyBase58)
+  })
+
+  it('only adds the key as key agreement key for encryption keys', async () => {
+    const didDocument = DidJwk.fromDid(X25519_DID).didDocument
+
+    expect(didDocument.keyAgreement).toEqual([`${X25519_DID}#0`])
+    expect(didDocument.authentication).toBeUndefined()
+    expect(didDocument.assertionMethod).toBeUndefined()
+  })
+
+  it('throws an error if the jwk contains a private key', async () => {
+    const did = `did:jwk:${JsonEncoder.toBase64URL({ ...DidJwk.fromDid(P256_DID).jwk, d: 'secret' })}`
+
+    expect(() => DidJwk.fromDid(did)).toThrowError('did:jwk must not contain a private key')
+  })
+})
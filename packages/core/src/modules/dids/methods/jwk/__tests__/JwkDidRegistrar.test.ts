@@ -0,0 +1,186 @@
+import type { Wallet } from '../../../../../wallet/Wallet'
+import type { JwkDidCreateOptions } from '../JwkDidRegistrar'
+
+import { mockFunction } from '../../../../../../tests/helpers'
+import { KeyType } from '../../../../../crypto'
+import { JsonTransformer } from '../../../../../utils/JsonTransformer'
+import { DidDocumentRole } from '../../../domain/DidDocumentRole'
+import { DidRepository } from '../../../repository/DidRepository'
+import { JwkDidRegistrar } from '../JwkDidRegistrar'
+
+jest.mock('../../../repository/DidRepository')
+const DidRepositoryMock = DidRepository as jest.Mock<DidRepository>
+
+const walletMock = {
+  createDid: jest.fn().mockResolvedValue({
+    did: 'Kpmtq8ZfGBvs3pkUP5pSSt',
+    verkey: '8HH5gYEeNc3z7PYXmd54d4x6qAfCNrqQqEB3nS7Zfu7K',
+  }),
+} as unknown as Wallet
+
+const ED25519_DID =
+  'did:jwk:eyJrdHkiOiJPS1AiLCJjcnYiOiJFZDI1NTE5IiwieCI6ImJDMUlzV0JXaE8tVU5qM0dGWTdyWlhkR2JobzJwMER5X0dKR0YtMjNjUzQifQ'
+
+describe('DidRegistrar', () => {
+  describe('JwkDidRegistrar', () => {
+    let didRepositoryMock: DidRepository
+    let jwkDidRegistrar: JwkDidRegistrar
+
+    beforeEach(() => {
+      didRepositoryMock = new DidRepositoryMock()
+      jwkDidRegistrar = new JwkDidRegistrar(walletMock, didRepositoryMock)
+    })
+
+    afterEach(() => {
+      jest.clearAllMocks()
+    })
+
+    it('should correctly create a did:jwk document using Ed25519 key type', async () => {
+      const seed = '96213c3d7fc8d4d6754c712fd969598e'
+
+      const result = await jwkDidRegistrar.create({
+        method: 'jwk',
+        options: {
+          keyType: KeyType.Ed25519,
+        },
+        secret: {
+          seed,
+        },
+      })
+
+      expect(JsonTransformer.toJSON(result)).toMatchObject({
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'finished',
+          did: ED25519_DID,
+          didDocument: {
+            id: ED25519_DID,
+            verificationMethod: [
+              {
+                id: `${ED25519_DID}#0`,
+                type: 'JsonWebKey2020',
+                controller: ED25519_DID,
+                publicKeyJwk: { kty: 'OKP', crv: 'Ed25519', x: 'bC1IsWBWhO-UNj3GFY7rZXdGbho2p0Dy_GJGF-23cS4' },
+              },
+            ],
+            authentication: [`${ED25519_DID}#0`],
+            keyAgreement: [`${ED25519_DID}#0`],
+          },
+          secret: {
+            seed: '96213c3d7fc8d4d6754c712fd969598e',
+          },
+        },
+      })
+
+      expect(walletMock.createDid).toHaveBeenCalledWith({ seed })
+    })
+
+    it('should return an error state if an unsupported key type is provided', async () => {
+      const result = await jwkDidRegistrar.create({
+        method: 'jwk',
+        options: {
+          keyType: KeyType.X25519,
+        },
+      })
+
+      expect(JsonTransformer.toJSON(result)).toMatchObject({
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          reason: `Unsupported key type 'x25519'. Supported key types are ed25519`,
+        },
+      })
+      expect(walletMock.createDid).not.toHaveBeenCalled()
+    })
+
+    it('should return an error state if no key type is provided', async () => {
+      const result = await jwkDidRegistrar.create({ method: 'jwk' } as JwkDidCreateOptions)
+
+      expect(JsonTransformer.toJSON(result)).toMatchObject({
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          reason: 'Missing key type',
+        },
+      })
+      expect(walletMock.createDid).not.toHaveBeenCalled()
+    })
+
+    it('should return an error state if an invalid seed is provided', async () => {
+      const result = await jwkDidRegistrar.create({
+        method: 'jwk',
+        options: {
+          keyType: KeyType.Ed25519,
+        },
+        secret: {
+          seed: 'invalid',
+        },
+      })
+
+      expect(JsonTransformer.toJSON(result)).toMatchObject({
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          reason: 'Invalid seed provided',
+        },
+      })
+    })
+
+    it('should store the did with the recipient key fingerprint, but without the did document', async () => {
+      const seed = '96213c3d7fc8d4d6754c712fd969598e'
+      const did = ED25519_DID
+
+      await jwkDidRegistrar.create({
+        method: 'jwk',
+        options: {
+          keyType: KeyType.Ed25519,
+        },
+        secret: {
+          seed,
+        },
+      })
+
+      expect(didRepositoryMock.save).toHaveBeenCalledTimes(1)
+      const [didRecord] = mockFunction(didRepositoryMock.save).mock.calls[0]
+
+      expect(didRecord).toMatchObject({
+        id: did,
+        role: DidDocumentRole.Created,
+        didDocument: undefined,
+      })
+      expect(didRecord.getTags()).toMatchObject({
+        recipientKeyFingerprints: ['z6MkmjY8GnV5i9YTDtPETC2uUAW6ejw3nk5mXF5yci5ab7th'],
+      })
+    })
+
+    it('should return an error state when calling update', async () => {
+      const result = await jwkDidRegistrar.update()
+
+      expect(result).toEqual({
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          reason: `notSupported: cannot update did:jwk did`,
+        },
+      })
+    })
+
+    it('should return an error state when calling deactivate', async () => {
+      const result = await jwkDidRegistrar.deactivate()
+
+      expect(result).toEqual({
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          reason: `notSupported: cannot deactivate did:jwk did`,
+        },
+      })
+    })
+  })
+})
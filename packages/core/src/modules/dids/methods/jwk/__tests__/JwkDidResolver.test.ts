@@ -0,0 +1,42 @@
+import { JsonEncoder } from '../../../../../utils/JsonEncoder'
+import { JsonTransformer } from '../../../../../utils/JsonTransformer'
+import didJwkP256Fixture from '../../../__tests__/__fixtures__/didJwkP256.json'
+import { DidJwk } from '../DidJwk'
+import { JwkDidResolver } from '../JwkDidResolver'
+
+describe('DidResolver', () => {
+  describe('JwkDidResolver', () => {
+    let jwkDidResolver: JwkDidResolver
+
+    beforeEach(() => {
+      jwkDidResolver = new JwkDidResolver()
+    })
+
+    it('should correctly resolve a did:jwk document', async () => {
+      const fromDidSpy = jest.spyOn(DidJwk, 'fromDid')
+      const result = await jwkDidResolver.resolve(didJwkP256Fixture.id)
+
+      expect(JsonTransformer.toJSON(result)).toMatchObject({
+        didDocument: didJwkP256Fixture,
+        didDocumentMetadata: {},
+        didResolutionMetadata: { contentType: 'application/did+ld+json' },
+      })
+      expect(fromDidSpy).toHaveBeenCalledTimes(1)
+      expect(fromDidSpy).toHaveBeenCalledWith(didJwkP256Fixture.id)
+    })
+
+    it('should return did resolution metadata with error if the did contains an unsupported jwk', async () => {
+      const did = `did:jwk:${JsonEncoder.toBase64URL({ kty: 'RSA', n: 'n', e: 'AQAB' })}`
+      const result = await jwkDidResolver.resolve(did)
+
+      expect(result).toEqual({
+        didDocument: null,
+        didDocumentMetadata: {},
+        didResolutionMetadata: {
+          error: 'notFound',
+          message: `resolver_error: Unable to resolve did '${did}': AriesFrameworkError: Unsupported JWK with kty 'RSA' and crv 'undefined'`,
+        },
+      })
+    })
+  })
+})
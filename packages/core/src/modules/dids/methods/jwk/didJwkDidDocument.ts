@@ -0,0 +1,42 @@
+import type { DidJwk } from './DidJwk'
+
+import { KeyType } from '../../../../crypto'
+import { DidDocumentBuilder } from '../../domain/DidDocumentBuilder'
+import { VERIFICATION_METHOD_TYPE_JSON_WEB_KEY_2020 } from '../../domain/key-type/jsonWebKey2020'
+
+/**
+ * Create the did document for a did:jwk, as specified in https://github.com/quartzjer/did-jwk/blob/main/spec.md.
+ *
+ * The verification relationships are based on the `use` of the jwk. X25519 keys can only be used for key
+ * agreement.
+ */
+export function getDidJwkDocument(didJwk: DidJwk) {
+  const { did, jwk, key } = didJwk
+  const keyId = `${did}#0`
+
+  const didDocumentBuilder = new DidDocumentBuilder(did)
+    .addContext('https://w3id.org/security/suites/jws-2020/v1')
+    .addVerificationMethod({
+      id: keyId,
+      type: VERIFICATION_METHOD_TYPE_JSON_WEB_KEY_2020,
+      controller: did,
+      publicKeyJwk: jwk,
+    })
+
+  const canSign = jwk.use !== 'enc' && key.keyType !== KeyType.X25519
+  const canEncrypt = jwk.use !== 'sig'
+
+  if (canSign) {
+    didDocumentBuilder
+      .addAuthentication(keyId)
+      .addAssertionMethod(keyId)
+      .addCapabilityDelegation(keyId)
+      .addCapabilityInvocation(keyId)
+  }
+
+  if (canEncrypt) {
+    didDocumentBuilder.addKeyAgreement(keyId)
+  }
+
+  return didDocumentBuilder.build()
+}
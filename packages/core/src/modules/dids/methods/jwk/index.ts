@@ -0,0 +1,3 @@
+export { DidJwk } from './DidJwk'
+export { JwkDidRegistrar } from './JwkDidRegistrar'
+export type { JwkDidCreateOptions } from './JwkDidRegistrar'
@@ -0,0 +1,135 @@
+import type { Wallet } from '../../../../wallet/Wallet'
+import type { DidRegistrar } from '../../domain/DidRegistrar'
+import type { DidRepository } from '../../repository'
+import type { DidCreateOptions, DidCreateResult, DidDeactivateResult, DidUpdateResult } from '../../types'
+
+import { KeyType } from '../../../../crypto'
+import { DidDocumentRole } from '../../domain/DidDocumentRole'
+import { Key } from '../../domain/Key'
+import { DidRecord } from '../../repository'
+
+import { DidKey } from './DidKey'
+
+export class KeyDidRegistrar implements DidRegistrar {
+  public readonly supportedMethods = ['key']
+
+  private wallet: Wallet
+  private didRepository: DidRepository
+
+  public constructor(wallet: Wallet, didRepository: DidRepository) {
+    this.wallet = wallet
+    this.didRepository = didRepository
+  }
+
+  public async create(options: KeyDidCreateOptions): Promise<DidCreateResult> {
+    const keyType = options.options?.keyType
+    const seed = options.secret?.seed
+
+    if (!keyType) {
+      return {
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          reason: 'Missing key type',
+        },
+      }
+    }
+
+    if (keyType !== KeyType.Ed25519) {
+      return {
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          reason: `Unsupported key type '${keyType}'. Supported key types are ${KeyType.Ed25519}`,
+        },
+      }
+    }
+
+    if (seed && (typeof seed !== 'string' || seed.length !== 32)) {
+      return {
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          reason: 'Invalid seed provided',
+        },
+      }
+    }
+
+    try {
+      const { verkey } = await this.wallet.createDid({ seed })
+
+      const didKey = new DidKey(Key.fromPublicKeyBase58(verkey, keyType))
+
+      // The did document can be derived from the did itself, so there is no need to store it
+      const didRecord = new DidRecord({
+        id: didKey.did,
+        role: DidDocumentRole.Created,
+        tags: {
+          // We need to save the recipientKeys, so we can find the associated did
+          // of a key when we receive a message from another connection.
+          recipientKeyFingerprints: [didKey.key.fingerprint],
+        },
+      })
+      await this.didRepository.save(didRecord)
+
+      return {
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'finished',
+          did: didKey.did,
+          didDocument: didKey.didDocument,
+          // The seed can only be returned if it was provided, as the wallet doesn't expose generated seeds
+          secret: { seed },
+        },
+      }
+    } catch (error) {
+      return {
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          reason: `unknownError: ${error.message}`,
+        },
+      }
+    }
+  }
+
+  public async update(): Promise<DidUpdateResult> {
+    return {
+      didDocumentMetadata: {},
+      didRegistrationMetadata: {},
+      didState: {
+        state: 'failed',
+        reason: `notSupported: cannot update did:key did`,
+      },
+    }
+  }
+
+  public async deactivate(): Promise<DidDeactivateResult> {
+    return {
+      didDocumentMetadata: {},
+      didRegistrationMetadata: {},
+      didState: {
+        state: 'failed',
+        reason: `notSupported: cannot deactivate did:key did`,
+      },
+    }
+  }
+}
+
+export interface KeyDidCreateOptions extends DidCreateOptions {
+  method: 'key'
+  // For now we don't support creating a did:key with a did or did document
+  did?: never
+  didDocument?: never
+  options: {
+    keyType: KeyType
+  }
+  secret?: {
+    seed?: string
+  }
+}
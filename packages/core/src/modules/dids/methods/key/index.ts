@@ -1 +1,3 @@
 export { DidKey } from './DidKey'
+export { KeyDidRegistrar } from './KeyDidRegistrar'
+export type { KeyDidCreateOptions } from './KeyDidRegistrar'
@@ -0,0 +1,203 @@
+import type { Wallet } from '../../../../wallet/Wallet'
+import type { ResolvedDidCommService } from '../../../didcomm'
+import type { DidDocument } from '../../domain'
+import type { DidRegistrar } from '../../domain/DidRegistrar'
+import type { DidRepository } from '../../repository'
+import type { DidCreateOptions, DidCreateResult, DidDeactivateResult, DidUpdateResult } from '../../types'
+
+import { KeyType } from '../../../../crypto'
+import { DidDocumentRole } from '../../domain/DidDocumentRole'
+import { Key } from '../../domain/Key'
+import { createDidDocumentFromServices } from '../../domain/createPeerDidFromServices'
+import { DidRecord } from '../../repository'
+
+import { PeerDidNumAlgo } from './didPeer'
+import { keyToNumAlgo0DidDocument } from './peerDidNumAlgo0'
+import { didDocumentJsonToNumAlgo1Did } from './peerDidNumAlgo1'
+import { didDocumentToNumAlgo2Did, didToNumAlgo2DidDocument } from './peerDidNumAlgo2'
+
+export class PeerDidRegistrar implements DidRegistrar {
+  public readonly supportedMethods = ['peer']
+
+  private wallet: Wallet
+  private didRepository: DidRepository
+
+  public constructor(wallet: Wallet, didRepository: DidRepository) {
+    this.wallet = wallet
+    this.didRepository = didRepository
+  }
+
+  public async create(options: PeerDidCreateOptions): Promise<DidCreateResult> {
+    let didDocument: DidDocument
+
+    try {
+      if (isPeerDidNumAlgo0CreateOptions(options)) {
+        const keyType = options.options.keyType
+        const seed = options.secret?.seed
+
+        if (keyType !== KeyType.Ed25519) {
+          return {
+            didDocumentMetadata: {},
+            didRegistrationMetadata: {},
+            didState: {
+              state: 'failed',
+              reason: `Unsupported key type '${keyType}'. Supported key types are ${KeyType.Ed25519}`,
+            },
+          }
+        }
+
+        if (seed && (typeof seed !== 'string' || seed.length !== 32)) {
+          return {
+            didDocumentMetadata: {},
+            didRegistrationMetadata: {},
+            didState: {
+              state: 'failed',
+              reason: 'Invalid seed provided',
+            },
+          }
+        }
+
+        const { verkey } = await this.wallet.createDid({ seed })
+
+        didDocument = keyToNumAlgo0DidDocument(Key.fromPublicKeyBase58(verkey, keyType))
+      } else if (isPeerDidNumAlgo1CreateOptions(options) || isPeerDidNumAlgo2CreateOptions(options)) {
+        if (!options.didDocument && !options.options.services) {
+          return {
+            didDocumentMetadata: {},
+            didRegistrationMetadata: {},
+            didState: {
+              state: 'failed',
+              reason: `Either a did document or services must be provided to create a method ${options.options.numAlgo} peer did`,
+            },
+          }
+        }
+
+        const inputDidDocument = options.didDocument ?? createDidDocumentFromServices(options.options.services ?? [])
+
+        if (isPeerDidNumAlgo1CreateOptions(options)) {
+          // The did document is hashed to derive the did, and needs to be stored so the did can be resolved
+          didDocument = inputDidDocument
+          didDocument.id = didDocumentJsonToNumAlgo1Did(didDocument.toJSON())
+        } else {
+          didDocument = didToNumAlgo2DidDocument(didDocumentToNumAlgo2Did(inputDidDocument))
+        }
+      } else {
+        return {
+          didDocumentMetadata: {},
+          didRegistrationMetadata: {},
+          didState: {
+            state: 'failed',
+            reason: `Missing or incorrect numAlgo provided`,
+          },
+        }
+      }
+
+      const didRecord = new DidRecord({
+        id: didDocument.id,
+        role: DidDocumentRole.Created,
+        // Method 0 and 2 did documents can be derived from the did itself
+        didDocument: isPeerDidNumAlgo1CreateOptions(options) ? didDocument : undefined,
+        tags: {
+          // We need to save the recipientKeys, so we can find the associated did
+          // of a key when we receive a message from another connection.
+          recipientKeyFingerprints: didDocument.recipientKeys.map((key) => key.fingerprint),
+        },
+      })
+      await this.didRepository.save(didRecord)
+
+      return {
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'finished',
+          did: didDocument.id,
+          didDocument,
+          secret: isPeerDidNumAlgo0CreateOptions(options) ? { seed: options.secret?.seed } : undefined,
+        },
+      }
+    } catch (error) {
+      return {
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          reason: `unknownError: ${error.message}`,
+        },
+      }
+    }
+  }
+
+  public async update(): Promise<DidUpdateResult> {
+    return {
+      didDocumentMetadata: {},
+      didRegistrationMetadata: {},
+      didState: {
+        state: 'failed',
+        reason: `notSupported: cannot update did:peer did`,
+      },
+    }
+  }
+
+  public async deactivate(): Promise<DidDeactivateResult> {
+    return {
+      didDocumentMetadata: {},
+      didRegistrationMetadata: {},
+      didState: {
+        state: 'failed',
+        reason: `notSupported: cannot deactivate did:peer did`,
+      },
+    }
+  }
+}
+
+function isPeerDidNumAlgo0CreateOptions(options: PeerDidCreateOptions): options is PeerDidNumAlgo0CreateOptions {
+  return options.options.numAlgo === PeerDidNumAlgo.InceptionKeyWithoutDoc
+}
+
+function isPeerDidNumAlgo1CreateOptions(options: PeerDidCreateOptions): options is PeerDidNumAlgo1CreateOptions {
+  return options.options.numAlgo === PeerDidNumAlgo.GenesisDoc
+}
+
+function isPeerDidNumAlgo2CreateOptions(options: PeerDidCreateOptions): options is PeerDidNumAlgo2CreateOptions {
+  return options.options.numAlgo === PeerDidNumAlgo.MultipleInceptionKeyWithoutDoc
+}
+
+export type PeerDidCreateOptions =
+  | PeerDidNumAlgo0CreateOptions
+  | PeerDidNumAlgo1CreateOptions
+  | PeerDidNumAlgo2CreateOptions
+
+export interface PeerDidNumAlgo0CreateOptions extends DidCreateOptions {
+  method: 'peer'
+  did?: never
+  didDocument?: never
+  options: {
+    keyType: KeyType
+    numAlgo: PeerDidNumAlgo.InceptionKeyWithoutDoc
+  }
+  secret?: {
+    seed?: string
+  }
+}
+
+export interface PeerDidNumAlgo1CreateOptions extends DidCreateOptions {
+  method: 'peer'
+  did?: never
+  didDocument?: DidDocument
+  options: {
+    numAlgo: PeerDidNumAlgo.GenesisDoc
+    services?: ResolvedDidCommService[]
+  }
+  secret?: never
+}
+
+export interface PeerDidNumAlgo2CreateOptions extends DidCreateOptions {
+  method: 'peer'
+  did?: never
+  didDocument?: DidDocument
+  options: {
+    numAlgo: PeerDidNumAlgo.MultipleInceptionKeyWithoutDoc
+    services?: ResolvedDidCommService[]
+  }
+  secret?: never
+}
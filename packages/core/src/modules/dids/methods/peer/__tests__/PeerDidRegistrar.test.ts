@@ -0,0 +1,254 @@
+import type { Wallet } from '../../../../../wallet/Wallet'
+
+import { mockFunction } from '../../../../../../tests/helpers'
+import { KeyType } from '../../../../../crypto'
+import { JsonTransformer } from '../../../../../utils/JsonTransformer'
+import didPeer1zQmYFixture from '../../../__tests__/__fixtures__/didPeer1zQmY.json'
+import { DidDocument, Key } from '../../../domain'
+import { DidDocumentRole } from '../../../domain/DidDocumentRole'
+import { DidRepository } from '../../../repository/DidRepository'
+import { PeerDidRegistrar } from '../PeerDidRegistrar'
+import { PeerDidNumAlgo } from '../didPeer'
+
+import didPeer0z6MkmFixture from './__fixtures__/didPeer0z6Mkm.json'
+
+jest.mock('../../../repository/DidRepository')
+const DidRepositoryMock = DidRepository as jest.Mock<DidRepository>
+
+const walletMock = {
+  createDid: jest.fn().mockResolvedValue({
+    did: 'Kpmtq8ZfGBvs3pkUP5pSSt',
+    verkey: '8HH5gYEeNc3z7PYXmd54d4x6qAfCNrqQqEB3nS7Zfu7K',
+  }),
+} as unknown as Wallet
+
+describe('DidRegistrar', () => {
+  describe('PeerDidRegistrar', () => {
+    let didRepositoryMock: DidRepository
+    let peerDidRegistrar: PeerDidRegistrar
+
+    beforeEach(() => {
+      didRepositoryMock = new DidRepositoryMock()
+      peerDidRegistrar = new PeerDidRegistrar(walletMock, didRepositoryMock)
+    })
+
+    afterEach(() => {
+      jest.clearAllMocks()
+    })
+
+    describe('did:peer:0', () => {
+      it('should correctly create a did:peer:0 document using Ed25519 key type', async () => {
+        const seed = '96213c3d7fc8d4d6754c712fd969598e'
+
+        const result = await peerDidRegistrar.create({
+          method: 'peer',
+          options: {
+            keyType: KeyType.Ed25519,
+            numAlgo: PeerDidNumAlgo.InceptionKeyWithoutDoc,
+          },
+          secret: {
+            seed,
+          },
+        })
+
+        expect(JsonTransformer.toJSON(result)).toMatchObject({
+          didDocumentMetadata: {},
+          didRegistrationMetadata: {},
+          didState: {
+            state: 'finished',
+            did: didPeer0z6MkmFixture.id,
+            didDocument: didPeer0z6MkmFixture,
+            secret: {
+              seed: '96213c3d7fc8d4d6754c712fd969598e',
+            },
+          },
+        })
+
+        expect(walletMock.createDid).toHaveBeenCalledWith({ seed })
+      })
+
+      it('should return an error state if an unsupported key type is provided', async () => {
+        const result = await peerDidRegistrar.create({
+          method: 'peer',
+          options: {
+            keyType: KeyType.Bls12381g1,
+            numAlgo: PeerDidNumAlgo.InceptionKeyWithoutDoc,
+          },
+        })
+
+        expect(JsonTransformer.toJSON(result)).toMatchObject({
+          didDocumentMetadata: {},
+          didRegistrationMetadata: {},
+          didState: {
+            state: 'failed',
+            reason: `Unsupported key type 'bls12381g1'. Supported key types are ed25519`,
+          },
+        })
+      })
+
+      it('should store the did without the did document', async () => {
+        await peerDidRegistrar.create({
+          method: 'peer',
+          options: {
+            keyType: KeyType.Ed25519,
+            numAlgo: PeerDidNumAlgo.InceptionKeyWithoutDoc,
+          },
+        })
+
+        expect(didRepositoryMock.save).toHaveBeenCalledTimes(1)
+        const [didRecord] = mockFunction(didRepositoryMock.save).mock.calls[0]
+
+        expect(didRecord).toMatchObject({
+          id: didPeer0z6MkmFixture.id,
+          role: DidDocumentRole.Created,
+          _tags: {
+            recipientKeyFingerprints: [],
+          },
+          didDocument: undefined,
+        })
+      })
+    })
+
+    describe('did:peer:1', () => {
+      it('should correctly create a did:peer:1 document from a did document', async () => {
+        const didDocument = JsonTransformer.fromJSON({ ...didPeer1zQmYFixture, id: '' }, DidDocument)
+
+        const result = await peerDidRegistrar.create({
+          method: 'peer',
+          didDocument,
+          options: {
+            numAlgo: PeerDidNumAlgo.GenesisDoc,
+          },
+        })
+
+        expect(JsonTransformer.toJSON(result)).toMatchObject({
+          didDocumentMetadata: {},
+          didRegistrationMetadata: {},
+          didState: {
+            state: 'finished',
+            did: didPeer1zQmYFixture.id,
+            didDocument: didPeer1zQmYFixture,
+          },
+        })
+      })
+
+      it('should store the did with the did document', async () => {
+        const didDocument = JsonTransformer.fromJSON({ ...didPeer1zQmYFixture, id: '' }, DidDocument)
+
+        await peerDidRegistrar.create({
+          method: 'peer',
+          didDocument,
+          options: {
+            numAlgo: PeerDidNumAlgo.GenesisDoc,
+          },
+        })
+
+        expect(didRepositoryMock.save).toHaveBeenCalledTimes(1)
+        const [didRecord] = mockFunction(didRepositoryMock.save).mock.calls[0]
+
+        expect(didRecord).toMatchObject({
+          id: didPeer1zQmYFixture.id,
+          role: DidDocumentRole.Created,
+          _tags: {
+            recipientKeyFingerprints: didDocument.recipientKeys.map((key) => key.fingerprint),
+          },
+          didDocument,
+        })
+      })
+    })
+
+    describe('did:peer:2', () => {
+      it('should correctly create a did:peer:2 document from services', async () => {
+        const recipientKey = Key.fromPublicKeyBase58('DtPcLpky6Yi6zPecfW8VZH3xNoDkvQfiGWp8u5n9nAj6', KeyType.Ed25519)
+
+        const result = await peerDidRegistrar.create({
+          method: 'peer',
+          options: {
+            numAlgo: PeerDidNumAlgo.MultipleInceptionKeyWithoutDoc,
+            services: [
+              {
+                id: '#service-0',
+                serviceEndpoint: 'https://example.com',
+                recipientKeys: [recipientKey],
+                routingKeys: [],
+              },
+            ],
+          },
+        })
+
+        expect(result.didState.state).toEqual('finished')
+        expect(result.didState.did).toMatch(/^did:peer:2\.Ez6LS.*\.Vz6Mk.*\.S.*$/)
+
+        // The recipient keys of the service must reference the keys in the resolved did document
+        const didDocument = result.didState.didDocument as DidDocument
+        expect(didDocument.id).toEqual(result.didState.did)
+        expect(didDocument.recipientKeys).toEqual([recipientKey])
+
+        expect(didRepositoryMock.save).toHaveBeenCalledTimes(1)
+        const [didRecord] = mockFunction(didRepositoryMock.save).mock.calls[0]
+        expect(didRecord).toMatchObject({
+          id: didDocument.id,
+          role: DidDocumentRole.Created,
+          _tags: {
+            recipientKeyFingerprints: [recipientKey.fingerprint],
+          },
+          didDocument: undefined,
+        })
+      })
+
+      it('should return an error state if no did document or services are provided', async () => {
+        const result = await peerDidRegistrar.create({
+          method: 'peer',
+          options: {
+            numAlgo: PeerDidNumAlgo.MultipleInceptionKeyWithoutDoc,
+          },
+        })
+
+        expect(result.didState).toEqual({
+          state: 'failed',
+          reason: 'Either a did document or services must be provided to create a method 2 peer did',
+        })
+      })
+    })
+
+    it('should return an error state if an invalid numAlgo is provided', async () => {
+      const result = await peerDidRegistrar.create({
+        method: 'peer',
+        options: {
+          numAlgo: 4,
+        },
+      })
+
+      expect(result.didState).toEqual({
+        state: 'failed',
+        reason: 'Missing or incorrect numAlgo provided',
+      })
+    })
+
+    it('should return an error state when calling update', async () => {
+      const result = await peerDidRegistrar.update()
+
+      expect(result).toEqual({
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          reason: `notSupported: cannot update did:peer did`,
+        },
+      })
+    })
+
+    it('should return an error state when calling deactivate', async () => {
+      const result = await peerDidRegistrar.deactivate()
+
+      expect(result).toEqual({
+        didDocumentMetadata: {},
+        didRegistrationMetadata: {},
+        didState: {
+          state: 'failed',
+          reason: `notSupported: cannot deactivate did:peer did`,
+        },
+      })
+    })
+  })
+})
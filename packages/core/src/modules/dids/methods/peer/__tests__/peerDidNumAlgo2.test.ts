@@ -1,6 +1,8 @@
 import { JsonTransformer } from '../../../../../utils'
 import { OutOfBandDidCommService } from '../../../../oob/domain/OutOfBandDidCommService'
-import { DidDocument } from '../../../domain'
+import { DidDocument, Key } from '../../../domain'
+import { createDidDocumentFromServices } from '../../../domain/createPeerDidFromServices'
+import { DidCommV1Service } from '../../../domain/service/DidCommV1Service'
 import { didToNumAlgo2DidDocument, didDocumentToNumAlgo2Did, outOfBandServiceToNumAlgo2Did } from '../peerDidNumAlgo2'
 
 import didPeer2Ez6L from './__fixtures__/didPeer2Ez6L.json'
@@ -25,6 +27,34 @@ describe('peerDidNumAlgo2', () => {
     })
   })
 
+  describe('createDidDocumentFromServices', () => {
+    test('encodes the recipient keys and routing keys of the services in the method 2 did', () => {
+      const recipientKey = Key.fromFingerprint('z6MkqRYqQiSgvZQdnBytw86Qbs2ZWUkGv22od935YF4s8M7V')
+      const routingKey = Key.fromFingerprint('z6MkpTHR8VNsBxYAAWHut2Geadd9jSwuBV8xRoAnwWsdvktH')
+
+      const didDocument = createDidDocumentFromServices([
+        {
+          id: '#inline-0',
+          serviceEndpoint: 'https://example.com/endpoint',
+          recipientKeys: [recipientKey],
+          routingKeys: [routingKey],
+        },
+      ])
+
+      const peerDid = didDocumentToNumAlgo2Did(didDocument)
+      const peerDidDocument = didToNumAlgo2DidDocument(peerDid)
+
+      expect(peerDidDocument.recipientKeys).toEqual([recipientKey])
+      expect(peerDidDocument.didCommServices).toEqual([expect.any(DidCommV1Service)])
+      expect(peerDidDocument.didCommServices[0]).toMatchObject({
+        serviceEndpoint: 'https://example.com/endpoint',
+        routingKeys: [
+          'did:key:z6MkpTHR8VNsBxYAAWHut2Geadd9jSwuBV8xRoAnwWsdvktH#z6MkpTHR8VNsBxYAAWHut2Geadd9jSwuBV8xRoAnwWsdvktH',
+        ],
+      })
+    })
+  })
+
   describe('outOfBandServiceToNumAlgo2Did', () => {
     test('transforms a did comm service into a valid method 2 did', () => {
       const service = new OutOfBandDidCommService({
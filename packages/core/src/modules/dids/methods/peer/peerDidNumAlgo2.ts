@@ -1,12 +1,14 @@
 import type { JsonObject } from '../../../../types'
 import type { OutOfBandDidCommService } from '../../../oob/domain/OutOfBandDidCommService'
 import type { DidDocument, VerificationMethod } from '../../domain'
+import type { ClassConstructor } from 'class-transformer'
 
 import { JsonEncoder, JsonTransformer } from '../../../../utils'
-import { DidCommV1Service, DidDocumentService, Key } from '../../domain'
+import { DidCommV1Service, DidCommV2Service, DidDocumentService, Key } from '../../domain'
 import { DidDocumentBuilder } from '../../domain/DidDocumentBuilder'
 import { getKeyDidMappingByKeyType, getKeyDidMappingByVerificationMethod } from '../../domain/key-type'
 import { parseDid } from '../../domain/parse'
+import { serviceTypes } from '../../domain/service/ServiceTransformer'
 import { DidKey } from '../key'
 
 enum DidPeerPurpose {
@@ -66,7 +68,9 @@ export function didToNumAlgo2DidDocument(did: string) {
 
         service.id = `${did}#${service.type.toLowerCase()}-${serviceIndex++}`
 
-        didDocument.addService(JsonTransformer.fromJSON(service, DidDocumentService))
+        // Transform to the corresponding service class, so e.g. the recipient keys of did comm services can be used
+        const serviceClass = (serviceTypes[service.type] ?? DidDocumentService) as ClassConstructor<DidDocumentService>
+        didDocument.addService(JsonTransformer.fromJSON(service, serviceClass))
       }
     }
     // Otherwise we can be sure it is a key
@@ -134,6 +138,21 @@ export function didDocumentToNumAlgo2Did(didDocument: DidDocument) {
       const serviceJson = JsonTransformer.toJSON(service)
       delete serviceJson.id
 
+      // Local key references must point to the key ids as they will be in the resolved did document
+      if (Array.isArray(serviceJson.recipientKeys)) {
+        serviceJson.recipientKeys = serviceJson.recipientKeys.map((recipientKey) =>
+          typeof recipientKey === 'string'
+            ? localKeyReferenceToNumAlgo2KeyReference(didDocument, recipientKey)
+            : recipientKey
+        )
+      }
+
+      // DIDComm v2 services are encoded with the type first, as is done by other peer did implementations
+      if (service instanceof DidCommV2Service) {
+        const { type, ...otherProperties } = serviceJson
+        return abbreviateServiceJson({ type, ...otherProperties })
+      }
+
       return abbreviateServiceJson(serviceJson)
     })
 
@@ -176,6 +195,17 @@ export function outOfBandServiceToNumAlgo2Did(service: OutOfBandDidCommService)
   return did
 }
 
+function localKeyReferenceToNumAlgo2KeyReference(didDocument: DidDocument, keyReference: string) {
+  if (!keyReference.startsWith('#')) return keyReference
+
+  const verificationMethod = didDocument.dereferenceKey(keyReference)
+  const { getKeyFromVerificationMethod } = getKeyDidMappingByVerificationMethod(verificationMethod)
+  const key = getKeyFromVerificationMethod(verificationMethod)
+
+  // Key ids in a resolved method 2 peer did document are the fingerprint without the multi base prefix
+  return `#${key.fingerprint.substring(1)}`
+}
+
 function expandServiceAbbreviations(service: JsonObject) {
   const expand = (abbreviated: string) => didPeerExpansions[abbreviated] ?? abbreviated
 
@@ -0,0 +1,128 @@
+import type { IndyEndpointAttrib } from '../../../ledger'
+
+import { convertPublicKeyToX25519 } from '@stablelib/ed25519'
+
+import { TypedArrayEncoder } from '../../../../utils/TypedArrayEncoder'
+import { DidDocumentService } from '../../domain'
+import { DidDocumentBuilder } from '../../domain/DidDocumentBuilder'
+import { DidCommV1Service } from '../../domain/service/DidCommV1Service'
+import { DidCommV2Service } from '../../domain/service/DidCommV2Service'
+
+/**
+ * Create the base did document builder of a `did:sov` did, with the verkey as authentication and assertion method,
+ * and the derived X25519 key as key agreement key.
+ */
+export function sovDidDocumentFromDid(fullDid: string, publicKeyBase58: string) {
+  const verificationMethodId = `${fullDid}#key-1`
+  const keyAgreementId = `${fullDid}#key-agreement-1`
+
+  return new DidDocumentBuilder(fullDid)
+    .addContext('https://w3id.org/security/suites/ed25519-2018/v1')
+    .addContext('https://w3id.org/security/suites/x25519-2019/v1')
+    .addVerificationMethod({
+      controller: fullDid,
+      id: verificationMethodId,
+      publicKeyBase58,
+      type: 'Ed25519VerificationKey2018',
+    })
+    .addVerificationMethod({
+      controller: fullDid,
+      id: keyAgreementId,
+      publicKeyBase58: getX25519PublicKeyBase58(publicKeyBase58),
+      type: 'X25519KeyAgreementKey2019',
+    })
+    .addAuthentication(verificationMethodId)
+    .addAssertionMethod(verificationMethodId)
+    .addKeyAgreement(keyAgreementId)
+}
+
+export function getX25519PublicKeyBase58(ed25519PublicKeyBase58: string) {
+  return TypedArrayEncoder.toBase58(convertPublicKeyToX25519(TypedArrayEncoder.fromBase58(ed25519PublicKeyBase58)))
+}
+
+// Process Indy Attrib Endpoint Types according to: https://sovrin-foundation.github.io/sovrin/spec/did-method-spec-template.html > Read (Resolve) > DID Service Endpoint
+function processEndpointTypes(types?: string[]) {
+  const expectedTypes = ['endpoint', 'did-communication', 'DIDComm']
+  const defaultTypes = ['endpoint', 'did-communication']
+
+  // Return default types if types "is NOT present [or] empty"
+  if (!types || types?.length <= 0) {
+    return defaultTypes
+  }
+
+  // Return default types if types "contain any other values"
+  for (const type of types) {
+    if (!expectedTypes.includes(type)) {
+      return defaultTypes
+    }
+  }
+
+  // Return provided types
+  return types
+}
+
+/**
+ * Add the services of an indy endpoint ATTRIB to a did document. Used by both the `did:sov` and `did:indy` methods.
+ */
+export function addServicesFromEndpointsAttrib(
+  builder: DidDocumentBuilder,
+  fullDid: string,
+  endpoints: IndyEndpointAttrib,
+  keyAgreementId: string
+) {
+  const { endpoint, routingKeys, types, ...otherEndpoints } = endpoints
+
+  if (endpoint) {
+    const processedTypes = processEndpointTypes(types)
+
+    // If 'endpoint' included in types, add id to the services array
+    if (processedTypes.includes('endpoint')) {
+      builder.addService(
+        new DidDocumentService({
+          id: `${fullDid}#endpoint`,
+          serviceEndpoint: endpoint,
+          type: 'endpoint',
+        })
+      )
+    }
+
+    // If 'did-communication' included in types, add DIDComm v1 entry
+    if (processedTypes.includes('did-communication')) {
+      builder.addService(
+        new DidCommV1Service({
+          id: `${fullDid}#did-communication`,
+          serviceEndpoint: endpoint,
+          priority: 0,
+          routingKeys: routingKeys ?? [],
+          recipientKeys: [keyAgreementId],
+          accept: ['didcomm/aip2;env=rfc19'],
+        })
+      )
+
+      // If 'DIDComm' included in types, add DIDComm v2 entry
+      if (processedTypes.includes('DIDComm')) {
+        builder
+          .addService(
+            new DidCommV2Service({
+              id: `${fullDid}#didcomm-1`,
+              serviceEndpoint: endpoint,
+              routingKeys: routingKeys ?? [],
+              accept: ['didcomm/v2'],
+            })
+          )
+          .addContext('https://didcomm.org/messaging/contexts/v2')
+      }
+    }
+  }
+
+  // Add other endpoint types
+  for (const [type, endpoint] of Object.entries(otherEndpoints)) {
+    builder.addService(
+      new DidDocumentService({
+        id: `${fullDid}#${type}`,
+        serviceEndpoint: endpoint as string,
+        type,
+      })
+    )
+  }
+}
@@ -0,0 +1,120 @@
+import type { Logger } from '../../../logger'
+import type { DidRegistrar } from '../domain/DidRegistrar'
+import type {
+  DidCreateOptions,
+  DidCreateResult,
+  DidDeactivateOptions,
+  DidDeactivateResult,
+  DidUpdateOptions,
+  DidUpdateResult,
+} from '../types'
+
+import { AgentConfig } from '../../../agent/AgentConfig'
+import { InjectionSymbols } from '../../../constants'
+import { inject, injectable } from '../../../plugins'
+import { Wallet } from '../../../wallet/Wallet'
+import { parseDid } from '../domain/parse'
+import { JwkDidRegistrar } from '../methods/jwk/JwkDidRegistrar'
+import { KeyDidRegistrar } from '../methods/key/KeyDidRegistrar'
+import { PeerDidRegistrar } from '../methods/peer/PeerDidRegistrar'
+import { DidRepository } from '../repository'
+
+@injectable()
+export class DidRegistrarService {
+  private logger: Logger
+  private registrars: DidRegistrar[]
+
+  public constructor(
+    agentConfig: AgentConfig,
+    @inject(InjectionSymbols.Wallet) wallet: Wallet,
+    didRepository: DidRepository
+  ) {
+    this.logger = agentConfig.logger
+
+    this.registrars = [
+      new KeyDidRegistrar(wallet, didRepository),
+      new PeerDidRegistrar(wallet, didRepository),
+      new JwkDidRegistrar(wallet, didRepository),
+    ]
+  }
+
+  public async create<CreateOptions extends DidCreateOptions = DidCreateOptions>(
+    options: CreateOptions
+  ): Promise<DidCreateResult> {
+    this.logger.debug(`creating did ${options.did ?? options.method}`)
+
+    if ((!options.did && !options.method) || (options.did && options.method)) {
+      return failedResult(options.did, 'Either did OR method must be specified')
+    }
+
+    const method = options.method ?? this.parseMethod(options.did)
+    if (!method) {
+      return failedResult(options.did, `invalidDid: Unable to parse did '${options.did}'`)
+    }
+
+    const registrar = this.findRegistrarForMethod(method)
+    if (!registrar) {
+      return failedResult(options.did, `Unsupported did method: '${method}'`)
+    }
+
+    return await registrar.create(options)
+  }
+
+  public async update(options: DidUpdateOptions): Promise<DidUpdateResult> {
+    this.logger.debug(`updating did ${options.did}`)
+
+    const method = this.parseMethod(options.did)
+    if (!method) {
+      return failedResult(options.did, `invalidDid: Unable to parse did '${options.did}'`)
+    }
+
+    const registrar = this.findRegistrarForMethod(method)
+    if (!registrar) {
+      return failedResult(options.did, `Unsupported did method: '${method}'`)
+    }
+
+    return await registrar.update(options)
+  }
+
+  public async deactivate(options: DidDeactivateOptions): Promise<DidDeactivateResult> {
+    this.logger.debug(`deactivating did ${options.did}`)
+
+    const method = this.parseMethod(options.did)
+    if (!method) {
+      return failedResult(options.did, `invalidDid: Unable to parse did '${options.did}'`)
+    }
+
+    const registrar = this.findRegistrarForMethod(method)
+    if (!registrar) {
+      return failedResult(options.did, `Unsupported did method: '${method}'`)
+    }
+
+    return await registrar.deactivate(options)
+  }
+
+  private parseMethod(did?: string) {
+    if (!did) return null
+
+    try {
+      return parseDid(did).method
+    } catch (error) {
+      return null
+    }
+  }
+
+  private findRegistrarForMethod(method: string): DidRegistrar | null {
+    return this.registrars.find((r) => r.supportedMethods.includes(method)) ?? null
+  }
+}
+
+function failedResult(did: string | undefined, reason: string) {
+  return {
+    didDocumentMetadata: {},
+    didRegistrationMetadata: {},
+    didState: {
+      state: 'failed' as const,
+      did,
+      reason,
+    },
+  }
+}
@@ -0,0 +1,125 @@
+import type { Logger } from '../../../logger'
+import type { RecordDeletedEvent, RecordSavedEvent, RecordUpdatedEvent } from '../../../storage/RepositoryEvents'
+import type { DidDocumentMetadata, DidResolutionMetadata, DidResolutionResult } from '../types'
+
+import { LRUMap } from 'lru_map'
+import { merge } from 'rxjs'
+import { filter } from 'rxjs/operators'
+
+import { AgentConfig } from '../../../agent/AgentConfig'
+import { EventEmitter } from '../../../agent/EventEmitter'
+import { CacheRepository, PersistedLruCache } from '../../../cache'
+import { injectable } from '../../../plugins'
+import { RepositoryEventTypes } from '../../../storage/RepositoryEvents'
+import { JsonTransformer } from '../../../utils/JsonTransformer'
+import { DidDocument } from '../domain'
+import { DidRecord } from '../repository'
+
+export const DID_RESOLUTION_CACHE_ID = 'DID_RESOLUTION_CACHE'
+
+interface CachedDidResolutionResult {
+  expiresAt: number
+  didDocument: Record<string, unknown>
+  didDocumentMetadata: DidDocumentMetadata
+  didResolutionMetadata: DidResolutionMetadata
+}
+
+export interface DidResolutionCacheStats {
+  hits: number
+  misses: number
+}
+
+/**
+ * Cache of successful did resolution results. Which did methods are cached, and for how long, is configured using
+ * the `didResolutionCache` agent config. Cached results of dids that are stored in the did repository are
+ * invalidated when the did record changes.
+ *
+ * The cache is kept in memory, unless `didResolutionCache.persist` is enabled. A persisted cache is stored as a
+ * single record, which is updated every time a resolution result is added to the cache.
+ */
+@injectable()
+export class DidResolutionCacheService {
+  private logger: Logger
+  private ttlMs: Record<string, number>
+  private cache: PersistedLruCache<CachedDidResolutionResult> | LRUMap<string, CachedDidResolutionResult>
+  private stats: DidResolutionCacheStats = { hits: 0, misses: 0 }
+
+  public constructor(agentConfig: AgentConfig, cacheRepository: CacheRepository, eventEmitter: EventEmitter) {
+    this.logger = agentConfig.logger
+
+    const { limit, ttlMs, persist } = agentConfig.didResolutionCache
+    this.ttlMs = ttlMs
+    this.cache = persist ? new PersistedLruCache(DID_RESOLUTION_CACHE_ID, limit, cacheRepository) : new LRUMap(limit)
+
+    merge(
+      eventEmitter.observable<RecordSavedEvent<DidRecord>>(RepositoryEventTypes.RecordSaved),
+      eventEmitter.observable<RecordUpdatedEvent<DidRecord>>(RepositoryEventTypes.RecordUpdated),
+      eventEmitter.observable<RecordDeletedEvent<DidRecord>>(RepositoryEventTypes.RecordDeleted)
+    )
+      .pipe(filter((event) => event.payload.record.type === DidRecord.type))
+      .subscribe(async (event) => {
+        try {
+          await this.remove(event.payload.record.id)
+        } catch (error) {
+          this.logger.error(`Error invalidating cached did resolution result for did ${event.payload.record.id}`, {
+            error,
+          })
+        }
+      })
+  }
+
+  /**
+   * Whether resolution results of the did method are cached
+   */
+  public isCacheable(method: string) {
+    return (this.ttlMs[method] ?? 0) > 0
+  }
+
+  /**
+   * Get the cached resolution result of a did. Returns `null` if the did is not cached, or the cached result
+   * has expired.
+   */
+  public async get(did: string): Promise<DidResolutionResult | null> {
+    const cached = await this.cache.get(did)
+
+    if (!cached || cached.expiresAt <= Date.now()) {
+      this.stats.misses++
+      return null
+    }
+
+    this.logger.trace(`Found did resolution result for did '${did}' in cache`)
+    this.stats.hits++
+
+    return {
+      didDocument: JsonTransformer.fromJSON(cached.didDocument, DidDocument),
+      didDocumentMetadata: cached.didDocumentMetadata,
+      didResolutionMetadata: cached.didResolutionMetadata,
+    }
+  }
+
+  public async set(did: string, method: string, result: DidResolutionResult) {
+    if (!this.isCacheable(method) || !result.didDocument) return
+
+    await this.cache.set(did, {
+      expiresAt: Date.now() + this.ttlMs[method],
+      didDocument: result.didDocument.toJSON(),
+      didDocumentMetadata: result.didDocumentMetadata,
+      didResolutionMetadata: result.didResolutionMetadata,
+    })
+  }
+
+  public async remove(did: string) {
+    if (this.cache instanceof LRUMap) {
+      this.cache.delete(did)
+    } else {
+      await this.cache.remove(did)
+    }
+  }
+
+  /**
+   * Get the number of cache hits and misses since the agent was started
+   */
+  public getStats(): DidResolutionCacheStats {
+    return { ...this.stats }
+  }
+}
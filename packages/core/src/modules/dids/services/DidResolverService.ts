@@ -1,32 +1,43 @@
 import type { Logger } from '../../../logger'
+import type { DidDocument, DidDocumentService, VerificationMethod } from '../domain'
 import type { DidResolver } from '../domain/DidResolver'
-import type { DidResolutionOptions, DidResolutionResult, ParsedDid } from '../types'
+import type {
+  DidDereferencingOptions,
+  DidDereferencingResult,
+  DidResolutionOptions,
+  DidResolutionResult,
+  ParsedDid,
+} from '../types'
+
+import { parse } from 'query-string'
 
 import { AgentConfig } from '../../../agent/AgentConfig'
+import { InjectionSymbols } from '../../../constants'
 import { AriesFrameworkError } from '../../../error'
-import { injectable } from '../../../plugins'
-import { IndyLedgerService } from '../../ledger'
+import { injectAll, injectable } from '../../../plugins'
+import { getKeyDidMappingByVerificationMethod } from '../domain/key-type'
 import { parseDid } from '../domain/parse'
-import { KeyDidResolver } from '../methods/key/KeyDidResolver'
-import { PeerDidResolver } from '../methods/peer/PeerDidResolver'
-import { SovDidResolver } from '../methods/sov/SovDidResolver'
-import { WebDidResolver } from '../methods/web/WebDidResolver'
-import { DidRepository } from '../repository'
+
+import { DidResolutionCacheService } from './DidResolutionCacheService'
 
 @injectable()
 export class DidResolverService {
   private logger: Logger
   private resolvers: DidResolver[]
+  private cacheService: DidResolutionCacheService
 
-  public constructor(agentConfig: AgentConfig, indyLedgerService: IndyLedgerService, didRepository: DidRepository) {
+  /**
+   * @param resolvers the resolvers registered by the modules of the agent. Resolvers for ledger based did methods
+   * (`did:sov`, `did:indy`) are registered by the `LedgerModule`.
+   */
+  public constructor(
+    agentConfig: AgentConfig,
+    @injectAll(InjectionSymbols.DidResolver) resolvers: DidResolver[],
+    cacheService: DidResolutionCacheService
+  ) {
     this.logger = agentConfig.logger
-
-    this.resolvers = [
-      new SovDidResolver(indyLedgerService),
-      new WebDidResolver(),
-      new KeyDidResolver(),
-      new PeerDidResolver(didRepository),
-    ]
+    this.resolvers = resolvers
+    this.cacheService = cacheService
   }
 
   public async resolve(didUrl: string, options: DidResolutionOptions = {}): Promise<DidResolutionResult> {
@@ -56,7 +67,193 @@ export class DidResolverService {
       }
     }
 
-    return resolver.resolve(parsed.did, parsed, options)
+    if ((options.versionId || options.versionTime) && !resolver.supportsVersionedResolution) {
+      return {
+        ...result,
+        didResolutionMetadata: {
+          error: 'invalidOptions',
+          message: `Resolving a specific version of a did document is not supported for did method '${parsed.method}'`,
+        },
+      }
+    }
+
+    // Versioned resolution results are not cached, as the cache only holds the latest version of a did document
+    const isCacheable = this.cacheService.isCacheable(parsed.method) && !options.versionId && !options.versionTime
+
+    if (isCacheable && !options.noCache) {
+      const cachedResult = await this.cacheService.get(parsed.did)
+      if (cachedResult) return cachedResult
+    }
+
+    const resolutionResult = await resolver.resolve(parsed.did, parsed, options)
+
+    if (isCacheable && resolutionResult.didDocument && !resolutionResult.didResolutionMetadata.error) {
+      await this.cacheService.set(parsed.did, parsed.method, resolutionResult)
+    }
+
+    return resolutionResult
+  }
+
+  /**
+   * Dereference a did url following the DID URL dereferencing algorithm from the did core spec. Supported are:
+   *  - did urls without path or fragment, which dereference to the did document
+   *  - did urls with a fragment (`did:example:123#key-1`), which dereference to the verification method or service
+   *    with that id
+   *  - the `service` and `relativeRef` query parameters (`did:example:123?service=agent&relativeRef=/path`), which
+   *    dereference to the service endpoint url of the service
+   *  - the `versionId` and `versionTime` query parameters, for did methods that support versioned resolution
+   *
+   * Errors are returned in the `dereferencingMetadata` of the result, they are not thrown.
+   */
+  public async dereference(didUrl: string, options: DidDereferencingOptions = {}): Promise<DidDereferencingResult> {
+    this.logger.debug(`dereferencing didUrl ${didUrl}`)
+
+    const result = {
+      dereferencingMetadata: {},
+      contentStream: null,
+      contentMetadata: {},
+    }
+
+    let parsed: ParsedDid
+    try {
+      parsed = parseDid(didUrl)
+    } catch (error) {
+      return {
+        ...result,
+        dereferencingMetadata: { error: 'invalidDidUrl' },
+      }
+    }
+
+    const query = parse(parsed.query ?? '')
+    const getQueryParameter = (name: string) => {
+      const value = query[name]
+      return typeof value === 'string' ? value : undefined
+    }
+
+    const resolutionOptions: DidResolutionOptions = { ...options }
+    const versionId = getQueryParameter('versionId')
+    const versionTime = getQueryParameter('versionTime')
+    if (versionId) resolutionOptions.versionId = versionId
+    if (versionTime) resolutionOptions.versionTime = versionTime
+
+    const { didDocument, didDocumentMetadata, didResolutionMetadata } = await this.resolve(
+      parsed.did,
+      resolutionOptions
+    )
+
+    if (!didDocument) {
+      return {
+        ...result,
+        dereferencingMetadata: {
+          error: didResolutionMetadata.error ?? 'notFound',
+          message: didResolutionMetadata.message,
+        },
+      }
+    }
+
+    const serviceId = getQueryParameter('service')
+    if (serviceId) {
+      const service = findServiceById(didDocument, serviceId)
+      if (!service) {
+        return {
+          ...result,
+          contentMetadata: didDocumentMetadata,
+          dereferencingMetadata: { error: 'notFound', message: `Service with id '${serviceId}' not found` },
+        }
+      }
+
+      const relativeRef = getQueryParameter('relativeRef')
+      let serviceEndpoint = relativeRef
+        ? joinServiceEndpoint(service.serviceEndpoint, relativeRef)
+        : service.serviceEndpoint
+      if (parsed.fragment) serviceEndpoint = `${serviceEndpoint}#${parsed.fragment}`
+
+      return {
+        dereferencingMetadata: { contentType: 'text/uri-list' },
+        contentStream: { type: 'serviceEndpoint', serviceEndpoint },
+        contentMetadata: didDocumentMetadata,
+      }
+    }
+
+    if (parsed.fragment) {
+      const id = `${didDocument.id}#${parsed.fragment}`
+
+      const verificationMethod = findVerificationMethodById(didDocument, id)
+      if (verificationMethod) {
+        return {
+          dereferencingMetadata: { contentType: 'application/did+ld+json' },
+          contentStream: { type: 'verificationMethod', verificationMethod },
+          contentMetadata: didDocumentMetadata,
+        }
+      }
+
+      const service = findServiceById(didDocument, id)
+      if (service) {
+        return {
+          dereferencingMetadata: { contentType: 'application/did+ld+json' },
+          contentStream: { type: 'service', service },
+          contentMetadata: didDocumentMetadata,
+        }
+      }
+
+      return {
+        ...result,
+        contentMetadata: didDocumentMetadata,
+        dereferencingMetadata: {
+          error: 'notFound',
+          message: `Verification method or service with id '${id}' not found`,
+        },
+      }
+    }
+
+    if (parsed.path) {
+      return {
+        ...result,
+        contentMetadata: didDocumentMetadata,
+        dereferencingMetadata: { error: 'notFound', message: 'Dereferencing did urls with a path is not supported' },
+      }
+    }
+
+    return {
+      dereferencingMetadata: { contentType: 'application/did+ld+json' },
+      contentStream: { type: 'didDocument', didDocument },
+      contentMetadata: didDocumentMetadata,
+    }
+  }
+
+  /**
+   * Dereference a did url that references a verification method, e.g. `did:key:z6Mk...#z6Mk...`.
+   *
+   * @throws {AriesFrameworkError} if the did url does not dereference to a verification method
+   */
+  public async dereferenceVerificationMethod(didUrl: string): Promise<VerificationMethod> {
+    const {
+      contentStream,
+      dereferencingMetadata: { error, message },
+    } = await this.dereference(didUrl)
+
+    if (contentStream?.type !== 'verificationMethod') {
+      throw new AriesFrameworkError(
+        `Unable to dereference verification method '${didUrl}': ${
+          error ? `${error} ${message}` : 'did url does not reference a verification method'
+        }`
+      )
+    }
+
+    return contentStream.verificationMethod
+  }
+
+  /**
+   * Dereference a key reference (a did url that references a verification method) to the key of the verification
+   * method.
+   *
+   * @throws {AriesFrameworkError} if the did url does not dereference to a verification method
+   */
+  public async dereferenceKey(didUrl: string) {
+    const verificationMethod = await this.dereferenceVerificationMethod(didUrl)
+    const { getKeyFromVerificationMethod } = getKeyDidMappingByVerificationMethod(verificationMethod)
+
+    return getKeyFromVerificationMethod(verificationMethod)
   }
 
   public async resolveDidDocument(did: string) {
@@ -75,3 +272,57 @@ export class DidResolverService {
     return this.resolvers.find((r) => r.supportedMethods.includes(parsed.method)) ?? null
   }
 }
+
+/**
+ * Ids in did documents can be relative to the did of the document (`#key-1`)
+ */
+function toAbsoluteId(didDocument: DidDocument, id: string) {
+  return id.startsWith('#') ? `${didDocument.id}${id}` : id
+}
+
+function findVerificationMethodById(didDocument: DidDocument, id: string): VerificationMethod | undefined {
+  // Verification methods can also be embedded in one of the verification relationships
+  const verificationMethods = [
+    ...(didDocument.verificationMethod ?? []),
+    ...(didDocument.authentication ?? []),
+    ...(didDocument.assertionMethod ?? []),
+    ...(didDocument.keyAgreement ?? []),
+    ...(didDocument.capabilityInvocation ?? []),
+    ...(didDocument.capabilityDelegation ?? []),
+  ]
+
+  return verificationMethods.find(
+    (verificationMethod): verificationMethod is VerificationMethod =>
+      typeof verificationMethod !== 'string' && toAbsoluteId(didDocument, verificationMethod.id) === id
+  )
+}
+
+/**
+ * Find a service by its absolute id, relative id (`#agent`) or the fragment of its id (`agent`) as used in the
+ * `service` query parameter.
+ */
+function findServiceById(didDocument: DidDocument, serviceId: string): DidDocumentService | undefined {
+  const absoluteServiceId = serviceId.startsWith('did:')
+    ? serviceId
+    : toAbsoluteId(didDocument, serviceId.startsWith('#') ? serviceId : `#${serviceId}`)
+
+  return didDocument.service?.find(
+    (service) => service.id === serviceId || toAbsoluteId(didDocument, service.id) === absoluteServiceId
+  )
+}
+
+/**
+ * Append the `relativeRef` query parameter to a service endpoint. As in the examples of the did core spec, the path
+ * of the relative reference is appended to the path of the service endpoint.
+ */
+function joinServiceEndpoint(serviceEndpoint: string, relativeRef: string) {
+  if (serviceEndpoint.endsWith('/') && relativeRef.startsWith('/')) {
+    return `${serviceEndpoint}${relativeRef.substring(1)}`
+  }
+
+  if (!serviceEndpoint.endsWith('/') && !relativeRef.startsWith('/') && !/^[?#]/.test(relativeRef)) {
+    return `${serviceEndpoint}/${relativeRef}`
+  }
+
+  return `${serviceEndpoint}${relativeRef}`
+}
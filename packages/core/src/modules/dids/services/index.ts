@@ -1 +1,3 @@
 export * from './DidResolverService'
+export * from './DidRegistrarService'
+export * from './DidResolutionCacheService'
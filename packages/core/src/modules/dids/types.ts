@@ -1,8 +1,28 @@
-import type { DidDocument } from './domain'
+import type { DidDocument, DidDocumentService, VerificationMethod } from './domain'
 import type { DIDResolutionOptions, ParsedDID, DIDDocumentMetadata, DIDResolutionMetadata } from 'did-resolver'
 
 export type ParsedDid = ParsedDID
-export type DidResolutionOptions = DIDResolutionOptions
+
+export interface DidResolutionOptions extends DIDResolutionOptions {
+  /**
+   * Resolve a specific version of the did document. Only supported by did methods that keep the history of the did
+   * document.
+   */
+  versionId?: string
+
+  /**
+   * Resolve the version of the did document that was valid at the given time (XML datetime, e.g.
+   * `2022-01-01T00:00:00Z`). Only supported by did methods that keep the history of the did document.
+   */
+  versionTime?: string
+
+  /**
+   * Bypass the did resolution cache. The did is always resolved using the did method, and the cached result (if any)
+   * is replaced with the new result.
+   */
+  noCache?: boolean
+}
+
 export type DidDocumentMetadata = DIDDocumentMetadata
 
 export interface DidResolutionMetadata extends DIDResolutionMetadata {
@@ -14,3 +34,88 @@ export interface DidResolutionResult {
   didDocument: DidDocument | null
   didDocumentMetadata: DidDocumentMetadata
 }
+
+export type DidDereferencingOptions = DidResolutionOptions
+
+export interface DidDereferencingMetadata {
+  contentType?: string
+  error?: 'invalidDidUrl' | 'notFound' | string
+  message?: string
+}
+
+/**
+ * The resource a DID URL dereferences to. A DID URL without fragment dereferences to the did document, or to a
+ * service endpoint url if the `service` query parameter is used. A DID URL with a fragment dereferences to the
+ * verification method or service with the id of the fragment.
+ */
+export type DidDereferencedResource =
+  | { type: 'didDocument'; didDocument: DidDocument }
+  | { type: 'verificationMethod'; verificationMethod: VerificationMethod }
+  | { type: 'service'; service: DidDocumentService }
+  | { type: 'serviceEndpoint'; serviceEndpoint: string }
+
+export interface DidDereferencingResult<Resource extends DidDereferencedResource = DidDereferencedResource> {
+  dereferencingMetadata: DidDereferencingMetadata
+  contentStream: Resource | null
+  contentMetadata: DidDocumentMetadata
+}
+
+export type DidRegistrationExtraOptions = Record<string, unknown>
+export type DidRegistrationSecretOptions = Record<string, unknown>
+export type DidRegistrationMetadata = Record<string, unknown>
+export type DidDeactivationMetadata = Record<string, unknown>
+
+export interface DidOperationStateFinished {
+  state: 'finished'
+  did: string
+  secret?: DidRegistrationSecretOptions
+  didDocument: DidDocument
+}
+
+export interface DidOperationStateFailed {
+  state: 'failed'
+  did?: string
+  secret?: DidRegistrationSecretOptions
+  didDocument?: DidDocument
+  reason: string
+}
+
+export interface DidCreateOptions {
+  method?: string
+  did?: string
+  options?: DidRegistrationExtraOptions
+  secret?: DidRegistrationSecretOptions
+  didDocument?: DidDocument
+}
+
+export interface DidCreateResult {
+  didState: DidOperationStateFinished | DidOperationStateFailed
+  didRegistrationMetadata: DidRegistrationMetadata
+  didDocumentMetadata: DidResolutionMetadata
+}
+
+export interface DidUpdateOptions {
+  did: string
+  options?: DidRegistrationExtraOptions
+  secret?: DidRegistrationSecretOptions
+  didDocumentOperation?: 'setDidDocument' | 'addToDidDocument' | 'removeFromDidDocument'
+  didDocument: DidDocument | Partial<DidDocument>
+}
+
+export interface DidUpdateResult {
+  didState: DidOperationStateFinished | DidOperationStateFailed
+  didRegistrationMetadata: DidRegistrationMetadata
+  didDocumentMetadata: DidResolutionMetadata
+}
+
+export interface DidDeactivateOptions {
+  did: string
+  options?: DidRegistrationExtraOptions
+  secret?: DidRegistrationSecretOptions
+}
+
+export interface DidDeactivateResult {
+  didState: DidOperationStateFinished | DidOperationStateFailed
+  didRegistrationMetadata: DidRegistrationMetadata
+  didDocumentMetadata: DidResolutionMetadata
+}
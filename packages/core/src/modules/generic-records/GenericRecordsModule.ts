@@ -1,10 +1,12 @@
 import type { Logger } from '../../logger'
 import type { DependencyManager } from '../../plugins'
-import type { GenericRecord, GenericRecordTags, SaveGenericRecordOption } from './repository/GenericRecord'
+import type { QueryOptions } from '../../storage/StorageService'
+import type { GenericRecordTags, SaveGenericRecordOption } from './repository/GenericRecord'
 
 import { AgentConfig } from '../../agent/AgentConfig'
 import { injectable, module } from '../../plugins'
 
+import { GenericRecord } from './repository/GenericRecord'
 import { GenericRecordsRepository } from './repository/GenericRecordsRepository'
 import { GenericRecordService } from './service/GenericRecordService'
 
@@ -74,12 +76,15 @@ export class GenericRecordsModule {
     return this.genericRecordsService.findById(id)
   }
 
-  public async findAllByQuery(query: Partial<GenericRecordTags>): Promise<GenericRecord[]> {
-    return this.genericRecordsService.findAllByQuery(query)
+  public async findAllByQuery(
+    query: Partial<GenericRecordTags>,
+    queryOptions?: QueryOptions
+  ): Promise<GenericRecord[]> {
+    return this.genericRecordsService.findAllByQuery(query, queryOptions)
   }
 
-  public async getAll(): Promise<GenericRecord[]> {
-    return this.genericRecordsService.getAll()
+  public async getAll(queryOptions?: QueryOptions): Promise<GenericRecord[]> {
+    return this.genericRecordsService.getAll(queryOptions)
   }
 
   /**
@@ -94,5 +99,8 @@ export class GenericRecordsModule {
 
     // Repositories
     dependencyManager.registerSingleton(GenericRecordsRepository)
+
+    // Records
+    dependencyManager.registerRecordClasses(GenericRecord)
   }
 }
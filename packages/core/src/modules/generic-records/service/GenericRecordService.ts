@@ -1,3 +1,4 @@
+import type { QueryOptions } from '../../../storage/StorageService'
 import type { GenericRecordTags, SaveGenericRecordOption } from '../repository/GenericRecord'
 
 import { AriesFrameworkError } from '../../../error'
@@ -50,15 +51,15 @@ export class GenericRecordService {
     }
   }
 
-  public async findAllByQuery(query: Partial<GenericRecordTags>) {
-    return this.genericRecordsRepository.findByQuery(query)
+  public async findAllByQuery(query: Partial<GenericRecordTags>, queryOptions?: QueryOptions) {
+    return this.genericRecordsRepository.findByQuery(query, queryOptions)
   }
 
   public async findById(id: string): Promise<GenericRecord | null> {
     return this.genericRecordsRepository.findById(id)
   }
 
-  public async getAll() {
-    return this.genericRecordsRepository.getAll()
+  public async getAll(queryOptions?: QueryOptions) {
+    return this.genericRecordsRepository.getAll(queryOptions)
   }
 }
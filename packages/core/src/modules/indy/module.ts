@@ -1,19 +1,85 @@
 import type { DependencyManager } from '../../plugins'
 
-import { module } from '../../plugins'
+import { InjectionSymbols } from '../../constants'
+import { injectable, module } from '../../plugins'
+import { IndyStorageService } from '../../storage/IndyStorageService'
+import { IndyWallet } from '../../wallet/IndyWallet'
 
-import { IndyRevocationService, IndyUtilitiesService } from './services'
+import { IndyRevocationRegistryRepository, IndyRevocationRegistryRecord } from './repository'
+import { IndyRevocationRegistryService, IndyRevocationService, IndyUtilitiesService } from './services'
 import { IndyHolderService } from './services/IndyHolderService'
 import { IndyIssuerService } from './services/IndyIssuerService'
 import { IndyVerifierService } from './services/IndyVerifierService'
 
+/**
+ * Indy services used by the credentials, proofs and ledger modules. The indy wallet and storage service are registered
+ * as the wallet and storage service of the agent, unless another wallet or storage service is already registered in
+ * the injection container of the agent.
+ */
 @module()
+@injectable()
 export class IndyModule {
+  private indyRevocationRegistryRepository: IndyRevocationRegistryRepository
+
+  public constructor(indyRevocationRegistryRepository: IndyRevocationRegistryRepository) {
+    this.indyRevocationRegistryRepository = indyRevocationRegistryRepository
+  }
+
+  /**
+   * Retrieve all revocation registries created by the agent as issuer
+   *
+   * @returns List containing all revocation registry records
+   */
+  public getAllRevocationRegistries() {
+    return this.indyRevocationRegistryRepository.getAll()
+  }
+
+  /**
+   * Retrieve a revocation registry created by the agent as issuer by the id of the revocation registry definition
+   *
+   * @param revocationRegistryId the id of the revocation registry definition
+   * @throws {RecordNotFoundError} If no record is found
+   * @return The revocation registry record
+   */
+  public getRevocationRegistryById(revocationRegistryId: string) {
+    return this.indyRevocationRegistryRepository.getById(revocationRegistryId)
+  }
+
+  /**
+   * Find the revocation registry of a credential definition that is used for newly issued credentials
+   *
+   * @param credentialDefinitionId the id of the credential definition
+   * @returns The revocation registry record or null if the credential definition has no revocation registry that
+   * is not full
+   */
+  public findActiveRevocationRegistry(credentialDefinitionId: string) {
+    return this.indyRevocationRegistryRepository.findActiveByCredentialDefinitionId(credentialDefinitionId)
+  }
+
+  /**
+   * Registers the dependencies of the indy module on the dependency manager.
+   */
   public static register(dependencyManager: DependencyManager) {
+    // Api
+    dependencyManager.registerContextScoped(IndyModule)
+
+    if (!dependencyManager.isRegistered(InjectionSymbols.Wallet)) {
+      dependencyManager.registerSingleton(IndyWallet)
+      const wallet = dependencyManager.resolve(IndyWallet)
+      dependencyManager.registerInstance(InjectionSymbols.Wallet, wallet)
+    }
+    if (!dependencyManager.isRegistered(InjectionSymbols.StorageService)) {
+      dependencyManager.registerSingleton(InjectionSymbols.StorageService, IndyStorageService)
+    }
+
     dependencyManager.registerSingleton(IndyIssuerService)
     dependencyManager.registerSingleton(IndyHolderService)
     dependencyManager.registerSingleton(IndyVerifierService)
     dependencyManager.registerSingleton(IndyRevocationService)
     dependencyManager.registerSingleton(IndyUtilitiesService)
+    dependencyManager.registerSingleton(IndyRevocationRegistryService)
+
+    dependencyManager.registerSingleton(IndyRevocationRegistryRepository)
+    dependencyManager.registerRecordClasses(IndyRevocationRegistryRecord)
   }
 }
@@ -0,0 +1,74 @@
+import type { TagsBase } from '../../../storage/BaseRecord'
+import type { RevocRegDef, RevocRegDelta } from 'indy-sdk'
+
+import { BaseRecord } from '../../../storage/BaseRecord'
+
+export interface IndyRevocationRegistryRecordProps {
+  createdAt?: Date
+  tags?: TagsBase
+
+  revocationRegistryDefinition: RevocRegDef
+  tailsFilePath: string
+  issuedCredentialCount?: number
+  pendingCredentialRevocationIds?: string[]
+  pendingRevocationRegistryDelta?: RevocRegDelta
+}
+
+export type DefaultIndyRevocationRegistryTags = {
+  credentialDefinitionId: string
+  isFull: boolean
+  hasPendingRevocations: boolean
+}
+
+/**
+ * A revocation registry created by the agent as issuer. The id of the record is the id of the revocation registry
+ * definition.
+ */
+export class IndyRevocationRegistryRecord extends BaseRecord<DefaultIndyRevocationRegistryTags> {
+  public revocationRegistryDefinition!: RevocRegDef
+  public tailsFilePath!: string
+  public issuedCredentialCount!: number
+
+  // Revocations that are stored in the wallet, but are not published to the ledger yet
+  public pendingCredentialRevocationIds!: string[]
+  public pendingRevocationRegistryDelta?: RevocRegDelta
+
+  public static readonly type = 'IndyRevocationRegistryRecord'
+  public readonly type = IndyRevocationRegistryRecord.type
+
+  public constructor(props: IndyRevocationRegistryRecordProps) {
+    super()
+
+    if (props) {
+      this.id = props.revocationRegistryDefinition.id
+      this.createdAt = props.createdAt ?? new Date()
+      this._tags = props.tags ?? {}
+      this.revocationRegistryDefinition = props.revocationRegistryDefinition
+      this.tailsFilePath = props.tailsFilePath
+      this.issuedCredentialCount = props.issuedCredentialCount ?? 0
+      this.pendingCredentialRevocationIds = props.pendingCredentialRevocationIds ?? []
+      this.pendingRevocationRegistryDelta = props.pendingRevocationRegistryDelta
+    }
+  }
+
+  public get credentialDefinitionId() {
+    return this.revocationRegistryDefinition.credDefId
+  }
+
+  public get isFull() {
+    return this.issuedCredentialCount >= this.revocationRegistryDefinition.value.maxCredNum
+  }
+
+  public get hasPendingRevocations() {
+    return this.pendingRevocationRegistryDelta !== undefined
+  }
+
+  public getTags() {
+    return {
+      ...this._tags,
+      credentialDefinitionId: this.credentialDefinitionId,
+      isFull: this.isFull,
+      hasPendingRevocations: this.hasPendingRevocations,
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { EventEmitter } from '../../../agent/EventEmitter'
+import { InjectionSymbols } from '../../../constants'
+import { inject, injectable } from '../../../plugins'
+import { Repository } from '../../../storage/Repository'
+import { StorageService } from '../../../storage/StorageService'
+
+import { IndyRevocationRegistryRecord } from './IndyRevocationRegistryRecord'
+
+@injectable()
+export class IndyRevocationRegistryRepository extends Repository<IndyRevocationRegistryRecord> {
+  public constructor(
+    @inject(InjectionSymbols.StorageService) storageService: StorageService<IndyRevocationRegistryRecord>,
+    eventEmitter: EventEmitter
+  ) {
+    super(IndyRevocationRegistryRecord, storageService, eventEmitter)
+  }
+
+  /**
+   * Find a revocation registry of the credential definition that can still be used to issue credentials.
+   */
+  public async findActiveByCredentialDefinitionId(credentialDefinitionId: string) {
+    const revocationRegistryRecords = await this.findByQuery({ credentialDefinitionId, isFull: false })
+
+    return revocationRegistryRecords[0] ?? null
+  }
+
+  public findWithPendingRevocations() {
+    return this.findByQuery({ hasPendingRevocations: true })
+  }
+}
@@ -0,0 +1,2 @@
+export * from './IndyRevocationRegistryRecord'
+export * from './IndyRevocationRegistryRepository'
@@ -9,6 +9,8 @@ import type {
   CredReq,
   CredRevocId,
   CredValues,
+  RevocRegDef,
+  RevocRegDelta,
 } from 'indy-sdk'
 
 import { AgentConfig } from '../../../agent/AgentConfig'
@@ -106,13 +108,15 @@ export class IndyIssuerService {
     tailsFilePath,
   }: CreateCredentialOptions): Promise<[Cred, CredRevocId]> {
     try {
-      // Indy SDK requires tailsReaderHandle. Use null if no tailsFilePath is present
-      const tailsReaderHandle = tailsFilePath ? await this.indyUtilitiesService.createTailsReader(tailsFilePath) : 0
-
-      if (revocationRegistryId || tailsFilePath) {
-        throw new AriesFrameworkError('Revocation not supported yet')
+      if ((revocationRegistryId && !tailsFilePath) || (!revocationRegistryId && tailsFilePath)) {
+        throw new AriesFrameworkError(
+          'Both revocationRegistryId and tailsFilePath must be provided to issue a revocable credential'
+        )
       }
 
+      // Indy SDK requires tailsReaderHandle. Use 0 if no tailsFilePath is present
+      const tailsReaderHandle = tailsFilePath ? await this.indyUtilitiesService.createTailsReader(tailsFilePath) : 0
+
       const [credential, credentialRevocationId] = await this.indy.issuerCreateCredential(
         this.wallet.handle,
         credentialOffer,
@@ -127,6 +131,97 @@ export class IndyIssuerService {
       throw isIndyError(error) ? new IndySdkError(error) : error
     }
   }
+
+  /**
+   * Create a new revocation registry for a credential definition and store it in the wallet. The tails file of the
+   * revocation registry is written to the tails directory of the FileSystem.
+   *
+   * Revocation registries are always created with issuance type `ISSUANCE_BY_DEFAULT`, so issuing a credential
+   * doesn't require an update of the revocation registry on the ledger.
+   *
+   * @returns the revocation registry definition, the initial revocation registry entry and the path of the tails file.
+   */
+  public async createRevocationRegistry({
+    issuerDid,
+    credentialDefinitionId,
+    tag = 'default',
+    maximumCredentialNumber = 1000,
+  }: CreateRevocationRegistryOptions): Promise<CreateRevocationRegistryReturn> {
+    try {
+      const tailsDirectoryPath = this.indyUtilitiesService.tailsDirectoryPath
+      const tailsWriter = await this.indy.openBlobStorageWriter('default', {
+        base_dir: tailsDirectoryPath,
+        uri_pattern: '',
+      })
+
+      const [, revocationRegistryDefinition, revocationRegistryEntry] = await this.indy.issuerCreateAndStoreRevocReg(
+        this.wallet.handle,
+        issuerDid,
+        'CL_ACCUM',
+        tag,
+        credentialDefinitionId,
+        {
+          issuance_type: 'ISSUANCE_BY_DEFAULT',
+          max_cred_num: maximumCredentialNumber,
+        },
+        tailsWriter
+      )
+
+      const tailsFilePath = `${tailsDirectoryPath}/${revocationRegistryDefinition.value.tailsHash}`
+      if (!(await this.fileSystem.exists(tailsFilePath))) {
+        throw new AriesFrameworkError(
+          `Tails file of revocation registry '${revocationRegistryDefinition.id}' was not written to path ${tailsFilePath}`
+        )
+      }
+
+      return { revocationRegistryDefinition, revocationRegistryEntry, tailsFilePath }
+    } catch (error) {
+      throw isIndyError(error) ? new IndySdkError(error) : error
+    }
+  }
+
+  /**
+   * Revoke a credential in a revocation registry stored in the wallet. The revocation is only known to the
+   * verifiers after the returned revocation registry delta is published to the ledger.
+   *
+   * @returns the revocation registry delta containing the revocation.
+   */
+  public async revokeCredential({
+    revocationRegistryId,
+    credentialRevocationId,
+    tailsFilePath,
+  }: RevokeCredentialOptions): Promise<RevocRegDelta> {
+    try {
+      const tailsReaderHandle = await this.indyUtilitiesService.createTailsReader(tailsFilePath)
+
+      return await this.indy.issuerRevokeCredential(
+        this.wallet.handle,
+        tailsReaderHandle,
+        revocationRegistryId,
+        credentialRevocationId
+      )
+    } catch (error) {
+      throw isIndyError(error) ? new IndySdkError(error) : error
+    }
+  }
+
+  /**
+   * Merge two revocation registry deltas of the same revocation registry into a single delta.
+   *
+   * @param revocationRegistryDelta The earlier revocation registry delta
+   * @param otherRevocationRegistryDelta The later revocation registry delta
+   * @returns the merged revocation registry delta
+   */
+  public async mergeRevocationRegistryDeltas(
+    revocationRegistryDelta: RevocRegDelta,
+    otherRevocationRegistryDelta: RevocRegDelta
+  ): Promise<RevocRegDelta> {
+    try {
+      return await this.indy.issuerMergeRevocationRegistryDeltas(revocationRegistryDelta, otherRevocationRegistryDelta)
+    } catch (error) {
+      throw isIndyError(error) ? new IndySdkError(error) : error
+    }
+  }
 }
 
 export interface CreateCredentialDefinitionOptions {
@@ -145,6 +240,25 @@ export interface CreateCredentialOptions {
   tailsFilePath?: string
 }
 
+export interface CreateRevocationRegistryOptions {
+  issuerDid: string
+  credentialDefinitionId: string
+  tag?: string
+  maximumCredentialNumber?: number
+}
+
+export interface CreateRevocationRegistryReturn {
+  revocationRegistryDefinition: RevocRegDef
+  revocationRegistryEntry: RevocRegDelta
+  tailsFilePath: string
+}
+
+export interface RevokeCredentialOptions {
+  revocationRegistryId: string
+  credentialRevocationId: string
+  tailsFilePath: string
+}
+
 export interface CreateSchemaOptions {
   originDid: string
   name: string
@@ -0,0 +1,168 @@
+import type { Logger } from '../../../logger'
+import type { RevocationRegistryDefinitionTemplate } from '../../ledger/services/IndyLedgerService'
+
+import { AgentConfig } from '../../../agent/AgentConfig'
+import { AriesFrameworkError } from '../../../error/AriesFrameworkError'
+import { injectable } from '../../../plugins'
+import { didFromRevocationRegistryDefinitionId } from '../../../utils/did'
+import { IndyLedgerService } from '../../ledger/services/IndyLedgerService'
+import { IndyRevocationRegistryRecord, IndyRevocationRegistryRepository } from '../repository'
+
+import { IndyIssuerService } from './IndyIssuerService'
+
+/**
+ * Manages the revocation registries created by the agent as issuer. Revocations are stored in the wallet straight
+ * away, but are only published to the ledger in batches using {@link IndyRevocationRegistryService.publishRevocations}.
+ */
+@injectable()
+export class IndyRevocationRegistryService {
+  private indyIssuerService: IndyIssuerService
+  private ledgerService: IndyLedgerService
+  private indyRevocationRegistryRepository: IndyRevocationRegistryRepository
+  private logger: Logger
+
+  public constructor(
+    agentConfig: AgentConfig,
+    indyIssuerService: IndyIssuerService,
+    ledgerService: IndyLedgerService,
+    indyRevocationRegistryRepository: IndyRevocationRegistryRepository
+  ) {
+    this.indyIssuerService = indyIssuerService
+    this.ledgerService = ledgerService
+    this.indyRevocationRegistryRepository = indyRevocationRegistryRepository
+    this.logger = agentConfig.logger
+  }
+
+  /**
+   * Create a new revocation registry for a credential definition and register it on the ledger. Credentials
+   * issued for the credential definition will be revocable using the new revocation registry, until the maximum
+   * number of credentials for the revocation registry has been issued.
+   *
+   * @param did The did of the issuer, must be the did that created the credential definition
+   * @param revocationRegistryDefinitionTemplate The template for the revocation registry
+   * @returns The created revocation registry record
+   */
+  public async createRevocationRegistry(
+    did: string,
+    revocationRegistryDefinitionTemplate: RevocationRegistryDefinitionTemplate
+  ) {
+    const { revocationRegistryDefinition, tailsFilePath } =
+      await this.ledgerService.registerRevocationRegistryDefinition(did, revocationRegistryDefinitionTemplate)
+
+    const revocationRegistryRecord = new IndyRevocationRegistryRecord({
+      revocationRegistryDefinition,
+      tailsFilePath,
+    })
+    await this.indyRevocationRegistryRepository.save(revocationRegistryRecord)
+
+    return revocationRegistryRecord
+  }
+
+  /**
+   * Find a revocation registry of the credential definition that can still be used to issue credentials.
+   */
+  public async findActiveRevocationRegistry(credentialDefinitionId: string) {
+    return this.indyRevocationRegistryRepository.findActiveByCredentialDefinitionId(credentialDefinitionId)
+  }
+
+  /**
+   * Register that a credential was issued using the revocation registry, so the revocation registry is not used
+   * anymore once it is full.
+   */
+  public async markCredentialIssued(revocationRegistryRecord: IndyRevocationRegistryRecord) {
+    revocationRegistryRecord.issuedCredentialCount += 1
+
+    if (revocationRegistryRecord.isFull) {
+      this.logger.info(
+        `Revocation registry '${revocationRegistryRecord.id}' is full. A new revocation registry must be created to issue revocable credentials for credential definition '${revocationRegistryRecord.credentialDefinitionId}'`
+      )
+    }
+
+    await this.indyRevocationRegistryRepository.update(revocationRegistryRecord)
+  }
+
+  /**
+   * Revoke a credential. The revocation is stored as pending revocation of the revocation registry, and
+   * is only known to verifiers after it is published using {@link IndyRevocationRegistryService.publishRevocations}.
+   *
+   * @param revocationRegistryId The id of the revocation registry the credential was issued with
+   * @param credentialRevocationId The revocation id of the credential in the revocation registry
+   * @returns The updated revocation registry record
+   */
+  public async revokeCredential(revocationRegistryId: string, credentialRevocationId: string) {
+    const revocationRegistryRecord = await this.getRevocationRegistry(revocationRegistryId)
+
+    if (revocationRegistryRecord.pendingCredentialRevocationIds.includes(credentialRevocationId)) {
+      throw new AriesFrameworkError(
+        `Credential with revocation id '${credentialRevocationId}' is already revoked in revocation registry '${revocationRegistryId}'`
+      )
+    }
+
+    const revocationRegistryDelta = await this.indyIssuerService.revokeCredential({
+      revocationRegistryId,
+      credentialRevocationId,
+      tailsFilePath: revocationRegistryRecord.tailsFilePath,
+    })
+
+    // Combine with the revocations that were not published yet, so all pending revocations are published in a single entry
+    revocationRegistryRecord.pendingRevocationRegistryDelta = revocationRegistryRecord.pendingRevocationRegistryDelta
+      ? await this.indyIssuerService.mergeRevocationRegistryDeltas(
+          revocationRegistryRecord.pendingRevocationRegistryDelta,
+          revocationRegistryDelta
+        )
+      : revocationRegistryDelta
+    revocationRegistryRecord.pendingCredentialRevocationIds.push(credentialRevocationId)
+
+    await this.indyRevocationRegistryRepository.update(revocationRegistryRecord)
+
+    return revocationRegistryRecord
+  }
+
+  /**
+   * Publish the pending revocations of revocation registries to the ledger. All pending revocations of a
+   * revocation registry are published as a single revocation registry entry.
+   *
+   * @param revocationRegistryId The revocation registry to publish the pending revocations for. If not provided, the
+   * pending revocations of all revocation registries are published.
+   * @returns The revocation registry records for which revocations were published
+   */
+  public async publishRevocations(revocationRegistryId?: string) {
+    const revocationRegistryRecords = revocationRegistryId
+      ? [await this.getRevocationRegistry(revocationRegistryId)]
+      : await this.indyRevocationRegistryRepository.findWithPendingRevocations()
+
+    const publishedRevocationRegistryRecords: IndyRevocationRegistryRecord[] = []
+    for (const revocationRegistryRecord of revocationRegistryRecords) {
+      const { pendingRevocationRegistryDelta, pendingCredentialRevocationIds } = revocationRegistryRecord
+      if (!pendingRevocationRegistryDelta) continue
+
+      this.logger.debug(
+        `Publishing ${pendingCredentialRevocationIds.length} pending revocations of revocation registry '${revocationRegistryRecord.id}'`
+      )
+
+      await this.ledgerService.registerRevocationRegistryEntry(
+        didFromRevocationRegistryDefinitionId(revocationRegistryRecord.id),
+        revocationRegistryRecord.id,
+        pendingRevocationRegistryDelta
+      )
+
+      revocationRegistryRecord.pendingRevocationRegistryDelta = undefined
+      revocationRegistryRecord.pendingCredentialRevocationIds = []
+      await this.indyRevocationRegistryRepository.update(revocationRegistryRecord)
+
+      publishedRevocationRegistryRecords.push(revocationRegistryRecord)
+    }
+
+    return publishedRevocationRegistryRecords
+  }
+
+  private async getRevocationRegistry(revocationRegistryId: string) {
+    const revocationRegistryRecord = await this.indyRevocationRegistryRepository.findById(revocationRegistryId)
+
+    if (!revocationRegistryRecord) {
+      throw new AriesFrameworkError(`Revocation registry '${revocationRegistryId}' was not created by this agent`)
+    }
+
+    return revocationRegistryRecord
+  }
+}
@@ -21,6 +21,14 @@ export class IndyUtilitiesService {
     this.fileSystem = agentConfig.fileSystem
   }
 
+  /**
+   * The directory in the FileSystem where tails files are stored. This is used for both downloaded tails files
+   * and tails files of revocation registries created by the agent. Tails files are named by their hash.
+   */
+  public get tailsDirectoryPath() {
+    return `${this.fileSystem.basePath}/afj/tails`
+  }
+
   /**
    * Get a handler for the blob storage tails file reader.
    *
@@ -58,7 +66,7 @@ export class IndyUtilitiesService {
   public async downloadTails(hash: string, tailsLocation: string): Promise<BlobReaderHandle> {
     try {
       this.logger.debug(`Checking to see if tails file for URL ${tailsLocation} has been stored in the FileSystem`)
-      const filePath = `${this.fileSystem.basePath}/afj/tails/${hash}`
+      const filePath = `${this.tailsDirectoryPath}/${hash}`
 
       const tailsExists = await this.fileSystem.exists(filePath)
       this.logger.debug(`Tails file for ${tailsLocation} ${tailsExists ? 'is stored' : 'is not stored'} at ${filePath}`)
@@ -22,4 +22,10 @@ export const IndyIssuerService = jest.fn(() => ({
       key_correctness_proof: {},
     })
   ),
+
+  createRevocationRegistry: jest.fn(),
+
+  revokeCredential: jest.fn(),
+
+  mergeRevocationRegistryDeltas: jest.fn(),
 }))
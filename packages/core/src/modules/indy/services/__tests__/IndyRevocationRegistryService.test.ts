@@ -0,0 +1,215 @@
+import type { AgentConfig } from '../../../../agent/AgentConfig'
+import type { RevocRegDef, RevocRegDelta } from 'indy-sdk'
+
+import { getAgentConfig, mockFunction } from '../../../../../tests/helpers'
+import { AriesFrameworkError } from '../../../../error'
+import { IndyLedgerService } from '../../../ledger/services/IndyLedgerService'
+import { IndyRevocationRegistryRecord, IndyRevocationRegistryRepository } from '../../repository'
+import { IndyIssuerService } from '../IndyIssuerService'
+import { IndyRevocationRegistryService } from '../IndyRevocationRegistryService'
+
+jest.mock('../IndyIssuerService')
+jest.mock('../../../ledger/services/IndyLedgerService')
+jest.mock('../../repository/IndyRevocationRegistryRepository')
+
+const IndyIssuerServiceMock = IndyIssuerService as jest.Mock<IndyIssuerService>
+const IndyLedgerServiceMock = IndyLedgerService as jest.Mock<IndyLedgerService>
+const IndyRevocationRegistryRepositoryMock =
+  IndyRevocationRegistryRepository as jest.Mock<IndyRevocationRegistryRepository>
+
+const revocationRegistryId = 'TL1EaPFCZ8Si5aUrqScBDt:4:TL1EaPFCZ8Si5aUrqScBDt:3:CL:12:TAG:CL_ACCUM:default'
+const credentialDefinitionId = 'TL1EaPFCZ8Si5aUrqScBDt:3:CL:12:TAG'
+
+const revocationRegistryDefinition: RevocRegDef = {
+  id: revocationRegistryId,
+  revocDefType: 'CL_ACCUM',
+  tag: 'default',
+  credDefId: credentialDefinitionId,
+  value: {
+    issuanceType: 'ISSUANCE_BY_DEFAULT',
+    maxCredNum: 2,
+    tailsHash: 'tailsHash',
+    tailsLocation: '/tails/tailsHash',
+    publicKeys: [],
+  },
+  ver: '1.0',
+}
+
+const getRevocationRegistryDelta = (accum: string, revoked: number[]): RevocRegDelta => ({
+  value: { prevAccum: 'prevAccum', accum, issued: undefined, revoked },
+  ver: '1.0',
+})
+
+const getRevocationRegistryRecord = () =>
+  new IndyRevocationRegistryRecord({
+    revocationRegistryDefinition,
+    tailsFilePath: '/tails/tailsHash',
+  })
+
+describe('IndyRevocationRegistryService', () => {
+  let agentConfig: AgentConfig
+  let indyIssuerService: IndyIssuerService
+  let ledgerService: IndyLedgerService
+  let indyRevocationRegistryRepository: IndyRevocationRegistryRepository
+  let indyRevocationRegistryService: IndyRevocationRegistryService
+
+  beforeAll(() => {
+    agentConfig = getAgentConfig('IndyRevocationRegistryServiceTest')
+  })
+
+  beforeEach(() => {
+    indyIssuerService = new IndyIssuerServiceMock()
+    ledgerService = new IndyLedgerServiceMock()
+    indyRevocationRegistryRepository = new IndyRevocationRegistryRepositoryMock()
+
+    indyRevocationRegistryService = new IndyRevocationRegistryService(
+      agentConfig,
+      indyIssuerService,
+      ledgerService,
+      indyRevocationRegistryRepository
+    )
+  })
+
+  describe('createRevocationRegistry', () => {
+    it('registers the revocation registry on the ledger and saves the revocation registry record', async () => {
+      mockFunction(ledgerService.registerRevocationRegistryDefinition).mockResolvedValue({
+        revocationRegistryDefinition,
+        tailsFilePath: '/tails/tailsHash',
+      })
+
+      const revocationRegistryRecord = await indyRevocationRegistryService.createRevocationRegistry(
+        'TL1EaPFCZ8Si5aUrqScBDt',
+        { credentialDefinitionId, maximumCredentialNumber: 2 }
+      )
+
+      expect(ledgerService.registerRevocationRegistryDefinition).toHaveBeenCalledWith('TL1EaPFCZ8Si5aUrqScBDt', {
+        credentialDefinitionId,
+        maximumCredentialNumber: 2,
+      })
+      expect(indyRevocationRegistryRepository.save).toHaveBeenCalledWith(revocationRegistryRecord)
+      expect(revocationRegistryRecord).toMatchObject({
+        id: revocationRegistryId,
+        tailsFilePath: '/tails/tailsHash',
+        issuedCredentialCount: 0,
+        pendingCredentialRevocationIds: [],
+      })
+      expect(revocationRegistryRecord.getTags()).toEqual({
+        credentialDefinitionId,
+        isFull: false,
+        hasPendingRevocations: false,
+      })
+    })
+  })
+
+  describe('markCredentialIssued', () => {
+    it('marks the revocation registry as full when the maximum number of credentials is issued', async () => {
+      const revocationRegistryRecord = getRevocationRegistryRecord()
+
+      await indyRevocationRegistryService.markCredentialIssued(revocationRegistryRecord)
+      expect(revocationRegistryRecord.isFull).toBe(false)
+
+      await indyRevocationRegistryService.markCredentialIssued(revocationRegistryRecord)
+      expect(revocationRegistryRecord.isFull).toBe(true)
+      expect(revocationRegistryRecord.getTags().isFull).toBe(true)
+      expect(indyRevocationRegistryRepository.update).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('revokeCredential', () => {
+    it('stores the revocation as pending revocation and merges it with earlier pending revocations', async () => {
+      const revocationRegistryRecord = getRevocationRegistryRecord()
+      mockFunction(indyRevocationRegistryRepository.findById).mockResolvedValue(revocationRegistryRecord)
+
+      const firstDelta = getRevocationRegistryDelta('accum1', [1])
+      const secondDelta = getRevocationRegistryDelta('accum2', [2])
+      const mergedDelta = getRevocationRegistryDelta('accum2', [1, 2])
+      mockFunction(indyIssuerService.revokeCredential)
+        .mockResolvedValueOnce(firstDelta)
+        .mockResolvedValueOnce(secondDelta)
+      mockFunction(indyIssuerService.mergeRevocationRegistryDeltas).mockResolvedValue(mergedDelta)
+
+      await indyRevocationRegistryService.revokeCredential(revocationRegistryId, '1')
+      expect(revocationRegistryRecord.pendingRevocationRegistryDelta).toEqual(firstDelta)
+
+      await indyRevocationRegistryService.revokeCredential(revocationRegistryId, '2')
+
+      expect(indyIssuerService.revokeCredential).toHaveBeenLastCalledWith({
+        revocationRegistryId,
+        credentialRevocationId: '2',
+        tailsFilePath: '/tails/tailsHash',
+      })
+      expect(indyIssuerService.mergeRevocationRegistryDeltas).toHaveBeenCalledWith(firstDelta, secondDelta)
+      expect(revocationRegistryRecord.pendingRevocationRegistryDelta).toEqual(mergedDelta)
+      expect(revocationRegistryRecord.pendingCredentialRevocationIds).toEqual(['1', '2'])
+      expect(revocationRegistryRecord.getTags().hasPendingRevocations).toBe(true)
+      expect(ledgerService.registerRevocationRegistryEntry).not.toHaveBeenCalled()
+    })
+
+    it('throws an error if the credential revocation is already pending', async () => {
+      const revocationRegistryRecord = getRevocationRegistryRecord()
+      revocationRegistryRecord.pendingCredentialRevocationIds = ['1']
+      mockFunction(indyRevocationRegistryRepository.findById).mockResolvedValue(revocationRegistryRecord)
+
+      await expect(indyRevocationRegistryService.revokeCredential(revocationRegistryId, '1')).rejects.toThrowError(
+        AriesFrameworkError
+      )
+      expect(indyIssuerService.revokeCredential).not.toHaveBeenCalled()
+    })
+
+    it('throws an error if the revocation registry was not created by the agent', async () => {
+      mockFunction(indyRevocationRegistryRepository.findById).mockResolvedValue(null)
+
+      await expect(indyRevocationRegistryService.revokeCredential(revocationRegistryId, '1')).rejects.toThrowError(
+        `Revocation registry '${revocationRegistryId}' was not created by this agent`
+      )
+    })
+  })
+
+  describe('publishRevocations', () => {
+    it('publishes the pending revocations of all revocation registries in a single entry per registry', async () => {
+      const pendingDelta = getRevocationRegistryDelta('accum', [1, 2])
+      const revocationRegistryRecord = getRevocationRegistryRecord()
+      revocationRegistryRecord.pendingRevocationRegistryDelta = pendingDelta
+      revocationRegistryRecord.pendingCredentialRevocationIds = ['1', '2']
+      mockFunction(indyRevocationRegistryRepository.findWithPendingRevocations).mockResolvedValue([
+        revocationRegistryRecord,
+      ])
+
+      const publishedRecords = await indyRevocationRegistryService.publishRevocations()
+
+      expect(ledgerService.registerRevocationRegistryEntry).toHaveBeenCalledTimes(1)
+      expect(ledgerService.registerRevocationRegistryEntry).toHaveBeenCalledWith(
+        'TL1EaPFCZ8Si5aUrqScBDt',
+        revocationRegistryId,
+        pendingDelta
+      )
+      expect(publishedRecords).toEqual([revocationRegistryRecord])
+      expect(revocationRegistryRecord.pendingRevocationRegistryDelta).toBeUndefined()
+      expect(revocationRegistryRecord.pendingCredentialRevocationIds).toEqual([])
+      expect(indyRevocationRegistryRepository.update).toHaveBeenCalledWith(revocationRegistryRecord)
+    })
+
+    it('keeps the pending revocations if publishing to the ledger fails', async () => {
+      const revocationRegistryRecord = getRevocationRegistryRecord()
+      revocationRegistryRecord.pendingRevocationRegistryDelta = getRevocationRegistryDelta('accum', [1])
+      revocationRegistryRecord.pendingCredentialRevocationIds = ['1']
+      mockFunction(indyRevocationRegistryRepository.findById).mockResolvedValue(revocationRegistryRecord)
+      mockFunction(ledgerService.registerRevocationRegistryEntry).mockRejectedValue(new Error('Ledger error'))
+
+      await expect(indyRevocationRegistryService.publishRevocations(revocationRegistryId)).rejects.toThrowError(
+        'Ledger error'
+      )
+      expect(revocationRegistryRecord.pendingCredentialRevocationIds).toEqual(['1'])
+      expect(indyRevocationRegistryRepository.update).not.toHaveBeenCalled()
+    })
+
+    it('does not publish anything if the revocation registry has no pending revocations', async () => {
+      mockFunction(indyRevocationRegistryRepository.findById).mockResolvedValue(getRevocationRegistryRecord())
+
+      const publishedRecords = await indyRevocationRegistryService.publishRevocations(revocationRegistryId)
+
+      expect(publishedRecords).toEqual([])
+      expect(ledgerService.registerRevocationRegistryEntry).not.toHaveBeenCalled()
+    })
+  })
+})
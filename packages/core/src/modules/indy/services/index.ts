@@ -3,3 +3,4 @@ export * from './IndyIssuerService'
 export * from './IndyVerifierService'
 export * from './IndyUtilitiesService'
 export * from './IndyRevocationService'
+export * from './IndyRevocationRegistryService'
@@ -19,6 +19,12 @@ export interface IndyPoolConfig {
   genesisTransactions?: string
   id: string
   isProduction: boolean
+
+  /**
+   * The `did:indy` namespace of the ledger, e.g. `sovrin` or `sovrin:staging`. Qualified `did:indy` identifiers
+   * (dids, schemas and credential definitions) are only resolved using the pool with the matching namespace.
+   */
+  indyNamespace?: string
   transactionAuthorAgreement?: TransactionAuthorAgreement
 }
 
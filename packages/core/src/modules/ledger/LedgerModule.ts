@@ -1,23 +1,48 @@
-import type { DependencyManager } from '../../plugins'
-import type { SchemaTemplate, CredentialDefinitionTemplate } from './services'
+import type { Logger } from '../../logger'
+import type { DependencyManager, ModuleLifecycle } from '../../plugins'
+import type { SchemaTemplate, CredentialDefinitionTemplate, RevocationRegistryDefinitionTemplate } from './services'
 import type { NymRole } from 'indy-sdk'
 
+import { AgentConfig } from '../../agent/AgentConfig'
 import { InjectionSymbols } from '../../constants'
 import { AriesFrameworkError } from '../../error'
 import { injectable, module, inject } from '../../plugins'
 import { Wallet } from '../../wallet/Wallet'
+import { IndyDidResolver } from '../dids/methods/indy/IndyDidResolver'
+import { SovDidResolver } from '../dids/methods/sov/SovDidResolver'
+import { IndyRevocationRegistryService } from '../indy/services/IndyRevocationRegistryService'
 
 import { IndyPoolService, IndyLedgerService } from './services'
 
 @module()
 @injectable()
-export class LedgerModule {
+export class LedgerModule implements ModuleLifecycle {
   private ledgerService: IndyLedgerService
+  private indyRevocationRegistryService: IndyRevocationRegistryService
   private wallet: Wallet
-
-  public constructor(@inject(InjectionSymbols.Wallet) wallet: Wallet, ledgerService: IndyLedgerService) {
+  private agentConfig: AgentConfig
+  private logger: Logger
+
+  public constructor(
+    @inject(InjectionSymbols.Wallet) wallet: Wallet,
+    ledgerService: IndyLedgerService,
+    indyRevocationRegistryService: IndyRevocationRegistryService,
+    agentConfig: AgentConfig
+  ) {
     this.ledgerService = ledgerService
+    this.indyRevocationRegistryService = indyRevocationRegistryService
     this.wallet = wallet
+    this.agentConfig = agentConfig
+    this.logger = agentConfig.logger
+  }
+
+  public async initialize() {
+    // As long as value isn't false we will async connect to all genesis pools on startup
+    if (this.agentConfig.connectToIndyLedgersOnStartup) {
+      this.connectToPools().catch((error) => {
+        this.logger.warn('Error connecting to ledger, will try to reconnect when needed.', { error })
+      })
+    }
   }
 
   /**
@@ -74,6 +99,27 @@ export class LedgerModule {
     return this.ledgerService.getCredentialDefinition(id)
   }
 
+  /**
+   * Create a new revocation registry for a credential definition created by the agent, and register it on the ledger.
+   * Credentials issued for the credential definition will be revocable using the revocation registry, until the
+   * maximum number of credentials for the revocation registry has been issued.
+   *
+   * The credential definition must have been registered with `supportRevocation` enabled.
+   *
+   * @returns The revocation registry record, containing the revocation registry definition and the tails file path
+   */
+  public async registerRevocationRegistryDefinition(
+    revocationRegistryDefinitionTemplate: RevocationRegistryDefinitionTemplate
+  ) {
+    const did = this.wallet.publicDid?.did
+
+    if (!did) {
+      throw new AriesFrameworkError('Agent has no public DID.')
+    }
+
+    return this.indyRevocationRegistryService.createRevocationRegistry(did, revocationRegistryDefinitionTemplate)
+  }
+
   public async getRevocationRegistryDefinition(revocationRegistryDefinitionId: string) {
     return this.ledgerService.getRevocationRegistryDefinition(revocationRegistryDefinitionId)
   }
@@ -96,5 +142,9 @@ export class LedgerModule {
     // Services
     dependencyManager.registerSingleton(IndyLedgerService)
     dependencyManager.registerSingleton(IndyPoolService)
+
+    // Resolvers for the did methods that are anchored on an indy ledger
+    dependencyManager.registerSingleton(InjectionSymbols.DidResolver, SovDidResolver)
+    dependencyManager.registerSingleton(InjectionSymbols.DidResolver, IndyDidResolver)
   }
 }
@@ -142,4 +142,41 @@ describe('IndyLedgerService', () => {
       ).rejects.toThrowError(/Please, specify a transaction author agreement with version and acceptance mechanism/)
     })
   })
+
+  describe('LedgerServiceRead', () => {
+    const { indy } = config.agentDependencies
+
+    it('should get a schema with a qualified did:indy schema id from the pool of the namespace', async () => {
+      mockFunction(poolService.getPoolForNamespace).mockReturnValue(poolService.ledgerWritePool)
+      const buildGetSchemaRequestSpy = jest.spyOn(indy, 'buildGetSchemaRequest')
+      jest.spyOn(indy, 'parseGetSchemaResponse').mockResolvedValue(['F72i3Y3Q4i466efjYJYCHM:2:npdb:4.3.4', {}] as never)
+
+      await ledgerService.getSchema('did:indy:sovrin:F72i3Y3Q4i466efjYJYCHM/anoncreds/v0/SCHEMA/npdb/4.3.4')
+
+      expect(poolService.getPoolForNamespace).toHaveBeenCalledWith('sovrin')
+      expect(poolService.getPoolForDid).not.toHaveBeenCalled()
+      expect(buildGetSchemaRequestSpy).toHaveBeenCalledWith(null, 'F72i3Y3Q4i466efjYJYCHM:2:npdb:4.3.4')
+    })
+
+    it('should get the diddocContent of a did:indy nym', async () => {
+      mockFunction(poolService.getPoolForNamespace).mockReturnValue(poolService.ledgerWritePool)
+      jest.spyOn(poolService.ledgerWritePool, 'submitReadRequest').mockResolvedValue({
+        result: {
+          data: JSON.stringify({
+            dest: 'F72i3Y3Q4i466efjYJYCHM',
+            verkey: '~WtZDG1yzHp7D7ADJgCXNvS',
+            role: null,
+            diddocContent: JSON.stringify({ service: [] }),
+          }),
+        },
+      } as unknown as LedgerReadReplyResponse)
+
+      expect(await ledgerService.getPublicDid('did:indy:sovrin:F72i3Y3Q4i466efjYJYCHM')).toEqual({
+        did: 'F72i3Y3Q4i466efjYJYCHM',
+        verkey: '~WtZDG1yzHp7D7ADJgCXNvS',
+        role: null,
+        diddocContent: { service: [] },
+      })
+    })
+  })
 })
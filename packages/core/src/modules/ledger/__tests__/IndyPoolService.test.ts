@@ -20,6 +20,7 @@ const pools: IndyPoolConfig[] = [
   {
     id: 'sovrinMain',
     isProduction: true,
+    indyNamespace: 'sovrin',
     genesisTransactions: 'xxx',
     transactionAuthorAgreement: { version: '1', acceptanceMechanism: 'accept' },
   },
@@ -32,6 +33,7 @@ const pools: IndyPoolConfig[] = [
   {
     id: 'sovrinStaging',
     isProduction: false,
+    indyNamespace: 'sovrin:staging',
     genesisTransactions: 'xxx',
     transactionAuthorAgreement: { version: '1', acceptanceMechanism: 'accept' },
   },
@@ -87,6 +89,21 @@ describe('IndyPoolService', () => {
     })
   })
 
+  describe('getPoolForNamespace', () => {
+    it('should return the pool with the matching namespace', async () => {
+      expect(poolService.getPoolForNamespace('sovrin').id).toBe('sovrinMain')
+      expect(poolService.getPoolForNamespace('sovrin:staging').id).toBe('sovrinStaging')
+    })
+
+    it('should throw a LedgerNotConfiguredError error if no pool is configured for the namespace', async () => {
+      expect(() => poolService.getPoolForNamespace('indicio')).toThrow(
+        new LedgerNotConfiguredError(
+          "No indy ledger configured for namespace 'indicio'. Set the 'indyNamespace' of the ledger in the 'indyLedgers' agent configuration"
+        )
+      )
+    })
+  })
+
   describe('getPoolForDid', () => {
     it('should throw a LedgerNotConfiguredError error if no pools are configured on the agent', async () => {
       const config = getAgentConfig('IndyPoolServiceTest', { indyLedgers: [] })
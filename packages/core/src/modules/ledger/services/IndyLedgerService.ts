@@ -3,25 +3,31 @@ import type { AcceptanceMechanisms, AuthorAgreement, IndyPool } from '../IndyPoo
 import type {
   default as Indy,
   CredDef,
+  GetNymResponse,
   LedgerReadReplyResponse,
   LedgerRequest,
   LedgerWriteReplyResponse,
   NymRole,
+  RevocRegDef,
+  RevocRegDelta,
   Schema,
 } from 'indy-sdk'
 
 import { AgentConfig } from '../../../agent/AgentConfig'
 import { IndySdkError } from '../../../error/IndySdkError'
 import { injectable } from '../../../plugins'
-import {
-  didFromSchemaId,
-  didFromCredentialDefinitionId,
-  didFromRevocationRegistryDefinitionId,
-} from '../../../utils/did'
 import { isIndyError } from '../../../utils/indyError'
+import {
+  isIndyDid,
+  parseIndyCredentialDefinitionId,
+  parseIndyDid,
+  parseIndyRevocationRegistryDefinitionId,
+  parseIndySchemaId,
+} from '../../../utils/indyIdentifiers'
 import { IndyWallet } from '../../../wallet/IndyWallet'
 import { IndyIssuerService } from '../../indy/services/IndyIssuerService'
 import { LedgerError } from '../error/LedgerError'
+import { LedgerNotFoundError } from '../error/LedgerNotFoundError'
 
 import { IndyPoolService } from './IndyPoolService'
 
@@ -87,7 +93,15 @@ export class IndyLedgerService {
     }
   }
 
-  public async getPublicDid(did: string) {
+  /**
+   * Get the NYM of a public did. Both `did:indy` dids and unqualified dids are supported, the `diddocContent` of the
+   * NYM is only returned for `did:indy` dids.
+   */
+  public async getPublicDid(did: string): Promise<IndyNymResponse> {
+    if (isIndyDid(did)) {
+      return this.getIndyDidNym(did)
+    }
+
     // Getting the pool for a did also retrieves the DID. We can just use that
     const { did: didResponse } = await this.indyPoolService.getPoolForDid(did)
 
@@ -95,12 +109,13 @@ export class IndyLedgerService {
   }
 
   public async getEndpointsForDid(did: string) {
-    const { pool } = await this.indyPoolService.getPoolForDid(did)
+    const { namespace, did: unqualifiedDid } = isIndyDid(did) ? parseIndyDid(did) : { namespace: undefined, did }
+    const pool = await this.getPoolForIdentifier({ namespace, did: unqualifiedDid })
 
     try {
       this.logger.debug(`Get endpoints for did '${did}' from ledger '${pool.id}'`)
 
-      const request = await this.indy.buildGetAttribRequest(null, did, 'endpoint', null, null)
+      const request = await this.indy.buildGetAttribRequest(null, unqualifiedDid, 'endpoint', null, null)
 
       this.logger.debug(`Submitting get endpoint ATTRIB request for did '${did}' to ledger '${pool.id}'`)
       const response = await this.submitReadRequest(pool, request)
@@ -153,14 +168,18 @@ export class IndyLedgerService {
     }
   }
 
+  /**
+   * Get a schema from the ledger. Both qualified `did:indy` and legacy unqualified schema ids are supported. The
+   * returned schema always has the legacy schema id, as required by the indy-sdk.
+   */
   public async getSchema(schemaId: string) {
-    const did = didFromSchemaId(schemaId)
-    const { pool } = await this.indyPoolService.getPoolForDid(did)
+    const parsedSchemaId = parseIndySchemaId(schemaId)
+    const pool = await this.getPoolForIdentifier(parsedSchemaId)
 
     try {
       this.logger.debug(`Getting schema '${schemaId}' from ledger '${pool.id}'`)
 
-      const request = await this.indy.buildGetSchemaRequest(null, schemaId)
+      const request = await this.indy.buildGetSchemaRequest(null, parsedSchemaId.legacyId)
 
       this.logger.trace(`Submitting get schema request for schema '${schemaId}' to ledger '${pool.id}'`)
       const response = await this.submitReadRequest(pool, request)
@@ -230,14 +249,132 @@ export class IndyLedgerService {
     }
   }
 
+  /**
+   * Create a new revocation registry for a credential definition, and register the revocation registry definition
+   * and the initial revocation registry entry on the ledger.
+   *
+   * The tails file is stored in the FileSystem of the agent, but it must also be made available to holders at the
+   * tails location of the revocation registry definition. If `tailsBaseUrl` is provided, the tails location will be
+   * `<tailsBaseUrl>/<tailsHash>`, otherwise it is the path of the tails file in the FileSystem.
+   */
+  public async registerRevocationRegistryDefinition(
+    did: string,
+    revocationRegistryDefinitionTemplate: RevocationRegistryDefinitionTemplate
+  ): Promise<RegisterRevocationRegistryDefinitionReturn> {
+    const pool = this.indyPoolService.ledgerWritePool
+
+    try {
+      this.logger.debug(
+        `Registering revocation registry definition on ledger '${pool.id}' with did '${did}'`,
+        revocationRegistryDefinitionTemplate
+      )
+      const { credentialDefinitionId, tag, maximumCredentialNumber, tailsBaseUrl } =
+        revocationRegistryDefinitionTemplate
+
+      const { revocationRegistryDefinition, revocationRegistryEntry, tailsFilePath } =
+        await this.indyIssuer.createRevocationRegistry({
+          issuerDid: did,
+          credentialDefinitionId,
+          tag,
+          maximumCredentialNumber,
+        })
+
+      if (tailsBaseUrl) {
+        revocationRegistryDefinition.value.tailsLocation = `${tailsBaseUrl.replace(/\/$/, '')}/${
+          revocationRegistryDefinition.value.tailsHash
+        }`
+      }
+
+      const request = await this.indy.buildRevocRegDefRequest(did, revocationRegistryDefinition)
+      const response = await this.submitWriteRequest(pool, request, did)
+
+      this.logger.debug(
+        `Registered revocation registry definition '${revocationRegistryDefinition.id}' on ledger '${pool.id}'`,
+        {
+          response,
+          revocationRegistryDefinition,
+        }
+      )
+
+      await this.registerRevocationRegistryEntry(did, revocationRegistryDefinition.id, revocationRegistryEntry)
+
+      return { revocationRegistryDefinition, tailsFilePath }
+    } catch (error) {
+      this.logger.error(
+        `Error registering revocation registry definition for credential definition '${revocationRegistryDefinitionTemplate.credentialDefinitionId}' on ledger '${pool.id}'`,
+        {
+          error,
+          did,
+          revocationRegistryDefinitionTemplate,
+        }
+      )
+
+      throw isIndyError(error) ? new IndySdkError(error) : error
+    }
+  }
+
+  /**
+   * Register a revocation registry entry on the ledger. The entry contains the delta of the revocation registry
+   * since the previous entry, e.g. the credentials that were revoked.
+   *
+   * @returns the ledger timestamp of the registered entry
+   */
+  public async registerRevocationRegistryEntry(
+    did: string,
+    revocationRegistryDefinitionId: string,
+    revocationRegistryEntry: RevocRegDelta
+  ) {
+    const pool = this.indyPoolService.ledgerWritePool
+
+    try {
+      this.logger.debug(
+        `Registering revocation registry entry for revocation registry definition '${revocationRegistryDefinitionId}' on ledger '${pool.id}' with did '${did}'`,
+        revocationRegistryEntry
+      )
+
+      const request = await this.indy.buildRevocRegEntryRequest(
+        did,
+        revocationRegistryDefinitionId,
+        'CL_ACCUM',
+        revocationRegistryEntry
+      )
+      const response = await this.submitWriteRequest(pool, request, did)
+
+      this.logger.debug(
+        `Registered revocation registry entry for revocation registry definition '${revocationRegistryDefinitionId}' on ledger '${pool.id}'`,
+        {
+          response,
+        }
+      )
+
+      return response.result.txnMetadata.txnTime
+    } catch (error) {
+      this.logger.error(
+        `Error registering revocation registry entry for revocation registry definition '${revocationRegistryDefinitionId}' on ledger '${pool.id}'`,
+        {
+          error,
+          did,
+          revocationRegistryEntry,
+        }
+      )
+
+      throw isIndyError(error) ? new IndySdkError(error) : error
+    }
+  }
+
+  /**
+   * Get a credential definition from the ledger. Both qualified `did:indy` and legacy unqualified credential
+   * definition ids are supported. The returned credential definition always has the legacy credential definition id,
+   * as required by the indy-sdk.
+   */
   public async getCredentialDefinition(credentialDefinitionId: string) {
-    const did = didFromCredentialDefinitionId(credentialDefinitionId)
-    const { pool } = await this.indyPoolService.getPoolForDid(did)
+    const parsedCredentialDefinitionId = parseIndyCredentialDefinitionId(credentialDefinitionId)
+    const pool = await this.getPoolForIdentifier(parsedCredentialDefinitionId)
 
     this.logger.debug(`Using ledger '${pool.id}' to retrieve credential definition '${credentialDefinitionId}'`)
 
     try {
-      const request = await this.indy.buildGetCredDefRequest(null, credentialDefinitionId)
+      const request = await this.indy.buildGetCredDefRequest(null, parsedCredentialDefinitionId.legacyId)
 
       this.logger.trace(
         `Submitting get credential definition request for credential definition '${credentialDefinitionId}' to ledger '${pool.id}'`
@@ -268,8 +405,8 @@ export class IndyLedgerService {
   public async getRevocationRegistryDefinition(
     revocationRegistryDefinitionId: string
   ): Promise<ParseRevocationRegistryDefinitionTemplate> {
-    const did = didFromRevocationRegistryDefinitionId(revocationRegistryDefinitionId)
-    const { pool } = await this.indyPoolService.getPoolForDid(did)
+    const parsedRevocationRegistryDefinitionId = parseIndyRevocationRegistryDefinitionId(revocationRegistryDefinitionId)
+    const pool = await this.getPoolForIdentifier(parsedRevocationRegistryDefinitionId)
 
     this.logger.debug(
       `Using ledger '${pool.id}' to retrieve revocation registry definition '${revocationRegistryDefinitionId}'`
@@ -280,7 +417,7 @@ export class IndyLedgerService {
         `Revocation Registry Definition '${revocationRegistryDefinitionId}' not cached, retrieving from ledger`
       )
 
-      const request = await this.indy.buildGetRevocRegDefRequest(null, revocationRegistryDefinitionId)
+      const request = await this.indy.buildGetRevocRegDefRequest(null, parsedRevocationRegistryDefinitionId.legacyId)
 
       this.logger.trace(
         `Submitting get revocation registry definition request for revocation registry definition '${revocationRegistryDefinitionId}' to ledger`
@@ -320,8 +457,8 @@ export class IndyLedgerService {
     from = 0
   ): Promise<ParseRevocationRegistryDeltaTemplate> {
     //TODO - implement a cache
-    const did = didFromRevocationRegistryDefinitionId(revocationRegistryDefinitionId)
-    const { pool } = await this.indyPoolService.getPoolForDid(did)
+    const parsedRevocationRegistryDefinitionId = parseIndyRevocationRegistryDefinitionId(revocationRegistryDefinitionId)
+    const pool = await this.getPoolForIdentifier(parsedRevocationRegistryDefinitionId)
 
     this.logger.debug(
       `Using ledger '${pool.id}' to retrieve revocation registry delta with revocation registry definition id: '${revocationRegistryDefinitionId}'`,
@@ -332,7 +469,12 @@ export class IndyLedgerService {
     )
 
     try {
-      const request = await this.indy.buildGetRevocRegDeltaRequest(null, revocationRegistryDefinitionId, from, to)
+      const request = await this.indy.buildGetRevocRegDeltaRequest(
+        null,
+        parsedRevocationRegistryDefinitionId.legacyId,
+        from,
+        to
+      )
 
       this.logger.trace(
         `Submitting get revocation registry delta request for revocation registry '${revocationRegistryDefinitionId}' to ledger`
@@ -375,8 +517,8 @@ export class IndyLedgerService {
     timestamp: number
   ): Promise<ParseRevocationRegistryTemplate> {
     //TODO - implement a cache
-    const did = didFromRevocationRegistryDefinitionId(revocationRegistryDefinitionId)
-    const { pool } = await this.indyPoolService.getPoolForDid(did)
+    const parsedRevocationRegistryDefinitionId = parseIndyRevocationRegistryDefinitionId(revocationRegistryDefinitionId)
+    const pool = await this.getPoolForIdentifier(parsedRevocationRegistryDefinitionId)
 
     this.logger.debug(
       `Using ledger '${pool.id}' to retrieve revocation registry accumulated state with revocation registry definition id: '${revocationRegistryDefinitionId}'`,
@@ -386,7 +528,11 @@ export class IndyLedgerService {
     )
 
     try {
-      const request = await this.indy.buildGetRevocRegRequest(null, revocationRegistryDefinitionId, timestamp)
+      const request = await this.indy.buildGetRevocRegRequest(
+        null,
+        parsedRevocationRegistryDefinitionId.legacyId,
+        timestamp
+      )
 
       this.logger.trace(
         `Submitting get revocation registry request for revocation registry '${revocationRegistryDefinitionId}' to ledger`
@@ -416,6 +562,55 @@ export class IndyLedgerService {
     }
   }
 
+  /**
+   * Get the NYM of a `did:indy` did from the pool of its namespace. The indy-sdk doesn't parse the `diddocContent`
+   * of a NYM, so the response is parsed here.
+   */
+  private async getIndyDidNym(did: string): Promise<IndyNymResponse> {
+    const { namespace, did: unqualifiedDid } = parseIndyDid(did)
+    const pool = this.indyPoolService.getPoolForNamespace(namespace)
+
+    try {
+      this.logger.debug(`Get did '${did}' from ledger '${pool.id}'`)
+
+      const request = await this.indy.buildGetNymRequest(null, unqualifiedDid)
+      const response = await this.submitReadRequest(pool, request)
+
+      if (!response.result.data) {
+        throw new LedgerNotFoundError(`Did '${did}' not found on ledger ${pool.id}`)
+      }
+
+      const { dest, verkey, role, diddocContent } = JSON.parse(response.result.data as string)
+      this.logger.debug(`Retrieved did '${did}' from ledger '${pool.id}'`, { response })
+
+      return {
+        did: dest,
+        verkey,
+        role,
+        diddocContent: typeof diddocContent === 'string' ? JSON.parse(diddocContent) : diddocContent ?? undefined,
+      }
+    } catch (error) {
+      this.logger.error(`Error retrieving did '${did}' from ledger '${pool.id}'`, {
+        error,
+      })
+
+      throw isIndyError(error) ? new IndySdkError(error) : error
+    }
+  }
+
+  /**
+   * Get the pool for a ledger identifier. Qualified `did:indy` identifiers are read from the pool of their
+   * namespace, for legacy unqualified identifiers the pool is determined based on the did of the identifier.
+   */
+  private async getPoolForIdentifier({ namespace, did }: { namespace?: string; did: string }) {
+    if (namespace) {
+      return this.indyPoolService.getPoolForNamespace(namespace)
+    }
+
+    const { pool } = await this.indyPoolService.getPoolForDid(did)
+    return pool
+  }
+
   private async submitWriteRequest(
     pool: IndyPool,
     request: LedgerRequest,
@@ -545,6 +740,18 @@ export interface CredentialDefinitionTemplate {
   supportRevocation: boolean
 }
 
+export interface RevocationRegistryDefinitionTemplate {
+  credentialDefinitionId: string
+  tag?: string
+  maximumCredentialNumber?: number
+  tailsBaseUrl?: string
+}
+
+export interface RegisterRevocationRegistryDefinitionReturn {
+  revocationRegistryDefinition: RevocRegDef
+  tailsFilePath: string
+}
+
 export interface ParseRevocationRegistryDefinitionTemplate {
   revocationRegistryDefinition: Indy.RevocRegDef
   revocationRegistryDefinitionTxnTime: number
@@ -560,6 +767,13 @@ export interface ParseRevocationRegistryTemplate {
   ledgerTimestamp: number
 }
 
+export interface IndyNymResponse extends GetNymResponse {
+  /**
+   * Additional did document content of the NYM. Only returned for `did:indy` dids.
+   */
+  diddocContent?: Record<string, unknown>
+}
+
 export interface IndyEndpointAttrib {
   endpoint?: string
   types?: Array<'endpoint' | 'did-communication' | 'DIDComm'>
@@ -63,6 +63,26 @@ export class IndyPoolService {
     return this.pools[0]
   }
 
+  /**
+   * Get the pool for the given `did:indy` namespace, e.g. `sovrin:staging`
+   */
+  public getPoolForNamespace(indyNamespace: string) {
+    if (this.pools.length === 0) {
+      throw new LedgerNotConfiguredError(
+        "No indy ledgers configured. Provide at least one pool configuration in the 'indyLedgers' agent configuration"
+      )
+    }
+
+    const pool = this.pools.find((pool) => pool.config.indyNamespace === indyNamespace)
+    if (!pool) {
+      throw new LedgerNotConfiguredError(
+        `No indy ledger configured for namespace '${indyNamespace}'. Set the 'indyNamespace' of the ledger in the 'indyLedgers' agent configuration`
+      )
+    }
+
+    return pool
+  }
+
   /**
    * Get the most appropriate pool for the given did. The algorithm is based on the approach as described in this document:
    * https://docs.google.com/document/d/109C_eMsuZnTnYe2OAd02jAts1vC4axwEKIq7_4dnNVA/edit
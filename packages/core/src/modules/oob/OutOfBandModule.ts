@@ -4,6 +4,7 @@ import type { Attachment } from '../../decorators/attachment/Attachment'
 import type { Logger } from '../../logger'
 import type { ConnectionRecord, Routing, ConnectionInvitationMessage } from '../../modules/connections'
 import type { DependencyManager } from '../../plugins'
+import type { QueryOptions } from '../../storage/StorageService'
 import type { PlaintextMessage } from '../../types'
 import type { Key } from '../dids'
 import type { HandshakeReusedEvent } from './domain/OutOfBandEvents'
@@ -527,10 +528,11 @@ export class OutOfBandModule {
   /**
    * Retrieve all out of bands records
    *
+   * @param queryOptions options to paginate and sort the out of band records
    * @returns List containing all  out of band records
    */
-  public getAll() {
-    return this.outOfBandService.getAll()
+  public getAll(queryOptions?: QueryOptions) {
+    return this.outOfBandService.getAll(queryOptions)
   }
 
   /**
@@ -750,5 +752,8 @@ export class OutOfBandModule {
 
     // Repositories
     dependencyManager.registerSingleton(OutOfBandRepository)
+
+    // Records
+    dependencyManager.registerRecordClasses(OutOfBandRecord)
   }
 }
@@ -1,4 +1,5 @@
 import type { InboundMessageContext } from '../../agent/models/InboundMessageContext'
+import type { QueryOptions } from '../../storage/StorageService'
 import type { ConnectionRecord } from '../connections'
 import type { Key } from '../dids/domain/Key'
 import type { HandshakeReusedEvent, OutOfBandStateChangedEvent } from './domain/OutOfBandEvents'
@@ -163,8 +164,8 @@ export class OutOfBandService {
     return this.outOfBandRepository.findSingleByQuery({ recipientKeyFingerprints: [recipientKey.fingerprint] })
   }
 
-  public async getAll() {
-    return this.outOfBandRepository.getAll()
+  public async getAll(queryOptions?: QueryOptions) {
+    return this.outOfBandRepository.getAll(queryOptions)
   }
 
   public async deleteById(outOfBandId: string) {
@@ -491,7 +491,7 @@ describe('OutOfBandService', () => {
 
       mockFunction(outOfBandRepository.getAll).mockReturnValue(Promise.resolve(expected))
       const result = await outOfBandService.getAll()
-      expect(outOfBandRepository.getAll).toBeCalledWith()
+      expect(outOfBandRepository.getAll).toBeCalledWith(undefined)
 
       expect(result).toEqual(expect.arrayContaining(expected))
     })
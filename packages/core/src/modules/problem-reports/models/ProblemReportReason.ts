@@ -1,3 +1,4 @@
 export enum ProblemReportReason {
   MessageParseFailure = 'message-parse-failure',
+  MessageExpired = 'message-expired',
 }
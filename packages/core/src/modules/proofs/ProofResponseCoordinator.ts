@@ -23,10 +23,7 @@ export class ProofResponseCoordinator {
    *	- Otherwise the agent config
    *	- Otherwise {@link AutoAcceptProof.Never} is returned
    */
-  private static composeAutoAccept(
-    recordConfig: AutoAcceptProof | undefined,
-    agentConfig: AutoAcceptProof | undefined
-  ) {
+  public static composeAutoAccept(recordConfig: AutoAcceptProof | undefined, agentConfig: AutoAcceptProof | undefined) {
     return recordConfig ?? agentConfig ?? AutoAcceptProof.Never
   }
 
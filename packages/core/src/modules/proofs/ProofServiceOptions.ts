@@ -0,0 +1,89 @@
+import type { ConnectionRecord } from '../connections/repository/ConnectionRecord'
+import type { AutoAcceptProof } from './ProofAutoAcceptType'
+import type { ProofFormat, ProofFormatPayload } from './formats'
+import type { ProofRecord } from './repository/ProofRecord'
+
+/**
+ * Get the format data payload for a specific message from a list of ProofFormat interfaces and a message
+ *
+ * For an indy request, this resolves to the proof request format as defined here:
+ * https://github.com/hyperledger/aries-rfcs/tree/main/features/0592-indy-attachments#proof-request-format
+ *
+ * @example
+ * ```
+ *
+ * type RequestFormatData = ProofFormatDataMessagePayload<[IndyProofFormat], 'request'>
+ *
+ * // equal to
+ * type RequestFormatData = {
+ *  indy: {
+ *   // ... payload for indy proof request attachment as defined in RFC 0592 ...
+ *  }
+ * }
+ * ```
+ */
+export type ProofFormatDataMessagePayload<
+  PFs extends ProofFormat[] = ProofFormat[],
+  M extends keyof ProofFormat['formatData'] = keyof ProofFormat['formatData']
+> = {
+  [ProofFormat in PFs[number] as ProofFormat['formatKey']]?: ProofFormat['formatData'][M]
+}
+
+/**
+ * Get format data return value. Each key holds a mapping of proof format key to format data.
+ *
+ * @example
+ * ```
+ * {
+ *   request: {
+ *     indy: {
+ *       name: 'proof-request',
+ *       // ...
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export type GetProofFormatDataReturn<PFs extends ProofFormat[] = ProofFormat[]> = {
+  proposal?: ProofFormatDataMessagePayload<PFs, 'proposal'>
+  request?: ProofFormatDataMessagePayload<PFs, 'request'>
+  presentation?: ProofFormatDataMessagePayload<PFs, 'presentation'>
+}
+
+export interface CreateProposalOptions<PFs extends ProofFormat[]> {
+  connection: ConnectionRecord
+  proofFormats: ProofFormatPayload<PFs, 'createProposal'>
+  autoAcceptProof?: AutoAcceptProof
+  comment?: string
+  parentThreadId?: string
+}
+
+export interface AcceptProposalOptions<PFs extends ProofFormat[]> {
+  proofRecord: ProofRecord
+  proofFormats?: ProofFormatPayload<PFs, 'acceptProposal'>
+  autoAcceptProof?: AutoAcceptProof
+  comment?: string
+}
+
+export interface CreateRequestOptions<PFs extends ProofFormat[]> {
+  connection?: ConnectionRecord
+  proofFormats: ProofFormatPayload<PFs, 'createRequest'>
+  autoAcceptProof?: AutoAcceptProof
+  comment?: string
+  parentThreadId?: string
+}
+
+export interface AcceptRequestOptions<PFs extends ProofFormat[]> {
+  proofRecord: ProofRecord
+  proofFormats?: ProofFormatPayload<PFs, 'acceptRequest'>
+  autoAcceptProof?: AutoAcceptProof
+  comment?: string
+}
+
+export interface AcceptPresentationOptions {
+  proofRecord: ProofRecord
+}
+
+export interface CreateProblemReportOptions {
+  message: string
+}
@@ -1,9 +1,18 @@
 import type { DependencyManager } from '../../plugins'
+import type { QueryOptions } from '../../storage/StorageService'
 import type { AutoAcceptProof } from './ProofAutoAcceptType'
+import type { GetProofFormatDataReturn } from './ProofServiceOptions'
+import type { ProofFormatPayload } from './formats/ProofFormat'
+import type { IndyProofFormat } from './formats/indy/IndyProofFormat'
+import type {
+  PresentationExchangeAcceptProofRequestFormat,
+  PresentationExchangeProofFormat,
+  PresentationExchangeRequestProofFormat,
+} from './formats/presentation-exchange/PresentationExchangeProofFormat'
 import type { PresentationPreview, RequestPresentationMessage } from './messages'
 import type { RequestedCredentials, RetrievedCredentials } from './models'
 import type { ProofRequestOptions } from './models/ProofRequest'
-import type { ProofRecord } from './repository/ProofRecord'
+import type { V2RequestPresentationMessage } from './protocol/v2/messages'
 
 import { AgentConfig } from '../../agent/AgentConfig'
 import { Dispatcher } from '../../agent/Dispatcher'
@@ -12,11 +21,15 @@ import { createOutboundMessage } from '../../agent/helpers'
 import { ServiceDecorator } from '../../decorators/service/ServiceDecorator'
 import { AriesFrameworkError } from '../../error'
 import { injectable, module } from '../../plugins'
+import { DidCommMessageRepository, DidCommMessageRole } from '../../storage'
+import { JsonTransformer } from '../../utils/JsonTransformer'
 import { ConnectionService } from '../connections/services/ConnectionService'
 import { RoutingService } from '../routing/services/RoutingService'
 
 import { ProofResponseCoordinator } from './ProofResponseCoordinator'
 import { PresentationProblemReportReason } from './errors'
+import { IndyProofFormatService } from './formats/indy/IndyProofFormatService'
+import { PresentationExchangeProofFormatService } from './formats/presentation-exchange/PresentationExchangeProofFormatService'
 import {
   ProposePresentationHandler,
   RequestPresentationHandler,
@@ -26,37 +39,75 @@ import {
 } from './handlers'
 import { PresentationProblemReportMessage } from './messages/PresentationProblemReportMessage'
 import { ProofRequest } from './models/ProofRequest'
+import { V2ProofService } from './protocol/v2/V2ProofService'
+import { V2PresentationMessage } from './protocol/v2/messages'
 import { ProofRepository } from './repository'
+import { ProofRecord } from './repository/ProofRecord'
 import { ProofService } from './services'
 
+/**
+ * Mapping of present proof protocol version to the service implementing it.
+ */
+export interface ProofServiceMap {
+  v1: ProofService
+  v2: V2ProofService
+}
+
+export type ProofProtocolVersionType = keyof ProofServiceMap
+
 @module()
 @injectable()
 export class ProofsModule {
   private proofService: ProofService
+  private v2ProofService: V2ProofService
   private connectionService: ConnectionService
   private messageSender: MessageSender
   private routingService: RoutingService
   private agentConfig: AgentConfig
   private proofResponseCoordinator: ProofResponseCoordinator
+  private didCommMessageRepository: DidCommMessageRepository
+  private serviceMap: ProofServiceMap
 
   public constructor(
     dispatcher: Dispatcher,
     proofService: ProofService,
+    v2ProofService: V2ProofService,
     connectionService: ConnectionService,
     routingService: RoutingService,
     agentConfig: AgentConfig,
     messageSender: MessageSender,
-    proofResponseCoordinator: ProofResponseCoordinator
+    proofResponseCoordinator: ProofResponseCoordinator,
+    didCommMessageRepository: DidCommMessageRepository
   ) {
     this.proofService = proofService
+    this.v2ProofService = v2ProofService
     this.connectionService = connectionService
     this.messageSender = messageSender
     this.routingService = routingService
     this.agentConfig = agentConfig
     this.proofResponseCoordinator = proofResponseCoordinator
+    this.didCommMessageRepository = didCommMessageRepository
+    this.serviceMap = {
+      [proofService.version]: proofService,
+      [v2ProofService.version]: v2ProofService,
+    }
     this.registerHandlers(dispatcher)
   }
 
+  /**
+   * Get the service implementing the given version of the present proof protocol.
+   *
+   * @param protocolVersion The protocol version (e.g. `v1` or `v2`)
+   * @returns The proof service for the protocol version
+   */
+  public getService<PVT extends ProofProtocolVersionType>(protocolVersion: PVT): ProofServiceMap[PVT] {
+    if (!this.serviceMap[protocolVersion]) {
+      throw new AriesFrameworkError(`No proof service registered for protocol version ${protocolVersion}`)
+    }
+
+    return this.serviceMap[protocolVersion]
+  }
+
   /**
    * Initiate a new presentation exchange as prover by sending a presentation proposal message
    * to the connection with the specified connection id.
@@ -74,10 +125,30 @@ export class ProofsModule {
       comment?: string
       autoAcceptProof?: AutoAcceptProof
       parentThreadId?: string
+      protocolVersion?: ProofProtocolVersionType
     }
   ): Promise<ProofRecord> {
     const connection = await this.connectionService.getById(connectionId)
 
+    if (config?.protocolVersion === 'v2') {
+      const { message, proofRecord } = await this.v2ProofService.createProposal({
+        connection,
+        proofFormats: {
+          indy: {
+            attributes: presentationProposal.attributes,
+            predicates: presentationProposal.predicates,
+          },
+        },
+        comment: config.comment,
+        autoAcceptProof: config.autoAcceptProof,
+        parentThreadId: config.parentThreadId,
+      })
+
+      await this.messageSender.sendMessage(createOutboundMessage(connection, message))
+
+      return proofRecord
+    }
+
     const { message, proofRecord } = await this.proofService.createProposal(connection, presentationProposal, config)
 
     const outbound = createOutboundMessage(connection, message)
@@ -116,6 +187,18 @@ export class ProofsModule {
 
     const connection = await this.connectionService.getById(proofRecord.connectionId)
 
+    if (proofRecord.protocolVersion === 'v2') {
+      const { message } = await this.v2ProofService.acceptProposal({
+        proofRecord,
+        proofFormats: config?.request ? { indy: config.request } : undefined,
+        comment: config?.comment,
+      })
+
+      await this.messageSender.sendMessage(createOutboundMessage(connection, message))
+
+      return proofRecord
+    }
+
     const presentationProposal = proofRecord.proposalMessage?.presentationProposal
     if (!presentationProposal) {
       throw new AriesFrameworkError(`Proof record with id ${proofRecordId} is missing required presentation proposal`)
@@ -153,6 +236,20 @@ export class ProofsModule {
   ): Promise<ProofRecord> {
     const connection = await this.connectionService.getById(connectionId)
 
+    if (config?.protocolVersion === 'v2') {
+      const { message, proofRecord } = await this.v2ProofService.createRequest({
+        connection,
+        proofFormats: { indy: proofRequestOptions },
+        comment: config.comment,
+        autoAcceptProof: config.autoAcceptProof,
+        parentThreadId: config.parentThreadId,
+      })
+
+      await this.messageSender.sendMessage(createOutboundMessage(connection, message))
+
+      return proofRecord
+    }
+
     const nonce = proofRequestOptions.nonce ?? (await this.proofService.generateProofRequestNonce())
 
     const proofRequest = new ProofRequest({
@@ -171,6 +268,35 @@ export class ProofsModule {
     return proofRecord
   }
 
+  /**
+   * Initiate a new presentation exchange as verifier by sending a present proof v2 request message containing a
+   * DIF presentation definition to the connection with the specified connection id.
+   *
+   * @param connectionId The connection to send the proof request to
+   * @param requestOptions The presentation definition and the options (challenge, domain) the presentation must be bound to
+   * @returns Proof record associated with the sent request message
+   *
+   */
+  public async requestPresentationExchangeProof(
+    connectionId: string,
+    requestOptions: PresentationExchangeRequestProofFormat,
+    config?: Omit<ProofRequestConfig, 'protocolVersion'>
+  ): Promise<ProofRecord> {
+    const connection = await this.connectionService.getById(connectionId)
+
+    const { message, proofRecord } = await this.v2ProofService.createRequest({
+      connection,
+      proofFormats: { presentationExchange: requestOptions },
+      comment: config?.comment,
+      autoAcceptProof: config?.autoAcceptProof,
+      parentThreadId: config?.parentThreadId,
+    })
+
+    await this.messageSender.sendMessage(createOutboundMessage(connection, message))
+
+    return proofRecord
+  }
+
   /**
    * Initiate a new presentation exchange as verifier by creating a presentation request
    * not bound to any connection. The request must be delivered out-of-band to the holder
@@ -183,9 +309,30 @@ export class ProofsModule {
     proofRequestOptions: CreateProofRequestOptions,
     config?: ProofRequestConfig
   ): Promise<{
-    requestMessage: RequestPresentationMessage
+    requestMessage: RequestPresentationMessage | V2RequestPresentationMessage
     proofRecord: ProofRecord
   }> {
+    if (config?.protocolVersion === 'v2') {
+      const { message, proofRecord } = await this.v2ProofService.createRequest({
+        proofFormats: { indy: proofRequestOptions },
+        comment: config.comment,
+        autoAcceptProof: config.autoAcceptProof,
+        parentThreadId: config.parentThreadId,
+      })
+
+      // Create and set ~service decorator
+      message.service = await this.createServiceDecorator()
+
+      // Save ~service decorator to the stored message (to remember our verkey)
+      await this.didCommMessageRepository.saveOrUpdateAgentMessage({
+        agentMessage: message,
+        role: DidCommMessageRole.Sender,
+        associatedRecordId: proofRecord.id,
+      })
+
+      return { proofRecord, requestMessage: message }
+    }
+
     const nonce = proofRequestOptions.nonce ?? (await this.proofService.generateProofRequestNonce())
 
     const proofRequest = new ProofRequest({
@@ -199,12 +346,7 @@ export class ProofsModule {
     const { message, proofRecord } = await this.proofService.createRequest(proofRequest, undefined, config)
 
     // Create and set ~service decorator
-    const routing = await this.routingService.getRouting()
-    message.service = new ServiceDecorator({
-      serviceEndpoint: routing.endpoints[0],
-      recipientKeys: [routing.recipientKey.publicKeyBase58],
-      routingKeys: routing.routingKeys.map((key) => key.publicKeyBase58),
-    })
+    message.service = await this.createServiceDecorator()
 
     // Save ~service decorator to record (to remember our verkey)
     proofRecord.requestMessage = message
@@ -231,6 +373,11 @@ export class ProofsModule {
     }
   ): Promise<ProofRecord> {
     const record = await this.proofService.getById(proofRecordId)
+
+    if (record.protocolVersion === 'v2') {
+      return this.acceptV2Request(record, { indy: requestedCredentials }, config)
+    }
+
     const { message, proofRecord } = await this.proofService.createPresentation(record, requestedCredentials, config)
 
     // Use connection if present
@@ -245,12 +392,7 @@ export class ProofsModule {
     // Use ~service decorator otherwise
     else if (proofRecord.requestMessage?.service) {
       // Create ~service decorator
-      const routing = await this.routingService.getRouting()
-      const ourService = new ServiceDecorator({
-        serviceEndpoint: routing.endpoints[0],
-        recipientKeys: [routing.recipientKey.publicKeyBase58],
-        routingKeys: routing.routingKeys.map((key) => key.publicKeyBase58),
-      })
+      const ourService = await this.createServiceDecorator()
 
       const recipientService = proofRecord.requestMessage.service
 
@@ -276,6 +418,35 @@ export class ProofsModule {
     }
   }
 
+  /**
+   * Accept a present proof v2 request containing a DIF presentation definition as prover, by sending a verifiable
+   * presentation with a presentation submission to the connection associated with the proof record.
+   *
+   * @param proofRecordId The id of the proof record for which to accept the request
+   * @param acceptOptions The credentials to submit and the verification method to sign the presentation with.
+   *  The credentials and verification method are selected automatically if not provided
+   * @param config Additional configuration to use for the presentation
+   * @returns Proof record associated with the sent presentation message
+   *
+   */
+  public async acceptPresentationExchangeRequest(
+    proofRecordId: string,
+    acceptOptions: PresentationExchangeAcceptProofRequestFormat = {},
+    config?: {
+      comment?: string
+    }
+  ): Promise<ProofRecord> {
+    const record = await this.proofService.getById(proofRecordId)
+
+    if (record.protocolVersion !== 'v2') {
+      throw new AriesFrameworkError(
+        `Presentation exchange requests are only supported for present proof v2 exchanges. Proof record ${record.id} uses protocol version ${record.protocolVersion}`
+      )
+    }
+
+    return this.acceptV2Request(record, { presentationExchange: acceptOptions }, config)
+  }
+
   /**
    * Declines a proof request as holder
    * @param proofRecordId the id of the proof request to be declined
@@ -283,7 +454,13 @@ export class ProofsModule {
    */
   public async declineRequest(proofRecordId: string) {
     const proofRecord = await this.proofService.getById(proofRecordId)
-    await this.proofService.declineRequest(proofRecord)
+
+    if (proofRecord.protocolVersion === 'v2') {
+      await this.v2ProofService.declineRequest(proofRecord)
+    } else {
+      await this.proofService.declineRequest(proofRecord)
+    }
+
     return proofRecord
   }
 
@@ -297,6 +474,11 @@ export class ProofsModule {
    */
   public async acceptPresentation(proofRecordId: string): Promise<ProofRecord> {
     const record = await this.proofService.getById(proofRecordId)
+
+    if (record.protocolVersion === 'v2') {
+      return this.acceptV2Presentation(record)
+    }
+
     const { message, proofRecord } = await this.proofService.createAck(record)
 
     // Use connection if present
@@ -346,6 +528,21 @@ export class ProofsModule {
   ): Promise<RetrievedCredentials> {
     const proofRecord = await this.proofService.getById(proofRecordId)
 
+    if (proofRecord.protocolVersion === 'v2') {
+      const { request } = await this.v2ProofService.getFormatData(proofRecord.id)
+
+      if (!request?.indy) {
+        throw new AriesFrameworkError(
+          'Unable to get requested credentials for proof request. No proof request message was found or the proof request message does not contain an indy proof request.'
+        )
+      }
+
+      return this.proofService.getRequestedCredentialsForProofRequest(
+        JsonTransformer.fromJSON(request.indy, ProofRequest),
+        { filterByNonRevocationRequirements: config?.filterByNonRevocationRequirements ?? true }
+      )
+    }
+
     const indyProofRequest = proofRecord.requestMessage?.indyProofRequest
     const presentationPreview = config?.filterByPresentationPreview
       ? proofRecord.proposalMessage?.presentationProposal
@@ -389,12 +586,15 @@ export class ProofsModule {
       throw new AriesFrameworkError(`No connectionId found for proof record '${record.id}'.`)
     }
     const connection = await this.connectionService.getById(record.connectionId)
-    const presentationProblemReportMessage = new PresentationProblemReportMessage({
-      description: {
-        en: message,
-        code: PresentationProblemReportReason.Abandoned,
-      },
-    })
+    const presentationProblemReportMessage =
+      record.protocolVersion === 'v2'
+        ? this.v2ProofService.createProblemReport({ message })
+        : new PresentationProblemReportMessage({
+            description: {
+              en: message,
+              code: PresentationProblemReportReason.Abandoned,
+            },
+          })
     presentationProblemReportMessage.setThread({
       threadId: record.threadId,
       parentThreadId: record.parentThreadId,
@@ -408,10 +608,11 @@ export class ProofsModule {
   /**
    * Retrieve all proof records
    *
+   * @param queryOptions options to paginate and sort the proof records
    * @returns List containing all proof records
    */
-  public getAll(): Promise<ProofRecord[]> {
-    return this.proofService.getAll()
+  public getAll(queryOptions?: QueryOptions): Promise<ProofRecord[]> {
+    return this.proofService.getAll(queryOptions)
   }
 
   /**
@@ -444,9 +645,34 @@ export class ProofsModule {
    * @param proofId the proof record id
    */
   public async deleteById(proofId: string) {
+    const proofRecord = await this.proofService.getById(proofId)
+
+    if (proofRecord.protocolVersion === 'v2') {
+      return this.v2ProofService.delete(proofRecord)
+    }
+
     return this.proofService.deleteById(proofId)
   }
 
+  /**
+   * Get the format data (e.g. the indy proof request) of the messages exchanged for a present proof v2 exchange,
+   * keyed by proof format.
+   *
+   * @param proofRecordId The id of the proof record
+   * @returns The format data of the proposal, request and presentation messages
+   */
+  public async getFormatData(proofRecordId: string): Promise<GetProofFormatDataReturn> {
+    const proofRecord = await this.proofService.getById(proofRecordId)
+
+    if (proofRecord.protocolVersion !== 'v2') {
+      throw new AriesFrameworkError(
+        `Format data is only available for present proof v2 exchanges. Proof record ${proofRecord.id} uses protocol version v1`
+      )
+    }
+
+    return this.v2ProofService.getFormatData(proofRecord.id)
+  }
+
   /**
    * Retrieve a proof record by connection id and thread id
    *
@@ -471,6 +697,101 @@ export class ProofsModule {
     return this.proofService.getByParentThreadAndConnectionId(parentThreadId, connectionId)
   }
 
+  private async acceptV2Request(
+    record: ProofRecord,
+    proofFormats: ProofFormatPayload<[IndyProofFormat, PresentationExchangeProofFormat], 'acceptRequest'>,
+    config?: { comment?: string }
+  ) {
+    const { message, proofRecord } = await this.v2ProofService.acceptRequest({
+      proofRecord: record,
+      proofFormats,
+      comment: config?.comment,
+    })
+
+    // Use connection if present
+    if (proofRecord.connectionId) {
+      const connection = await this.connectionService.getById(proofRecord.connectionId)
+      await this.messageSender.sendMessage(createOutboundMessage(connection, message))
+
+      return proofRecord
+    }
+
+    const requestMessage = await this.v2ProofService.findRequestMessage(proofRecord.id)
+
+    // Use ~service decorator otherwise
+    if (requestMessage?.service) {
+      const ourService = await this.createServiceDecorator()
+      const recipientService = requestMessage.service
+
+      // Set and save ~service decorator to the stored message (to remember our verkey)
+      message.service = ourService
+      await this.didCommMessageRepository.saveOrUpdateAgentMessage({
+        agentMessage: message,
+        role: DidCommMessageRole.Sender,
+        associatedRecordId: proofRecord.id,
+      })
+
+      await this.messageSender.sendMessageToService({
+        message,
+        service: recipientService.resolvedDidCommService,
+        senderKey: ourService.resolvedDidCommService.recipientKeys[0],
+        returnRoute: true,
+      })
+
+      return proofRecord
+    }
+
+    // Cannot send message without connectionId or ~service decorator
+    throw new AriesFrameworkError(
+      `Cannot accept presentation request without connectionId or ~service decorator on presentation request.`
+    )
+  }
+
+  private async acceptV2Presentation(record: ProofRecord) {
+    const { message, proofRecord } = await this.v2ProofService.acceptPresentation({ proofRecord: record })
+
+    // Use connection if present
+    if (proofRecord.connectionId) {
+      const connection = await this.connectionService.getById(proofRecord.connectionId)
+      await this.messageSender.sendMessage(createOutboundMessage(connection, message))
+
+      return proofRecord
+    }
+
+    const requestMessage = await this.v2ProofService.findRequestMessage(proofRecord.id)
+    const presentationMessage = await this.didCommMessageRepository.findAgentMessage({
+      associatedRecordId: proofRecord.id,
+      messageClass: V2PresentationMessage,
+    })
+
+    // Use ~service decorator otherwise
+    if (requestMessage?.service && presentationMessage?.service) {
+      await this.messageSender.sendMessageToService({
+        message,
+        service: presentationMessage.service.resolvedDidCommService,
+        senderKey: requestMessage.service.resolvedDidCommService.recipientKeys[0],
+        returnRoute: true,
+      })
+
+      return proofRecord
+    }
+
+    // Cannot send message without connectionId or ~service decorator
+    throw new AriesFrameworkError(
+      `Cannot accept presentation without connectionId or ~service decorator on presentation message.`
+    )
+  }
+
+  private async createServiceDecorator() {
+    const routing = await this.routingService.getRouting()
+
+    return new ServiceDecorator({
+      serviceEndpoint: routing.endpoints[0],
+      recipientKeys: [routing.recipientKey.publicKeyBase58],
+      routingKeys: routing.routingKeys.map((key) => key.publicKeyBase58),
+    })
+  }
+
   private registerHandlers(dispatcher: Dispatcher) {
     dispatcher.registerHandler(
       new ProposePresentationHandler(this.proofService, this.agentConfig, this.proofResponseCoordinator)
@@ -499,9 +820,16 @@ export class ProofsModule {
 
     // Services
     dependencyManager.registerSingleton(ProofService)
+    dependencyManager.registerSingleton(V2ProofService)
+    dependencyManager.registerSingleton(IndyProofFormatService)
+    dependencyManager.registerSingleton(PresentationExchangeProofFormatService)
+    dependencyManager.registerSingleton(ProofResponseCoordinator)
 
     // Repositories
     dependencyManager.registerSingleton(ProofRepository)
+
+    // Records
+    dependencyManager.registerRecordClasses(ProofRecord)
   }
 }
 
@@ -513,6 +841,13 @@ export interface ProofRequestConfig {
   comment?: string
   autoAcceptProof?: AutoAcceptProof
   parentThreadId?: string
+
+  /**
+   * The version of the present proof protocol to use for the request.
+   *
+   * @default 'v1'
+   */
+  protocolVersion?: ProofProtocolVersionType
 }
 
 export interface GetRequestedCredentialsConfig {
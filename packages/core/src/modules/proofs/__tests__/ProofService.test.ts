@@ -240,10 +240,12 @@ describe('ProofService', () => {
     })
 
     test(`updates problem report error message and returns proof record`, async () => {
-      const repositoryUpdateSpy = jest.spyOn(proofRepository, 'update')
-
       // given
       mockFunction(proofRepository.getSingleByQuery).mockReturnValue(Promise.resolve(proof))
+      mockFunction(proofRepository.updateWithRetry).mockImplementation(async (_, update) => {
+        await update(proof)
+        return proof
+      })
 
       // when
       const returnedCredentialRecord = await proofService.processProblemReport(messageContext)
@@ -256,9 +258,7 @@ describe('ProofService', () => {
         threadId: 'somethreadid',
         connectionId: connection.id,
       })
-      expect(repositoryUpdateSpy).toHaveBeenCalledTimes(1)
-      const [[updatedCredentialRecord]] = repositoryUpdateSpy.mock.calls
-      expect(updatedCredentialRecord).toMatchObject(expectedCredentialRecord)
+      expect(proofRepository.updateWithRetry).toHaveBeenCalledWith(proof.id, expect.any(Function))
       expect(returnedCredentialRecord).toMatchObject(expectedCredentialRecord)
     })
   })
@@ -0,0 +1,66 @@
+import type { ProofFormat } from './ProofFormat'
+import type {
+  ProofFormatAcceptProposalOptions,
+  ProofFormatAcceptRequestOptions,
+  ProofFormatAutoRespondPresentationOptions,
+  ProofFormatAutoRespondProposalOptions,
+  ProofFormatAutoRespondRequestOptions,
+  ProofFormatCreateProposalOptions,
+  ProofFormatCreateRequestOptions,
+  ProofFormatCreateReturn,
+  ProofFormatProcessOptions,
+  ProofFormatProcessPresentationOptions,
+} from './ProofFormatServiceOptions'
+
+import { Attachment, AttachmentData } from '../../../decorators/attachment/Attachment'
+import { JsonEncoder } from '../../../utils/JsonEncoder'
+
+export abstract class ProofFormatService<PF extends ProofFormat = ProofFormat> {
+  abstract readonly formatKey: PF['formatKey']
+
+  // proposal methods
+  abstract createProposal(options: ProofFormatCreateProposalOptions<PF>): Promise<ProofFormatCreateReturn>
+  abstract processProposal(options: ProofFormatProcessOptions): Promise<void>
+  abstract acceptProposal(options: ProofFormatAcceptProposalOptions<PF>): Promise<ProofFormatCreateReturn>
+
+  // request methods
+  abstract createRequest(options: ProofFormatCreateRequestOptions<PF>): Promise<ProofFormatCreateReturn>
+  abstract processRequest(options: ProofFormatProcessOptions): Promise<void>
+  abstract acceptRequest(options: ProofFormatAcceptRequestOptions<PF>): Promise<ProofFormatCreateReturn>
+
+  // presentation methods
+
+  /**
+   * Process a received presentation attachment.
+   *
+   * @returns whether the presentation could be verified against the request attachment
+   */
+  abstract processPresentation(options: ProofFormatProcessPresentationOptions): Promise<boolean>
+
+  // auto accept methods
+  abstract shouldAutoRespondToProposal(options: ProofFormatAutoRespondProposalOptions): boolean
+  abstract shouldAutoRespondToRequest(options: ProofFormatAutoRespondRequestOptions): boolean
+  abstract shouldAutoRespondToPresentation(options: ProofFormatAutoRespondPresentationOptions): boolean
+
+  abstract supportsFormat(format: string): boolean
+
+  /**
+   * Returns an object of type {@link Attachment} for use in presentation exchange messages.
+   * It looks up the correct format identifier and encodes the data as a base64 attachment.
+   *
+   * @param data The data to include in the attach object
+   * @param id the attach id from the formats component of the message
+   * @returns attachment to the presentation exchange message
+   */
+  protected getFormatData(data: unknown, id: string): Attachment {
+    const attachment = new Attachment({
+      id,
+      mimeType: 'application/json',
+      data: new AttachmentData({
+        base64: JsonEncoder.toBase64(data),
+      }),
+    })
+
+    return attachment
+  }
+}
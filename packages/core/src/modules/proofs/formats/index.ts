@@ -0,0 +1,5 @@
+export * from './ProofFormat'
+export * from './ProofFormatService'
+export * from './ProofFormatServiceOptions'
+export * from './indy'
+export * from './presentation-exchange'
@@ -0,0 +1,61 @@
+import type { IndyRevocationInterval } from '../../../credentials'
+import type { PresentationPreviewAttribute, PresentationPreviewPredicate } from '../../messages'
+import type { ProofAttributeInfo, ProofPredicateInfo, RequestedCredentialsOptions } from '../../models'
+import type { ProofFormat } from '../ProofFormat'
+import type { IndyProof, IndyProofRequest } from 'indy-sdk'
+
+/**
+ * This defines the module payload for calling V2ProofService.createProposal.
+ * The proposed attributes and predicates are transformed into an indy proof request.
+ */
+export interface IndyProposeProofFormat {
+  name?: string
+  version?: string
+  nonce?: string
+  attributes?: PresentationPreviewAttribute[]
+  predicates?: PresentationPreviewPredicate[]
+}
+
+/**
+ * This defines the module payload for calling V2ProofService.acceptProposal
+ */
+export interface IndyAcceptProofProposalFormat {
+  name?: string
+  version?: string
+  nonce?: string
+}
+
+/**
+ * This defines the module payload for calling V2ProofService.createRequest
+ */
+export interface IndyRequestProofFormat {
+  name?: string
+  version?: string
+  nonce?: string
+  nonRevoked?: IndyRevocationInterval
+  requestedAttributes?: Record<string, ProofAttributeInfo> | Map<string, ProofAttributeInfo>
+  requestedPredicates?: Record<string, ProofPredicateInfo> | Map<string, ProofPredicateInfo>
+}
+
+/**
+ * This defines the module payload for calling V2ProofService.acceptRequest. If no requested
+ * credentials are provided, the credentials are selected automatically.
+ */
+export type IndyAcceptProofRequestFormat = RequestedCredentialsOptions
+
+export interface IndyProofFormat extends ProofFormat {
+  formatKey: 'indy'
+  proofFormats: {
+    createProposal: IndyProposeProofFormat
+    acceptProposal: IndyAcceptProofProposalFormat
+    createRequest: IndyRequestProofFormat
+    acceptRequest: IndyAcceptProofRequestFormat
+  }
+  // Format data is based on RFC 0592
+  // https://github.com/hyperledger/aries-rfcs/tree/main/features/0592-indy-attachments
+  formatData: {
+    proposal: IndyProofRequest
+    request: IndyProofRequest
+    presentation: IndyProof
+  }
+}
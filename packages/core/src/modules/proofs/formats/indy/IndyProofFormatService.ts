@@ -0,0 +1,275 @@
+import type { Attachment } from '../../../../decorators/attachment/Attachment'
+import type {
+  ProofFormatAcceptProposalOptions,
+  ProofFormatAcceptRequestOptions,
+  ProofFormatAutoRespondPresentationOptions,
+  ProofFormatAutoRespondProposalOptions,
+  ProofFormatAutoRespondRequestOptions,
+  ProofFormatCreateProposalOptions,
+  ProofFormatCreateRequestOptions,
+  ProofFormatCreateReturn,
+  ProofFormatProcessOptions,
+  ProofFormatProcessPresentationOptions,
+} from '../ProofFormatServiceOptions'
+import type { IndyProofFormat } from './IndyProofFormat'
+import type { IndyProof } from 'indy-sdk'
+
+import { AriesFrameworkError } from '../../../../error'
+import { injectable } from '../../../../plugins'
+import { JsonEncoder } from '../../../../utils/JsonEncoder'
+import { JsonTransformer } from '../../../../utils/JsonTransformer'
+import { MessageValidator } from '../../../../utils/MessageValidator'
+import { checkProofRequestForDuplicates } from '../../../../utils/indyProofRequest'
+import { PresentationProblemReportError, PresentationProblemReportReason } from '../../errors'
+import { PresentationPreview, PresentationPreviewAttribute } from '../../messages/PresentationPreview'
+import { ProofFormatSpec } from '../../models/ProofFormatSpec'
+import { ProofRequest } from '../../models/ProofRequest'
+import { RequestedCredentials } from '../../models/RequestedCredentials'
+import { ProofService } from '../../services/ProofService'
+import { ProofFormatService } from '../ProofFormatService'
+
+const INDY_PROOF_REQUEST = 'hlindy/proof-req@v2.0'
+const INDY_PROOF = 'hlindy/proof@v2.0'
+
+/**
+ * Indy proof format for the present proof v2 protocol. The anoncreds specific logic (creating and verifying proofs,
+ * retrieving credentials for a proof request) is shared with the present proof v1 {@link ProofService}.
+ *
+ * @see https://github.com/hyperledger/aries-rfcs/tree/main/features/0592-indy-attachments#present-proof-attachment-formats
+ */
+@injectable()
+export class IndyProofFormatService extends ProofFormatService<IndyProofFormat> {
+  private proofService: ProofService
+
+  public constructor(proofService: ProofService) {
+    super()
+    this.proofService = proofService
+  }
+
+  public readonly formatKey = 'indy' as const
+
+  public async createProposal({
+    proofFormats,
+    attachId,
+  }: ProofFormatCreateProposalOptions<IndyProofFormat>): Promise<ProofFormatCreateReturn> {
+    const indyFormat = proofFormats.indy
+
+    if (!indyFormat) {
+      throw new AriesFrameworkError('Missing indy payload in createProposal')
+    }
+
+    const proofRequest = await this.proofService.createProofRequestFromProposal(
+      new PresentationPreview({
+        attributes: indyFormat.attributes,
+        predicates: indyFormat.predicates,
+      }),
+      {
+        name: indyFormat.name ?? 'proof-request',
+        version: indyFormat.version ?? '1.0',
+        nonce: indyFormat.nonce,
+      }
+    )
+
+    return this.createProofRequestAttachment(proofRequest, attachId)
+  }
+
+  public async processProposal({ attachment }: ProofFormatProcessOptions): Promise<void> {
+    this.getProofRequestFromAttachment(attachment)
+  }
+
+  public async acceptProposal({
+    proofFormats,
+    proposalAttachment,
+    attachId,
+  }: ProofFormatAcceptProposalOptions<IndyProofFormat>): Promise<ProofFormatCreateReturn> {
+    const indyFormat = proofFormats?.indy
+    const proposedProofRequest = this.getProofRequestFromAttachment(proposalAttachment)
+
+    // The nonce must always be generated by the verifier, so we never reuse the nonce from the proposal
+    const proofRequest = new ProofRequest({
+      name: indyFormat?.name ?? proposedProofRequest.name,
+      version: indyFormat?.version ?? proposedProofRequest.version,
+      nonce: indyFormat?.nonce ?? (await this.proofService.generateProofRequestNonce()),
+      nonRevoked: proposedProofRequest.nonRevoked,
+      requestedAttributes: proposedProofRequest.requestedAttributes,
+      requestedPredicates: proposedProofRequest.requestedPredicates,
+    })
+
+    return this.createProofRequestAttachment(proofRequest, attachId)
+  }
+
+  public async createRequest({
+    proofFormats,
+    attachId,
+  }: ProofFormatCreateRequestOptions<IndyProofFormat>): Promise<ProofFormatCreateReturn> {
+    const indyFormat = proofFormats.indy
+
+    if (!indyFormat) {
+      throw new AriesFrameworkError('Missing indy payload in createRequest')
+    }
+
+    const proofRequest = new ProofRequest({
+      name: indyFormat.name ?? 'proof-request',
+      version: indyFormat.version ?? '1.0',
+      nonce: indyFormat.nonce ?? (await this.proofService.generateProofRequestNonce()),
+      nonRevoked: indyFormat.nonRevoked,
+      requestedAttributes: indyFormat.requestedAttributes,
+      requestedPredicates: indyFormat.requestedPredicates,
+    })
+
+    return this.createProofRequestAttachment(proofRequest, attachId)
+  }
+
+  public async processRequest({ attachment }: ProofFormatProcessOptions): Promise<void> {
+    this.getProofRequestFromAttachment(attachment)
+  }
+
+  public async acceptRequest({
+    proofFormats,
+    requestAttachment,
+    proposalAttachment,
+    attachId,
+  }: ProofFormatAcceptRequestOptions<IndyProofFormat>): Promise<ProofFormatCreateReturn> {
+    const proofRequest = this.getProofRequestFromAttachment(requestAttachment)
+
+    let requestedCredentials: RequestedCredentials
+    if (proofFormats?.indy) {
+      requestedCredentials = new RequestedCredentials(proofFormats.indy)
+    } else {
+      // Use the proposal (if we sent one) to improve the credential selection
+      const proposedProofRequest = proposalAttachment
+        ? this.getProofRequestFromAttachment(proposalAttachment)
+        : undefined
+
+      const retrievedCredentials = await this.proofService.getRequestedCredentialsForProofRequest(proofRequest, {
+        presentationProposal: proposedProofRequest ? this.getPresentationPreview(proposedProofRequest) : undefined,
+        filterByNonRevocationRequirements: true,
+      })
+
+      requestedCredentials = this.proofService.autoSelectCredentialsForProofRequest(retrievedCredentials)
+    }
+
+    const proof = await this.proofService.createProof(proofRequest, requestedCredentials)
+
+    const format = new ProofFormatSpec({
+      attachId,
+      format: INDY_PROOF,
+    })
+    const attachment = this.getFormatData(proof, format.attachId)
+
+    return { format, attachment }
+  }
+
+  public async processPresentation({
+    attachment,
+    requestAttachment,
+  }: ProofFormatProcessPresentationOptions): Promise<boolean> {
+    const proofJson = attachment.getDataAsJson<IndyProof>()
+
+    if (!proofJson) {
+      throw new PresentationProblemReportError('Missing indy proof data payload', {
+        problemCode: PresentationProblemReportReason.Abandoned,
+      })
+    }
+
+    const proofRequest = this.getProofRequestFromAttachment(requestAttachment)
+
+    return this.proofService.verifyProof(proofJson, proofRequest)
+  }
+
+  public shouldAutoRespondToProposal({
+    proposalAttachment,
+    requestAttachment,
+  }: ProofFormatAutoRespondProposalOptions): boolean {
+    return this.areProofRequestsEqual(proposalAttachment, requestAttachment)
+  }
+
+  public shouldAutoRespondToRequest({
+    proposalAttachment,
+    requestAttachment,
+  }: ProofFormatAutoRespondRequestOptions): boolean {
+    return this.areProofRequestsEqual(proposalAttachment, requestAttachment)
+  }
+
+  // The presentation is verified while processing, so there is nothing more to check here
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public shouldAutoRespondToPresentation(options: ProofFormatAutoRespondPresentationOptions): boolean {
+    return true
+  }
+
+  public supportsFormat(format: string): boolean {
+    return [INDY_PROOF_REQUEST, INDY_PROOF].includes(format)
+  }
+
+  private createProofRequestAttachment(proofRequest: ProofRequest, attachId?: string): ProofFormatCreateReturn {
+    // Assert attribute and predicate (group) names do not match
+    checkProofRequestForDuplicates(proofRequest)
+
+    const format = new ProofFormatSpec({
+      attachId,
+      format: INDY_PROOF_REQUEST,
+    })
+    const attachment = this.getFormatData(proofRequest.toJSON(), format.attachId)
+
+    return { format, attachment }
+  }
+
+  private getProofRequestFromAttachment(attachment: Attachment): ProofRequest {
+    const proofRequestJson = attachment.getDataAsJson<ProofRequest>()
+
+    if (!proofRequestJson) {
+      throw new PresentationProblemReportError('Missing indy proof request data payload', {
+        problemCode: PresentationProblemReportReason.Abandoned,
+      })
+    }
+
+    const proofRequest = JsonTransformer.fromJSON(proofRequestJson, ProofRequest)
+    MessageValidator.validateSync(proofRequest)
+
+    // Assert attribute and predicate (group) names do not match
+    checkProofRequestForDuplicates(proofRequest)
+
+    return proofRequest
+  }
+
+  /**
+   * Two proof requests are considered equal when they request the same attributes and predicates,
+   * with the same restrictions. The name, version and nonce are not taken into account, as the
+   * verifier is expected to generate its own nonce when responding to a proposal.
+   */
+  private areProofRequestsEqual(firstAttachment: Attachment, secondAttachment: Attachment) {
+    const firstRequest = this.getProofRequestFromAttachment(firstAttachment).toJSON()
+    const secondRequest = this.getProofRequestFromAttachment(secondAttachment).toJSON()
+
+    return (
+      JsonEncoder.toString(firstRequest.requested_attributes) ===
+        JsonEncoder.toString(secondRequest.requested_attributes) &&
+      JsonEncoder.toString(firstRequest.requested_predicates) ===
+        JsonEncoder.toString(secondRequest.requested_predicates)
+    )
+  }
+
+  /**
+   * Transform a proposed proof request back into a presentation preview, so it can be used
+   * to improve credential selection when accepting a request.
+   */
+  private getPresentationPreview(proofRequest: ProofRequest): PresentationPreview {
+    const attributes: PresentationPreviewAttribute[] = []
+
+    for (const [referent, requestedAttribute] of proofRequest.requestedAttributes.entries()) {
+      const names = requestedAttribute.names ?? (requestedAttribute.name ? [requestedAttribute.name] : [])
+
+      for (const name of names) {
+        attributes.push(
+          new PresentationPreviewAttribute({
+            name,
+            referent,
+            credentialDefinitionId: requestedAttribute.restrictions?.[0]?.credentialDefinitionId,
+          })
+        )
+      }
+    }
+
+    return new PresentationPreview({ attributes, predicates: [] })
+  }
+}
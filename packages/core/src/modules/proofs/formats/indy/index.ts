@@ -0,0 +1,2 @@
+export * from './IndyProofFormat'
+export * from './IndyProofFormatService'
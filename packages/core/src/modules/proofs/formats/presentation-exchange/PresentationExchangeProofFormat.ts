@@ -0,0 +1,90 @@
+import type { W3cProofType } from '../../../vc/models/W3cCredentialServiceOptions'
+import type { ProofFormat } from '../ProofFormat'
+import type { InputDescriptor, PresentationDefinition } from './models/PresentationDefinition'
+import type { PresentationSubmission } from './models/PresentationSubmission'
+
+export interface PresentationExchangeRequestOptions {
+  /**
+   * The challenge the presentation must be bound to. Generated if not provided.
+   */
+  challenge?: string
+  domain?: string
+}
+
+/**
+ * This defines the module payload for calling V2ProofService.createProposal
+ */
+export interface PresentationExchangeProposeProofFormat {
+  inputDescriptors: InputDescriptor[]
+}
+
+/**
+ * This defines the module payload for calling V2ProofService.acceptProposal. If no presentation definition
+ * is provided, a presentation definition is created from the proposed input descriptors.
+ */
+export interface PresentationExchangeAcceptProofProposalFormat {
+  presentationDefinition?: PresentationDefinition
+  options?: PresentationExchangeRequestOptions
+}
+
+/**
+ * This defines the module payload for calling V2ProofService.createRequest
+ */
+export interface PresentationExchangeRequestProofFormat {
+  presentationDefinition: PresentationDefinition
+  options?: PresentationExchangeRequestOptions
+}
+
+/**
+ * This defines the module payload for calling V2ProofService.acceptRequest. If no credentials are provided,
+ * the credentials are selected automatically.
+ */
+export interface PresentationExchangeAcceptProofRequestFormat {
+  /**
+   * Mapping of input descriptor id to the id of the w3c credential record to submit for the input descriptor
+   */
+  credentials?: Record<string, string>
+
+  /**
+   * The verification method to sign the presentation with. Defaults to the first authentication
+   * verification method of the subject of the submitted credentials.
+   */
+  verificationMethod?: string
+  proofType?: W3cProofType
+}
+
+export interface PresentationExchangeProposal {
+  input_descriptors: InputDescriptor[]
+}
+
+export interface PresentationExchangeRequest {
+  options: {
+    challenge: string
+    domain?: string
+  }
+  presentation_definition: PresentationDefinition
+}
+
+/**
+ * JSON representation of a verifiable presentation with a presentation submission
+ */
+export type PresentationExchangePresentation = Record<string, unknown> & {
+  presentation_submission: PresentationSubmission
+}
+
+export interface PresentationExchangeProofFormat extends ProofFormat {
+  formatKey: 'presentationExchange'
+  proofFormats: {
+    createProposal: PresentationExchangeProposeProofFormat
+    acceptProposal: PresentationExchangeAcceptProofProposalFormat
+    createRequest: PresentationExchangeRequestProofFormat
+    acceptRequest: PresentationExchangeAcceptProofRequestFormat
+  }
+  // Format data is based on RFC 0510
+  // https://github.com/hyperledger/aries-rfcs/tree/main/features/0510-dif-pres-exch-attach
+  formatData: {
+    proposal: PresentationExchangeProposal
+    request: PresentationExchangeRequest
+    presentation: PresentationExchangePresentation
+  }
+}
@@ -0,0 +1,488 @@
+import type { Attachment } from '../../../../decorators/attachment/Attachment'
+import type { Logger } from '../../../../logger'
+import type { JsonObject } from '../../../../types'
+import type { W3cProofType } from '../../../vc/models/W3cCredentialServiceOptions'
+import type { W3cCredentialRecord } from '../../../vc/repository'
+import type {
+  ProofFormatAcceptProposalOptions,
+  ProofFormatAcceptRequestOptions,
+  ProofFormatAutoRespondPresentationOptions,
+  ProofFormatAutoRespondProposalOptions,
+  ProofFormatAutoRespondRequestOptions,
+  ProofFormatCreateProposalOptions,
+  ProofFormatCreateRequestOptions,
+  ProofFormatCreateReturn,
+  ProofFormatProcessOptions,
+  ProofFormatProcessPresentationOptions,
+} from '../ProofFormatServiceOptions'
+import type {
+  PresentationExchangePresentation,
+  PresentationExchangeProofFormat,
+  PresentationExchangeProposal,
+  PresentationExchangeRequest,
+} from './PresentationExchangeProofFormat'
+import type { PresentationDefinition } from './models/PresentationDefinition'
+
+import { AgentConfig } from '../../../../agent/AgentConfig'
+import { AriesFrameworkError } from '../../../../error'
+import { injectable } from '../../../../plugins'
+import { JsonEncoder } from '../../../../utils/JsonEncoder'
+import { JsonTransformer } from '../../../../utils/JsonTransformer'
+import { MessageValidator } from '../../../../utils/MessageValidator'
+import { isJsonObject, isString } from '../../../../utils/type'
+import { uuid } from '../../../../utils/uuid'
+import { DidResolverService } from '../../../dids/services/DidResolverService'
+import { W3cCredentialService } from '../../../vc/W3cCredentialService'
+import {
+  CREDENTIALS_CONTEXT_V1_URL,
+  PRESENTATION_SUBMISSION_CONTEXT_V1_URL,
+  PRESENTATION_SUBMISSION_TYPE,
+  VERIFIABLE_PRESENTATION_TYPE,
+} from '../../../vc/constants'
+import { W3cPresentation } from '../../../vc/models/presentation/W3cPresentation'
+import { W3cVerifiablePresentation } from '../../../vc/models/presentation/W3cVerifiablePresentation'
+import { Ed25519Signature2018, Ed25519Signature2020 } from '../../../vc/signature-suites'
+import { PresentationProblemReportError, PresentationProblemReportReason } from '../../errors'
+import { ProofFormatSpec } from '../../models/ProofFormatSpec'
+import { ProofFormatService } from '../ProofFormatService'
+
+import { PresentationExchangeUtils } from './PresentationExchangeUtils'
+
+const PRESENTATION_EXCHANGE_DEFINITION = 'dif/presentation-exchange/definitions@v1.0'
+const PRESENTATION_EXCHANGE_SUBMISSION = 'dif/presentation-exchange/submission@v1.0'
+
+const SUPPORTED_PROOF_TYPES: W3cProofType[] = [Ed25519Signature2018.proofType, Ed25519Signature2020.proofType]
+
+/**
+ * DIF Presentation Exchange proof format for the present proof v2 protocol. The holder submits W3C credentials
+ * stored by the {@link W3cCredentialService} in a verifiable presentation signed with linked data proofs.
+ *
+ * @see https://github.com/hyperledger/aries-rfcs/tree/main/features/0510-dif-pres-exch-attach
+ */
+@injectable()
+export class PresentationExchangeProofFormatService extends ProofFormatService<PresentationExchangeProofFormat> {
+  private w3cCredentialService: W3cCredentialService
+  private didResolverService: DidResolverService
+  private logger: Logger
+
+  public constructor(
+    w3cCredentialService: W3cCredentialService,
+    didResolverService: DidResolverService,
+    agentConfig: AgentConfig
+  ) {
+    super()
+    this.w3cCredentialService = w3cCredentialService
+    this.didResolverService = didResolverService
+    this.logger = agentConfig.logger
+  }
+
+  public readonly formatKey = 'presentationExchange' as const
+
+  public async createProposal({
+    proofFormats,
+    attachId,
+  }: ProofFormatCreateProposalOptions<PresentationExchangeProofFormat>): Promise<ProofFormatCreateReturn> {
+    const presentationExchangeFormat = proofFormats.presentationExchange
+
+    if (!presentationExchangeFormat) {
+      throw new AriesFrameworkError('Missing presentation exchange payload in createProposal')
+    }
+
+    const proposal: PresentationExchangeProposal = {
+      input_descriptors: presentationExchangeFormat.inputDescriptors,
+    }
+
+    return this.createDefinitionAttachment(proposal, attachId)
+  }
+
+  public async processProposal({ attachment }: ProofFormatProcessOptions): Promise<void> {
+    this.getProposalFromAttachment(attachment)
+  }
+
+  public async acceptProposal({
+    proofFormats,
+    proposalAttachment,
+    attachId,
+  }: ProofFormatAcceptProposalOptions<PresentationExchangeProofFormat>): Promise<ProofFormatCreateReturn> {
+    const presentationExchangeFormat = proofFormats?.presentationExchange
+    const proposal = this.getProposalFromAttachment(proposalAttachment)
+
+    const request: PresentationExchangeRequest = {
+      options: {
+        challenge: presentationExchangeFormat?.options?.challenge ?? uuid(),
+        domain: presentationExchangeFormat?.options?.domain,
+      },
+      presentation_definition: presentationExchangeFormat?.presentationDefinition ?? {
+        id: uuid(),
+        input_descriptors: proposal.input_descriptors,
+      },
+    }
+
+    return this.createDefinitionAttachment(request, attachId)
+  }
+
+  public async createRequest({
+    proofFormats,
+    attachId,
+  }: ProofFormatCreateRequestOptions<PresentationExchangeProofFormat>): Promise<ProofFormatCreateReturn> {
+    const presentationExchangeFormat = proofFormats.presentationExchange
+
+    if (!presentationExchangeFormat) {
+      throw new AriesFrameworkError('Missing presentation exchange payload in createRequest')
+    }
+
+    const request: PresentationExchangeRequest = {
+      options: {
+        // The challenge must always be generated by the verifier, to prevent replay of presentations
+        challenge: presentationExchangeFormat.options?.challenge ?? uuid(),
+        domain: presentationExchangeFormat.options?.domain,
+      },
+      presentation_definition: presentationExchangeFormat.presentationDefinition,
+    }
+
+    return this.createDefinitionAttachment(request, attachId)
+  }
+
+  public async processRequest({ attachment }: ProofFormatProcessOptions): Promise<void> {
+    this.getRequestFromAttachment(attachment)
+  }
+
+  public async acceptRequest({
+    proofFormats,
+    requestAttachment,
+    attachId,
+  }: ProofFormatAcceptRequestOptions<PresentationExchangeProofFormat>): Promise<ProofFormatCreateReturn> {
+    const presentationExchangeFormat = proofFormats?.presentationExchange
+    const { options, presentation_definition: presentationDefinition } =
+      this.getRequestFromAttachment(requestAttachment)
+
+    const selectedCredentials = presentationExchangeFormat?.credentials
+      ? await this.getSelectedCredentials(presentationDefinition, presentationExchangeFormat.credentials)
+      : await this.autoSelectCredentials(presentationDefinition)
+
+    // A credential can be submitted for multiple input descriptors, but is only included once in the presentation
+    const credentialRecords = Array.from(new Set(Object.values(selectedCredentials)))
+    const credentialIndices = Object.entries(selectedCredentials).reduce<Record<string, number>>(
+      (indices, [inputDescriptorId, credentialRecord]) => ({
+        ...indices,
+        [inputDescriptorId]: credentialRecords.indexOf(credentialRecord),
+      }),
+      {}
+    )
+
+    const verificationMethod = await this.getVerificationMethod(
+      credentialRecords,
+      presentationExchangeFormat?.verificationMethod
+    )
+    const holder = verificationMethod.id.split('#')[0]
+
+    const presentation = JsonTransformer.fromJSON(
+      {
+        '@context': [CREDENTIALS_CONTEXT_V1_URL, PRESENTATION_SUBMISSION_CONTEXT_V1_URL],
+        type: [VERIFIABLE_PRESENTATION_TYPE, PRESENTATION_SUBMISSION_TYPE],
+        holder,
+        verifiableCredential: credentialRecords.map((credentialRecord) =>
+          JsonTransformer.toJSON(credentialRecord.credential)
+        ),
+        presentation_submission: PresentationExchangeUtils.createPresentationSubmission(
+          presentationDefinition,
+          credentialIndices
+        ),
+      },
+      W3cPresentation
+    )
+
+    const verifiablePresentation = await this.w3cCredentialService.signPresentation({
+      presentation,
+      proofType:
+        presentationExchangeFormat?.proofType ?? this.getProofType(presentationDefinition, verificationMethod.type),
+      verificationMethod: verificationMethod.id,
+      challenge: options.challenge,
+      domain: options.domain,
+    })
+
+    const format = new ProofFormatSpec({
+      attachId,
+      format: PRESENTATION_EXCHANGE_SUBMISSION,
+    })
+    const attachment = this.getFormatData(JsonTransformer.toJSON(verifiablePresentation), format.attachId)
+
+    return { format, attachment }
+  }
+
+  public async processPresentation({
+    attachment,
+    requestAttachment,
+  }: ProofFormatProcessPresentationOptions): Promise<boolean> {
+    const presentationJson = attachment.getDataAsJson<PresentationExchangePresentation>()
+
+    if (!isJsonObject(presentationJson)) {
+      throw new PresentationProblemReportError('Missing presentation exchange presentation data payload', {
+        problemCode: PresentationProblemReportReason.Abandoned,
+      })
+    }
+
+    const { options, presentation_definition: presentationDefinition } =
+      this.getRequestFromAttachment(requestAttachment)
+
+    const { valid, errors } = PresentationExchangeUtils.validatePresentationSubmission(
+      presentationDefinition,
+      presentationJson
+    )
+    if (!valid) {
+      this.logger.debug('Presentation does not satisfy the presentation definition', { errors })
+      return false
+    }
+
+    const presentation = JsonTransformer.fromJSON(presentationJson, W3cVerifiablePresentation)
+    try {
+      MessageValidator.validateSync(presentation)
+    } catch (error) {
+      throw new PresentationProblemReportError('Invalid presentation exchange presentation data payload', {
+        problemCode: PresentationProblemReportReason.Abandoned,
+      })
+    }
+
+    const result = await this.w3cCredentialService.verifyPresentation({
+      presentation,
+      challenge: options.challenge,
+      domain: options.domain,
+    })
+
+    if (!result.verified) {
+      this.logger.debug('Verification of presentation exchange presentation failed', { error: result.error })
+    }
+
+    return result.verified
+  }
+
+  public shouldAutoRespondToProposal({
+    proposalAttachment,
+    requestAttachment,
+  }: ProofFormatAutoRespondProposalOptions): boolean {
+    return this.areInputDescriptorsEqual(proposalAttachment, requestAttachment)
+  }
+
+  public shouldAutoRespondToRequest({
+    proposalAttachment,
+    requestAttachment,
+  }: ProofFormatAutoRespondRequestOptions): boolean {
+    return this.areInputDescriptorsEqual(proposalAttachment, requestAttachment)
+  }
+
+  // The presentation is verified while processing, so there is nothing more to check here
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public shouldAutoRespondToPresentation(options: ProofFormatAutoRespondPresentationOptions): boolean {
+    return true
+  }
+
+  public supportsFormat(format: string): boolean {
+    return [PRESENTATION_EXCHANGE_DEFINITION, PRESENTATION_EXCHANGE_SUBMISSION].includes(format)
+  }
+
+  private createDefinitionAttachment(
+    data: PresentationExchangeProposal | PresentationExchangeRequest,
+    attachId?: string
+  ): ProofFormatCreateReturn {
+    const format = new ProofFormatSpec({
+      attachId,
+      format: PRESENTATION_EXCHANGE_DEFINITION,
+    })
+    const attachment = this.getFormatData(data, format.attachId)
+
+    return { format, attachment }
+  }
+
+  private getProposalFromAttachment(attachment: Attachment): PresentationExchangeProposal {
+    const proposal = attachment.getDataAsJson<PresentationExchangeProposal>()
+
+    if (!isJsonObject(proposal) || !Array.isArray(proposal.input_descriptors)) {
+      throw new PresentationProblemReportError('Missing presentation exchange input descriptors in proposal', {
+        problemCode: PresentationProblemReportReason.Abandoned,
+      })
+    }
+
+    return proposal
+  }
+
+  private getRequestFromAttachment(attachment: Attachment): PresentationExchangeRequest {
+    const request = attachment.getDataAsJson<PresentationExchangeRequest>()
+
+    if (
+      !isJsonObject(request) ||
+      !isJsonObject(request.presentation_definition) ||
+      !Array.isArray(request.presentation_definition.input_descriptors)
+    ) {
+      throw new PresentationProblemReportError('Missing presentation definition in presentation exchange request', {
+        problemCode: PresentationProblemReportReason.Abandoned,
+      })
+    }
+
+    if (!isJsonObject(request.options) || !isString(request.options.challenge)) {
+      throw new PresentationProblemReportError('Missing challenge in presentation exchange request options', {
+        problemCode: PresentationProblemReportReason.Abandoned,
+      })
+    }
+
+    return request
+  }
+
+  /**
+   * Get the credential records selected by the holder, and assert they satisfy the presentation definition
+   */
+  private async getSelectedCredentials(
+    presentationDefinition: PresentationDefinition,
+    credentials: Record<string, string>
+  ): Promise<Record<string, W3cCredentialRecord>> {
+    const selectedCredentials: Record<string, W3cCredentialRecord> = {}
+
+    for (const [inputDescriptorId, credentialRecordId] of Object.entries(credentials)) {
+      const inputDescriptor = presentationDefinition.input_descriptors.find(({ id }) => id === inputDescriptorId)
+      if (!inputDescriptor) {
+        throw new AriesFrameworkError(
+          `Input descriptor '${inputDescriptorId}' is not part of the presentation definition`
+        )
+      }
+
+      const credentialRecord = await this.w3cCredentialService.getCredentialRecordById(credentialRecordId)
+      const satisfiesInputDescriptor = PresentationExchangeUtils.evaluateInputDescriptor(
+        inputDescriptor,
+        this.getCredentialJson(credentialRecord),
+        { definitionFormat: presentationDefinition.format, holder: credentialRecord.credential.credentialSubjectIds[0] }
+      )
+      if (!satisfiesInputDescriptor) {
+        throw new AriesFrameworkError(
+          `Credential ${credentialRecordId} does not satisfy input descriptor '${inputDescriptorId}'`
+        )
+      }
+
+      selectedCredentials[inputDescriptorId] = credentialRecord
+    }
+
+    const selectedInputDescriptors = PresentationExchangeUtils.selectInputDescriptors(
+      presentationDefinition,
+      Object.keys(selectedCredentials)
+    )
+    if (!selectedInputDescriptors) {
+      throw new AriesFrameworkError(
+        'Selected credentials do not satisfy the submission requirements of the presentation definition'
+      )
+    }
+
+    return selectedCredentials
+  }
+
+  /**
+   * Select a credential for each input descriptor that must be submitted. Credentials with the same subject as
+   * previously selected credentials are preferred, as the presentation can only be signed by a single holder.
+   */
+  private async autoSelectCredentials(
+    presentationDefinition: PresentationDefinition
+  ): Promise<Record<string, W3cCredentialRecord>> {
+    const credentialRecords = await this.w3cCredentialService.getAllCredentialRecords()
+    const matchingCredentials = PresentationExchangeUtils.getMatchingCredentials(
+      presentationDefinition,
+      credentialRecords.map((credentialRecord) => this.getCredentialJson(credentialRecord))
+    )
+
+    const availableInputDescriptors = Object.keys(matchingCredentials).filter(
+      (inputDescriptorId) => matchingCredentials[inputDescriptorId].length > 0
+    )
+    const selectedInputDescriptors = PresentationExchangeUtils.selectInputDescriptors(
+      presentationDefinition,
+      availableInputDescriptors
+    )
+    if (!selectedInputDescriptors) {
+      throw new AriesFrameworkError('No credentials available that satisfy the presentation definition')
+    }
+
+    const selectedCredentials: Record<string, W3cCredentialRecord> = {}
+    let holder: string | undefined
+
+    for (const inputDescriptorId of selectedInputDescriptors) {
+      const candidates = matchingCredentials[inputDescriptorId].map((index) => credentialRecords[index])
+      const credentialRecord =
+        candidates.find((candidate) => holder && candidate.credential.credentialSubjectIds.includes(holder)) ??
+        candidates[0]
+
+      holder = holder ?? credentialRecord.credential.credentialSubjectIds[0]
+      selectedCredentials[inputDescriptorId] = credentialRecord
+    }
+
+    return selectedCredentials
+  }
+
+  /**
+   * Get the verification method to sign the presentation with. If no verification method is provided, the first
+   * authentication verification method of a subject shared by all credentials is used.
+   */
+  private async getVerificationMethod(credentialRecords: W3cCredentialRecord[], verificationMethodId?: string) {
+    if (verificationMethodId) {
+      const didDocument = await this.didResolverService.resolveDidDocument(verificationMethodId)
+      return didDocument.dereferenceKey(verificationMethodId, ['authentication'])
+    }
+
+    const [firstCredentialRecord, ...otherCredentialRecords] = credentialRecords
+    const holder = firstCredentialRecord?.credential.credentialSubjectIds.find((subjectId) =>
+      otherCredentialRecords.every((credentialRecord) =>
+        credentialRecord.credential.credentialSubjectIds.includes(subjectId)
+      )
+    )
+
+    if (!holder) {
+      throw new AriesFrameworkError(
+        'Unable to determine the holder of the presentation. The submitted credentials do not share a subject'
+      )
+    }
+
+    const didDocument = await this.didResolverService.resolveDidDocument(holder)
+    const [authentication] = didDocument.authentication ?? []
+    if (!authentication) {
+      throw new AriesFrameworkError(`Did document of holder ${holder} has no authentication verification method`)
+    }
+
+    return isString(authentication) ? didDocument.dereferenceKey(authentication) : authentication
+  }
+
+  /**
+   * Use the first proof type supported by both the verifier and the verification method of the holder
+   */
+  private getProofType(presentationDefinition: PresentationDefinition, verificationMethodType: string): W3cProofType {
+    const verificationMethodProofType =
+      verificationMethodType === 'Ed25519VerificationKey2020'
+        ? Ed25519Signature2020.proofType
+        : Ed25519Signature2018.proofType
+
+    const requestedProofTypes = presentationDefinition.format?.ldp_vp?.proof_type
+    if (!requestedProofTypes || requestedProofTypes.includes(verificationMethodProofType)) {
+      return verificationMethodProofType
+    }
+
+    const proofType = SUPPORTED_PROOF_TYPES.find((proofType) => requestedProofTypes.includes(proofType))
+    if (!proofType) {
+      throw new AriesFrameworkError(
+        `None of the requested presentation proof types are supported: ${requestedProofTypes.join(', ')}`
+      )
+    }
+
+    return proofType
+  }
+
+  private getCredentialJson(credentialRecord: W3cCredentialRecord): JsonObject {
+    return JsonTransformer.toJSON(credentialRecord.credential) as JsonObject
+  }
+
+  /**
+   * The proposal and request are considered equal when they contain the same input descriptors. The presentation
+   * definition id and the request options are not taken into account, as they are generated by the verifier.
+   */
+  private areInputDescriptorsEqual(proposalAttachment: Attachment, requestAttachment: Attachment) {
+    const proposal = this.getProposalFromAttachment(proposalAttachment)
+    const request = this.getRequestFromAttachment(requestAttachment)
+
+    return (
+      JsonEncoder.toString(proposal.input_descriptors) ===
+      JsonEncoder.toString(request.presentation_definition.input_descriptors)
+    )
+  }
+}
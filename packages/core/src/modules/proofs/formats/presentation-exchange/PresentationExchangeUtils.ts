@@ -0,0 +1,459 @@
+import type { JsonObject } from '../../../../types'
+import type {
+  InputDescriptor,
+  PresentationDefinition,
+  PresentationDefinitionFilter,
+  PresentationDefinitionFormat,
+  SubmissionRequirement,
+} from './models/PresentationDefinition'
+import type { PresentationSubmission, PresentationSubmissionDescriptor } from './models/PresentationSubmission'
+
+import { queryJsonPath } from '../../../../utils/jsonPath'
+import { isJsonObject, isNumber, isString } from '../../../../utils/type'
+import { uuid } from '../../../../utils/uuid'
+
+/**
+ * Claim format of the credentials in a presentation created by the presentation exchange proof format. Only linked data
+ * proof credentials are supported.
+ */
+export const LDP_VC_FORMAT = 'ldp_vc'
+const LDP_VP_FORMAT = 'ldp_vp'
+
+export interface PresentationSubmissionValidationResult {
+  valid: boolean
+  errors: string[]
+}
+
+export interface EvaluateInputDescriptorOptions {
+  /**
+   * The format designations of the presentation definition. Used when the input descriptor doesn't define formats itself.
+   */
+  definitionFormat?: PresentationDefinitionFormat
+
+  /**
+   * The holder of the presentation. Required to satisfy `is_holder` constraints.
+   */
+  holder?: string
+}
+
+export class PresentationExchangeUtils {
+  /**
+   * Checks whether a value matches the (JSON Schema based) filter of a presentation definition field.
+   */
+  public static matchesFilter(value: unknown, filter: PresentationDefinitionFilter): boolean {
+    if (filter.type && !PresentationExchangeUtils.matchesType(value, filter.type)) return false
+    if ('const' in filter && !PresentationExchangeUtils.isEqual(value, filter.const)) return false
+    if (filter.enum && !filter.enum.some((enumValue) => PresentationExchangeUtils.isEqual(value, enumValue))) {
+      return false
+    }
+    if (filter.not && PresentationExchangeUtils.matchesFilter(value, filter.not)) return false
+
+    if (isString(value)) {
+      if (filter.pattern !== undefined && !new RegExp(filter.pattern).test(value)) return false
+      if (filter.minLength !== undefined && value.length < filter.minLength) return false
+      if (filter.maxLength !== undefined && value.length > filter.maxLength) return false
+
+      if (!PresentationExchangeUtils.matchesFormatRange(value, filter)) return false
+    }
+
+    if (isNumber(value)) {
+      if (filter.minimum !== undefined && value < filter.minimum) return false
+      if (filter.maximum !== undefined && value > filter.maximum) return false
+      if (filter.exclusiveMinimum !== undefined && value <= filter.exclusiveMinimum) return false
+      if (filter.exclusiveMaximum !== undefined && value >= filter.exclusiveMaximum) return false
+    }
+
+    if (Array.isArray(value)) {
+      if (filter.minItems !== undefined && value.length < filter.minItems) return false
+      if (filter.maxItems !== undefined && value.length > filter.maxItems) return false
+
+      const { contains } = filter
+      if (contains && !value.some((item) => PresentationExchangeUtils.matchesFilter(item, contains))) return false
+    }
+
+    return true
+  }
+
+  /**
+   * Checks whether a credential satisfies the constraints of an input descriptor.
+   *
+   * @param inputDescriptor The input descriptor to evaluate
+   * @param credential The JSON representation of the (verifiable) credential
+   * @returns whether the credential satisfies the input descriptor
+   */
+  public static evaluateInputDescriptor(
+    inputDescriptor: InputDescriptor,
+    credential: JsonObject,
+    options: EvaluateInputDescriptorOptions = {}
+  ): boolean {
+    return PresentationExchangeUtils.getInputDescriptorErrors(inputDescriptor, credential, options).length === 0
+  }
+
+  /**
+   * Find the credentials that satisfy each input descriptor of a presentation definition.
+   *
+   * @param presentationDefinition The presentation definition
+   * @param credentials The credentials to evaluate, as JSON
+   * @returns Mapping of input descriptor id to the indices of the credentials that satisfy the input descriptor
+   */
+  public static getMatchingCredentials(
+    presentationDefinition: PresentationDefinition,
+    credentials: JsonObject[]
+  ): Record<string, number[]> {
+    const matchingCredentials: Record<string, number[]> = {}
+
+    for (const inputDescriptor of presentationDefinition.input_descriptors) {
+      matchingCredentials[inputDescriptor.id] = credentials
+        .map((credential, index) => ({ credential, index }))
+        .filter(({ credential }) =>
+          PresentationExchangeUtils.evaluateInputDescriptor(inputDescriptor, credential, {
+            definitionFormat: presentationDefinition.format,
+            // The subject of the credential will be the holder of the presentation
+            holder: PresentationExchangeUtils.getCredentialSubjectIds(credential)[0],
+          })
+        )
+        .map(({ index }) => index)
+    }
+
+    return matchingCredentials
+  }
+
+  /**
+   * Select the input descriptors that must be submitted to satisfy the submission requirements of a presentation
+   * definition. If the definition has no submission requirements, all input descriptors must be submitted.
+   *
+   * @param presentationDefinition The presentation definition
+   * @param availableInputDescriptorIds The ids of the input descriptors that can be satisfied
+   * @returns The ids of the input descriptors to submit, or `undefined` if the submission requirements can't be satisfied
+   */
+  public static selectInputDescriptors(
+    presentationDefinition: PresentationDefinition,
+    availableInputDescriptorIds: string[]
+  ): string[] | undefined {
+    const available = new Set(availableInputDescriptorIds)
+    const { input_descriptors: inputDescriptors, submission_requirements: submissionRequirements } =
+      presentationDefinition
+
+    if (!submissionRequirements) {
+      const allAvailable = inputDescriptors.every((inputDescriptor) => available.has(inputDescriptor.id))
+      return allAvailable ? inputDescriptors.map((inputDescriptor) => inputDescriptor.id) : undefined
+    }
+
+    const selected = new Set<string>()
+    for (const submissionRequirement of submissionRequirements) {
+      const selectedForRequirement = PresentationExchangeUtils.selectForSubmissionRequirement(
+        submissionRequirement,
+        inputDescriptors,
+        available
+      )
+      if (!selectedForRequirement) return undefined
+
+      selectedForRequirement.forEach((id) => selected.add(id))
+    }
+
+    return Array.from(selected)
+  }
+
+  /**
+   * Create the presentation submission for a presentation containing the given credentials.
+   *
+   * @param presentationDefinition The presentation definition the submission responds to
+   * @param credentialIndices Mapping of input descriptor id to the index of the credential in the presentation
+   */
+  public static createPresentationSubmission(
+    presentationDefinition: PresentationDefinition,
+    credentialIndices: Record<string, number>
+  ): PresentationSubmission {
+    return {
+      id: uuid(),
+      definition_id: presentationDefinition.id,
+      descriptor_map: Object.entries(credentialIndices).map(([inputDescriptorId, index]) => ({
+        id: inputDescriptorId,
+        format: LDP_VC_FORMAT,
+        path: `$.verifiableCredential[${index}]`,
+      })),
+    }
+  }
+
+  /**
+   * Validate the presentation submission of a presentation against the presentation definition. This checks whether
+   * the credentials referenced from the submission satisfy the input descriptors and whether the submitted input
+   * descriptors satisfy the submission requirements. The proofs of the presentation are NOT verified.
+   *
+   * @param presentationDefinition The presentation definition the presentation must satisfy
+   * @param presentation The JSON representation of the (verifiable) presentation
+   * @returns the validation result, containing the validation errors if the presentation is not valid
+   */
+  public static validatePresentationSubmission(
+    presentationDefinition: PresentationDefinition,
+    presentation: JsonObject
+  ): PresentationSubmissionValidationResult {
+    const errors: string[] = []
+    const presentationSubmission = presentation.presentation_submission as unknown as PresentationSubmission | undefined
+
+    if (!isJsonObject(presentationSubmission) || !Array.isArray(presentationSubmission.descriptor_map)) {
+      return { valid: false, errors: ['Presentation does not contain a valid presentation_submission'] }
+    }
+
+    if (presentationSubmission.definition_id !== presentationDefinition.id) {
+      errors.push(
+        `Presentation submission definition_id '${presentationSubmission.definition_id}' does not match presentation definition id '${presentationDefinition.id}'`
+      )
+    }
+
+    const holder = isString(presentation.holder) ? presentation.holder : undefined
+    const satisfiedInputDescriptorIds: string[] = []
+
+    for (const descriptor of presentationSubmission.descriptor_map) {
+      const inputDescriptor = presentationDefinition.input_descriptors.find(({ id }) => id === descriptor.id)
+      if (!inputDescriptor) {
+        errors.push(`Input descriptor '${descriptor.id}' is not part of the presentation definition`)
+        continue
+      }
+
+      let credential: JsonObject
+      try {
+        credential = PresentationExchangeUtils.resolveSubmissionDescriptor(descriptor, presentation)
+      } catch (error) {
+        errors.push(`Input descriptor '${descriptor.id}': ${error.message}`)
+        continue
+      }
+
+      const inputDescriptorErrors = PresentationExchangeUtils.getInputDescriptorErrors(inputDescriptor, credential, {
+        definitionFormat: presentationDefinition.format,
+        holder,
+      })
+      if (inputDescriptorErrors.length > 0) {
+        errors.push(...inputDescriptorErrors.map((error) => `Input descriptor '${descriptor.id}': ${error}`))
+        continue
+      }
+
+      satisfiedInputDescriptorIds.push(descriptor.id)
+    }
+
+    const selectedInputDescriptors = PresentationExchangeUtils.selectInputDescriptors(
+      presentationDefinition,
+      satisfiedInputDescriptorIds
+    )
+    if (!selectedInputDescriptors) {
+      errors.push(
+        'Submitted input descriptors do not satisfy the submission requirements of the presentation definition'
+      )
+    }
+
+    return { valid: errors.length === 0, errors }
+  }
+
+  private static getInputDescriptorErrors(
+    inputDescriptor: InputDescriptor,
+    credential: JsonObject,
+    { definitionFormat, holder }: EvaluateInputDescriptorOptions
+  ): string[] {
+    const errors: string[] = []
+    const constraints = inputDescriptor.constraints ?? {}
+
+    const format = inputDescriptor.format ?? definitionFormat
+    if (format && !PresentationExchangeUtils.matchesFormat(credential, format)) {
+      errors.push('Credential does not match the requested claim format')
+    }
+
+    if (inputDescriptor.schema && !PresentationExchangeUtils.matchesSchema(credential, inputDescriptor)) {
+      errors.push('Credential does not match the requested schema')
+    }
+
+    // Selective disclosure is not supported for linked data proofs signed with Ed25519 signatures
+    if (constraints.limit_disclosure === 'required') {
+      errors.push('Limited disclosure is required, but not supported for linked data proof credentials')
+    }
+
+    for (const field of constraints.fields ?? []) {
+      const { filter } = field
+      const fieldName = field.id ?? field.path.join(', ')
+
+      // Unsupported path expressions and invalid filter patterns make the field invalid, instead of failing the
+      // validation of the whole presentation
+      let matches: boolean
+      try {
+        const values = field.path.reduce<unknown[]>(
+          (values, path) => [...values, ...queryJsonPath(credential, path)],
+          []
+        )
+        matches = filter
+          ? values.some((value) => PresentationExchangeUtils.matchesFilter(value, filter))
+          : values.length > 0
+      } catch (error) {
+        errors.push(`Unable to evaluate field ${fieldName}: ${error.message}`)
+        continue
+      }
+
+      if (!matches && !field.optional) {
+        errors.push(`Credential has no value matching field ${fieldName}`)
+      }
+    }
+
+    const subjectIds = PresentationExchangeUtils.getCredentialSubjectIds(credential)
+    if (constraints.subject_is_issuer === 'required') {
+      const issuerId = isJsonObject(credential.issuer) ? credential.issuer.id : credential.issuer
+      if (!isString(issuerId) || !subjectIds.includes(issuerId)) {
+        errors.push('Credential subject must be the issuer of the credential')
+      }
+    }
+
+    const holderIsRequired = constraints.is_holder?.some(({ directive }) => directive === 'required')
+    if (holderIsRequired && (!holder || !subjectIds.includes(holder))) {
+      errors.push('Credential subject must be the holder of the presentation')
+    }
+
+    return errors
+  }
+
+  private static selectForSubmissionRequirement(
+    submissionRequirement: SubmissionRequirement,
+    inputDescriptors: InputDescriptor[],
+    available: Set<string>
+  ): string[] | undefined {
+    // Each candidate is a list of input descriptor ids that must be submitted together
+    let candidates: Array<string[] | undefined>
+
+    if (submissionRequirement.from_nested) {
+      candidates = submissionRequirement.from_nested.map((nestedRequirement) =>
+        PresentationExchangeUtils.selectForSubmissionRequirement(nestedRequirement, inputDescriptors, available)
+      )
+    } else {
+      const group = submissionRequirement.from
+      candidates = inputDescriptors
+        .filter((inputDescriptor) => group !== undefined && inputDescriptor.group?.includes(group))
+        .map((inputDescriptor) => (available.has(inputDescriptor.id) ? [inputDescriptor.id] : undefined))
+    }
+
+    const satisfiedCandidates = candidates.filter((candidate): candidate is string[] => candidate !== undefined)
+
+    if (submissionRequirement.rule === 'all') {
+      return satisfiedCandidates.length === candidates.length
+        ? PresentationExchangeUtils.flatten(satisfiedCandidates)
+        : undefined
+    }
+
+    const { count, min, max } = submissionRequirement
+    const minimum = count ?? min ?? 1
+    const maximum = count ?? max ?? satisfiedCandidates.length
+
+    if (satisfiedCandidates.length < minimum) return undefined
+
+    return PresentationExchangeUtils.flatten(satisfiedCandidates.slice(0, maximum))
+  }
+
+  private static resolveSubmissionDescriptor(
+    descriptor: PresentationSubmissionDescriptor,
+    value: JsonObject
+  ): JsonObject {
+    const values = queryJsonPath(value, descriptor.path)
+    if (values.length !== 1 || !isJsonObject(values[0])) {
+      throw new Error(`Path '${descriptor.path}' does not resolve to a single credential`)
+    }
+
+    if (descriptor.path_nested) {
+      return PresentationExchangeUtils.resolveSubmissionDescriptor(descriptor.path_nested, values[0])
+    }
+
+    if (descriptor.format !== LDP_VC_FORMAT) {
+      throw new Error(`Unsupported claim format '${descriptor.format}'`)
+    }
+
+    return values[0]
+  }
+
+  private static matchesFormat(credential: JsonObject, format: PresentationDefinitionFormat) {
+    const ldpFormat = format[LDP_VC_FORMAT] ?? format[LDP_VP_FORMAT] ?? format.ldp
+    if (!ldpFormat) return false
+    if (!ldpFormat.proof_type) return true
+
+    const proofs = Array.isArray(credential.proof) ? credential.proof : [credential.proof]
+    return proofs.some((proof) => isJsonObject(proof) && ldpFormat.proof_type?.includes(proof.type as string))
+  }
+
+  /**
+   * Schema uris are matched against the types, contexts and credential schemas of the credential. If some schemas
+   * are marked as required, all of those must match. Otherwise a single matching schema is sufficient.
+   */
+  private static matchesSchema(credential: JsonObject, inputDescriptor: InputDescriptor) {
+    const schemas = inputDescriptor.schema ?? []
+    const asArray = (value: unknown) => (Array.isArray(value) ? value : value !== undefined ? [value] : [])
+
+    const credentialSchemaIds = asArray(credential.credentialSchema).map((schema) =>
+      isJsonObject(schema) ? schema.id : schema
+    )
+    const identifiers = [
+      ...asArray(credential.type),
+      ...asArray(credential['@context']),
+      ...credentialSchemaIds,
+    ].filter(isString)
+
+    const matchesUri = (uri: string) =>
+      identifiers.some(
+        (identifier) => identifier === uri || uri.endsWith(`#${identifier}`) || uri.endsWith(`/${identifier}`)
+      )
+
+    const requiredSchemas = schemas.filter((schema) => schema.required)
+    return requiredSchemas.length > 0
+      ? requiredSchemas.every((schema) => matchesUri(schema.uri))
+      : schemas.some((schema) => matchesUri(schema.uri))
+  }
+
+  private static matchesType(value: unknown, type: NonNullable<PresentationDefinitionFilter['type']>) {
+    switch (type) {
+      case 'string':
+        return isString(value)
+      case 'number':
+        return isNumber(value)
+      case 'integer':
+        return Number.isInteger(value)
+      case 'boolean':
+        return typeof value === 'boolean'
+      case 'array':
+        return Array.isArray(value)
+      case 'object':
+        return isJsonObject(value)
+      case 'null':
+        return value === null
+      default:
+        return false
+    }
+  }
+
+  /**
+   * `formatMinimum` and related keywords compare dates (and date-times) as used by the `date` and `date-time` formats
+   */
+  private static matchesFormatRange(value: string, filter: PresentationDefinitionFilter) {
+    const { formatMinimum, formatMaximum, formatExclusiveMinimum, formatExclusiveMaximum } = filter
+    if (!formatMinimum && !formatMaximum && !formatExclusiveMinimum && !formatExclusiveMaximum) return true
+
+    const time = Date.parse(value)
+    if (Number.isNaN(time)) return false
+
+    if (formatMinimum && time < Date.parse(formatMinimum)) return false
+    if (formatMaximum && time > Date.parse(formatMaximum)) return false
+    if (formatExclusiveMinimum && time <= Date.parse(formatExclusiveMinimum)) return false
+    if (formatExclusiveMaximum && time >= Date.parse(formatExclusiveMaximum)) return false
+
+    return true
+  }
+
+  private static flatten(candidates: string[][]) {
+    return candidates.reduce<string[]>((flattened, candidate) => [...flattened, ...candidate], [])
+  }
+
+  private static isEqual(first: unknown, second: unknown) {
+    return JSON.stringify(first) === JSON.stringify(second)
+  }
+
+  private static getCredentialSubjectIds(credential: JsonObject): string[] {
+    const credentialSubjects = Array.isArray(credential.credentialSubject)
+      ? credential.credentialSubject
+      : [credential.credentialSubject]
+
+    return credentialSubjects
+      .map((credentialSubject) => (isJsonObject(credentialSubject) ? credentialSubject.id : undefined))
+      .filter(isString)
+  }
+}
@@ -0,0 +1,283 @@
+import type { W3cPresentation } from '../../../../vc'
+import type { PresentationExchangeRequest } from '../PresentationExchangeProofFormat'
+import type { PresentationDefinition } from '../models'
+
+import { getAgentConfig, mockFunction } from '../../../../../../tests/helpers'
+import { Attachment, AttachmentData } from '../../../../../decorators/attachment/Attachment'
+import { JsonEncoder } from '../../../../../utils/JsonEncoder'
+import { JsonTransformer } from '../../../../../utils/JsonTransformer'
+import { DidKey } from '../../../../dids'
+import { DidResolverService } from '../../../../dids/services/DidResolverService'
+import {
+  W3cCredentialRecord,
+  W3cCredentialService,
+  W3cVerifiableCredential,
+  W3cVerifiablePresentation,
+} from '../../../../vc'
+import { ProofState } from '../../../ProofState'
+import { ProofRecord } from '../../../repository/ProofRecord'
+import { PresentationExchangeProofFormatService } from '../PresentationExchangeProofFormatService'
+
+jest.mock('../../../../vc/W3cCredentialService')
+jest.mock('../../../../dids/services/DidResolverService')
+
+const W3cCredentialServiceMock = W3cCredentialService as jest.Mock<W3cCredentialService>
+const DidResolverServiceMock = DidResolverService as jest.Mock<DidResolverService>
+
+const issuerDidKey = DidKey.fromDid('did:key:z6MkmjY8GnV5i9YTDtPETC2uUAW6ejw3nk5mXF5yci5ab7th')
+const holderDidKey = DidKey.fromDid('did:key:z6MkpTHR8VNsBxYAAWHut2Geadd9jSwuBV8xRoAnwWsdvktH')
+const holderVerificationMethod = `${holderDidKey.did}#${holderDidKey.key.fingerprint}`
+
+const createCredentialRecord = (type: string, credentialSubject: Record<string, unknown>) =>
+  new W3cCredentialRecord({
+    credential: JsonTransformer.fromJSON(
+      {
+        '@context': ['https://www.w3.org/2018/credentials/v1', { name: 'https://schema.org/name' }],
+        type: ['VerifiableCredential', type],
+        issuer: issuerDidKey.did,
+        issuanceDate: '2022-01-01T00:00:00Z',
+        credentialSubject: { id: holderDidKey.did, ...credentialSubject },
+        proof: {
+          type: 'Ed25519Signature2018',
+          proofPurpose: 'assertionMethod',
+          verificationMethod: `${issuerDidKey.did}#${issuerDidKey.key.fingerprint}`,
+          created: '2022-01-01T00:00:00Z',
+          jws: 'eyJhbGciOiJFZERTQSIsImI2NCI6ZmFsc2UsImNyaXQiOlsiYjY0Il19..signature',
+        },
+      },
+      W3cVerifiableCredential
+    ),
+  })
+
+const nameCredentialRecord = createCredentialRecord('NameCredential', { name: 'Alice' })
+const otherCredentialRecord = createCredentialRecord('OtherCredential', { other: 'value' })
+
+const presentationDefinition: PresentationDefinition = {
+  id: 'definition-id',
+  input_descriptors: [
+    {
+      id: 'name',
+      constraints: {
+        fields: [{ path: ['$.credentialSubject.name'], filter: { type: 'string', const: 'Alice' } }],
+      },
+    },
+  ],
+}
+
+const createAttachment = (data: unknown) =>
+  new Attachment({
+    id: 'attachment-id',
+    mimeType: 'application/json',
+    data: new AttachmentData({
+      base64: JsonEncoder.toBase64(data),
+    }),
+  })
+
+const request: PresentationExchangeRequest = {
+  options: { challenge: 'challenge', domain: 'example.org' },
+  presentation_definition: presentationDefinition,
+}
+
+// Sign the presentation by adding a dummy proof
+const signPresentation = async ({ presentation }: { presentation: W3cPresentation }) =>
+  JsonTransformer.fromJSON(
+    {
+      ...JsonTransformer.toJSON(presentation),
+      proof: {
+        type: 'Ed25519Signature2018',
+        proofPurpose: 'authentication',
+        verificationMethod: holderVerificationMethod,
+        created: '2022-01-01T00:00:00Z',
+        challenge: 'challenge',
+        jws: 'eyJhbGciOiJFZERTQSIsImI2NCI6ZmFsc2UsImNyaXQiOlsiYjY0Il19..signature',
+      },
+    },
+    W3cVerifiablePresentation
+  )
+
+const mockProofRecord = () =>
+  new ProofRecord({
+    state: ProofState.RequestReceived,
+    threadId: 'threadId',
+    protocolVersion: 'v2',
+  })
+
+describe('PresentationExchangeProofFormatService', () => {
+  let w3cCredentialService: W3cCredentialService
+  let didResolver: DidResolverService
+  let presentationExchangeProofFormatService: PresentationExchangeProofFormatService
+
+  beforeEach(() => {
+    w3cCredentialService = new W3cCredentialServiceMock()
+    didResolver = new DidResolverServiceMock()
+    presentationExchangeProofFormatService = new PresentationExchangeProofFormatService(
+      w3cCredentialService,
+      didResolver,
+      getAgentConfig('PresentationExchangeProofFormatServiceTest')
+    )
+
+    mockFunction(didResolver.resolveDidDocument).mockResolvedValue(holderDidKey.didDocument)
+    mockFunction(w3cCredentialService.signPresentation).mockImplementation(signPresentation)
+  })
+
+  afterEach(() => {
+    jest.resetAllMocks()
+  })
+
+  describe('createRequest', () => {
+    it('creates a presentation definition attachment with a generated challenge', async () => {
+      const { format, attachment } = await presentationExchangeProofFormatService.createRequest({
+        proofRecord: mockProofRecord(),
+        proofFormats: { presentationExchange: { presentationDefinition } },
+      })
+
+      expect(format.format).toEqual('dif/presentation-exchange/definitions@v1.0')
+      expect(attachment.id).toEqual(format.attachId)
+      expect(attachment.getDataAsJson()).toEqual({
+        options: { challenge: expect.any(String) },
+        presentation_definition: presentationDefinition,
+      })
+    })
+  })
+
+  describe('processRequest', () => {
+    it('throws when the request has no challenge', async () => {
+      await expect(
+        presentationExchangeProofFormatService.processRequest({
+          proofRecord: mockProofRecord(),
+          attachment: createAttachment({ options: {}, presentation_definition: presentationDefinition }),
+        })
+      ).rejects.toThrow('Missing challenge in presentation exchange request options')
+    })
+  })
+
+  describe('acceptRequest', () => {
+    it('creates a signed presentation with the automatically selected credentials', async () => {
+      mockFunction(w3cCredentialService.getAllCredentialRecords).mockResolvedValue([
+        otherCredentialRecord,
+        nameCredentialRecord,
+      ])
+
+      const { format, attachment } = await presentationExchangeProofFormatService.acceptRequest({
+        proofRecord: mockProofRecord(),
+        requestAttachment: createAttachment(request),
+      })
+
+      expect(format.format).toEqual('dif/presentation-exchange/submission@v1.0')
+      expect(w3cCredentialService.signPresentation).toHaveBeenCalledWith({
+        presentation: expect.any(Object),
+        proofType: 'Ed25519Signature2018',
+        verificationMethod: holderVerificationMethod,
+        challenge: 'challenge',
+        domain: 'example.org',
+      })
+      expect(attachment.getDataAsJson()).toMatchObject({
+        type: ['VerifiablePresentation', 'PresentationSubmission'],
+        holder: holderDidKey.did,
+        verifiableCredential: [JsonTransformer.toJSON(nameCredentialRecord.credential)],
+        presentation_submission: {
+          definition_id: 'definition-id',
+          descriptor_map: [{ id: 'name', format: 'ldp_vc', path: '$.verifiableCredential[0]' }],
+        },
+      })
+    })
+
+    it('throws when no credentials satisfy the presentation definition', async () => {
+      mockFunction(w3cCredentialService.getAllCredentialRecords).mockResolvedValue([otherCredentialRecord])
+
+      await expect(
+        presentationExchangeProofFormatService.acceptRequest({
+          proofRecord: mockProofRecord(),
+          requestAttachment: createAttachment(request),
+        })
+      ).rejects.toThrow('No credentials available that satisfy the presentation definition')
+    })
+
+    it('throws when a selected credential does not satisfy the input descriptor', async () => {
+      mockFunction(w3cCredentialService.getCredentialRecordById).mockResolvedValue(otherCredentialRecord)
+
+      await expect(
+        presentationExchangeProofFormatService.acceptRequest({
+          proofRecord: mockProofRecord(),
+          requestAttachment: createAttachment(request),
+          proofFormats: { presentationExchange: { credentials: { name: otherCredentialRecord.id } } },
+        })
+      ).rejects.toThrow(`Credential ${otherCredentialRecord.id} does not satisfy input descriptor 'name'`)
+    })
+  })
+
+  describe('processPresentation', () => {
+    const createPresentationAttachment = async () => {
+      mockFunction(w3cCredentialService.getAllCredentialRecords).mockResolvedValue([nameCredentialRecord])
+
+      const { attachment } = await presentationExchangeProofFormatService.acceptRequest({
+        proofRecord: mockProofRecord(),
+        requestAttachment: createAttachment(request),
+      })
+
+      return attachment
+    }
+
+    it('verifies the presentation using the challenge and domain from the request', async () => {
+      const attachment = await createPresentationAttachment()
+      mockFunction(w3cCredentialService.verifyPresentation).mockResolvedValue({
+        verified: true,
+        presentationResult: { verified: true },
+        credentialResults: [{ verified: true }],
+      })
+
+      const verified = await presentationExchangeProofFormatService.processPresentation({
+        proofRecord: mockProofRecord(),
+        attachment,
+        requestAttachment: createAttachment(request),
+      })
+
+      expect(verified).toBe(true)
+      expect(w3cCredentialService.verifyPresentation).toHaveBeenCalledWith({
+        presentation: expect.any(W3cVerifiablePresentation),
+        challenge: 'challenge',
+        domain: 'example.org',
+      })
+    })
+
+    it('does not verify a presentation that does not satisfy the presentation definition', async () => {
+      const attachment = await createPresentationAttachment()
+
+      const verified = await presentationExchangeProofFormatService.processPresentation({
+        proofRecord: mockProofRecord(),
+        attachment,
+        requestAttachment: createAttachment({
+          ...request,
+          presentation_definition: { ...presentationDefinition, id: 'other-definition-id' },
+        }),
+      })
+
+      expect(verified).toBe(false)
+      expect(w3cCredentialService.verifyPresentation).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('shouldAutoRespondToRequest', () => {
+    it('returns whether the proposed and requested input descriptors are equal', () => {
+      const proposalAttachment = createAttachment({ input_descriptors: presentationDefinition.input_descriptors })
+
+      expect(
+        presentationExchangeProofFormatService.shouldAutoRespondToRequest({
+          proofRecord: mockProofRecord(),
+          proposalAttachment,
+          requestAttachment: createAttachment(request),
+        })
+      ).toBe(true)
+      expect(
+        presentationExchangeProofFormatService.shouldAutoRespondToRequest({
+          proofRecord: mockProofRecord(),
+          proposalAttachment,
+          requestAttachment: createAttachment({
+            ...request,
+            presentation_definition: { ...presentationDefinition, input_descriptors: [{ id: 'other' }] },
+          }),
+        })
+      ).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,275 @@
+import type { JsonObject } from '../../../../../types'
+import type { PresentationDefinition } from '../models'
+
+import { PresentationExchangeUtils } from '../PresentationExchangeUtils'
+
+const holder = 'did:example:holder'
+
+const degreeCredential = {
+  '@context': ['https://www.w3.org/2018/credentials/v1', 'https://www.w3.org/2018/credentials/examples/v1'],
+  type: ['VerifiableCredential', 'UniversityDegreeCredential'],
+  issuer: 'did:example:university',
+  issuanceDate: '2020-06-01T00:00:00Z',
+  credentialSubject: {
+    id: holder,
+    degree: { type: 'BachelorDegree', name: 'Bachelor of Science and Arts' },
+  },
+  proof: { type: 'Ed25519Signature2018' },
+}
+
+const ageCredential = {
+  '@context': ['https://www.w3.org/2018/credentials/v1'],
+  type: ['VerifiableCredential', 'AgeCredential'],
+  issuer: 'did:example:government',
+  issuanceDate: '2021-01-01T00:00:00Z',
+  credentialSubject: {
+    id: holder,
+    age: 24,
+  },
+  proof: { type: 'Ed25519Signature2020' },
+}
+
+const presentationDefinition: PresentationDefinition = {
+  id: 'definition-id',
+  input_descriptors: [
+    {
+      id: 'degree',
+      constraints: {
+        fields: [
+          {
+            path: ['$.credentialSubject.degree.type', '$.vc.credentialSubject.degree.type'],
+            filter: { type: 'string', pattern: 'BachelorDegree' },
+          },
+        ],
+      },
+    },
+    {
+      id: 'age',
+      constraints: {
+        is_holder: [{ field_id: ['age'], directive: 'required' }],
+        fields: [{ id: 'age', path: ['$.credentialSubject.age'], filter: { type: 'number', minimum: 18 } }],
+      },
+    },
+  ],
+}
+
+const presentation = (submission: unknown, credentials = [degreeCredential, ageCredential]) =>
+  ({
+    '@context': ['https://www.w3.org/2018/credentials/v1'],
+    type: ['VerifiablePresentation', 'PresentationSubmission'],
+    holder,
+    verifiableCredential: credentials,
+    presentation_submission: submission,
+  } as unknown as JsonObject)
+
+describe('PresentationExchangeUtils', () => {
+  describe('matchesFilter', () => {
+    it('matches type, const, enum and not', () => {
+      expect(PresentationExchangeUtils.matchesFilter('Alice', { type: 'string' })).toBe(true)
+      expect(PresentationExchangeUtils.matchesFilter(1, { type: 'string' })).toBe(false)
+      expect(PresentationExchangeUtils.matchesFilter(1.5, { type: 'integer' })).toBe(false)
+      expect(PresentationExchangeUtils.matchesFilter('Alice', { const: 'Alice' })).toBe(true)
+      expect(PresentationExchangeUtils.matchesFilter('Bob', { enum: ['Alice', 'Carol'] })).toBe(false)
+      expect(PresentationExchangeUtils.matchesFilter('Bob', { not: { const: 'Bob' } })).toBe(false)
+    })
+
+    it('matches string, number and array constraints', () => {
+      expect(PresentationExchangeUtils.matchesFilter('abc', { pattern: '^a', minLength: 2, maxLength: 3 })).toBe(true)
+      expect(PresentationExchangeUtils.matchesFilter('abcd', { maxLength: 3 })).toBe(false)
+      expect(PresentationExchangeUtils.matchesFilter(18, { minimum: 18, exclusiveMaximum: 19 })).toBe(true)
+      expect(PresentationExchangeUtils.matchesFilter(18, { exclusiveMinimum: 18 })).toBe(false)
+      expect(PresentationExchangeUtils.matchesFilter(['a', 'b'], { contains: { const: 'b' }, maxItems: 2 })).toBe(true)
+      expect(PresentationExchangeUtils.matchesFilter(['a'], { minItems: 2 })).toBe(false)
+    })
+
+    it('compares dates using formatMinimum and formatMaximum', () => {
+      const filter = {
+        type: 'string' as const,
+        format: 'date',
+        formatMinimum: '2020-01-01',
+        formatMaximum: '2021-01-01',
+      }
+
+      expect(PresentationExchangeUtils.matchesFilter('2020-06-01', filter)).toBe(true)
+      expect(PresentationExchangeUtils.matchesFilter('2019-12-31', filter)).toBe(false)
+      expect(PresentationExchangeUtils.matchesFilter('not-a-date', filter)).toBe(false)
+    })
+  })
+
+  describe('evaluateInputDescriptor', () => {
+    it('evaluates the fields of the input descriptor', () => {
+      const [degreeDescriptor, ageDescriptor] = presentationDefinition.input_descriptors
+
+      expect(PresentationExchangeUtils.evaluateInputDescriptor(degreeDescriptor, degreeCredential)).toBe(true)
+      expect(PresentationExchangeUtils.evaluateInputDescriptor(degreeDescriptor, ageCredential)).toBe(false)
+      expect(PresentationExchangeUtils.evaluateInputDescriptor(ageDescriptor, ageCredential, { holder })).toBe(true)
+    })
+
+    it('allows optional fields to be missing', () => {
+      expect(
+        PresentationExchangeUtils.evaluateInputDescriptor(
+          { id: 'optional', constraints: { fields: [{ path: ['$.credentialSubject.name'], optional: true }] } },
+          degreeCredential
+        )
+      ).toBe(true)
+    })
+
+    it('requires the subject to be the holder when is_holder is required', () => {
+      const [, ageDescriptor] = presentationDefinition.input_descriptors
+
+      expect(PresentationExchangeUtils.evaluateInputDescriptor(ageDescriptor, ageCredential)).toBe(false)
+      expect(
+        PresentationExchangeUtils.evaluateInputDescriptor(ageDescriptor, ageCredential, { holder: 'did:example:other' })
+      ).toBe(false)
+    })
+
+    it('evaluates the schema, format and subject_is_issuer constraints', () => {
+      const evaluate = (inputDescriptor: Omit<PresentationDefinition['input_descriptors'][number], 'id'>) =>
+        PresentationExchangeUtils.evaluateInputDescriptor({ id: 'descriptor', ...inputDescriptor }, degreeCredential)
+
+      expect(evaluate({ schema: [{ uri: 'https://example.org/examples#UniversityDegreeCredential' }] })).toBe(true)
+      expect(evaluate({ schema: [{ uri: 'https://example.org/examples#AgeCredential' }] })).toBe(false)
+      expect(evaluate({ format: { ldp_vc: { proof_type: ['Ed25519Signature2018'] } } })).toBe(true)
+      expect(evaluate({ format: { ldp_vc: { proof_type: ['BbsBlsSignature2020'] } } })).toBe(false)
+      expect(evaluate({ format: { jwt_vc: { alg: ['EdDSA'] } } })).toBe(false)
+      expect(evaluate({ constraints: { subject_is_issuer: 'required' } })).toBe(false)
+      expect(evaluate({ constraints: { limit_disclosure: 'required' } })).toBe(false)
+    })
+  })
+
+  describe('getMatchingCredentials', () => {
+    it('returns the indices of the credentials matching each input descriptor', () => {
+      expect(
+        PresentationExchangeUtils.getMatchingCredentials(presentationDefinition, [ageCredential, degreeCredential])
+      ).toEqual({ degree: [1], age: [0] })
+    })
+  })
+
+  describe('selectInputDescriptors', () => {
+    const groupedDefinition: PresentationDefinition = {
+      id: 'grouped-definition-id',
+      submission_requirements: [
+        { rule: 'all', from: 'A' },
+        {
+          rule: 'pick',
+          count: 1,
+          from_nested: [
+            { rule: 'all', from: 'B' },
+            { rule: 'pick', min: 2, from: 'C' },
+          ],
+        },
+      ],
+      input_descriptors: [
+        { id: 'a1', group: ['A'] },
+        { id: 'b1', group: ['B'] },
+        { id: 'b2', group: ['B'] },
+        { id: 'c1', group: ['C'] },
+        { id: 'c2', group: ['C'] },
+        { id: 'c3', group: ['C'] },
+      ],
+    }
+
+    it('requires all input descriptors without submission requirements', () => {
+      expect(PresentationExchangeUtils.selectInputDescriptors(presentationDefinition, ['age', 'degree'])).toEqual([
+        'degree',
+        'age',
+      ])
+      expect(PresentationExchangeUtils.selectInputDescriptors(presentationDefinition, ['age'])).toBeUndefined()
+    })
+
+    it('evaluates (nested) submission requirements', () => {
+      expect(PresentationExchangeUtils.selectInputDescriptors(groupedDefinition, ['a1', 'b1', 'b2', 'c1'])).toEqual([
+        'a1',
+        'b1',
+        'b2',
+      ])
+      expect(PresentationExchangeUtils.selectInputDescriptors(groupedDefinition, ['a1', 'b1', 'c1', 'c3'])).toEqual([
+        'a1',
+        'c1',
+        'c3',
+      ])
+      expect(PresentationExchangeUtils.selectInputDescriptors(groupedDefinition, ['a1', 'b1', 'c1'])).toBeUndefined()
+      expect(PresentationExchangeUtils.selectInputDescriptors(groupedDefinition, ['b1', 'b2'])).toBeUndefined()
+    })
+  })
+
+  describe('validatePresentationSubmission', () => {
+    const submission = PresentationExchangeUtils.createPresentationSubmission(presentationDefinition, {
+      degree: 0,
+      age: 1,
+    })
+
+    it('creates a presentation submission referencing the credentials in the presentation', () => {
+      expect(submission).toEqual({
+        id: expect.any(String),
+        definition_id: 'definition-id',
+        descriptor_map: [
+          { id: 'degree', format: 'ldp_vc', path: '$.verifiableCredential[0]' },
+          { id: 'age', format: 'ldp_vc', path: '$.verifiableCredential[1]' },
+        ],
+      })
+    })
+
+    it('validates a presentation satisfying the presentation definition', () => {
+      expect(
+        PresentationExchangeUtils.validatePresentationSubmission(presentationDefinition, presentation(submission))
+      ).toEqual({ valid: true, errors: [] })
+    })
+
+    it('returns errors when the presentation does not satisfy the presentation definition', () => {
+      const result = PresentationExchangeUtils.validatePresentationSubmission(
+        presentationDefinition,
+        presentation({ ...submission, definition_id: 'other-definition-id' }, [ageCredential, degreeCredential])
+      )
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toEqual([
+        "Presentation submission definition_id 'other-definition-id' does not match presentation definition id 'definition-id'",
+        "Input descriptor 'degree': Credential has no value matching field $.credentialSubject.degree.type, $.vc.credentialSubject.degree.type",
+        "Input descriptor 'age': Credential has no value matching field age",
+        'Submitted input descriptors do not satisfy the submission requirements of the presentation definition',
+      ])
+    })
+
+    it('returns errors for fields with unsupported paths or invalid filter patterns', () => {
+      const invalidPresentationDefinition: PresentationDefinition = {
+        id: 'definition-id',
+        input_descriptors: [
+          {
+            id: 'degree',
+            constraints: {
+              fields: [{ id: 'degree', path: ['$.credentialSubject.degree.type'], filter: { pattern: '(' } }],
+            },
+          },
+          {
+            id: 'age',
+            constraints: {
+              fields: [{ id: 'age', path: ['$.credentialSubject[?(@.age > 18)]'] }],
+            },
+          },
+        ],
+      }
+
+      const result = PresentationExchangeUtils.validatePresentationSubmission(
+        invalidPresentationDefinition,
+        presentation(submission)
+      )
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toEqual([
+        "Input descriptor 'degree': Unable to evaluate field degree: Invalid regular expression: /(/: Unterminated group",
+        "Input descriptor 'age': Unable to evaluate field age: Unsupported JSONPath '$.credentialSubject[?(@.age > 18)]' at '[?(@.age > 18)]'",
+        'Submitted input descriptors do not satisfy the submission requirements of the presentation definition',
+      ])
+    })
+
+    it('returns an error when the presentation has no presentation submission', () => {
+      const presentationJson = presentation(submission)
+      delete presentationJson.presentation_submission
+
+      expect(
+        PresentationExchangeUtils.validatePresentationSubmission(presentationDefinition, presentationJson)
+      ).toEqual({ valid: false, errors: ['Presentation does not contain a valid presentation_submission'] })
+    })
+  })
+})
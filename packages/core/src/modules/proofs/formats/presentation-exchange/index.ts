@@ -0,0 +1,4 @@
+export * from './PresentationExchangeProofFormat'
+export * from './PresentationExchangeProofFormatService'
+export * from './PresentationExchangeUtils'
+export * from './models'
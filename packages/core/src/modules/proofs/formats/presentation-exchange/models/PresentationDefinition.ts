@@ -0,0 +1,96 @@
+/**
+ * Subset of JSON Schema that can be used to filter the value of a field.
+ *
+ * @see https://identity.foundation/presentation-exchange/spec/v1.0.0/#input-descriptor-object
+ */
+export interface PresentationDefinitionFilter {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null'
+  const?: unknown
+  enum?: unknown[]
+  pattern?: string
+  format?: string
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  formatMinimum?: string
+  formatMaximum?: string
+  formatExclusiveMinimum?: string
+  formatExclusiveMaximum?: string
+  minItems?: number
+  maxItems?: number
+  contains?: PresentationDefinitionFilter
+  not?: PresentationDefinitionFilter
+}
+
+export type PresentationDefinitionDirective = 'required' | 'preferred'
+
+export interface PresentationDefinitionField {
+  id?: string
+  path: string[]
+  purpose?: string
+  filter?: PresentationDefinitionFilter
+  optional?: boolean
+  predicate?: PresentationDefinitionDirective
+}
+
+export interface PresentationDefinitionHolderSubject {
+  field_id: string[]
+  directive: PresentationDefinitionDirective
+}
+
+export interface PresentationDefinitionConstraints {
+  limit_disclosure?: PresentationDefinitionDirective
+  subject_is_issuer?: PresentationDefinitionDirective
+  is_holder?: PresentationDefinitionHolderSubject[]
+  fields?: PresentationDefinitionField[]
+}
+
+export interface PresentationDefinitionSchema {
+  uri: string
+  required?: boolean
+}
+
+/**
+ * Claim format designations supported by the definition, e.g. `{ ldp_vc: { proof_type: ['Ed25519Signature2018'] } }`
+ */
+export type PresentationDefinitionFormat = Record<string, { proof_type?: string[]; alg?: string[] }>
+
+export interface InputDescriptor {
+  id: string
+  name?: string
+  purpose?: string
+  group?: string[]
+  schema?: PresentationDefinitionSchema[]
+  format?: PresentationDefinitionFormat
+  constraints?: PresentationDefinitionConstraints
+}
+
+export type SubmissionRequirementRule = 'all' | 'pick'
+
+export interface SubmissionRequirement {
+  name?: string
+  purpose?: string
+  rule: SubmissionRequirementRule
+  count?: number
+  min?: number
+  max?: number
+  from?: string
+  from_nested?: SubmissionRequirement[]
+}
+
+/**
+ * Presentation definition as sent by the verifier, describing the proofs it requires from the holder.
+ *
+ * @see https://identity.foundation/presentation-exchange/spec/v1.0.0/#presentation-definition
+ */
+export interface PresentationDefinition {
+  id: string
+  name?: string
+  purpose?: string
+  format?: PresentationDefinitionFormat
+  submission_requirements?: SubmissionRequirement[]
+  input_descriptors: InputDescriptor[]
+}
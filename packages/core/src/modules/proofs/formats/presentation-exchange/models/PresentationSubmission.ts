@@ -0,0 +1,18 @@
+export interface PresentationSubmissionDescriptor {
+  id: string
+  format: string
+  path: string
+  path_nested?: PresentationSubmissionDescriptor
+}
+
+/**
+ * Presentation submission as included in a presentation by the holder, mapping the input descriptors of the
+ * presentation definition to the credentials in the presentation that satisfy them.
+ *
+ * @see https://identity.foundation/presentation-exchange/spec/v1.0.0/#presentation-submission
+ */
+export interface PresentationSubmission {
+  id: string
+  definition_id: string
+  descriptor_map: PresentationSubmissionDescriptor[]
+}
@@ -0,0 +1,2 @@
+export * from './PresentationDefinition'
+export * from './PresentationSubmission'
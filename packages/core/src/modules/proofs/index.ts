@@ -6,3 +6,5 @@ export * from './repository'
 export * from './ProofEvents'
 export * from './ProofsModule'
 export * from './ProofAutoAcceptType'
+export * from './formats'
+export * from './protocol'
@@ -1,7 +1,7 @@
 import { Expose, Type } from 'class-transformer'
 import { IsString, IsOptional, IsArray, ValidateNested, IsInstance, ValidateIf, ArrayNotEmpty } from 'class-validator'
 
-import { IndyRevocationInterval } from '../../credentials'
+import { IndyRevocationInterval } from '../../credentials/formats/indy/models/IndyRevocationInterval'
 
 import { AttributeFilter } from './AttributeFilter'
 
@@ -1,7 +1,7 @@
 import { Expose, Type } from 'class-transformer'
 import { IsArray, IsEnum, IsInstance, IsInt, IsOptional, IsString, ValidateNested } from 'class-validator'
 
-import { IndyRevocationInterval } from '../../credentials'
+import { IndyRevocationInterval } from '../../credentials/formats/indy/models/IndyRevocationInterval'
 
 import { AttributeFilter } from './AttributeFilter'
 import { PredicateType } from './PredicateType'
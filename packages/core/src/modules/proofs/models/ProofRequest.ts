@@ -5,7 +5,7 @@ import { IsString, ValidateNested, IsOptional, IsIn, IsInstance } from 'class-va
 
 import { JsonTransformer } from '../../../utils/JsonTransformer'
 import { IsMap } from '../../../utils/transformers'
-import { IndyRevocationInterval } from '../../credentials'
+import { IndyRevocationInterval } from '../../credentials/formats/indy/models/IndyRevocationInterval'
 
 import { ProofAttributeInfo } from './ProofAttributeInfo'
 import { ProofPredicateInfo } from './ProofPredicateInfo'
@@ -1,7 +1,7 @@
 import { Exclude, Expose } from 'class-transformer'
 import { IsInt, IsOptional, IsString } from 'class-validator'
 
-import { IndyCredentialInfo } from '../../credentials'
+import { IndyCredentialInfo } from '../../credentials/formats/indy/models/IndyCredentialInfo'
 
 /**
  * Requested Predicate for Indy proof creation
@@ -11,3 +11,4 @@ export * from './RequestedCredentials'
 export * from './RequestedPredicate'
 export * from './RequestedProof'
 export * from './RetrievedCredentials'
+export * from './ProofFormatSpec'
@@ -0,0 +1,352 @@
+import type { Attachment } from '../../../../decorators/attachment/Attachment'
+import type { DidCommMessageRepository } from '../../../../storage'
+import type { ProofFormat, ProofFormatPayload, ProofFormatService } from '../../formats'
+import type { ProofFormatSpec } from '../../models/ProofFormatSpec'
+import type { ProofRecord } from '../../repository/ProofRecord'
+
+import { AriesFrameworkError } from '../../../../error/AriesFrameworkError'
+import { DidCommMessageRole } from '../../../../storage'
+
+import { V2PresentationMessage, V2ProposePresentationMessage, V2RequestPresentationMessage } from './messages'
+
+export class ProofFormatCoordinator<PFs extends ProofFormat[]> {
+  private didCommMessageRepository: DidCommMessageRepository
+  public constructor(didCommMessageRepository: DidCommMessageRepository) {
+    this.didCommMessageRepository = didCommMessageRepository
+  }
+
+  /**
+   * Create a {@link V2ProposePresentationMessage}.
+   *
+   * @param options
+   * @returns The created {@link V2ProposePresentationMessage}
+   *
+   */
+  public async createProposal({
+    proofFormats,
+    formatServices,
+    proofRecord,
+    comment,
+  }: {
+    formatServices: ProofFormatService[]
+    proofFormats: ProofFormatPayload<PFs, 'createProposal'>
+    proofRecord: ProofRecord
+    comment?: string
+  }): Promise<V2ProposePresentationMessage> {
+    // create message. there are two arrays in each message, one for formats the other for attachments
+    const formats: ProofFormatSpec[] = []
+    const proposalAttachments: Attachment[] = []
+
+    for (const formatService of formatServices) {
+      const { format, attachment } = await formatService.createProposal({
+        proofFormats,
+        proofRecord,
+      })
+
+      proposalAttachments.push(attachment)
+      formats.push(format)
+    }
+
+    const message = new V2ProposePresentationMessage({
+      id: proofRecord.threadId,
+      formats,
+      proposalAttachments,
+      comment,
+    })
+
+    message.setThread({ threadId: proofRecord.threadId, parentThreadId: proofRecord.parentThreadId })
+
+    await this.didCommMessageRepository.saveOrUpdateAgentMessage({
+      agentMessage: message,
+      role: DidCommMessageRole.Sender,
+      associatedRecordId: proofRecord.id,
+    })
+
+    return message
+  }
+
+  public async processProposal({
+    proofRecord,
+    message,
+    formatServices,
+  }: {
+    proofRecord: ProofRecord
+    message: V2ProposePresentationMessage
+    formatServices: ProofFormatService[]
+  }) {
+    for (const formatService of formatServices) {
+      const attachment = this.getAttachmentForService(formatService, message.formats, message.proposalAttachments)
+
+      await formatService.processProposal({
+        attachment,
+        proofRecord,
+      })
+    }
+
+    await this.didCommMessageRepository.saveOrUpdateAgentMessage({
+      agentMessage: message,
+      role: DidCommMessageRole.Receiver,
+      associatedRecordId: proofRecord.id,
+    })
+  }
+
+  public async acceptProposal({
+    proofRecord,
+    proofFormats,
+    formatServices,
+    comment,
+  }: {
+    proofRecord: ProofRecord
+    proofFormats?: ProofFormatPayload<PFs, 'acceptProposal'>
+    formatServices: ProofFormatService[]
+    comment?: string
+  }): Promise<V2RequestPresentationMessage> {
+    // create message. there are two arrays in each message, one for formats the other for attachments
+    const formats: ProofFormatSpec[] = []
+    const requestAttachments: Attachment[] = []
+
+    const proposalMessage = await this.didCommMessageRepository.getAgentMessage({
+      associatedRecordId: proofRecord.id,
+      messageClass: V2ProposePresentationMessage,
+    })
+
+    for (const formatService of formatServices) {
+      const proposalAttachment = this.getAttachmentForService(
+        formatService,
+        proposalMessage.formats,
+        proposalMessage.proposalAttachments
+      )
+
+      const { attachment, format } = await formatService.acceptProposal({
+        proofRecord,
+        proofFormats,
+        proposalAttachment,
+      })
+
+      requestAttachments.push(attachment)
+      formats.push(format)
+    }
+
+    const message = new V2RequestPresentationMessage({
+      formats,
+      requestAttachments,
+      comment,
+    })
+
+    message.setThread({ threadId: proofRecord.threadId })
+
+    await this.didCommMessageRepository.saveOrUpdateAgentMessage({
+      agentMessage: message,
+      role: DidCommMessageRole.Sender,
+      associatedRecordId: proofRecord.id,
+    })
+
+    return message
+  }
+
+  /**
+   * Create a {@link V2RequestPresentationMessage}.
+   *
+   * @param options
+   * @returns The created {@link V2RequestPresentationMessage}
+   *
+   */
+  public async createRequest({
+    proofFormats,
+    formatServices,
+    proofRecord,
+    comment,
+  }: {
+    formatServices: ProofFormatService[]
+    proofFormats: ProofFormatPayload<PFs, 'createRequest'>
+    proofRecord: ProofRecord
+    comment?: string
+  }): Promise<V2RequestPresentationMessage> {
+    // create message. there are two arrays in each message, one for formats the other for attachments
+    const formats: ProofFormatSpec[] = []
+    const requestAttachments: Attachment[] = []
+
+    for (const formatService of formatServices) {
+      const { format, attachment } = await formatService.createRequest({
+        proofFormats,
+        proofRecord,
+      })
+
+      requestAttachments.push(attachment)
+      formats.push(format)
+    }
+
+    const message = new V2RequestPresentationMessage({
+      formats,
+      requestAttachments,
+      comment,
+    })
+
+    message.setThread({ threadId: proofRecord.threadId, parentThreadId: proofRecord.parentThreadId })
+
+    await this.didCommMessageRepository.saveOrUpdateAgentMessage({
+      agentMessage: message,
+      role: DidCommMessageRole.Sender,
+      associatedRecordId: proofRecord.id,
+    })
+
+    return message
+  }
+
+  public async processRequest({
+    proofRecord,
+    message,
+    formatServices,
+  }: {
+    proofRecord: ProofRecord
+    message: V2RequestPresentationMessage
+    formatServices: ProofFormatService[]
+  }) {
+    for (const formatService of formatServices) {
+      const attachment = this.getAttachmentForService(formatService, message.formats, message.requestAttachments)
+
+      await formatService.processRequest({
+        attachment,
+        proofRecord,
+      })
+    }
+
+    await this.didCommMessageRepository.saveOrUpdateAgentMessage({
+      agentMessage: message,
+      role: DidCommMessageRole.Receiver,
+      associatedRecordId: proofRecord.id,
+    })
+  }
+
+  public async acceptRequest({
+    proofRecord,
+    proofFormats,
+    formatServices,
+    comment,
+  }: {
+    proofRecord: ProofRecord
+    proofFormats?: ProofFormatPayload<PFs, 'acceptRequest'>
+    formatServices: ProofFormatService[]
+    comment?: string
+  }): Promise<V2PresentationMessage> {
+    // create message. there are two arrays in each message, one for formats the other for attachments
+    const formats: ProofFormatSpec[] = []
+    const presentationAttachments: Attachment[] = []
+
+    const requestMessage = await this.didCommMessageRepository.getAgentMessage({
+      associatedRecordId: proofRecord.id,
+      messageClass: V2RequestPresentationMessage,
+    })
+
+    const proposalMessage = await this.didCommMessageRepository.findAgentMessage({
+      associatedRecordId: proofRecord.id,
+      messageClass: V2ProposePresentationMessage,
+    })
+
+    for (const formatService of formatServices) {
+      const requestAttachment = this.getAttachmentForService(
+        formatService,
+        requestMessage.formats,
+        requestMessage.requestAttachments
+      )
+
+      const proposalAttachment = proposalMessage
+        ? this.getAttachmentForService(formatService, proposalMessage.formats, proposalMessage.proposalAttachments)
+        : undefined
+
+      const { attachment, format } = await formatService.acceptRequest({
+        proofRecord,
+        proofFormats,
+        requestAttachment,
+        proposalAttachment,
+      })
+
+      presentationAttachments.push(attachment)
+      formats.push(format)
+    }
+
+    const message = new V2PresentationMessage({
+      formats,
+      presentationAttachments,
+      comment,
+    })
+
+    message.setThread({ threadId: proofRecord.threadId })
+
+    await this.didCommMessageRepository.saveOrUpdateAgentMessage({
+      agentMessage: message,
+      role: DidCommMessageRole.Sender,
+      associatedRecordId: proofRecord.id,
+    })
+
+    return message
+  }
+
+  /**
+   * Process a received {@link V2PresentationMessage}. All attachments are verified by their
+   * respective format service.
+   *
+   * @returns whether all presentations in the message could be verified
+   */
+  public async processPresentation({
+    proofRecord,
+    message,
+    requestMessage,
+    formatServices,
+  }: {
+    proofRecord: ProofRecord
+    message: V2PresentationMessage
+    requestMessage: V2RequestPresentationMessage
+    formatServices: ProofFormatService[]
+  }): Promise<boolean> {
+    let isVerified = true
+
+    for (const formatService of formatServices) {
+      const attachment = this.getAttachmentForService(formatService, message.formats, message.presentationAttachments)
+      const requestAttachment = this.getAttachmentForService(
+        formatService,
+        requestMessage.formats,
+        requestMessage.requestAttachments
+      )
+
+      const isFormatVerified = await formatService.processPresentation({
+        attachment,
+        requestAttachment,
+        proofRecord,
+      })
+
+      isVerified = isVerified && isFormatVerified
+    }
+
+    await this.didCommMessageRepository.saveOrUpdateAgentMessage({
+      agentMessage: message,
+      role: DidCommMessageRole.Receiver,
+      associatedRecordId: proofRecord.id,
+    })
+
+    return isVerified
+  }
+
+  public getAttachmentForService(
+    proofFormatService: ProofFormatService,
+    formats: ProofFormatSpec[],
+    attachments: Attachment[]
+  ) {
+    const attachmentId = this.getAttachmentIdForService(proofFormatService, formats)
+    const attachment = attachments.find((attachment) => attachment.id === attachmentId)
+
+    if (!attachment) {
+      throw new AriesFrameworkError(`Attachment with id ${attachmentId} not found in attachments.`)
+    }
+
+    return attachment
+  }
+
+  private getAttachmentIdForService(proofFormatService: ProofFormatService, formats: ProofFormatSpec[]) {
+    const format = formats.find((format) => proofFormatService.supportsFormat(format.format))
+
+    if (!format) throw new AriesFrameworkError(`No attachment found for service ${proofFormatService.formatKey}`)
+
+    return format.attachId
+  }
+}
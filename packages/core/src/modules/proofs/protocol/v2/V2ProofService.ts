@@ -0,0 +1,987 @@
+import type { InboundMessageContext } from '../../../../agent/models/InboundMessageContext'
+import type { Logger } from '../../../../logger'
+import type { ProofStateChangedEvent } from '../../ProofEvents'
+import type {
+  AcceptPresentationOptions,
+  AcceptProposalOptions,
+  AcceptRequestOptions,
+  CreateProblemReportOptions,
+  CreateProposalOptions,
+  CreateRequestOptions,
+  GetProofFormatDataReturn,
+  ProofFormatDataMessagePayload,
+} from '../../ProofServiceOptions'
+import type { ProofFormat, ProofFormatPayload, ProofFormatService } from '../../formats'
+import type { ProofFormatSpec } from '../../models/ProofFormatSpec'
+import type { ProofProtocolMsgReturnType } from '../../services/ProofService'
+
+import { AgentConfig } from '../../../../agent/AgentConfig'
+import { Dispatcher } from '../../../../agent/Dispatcher'
+import { EventEmitter } from '../../../../agent/EventEmitter'
+import { AriesFrameworkError } from '../../../../error'
+import { injectable } from '../../../../plugins'
+import { DidCommMessageRepository } from '../../../../storage'
+import { JsonTransformer } from '../../../../utils/JsonTransformer'
+import { uuid } from '../../../../utils/uuid'
+import { AckStatus } from '../../../common'
+import { ConnectionService } from '../../../connections/services/ConnectionService'
+import { RoutingService } from '../../../routing/services/RoutingService'
+import { AutoAcceptProof } from '../../ProofAutoAcceptType'
+import { ProofEventTypes } from '../../ProofEvents'
+import { ProofResponseCoordinator } from '../../ProofResponseCoordinator'
+import { ProofState } from '../../ProofState'
+import { PresentationProblemReportReason } from '../../errors'
+import { IndyProofFormatService } from '../../formats/indy/IndyProofFormatService'
+import { PresentationExchangeProofFormatService } from '../../formats/presentation-exchange/PresentationExchangeProofFormatService'
+import { ProofRecord, ProofRepository } from '../../repository'
+
+import { ProofFormatCoordinator } from './ProofFormatCoordinator'
+import {
+  V2PresentationAckHandler,
+  V2PresentationHandler,
+  V2PresentationProblemReportHandler,
+  V2ProposePresentationHandler,
+  V2RequestPresentationHandler,
+} from './handlers'
+import {
+  V2PresentationAckMessage,
+  V2PresentationMessage,
+  V2PresentationProblemReportMessage,
+  V2ProposePresentationMessage,
+  V2RequestPresentationMessage,
+} from './messages'
+
+/**
+ * Service implementing the present proof 2.0 protocol. The format specific logic (e.g. creating indy proofs) is
+ * delegated to the registered {@link ProofFormatService}s, based on the formats present in the exchanged messages.
+ *
+ * @see https://github.com/hyperledger/aries-rfcs/tree/main/features/0454-present-proof-v2
+ */
+@injectable()
+export class V2ProofService<PFs extends ProofFormat[] = ProofFormat[]> {
+  private proofRepository: ProofRepository
+  private didCommMessageRepository: DidCommMessageRepository
+  private connectionService: ConnectionService
+  private routingService: RoutingService
+  private eventEmitter: EventEmitter
+  private dispatcher: Dispatcher
+  private agentConfig: AgentConfig
+  private logger: Logger
+  private proofFormatCoordinator: ProofFormatCoordinator<PFs>
+  private formatServiceMap: { [key: string]: ProofFormatService }
+
+  public constructor(
+    proofRepository: ProofRepository,
+    didCommMessageRepository: DidCommMessageRepository,
+    connectionService: ConnectionService,
+    routingService: RoutingService,
+    eventEmitter: EventEmitter,
+    dispatcher: Dispatcher,
+    agentConfig: AgentConfig,
+    indyProofFormatService: IndyProofFormatService,
+    presentationExchangeProofFormatService: PresentationExchangeProofFormatService
+  ) {
+    this.proofRepository = proofRepository
+    this.didCommMessageRepository = didCommMessageRepository
+    this.connectionService = connectionService
+    this.routingService = routingService
+    this.eventEmitter = eventEmitter
+    this.dispatcher = dispatcher
+    this.agentConfig = agentConfig
+    this.logger = agentConfig.logger
+    this.proofFormatCoordinator = new ProofFormatCoordinator(didCommMessageRepository)
+
+    // Dynamically build format service map. This will be extracted once services are registered dynamically
+    this.formatServiceMap = [indyProofFormatService, presentationExchangeProofFormatService].reduce(
+      (formatServiceMap, formatService) => ({
+        ...formatServiceMap,
+        [formatService.formatKey]: formatService,
+      }),
+      {}
+    )
+
+    this.registerHandlers()
+  }
+
+  /**
+   * The version of the present proof protocol this service supports
+   */
+  public readonly version = 'v2' as const
+
+  /**
+   * Create a {@link V2ProposePresentationMessage} not bound to an existing presentation exchange.
+   *
+   * @param options configuration for the proposal, see {@link CreateProposalOptions}
+   * @returns Object containing proposal message and associated proof record
+   *
+   */
+  public async createProposal({
+    connection,
+    proofFormats,
+    comment,
+    autoAcceptProof,
+    parentThreadId,
+  }: CreateProposalOptions<PFs>): Promise<ProofProtocolMsgReturnType<V2ProposePresentationMessage>> {
+    // Assert
+    connection.assertReady()
+
+    const formatServices = this.getFormatServices(proofFormats)
+    if (formatServices.length === 0) {
+      throw new AriesFrameworkError(`Unable to create proposal. No supported formats`)
+    }
+
+    const proofRecord = new ProofRecord({
+      connectionId: connection.id,
+      threadId: uuid(),
+      parentThreadId,
+      state: ProofState.ProposalSent,
+      autoAcceptProof,
+      protocolVersion: this.version,
+    })
+
+    const proposalMessage = await this.proofFormatCoordinator.createProposal({
+      proofFormats,
+      proofRecord,
+      formatServices,
+      comment,
+    })
+
+    await this.proofRepository.save(proofRecord)
+    this.emitStateChangedEvent(proofRecord, null)
+
+    return { proofRecord, message: proposalMessage }
+  }
+
+  /**
+   * Process a received {@link V2ProposePresentationMessage}. This will not accept the presentation proposal
+   * or send a presentation request. It will only create a new, or update the existing proof record with
+   * the information from the presentation proposal message.
+   *
+   * @param messageContext The message context containing a presentation proposal message
+   * @returns proof record associated with the presentation proposal message
+   *
+   */
+  public async processProposal(
+    messageContext: InboundMessageContext<V2ProposePresentationMessage>
+  ): Promise<ProofRecord> {
+    const { message: proposalMessage, connection } = messageContext
+
+    this.logger.debug(`Processing presentation proposal with id ${proposalMessage.id}`)
+
+    const formatServices = this.getFormatServicesFromMessage(proposalMessage.formats)
+    if (formatServices.length === 0) {
+      throw new AriesFrameworkError(`Unable to process proposal. No supported formats`)
+    }
+
+    let proofRecord = await this.findByThreadAndConnectionId(proposalMessage.threadId, connection?.id)
+
+    // proof record already exists, this is a response to an earlier request
+    if (proofRecord) {
+      const previousReceivedMessage = await this.findProposalMessage(proofRecord.id)
+      const previousSentMessage = await this.findRequestMessage(proofRecord.id)
+
+      // Assert
+      proofRecord.assertProtocolVersion(this.version)
+      proofRecord.assertState(ProofState.RequestSent)
+      this.connectionService.assertConnectionOrServiceDecorator(messageContext, {
+        previousReceivedMessage: previousReceivedMessage ?? undefined,
+        previousSentMessage: previousSentMessage ?? undefined,
+      })
+
+      await this.proofFormatCoordinator.processProposal({
+        proofRecord,
+        formatServices,
+        message: proposalMessage,
+      })
+
+      await this.updateState(proofRecord, ProofState.ProposalReceived)
+    } else {
+      // Assert
+      this.connectionService.assertConnectionOrServiceDecorator(messageContext)
+
+      proofRecord = new ProofRecord({
+        connectionId: connection?.id,
+        threadId: proposalMessage.threadId,
+        parentThreadId: proposalMessage.thread?.parentThreadId,
+        state: ProofState.ProposalReceived,
+        protocolVersion: this.version,
+      })
+
+      await this.proofFormatCoordinator.processProposal({
+        proofRecord,
+        formatServices,
+        message: proposalMessage,
+      })
+
+      // Save record
+      await this.proofRepository.save(proofRecord)
+      this.emitStateChangedEvent(proofRecord, null)
+    }
+
+    return proofRecord
+  }
+
+  /**
+   * Create a {@link V2RequestPresentationMessage} as response to a received presentation proposal.
+   *
+   * @param options configuration for the request, see {@link AcceptProposalOptions}
+   * @returns Object containing request message and associated proof record
+   *
+   */
+  public async acceptProposal({
+    proofRecord,
+    proofFormats,
+    autoAcceptProof,
+    comment,
+  }: AcceptProposalOptions<PFs>): Promise<ProofProtocolMsgReturnType<V2RequestPresentationMessage>> {
+    // Assert
+    proofRecord.assertProtocolVersion(this.version)
+    proofRecord.assertState(ProofState.ProposalReceived)
+
+    // Use empty proofFormats if not provided to denote all formats should be accepted
+    let formatServices = this.getFormatServices(proofFormats ?? {})
+
+    // if no format services could be extracted from the proofFormats
+    // take all available format services from the proposal message
+    if (formatServices.length === 0) {
+      const proposalMessage = await this.didCommMessageRepository.getAgentMessage({
+        associatedRecordId: proofRecord.id,
+        messageClass: V2ProposePresentationMessage,
+      })
+
+      formatServices = this.getFormatServicesFromMessage(proposalMessage.formats)
+    }
+
+    // If the format services list is still empty, throw an error as we don't support any
+    // of the formats
+    if (formatServices.length === 0) {
+      throw new AriesFrameworkError(
+        `Unable to accept proposal. No supported formats provided as input or in proposal message`
+      )
+    }
+
+    const requestMessage = await this.proofFormatCoordinator.acceptProposal({
+      proofRecord,
+      formatServices,
+      proofFormats,
+      comment,
+    })
+
+    proofRecord.autoAcceptProof = autoAcceptProof ?? proofRecord.autoAcceptProof
+    await this.updateState(proofRecord, ProofState.RequestSent)
+
+    return { proofRecord, message: requestMessage }
+  }
+
+  /**
+   * Create a {@link V2RequestPresentationMessage} as beginning of protocol process. If no connection is provided, the
+   * exchange will be created without a connection for usage in oob and connection-less presentation exchange.
+   *
+   * @param options configuration for the request, see {@link CreateRequestOptions}
+   * @returns Object containing request message and associated proof record
+   *
+   */
+  public async createRequest({
+    connection,
+    proofFormats,
+    comment,
+    autoAcceptProof,
+    parentThreadId,
+  }: CreateRequestOptions<PFs>): Promise<ProofProtocolMsgReturnType<V2RequestPresentationMessage>> {
+    // Assert
+    connection?.assertReady()
+
+    const formatServices = this.getFormatServices(proofFormats)
+    if (formatServices.length === 0) {
+      throw new AriesFrameworkError(`Unable to create request. No supported formats`)
+    }
+
+    const proofRecord = new ProofRecord({
+      connectionId: connection?.id,
+      threadId: uuid(),
+      parentThreadId,
+      state: ProofState.RequestSent,
+      autoAcceptProof,
+      protocolVersion: this.version,
+    })
+
+    const requestMessage = await this.proofFormatCoordinator.createRequest({
+      proofFormats,
+      proofRecord,
+      formatServices,
+      comment,
+    })
+
+    await this.proofRepository.save(proofRecord)
+    this.emitStateChangedEvent(proofRecord, null)
+
+    return { proofRecord, message: requestMessage }
+  }
+
+  /**
+   * Process a received {@link V2RequestPresentationMessage}. This will not accept the presentation request
+   * or send a presentation. It will only create a new, or update the existing proof record with
+   * the information from the presentation request message.
+   *
+   * @param messageContext The message context containing a presentation request message
+   * @returns proof record associated with the presentation request message
+   *
+   */
+  public async processRequest(
+    messageContext: InboundMessageContext<V2RequestPresentationMessage>
+  ): Promise<ProofRecord> {
+    const { message: requestMessage, connection } = messageContext
+
+    this.logger.debug(`Processing presentation request with id ${requestMessage.id}`)
+
+    const formatServices = this.getFormatServicesFromMessage(requestMessage.formats)
+    if (formatServices.length === 0) {
+      throw new AriesFrameworkError(`Unable to process request. No supported formats`)
+    }
+
+    let proofRecord = await this.findByThreadAndConnectionId(requestMessage.threadId, connection?.id)
+
+    // proof record already exists, this is a response to an earlier proposal
+    if (proofRecord) {
+      const previousReceivedMessage = await this.findRequestMessage(proofRecord.id)
+      const previousSentMessage = await this.findProposalMessage(proofRecord.id)
+
+      // Assert
+      proofRecord.assertProtocolVersion(this.version)
+      proofRecord.assertState(ProofState.ProposalSent)
+      this.connectionService.assertConnectionOrServiceDecorator(messageContext, {
+        previousReceivedMessage: previousReceivedMessage ?? undefined,
+        previousSentMessage: previousSentMessage ?? undefined,
+      })
+
+      await this.proofFormatCoordinator.processRequest({
+        proofRecord,
+        formatServices,
+        message: requestMessage,
+      })
+
+      await this.updateState(proofRecord, ProofState.RequestReceived)
+    } else {
+      // Assert
+      this.connectionService.assertConnectionOrServiceDecorator(messageContext)
+
+      proofRecord = new ProofRecord({
+        connectionId: connection?.id,
+        threadId: requestMessage.threadId,
+        parentThreadId: requestMessage.thread?.parentThreadId,
+        state: ProofState.RequestReceived,
+        protocolVersion: this.version,
+      })
+
+      await this.proofFormatCoordinator.processRequest({
+        proofRecord,
+        formatServices,
+        message: requestMessage,
+      })
+
+      // Save record
+      await this.proofRepository.save(proofRecord)
+      this.emitStateChangedEvent(proofRecord, null)
+    }
+
+    return proofRecord
+  }
+
+  /**
+   * Create a {@link V2PresentationMessage} as response to a received presentation request.
+   *
+   * @param options configuration for the presentation, see {@link AcceptRequestOptions}
+   * @returns Object containing presentation message and associated proof record
+   *
+   */
+  public async acceptRequest({
+    proofRecord,
+    proofFormats,
+    autoAcceptProof,
+    comment,
+  }: AcceptRequestOptions<PFs>): Promise<ProofProtocolMsgReturnType<V2PresentationMessage>> {
+    // Assert
+    proofRecord.assertProtocolVersion(this.version)
+    proofRecord.assertState(ProofState.RequestReceived)
+
+    // Use empty proofFormats if not provided to denote all formats should be accepted
+    let formatServices = this.getFormatServices(proofFormats ?? {})
+
+    // if no format services could be extracted from the proofFormats
+    // take all available format services from the request message
+    if (formatServices.length === 0) {
+      const requestMessage = await this.didCommMessageRepository.getAgentMessage({
+        associatedRecordId: proofRecord.id,
+        messageClass: V2RequestPresentationMessage,
+      })
+
+      formatServices = this.getFormatServicesFromMessage(requestMessage.formats)
+    }
+
+    // If the format services list is still empty, throw an error as we don't support any
+    // of the formats
+    if (formatServices.length === 0) {
+      throw new AriesFrameworkError(
+        `Unable to accept request. No supported formats provided as input or in request message`
+      )
+    }
+
+    const presentationMessage = await this.proofFormatCoordinator.acceptRequest({
+      proofRecord,
+      formatServices,
+      proofFormats,
+      comment,
+    })
+
+    proofRecord.autoAcceptProof = autoAcceptProof ?? proofRecord.autoAcceptProof
+    await this.updateState(proofRecord, ProofState.PresentationSent)
+
+    return { proofRecord, message: presentationMessage }
+  }
+
+  /**
+   * Decline a received presentation request as prover.
+   *
+   * @param proofRecord The proof record for which to decline the request
+   * @returns The declined proof record
+   */
+  public async declineRequest(proofRecord: ProofRecord): Promise<ProofRecord> {
+    proofRecord.assertProtocolVersion(this.version)
+    proofRecord.assertState(ProofState.RequestReceived)
+
+    await this.updateState(proofRecord, ProofState.Declined)
+
+    return proofRecord
+  }
+
+  /**
+   * Process a received {@link V2PresentationMessage}. This will not accept the presentation
+   * or send a presentation acknowledgement. It will only verify the presentation and update the
+   * existing proof record with the verification result.
+   *
+   * @param messageContext The message context containing a presentation message
+   * @returns proof record associated with the presentation message
+   *
+   */
+  public async processPresentation(messageContext: InboundMessageContext<V2PresentationMessage>): Promise<ProofRecord> {
+    const { message: presentationMessage, connection } = messageContext
+
+    this.logger.debug(`Processing presentation with id ${presentationMessage.id}`)
+
+    const proofRecord = await this.getByThreadAndConnectionId(presentationMessage.threadId, connection?.id)
+
+    const proposalMessage = await this.findProposalMessage(proofRecord.id)
+    const requestMessage = await this.didCommMessageRepository.getAgentMessage({
+      associatedRecordId: proofRecord.id,
+      messageClass: V2RequestPresentationMessage,
+    })
+
+    // Assert
+    proofRecord.assertProtocolVersion(this.version)
+    proofRecord.assertState(ProofState.RequestSent)
+    this.connectionService.assertConnectionOrServiceDecorator(messageContext, {
+      previousReceivedMessage: proposalMessage ?? undefined,
+      previousSentMessage: requestMessage,
+    })
+
+    const formatServices = this.getFormatServicesFromMessage(requestMessage.formats)
+    if (formatServices.length === 0) {
+      throw new AriesFrameworkError(`Unable to process presentation. No supported formats`)
+    }
+
+    const isVerified = await this.proofFormatCoordinator.processPresentation({
+      proofRecord,
+      formatServices,
+      message: presentationMessage,
+      requestMessage,
+    })
+
+    // Update record
+    proofRecord.isVerified = isVerified
+    await this.updateState(proofRecord, ProofState.PresentationReceived)
+
+    return proofRecord
+  }
+
+  /**
+   * Create a {@link V2PresentationAckMessage} as response to a received presentation.
+   *
+   * @param options the proof record for which to create the presentation acknowledgement
+   * @returns Object containing presentation acknowledgement message and associated proof record
+   *
+   */
+  public async acceptPresentation({
+    proofRecord,
+  }: AcceptPresentationOptions): Promise<ProofProtocolMsgReturnType<V2PresentationAckMessage>> {
+    this.logger.debug(`Creating presentation ack for proof record with id ${proofRecord.id}`)
+
+    // Assert
+    proofRecord.assertProtocolVersion(this.version)
+    proofRecord.assertState(ProofState.PresentationReceived)
+
+    // Create message
+    const ackMessage = new V2PresentationAckMessage({
+      status: AckStatus.OK,
+      threadId: proofRecord.threadId,
+    })
+
+    // Update record
+    await this.updateState(proofRecord, ProofState.Done)
+
+    return { message: ackMessage, proofRecord }
+  }
+
+  /**
+   * Process a received {@link V2PresentationAckMessage}.
+   *
+   * @param messageContext The message context containing a presentation acknowledgement message
+   * @returns proof record associated with the presentation acknowledgement message
+   *
+   */
+  public async processAck(messageContext: InboundMessageContext<V2PresentationAckMessage>): Promise<ProofRecord> {
+    const { message: ackMessage, connection } = messageContext
+
+    this.logger.debug(`Processing presentation ack with id ${ackMessage.id}`)
+
+    const proofRecord = await this.getByThreadAndConnectionId(ackMessage.threadId, connection?.id)
+
+    const requestMessage = await this.didCommMessageRepository.getAgentMessage({
+      associatedRecordId: proofRecord.id,
+      messageClass: V2RequestPresentationMessage,
+    })
+    const presentationMessage = await this.didCommMessageRepository.getAgentMessage({
+      associatedRecordId: proofRecord.id,
+      messageClass: V2PresentationMessage,
+    })
+
+    // Assert
+    proofRecord.assertProtocolVersion(this.version)
+    proofRecord.assertState(ProofState.PresentationSent)
+    this.connectionService.assertConnectionOrServiceDecorator(messageContext, {
+      previousReceivedMessage: requestMessage,
+      previousSentMessage: presentationMessage,
+    })
+
+    // Update record
+    await this.updateState(proofRecord, ProofState.Done)
+
+    return proofRecord
+  }
+
+  /**
+   * Create a {@link V2PresentationProblemReportMessage} to be sent.
+   *
+   * @param options the message to include in the problem report
+   * @returns a {@link V2PresentationProblemReportMessage}
+   *
+   */
+  public createProblemReport(options: CreateProblemReportOptions): V2PresentationProblemReportMessage {
+    return new V2PresentationProblemReportMessage({
+      description: {
+        en: options.message,
+        code: PresentationProblemReportReason.Abandoned,
+      },
+    })
+  }
+
+  /**
+   * Process a received {@link V2PresentationProblemReportMessage}.
+   *
+   * @param messageContext The message context containing a presentation problem report message
+   * @returns proof record associated with the presentation problem report message
+   *
+   */
+  public async processProblemReport(
+    messageContext: InboundMessageContext<V2PresentationProblemReportMessage>
+  ): Promise<ProofRecord> {
+    const { message: problemReportMessage } = messageContext
+
+    const connection = messageContext.assertReadyConnection()
+
+    this.logger.debug(`Processing problem report with id ${problemReportMessage.id}`)
+
+    const proofRecord = await this.getByThreadAndConnectionId(problemReportMessage.threadId, connection.id)
+
+    // Other messages for the thread can be processed concurrently, so the error message is applied to the
+    // latest version of the proof record
+    const errorMessage = `${problemReportMessage.description.code}: ${problemReportMessage.description.en}`
+    return this.updateWithRetry(proofRecord.id, (record) => {
+      record.errorMessage = errorMessage
+    })
+  }
+
+  // AUTO ACCEPT METHODS
+  public async shouldAutoRespondToProposal(options: {
+    proofRecord: ProofRecord
+    proposalMessage: V2ProposePresentationMessage
+  }): Promise<boolean> {
+    const { proofRecord, proposalMessage } = options
+
+    const autoAccept = ProofResponseCoordinator.composeAutoAccept(
+      proofRecord.autoAcceptProof,
+      this.agentConfig.autoAcceptProofs
+    )
+
+    // Handle always / never cases
+    if (autoAccept === AutoAcceptProof.Always) return true
+    if (autoAccept === AutoAcceptProof.Never) return false
+
+    // We can only compare the proposal if we sent a request before
+    const requestMessage = await this.findRequestMessage(proofRecord.id)
+    if (!requestMessage) return false
+
+    // NOTE: we take the formats from the requestMessage so we always check all services that we last sent
+    // Otherwise we'll only check the formats from the proposal, which could be different from the formats
+    // we use.
+    const formatServices = this.getFormatServicesFromMessage(requestMessage.formats)
+
+    for (const formatService of formatServices) {
+      const requestAttachment = this.proofFormatCoordinator.getAttachmentForService(
+        formatService,
+        requestMessage.formats,
+        requestMessage.requestAttachments
+      )
+
+      const proposalAttachment = this.proofFormatCoordinator.getAttachmentForService(
+        formatService,
+        proposalMessage.formats,
+        proposalMessage.proposalAttachments
+      )
+
+      const shouldAutoRespondToFormat = formatService.shouldAutoRespondToProposal({
+        proofRecord,
+        proposalAttachment,
+        requestAttachment,
+      })
+
+      // If any of the formats return false, we should not auto accept
+      if (!shouldAutoRespondToFormat) return false
+    }
+
+    return true
+  }
+
+  public async shouldAutoRespondToRequest(options: {
+    proofRecord: ProofRecord
+    requestMessage: V2RequestPresentationMessage
+  }): Promise<boolean> {
+    const { proofRecord, requestMessage } = options
+
+    const autoAccept = ProofResponseCoordinator.composeAutoAccept(
+      proofRecord.autoAcceptProof,
+      this.agentConfig.autoAcceptProofs
+    )
+
+    // Handle always / never cases
+    if (autoAccept === AutoAcceptProof.Always) return true
+    if (autoAccept === AutoAcceptProof.Never) return false
+
+    // We can only compare the request if we sent a proposal before
+    const proposalMessage = await this.findProposalMessage(proofRecord.id)
+    if (!proposalMessage) return false
+
+    // NOTE: we take the formats from the proposalMessage so we always check all services that we last sent
+    // Otherwise we'll only check the formats from the request, which could be different from the formats
+    // we use.
+    const formatServices = this.getFormatServicesFromMessage(proposalMessage.formats)
+
+    for (const formatService of formatServices) {
+      const proposalAttachment = this.proofFormatCoordinator.getAttachmentForService(
+        formatService,
+        proposalMessage.formats,
+        proposalMessage.proposalAttachments
+      )
+
+      const requestAttachment = this.proofFormatCoordinator.getAttachmentForService(
+        formatService,
+        requestMessage.formats,
+        requestMessage.requestAttachments
+      )
+
+      const shouldAutoRespondToFormat = formatService.shouldAutoRespondToRequest({
+        proofRecord,
+        proposalAttachment,
+        requestAttachment,
+      })
+
+      // If any of the formats return false, we should not auto accept
+      if (!shouldAutoRespondToFormat) return false
+    }
+
+    return true
+  }
+
+  public async shouldAutoRespondToPresentation(options: {
+    proofRecord: ProofRecord
+    presentationMessage: V2PresentationMessage
+  }): Promise<boolean> {
+    const { proofRecord, presentationMessage } = options
+
+    const autoAccept = ProofResponseCoordinator.composeAutoAccept(
+      proofRecord.autoAcceptProof,
+      this.agentConfig.autoAcceptProofs
+    )
+
+    // Handle always / never cases
+    if (autoAccept === AutoAcceptProof.Always) return true
+    if (autoAccept === AutoAcceptProof.Never) return false
+
+    // Only approve the content of presentations that could be verified
+    if (!proofRecord.isVerified) return false
+
+    const proposalMessage = await this.findProposalMessage(proofRecord.id)
+    const requestMessage = await this.findRequestMessage(proofRecord.id)
+    if (!requestMessage) return false
+
+    // NOTE: we take the formats from the requestMessage so we always check all services that we last sent
+    // Otherwise we'll only check the formats from the presentation, which could be different from the formats
+    // we use.
+    const formatServices = this.getFormatServicesFromMessage(requestMessage.formats)
+
+    for (const formatService of formatServices) {
+      const proposalAttachment = proposalMessage
+        ? this.proofFormatCoordinator.getAttachmentForService(
+            formatService,
+            proposalMessage.formats,
+            proposalMessage.proposalAttachments
+          )
+        : undefined
+
+      const requestAttachment = this.proofFormatCoordinator.getAttachmentForService(
+        formatService,
+        requestMessage.formats,
+        requestMessage.requestAttachments
+      )
+
+      const presentationAttachment = this.proofFormatCoordinator.getAttachmentForService(
+        formatService,
+        presentationMessage.formats,
+        presentationMessage.presentationAttachments
+      )
+
+      const shouldAutoRespondToFormat = formatService.shouldAutoRespondToPresentation({
+        proofRecord,
+        proposalAttachment,
+        requestAttachment,
+        presentationAttachment,
+      })
+
+      // If any of the formats return false, we should not auto accept
+      if (!shouldAutoRespondToFormat) return false
+    }
+
+    return true
+  }
+
+  public async findProposalMessage(proofRecordId: string) {
+    return this.didCommMessageRepository.findAgentMessage({
+      associatedRecordId: proofRecordId,
+      messageClass: V2ProposePresentationMessage,
+    })
+  }
+
+  public async findRequestMessage(proofRecordId: string) {
+    return this.didCommMessageRepository.findAgentMessage({
+      associatedRecordId: proofRecordId,
+      messageClass: V2RequestPresentationMessage,
+    })
+  }
+
+  public async findPresentationMessage(proofRecordId: string) {
+    return this.didCommMessageRepository.findAgentMessage({
+      associatedRecordId: proofRecordId,
+      messageClass: V2PresentationMessage,
+    })
+  }
+
+  public async getFormatData(proofRecordId: string): Promise<GetProofFormatDataReturn<PFs>> {
+    const [proposalMessage, requestMessage, presentationMessage] = await Promise.all([
+      this.findProposalMessage(proofRecordId),
+      this.findRequestMessage(proofRecordId),
+      this.findPresentationMessage(proofRecordId),
+    ])
+
+    // Create object with the keys and the message formats/attachments. We can then loop over this in a generic
+    // way so we don't have to add the same operation code three times
+    const messages = {
+      proposal: [proposalMessage?.formats, proposalMessage?.proposalAttachments],
+      request: [requestMessage?.formats, requestMessage?.requestAttachments],
+      presentation: [presentationMessage?.formats, presentationMessage?.presentationAttachments],
+    } as const
+
+    const formatData: GetProofFormatDataReturn = {}
+
+    // We loop through all of the message keys as defined above
+    for (const [messageKey, [formats, attachments]] of Object.entries(messages)) {
+      // Message can be undefined, so we continue if it is not defined
+      if (!formats || !attachments) continue
+
+      // Find all format services associated with the message
+      const formatServices = this.getFormatServicesFromMessage(formats)
+      const messageFormatData: ProofFormatDataMessagePayload = {}
+
+      // Loop through all of the format services, for each we will extract the attachment data and assign this to the object
+      // using the unique format key (e.g. indy)
+      for (const formatService of formatServices) {
+        const attachment = this.proofFormatCoordinator.getAttachmentForService(formatService, formats, attachments)
+
+        messageFormatData[formatService.formatKey] = attachment.getDataAsJson()
+      }
+
+      formatData[messageKey as keyof GetProofFormatDataReturn] = messageFormatData
+    }
+
+    return formatData
+  }
+
+  /**
+   * Retrieve a proof record by id
+   *
+   * @param proofRecordId The proof record id
+   * @throws {RecordNotFoundError} If no record is found
+   * @return The proof record
+   *
+   */
+  public getById(proofRecordId: string): Promise<ProofRecord> {
+    return this.proofRepository.getById(proofRecordId)
+  }
+
+  /**
+   * Retrieve a proof record by connection id and thread id
+   *
+   * @param threadId The thread id
+   * @param connectionId The connection id
+   * @throws {RecordNotFoundError} If no record is found
+   * @throws {RecordDuplicateError} If multiple records are found
+   * @returns The proof record
+   */
+  public getByThreadAndConnectionId(threadId: string, connectionId?: string): Promise<ProofRecord> {
+    return this.proofRepository.getSingleByQuery({ threadId, connectionId })
+  }
+
+  /**
+   * Find a proof record by connection id and thread id, returns null if not found
+   *
+   * @param threadId The thread id
+   * @param connectionId The connection id
+   * @returns The proof record or null if not found
+   */
+  public findByThreadAndConnectionId(threadId: string, connectionId?: string): Promise<ProofRecord | null> {
+    return this.proofRepository.findSingleByQuery({ threadId, connectionId })
+  }
+
+  /**
+   * Delete a proof record and the didcomm messages associated with it
+   *
+   * @param proofRecord the proof record to delete
+   */
+  public async delete(proofRecord: ProofRecord): Promise<void> {
+    await this.proofRepository.delete(proofRecord)
+
+    const didCommMessages = await this.didCommMessageRepository.findByQuery({
+      associatedRecordId: proofRecord.id,
+    })
+    for (const didCommMessage of didCommMessages) {
+      await this.didCommMessageRepository.delete(didCommMessage)
+    }
+  }
+
+  public async update(proofRecord: ProofRecord) {
+    return this.proofRepository.update(proofRecord)
+  }
+
+  /**
+   * Apply the update to the latest version of the proof record in storage, and retry when the proof record
+   * was updated concurrently.
+   *
+   * @see Repository.updateWithRetry
+   */
+  public updateWithRetry(proofRecordId: string, update: (proofRecord: ProofRecord) => void | Promise<void>) {
+    return this.proofRepository.updateWithRetry(proofRecordId, update)
+  }
+
+  /**
+   * Update the record to a new state and emit an state changed event. Also updates the record
+   * in storage.
+   *
+   * @param proofRecord The proof record to update the state for
+   * @param newState The state to update to
+   *
+   */
+  private async updateState(proofRecord: ProofRecord, newState: ProofState) {
+    this.logger.debug(`Updating proof record ${proofRecord.id} to state ${newState} (previous=${proofRecord.state})`)
+
+    const previousState = proofRecord.state
+    proofRecord.state = newState
+    await this.proofRepository.update(proofRecord)
+
+    this.emitStateChangedEvent(proofRecord, previousState)
+  }
+
+  private emitStateChangedEvent(proofRecord: ProofRecord, previousState: ProofState | null) {
+    const clonedProof = JsonTransformer.clone(proofRecord)
+
+    this.eventEmitter.emit<ProofStateChangedEvent>({
+      type: ProofEventTypes.ProofStateChanged,
+      payload: {
+        proofRecord: clonedProof,
+        previousState: previousState,
+      },
+    })
+  }
+
+  private registerHandlers() {
+    this.dispatcher.registerHandler(new V2ProposePresentationHandler(this, this.agentConfig))
+
+    this.dispatcher.registerHandler(
+      new V2RequestPresentationHandler(this, this.agentConfig, this.routingService, this.didCommMessageRepository)
+    )
+
+    this.dispatcher.registerHandler(new V2PresentationHandler(this, this.agentConfig, this.didCommMessageRepository))
+    this.dispatcher.registerHandler(new V2PresentationAckHandler(this))
+    this.dispatcher.registerHandler(new V2PresentationProblemReportHandler(this))
+  }
+
+  /**
+   * Get all the format service objects for a given proof format from an incoming message
+   * @param messageFormats the format objects containing the format name (eg indy)
+   * @return the proof format service objects in an array - derived from format object keys
+   */
+  private getFormatServicesFromMessage(messageFormats: ProofFormatSpec[]): ProofFormatService[] {
+    const formatServices = new Set<ProofFormatService>()
+
+    for (const msg of messageFormats) {
+      const service = this.getFormatServiceForFormat(msg.format)
+      if (service) formatServices.add(service)
+    }
+
+    return Array.from(formatServices)
+  }
+
+  /**
+   * Get all the format service objects for a given proof format
+   * @param proofFormats the format object containing various optional parameters
+   * @return the proof format service objects in an array - derived from format object keys
+   */
+  private getFormatServices<M extends keyof ProofFormat['proofFormats']>(
+    proofFormats: ProofFormatPayload<PFs, M>
+  ): ProofFormatService[] {
+    const formats = new Set<ProofFormatService>()
+
+    for (const formatKey of Object.keys(proofFormats)) {
+      const formatService = this.formatServiceMap[formatKey]
+
+      if (formatService) formats.add(formatService)
+    }
+
+    return Array.from(formats)
+  }
+
+  private getFormatServiceForFormat(format: string): ProofFormatService | null {
+    for (const service of Object.values(this.formatServiceMap)) {
+      if (service.supportsFormat(format)) return service
+    }
+
+    return null
+  }
+}
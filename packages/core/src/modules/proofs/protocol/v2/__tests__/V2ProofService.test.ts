@@ -0,0 +1,372 @@
+import type { AgentConfig } from '../../../../../agent/AgentConfig'
+import type { ProofStateChangedEvent } from '../../../ProofEvents'
+import type { CustomProofTags } from '../../../repository/ProofRecord'
+
+import { getAgentConfig, getMockConnection, mockFunction } from '../../../../../../tests/helpers'
+import { Dispatcher } from '../../../../../agent/Dispatcher'
+import { EventEmitter } from '../../../../../agent/EventEmitter'
+import { InboundMessageContext } from '../../../../../agent/models/InboundMessageContext'
+import { Attachment, AttachmentData } from '../../../../../decorators/attachment/Attachment'
+import { DidCommMessageRepository } from '../../../../../storage'
+import { JsonTransformer } from '../../../../../utils'
+import { DidExchangeState } from '../../../../connections'
+import { ConnectionService } from '../../../../connections/services/ConnectionService'
+import { RoutingService } from '../../../../routing/services/RoutingService'
+import { ProofEventTypes } from '../../../ProofEvents'
+import { ProofState } from '../../../ProofState'
+import { IndyProofFormatService } from '../../../formats/indy/IndyProofFormatService'
+import { PresentationExchangeProofFormatService } from '../../../formats/presentation-exchange/PresentationExchangeProofFormatService'
+import { ProofFormatSpec } from '../../../models/ProofFormatSpec'
+import { ProofRecord } from '../../../repository/ProofRecord'
+import { ProofRepository } from '../../../repository/ProofRepository'
+import { V2ProofService } from '../V2ProofService'
+import { V2PresentationMessage, V2PresentationProblemReportMessage, V2RequestPresentationMessage } from '../messages'
+
+// Mock classes
+jest.mock('../../../repository/ProofRepository')
+jest.mock('../../../formats/indy/IndyProofFormatService')
+jest.mock('../../../formats/presentation-exchange/PresentationExchangeProofFormatService')
+jest.mock('../../../../../storage/didcomm/DidCommMessageRepository')
+jest.mock('../../../../routing/services/RoutingService')
+jest.mock('../../../../connections/services/ConnectionService')
+jest.mock('../../../../../agent/Dispatcher')
+
+// Mock typed object
+const ProofRepositoryMock = ProofRepository as jest.Mock<ProofRepository>
+const IndyProofFormatServiceMock = IndyProofFormatService as jest.Mock<IndyProofFormatService>
+const PresentationExchangeProofFormatServiceMock =
+  PresentationExchangeProofFormatService as jest.Mock<PresentationExchangeProofFormatService>
+const DidCommMessageRepositoryMock = DidCommMessageRepository as jest.Mock<DidCommMessageRepository>
+const RoutingServiceMock = RoutingService as jest.Mock<RoutingService>
+const ConnectionServiceMock = ConnectionService as jest.Mock<ConnectionService>
+const DispatcherMock = Dispatcher as jest.Mock<Dispatcher>
+
+const proofRepository = new ProofRepositoryMock()
+const didCommMessageRepository = new DidCommMessageRepositoryMock()
+const routingService = new RoutingServiceMock()
+const indyProofFormatService = new IndyProofFormatServiceMock()
+const presentationExchangeProofFormatService = new PresentationExchangeProofFormatServiceMock()
+const dispatcher = new DispatcherMock()
+const connectionService = new ConnectionServiceMock()
+
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore
+indyProofFormatService.formatKey = 'indy'
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore
+presentationExchangeProofFormatService.formatKey = 'presentationExchange'
+
+const connection = getMockConnection({
+  id: '123',
+  state: DidExchangeState.Completed,
+})
+
+const requestFormat = new ProofFormatSpec({
+  attachId: 'request-attachment-id',
+  format: 'hlindy/proof-req@v2.0',
+})
+
+const requestAttachment = new Attachment({
+  id: 'request-attachment-id',
+  mimeType: 'application/json',
+  data: new AttachmentData({
+    base64:
+      'eyJuYW1lIjoicHJvb2YtcmVxdWVzdCIsInZlcnNpb24iOiIxLjAiLCJub25jZSI6IjEyMzQiLCJyZXF1ZXN0ZWRfYXR0cmlidXRlcyI6e30sInJlcXVlc3RlZF9wcmVkaWNhdGVzIjp7fX0=',
+  }),
+})
+
+const presentationFormat = new ProofFormatSpec({
+  attachId: 'presentation-attachment-id',
+  format: 'hlindy/proof@v2.0',
+})
+
+const presentationAttachment = new Attachment({
+  id: 'presentation-attachment-id',
+  mimeType: 'application/json',
+  data: new AttachmentData({
+    base64: 'eyJwcm9vZiI6e319',
+  }),
+})
+
+const requestMessage = new V2RequestPresentationMessage({
+  comment: 'some comment',
+  formats: [requestFormat],
+  requestAttachments: [requestAttachment],
+})
+
+const mockProofRecord = ({
+  state,
+  threadId,
+  connectionId,
+  tags,
+  id,
+}: {
+  state?: ProofState
+  tags?: CustomProofTags
+  threadId?: string
+  connectionId?: string
+  id?: string
+} = {}) => {
+  const proofRecord = new ProofRecord({
+    id,
+    state: state || ProofState.RequestSent,
+    threadId: threadId ?? requestMessage.id,
+    connectionId: connectionId ?? '123',
+    protocolVersion: 'v2',
+    tags,
+  })
+
+  return proofRecord
+}
+
+describe('V2ProofService', () => {
+  let eventEmitter: EventEmitter
+  let agentConfig: AgentConfig
+  let proofService: V2ProofService
+
+  beforeEach(async () => {
+    // real objects
+    agentConfig = getAgentConfig('V2ProofServiceTest')
+    eventEmitter = new EventEmitter(agentConfig)
+
+    proofService = new V2ProofService(
+      proofRepository,
+      didCommMessageRepository,
+      connectionService,
+      routingService,
+      eventEmitter,
+      dispatcher,
+      agentConfig,
+      indyProofFormatService,
+      presentationExchangeProofFormatService
+    )
+  })
+
+  afterEach(() => {
+    jest.resetAllMocks()
+  })
+
+  describe('createRequest', () => {
+    test(`creates proof record in ${ProofState.RequestSent} state with request message`, async () => {
+      mockFunction(indyProofFormatService.createRequest).mockResolvedValue({
+        attachment: requestAttachment,
+        format: requestFormat,
+      })
+
+      const eventListenerMock = jest.fn()
+      eventEmitter.on<ProofStateChangedEvent>(ProofEventTypes.ProofStateChanged, eventListenerMock)
+
+      // when
+      const { message, proofRecord } = await proofService.createRequest({
+        connection,
+        comment: 'some comment',
+        proofFormats: {
+          indy: {
+            name: 'proof-request',
+          },
+        },
+      })
+
+      // then
+      expect(proofRepository.save).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          type: ProofRecord.type,
+          id: expect.any(String),
+          createdAt: expect.any(Date),
+          state: ProofState.RequestSent,
+          connectionId: connection.id,
+          protocolVersion: 'v2',
+        })
+      )
+      expect(proofRecord.threadId).toEqual(message.threadId)
+      expect(message.toJSON()).toMatchObject({
+        '@id': expect.any(String),
+        '@type': 'https://didcomm.org/present-proof/2.0/request-presentation',
+        comment: 'some comment',
+        formats: [JsonTransformer.toJSON(requestFormat)],
+        'request_presentations~attach': [JsonTransformer.toJSON(requestAttachment)],
+      })
+      expect(eventListenerMock).toHaveBeenCalledWith({
+        type: 'ProofStateChanged',
+        payload: {
+          previousState: null,
+          proofRecord: expect.objectContaining({
+            state: ProofState.RequestSent,
+          }),
+        },
+      })
+    })
+
+    test('throws an error when no supported formats are provided', async () => {
+      await expect(
+        proofService.createRequest({
+          connection,
+          proofFormats: {},
+        })
+      ).rejects.toThrowError('Unable to create request. No supported formats')
+    })
+  })
+
+  describe('processRequest', () => {
+    test(`creates and returns proof record in ${ProofState.RequestReceived} state`, async () => {
+      mockFunction(indyProofFormatService.supportsFormat).mockReturnValue(true)
+      mockFunction(proofRepository.findSingleByQuery).mockResolvedValue(null)
+
+      const messageContext = new InboundMessageContext(requestMessage, {
+        connection,
+      })
+
+      // when
+      const returnedProofRecord = await proofService.processRequest(messageContext)
+
+      // then
+      const expectedProofRecord = {
+        type: ProofRecord.type,
+        id: expect.any(String),
+        createdAt: expect.any(Date),
+        state: ProofState.RequestReceived,
+        threadId: requestMessage.id,
+        connectionId: connection.id,
+        protocolVersion: 'v2',
+      }
+      expect(proofRepository.save).toHaveBeenCalledTimes(1)
+      expect(returnedProofRecord).toMatchObject(expectedProofRecord)
+      expect(indyProofFormatService.processRequest).toHaveBeenCalledWith({
+        attachment: requestAttachment,
+        proofRecord: returnedProofRecord,
+      })
+      expect(didCommMessageRepository.saveOrUpdateAgentMessage).toHaveBeenCalledWith({
+        agentMessage: requestMessage,
+        role: 'receiver',
+        associatedRecordId: returnedProofRecord.id,
+      })
+    })
+
+    test('throws an error when the message contains no supported formats', async () => {
+      mockFunction(indyProofFormatService.supportsFormat).mockReturnValue(false)
+
+      const messageContext = new InboundMessageContext(requestMessage, {
+        connection,
+      })
+
+      await expect(proofService.processRequest(messageContext)).rejects.toThrowError(
+        'Unable to process request. No supported formats'
+      )
+    })
+  })
+
+  describe('processPresentation', () => {
+    const presentationMessage = new V2PresentationMessage({
+      formats: [presentationFormat],
+      presentationAttachments: [presentationAttachment],
+    })
+    presentationMessage.setThread({ threadId: requestMessage.id })
+
+    test(`updates state to ${ProofState.PresentationReceived} and sets the verification result`, async () => {
+      const proofRecord = mockProofRecord({ state: ProofState.RequestSent })
+
+      mockFunction(indyProofFormatService.supportsFormat).mockReturnValue(true)
+      mockFunction(indyProofFormatService.processPresentation).mockResolvedValue(true)
+      mockFunction(proofRepository.getSingleByQuery).mockResolvedValue(proofRecord)
+      mockFunction(didCommMessageRepository.getAgentMessage).mockResolvedValue(requestMessage)
+      mockFunction(didCommMessageRepository.findAgentMessage).mockResolvedValue(null)
+
+      const messageContext = new InboundMessageContext(presentationMessage, {
+        connection,
+      })
+
+      // when
+      const returnedProofRecord = await proofService.processPresentation(messageContext)
+
+      // then
+      expect(indyProofFormatService.processPresentation).toHaveBeenCalledWith({
+        attachment: presentationAttachment,
+        requestAttachment,
+        proofRecord,
+      })
+      expect(proofRepository.update).toHaveBeenCalledTimes(1)
+      expect(returnedProofRecord).toMatchObject({
+        state: ProofState.PresentationReceived,
+        isVerified: true,
+      })
+    })
+
+    test(`throws an error when proof record is not in ${ProofState.RequestSent} state`, async () => {
+      mockFunction(proofRepository.getSingleByQuery).mockResolvedValue(
+        mockProofRecord({ state: ProofState.ProposalSent })
+      )
+      mockFunction(didCommMessageRepository.getAgentMessage).mockResolvedValue(requestMessage)
+
+      const messageContext = new InboundMessageContext(presentationMessage, {
+        connection,
+      })
+
+      await expect(proofService.processPresentation(messageContext)).rejects.toThrowError(
+        `Proof record is in invalid state ${ProofState.ProposalSent}. Valid states are: ${ProofState.RequestSent}.`
+      )
+    })
+  })
+
+  describe('acceptPresentation', () => {
+    test(`updates state to ${ProofState.Done} and returns an ack message`, async () => {
+      const proofRecord = mockProofRecord({ state: ProofState.PresentationReceived })
+
+      // when
+      const { message } = await proofService.acceptPresentation({ proofRecord })
+
+      // then
+      expect(proofRecord.state).toBe(ProofState.Done)
+      expect(message.toJSON()).toMatchObject({
+        '@type': 'https://didcomm.org/present-proof/2.0/ack',
+        status: 'OK',
+        '~thread': {
+          thid: proofRecord.threadId,
+        },
+      })
+    })
+
+    test('throws an error when the proof record uses another protocol version', async () => {
+      const proofRecord = mockProofRecord({ state: ProofState.PresentationReceived })
+      proofRecord.protocolVersion = 'v1'
+
+      await expect(proofService.acceptPresentation({ proofRecord })).rejects.toThrowError(
+        'Proof record has invalid protocol version v1. Expected version v2'
+      )
+    })
+  })
+
+  describe('processProblemReport', () => {
+    test('updates the error message on the proof record', async () => {
+      const proofRecord = mockProofRecord()
+      mockFunction(proofRepository.getSingleByQuery).mockResolvedValue(proofRecord)
+      mockFunction(proofRepository.updateWithRetry).mockImplementation(async (_, update) => {
+        await update(proofRecord)
+        return proofRecord
+      })
+
+      const problemReportMessage = new V2PresentationProblemReportMessage({
+        description: {
+          en: 'Indy error',
+          code: 'abandoned',
+        },
+      })
+      problemReportMessage.setThread({ threadId: proofRecord.threadId })
+
+      const messageContext = new InboundMessageContext(problemReportMessage, {
+        connection,
+      })
+
+      // when
+      const returnedProofRecord = await proofService.processProblemReport(messageContext)
+
+      // then
+      expect(proofRepository.getSingleByQuery).toHaveBeenCalledWith({
+        threadId: proofRecord.threadId,
+        connectionId: connection.id,
+      })
+      expect(proofRepository.updateWithRetry).toHaveBeenCalledWith(proofRecord.id, expect.any(Function))
+      expect(returnedProofRecord.errorMessage).toBe('abandoned: Indy error')
+    })
+  })
+})
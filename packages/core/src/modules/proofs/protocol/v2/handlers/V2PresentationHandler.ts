@@ -0,0 +1,69 @@
+import type { AgentConfig } from '../../../../../agent/AgentConfig'
+import type { Handler, HandlerInboundMessage } from '../../../../../agent/Handler'
+import type { DidCommMessageRepository } from '../../../../../storage'
+import type { ProofRecord } from '../../../repository'
+import type { V2ProofService } from '../V2ProofService'
+
+import { createOutboundMessage, createOutboundServiceMessage } from '../../../../../agent/helpers'
+import { V2PresentationMessage, V2RequestPresentationMessage } from '../messages'
+
+export class V2PresentationHandler implements Handler {
+  private proofService: V2ProofService
+  private agentConfig: AgentConfig
+  private didCommMessageRepository: DidCommMessageRepository
+  public supportedMessages = [V2PresentationMessage]
+
+  public constructor(
+    proofService: V2ProofService,
+    agentConfig: AgentConfig,
+    didCommMessageRepository: DidCommMessageRepository
+  ) {
+    this.proofService = proofService
+    this.agentConfig = agentConfig
+    this.didCommMessageRepository = didCommMessageRepository
+  }
+
+  public async handle(messageContext: HandlerInboundMessage<V2PresentationHandler>) {
+    const proofRecord = await this.proofService.processPresentation(messageContext)
+
+    const shouldAutoRespond = await this.proofService.shouldAutoRespondToPresentation({
+      proofRecord,
+      presentationMessage: messageContext.message,
+    })
+
+    if (shouldAutoRespond) {
+      return await this.acceptPresentation(proofRecord, messageContext)
+    }
+  }
+
+  private async acceptPresentation(
+    proofRecord: ProofRecord,
+    messageContext: HandlerInboundMessage<V2PresentationHandler>
+  ) {
+    this.agentConfig.logger.info(
+      `Automatically sending acknowledgement with autoAccept on ${this.agentConfig.autoAcceptProofs}`
+    )
+
+    const requestMessage = await this.didCommMessageRepository.findAgentMessage({
+      associatedRecordId: proofRecord.id,
+      messageClass: V2RequestPresentationMessage,
+    })
+
+    const { message } = await this.proofService.acceptPresentation({ proofRecord })
+
+    if (messageContext.connection) {
+      return createOutboundMessage(messageContext.connection, message)
+    } else if (requestMessage?.service && messageContext.message.service) {
+      const recipientService = messageContext.message.service
+      const ourService = requestMessage.service
+
+      return createOutboundServiceMessage({
+        payload: message,
+        service: recipientService.resolvedDidCommService,
+        senderKey: ourService.resolvedDidCommService.recipientKeys[0],
+      })
+    }
+
+    this.agentConfig.logger.error(`Could not automatically create presentation ack`)
+  }
+}
@@ -0,0 +1,49 @@
+import type { AgentConfig } from '../../../../../agent/AgentConfig'
+import type { Handler, HandlerInboundMessage } from '../../../../../agent/Handler'
+import type { ProofRecord } from '../../../repository'
+import type { V2ProofService } from '../V2ProofService'
+
+import { createOutboundMessage } from '../../../../../agent/helpers'
+import { V2ProposePresentationMessage } from '../messages'
+
+export class V2ProposePresentationHandler implements Handler {
+  private proofService: V2ProofService
+  private agentConfig: AgentConfig
+  public supportedMessages = [V2ProposePresentationMessage]
+
+  public constructor(proofService: V2ProofService, agentConfig: AgentConfig) {
+    this.proofService = proofService
+    this.agentConfig = agentConfig
+  }
+
+  public async handle(messageContext: HandlerInboundMessage<V2ProposePresentationHandler>) {
+    const proofRecord = await this.proofService.processProposal(messageContext)
+
+    const shouldAutoRespond = await this.proofService.shouldAutoRespondToProposal({
+      proofRecord,
+      proposalMessage: messageContext.message,
+    })
+
+    if (shouldAutoRespond) {
+      return await this.acceptProposal(proofRecord, messageContext)
+    }
+  }
+
+  private async acceptProposal(
+    proofRecord: ProofRecord,
+    messageContext: HandlerInboundMessage<V2ProposePresentationHandler>
+  ) {
+    this.agentConfig.logger.info(
+      `Automatically sending request with autoAccept on ${this.agentConfig.autoAcceptProofs}`
+    )
+
+    if (!messageContext.connection) {
+      this.agentConfig.logger.error('No connection on the messageContext, aborting auto accept')
+      return
+    }
+
+    const { message } = await this.proofService.acceptProposal({ proofRecord })
+
+    return createOutboundMessage(messageContext.connection, message)
+  }
+}
@@ -0,0 +1,85 @@
+import type { AgentConfig } from '../../../../../agent/AgentConfig'
+import type { Handler, HandlerInboundMessage } from '../../../../../agent/Handler'
+import type { DidCommMessageRepository } from '../../../../../storage'
+import type { RoutingService } from '../../../../routing/services/RoutingService'
+import type { ProofRecord } from '../../../repository'
+import type { V2ProofService } from '../V2ProofService'
+
+import { createOutboundMessage, createOutboundServiceMessage } from '../../../../../agent/helpers'
+import { ServiceDecorator } from '../../../../../decorators/service/ServiceDecorator'
+import { DidCommMessageRole } from '../../../../../storage'
+import { V2RequestPresentationMessage } from '../messages'
+
+export class V2RequestPresentationHandler implements Handler {
+  private proofService: V2ProofService
+  private agentConfig: AgentConfig
+  private routingService: RoutingService
+  private didCommMessageRepository: DidCommMessageRepository
+  public supportedMessages = [V2RequestPresentationMessage]
+
+  public constructor(
+    proofService: V2ProofService,
+    agentConfig: AgentConfig,
+    routingService: RoutingService,
+    didCommMessageRepository: DidCommMessageRepository
+  ) {
+    this.proofService = proofService
+    this.agentConfig = agentConfig
+    this.routingService = routingService
+    this.didCommMessageRepository = didCommMessageRepository
+  }
+
+  public async handle(messageContext: HandlerInboundMessage<V2RequestPresentationHandler>) {
+    const proofRecord = await this.proofService.processRequest(messageContext)
+
+    const shouldAutoRespond = await this.proofService.shouldAutoRespondToRequest({
+      proofRecord,
+      requestMessage: messageContext.message,
+    })
+
+    if (shouldAutoRespond) {
+      return await this.acceptRequest(proofRecord, messageContext)
+    }
+  }
+
+  private async acceptRequest(
+    proofRecord: ProofRecord,
+    messageContext: HandlerInboundMessage<V2RequestPresentationHandler>
+  ) {
+    this.agentConfig.logger.info(
+      `Automatically sending presentation with autoAccept on ${this.agentConfig.autoAcceptProofs}`
+    )
+
+    const { message } = await this.proofService.acceptRequest({ proofRecord })
+
+    if (messageContext.connection) {
+      return createOutboundMessage(messageContext.connection, message)
+    } else if (messageContext.message.service) {
+      // Create ~service decorator
+      const routing = await this.routingService.getRouting()
+      const ourService = new ServiceDecorator({
+        serviceEndpoint: routing.endpoints[0],
+        recipientKeys: [routing.recipientKey.publicKeyBase58],
+        routingKeys: routing.routingKeys.map((key) => key.publicKeyBase58),
+      })
+
+      const recipientService = messageContext.message.service
+
+      // Set and save ~service decorator to record (to remember our verkey)
+      message.service = ourService
+      await this.didCommMessageRepository.saveOrUpdateAgentMessage({
+        agentMessage: message,
+        role: DidCommMessageRole.Sender,
+        associatedRecordId: proofRecord.id,
+      })
+
+      return createOutboundServiceMessage({
+        payload: message,
+        service: recipientService.resolvedDidCommService,
+        senderKey: ourService.resolvedDidCommService.recipientKeys[0],
+      })
+    }
+
+    this.agentConfig.logger.error(`Could not automatically create presentation`)
+  }
+}
@@ -0,0 +1,5 @@
+export * from './V2PresentationAckHandler'
+export * from './V2PresentationHandler'
+export * from './V2PresentationProblemReportHandler'
+export * from './V2ProposePresentationHandler'
+export * from './V2RequestPresentationHandler'
@@ -0,0 +1,2 @@
+export * from './V2ProofService'
+export * from './messages'
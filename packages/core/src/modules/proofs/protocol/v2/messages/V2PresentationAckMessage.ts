@@ -0,0 +1,19 @@
+import type { AckMessageOptions } from '../../../../common'
+
+import { IsValidMessageType, parseMessageType } from '../../../../../utils/messageType'
+import { AckMessage } from '../../../../common'
+
+export type V2PresentationAckMessageOptions = AckMessageOptions
+
+/**
+ * @see https://github.com/hyperledger/aries-rfcs/blob/master/features/0015-acks/README.md#explicit-acks
+ */
+export class V2PresentationAckMessage extends AckMessage {
+  public constructor(options: V2PresentationAckMessageOptions) {
+    super(options)
+  }
+
+  @IsValidMessageType(V2PresentationAckMessage.type)
+  public readonly type = V2PresentationAckMessage.type.messageTypeUri
+  public static readonly type = parseMessageType('https://didcomm.org/present-proof/2.0/ack')
+}
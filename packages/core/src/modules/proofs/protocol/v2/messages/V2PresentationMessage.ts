@@ -0,0 +1,70 @@
+import { Expose, Type } from 'class-transformer'
+import { IsArray, IsBoolean, IsInstance, IsOptional, IsString, ValidateNested } from 'class-validator'
+
+import { AgentMessage } from '../../../../../agent/AgentMessage'
+import { Attachment } from '../../../../../decorators/attachment/Attachment'
+import { IsValidMessageType, parseMessageType } from '../../../../../utils/messageType'
+import { ProofFormatSpec } from '../../../models/ProofFormatSpec'
+
+export interface V2PresentationMessageOptions {
+  id?: string
+  comment?: string
+  lastPresentation?: boolean
+  formats: ProofFormatSpec[]
+  presentationAttachments: Attachment[]
+}
+
+/**
+ * Presentation Message part of Present Proof Protocol used as a response to a {@link V2RequestPresentationMessage}
+ * from prover to verifier. Contains signed presentations.
+ *
+ * @see https://github.com/hyperledger/aries-rfcs/tree/main/features/0454-present-proof-v2#presentation
+ */
+export class V2PresentationMessage extends AgentMessage {
+  public constructor(options: V2PresentationMessageOptions) {
+    super()
+
+    if (options) {
+      this.id = options.id ?? this.generateId()
+      this.comment = options.comment
+      this.lastPresentation = options.lastPresentation ?? true
+      this.formats = options.formats
+      this.presentationAttachments = options.presentationAttachments
+    }
+  }
+
+  @IsValidMessageType(V2PresentationMessage.type)
+  public readonly type = V2PresentationMessage.type.messageTypeUri
+  public static readonly type = parseMessageType('https://didcomm.org/present-proof/2.0/presentation')
+
+  /**
+   * Provides some human readable information about this presentation.
+   */
+  @IsString()
+  @IsOptional()
+  public comment?: string
+
+  @Expose({ name: 'last_presentation' })
+  @IsBoolean()
+  @IsOptional()
+  public lastPresentation?: boolean
+
+  @Type(() => ProofFormatSpec)
+  @ValidateNested()
+  @IsArray()
+  @IsInstance(ProofFormatSpec, { each: true })
+  public formats!: ProofFormatSpec[]
+
+  @Expose({ name: 'presentations~attach' })
+  @Type(() => Attachment)
+  @IsArray()
+  @ValidateNested({
+    each: true,
+  })
+  @IsInstance(Attachment, { each: true })
+  public presentationAttachments!: Attachment[]
+
+  public getPresentationAttachmentById(id: string): Attachment | undefined {
+    return this.presentationAttachments.find((attachment) => attachment.id === id)
+  }
+}
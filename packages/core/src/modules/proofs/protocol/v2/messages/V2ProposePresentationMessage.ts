@@ -0,0 +1,62 @@
+import { Expose, Type } from 'class-transformer'
+import { IsArray, IsInstance, IsOptional, IsString, ValidateNested } from 'class-validator'
+
+import { AgentMessage } from '../../../../../agent/AgentMessage'
+import { Attachment } from '../../../../../decorators/attachment/Attachment'
+import { IsValidMessageType, parseMessageType } from '../../../../../utils/messageType'
+import { ProofFormatSpec } from '../../../models/ProofFormatSpec'
+
+export interface V2ProposePresentationMessageOptions {
+  id?: string
+  comment?: string
+  formats: ProofFormatSpec[]
+  proposalAttachments: Attachment[]
+}
+
+/**
+ * Propose Presentation Message part of Present Proof Protocol used to initiate presentation exchange by holder.
+ *
+ * @see https://github.com/hyperledger/aries-rfcs/tree/main/features/0454-present-proof-v2#propose-presentation
+ */
+export class V2ProposePresentationMessage extends AgentMessage {
+  public constructor(options: V2ProposePresentationMessageOptions) {
+    super()
+
+    if (options) {
+      this.id = options.id ?? this.generateId()
+      this.comment = options.comment
+      this.formats = options.formats
+      this.proposalAttachments = options.proposalAttachments
+    }
+  }
+
+  @IsValidMessageType(V2ProposePresentationMessage.type)
+  public readonly type = V2ProposePresentationMessage.type.messageTypeUri
+  public static readonly type = parseMessageType('https://didcomm.org/present-proof/2.0/propose-presentation')
+
+  /**
+   * Provides some human readable information about the proposed presentation.
+   */
+  @IsString()
+  @IsOptional()
+  public comment?: string
+
+  @Type(() => ProofFormatSpec)
+  @ValidateNested()
+  @IsArray()
+  @IsInstance(ProofFormatSpec, { each: true })
+  public formats!: ProofFormatSpec[]
+
+  @Expose({ name: 'proposals~attach' })
+  @Type(() => Attachment)
+  @IsArray()
+  @ValidateNested({
+    each: true,
+  })
+  @IsInstance(Attachment, { each: true })
+  public proposalAttachments!: Attachment[]
+
+  public getProposalAttachmentById(id: string): Attachment | undefined {
+    return this.proposalAttachments.find((attachment) => attachment.id === id)
+  }
+}
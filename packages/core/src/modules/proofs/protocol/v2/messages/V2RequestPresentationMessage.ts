@@ -0,0 +1,76 @@
+import { Expose, Type } from 'class-transformer'
+import { IsArray, IsBoolean, IsInstance, IsOptional, IsString, ValidateNested } from 'class-validator'
+
+import { AgentMessage } from '../../../../../agent/AgentMessage'
+import { Attachment } from '../../../../../decorators/attachment/Attachment'
+import { IsValidMessageType, parseMessageType } from '../../../../../utils/messageType'
+import { ProofFormatSpec } from '../../../models/ProofFormatSpec'
+
+export interface V2RequestPresentationMessageOptions {
+  id?: string
+  comment?: string
+  willConfirm?: boolean
+  presentMultiple?: boolean
+  formats: ProofFormatSpec[]
+  requestAttachments: Attachment[]
+}
+
+/**
+ * Request Presentation Message part of Present Proof Protocol used to initiate request from verifier to prover.
+ *
+ * @see https://github.com/hyperledger/aries-rfcs/tree/main/features/0454-present-proof-v2#request-presentation
+ */
+export class V2RequestPresentationMessage extends AgentMessage {
+  public constructor(options: V2RequestPresentationMessageOptions) {
+    super()
+
+    if (options) {
+      this.id = options.id ?? this.generateId()
+      this.comment = options.comment
+      this.willConfirm = options.willConfirm ?? false
+      this.presentMultiple = options.presentMultiple ?? false
+      this.formats = options.formats
+      this.requestAttachments = options.requestAttachments
+    }
+  }
+
+  @IsValidMessageType(V2RequestPresentationMessage.type)
+  public readonly type = V2RequestPresentationMessage.type.messageTypeUri
+  public static readonly type = parseMessageType('https://didcomm.org/present-proof/2.0/request-presentation')
+
+  /**
+   * Provides some human readable information about this request for a presentation.
+   */
+  @IsString()
+  @IsOptional()
+  public comment?: string
+
+  @Expose({ name: 'will_confirm' })
+  @IsBoolean()
+  @IsOptional()
+  public willConfirm?: boolean
+
+  @Expose({ name: 'present_multiple' })
+  @IsBoolean()
+  @IsOptional()
+  public presentMultiple?: boolean
+
+  @Type(() => ProofFormatSpec)
+  @ValidateNested()
+  @IsArray()
+  @IsInstance(ProofFormatSpec, { each: true })
+  public formats!: ProofFormatSpec[]
+
+  @Expose({ name: 'request_presentations~attach' })
+  @Type(() => Attachment)
+  @IsArray()
+  @ValidateNested({
+    each: true,
+  })
+  @IsInstance(Attachment, { each: true })
+  public requestAttachments!: Attachment[]
+
+  public getRequestAttachmentById(id: string): Attachment | undefined {
+    return this.requestAttachments.find((attachment) => attachment.id === id)
+  }
+}
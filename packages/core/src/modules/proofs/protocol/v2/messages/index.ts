@@ -0,0 +1,5 @@
+export * from './V2PresentationAckMessage'
+export * from './V2PresentationMessage'
+export * from './V2PresentationProblemReportMessage'
+export * from './V2ProposePresentationMessage'
+export * from './V2RequestPresentationMessage'
@@ -13,6 +13,7 @@ export interface ProofRecordProps {
   id?: string
   createdAt?: Date
 
+  protocolVersion?: string
   isVerified?: boolean
   state: ProofState
   connectionId?: string
@@ -43,6 +44,14 @@ export class ProofRecord extends BaseRecord<DefaultProofTags, CustomProofTags> {
   public parentThreadId?: string
   public isVerified?: boolean
   public presentationId?: string
+
+  /**
+   * The version of the present proof protocol used for this exchange. Records created
+   * before the present proof v2 protocol was supported don't have this property set,
+   * in which case the v1 protocol is used. The property is set for these records when
+   * updating the storage to version 0.3.
+   */
+  public protocolVersion?: string
   public state!: ProofState
   public autoAcceptProof?: AutoAcceptProof
   public errorMessage?: string
@@ -68,6 +77,7 @@ export class ProofRecord extends BaseRecord<DefaultProofTags, CustomProofTags> {
       this.requestMessage = props.requestMessage
       this.presentationMessage = props.presentationMessage
       this.isVerified = props.isVerified
+      this.protocolVersion = props.protocolVersion
       this.state = props.state
       this.connectionId = props.connectionId
       this.threadId = props.threadId
@@ -89,6 +99,16 @@ export class ProofRecord extends BaseRecord<DefaultProofTags, CustomProofTags> {
     }
   }
 
+  public assertProtocolVersion(version: string) {
+    const protocolVersion = this.protocolVersion ?? 'v1'
+
+    if (protocolVersion !== version) {
+      throw new AriesFrameworkError(
+        `Proof record has invalid protocol version ${protocolVersion}. Expected version ${version}`
+      )
+    }
+  }
+
   public assertState(expectedStates: ProofState | ProofState[]) {
     if (!Array.isArray(expectedStates)) {
       expectedStates = [expectedStates]
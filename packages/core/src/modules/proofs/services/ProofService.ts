@@ -1,6 +1,7 @@
 import type { AgentMessage } from '../../../agent/AgentMessage'
 import type { InboundMessageContext } from '../../../agent/models/InboundMessageContext'
 import type { Logger } from '../../../logger'
+import type { QueryOptions } from '../../../storage/StorageService'
 import type { ConnectionRecord } from '../../connections'
 import type { AutoAcceptProof } from '../ProofAutoAcceptType'
 import type { ProofStateChangedEvent } from '../ProofEvents'
@@ -70,6 +71,8 @@ export class ProofService {
   private connectionService: ConnectionService
   private eventEmitter: EventEmitter
 
+  public readonly version = 'v1' as const
+
   public constructor(
     proofRepository: ProofRepository,
     ledgerService: IndyLedgerService,
@@ -125,6 +128,7 @@ export class ProofService {
 
     // Create record
     const proofRecord = new ProofRecord({
+      protocolVersion: this.version,
       connectionId: connectionRecord.id,
       threadId: proposalMessage.threadId,
       parentThreadId: proposalMessage.thread?.parentThreadId,
@@ -219,6 +223,7 @@ export class ProofService {
     } catch {
       // No proof record exists with thread id
       proofRecord = new ProofRecord({
+        protocolVersion: this.version,
         connectionId: connection?.id,
         threadId: proposalMessage.threadId,
         parentThreadId: proposalMessage.thread?.parentThreadId,
@@ -325,6 +330,7 @@ export class ProofService {
 
     // Create record
     const proofRecord = new ProofRecord({
+      protocolVersion: this.version,
       connectionId: connectionRecord?.id,
       threadId: requestPresentationMessage.threadId,
       parentThreadId: requestPresentationMessage.thread?.parentThreadId,
@@ -388,6 +394,7 @@ export class ProofService {
     } catch {
       // No proof record exists with thread id
       proofRecord = new ProofRecord({
+        protocolVersion: this.version,
         connectionId: connection?.id,
         threadId: proofRequestMessage.threadId,
         parentThreadId: proofRequestMessage.thread?.parentThreadId,
@@ -589,9 +596,12 @@ export class ProofService {
 
     const proofRecord = await this.getByThreadAndConnectionId(presentationProblemReportMessage.threadId, connection?.id)
 
-    proofRecord.errorMessage = `${presentationProblemReportMessage.description.code}: ${presentationProblemReportMessage.description.en}`
-    await this.update(proofRecord)
-    return proofRecord
+    // Other messages for the thread can be processed concurrently, so the error message is applied to the
+    // latest version of the proof record
+    const errorMessage = `${presentationProblemReportMessage.description.code}: ${presentationProblemReportMessage.description.en}`
+    return this.updateWithRetry(proofRecord.id, (record) => {
+      record.errorMessage = errorMessage
+    })
   }
 
   public async generateProofRequestNonce() {
@@ -932,10 +942,11 @@ export class ProofService {
   /**
    * Retrieve all proof records
    *
+   * @param queryOptions options to paginate and sort the proof records
    * @returns List containing all proof records
    */
-  public async getAll(): Promise<ProofRecord[]> {
-    return this.proofRepository.getAll()
+  public async getAll(queryOptions?: QueryOptions): Promise<ProofRecord[]> {
+    return this.proofRepository.getAll(queryOptions)
   }
 
   /**
@@ -999,6 +1010,16 @@ export class ProofService {
     return this.proofRepository.update(proofRecord)
   }
 
+  /**
+   * Apply the update to the latest version of the proof record in storage, and retry when the proof record
+   * was updated concurrently.
+   *
+   * @see Repository.updateWithRetry
+   */
+  public updateWithRetry(proofRecordId: string, update: (proofRecord: ProofRecord) => void | Promise<void>) {
+    return this.proofRepository.updateWithRetry(proofRecordId, update)
+  }
+
   /**
    * Create indy proof from a given proof request and requested credential object.
    *
@@ -1006,10 +1027,7 @@ export class ProofService {
    * @param requestedCredentials The requested credentials object specifying which credentials to use for the proof
    * @returns indy proof object
    */
-  private async createProof(
-    proofRequest: ProofRequest,
-    requestedCredentials: RequestedCredentials
-  ): Promise<IndyProof> {
+  public async createProof(proofRequest: ProofRequest, requestedCredentials: RequestedCredentials): Promise<IndyProof> {
     const credentialObjects = await Promise.all(
       [
         ...Object.values(requestedCredentials.requestedAttributes),
@@ -8,7 +8,7 @@ import { ConnectionService } from '../connections'
 
 import { AnswerMessageHandler, QuestionMessageHandler } from './handlers'
 import { ValidResponse } from './models'
-import { QuestionAnswerRepository } from './repository'
+import { QuestionAnswerRepository, QuestionAnswerRecord } from './repository'
 import { QuestionAnswerService } from './services'
 
 @module()
@@ -120,5 +120,8 @@ export class QuestionAnswerModule {
 
     // Repositories
     dependencyManager.registerSingleton(QuestionAnswerRepository)
+
+    // Records
+    dependencyManager.registerRecordClasses(QuestionAnswerRecord)
   }
 }
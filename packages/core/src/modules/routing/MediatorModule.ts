@@ -21,6 +21,7 @@ import { MediatorService } from './services/MediatorService'
 export class MediatorModule {
   private mediatorService: MediatorService
   private messagePickupService: MessagePickupService
+  private v2MessagePickupService: V2MessagePickupService
   private messageSender: MessageSender
   public eventEmitter: EventEmitter
   public agentConfig: AgentConfig
@@ -30,6 +31,7 @@ export class MediatorModule {
     dispatcher: Dispatcher,
     mediationService: MediatorService,
     messagePickupService: MessagePickupService,
+    v2MessagePickupService: V2MessagePickupService,
     messageSender: MessageSender,
     messageReceiver: MessageReceiver,
     eventEmitter: EventEmitter,
@@ -38,6 +40,7 @@ export class MediatorModule {
   ) {
     this.mediatorService = mediationService
     this.messagePickupService = messagePickupService
+    this.v2MessagePickupService = v2MessagePickupService
     this.messageSender = messageSender
     this.eventEmitter = eventEmitter
     this.agentConfig = agentConfig
@@ -67,7 +70,9 @@ export class MediatorModule {
 
   private registerHandlers(dispatcher: Dispatcher) {
     dispatcher.registerHandler(new KeylistUpdateHandler(this.mediatorService))
-    dispatcher.registerHandler(new ForwardHandler(this.mediatorService, this.connectionService, this.messageSender))
+    dispatcher.registerHandler(
+      new ForwardHandler(this.mediatorService, this.connectionService, this.messageSender, this.v2MessagePickupService)
+    )
     dispatcher.registerHandler(new MediationRequestHandler(this.mediatorService, this.agentConfig))
   }
 
@@ -82,8 +87,5 @@ export class MediatorModule {
     dependencyManager.registerSingleton(MediatorService)
     dependencyManager.registerSingleton(MessagePickupService)
     dependencyManager.registerSingleton(V2MessagePickupService)
-
-    // FIXME: Inject in constructor
-    dependencyManager.resolve(V2MessagePickupService)
   }
 }
@@ -5,6 +5,10 @@ export enum MediatorPickupStrategy {
   // Supports pickup v2
   PickUpV2 = 'PickUpV2',
 
+  // Pickup v2 with live delivery, meaning the mediator pushes messages over an open websocket
+  // instead of queueing them. Messages are only picked up when the websocket is (re)opened
+  PickUpV2LiveMode = 'PickUpV2LiveMode',
+
   // Implicit pickup strategy means picking up messages only using return route
   // decorator. This is what ACA-Py currently uses
   Implicit = 'Implicit',
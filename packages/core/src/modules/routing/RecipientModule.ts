@@ -4,7 +4,6 @@ import type { OutboundWebSocketClosedEvent, OutboundWebSocketOpenedEvent } from
 import type { OutboundMessage } from '../../types'
 import type { ConnectionRecord } from '../connections'
 import type { MediationStateChangedEvent } from './RoutingEvents'
-import type { MediationRecord } from './index'
 import type { GetRoutingOptions } from './services/RoutingService'
 
 import { firstValueFrom, interval, merge, ReplaySubject, Subject, timer } from 'rxjs'
@@ -28,8 +27,8 @@ import { KeylistUpdateResponseHandler } from './handlers/KeylistUpdateResponseHa
 import { MediationDenyHandler } from './handlers/MediationDenyHandler'
 import { MediationGrantHandler } from './handlers/MediationGrantHandler'
 import { MediationState } from './models/MediationState'
-import { BatchPickupMessage, StatusRequestMessage } from './protocol'
-import { MediationRepository, MediatorRoutingRepository } from './repository'
+import { BatchPickupMessage, LiveDeliveryChangeMessage, StatusRequestMessage } from './protocol'
+import { MediationRepository, MediatorRoutingRepository, MediationRecord, MediatorRoutingRecord } from './repository'
 import { MediationRecipientService } from './services/MediationRecipientService'
 import { RoutingService } from './services/RoutingService'
 
@@ -186,6 +185,10 @@ export class RecipientModule {
             if (pickupStrategy === MediatorPickupStrategy.PickUpV2) {
               // Start Pickup v2 protocol to receive messages received while websocket offline
               await this.sendStatusRequest({ mediatorId: mediator.id })
+            } else if (pickupStrategy === MediatorPickupStrategy.PickUpV2LiveMode) {
+              // Live delivery is bound to the websocket session, so it must be enabled again. The mediator
+              // responds with a status message, so messages received while websocket offline are picked up
+              await this.sendLiveDeliveryChange(mediator, true)
             } else {
               await this.openMediationWebSocket(mediator)
             }
@@ -230,6 +233,12 @@ export class RecipientModule {
         await this.openWebSocketAndPickUp(mediatorRecord, mediatorPickupStrategy)
         await this.sendStatusRequest({ mediatorId: mediatorRecord.id })
         break
+      case MediatorPickupStrategy.PickUpV2LiveMode:
+        // Live mode means the mediator pushes messages over the open websocket, so there is no need to poll
+        this.agentConfig.logger.info(`Starting live mode pickup of messages from mediator '${mediatorRecord.id}'`)
+        await this.openWebSocketAndPickUp(mediatorRecord, mediatorPickupStrategy)
+        await this.sendLiveDeliveryChange(mediatorRecord, true)
+        break
       case MediatorPickupStrategy.PickUpV1: {
         const stopConditions$ = merge(this.agentConfig.stop$, this.stopMessagePickup$).pipe()
         // Explicit means polling every X seconds with batch message
@@ -278,6 +287,19 @@ export class RecipientModule {
     return this.messageSender.sendMessage(createOutboundMessage(mediatorConnection, statusRequestMessage))
   }
 
+  private async sendLiveDeliveryChange(mediator: MediationRecord, liveDelivery: boolean) {
+    const mediatorConnection = await this.connectionService.getById(mediator.connectionId)
+    const liveDeliveryChangeMessage = new LiveDeliveryChangeMessage({ liveDelivery })
+
+    // Live delivery requires a long-lived session, so the message must be sent over a websocket
+    await this.messageSender.sendMessage(createOutboundMessage(mediatorConnection, liveDeliveryChangeMessage), {
+      transportPriority: {
+        schemes: ['ws', 'wss'],
+        restrictive: true,
+      },
+    })
+  }
+
   private async getPickupStrategyForMediator(mediator: MediationRecord) {
     let mediatorPickupStrategy = mediator.pickupStrategy ?? this.agentConfig.mediatorPickupStrategy
 
@@ -446,5 +468,8 @@ export class RecipientModule {
     // Repositories
     dependencyManager.registerSingleton(MediationRepository)
     dependencyManager.registerSingleton(MediatorRoutingRepository)
+
+    // Records
+    dependencyManager.registerRecordClasses(MediationRecord, MediatorRoutingRecord)
   }
 }
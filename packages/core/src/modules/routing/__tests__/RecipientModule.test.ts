@@ -0,0 +1,125 @@
+import type { OutboundWebSocketClosedEvent } from '../../../transport'
+import type { DidsModule } from '../../dids'
+import type { DiscoverFeaturesModule } from '../../discover-features'
+
+import { getAgentConfig, getMockConnection, mockFunction } from '../../../../tests/helpers'
+import { Dispatcher } from '../../../agent/Dispatcher'
+import { EventEmitter } from '../../../agent/EventEmitter'
+import { MessageSender } from '../../../agent/MessageSender'
+import { TransportEventTypes } from '../../../transport'
+import { sleep } from '../../../utils/sleep'
+import { ConnectionService } from '../../connections/services/ConnectionService'
+import { MediatorPickupStrategy } from '../MediatorPickupStrategy'
+import { RecipientModule } from '../RecipientModule'
+import { MediationRole, MediationState } from '../models'
+import { LiveDeliveryChangeMessage, StatusRequestMessage } from '../protocol'
+import { MediationRecord, MediationRepository } from '../repository'
+import { MediationRecipientService } from '../services/MediationRecipientService'
+import { RoutingService } from '../services/RoutingService'
+
+jest.mock('../../../agent/Dispatcher')
+jest.mock('../../../agent/MessageSender')
+jest.mock('../../connections/services/ConnectionService')
+jest.mock('../services/MediationRecipientService')
+jest.mock('../services/RoutingService')
+jest.mock('../repository/MediationRepository')
+
+const DispatcherMock = Dispatcher as jest.Mock<Dispatcher>
+const MessageSenderMock = MessageSender as jest.Mock<MessageSender>
+const ConnectionServiceMock = ConnectionService as jest.Mock<ConnectionService>
+const MediationRecipientServiceMock = MediationRecipientService as jest.Mock<MediationRecipientService>
+const RoutingServiceMock = RoutingService as jest.Mock<RoutingService>
+const MediationRepositoryMock = MediationRepository as jest.Mock<MediationRepository>
+
+describe('RecipientModule', () => {
+  const agentConfig = getAgentConfig('RecipientModuleTest', {
+    mediatorPollingInterval: 10,
+    baseMediatorReconnectionIntervalMs: 10,
+  })
+  const mediatorConnection = getMockConnection({ id: 'mediatorConnectionId' })
+  const mediationRecord = new MediationRecord({
+    connectionId: mediatorConnection.id,
+    role: MediationRole.Recipient,
+    state: MediationState.Granted,
+    threadId: 'threadId',
+  })
+
+  let eventEmitter: EventEmitter
+  let messageSender: MessageSender
+  let connectionService: ConnectionService
+  let mediationRecipientService: MediationRecipientService
+  let recipientModule: RecipientModule
+
+  beforeEach(() => {
+    eventEmitter = new EventEmitter(agentConfig)
+    messageSender = new MessageSenderMock()
+    connectionService = new ConnectionServiceMock()
+    mediationRecipientService = new MediationRecipientServiceMock()
+
+    mockFunction(connectionService.getById).mockResolvedValue(mediatorConnection)
+    mockFunction(mediationRecipientService.getById).mockResolvedValue(mediationRecord)
+    mockFunction(mediationRecipientService.createStatusRequest).mockResolvedValue(new StatusRequestMessage({}))
+
+    recipientModule = new RecipientModule(
+      new DispatcherMock(),
+      agentConfig,
+      mediationRecipientService,
+      connectionService,
+      {} as DidsModule,
+      messageSender,
+      eventEmitter,
+      {} as DiscoverFeaturesModule,
+      new MediationRepositoryMock(),
+      new RoutingServiceMock()
+    )
+  })
+
+  afterEach(async () => {
+    await recipientModule.stopMessagePickup()
+  })
+
+  describe('initiateMessagePickup()', () => {
+    it('enables live delivery over a websocket with the live mode pickup strategy', async () => {
+      await recipientModule.initiateMessagePickup(mediationRecord, MediatorPickupStrategy.PickUpV2LiveMode)
+
+      expect(messageSender.sendMessage).toHaveBeenCalledTimes(1)
+      const [outboundMessage, options] = mockFunction(messageSender.sendMessage).mock.calls[0]
+
+      expect(outboundMessage.connection).toBe(mediatorConnection)
+      expect(outboundMessage.payload).toBeInstanceOf(LiveDeliveryChangeMessage)
+      expect(outboundMessage.payload).toMatchObject({ liveDelivery: true })
+      expect(options).toEqual({ transportPriority: { schemes: ['ws', 'wss'], restrictive: true } })
+    })
+
+    it('does not poll the mediator for messages with the live mode pickup strategy', async () => {
+      await recipientModule.initiateMessagePickup(mediationRecord, MediatorPickupStrategy.PickUpV2LiveMode)
+      await sleep(50)
+
+      expect(messageSender.sendMessage).toHaveBeenCalledTimes(1)
+    })
+
+    it('enables live delivery again when the websocket to the mediator is reopened', async () => {
+      await recipientModule.initiateMessagePickup(mediationRecord, MediatorPickupStrategy.PickUpV2LiveMode)
+
+      eventEmitter.emit<OutboundWebSocketClosedEvent>({
+        type: TransportEventTypes.OutboundWebSocketClosedEvent,
+        payload: { socketId: 'socketId', connectionId: mediatorConnection.id },
+      })
+      await sleep(50)
+
+      expect(messageSender.sendMessage).toHaveBeenCalledTimes(2)
+      const [outboundMessage] = mockFunction(messageSender.sendMessage).mock.calls[1]
+      expect(outboundMessage.payload).toBeInstanceOf(LiveDeliveryChangeMessage)
+      expect(outboundMessage.payload).toMatchObject({ liveDelivery: true })
+    })
+
+    it('sends a single status request and does not poll the mediator with the pickup v2 strategy', async () => {
+      await recipientModule.initiateMessagePickup(mediationRecord, MediatorPickupStrategy.PickUpV2)
+      await sleep(50)
+
+      expect(messageSender.sendMessage).toHaveBeenCalledTimes(1)
+      const [outboundMessage] = mockFunction(messageSender.sendMessage).mock.calls[0]
+      expect(outboundMessage.payload).toBeInstanceOf(StatusRequestMessage)
+    })
+  })
+})
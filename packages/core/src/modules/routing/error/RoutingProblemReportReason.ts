@@ -1,3 +1,4 @@
 export enum RoutingProblemReportReason {
   ErrorProcessingAttachments = 'error-processing-attachments',
+  LiveModeNotSupported = 'e.msg.live-mode-not-supported',
 }
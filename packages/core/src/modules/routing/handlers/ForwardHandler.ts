@@ -1,6 +1,7 @@
 import type { Handler, HandlerInboundMessage } from '../../../agent/Handler'
 import type { MessageSender } from '../../../agent/MessageSender'
 import type { ConnectionService } from '../../connections/services'
+import type { V2MessagePickupService } from '../protocol'
 import type { MediatorService } from '../services'
 
 import { ForwardMessage } from '../messages'
@@ -9,17 +10,20 @@ export class ForwardHandler implements Handler {
   private mediatorService: MediatorService
   private connectionService: ConnectionService
   private messageSender: MessageSender
+  private messagePickupService: V2MessagePickupService
 
   public supportedMessages = [ForwardMessage]
 
   public constructor(
     mediatorService: MediatorService,
     connectionService: ConnectionService,
-    messageSender: MessageSender
+    messageSender: MessageSender,
+    messagePickupService: V2MessagePickupService
   ) {
     this.mediatorService = mediatorService
     this.connectionService = connectionService
     this.messageSender = messageSender
+    this.messagePickupService = messagePickupService
   }
 
   public async handle(messageContext: HandlerInboundMessage<ForwardHandler>) {
@@ -27,6 +31,10 @@ export class ForwardHandler implements Handler {
 
     const connectionRecord = await this.connectionService.getById(mediationRecord.connectionId)
 
+    // If the recipient enabled live delivery, the message is pushed straight down the open session
+    const isDelivered = await this.messagePickupService.deliverLiveMessage(connectionRecord.id, encryptedMessage)
+    if (isDelivered) return
+
     // The message inside the forward message is packed so we just send the packed
     // message to the connection associated with it
     await this.messageSender.sendPackage({ connection: connectionRecord, encryptedMessage })
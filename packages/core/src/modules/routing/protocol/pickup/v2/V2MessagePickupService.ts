@@ -1,18 +1,29 @@
 import type { InboundMessageContext } from '../../../../../agent/models/InboundMessageContext'
+import type { Logger } from '../../../../../logger'
 import type { EncryptedMessage } from '../../../../../types'
-import type { DeliveryRequestMessage, MessagesReceivedMessage, StatusRequestMessage } from './messages'
-
+import type {
+  DeliveryRequestMessage,
+  LiveDeliveryChangeMessage,
+  MessagesReceivedMessage,
+  StatusRequestMessage,
+} from './messages'
+
+import { AgentConfig } from '../../../../../agent/AgentConfig'
 import { Dispatcher } from '../../../../../agent/Dispatcher'
+import { TransportService } from '../../../../../agent/TransportService'
 import { createOutboundMessage } from '../../../../../agent/helpers'
 import { InjectionSymbols } from '../../../../../constants'
 import { Attachment } from '../../../../../decorators/attachment/Attachment'
 import { AriesFrameworkError } from '../../../../../error'
 import { inject, injectable } from '../../../../../plugins'
 import { MessageRepository } from '../../../../../storage/MessageRepository'
+import { ProblemReportError } from '../../../../problem-reports'
+import { RoutingProblemReportReason } from '../../../error'
 import { MediationRecipientService } from '../../../services'
 
 import {
   DeliveryRequestHandler,
+  LiveDeliveryChangeHandler,
   MessageDeliveryHandler,
   MessagesReceivedHandler,
   StatusHandler,
@@ -25,15 +36,24 @@ export class V2MessagePickupService {
   private messageRepository: MessageRepository
   private dispatcher: Dispatcher
   private mediationRecipientService: MediationRecipientService
+  private transportService: TransportService
+  private logger: Logger
+
+  // Session ids of the connections that have live delivery enabled, by connection id
+  private liveDeliverySessions = new Map<string, string>()
 
   public constructor(
     @inject(InjectionSymbols.MessageRepository) messageRepository: MessageRepository,
     dispatcher: Dispatcher,
-    mediationRecipientService: MediationRecipientService
+    mediationRecipientService: MediationRecipientService,
+    transportService: TransportService,
+    agentConfig: AgentConfig
   ) {
     this.messageRepository = messageRepository
     this.dispatcher = dispatcher
     this.mediationRecipientService = mediationRecipientService
+    this.transportService = transportService
+    this.logger = agentConfig.logger
 
     this.registerHandlers()
   }
@@ -116,9 +136,66 @@ export class V2MessagePickupService {
     return createOutboundMessage(connection, statusMessage)
   }
 
+  public async processLiveDeliveryChange(messageContext: InboundMessageContext<LiveDeliveryChangeMessage>) {
+    // Assert ready connection
+    const connection = messageContext.assertReadyConnection()
+
+    const { message, sessionId } = messageContext
+
+    if (message.liveDelivery) {
+      // Messages can only be pushed to the recipient over a session that is kept open (e.g. a websocket)
+      if (!sessionId) {
+        throw new ProblemReportError('Live delivery requires a session with return routing', {
+          problemCode: RoutingProblemReportReason.LiveModeNotSupported,
+        })
+      }
+
+      this.liveDeliverySessions.set(connection.id, sessionId)
+    } else {
+      this.liveDeliverySessions.delete(connection.id)
+    }
+
+    const statusMessage = new StatusMessage({
+      threadId: message.threadId,
+      messageCount: await this.messageRepository.getAvailableMessageCount(connection.id),
+      liveDelivery: message.liveDelivery,
+    })
+
+    return createOutboundMessage(connection, statusMessage)
+  }
+
+  /**
+   * Push a message straight down the session of a connection that has live delivery enabled.
+   *
+   * @returns whether the message was delivered. If not, the message should be queued instead
+   */
+  public async deliverLiveMessage(connectionId: string, message: EncryptedMessage) {
+    const sessionId = this.liveDeliverySessions.get(connectionId)
+    if (!sessionId) return false
+
+    // Live delivery ends when the session is closed
+    const session = this.transportService.findSessionById(sessionId)
+    if (!session) {
+      this.liveDeliverySessions.delete(connectionId)
+      return false
+    }
+
+    try {
+      await session.send(message)
+      return true
+    } catch (error) {
+      this.logger.debug(`Live delivery of message to connection ${connectionId} failed, disabling live delivery`, {
+        error,
+      })
+      this.liveDeliverySessions.delete(connectionId)
+      return false
+    }
+  }
+
   protected registerHandlers() {
     this.dispatcher.registerHandler(new StatusRequestHandler(this))
     this.dispatcher.registerHandler(new DeliveryRequestHandler(this))
+    this.dispatcher.registerHandler(new LiveDeliveryChangeHandler(this))
     this.dispatcher.registerHandler(new MessagesReceivedHandler(this))
     this.dispatcher.registerHandler(new StatusHandler(this.mediationRecipientService))
     this.dispatcher.registerHandler(new MessageDeliveryHandler(this.mediationRecipientService))
@@ -0,0 +1,19 @@
+import type { Handler } from '../../../../../../agent/Handler'
+import type { InboundMessageContext } from '../../../../../../agent/models/InboundMessageContext'
+import type { V2MessagePickupService } from '../V2MessagePickupService'
+
+import { LiveDeliveryChangeMessage } from '../messages'
+
+export class LiveDeliveryChangeHandler implements Handler {
+  public supportedMessages = [LiveDeliveryChangeMessage]
+  private messagePickupService: V2MessagePickupService
+
+  public constructor(messagePickupService: V2MessagePickupService) {
+    this.messagePickupService = messagePickupService
+  }
+
+  public async handle(messageContext: InboundMessageContext<LiveDeliveryChangeMessage>) {
+    messageContext.assertReadyConnection()
+    return this.messagePickupService.processLiveDeliveryChange(messageContext)
+  }
+}
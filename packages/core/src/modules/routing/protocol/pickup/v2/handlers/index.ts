@@ -1,4 +1,5 @@
 export * from './DeliveryRequestHandler'
+export * from './LiveDeliveryChangeHandler'
 export * from './MessageDeliveryHandler'
 export * from './MessagesReceivedHandler'
 export * from './StatusHandler'
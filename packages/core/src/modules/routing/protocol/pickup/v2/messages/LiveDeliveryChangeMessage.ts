@@ -0,0 +1,31 @@
+import { Expose } from 'class-transformer'
+import { IsBoolean } from 'class-validator'
+
+import { AgentMessage } from '../../../../../../agent/AgentMessage'
+import { ReturnRouteTypes } from '../../../../../../decorators/transport/TransportDecorator'
+import { IsValidMessageType, parseMessageType } from '../../../../../../utils/messageType'
+
+export interface LiveDeliveryChangeMessageOptions {
+  id?: string
+  liveDelivery: boolean
+}
+
+export class LiveDeliveryChangeMessage extends AgentMessage {
+  public constructor(options: LiveDeliveryChangeMessageOptions) {
+    super()
+
+    if (options) {
+      this.id = options.id || this.generateId()
+      this.liveDelivery = options.liveDelivery
+    }
+    this.setReturnRouting(ReturnRouteTypes.all)
+  }
+
+  @IsValidMessageType(LiveDeliveryChangeMessage.type)
+  public readonly type = LiveDeliveryChangeMessage.type.messageTypeUri
+  public static readonly type = parseMessageType('https://didcomm.org/messagepickup/2.0/live-delivery-change')
+
+  @IsBoolean()
+  @Expose({ name: 'live_delivery' })
+  public liveDelivery!: boolean
+}
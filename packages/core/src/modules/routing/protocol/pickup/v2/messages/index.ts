@@ -1,4 +1,5 @@
 export * from './DeliveryRequestMessage'
+export * from './LiveDeliveryChangeMessage'
 export * from './MessageDeliveryMessage'
 export * from './MessagesReceivedMessage'
 export * from './StatusMessage'
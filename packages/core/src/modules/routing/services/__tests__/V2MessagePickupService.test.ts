@@ -1,13 +1,17 @@
+import type { TransportSession } from '../../../../agent/TransportService'
 import type { MessageRepository } from '../../../../storage/MessageRepository'
 import type { EncryptedMessage } from '../../../../types'
 
-import { getMockConnection, mockFunction } from '../../../../../tests/helpers'
+import { getAgentConfig, getMockConnection, mockFunction } from '../../../../../tests/helpers'
 import { Dispatcher } from '../../../../agent/Dispatcher'
+import { TransportService } from '../../../../agent/TransportService'
 import { InboundMessageContext } from '../../../../agent/models/InboundMessageContext'
 import { InMemoryMessageRepository } from '../../../../storage/InMemoryMessageRepository'
 import { DidExchangeState } from '../../../connections'
+import { ProblemReportError } from '../../../problem-reports'
 import {
   DeliveryRequestMessage,
+  LiveDeliveryChangeMessage,
   MessageDeliveryMessage,
   MessagesReceivedMessage,
   StatusMessage,
@@ -41,13 +45,21 @@ const queuedMessages = [encryptedMessage, encryptedMessage, encryptedMessage]
 describe('V2MessagePickupService', () => {
   let pickupService: V2MessagePickupService
   let messageRepository: MessageRepository
+  let transportService: TransportService
 
   beforeEach(async () => {
     const dispatcher = new DispatcherMock()
     const mediationRecipientService = new MediationRecipientServiceMock()
 
     messageRepository = new InMessageRepositoryMock()
-    pickupService = new V2MessagePickupService(messageRepository, dispatcher, mediationRecipientService)
+    transportService = new TransportService()
+    pickupService = new V2MessagePickupService(
+      messageRepository,
+      dispatcher,
+      mediationRecipientService,
+      transportService,
+      getAgentConfig('V2MessagePickupServiceTest')
+    )
   })
 
   describe('processStatusRequest', () => {
@@ -246,4 +258,82 @@ describe('V2MessagePickupService', () => {
       expect(messageRepository.takeFromQueue).toHaveBeenCalledWith(connection.id, 2)
     })
   })
+
+  describe('processLiveDeliveryChange', () => {
+    test('enables live delivery for the session of the message', async () => {
+      mockFunction(messageRepository.getAvailableMessageCount).mockResolvedValue(2)
+
+      const liveDeliveryChange = new LiveDeliveryChangeMessage({ liveDelivery: true })
+      const messageContext = new InboundMessageContext(liveDeliveryChange, { connection: mockConnection })
+      messageContext.sessionId = 'session-id'
+
+      const { connection, payload } = await pickupService.processLiveDeliveryChange(messageContext)
+
+      expect(connection).toEqual(mockConnection)
+      expect(payload).toEqual(
+        new StatusMessage({
+          id: payload.id,
+          threadId: liveDeliveryChange.threadId,
+          messageCount: 2,
+          liveDelivery: true,
+        })
+      )
+    })
+
+    test('throws a problem report error when there is no session', async () => {
+      const liveDeliveryChange = new LiveDeliveryChangeMessage({ liveDelivery: true })
+      const messageContext = new InboundMessageContext(liveDeliveryChange, { connection: mockConnection })
+
+      const promise = pickupService.processLiveDeliveryChange(messageContext)
+
+      await expect(promise).rejects.toThrowError(ProblemReportError)
+      await expect(promise).rejects.toMatchObject({
+        problemReport: { description: { code: 'e.msg.live-mode-not-supported' } },
+      })
+    })
+  })
+
+  describe('deliverLiveMessage', () => {
+    const session: TransportSession = {
+      id: 'session-id',
+      type: 'WebSocket',
+      send: jest.fn(),
+      close: jest.fn(),
+    }
+
+    const enableLiveDelivery = async (liveDelivery: boolean) => {
+      mockFunction(messageRepository.getAvailableMessageCount).mockResolvedValue(0)
+
+      const messageContext = new InboundMessageContext(new LiveDeliveryChangeMessage({ liveDelivery }), {
+        connection: mockConnection,
+      })
+      messageContext.sessionId = session.id
+
+      await pickupService.processLiveDeliveryChange(messageContext)
+    }
+
+    test('sends the message over the session when live delivery is enabled', async () => {
+      transportService.saveSession(session)
+      await enableLiveDelivery(true)
+
+      await expect(pickupService.deliverLiveMessage(mockConnection.id, encryptedMessage)).resolves.toBe(true)
+      expect(session.send).toHaveBeenCalledWith(encryptedMessage)
+    })
+
+    test('does not deliver the message when live delivery is disabled', async () => {
+      transportService.saveSession(session)
+      await enableLiveDelivery(true)
+      await enableLiveDelivery(false)
+
+      await expect(pickupService.deliverLiveMessage(mockConnection.id, encryptedMessage)).resolves.toBe(false)
+    })
+
+    test('does not deliver the message when the session is closed', async () => {
+      transportService.saveSession(session)
+      await enableLiveDelivery(true)
+      transportService.removeSession(session)
+
+      await expect(pickupService.deliverLiveMessage(mockConnection.id, encryptedMessage)).resolves.toBe(false)
+    })
+  })
 })
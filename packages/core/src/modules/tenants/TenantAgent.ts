@@ -0,0 +1,42 @@
+import type { DependencyManager } from '../../plugins'
+import type { InjectionToken } from 'tsyringe'
+
+import { Agent } from '../../agent/Agent'
+import { TransportService } from '../../agent/TransportService'
+import { IndyPoolService } from '../ledger/services/IndyPoolService'
+
+/**
+ * Dependencies that are shared between the base agent and all tenant agents. They are not bound to a wallet.
+ */
+const sharedDependencies: InjectionToken[] = [TransportService, IndyPoolService]
+
+/**
+ * Agent for a single tenant hosted by a base agent. A tenant agent has its own wallet and storage, but shares
+ * the transports, ledger connections and transport sessions with the base agent.
+ *
+ * Tenant agents should not be created directly, but retrieved using the `TenantsModule`.
+ */
+export class TenantAgent extends Agent {
+  // Transports are registered with, and started and stopped by, the base agent. Outbound transports of the base
+  // agent are registered in the tenant agent by the `TenantsModule`, but are not exposed to prevent the tenant
+  // from starting or stopping them.
+  public get inboundTransports() {
+    return []
+  }
+
+  public get outboundTransports() {
+    return []
+  }
+
+  protected registerDependencies(dependencyManager: DependencyManager) {
+    // The dependency manager of the tenant is a child of the dependency manager of the base agent. Resolve the shared
+    // dependencies before registering the tenant dependencies, as those will shadow the registrations of the base agent
+    const sharedInstances = sharedDependencies.map((token) => [token, dependencyManager.resolve(token)] as const)
+
+    super.registerDependencies(dependencyManager)
+
+    for (const [token, instance] of sharedInstances) {
+      dependencyManager.registerInstance(token, instance)
+    }
+  }
+}
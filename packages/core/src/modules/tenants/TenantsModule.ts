@@ -0,0 +1,111 @@
+import type { AgentModulesInput } from '../../agent/AgentModules'
+import type { DependencyManager } from '../../plugins'
+import type { TenantConfig } from './models/TenantConfig'
+
+import { MessageReceiver } from '../../agent/MessageReceiver'
+import { InjectionSymbols } from '../../constants'
+import { inject, injectable, module } from '../../plugins'
+
+import { TenantRepository, TenantRoutingRepository, TenantRecord, TenantRoutingRecord } from './repository'
+import { TenantAgentService } from './services/TenantAgentService'
+import { TenantRecordService } from './services/TenantRecordService'
+
+export interface CreateTenantOptions {
+  config: Omit<TenantConfig, 'walletConfig'>
+}
+
+export interface GetTenantAgentOptions {
+  tenantId: string
+}
+
+/**
+ * Host multiple tenants on a single (base) agent. Each tenant has its own wallet and storage, while the transports
+ * and ledger connections of the base agent are shared between all tenants. Inbound messages received by the base
+ * agent are routed to the tenant based on the recipient key of the message.
+ *
+ * The tenants module is not registered by default. Register it on the base agent, and resolve it to start
+ * routing inbound messages to the tenants:
+ *
+ * @example
+ * agent.dependencyManager.registerModules(TenantsModule)
+ * const tenants = agent.dependencyManager.resolve(TenantsModule)
+ */
+@module()
+@injectable()
+export class TenantsModule {
+  private tenantRecordService: TenantRecordService
+  private tenantAgentService: TenantAgentService
+
+  public constructor(
+    tenantRecordService: TenantRecordService,
+    tenantAgentService: TenantAgentService,
+    messageReceiver: MessageReceiver,
+    @inject(InjectionSymbols.AgentModules) agentModules: Readonly<AgentModulesInput>
+  ) {
+    this.tenantRecordService = tenantRecordService
+    this.tenantAgentService = tenantAgentService
+
+    // Tenant agents use the same modules as the base agent, except for the tenants module itself
+    this.tenantAgentService.tenantAgentModules = Object.entries(agentModules).reduce<AgentModulesInput>(
+      (modules, [name, module]) => (module === TenantsModule ? modules : { ...modules, [name]: module }),
+      {}
+    )
+
+    messageReceiver.registerInboundMessageRouter(this.tenantAgentService)
+  }
+
+  /**
+   * Create a new tenant. This creates and opens the wallet of the tenant.
+   */
+  public async createTenant({ config }: CreateTenantOptions) {
+    const tenantRecord = await this.tenantRecordService.createTenant(config)
+
+    // Initializing the tenant agent creates the wallet of the tenant
+    await this.tenantAgentService.getTenantAgent(tenantRecord.id)
+
+    return tenantRecord
+  }
+
+  /**
+   * Get the agent for a tenant. The returned agent is initialized and shared between all callers, so it
+   * should not be shutdown while still in use. All tenant agents are shutdown when the base agent is shutdown.
+   */
+  public async getTenantAgent({ tenantId }: GetTenantAgentOptions) {
+    return this.tenantAgentService.getTenantAgent(tenantId)
+  }
+
+  public async getTenantById(tenantId: string) {
+    return this.tenantRecordService.getTenantById(tenantId)
+  }
+
+  public async getAllTenants() {
+    return this.tenantRecordService.getAllTenants()
+  }
+
+  /**
+   * Delete a tenant, including the wallet of the tenant
+   */
+  public async deleteTenantById(tenantId: string) {
+    const tenantAgent = await this.tenantAgentService.getTenantAgent(tenantId)
+
+    await tenantAgent.wallet.delete()
+    await this.tenantAgentService.shutdownTenantAgent(tenantId)
+    await this.tenantRecordService.deleteTenantById(tenantId)
+  }
+
+  public static register(dependencyManager: DependencyManager) {
+    // Api
+    dependencyManager.registerContextScoped(TenantsModule)
+
+    // Services
+    dependencyManager.registerSingleton(TenantRecordService)
+    dependencyManager.registerSingleton(TenantAgentService)
+
+    // Repositories
+    dependencyManager.registerSingleton(TenantRepository)
+    dependencyManager.registerSingleton(TenantRoutingRepository)
+
+    // Records
+    dependencyManager.registerRecordClasses(TenantRecord, TenantRoutingRecord)
+  }
+}
@@ -0,0 +1,4 @@
+export * from './TenantsModule'
+export * from './TenantAgent'
+export * from './repository'
+export * from './models/TenantConfig'
@@ -0,0 +1,5 @@
+import type { InitConfig, WalletConfig } from '../../../types'
+
+export type TenantConfig = Pick<InitConfig, 'label' | 'connectionImageUrl'> & {
+  walletConfig: Pick<WalletConfig, 'id' | 'key' | 'keyDerivationMethod'>
+}
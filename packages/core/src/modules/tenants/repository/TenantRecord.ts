@@ -0,0 +1,38 @@
+import type { TagsBase } from '../../../storage/BaseRecord'
+import type { TenantConfig } from '../models/TenantConfig'
+
+import { BaseRecord } from '../../../storage/BaseRecord'
+import { uuid } from '../../../utils/uuid'
+
+export type TenantRecordTags = TagsBase
+
+export interface TenantRecordProps {
+  id?: string
+  createdAt?: Date
+  config: TenantConfig
+  tags?: TenantRecordTags
+}
+
+export class TenantRecord extends BaseRecord<TenantRecordTags> {
+  public static readonly type = 'TenantRecord'
+  public readonly type = TenantRecord.type
+
+  public config!: TenantConfig
+
+  public constructor(props: TenantRecordProps) {
+    super()
+
+    if (props) {
+      this.id = props.id ?? uuid()
+      this.createdAt = props.createdAt ?? new Date()
+      this._tags = props.tags ?? {}
+      this.config = props.config
+    }
+  }
+
+  public getTags() {
+    return {
+      ...this._tags,
+    }
+  }
+}
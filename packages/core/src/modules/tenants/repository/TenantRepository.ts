@@ -0,0 +1,17 @@
+import { EventEmitter } from '../../../agent/EventEmitter'
+import { InjectionSymbols } from '../../../constants'
+import { inject, injectable } from '../../../plugins'
+import { Repository } from '../../../storage/Repository'
+import { StorageService } from '../../../storage/StorageService'
+
+import { TenantRecord } from './TenantRecord'
+
+@injectable()
+export class TenantRepository extends Repository<TenantRecord> {
+  public constructor(
+    @inject(InjectionSymbols.StorageService) storageService: StorageService<TenantRecord>,
+    eventEmitter: EventEmitter
+  ) {
+    super(TenantRecord, storageService, eventEmitter)
+  }
+}
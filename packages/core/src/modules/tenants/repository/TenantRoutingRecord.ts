@@ -0,0 +1,51 @@
+import type { TagsBase } from '../../../storage/BaseRecord'
+
+import { BaseRecord } from '../../../storage/BaseRecord'
+import { uuid } from '../../../utils/uuid'
+
+export type TenantRoutingRecordTags = TagsBase
+
+type DefaultTenantRoutingRecordTags = {
+  tenantId: string
+  recipientKeyFingerprint: string
+}
+
+export interface TenantRoutingRecordProps {
+  id?: string
+  createdAt?: Date
+  tags?: TenantRoutingRecordTags
+
+  tenantId: string
+  recipientKeyFingerprint: string
+}
+
+/**
+ * Maps a recipient key of a tenant to the tenant, so inbound messages can be routed to the correct tenant.
+ */
+export class TenantRoutingRecord extends BaseRecord<DefaultTenantRoutingRecordTags, TenantRoutingRecordTags> {
+  public static readonly type = 'TenantRoutingRecord'
+  public readonly type = TenantRoutingRecord.type
+
+  public tenantId!: string
+  public recipientKeyFingerprint!: string
+
+  public constructor(props: TenantRoutingRecordProps) {
+    super()
+
+    if (props) {
+      this.id = props.id ?? uuid()
+      this.createdAt = props.createdAt ?? new Date()
+      this._tags = props.tags ?? {}
+      this.tenantId = props.tenantId
+      this.recipientKeyFingerprint = props.recipientKeyFingerprint
+    }
+  }
+
+  public getTags() {
+    return {
+      ...this._tags,
+      tenantId: this.tenantId,
+      recipientKeyFingerprint: this.recipientKeyFingerprint,
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import type { Key } from '../../dids/domain/Key'
+
+import { EventEmitter } from '../../../agent/EventEmitter'
+import { InjectionSymbols } from '../../../constants'
+import { inject, injectable } from '../../../plugins'
+import { Repository } from '../../../storage/Repository'
+import { StorageService } from '../../../storage/StorageService'
+
+import { TenantRoutingRecord } from './TenantRoutingRecord'
+
+@injectable()
+export class TenantRoutingRepository extends Repository<TenantRoutingRecord> {
+  public constructor(
+    @inject(InjectionSymbols.StorageService) storageService: StorageService<TenantRoutingRecord>,
+    eventEmitter: EventEmitter
+  ) {
+    super(TenantRoutingRecord, storageService, eventEmitter)
+  }
+
+  public findByRecipientKey(key: Key) {
+    return this.findSingleByQuery({
+      recipientKeyFingerprint: key.fingerprint,
+    })
+  }
+
+  public findByTenantId(tenantId: string) {
+    return this.findByQuery({
+      tenantId,
+    })
+  }
+}
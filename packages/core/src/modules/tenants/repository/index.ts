@@ -0,0 +1,4 @@
+export * from './TenantRecord'
+export * from './TenantRepository'
+export * from './TenantRoutingRecord'
+export * from './TenantRoutingRepository'
@@ -0,0 +1,186 @@
+import type { AgentModulesInput } from '../../../agent/AgentModules'
+import type { InboundMessageRouter } from '../../../agent/MessageReceiver'
+import type { TransportSession } from '../../../agent/TransportService'
+import type { Logger } from '../../../logger'
+import type { EncryptedMessage } from '../../../types'
+import type { RoutingCreatedEvent } from '../../routing/RoutingEvents'
+
+import { concatMap } from 'rxjs/operators'
+
+import { AgentConfig } from '../../../agent/AgentConfig'
+import { getDefaultAgentModules } from '../../../agent/AgentModules'
+import { MessageSender } from '../../../agent/MessageSender'
+import { KeyType } from '../../../crypto'
+import { DependencyManager, injectable } from '../../../plugins'
+import { JsonEncoder } from '../../../utils/JsonEncoder'
+import { Key } from '../../dids/domain/Key'
+import { RoutingEventTypes } from '../../routing/RoutingEvents'
+import { TenantAgent } from '../TenantAgent'
+
+import { TenantRecordService } from './TenantRecordService'
+
+/**
+ * Manages the tenant agents hosted by the base agent, and routes inbound messages received by the base agent
+ * to the tenant they are addressed to.
+ */
+@injectable()
+export class TenantAgentService implements InboundMessageRouter {
+  private agentConfig: AgentConfig
+  private dependencyManager: DependencyManager
+  private messageSender: MessageSender
+  private tenantRecordService: TenantRecordService
+  private logger: Logger
+
+  /**
+   * The modules registered on the tenant agents. Set by the `TenantsModule`, based on the modules of the base agent
+   */
+  public tenantAgentModules: AgentModulesInput = getDefaultAgentModules()
+
+  // Tenant agents are cached, so there is only a single agent (and opened wallet) per tenant
+  private tenantAgents = new Map<string, Promise<TenantAgent>>()
+
+  public constructor(
+    agentConfig: AgentConfig,
+    dependencyManager: DependencyManager,
+    messageSender: MessageSender,
+    tenantRecordService: TenantRecordService
+  ) {
+    this.agentConfig = agentConfig
+    this.dependencyManager = dependencyManager
+    this.messageSender = messageSender
+    this.tenantRecordService = tenantRecordService
+    this.logger = agentConfig.logger
+
+    // Shutdown all tenant agents when the base agent is shutdown
+    this.agentConfig.stop$.subscribe(() => {
+      this.shutdownAllTenantAgents().catch((error) => {
+        this.logger.error('Error shutting down tenant agents', { error })
+      })
+    })
+  }
+
+  /**
+   * Get the (initialized) agent for a tenant. If the tenant agent is not initialized yet, this will
+   * open (or create) the wallet of the tenant and initialize the agent.
+   */
+  public async getTenantAgent(tenantId: string): Promise<TenantAgent> {
+    let tenantAgentPromise = this.tenantAgents.get(tenantId)
+
+    if (!tenantAgentPromise) {
+      tenantAgentPromise = this.createTenantAgent(tenantId)
+      this.tenantAgents.set(tenantId, tenantAgentPromise)
+
+      // Remove the tenant agent from the cache if initialization failed, so it can be retried
+      tenantAgentPromise.catch(() => this.tenantAgents.delete(tenantId))
+    }
+
+    return tenantAgentPromise
+  }
+
+  public async shutdownTenantAgent(tenantId: string) {
+    const tenantAgentPromise = this.tenantAgents.get(tenantId)
+    if (!tenantAgentPromise) return
+
+    this.tenantAgents.delete(tenantId)
+    const tenantAgent = await tenantAgentPromise
+    await tenantAgent.shutdown()
+  }
+
+  public async shutdownAllTenantAgents() {
+    const tenantIds = Array.from(this.tenantAgents.keys())
+
+    await Promise.all(tenantIds.map((tenantId) => this.shutdownTenantAgent(tenantId)))
+  }
+
+  /**
+   * Route an inbound message to the tenant that owns one of the recipient keys of the message.
+   *
+   * Only DIDComm v1 envelopes are routed, as the recipients of a DIDComm v2 envelope are addressed by key id.
+   */
+  public async routeInboundMessage(inboundMessage: EncryptedMessage, session?: TransportSession) {
+    for (const recipientKey of this.getRecipientKeys(inboundMessage)) {
+      const tenantRoutingRecord = await this.tenantRecordService.findTenantRoutingRecordByRecipientKey(recipientKey)
+
+      if (tenantRoutingRecord) {
+        this.logger.debug(`Routing inbound message to tenant '${tenantRoutingRecord.tenantId}'`, {
+          recipientKey: recipientKey.fingerprint,
+        })
+
+        const tenantAgent = await this.getTenantAgent(tenantRoutingRecord.tenantId)
+        await tenantAgent.receiveMessage(inboundMessage, session)
+
+        return true
+      }
+    }
+
+    return false
+  }
+
+  private async createTenantAgent(tenantId: string) {
+    const tenantRecord = await this.tenantRecordService.getTenantById(tenantId)
+
+    this.logger.debug(`Creating agent for tenant '${tenantId}'`)
+
+    const tenantAgent = new TenantAgent(
+      {
+        ...this.agentConfig.toInitConfig(),
+        label: tenantRecord.config.label,
+        connectionImageUrl: tenantRecord.config.connectionImageUrl,
+        // The wallet of the tenant uses the same storage as the wallet of the base agent
+        walletConfig: {
+          ...tenantRecord.config.walletConfig,
+          storage: this.agentConfig.walletConfig?.storage,
+        },
+        // Ledger connections are managed by the base agent
+        connectToIndyLedgersOnStartup: false,
+        // Below options only apply to the base agent
+        publicDidSeed: undefined,
+        mediatorConnectionsInvite: undefined,
+        defaultMediatorId: undefined,
+        clearDefaultMediator: undefined,
+      },
+      this.agentConfig.agentDependencies,
+      {
+        injectionContainer: this.dependencyManager.createChild().container,
+        modules: this.tenantAgentModules,
+      }
+    )
+
+    for (const outboundTransport of this.messageSender.outboundTransports) {
+      tenantAgent.registerOutboundTransport(outboundTransport)
+    }
+
+    // Keep track of the recipient keys created by the tenant, so inbound messages for those keys can be routed to the tenant
+    tenantAgent.events
+      .observable<RoutingCreatedEvent>(RoutingEventTypes.RoutingCreatedEvent)
+      .pipe(concatMap(({ payload }) => this.addTenantRoutingRecord(tenantId, payload.routing.recipientKey)))
+      .subscribe()
+
+    await tenantAgent.initialize()
+
+    return tenantAgent
+  }
+
+  private async addTenantRoutingRecord(tenantId: string, recipientKey: Key) {
+    try {
+      await this.tenantRecordService.addTenantRoutingRecord(tenantId, recipientKey)
+    } catch (error) {
+      this.logger.error(`Error storing routing record for tenant '${tenantId}'`, { error })
+    }
+  }
+
+  private getRecipientKeys(encryptedMessage: EncryptedMessage) {
+    try {
+      const { recipients } = JsonEncoder.fromBase64(encryptedMessage.protected)
+      if (!Array.isArray(recipients)) return []
+
+      return recipients
+        .map((recipient) => recipient?.header?.kid)
+        .filter((kid): kid is string => typeof kid === 'string')
+        .map((kid) => Key.fromPublicKeyBase58(kid, KeyType.Ed25519))
+    } catch (error) {
+      this.logger.debug('Unable to extract recipient keys from inbound message', { error })
+      return []
+    }
+  }
+}
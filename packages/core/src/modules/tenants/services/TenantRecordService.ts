@@ -0,0 +1,85 @@
+import type { Key } from '../../dids/domain/Key'
+import type { TenantConfig } from '../models/TenantConfig'
+
+import { InjectionSymbols } from '../../../constants'
+import { inject, injectable } from '../../../plugins'
+import { KeyDerivationMethod } from '../../../types'
+import { uuid } from '../../../utils/uuid'
+import { Wallet } from '../../../wallet/Wallet'
+import { TenantRecord, TenantRepository, TenantRoutingRecord, TenantRoutingRepository } from '../repository'
+
+@injectable()
+export class TenantRecordService {
+  private tenantRepository: TenantRepository
+  private tenantRoutingRepository: TenantRoutingRepository
+  private wallet: Wallet
+
+  public constructor(
+    tenantRepository: TenantRepository,
+    tenantRoutingRepository: TenantRoutingRepository,
+    @inject(InjectionSymbols.Wallet) wallet: Wallet
+  ) {
+    this.tenantRepository = tenantRepository
+    this.tenantRoutingRepository = tenantRoutingRepository
+    this.wallet = wallet
+  }
+
+  public async createTenant(config: Omit<TenantConfig, 'walletConfig'>) {
+    const tenantId = uuid()
+
+    // Each tenant gets its own wallet, secured by a random key stored in the wallet of the base agent
+    const walletKey = await this.wallet.generateWalletKey()
+
+    const tenantRecord = new TenantRecord({
+      id: tenantId,
+      config: {
+        ...config,
+        walletConfig: {
+          id: `tenant-${tenantId}`,
+          key: walletKey,
+          keyDerivationMethod: KeyDerivationMethod.Raw,
+        },
+      },
+    })
+
+    await this.tenantRepository.save(tenantRecord)
+
+    return tenantRecord
+  }
+
+  public async getTenantById(tenantId: string) {
+    return this.tenantRepository.getById(tenantId)
+  }
+
+  public async getAllTenants() {
+    return this.tenantRepository.getAll()
+  }
+
+  /**
+   * Delete the tenant record and all routing records of the tenant. This does not delete the wallet of the tenant.
+   */
+  public async deleteTenantById(tenantId: string) {
+    const tenantRecord = await this.getTenantById(tenantId)
+    const tenantRoutingRecords = await this.tenantRoutingRepository.findByTenantId(tenantRecord.id)
+
+    await Promise.all(
+      tenantRoutingRecords.map((tenantRoutingRecord) => this.tenantRoutingRepository.delete(tenantRoutingRecord))
+    )
+    await this.tenantRepository.delete(tenantRecord)
+  }
+
+  public async findTenantRoutingRecordByRecipientKey(recipientKey: Key) {
+    return this.tenantRoutingRepository.findByRecipientKey(recipientKey)
+  }
+
+  public async addTenantRoutingRecord(tenantId: string, recipientKey: Key) {
+    const tenantRoutingRecord = new TenantRoutingRecord({
+      tenantId,
+      recipientKeyFingerprint: recipientKey.fingerprint,
+    })
+
+    await this.tenantRoutingRepository.save(tenantRoutingRecord)
+
+    return tenantRoutingRecord
+  }
+}
@@ -0,0 +1,81 @@
+import type { MessageSender } from '../../../../agent/MessageSender'
+import type { TenantAgent } from '../../TenantAgent'
+
+import { getAgentConfig, mockFunction } from '../../../../../tests/helpers'
+import { KeyType } from '../../../../crypto'
+import { DependencyManager } from '../../../../plugins'
+import { JsonEncoder } from '../../../../utils/JsonEncoder'
+import { Key } from '../../../dids'
+import { TenantRoutingRecord } from '../../repository'
+import { TenantAgentService } from '../TenantAgentService'
+import { TenantRecordService } from '../TenantRecordService'
+
+jest.mock('../TenantRecordService')
+const TenantRecordServiceMock = TenantRecordService as jest.Mock<TenantRecordService>
+
+const agentConfig = getAgentConfig('TenantAgentService')
+const tenantRecordService = new TenantRecordServiceMock()
+
+const tenantAgentService = new TenantAgentService(
+  agentConfig,
+  new DependencyManager(),
+  { outboundTransports: [] } as unknown as MessageSender,
+  tenantRecordService
+)
+
+const recipientKey = Key.fromPublicKeyBase58('8HH5gYEeNc3z7PYXmd54d4x6qAfCNrqQqEB3nS7Zfu7K', KeyType.Ed25519)
+
+const encryptedMessage = {
+  protected: JsonEncoder.toBase64URL({
+    enc: 'xchacha20poly1305_ietf',
+    typ: 'JWM/1.0',
+    alg: 'Anoncrypt',
+    recipients: [{ encrypted_key: 'encryptedKey', header: { kid: recipientKey.publicKeyBase58 } }],
+  }),
+  iv: 'iv',
+  ciphertext: 'ciphertext',
+  tag: 'tag',
+}
+
+describe('TenantAgentService', () => {
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('routeInboundMessage', () => {
+    test('routes the message to the tenant that owns the recipient key', async () => {
+      const tenantAgent = { receiveMessage: jest.fn() } as unknown as TenantAgent
+      const getTenantAgentSpy = jest.spyOn(tenantAgentService, 'getTenantAgent').mockResolvedValue(tenantAgent)
+
+      mockFunction(tenantRecordService.findTenantRoutingRecordByRecipientKey).mockResolvedValue(
+        new TenantRoutingRecord({ tenantId: 'tenant-id', recipientKeyFingerprint: recipientKey.fingerprint })
+      )
+
+      const session = { id: 'session-id', type: 'http' }
+      const routed = await tenantAgentService.routeInboundMessage(encryptedMessage, session as never)
+
+      expect(routed).toBe(true)
+      expect(tenantRecordService.findTenantRoutingRecordByRecipientKey).toHaveBeenCalledWith(recipientKey)
+      expect(getTenantAgentSpy).toHaveBeenCalledWith('tenant-id')
+      expect(tenantAgent.receiveMessage).toHaveBeenCalledWith(encryptedMessage, session)
+    })
+
+    test('does not route the message if no tenant owns the recipient key', async () => {
+      mockFunction(tenantRecordService.findTenantRoutingRecordByRecipientKey).mockResolvedValue(null)
+
+      const routed = await tenantAgentService.routeInboundMessage(encryptedMessage)
+
+      expect(routed).toBe(false)
+    })
+
+    test('does not route the message if the recipient keys can not be extracted', async () => {
+      const routed = await tenantAgentService.routeInboundMessage({
+        ...encryptedMessage,
+        protected: JsonEncoder.toBase64URL({ alg: 'ECDH-ES+A256KW', enc: 'A256CBC-HS512' }),
+      })
+
+      expect(routed).toBe(false)
+      expect(tenantRecordService.findTenantRoutingRecordByRecipientKey).not.toHaveBeenCalled()
+    })
+  })
+})
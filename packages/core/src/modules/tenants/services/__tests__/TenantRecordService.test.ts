@@ -0,0 +1,91 @@
+import type { Wallet } from '../../../../wallet/Wallet'
+
+import { mockFunction } from '../../../../../tests/helpers'
+import { KeyType } from '../../../../crypto'
+import { KeyDerivationMethod } from '../../../../types'
+import { Key } from '../../../dids'
+import { TenantRecord, TenantRoutingRecord } from '../../repository'
+import { TenantRepository } from '../../repository/TenantRepository'
+import { TenantRoutingRepository } from '../../repository/TenantRoutingRepository'
+import { TenantRecordService } from '../TenantRecordService'
+
+jest.mock('../../repository/TenantRepository')
+const TenantRepositoryMock = TenantRepository as jest.Mock<TenantRepository>
+
+jest.mock('../../repository/TenantRoutingRepository')
+const TenantRoutingRepositoryMock = TenantRoutingRepository as jest.Mock<TenantRoutingRepository>
+
+const wallet = {
+  generateWalletKey: jest.fn(() => Promise.resolve('walletKey')),
+} as unknown as Wallet
+
+const tenantRepository = new TenantRepositoryMock()
+const tenantRoutingRepository = new TenantRoutingRepositoryMock()
+
+const tenantRecordService = new TenantRecordService(tenantRepository, tenantRoutingRepository, wallet)
+
+describe('TenantRecordService', () => {
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('createTenant', () => {
+    test('creates a tenant record with a unique wallet and raw wallet key', async () => {
+      const tenantRecord = await tenantRecordService.createTenant({ label: 'Tenant' })
+
+      expect(tenantRecord).toMatchObject({
+        id: expect.any(String),
+        config: {
+          label: 'Tenant',
+          walletConfig: {
+            id: `tenant-${tenantRecord.id}`,
+            key: 'walletKey',
+            keyDerivationMethod: KeyDerivationMethod.Raw,
+          },
+        },
+      })
+      expect(tenantRepository.save).toHaveBeenCalledWith(tenantRecord)
+    })
+  })
+
+  describe('deleteTenantById', () => {
+    test('deletes the tenant record and all routing records of the tenant', async () => {
+      const tenantRecord = new TenantRecord({
+        id: 'tenant-id',
+        config: {
+          label: 'Tenant',
+          walletConfig: { id: 'tenant-tenant-id', key: 'walletKey', keyDerivationMethod: KeyDerivationMethod.Raw },
+        },
+      })
+      const tenantRoutingRecords = [
+        new TenantRoutingRecord({ tenantId: 'tenant-id', recipientKeyFingerprint: 'z1' }),
+        new TenantRoutingRecord({ tenantId: 'tenant-id', recipientKeyFingerprint: 'z2' }),
+      ]
+
+      mockFunction(tenantRepository.getById).mockResolvedValue(tenantRecord)
+      mockFunction(tenantRoutingRepository.findByTenantId).mockResolvedValue(tenantRoutingRecords)
+
+      await tenantRecordService.deleteTenantById('tenant-id')
+
+      expect(tenantRoutingRepository.findByTenantId).toHaveBeenCalledWith('tenant-id')
+      expect(tenantRoutingRepository.delete).toHaveBeenCalledTimes(2)
+      expect(tenantRoutingRepository.delete).toHaveBeenCalledWith(tenantRoutingRecords[0])
+      expect(tenantRoutingRepository.delete).toHaveBeenCalledWith(tenantRoutingRecords[1])
+      expect(tenantRepository.delete).toHaveBeenCalledWith(tenantRecord)
+    })
+  })
+
+  describe('addTenantRoutingRecord', () => {
+    test('stores the fingerprint of the recipient key as tag', async () => {
+      const recipientKey = Key.fromPublicKeyBase58('8HH5gYEeNc3z7PYXmd54d4x6qAfCNrqQqEB3nS7Zfu7K', KeyType.Ed25519)
+
+      const tenantRoutingRecord = await tenantRecordService.addTenantRoutingRecord('tenant-id', recipientKey)
+
+      expect(tenantRoutingRepository.save).toHaveBeenCalledWith(tenantRoutingRecord)
+      expect(tenantRoutingRecord.getTags()).toEqual({
+        tenantId: 'tenant-id',
+        recipientKeyFingerprint: recipientKey.fingerprint,
+      })
+    })
+  })
+})
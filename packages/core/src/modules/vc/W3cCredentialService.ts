@@ -0,0 +1,398 @@
+import type { Logger } from '../../logger'
+import type { Query } from '../../storage/StorageService'
+import type { DocumentLoader, DocumentLoaderResult, JsonLdDocument, ProofPurpose } from './libraries/jsonld-signatures'
+import type {
+  SignCredentialOptions,
+  SignPresentationOptions,
+  StoreCredentialOptions,
+  VerifyCredentialOptions,
+  VerifyPresentationOptions,
+  W3cProofPurpose,
+  W3cProofType,
+  W3cVerifyCredentialResult,
+  W3cVerifyPresentationResult,
+} from './models/W3cCredentialServiceOptions'
+import type { W3cCredential } from './models/credential/W3cCredential'
+import type { W3cPresentation } from './models/presentation/W3cPresentation'
+import type { Ed25519SignatureSuiteOptions } from './signature-suites'
+
+import { AgentConfig } from '../../agent/AgentConfig'
+import { InjectionSymbols } from '../../constants'
+import { AriesFrameworkError } from '../../error'
+import { inject, injectable } from '../../plugins'
+import { JsonEncoder } from '../../utils/JsonEncoder'
+import { JsonTransformer } from '../../utils/JsonTransformer'
+import { MessageValidator } from '../../utils/MessageValidator'
+import { Wallet } from '../../wallet/Wallet'
+import { DidResolverService } from '../dids/services/DidResolverService'
+
+import { DID_V1_CONTEXT_URL, LEGACY_DID_V1_CONTEXT_URL } from './constants'
+import { staticContexts } from './libraries/contexts'
+import {
+  AssertionProofPurpose,
+  AuthenticationProofPurpose,
+  extendContextLoader,
+  sign,
+  verify,
+} from './libraries/jsonld-signatures'
+import { W3cVerifiableCredential } from './models/credential/W3cVerifiableCredential'
+import { W3cVerifiablePresentation } from './models/presentation/W3cVerifiablePresentation'
+import { W3cCredentialRecord, W3cCredentialRepository } from './repository'
+import { Ed25519Signature2018, Ed25519Signature2020, getEd25519VerkeyFromVerificationMethod } from './signature-suites'
+
+@injectable()
+export class W3cCredentialService {
+  private wallet: Wallet
+  private w3cCredentialRepository: W3cCredentialRepository
+  private didResolver: DidResolverService
+  private agentConfig: AgentConfig
+  private logger: Logger
+  private remoteDocumentCache = new Map<string, JsonLdDocument>()
+
+  public constructor(
+    @inject(InjectionSymbols.Wallet) wallet: Wallet,
+    w3cCredentialRepository: W3cCredentialRepository,
+    didResolver: DidResolverService,
+    agentConfig: AgentConfig
+  ) {
+    this.wallet = wallet
+    this.w3cCredentialRepository = w3cCredentialRepository
+    this.didResolver = didResolver
+    this.agentConfig = agentConfig
+    this.logger = agentConfig.logger
+  }
+
+  /**
+   * Sign a credential using a key from the wallet. The verification method must be resolvable and
+   * the corresponding private key must be stored in the wallet.
+   *
+   * @param options the credential to sign, the proof type and the verification method to use
+   * @returns the verifiable credential
+   */
+  public async signCredential({
+    credential,
+    proofType,
+    verificationMethod,
+    proofPurpose = 'assertionMethod',
+    created,
+    domain,
+    challenge,
+  }: SignCredentialOptions): Promise<W3cVerifiableCredential> {
+    MessageValidator.validateSync(credential)
+
+    const signedCredential = await this.signDocument(credential, {
+      proofType,
+      verificationMethod,
+      proofPurpose,
+      created,
+      domain,
+      challenge,
+    })
+
+    return JsonTransformer.fromJSON(signedCredential, W3cVerifiableCredential)
+  }
+
+  /**
+   * Sign a presentation using a key from the wallet. The verification method must be resolvable and
+   * the corresponding private key must be stored in the wallet. A challenge is required, so the
+   * presentation can't be replayed to another verifier.
+   *
+   * @param options the presentation to sign, the proof type and the verification method to use
+   * @returns the verifiable presentation
+   */
+  public async signPresentation({
+    presentation,
+    proofType,
+    verificationMethod,
+    proofPurpose = 'authentication',
+    created,
+    domain,
+    challenge,
+  }: SignPresentationOptions): Promise<W3cVerifiablePresentation> {
+    MessageValidator.validateSync(presentation)
+
+    const signedPresentation = await this.signDocument(presentation, {
+      proofType,
+      verificationMethod,
+      proofPurpose,
+      created,
+      domain,
+      challenge,
+    })
+
+    return JsonTransformer.fromJSON(signedPresentation, W3cVerifiablePresentation)
+  }
+
+  /**
+   * Verify the proofs of a verifiable credential. The verification methods referenced from the proofs
+   * must be controlled by the issuer of the credential.
+   *
+   * @param options the credential to verify and the expected proof purpose
+   * @returns the verification result
+   */
+  public async verifyCredential({
+    credential,
+    proofPurpose = 'assertionMethod',
+    domain,
+    challenge,
+  }: VerifyCredentialOptions): Promise<W3cVerifyCredentialResult> {
+    const issuerId = credential.issuerId
+    const invalidProof = credential.proofs.find((proof) => proof.verificationMethod.split('#')[0] !== issuerId)
+    if (invalidProof) {
+      return {
+        verified: false,
+        error: new AriesFrameworkError(
+          `Verification method ${invalidProof.verificationMethod} is not controlled by issuer ${issuerId}`
+        ),
+      }
+    }
+
+    const result = await verify(this.toJsonLd(credential), {
+      suite: [new Ed25519Signature2018(this.wallet), new Ed25519Signature2020(this.wallet)],
+      purpose: this.getProofPurpose(proofPurpose, { domain, challenge }),
+      documentLoader: this.documentLoader,
+    })
+
+    if (!result.verified) {
+      this.logger.debug(`Verification of credential failed`, { error: result.error })
+    }
+
+    return {
+      verified: result.verified,
+      error: result.error,
+    }
+  }
+
+  /**
+   * Verify the proofs of a verifiable presentation and of all the credentials contained in the presentation.
+   * If the presentation has a holder, the verification methods referenced from the proofs of the presentation
+   * must be controlled by the holder.
+   *
+   * @param options the presentation to verify and the challenge (and domain) the presentation must be bound to
+   * @returns the verification result of the presentation and of each contained credential
+   */
+  public async verifyPresentation({
+    presentation,
+    proofPurpose = 'authentication',
+    domain,
+    challenge,
+  }: VerifyPresentationOptions): Promise<W3cVerifyPresentationResult> {
+    const presentationResult = await this.verifyPresentationProofs(presentation, { proofPurpose, domain, challenge })
+
+    const credentialResults: W3cVerifyCredentialResult[] = []
+    for (const credential of presentation.verifiableCredentials) {
+      credentialResults.push(await this.verifyCredential({ credential }))
+    }
+
+    return {
+      verified: presentationResult.verified && credentialResults.every((result) => result.verified),
+      presentationResult,
+      credentialResults,
+      error: presentationResult.error ?? credentialResults.find((result) => result.error)?.error,
+    }
+  }
+
+  /**
+   * Store a verifiable credential in the wallet.
+   *
+   * @param options the credential to store
+   * @returns the stored credential record
+   */
+  public async storeCredential({ credential }: StoreCredentialOptions): Promise<W3cCredentialRecord> {
+    const w3cCredentialRecord = new W3cCredentialRecord({ credential })
+
+    await this.w3cCredentialRepository.save(w3cCredentialRecord)
+
+    return w3cCredentialRecord
+  }
+
+  public async removeCredentialRecord(id: string) {
+    const credentialRecord = await this.w3cCredentialRepository.getById(id)
+    await this.w3cCredentialRepository.delete(credentialRecord)
+  }
+
+  public async getAllCredentialRecords(): Promise<W3cCredentialRecord[]> {
+    return this.w3cCredentialRepository.getAll()
+  }
+
+  public async getCredentialRecordById(id: string): Promise<W3cCredentialRecord> {
+    return this.w3cCredentialRepository.getById(id)
+  }
+
+  public async findCredentialRecordsByQuery(query: Query<W3cCredentialRecord>): Promise<W3cCredentialRecord[]> {
+    return this.w3cCredentialRepository.findByQuery(query)
+  }
+
+  private async signDocument(
+    document: W3cCredential | W3cPresentation,
+    {
+      proofType,
+      verificationMethod,
+      proofPurpose,
+      created,
+      domain,
+      challenge,
+    }: Omit<SignCredentialOptions, 'credential' | 'proofPurpose'> & { proofPurpose: W3cProofPurpose }
+  ) {
+    const verkey = getEd25519VerkeyFromVerificationMethod(
+      JsonTransformer.toJSON(await this.didResolver.dereferenceVerificationMethod(verificationMethod))
+    )
+
+    const suite = this.getSignatureSuite(proofType, { verificationMethod, verkey, date: created })
+
+    return sign(this.toJsonLd(document), {
+      suite,
+      purpose: this.getProofPurpose(proofPurpose, { domain, challenge }),
+      documentLoader: this.documentLoader,
+    })
+  }
+
+  private async verifyPresentationProofs(
+    presentation: W3cVerifiablePresentation,
+    {
+      proofPurpose,
+      domain,
+      challenge,
+    }: Omit<VerifyPresentationOptions, 'presentation' | 'proofPurpose'> & {
+      proofPurpose: W3cProofPurpose
+    }
+  ): Promise<W3cVerifyCredentialResult> {
+    const holderId = presentation.holder
+    const invalidProof = holderId
+      ? presentation.proofs.find((proof) => proof.verificationMethod.split('#')[0] !== holderId)
+      : undefined
+    if (invalidProof) {
+      return {
+        verified: false,
+        error: new AriesFrameworkError(
+          `Verification method ${invalidProof.verificationMethod} is not controlled by holder ${holderId}`
+        ),
+      }
+    }
+
+    const result = await verify(this.toJsonLd(presentation), {
+      suite: [new Ed25519Signature2018(this.wallet), new Ed25519Signature2020(this.wallet)],
+      purpose: this.getProofPurpose(proofPurpose, { domain, challenge }),
+      documentLoader: this.documentLoader,
+    })
+
+    if (!result.verified) {
+      this.logger.debug(`Verification of presentation failed`, { error: result.error })
+    }
+
+    return {
+      verified: result.verified,
+      error: result.error,
+    }
+  }
+
+  private getSignatureSuite(proofType: W3cProofType, options: Ed25519SignatureSuiteOptions) {
+    switch (proofType) {
+      case Ed25519Signature2018.proofType:
+        return new Ed25519Signature2018(this.wallet, options)
+      case Ed25519Signature2020.proofType:
+        return new Ed25519Signature2020(this.wallet, options)
+      default:
+        throw new AriesFrameworkError(`Unsupported proof type '${proofType}'`)
+    }
+  }
+
+  private getProofPurpose(
+    proofPurpose: W3cProofPurpose,
+    { domain, challenge }: { domain?: string; challenge?: string }
+  ): ProofPurpose {
+    switch (proofPurpose) {
+      case 'assertionMethod':
+        return new AssertionProofPurpose()
+      case 'authentication':
+        if (!challenge) {
+          throw new AriesFrameworkError("A challenge is required for proof purpose 'authentication'")
+        }
+        return new AuthenticationProofPurpose({ challenge, domain })
+      default:
+        throw new AriesFrameworkError(`Unsupported proof purpose '${proofPurpose}'`)
+    }
+  }
+
+  /**
+   * Transform the credential or presentation into a plain JSON-LD document. Undefined properties are removed, as
+   * they can't be processed by JSON-LD.
+   */
+  private toJsonLd(document: W3cCredential | W3cPresentation): JsonLdDocument {
+    return JsonEncoder.fromString(JsonEncoder.toString(JsonTransformer.toJSON(document)))
+  }
+
+  private documentLoader: DocumentLoader = extendContextLoader(async (url) => {
+    if (url.startsWith('did:')) {
+      return this.loadDidDocument(url)
+    }
+
+    const staticContext = staticContexts.get(url)
+    if (staticContext) {
+      return { contextUrl: null, documentUrl: url, document: staticContext }
+    }
+
+    return this.loadRemoteDocument(url)
+  })
+
+  /**
+   * Resolve a DID url. If the url contains a fragment, the verification method is returned instead of the complete
+   * DID document.
+   */
+  private async loadDidDocument(didUrl: string): Promise<DocumentLoaderResult> {
+    const didDocument = await this.didResolver.resolveDidDocument(didUrl)
+    const didDocumentJson = JsonTransformer.toJSON(didDocument)
+
+    // jsonld-signatures can skip framing DID documents that start with the DID v1 context. The legacy
+    // context url used by our DID documents refers to the same vocabulary
+    const contexts = Array.isArray(didDocumentJson['@context'])
+      ? didDocumentJson['@context']
+      : [didDocumentJson['@context']]
+    const context = [
+      DID_V1_CONTEXT_URL,
+      ...contexts.filter((context) => context !== DID_V1_CONTEXT_URL && context !== LEGACY_DID_V1_CONTEXT_URL),
+    ]
+
+    if (!didUrl.includes('#')) {
+      return {
+        contextUrl: null,
+        documentUrl: didUrl,
+        document: { ...didDocumentJson, '@context': context },
+      }
+    }
+
+    let verificationMethod
+    try {
+      verificationMethod = didDocument.dereferenceKey(didUrl)
+    } catch (error) {
+      throw new AriesFrameworkError(`Unable to dereference verification method ${didUrl}`, { cause: error })
+    }
+
+    return {
+      contextUrl: null,
+      documentUrl: didUrl,
+      document: { '@context': context, ...JsonTransformer.toJSON(verificationMethod) },
+    }
+  }
+
+  private async loadRemoteDocument(url: string): Promise<DocumentLoaderResult> {
+    const cachedDocument = this.remoteDocumentCache.get(url)
+    if (cachedDocument) {
+      return { contextUrl: null, documentUrl: url, document: cachedDocument }
+    }
+
+    this.logger.debug(`Loading remote JSON-LD document from ${url}`)
+    const response = await this.agentConfig.agentDependencies.fetch(url, {
+      headers: { Accept: 'application/ld+json, application/json' },
+    })
+
+    if (!response.ok) {
+      throw new AriesFrameworkError(`Unable to load JSON-LD document from ${url}. Response status ${response.status}`)
+    }
+
+    const document = await response.json()
+    this.remoteDocumentCache.set(url, document)
+
+    return { contextUrl: null, documentUrl: url, document }
+  }
+}
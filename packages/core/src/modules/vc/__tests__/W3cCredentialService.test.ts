@@ -0,0 +1,306 @@
+import type { CacheRepository } from '../../../cache'
+import type { Wallet } from '../../../wallet/Wallet'
+import type { W3cCredentialOptions } from '../models'
+
+import { generateKeyPairFromSeed, sign, verify } from '@stablelib/ed25519'
+
+import { getAgentConfig } from '../../../../tests/helpers'
+import { EventEmitter } from '../../../agent/EventEmitter'
+import { KeyType } from '../../../crypto'
+import { JsonTransformer } from '../../../utils/JsonTransformer'
+import { TypedArrayEncoder } from '../../../utils/TypedArrayEncoder'
+import { Buffer } from '../../../utils/buffer'
+import { Key } from '../../dids/domain/Key'
+import { DidKey } from '../../dids/methods/key/DidKey'
+import { KeyDidResolver } from '../../dids/methods/key/KeyDidResolver'
+import { DidResolutionCacheService } from '../../dids/services/DidResolutionCacheService'
+import { DidResolverService } from '../../dids/services/DidResolverService'
+import { W3cCredentialService } from '../W3cCredentialService'
+import {
+  CREDENTIALS_CONTEXT_V1_URL,
+  ED25519_2020_CONTEXT_URL,
+  PRESENTATION_SUBMISSION_CONTEXT_V1_URL,
+} from '../constants'
+import { W3cCredential, W3cPresentation, W3cVerifiableCredential, W3cVerifiablePresentation } from '../models'
+import { W3cCredentialRecord, W3cCredentialRepository } from '../repository'
+
+jest.mock('../repository/W3cCredentialRepository')
+
+const W3cCredentialRepositoryMock = W3cCredentialRepository as jest.Mock<W3cCredentialRepository>
+
+const keyPair = generateKeyPairFromSeed(TypedArrayEncoder.fromString('00000000000000000000000000Issuer'))
+const issuerVerkey = TypedArrayEncoder.toBase58(keyPair.publicKey)
+const issuerDidKey = new DidKey(Key.fromPublicKeyBase58(issuerVerkey, KeyType.Ed25519))
+const verificationMethod = `${issuerDidKey.did}#${issuerDidKey.key.fingerprint}`
+
+// Wallet that signs and verifies using an in memory Ed25519 key pair
+const wallet = {
+  sign: jest.fn(async (data: Buffer) => Buffer.from(sign(keyPair.secretKey, data))),
+  verify: jest.fn(async (verkey: string, data: Buffer, signature: Buffer) =>
+    verify(TypedArrayEncoder.fromBase58(verkey), data, signature)
+  ),
+} as unknown as Wallet
+
+const credentialOptions: W3cCredentialOptions = {
+  context: [CREDENTIALS_CONTEXT_V1_URL, { name: 'https://schema.org/name' }],
+  type: ['VerifiableCredential'],
+  issuer: issuerDidKey.did,
+  issuanceDate: '2022-01-01T00:00:00Z',
+  credentialSubject: {
+    id: 'did:example:b34ca6cd37bbf23',
+    name: 'Alice',
+  },
+}
+
+describe('W3cCredentialService', () => {
+  let w3cCredentialRepository: W3cCredentialRepository
+  let w3cCredentialService: W3cCredentialService
+
+  beforeEach(() => {
+    const agentConfig = getAgentConfig('W3cCredentialServiceTest')
+    const didResolver = new DidResolverService(
+      agentConfig,
+      [new KeyDidResolver()],
+      new DidResolutionCacheService(agentConfig, {} as CacheRepository, new EventEmitter(agentConfig))
+    )
+
+    w3cCredentialRepository = new W3cCredentialRepositoryMock()
+    w3cCredentialService = new W3cCredentialService(wallet, w3cCredentialRepository, didResolver, agentConfig)
+  })
+
+  describe('signCredential', () => {
+    it('signs a credential using Ed25519Signature2018', async () => {
+      const verifiableCredential = await w3cCredentialService.signCredential({
+        credential: new W3cCredential(credentialOptions),
+        proofType: 'Ed25519Signature2018',
+        verificationMethod,
+      })
+
+      expect(verifiableCredential).toBeInstanceOf(W3cVerifiableCredential)
+      expect(wallet.sign).toHaveBeenCalledWith(expect.any(Buffer), issuerVerkey)
+      expect(verifiableCredential.proof).toMatchObject({
+        type: 'Ed25519Signature2018',
+        proofPurpose: 'assertionMethod',
+        verificationMethod,
+        jws: expect.stringMatching(/^eyJ[\w-]+\.\.[\w-]+$/),
+      })
+    })
+
+    it('signs a credential using Ed25519Signature2020 and adds the suite context', async () => {
+      const verifiableCredential = await w3cCredentialService.signCredential({
+        credential: new W3cCredential(credentialOptions),
+        proofType: 'Ed25519Signature2020',
+        verificationMethod,
+      })
+
+      expect(verifiableCredential.context).toContain(ED25519_2020_CONTEXT_URL)
+      expect(verifiableCredential.proof).toMatchObject({
+        type: 'Ed25519Signature2020',
+        proofPurpose: 'assertionMethod',
+        verificationMethod,
+        proofValue: expect.stringMatching(/^z/),
+      })
+    })
+
+    it('throws when the verification method cannot be dereferenced', async () => {
+      await expect(
+        w3cCredentialService.signCredential({
+          credential: new W3cCredential(credentialOptions),
+          proofType: 'Ed25519Signature2018',
+          verificationMethod: `${issuerDidKey.did}#unknown`,
+        })
+      ).rejects.toThrow()
+    })
+  })
+
+  describe('verifyCredential', () => {
+    it.each(['Ed25519Signature2018', 'Ed25519Signature2020'] as const)(
+      'verifies a credential signed using %s',
+      async (proofType) => {
+        const verifiableCredential = await w3cCredentialService.signCredential({
+          credential: new W3cCredential(credentialOptions),
+          proofType,
+          verificationMethod,
+        })
+
+        // Make sure the credential still verifies after transforming it to and from JSON
+        const credential = JsonTransformer.fromJSON(
+          JsonTransformer.toJSON(verifiableCredential),
+          W3cVerifiableCredential
+        )
+
+        const result = await w3cCredentialService.verifyCredential({ credential })
+        expect(result).toEqual({ verified: true, error: undefined })
+      }
+    )
+
+    it('does not verify a credential that has been tampered with', async () => {
+      const verifiableCredential = await w3cCredentialService.signCredential({
+        credential: new W3cCredential(credentialOptions),
+        proofType: 'Ed25519Signature2018',
+        verificationMethod,
+      })
+
+      verifiableCredential.credentialSubject = { ...verifiableCredential.credentialSubject, name: 'Bob' }
+
+      const result = await w3cCredentialService.verifyCredential({ credential: verifiableCredential })
+      expect(result.verified).toBe(false)
+    })
+
+    it('does not verify a credential signed by a key not controlled by the issuer', async () => {
+      const verifiableCredential = await w3cCredentialService.signCredential({
+        credential: new W3cCredential(credentialOptions),
+        proofType: 'Ed25519Signature2018',
+        verificationMethod,
+      })
+
+      verifiableCredential.issuer = 'did:example:another-issuer'
+
+      const result = await w3cCredentialService.verifyCredential({ credential: verifiableCredential })
+      expect(result.verified).toBe(false)
+      expect(result.error?.message).toEqual(
+        `Verification method ${verificationMethod} is not controlled by issuer did:example:another-issuer`
+      )
+    })
+  })
+
+  describe('signPresentation', () => {
+    it('signs a presentation with proof purpose authentication', async () => {
+      const verifiableCredential = await w3cCredentialService.signCredential({
+        credential: new W3cCredential(credentialOptions),
+        proofType: 'Ed25519Signature2018',
+        verificationMethod,
+      })
+
+      const verifiablePresentation = await w3cCredentialService.signPresentation({
+        presentation: new W3cPresentation({
+          context: [CREDENTIALS_CONTEXT_V1_URL],
+          type: ['VerifiablePresentation'],
+          holder: issuerDidKey.did,
+          verifiableCredential: [verifiableCredential],
+        }),
+        proofType: 'Ed25519Signature2018',
+        verificationMethod,
+        challenge: 'e950bfe5-d7ec-4303-ad61-6983fb976ac9',
+        domain: 'example.com',
+      })
+
+      expect(verifiablePresentation).toBeInstanceOf(W3cVerifiablePresentation)
+      expect(verifiablePresentation.verifiableCredentials).toEqual([verifiableCredential])
+      expect(verifiablePresentation.proofs).toEqual([
+        expect.objectContaining({
+          type: 'Ed25519Signature2018',
+          proofPurpose: 'authentication',
+          verificationMethod,
+          challenge: 'e950bfe5-d7ec-4303-ad61-6983fb976ac9',
+          domain: 'example.com',
+        }),
+      ])
+    })
+  })
+
+  describe('verifyPresentation', () => {
+    const challenge = 'e950bfe5-d7ec-4303-ad61-6983fb976ac9'
+
+    const signPresentation = async () => {
+      const verifiableCredential = await w3cCredentialService.signCredential({
+        credential: new W3cCredential(credentialOptions),
+        proofType: 'Ed25519Signature2018',
+        verificationMethod,
+      })
+
+      // Include a presentation submission, which is defined in a separate context
+      const presentation = JsonTransformer.fromJSON(
+        {
+          '@context': [CREDENTIALS_CONTEXT_V1_URL, PRESENTATION_SUBMISSION_CONTEXT_V1_URL],
+          type: ['VerifiablePresentation', 'PresentationSubmission'],
+          holder: issuerDidKey.did,
+          verifiableCredential: [JsonTransformer.toJSON(verifiableCredential)],
+          presentation_submission: {
+            id: 'submission-id',
+            definition_id: 'definition-id',
+            descriptor_map: [{ id: 'descriptor-id', format: 'ldp_vc', path: '$.verifiableCredential[0]' }],
+          },
+        },
+        W3cPresentation
+      )
+
+      return w3cCredentialService.signPresentation({
+        presentation,
+        proofType: 'Ed25519Signature2020',
+        verificationMethod,
+        challenge,
+      })
+    }
+
+    it('verifies a presentation and the credentials in the presentation', async () => {
+      const verifiablePresentation = await signPresentation()
+
+      // Make sure the presentation still verifies after transforming it to and from JSON
+      const presentation = JsonTransformer.fromJSON(
+        JsonTransformer.toJSON(verifiablePresentation),
+        W3cVerifiablePresentation
+      )
+
+      const result = await w3cCredentialService.verifyPresentation({ presentation, challenge })
+      expect(result).toEqual({
+        verified: true,
+        presentationResult: { verified: true, error: undefined },
+        credentialResults: [{ verified: true, error: undefined }],
+        error: undefined,
+      })
+    })
+
+    it('does not verify a presentation with a different challenge', async () => {
+      const presentation = await signPresentation()
+
+      const result = await w3cCredentialService.verifyPresentation({ presentation, challenge: 'another-challenge' })
+      expect(result.verified).toBe(false)
+      expect(result.presentationResult.verified).toBe(false)
+    })
+
+    it('does not verify a presentation containing a credential that has been tampered with', async () => {
+      const presentation = await signPresentation()
+      const [credential] = presentation.verifiableCredentials
+      credential.credentialSubject = { ...credential.credentialSubject, name: 'Bob' }
+
+      const result = await w3cCredentialService.verifyPresentation({ presentation, challenge })
+      expect(result.verified).toBe(false)
+      expect(result.credentialResults[0].verified).toBe(false)
+    })
+
+    it('does not verify a presentation signed by a key not controlled by the holder', async () => {
+      const presentation = await signPresentation()
+      presentation.holder = 'did:example:another-holder'
+
+      const result = await w3cCredentialService.verifyPresentation({ presentation, challenge })
+      expect(result.verified).toBe(false)
+      expect(result.error?.message).toEqual(
+        `Verification method ${verificationMethod} is not controlled by holder did:example:another-holder`
+      )
+    })
+  })
+
+  describe('storeCredential', () => {
+    it('stores the credential in a w3c credential record', async () => {
+      const credential = await w3cCredentialService.signCredential({
+        credential: new W3cCredential(credentialOptions),
+        proofType: 'Ed25519Signature2018',
+        verificationMethod,
+      })
+
+      const w3cCredentialRecord = await w3cCredentialService.storeCredential({ credential })
+
+      expect(w3cCredentialRepository.save).toHaveBeenCalledWith(w3cCredentialRecord)
+      expect(w3cCredentialRecord).toBeInstanceOf(W3cCredentialRecord)
+      expect(w3cCredentialRecord.getTags()).toEqual({
+        issuerId: issuerDidKey.did,
+        subjectIds: ['did:example:b34ca6cd37bbf23'],
+        contexts: [CREDENTIALS_CONTEXT_V1_URL],
+        types: ['VerifiableCredential'],
+        proofTypes: ['Ed25519Signature2018'],
+        givenId: undefined,
+      })
+    })
+  })
+})
@@ -0,0 +1,11 @@
+export const CREDENTIALS_CONTEXT_V1_URL = 'https://www.w3.org/2018/credentials/v1'
+export const DID_V1_CONTEXT_URL = 'https://www.w3.org/ns/did/v1'
+export const LEGACY_DID_V1_CONTEXT_URL = 'https://w3id.org/did/v1'
+export const SECURITY_CONTEXT_V2_URL = 'https://w3id.org/security/v2'
+export const ED25519_2018_CONTEXT_URL = 'https://w3id.org/security/suites/ed25519-2018/v1'
+export const ED25519_2020_CONTEXT_URL = 'https://w3id.org/security/suites/ed25519-2020/v1'
+export const PRESENTATION_SUBMISSION_CONTEXT_V1_URL = 'https://identity.foundation/presentation-exchange/submission/v1'
+
+export const VERIFIABLE_CREDENTIAL_TYPE = 'VerifiableCredential'
+export const VERIFIABLE_PRESENTATION_TYPE = 'VerifiablePresentation'
+export const PRESENTATION_SUBMISSION_TYPE = 'PresentationSubmission'
@@ -0,0 +1,5 @@
+export * from './W3cCredentialService'
+export * from './repository'
+export * from './models'
+export * from './module'
+export * from './constants'
@@ -0,0 +1,59 @@
+import type { JsonLdDocument } from './jsonld-signatures'
+
+// No type definitions available for these libraries
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+//@ts-ignore
+import { contexts as credentialsContexts } from 'credentials-context'
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+//@ts-ignore
+import { contexts as didContexts } from 'did-context'
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+//@ts-ignore
+import { contexts as ed25519Signature2018Contexts } from 'ed25519-signature-2018-context'
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+//@ts-ignore
+import { contexts as ed25519Signature2020Contexts } from 'ed25519-signature-2020-context'
+
+import { PRESENTATION_SUBMISSION_CONTEXT_V1_URL } from '../constants'
+
+// Context for presentations with a DIF presentation submission
+// https://identity.foundation/presentation-exchange/#embed-targets
+const presentationSubmissionContexts = new Map<string, JsonLdDocument>([
+  [
+    PRESENTATION_SUBMISSION_CONTEXT_V1_URL,
+    {
+      '@context': {
+        '@version': 1.1,
+        PresentationSubmission: {
+          '@id': 'https://identity.foundation/presentation-exchange/#presentation-submission',
+          '@context': {
+            '@version': 1.1,
+            presentation_submission: {
+              '@id': 'https://identity.foundation/presentation-exchange/#presentation-submission',
+              '@type': '@json',
+            },
+          },
+        },
+      },
+    },
+  ],
+])
+
+const contextMaps: Array<Map<string, JsonLdDocument>> = [
+  credentialsContexts,
+  didContexts,
+  ed25519Signature2018Contexts,
+  ed25519Signature2020Contexts,
+  presentationSubmissionContexts,
+]
+
+/**
+ * JSON-LD contexts that are bundled with the framework and can be loaded without network access.
+ */
+export const staticContexts = new Map<string, JsonLdDocument>()
+
+for (const contextMap of contextMaps) {
+  for (const [url, context] of contextMap) {
+    staticContexts.set(url, context)
+  }
+}
@@ -0,0 +1,104 @@
+// No type definitions available for this library
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+//@ts-ignore
+import jsigs from '@digitalcredentials/jsonld-signatures'
+
+export type JsonLdDocument = Record<string, unknown>
+
+export interface DocumentLoaderResult {
+  contextUrl?: string | null
+  documentUrl: string
+  document: JsonLdDocument
+}
+
+export type DocumentLoader = (url: string) => Promise<DocumentLoaderResult>
+
+export interface Proof extends Record<string, unknown> {
+  type: string
+  verificationMethod?: string | { id: string }
+}
+
+export interface Signer {
+  id: string
+  algorithm: string
+  sign(options: { data: Uint8Array }): Promise<Uint8Array>
+}
+
+export interface LinkedDataSignatureOptions {
+  type: string
+  contextUrl: string
+  proof?: Record<string, unknown>
+  date?: string | Date
+  signer?: Signer
+}
+
+export interface SignOptions {
+  verifyData: Uint8Array
+  document: JsonLdDocument
+  proof: Proof
+  documentLoader: DocumentLoader
+}
+
+export interface VerifySignatureOptions {
+  verifyData: Uint8Array
+  verificationMethod: JsonLdDocument
+  document: JsonLdDocument
+  proof: Proof
+  documentLoader: DocumentLoader
+}
+
+export interface LinkedDataSignatureInstance {
+  type: string
+  contextUrl: string
+  verificationMethod?: string
+  signer?: Signer
+  ensureSuiteContext(options: { document: JsonLdDocument; addSuiteContext: boolean }): void
+  getVerificationMethod(options: { proof: Proof; documentLoader: DocumentLoader }): Promise<JsonLdDocument>
+  sign(options: SignOptions): Promise<Proof>
+  verifySignature(options: VerifySignatureOptions): Promise<boolean>
+}
+
+export interface ProofPurpose {
+  term: string
+}
+
+interface LinkedDataSignatureConstructor {
+  new (options: LinkedDataSignatureOptions): LinkedDataSignatureInstance
+}
+
+interface AssertionProofPurposeConstructor {
+  new (options?: { controller?: JsonLdDocument; date?: string | Date }): ProofPurpose
+}
+
+interface AuthenticationProofPurposeConstructor {
+  new (options: { challenge: string; domain?: string; controller?: JsonLdDocument; date?: string | Date }): ProofPurpose
+}
+
+export interface JsonLdSignOptions {
+  suite: LinkedDataSignatureInstance
+  purpose: ProofPurpose
+  documentLoader: DocumentLoader
+  addSuiteContext?: boolean
+}
+
+export interface JsonLdVerifyOptions {
+  suite: LinkedDataSignatureInstance | LinkedDataSignatureInstance[]
+  purpose: ProofPurpose
+  documentLoader: DocumentLoader
+}
+
+export interface JsonLdVerifyResult {
+  verified: boolean
+  error?: Error & { errors?: Error[] }
+  results?: Array<{ proof: Proof; verified: boolean; error?: Error }>
+}
+
+export const LinkedDataSignature: LinkedDataSignatureConstructor = jsigs.suites.LinkedDataSignature
+export const AssertionProofPurpose: AssertionProofPurposeConstructor = jsigs.purposes.AssertionProofPurpose
+export const AuthenticationProofPurpose: AuthenticationProofPurposeConstructor =
+  jsigs.purposes.AuthenticationProofPurpose
+
+export const sign: (document: JsonLdDocument, options: JsonLdSignOptions) => Promise<JsonLdDocument> = jsigs.sign
+export const verify: (document: JsonLdDocument, options: JsonLdVerifyOptions) => Promise<JsonLdVerifyResult> =
+  jsigs.verify
+export const extendContextLoader: (documentLoader: DocumentLoader) => DocumentLoader = jsigs.extendContextLoader
@@ -0,0 +1,57 @@
+import type { W3cCredential } from './credential/W3cCredential'
+import type { W3cVerifiableCredential } from './credential/W3cVerifiableCredential'
+import type { W3cPresentation } from './presentation/W3cPresentation'
+import type { W3cVerifiablePresentation } from './presentation/W3cVerifiablePresentation'
+
+export type W3cProofType = 'Ed25519Signature2018' | 'Ed25519Signature2020'
+export type W3cProofPurpose = 'assertionMethod' | 'authentication'
+
+export interface SignCredentialOptions {
+  credential: W3cCredential
+  proofType: W3cProofType
+  verificationMethod: string
+  proofPurpose?: W3cProofPurpose
+  created?: string
+  domain?: string
+  challenge?: string
+}
+
+export interface VerifyCredentialOptions {
+  credential: W3cVerifiableCredential
+  proofPurpose?: W3cProofPurpose
+  domain?: string
+  challenge?: string
+}
+
+export interface SignPresentationOptions {
+  presentation: W3cPresentation
+  proofType: W3cProofType
+  verificationMethod: string
+  proofPurpose?: W3cProofPurpose
+  created?: string
+  domain?: string
+  challenge: string
+}
+
+export interface VerifyPresentationOptions {
+  presentation: W3cVerifiablePresentation
+  proofPurpose?: W3cProofPurpose
+  domain?: string
+  challenge: string
+}
+
+export interface StoreCredentialOptions {
+  credential: W3cVerifiableCredential
+}
+
+export interface W3cVerifyCredentialResult {
+  verified: boolean
+  error?: Error
+}
+
+export interface W3cVerifyPresentationResult {
+  verified: boolean
+  presentationResult: W3cVerifyCredentialResult
+  credentialResults: W3cVerifyCredentialResult[]
+  error?: Error
+}
@@ -0,0 +1,186 @@
+import type { ValidationOptions } from 'class-validator'
+
+import { Expose } from 'class-transformer'
+import { buildMessage, IsOptional, IsRFC3339, IsString, isString, ValidateBy } from 'class-validator'
+
+import { CREDENTIALS_CONTEXT_V1_URL, VERIFIABLE_CREDENTIAL_TYPE } from '../../constants'
+
+export type W3cCredentialContext = string | Record<string, unknown>
+
+export interface W3cIssuer {
+  id: string
+  [key: string]: unknown
+}
+
+export interface W3cCredentialSubject {
+  id?: string
+  [key: string]: unknown
+}
+
+export interface W3cCredentialOptions {
+  context: W3cCredentialContext[]
+  id?: string
+  type: string[]
+  issuer: string | W3cIssuer
+  issuanceDate: string
+  expirationDate?: string
+  credentialSubject: W3cCredentialSubject | W3cCredentialSubject[]
+}
+
+/**
+ * W3C Verifiable Credential without proof.
+ *
+ * Properties that are not defined on this class (e.g. `credentialStatus` or `evidence`) are preserved as is
+ * when transforming from and to JSON.
+ *
+ * @see https://www.w3.org/TR/vc-data-model/
+ */
+export class W3cCredential {
+  public constructor(options: W3cCredentialOptions) {
+    if (options) {
+      this.context = options.context
+      this.id = options.id
+      this.type = options.type
+      this.issuer = options.issuer
+      this.issuanceDate = options.issuanceDate
+      this.expirationDate = options.expirationDate
+      this.credentialSubject = options.credentialSubject
+    }
+  }
+
+  @Expose({ name: '@context' })
+  @IsCredentialJsonLdContext()
+  public context!: W3cCredentialContext[]
+
+  @IsString()
+  @IsOptional()
+  public id?: string
+
+  @IsCredentialType()
+  public type!: string[]
+
+  @IsW3cIssuer()
+  public issuer!: string | W3cIssuer
+
+  @IsRFC3339()
+  public issuanceDate!: string
+
+  @IsRFC3339()
+  @IsOptional()
+  public expirationDate?: string
+
+  @IsW3cCredentialSubject()
+  public credentialSubject!: W3cCredentialSubject | W3cCredentialSubject[]
+
+  public get issuerId(): string {
+    return typeof this.issuer === 'string' ? this.issuer : this.issuer.id
+  }
+
+  public get contexts(): string[] {
+    return this.context.filter((context): context is string => isString(context))
+  }
+
+  public get credentialSubjectIds(): string[] {
+    const credentialSubjects = Array.isArray(this.credentialSubject) ? this.credentialSubject : [this.credentialSubject]
+
+    return credentialSubjects
+      .map((credentialSubject) => credentialSubject.id)
+      .filter((id): id is string => id !== undefined)
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Checks if the value is a JSON-LD context array that starts with the W3C credentials context
+ */
+export function IsCredentialJsonLdContext(validationOptions?: ValidationOptions): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'IsCredentialJsonLdContext',
+      validator: {
+        validate: (value): boolean =>
+          Array.isArray(value) &&
+          value[0] === CREDENTIALS_CONTEXT_V1_URL &&
+          value.every((context) => isString(context) || isObject(context)),
+        defaultMessage: buildMessage(
+          (eachPrefix) =>
+            eachPrefix +
+            `$property must be an array of strings or objects, starting with ${CREDENTIALS_CONTEXT_V1_URL}`,
+          validationOptions
+        ),
+      },
+    },
+    validationOptions
+  )
+}
+
+/**
+ * Checks if the value is a credential type array that includes the VerifiableCredential type
+ */
+function IsCredentialType(validationOptions?: ValidationOptions): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'IsCredentialType',
+      validator: {
+        validate: (value): boolean =>
+          Array.isArray(value) && value.every((type) => isString(type)) && value.includes(VERIFIABLE_CREDENTIAL_TYPE),
+        defaultMessage: buildMessage(
+          (eachPrefix) => eachPrefix + `$property must be an array of strings including ${VERIFIABLE_CREDENTIAL_TYPE}`,
+          validationOptions
+        ),
+      },
+    },
+    validationOptions
+  )
+}
+
+/**
+ * Checks if the value is an issuer url or an issuer object with an id
+ */
+function IsW3cIssuer(validationOptions?: ValidationOptions): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'IsW3cIssuer',
+      validator: {
+        validate: (value): boolean => isString(value) || (isObject(value) && isString(value.id)),
+        defaultMessage: buildMessage(
+          (eachPrefix) => eachPrefix + '$property must be a string or an object with an id property',
+          validationOptions
+        ),
+      },
+    },
+    validationOptions
+  )
+}
+
+/**
+ * Checks if the value is a credential subject object or a non-empty array of credential subject objects
+ */
+function IsW3cCredentialSubject(validationOptions?: ValidationOptions): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'IsW3cCredentialSubject',
+      validator: {
+        validate: (value): boolean => {
+          const credentialSubjects = Array.isArray(value) ? value : [value]
+
+          return (
+            credentialSubjects.length > 0 &&
+            credentialSubjects.every(
+              (credentialSubject) =>
+                isObject(credentialSubject) && (credentialSubject.id === undefined || isString(credentialSubject.id))
+            )
+          )
+        },
+        defaultMessage: buildMessage(
+          (eachPrefix) => eachPrefix + '$property must be an object or a non-empty array of objects',
+          validationOptions
+        ),
+      },
+    },
+    validationOptions
+  )
+}
@@ -0,0 +1,41 @@
+import type { LinkedDataProofOptions } from '../proof/LinkedDataProof'
+import type { W3cCredentialOptions } from './W3cCredential'
+
+import { Type } from 'class-transformer'
+import { IsDefined, ValidateNested } from 'class-validator'
+
+import { LinkedDataProof } from '../proof/LinkedDataProof'
+
+import { W3cCredential } from './W3cCredential'
+
+export interface W3cVerifiableCredentialOptions extends W3cCredentialOptions {
+  proof: LinkedDataProofOptions | LinkedDataProofOptions[]
+}
+
+/**
+ * W3C Verifiable Credential secured with one or more linked data proofs.
+ */
+export class W3cVerifiableCredential extends W3cCredential {
+  public constructor(options: W3cVerifiableCredentialOptions) {
+    super(options)
+
+    if (options) {
+      this.proof = Array.isArray(options.proof)
+        ? options.proof.map((proof) => new LinkedDataProof(proof))
+        : new LinkedDataProof(options.proof)
+    }
+  }
+
+  @Type(() => LinkedDataProof)
+  @ValidateNested()
+  @IsDefined()
+  public proof!: LinkedDataProof | LinkedDataProof[]
+
+  public get proofs(): LinkedDataProof[] {
+    return Array.isArray(this.proof) ? this.proof : [this.proof]
+  }
+
+  public get proofTypes(): string[] {
+    return this.proofs.map((proof) => proof.type)
+  }
+}
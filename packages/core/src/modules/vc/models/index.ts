@@ -0,0 +1,6 @@
+export * from './credential/W3cCredential'
+export * from './credential/W3cVerifiableCredential'
+export * from './presentation/W3cPresentation'
+export * from './presentation/W3cVerifiablePresentation'
+export * from './proof/LinkedDataProof'
+export * from './W3cCredentialServiceOptions'
@@ -0,0 +1,81 @@
+import type { W3cCredentialContext } from '../credential/W3cCredential'
+import type { ValidationOptions } from 'class-validator'
+
+import { Expose, Type } from 'class-transformer'
+import { buildMessage, IsOptional, IsString, isString, ValidateBy, ValidateNested } from 'class-validator'
+
+import { VERIFIABLE_PRESENTATION_TYPE } from '../../constants'
+import { IsCredentialJsonLdContext } from '../credential/W3cCredential'
+import { W3cVerifiableCredential } from '../credential/W3cVerifiableCredential'
+
+export interface W3cPresentationOptions {
+  context: W3cCredentialContext[]
+  id?: string
+  type: string[]
+  holder?: string
+  verifiableCredential: W3cVerifiableCredential | W3cVerifiableCredential[]
+}
+
+/**
+ * W3C Verifiable Presentation without proof.
+ *
+ * Properties that are not defined on this class (e.g. `presentation_submission`) are preserved as is
+ * when transforming from and to JSON.
+ *
+ * @see https://www.w3.org/TR/vc-data-model/#presentations-0
+ */
+export class W3cPresentation {
+  public constructor(options: W3cPresentationOptions) {
+    if (options) {
+      this.context = options.context
+      this.id = options.id
+      this.type = options.type
+      this.holder = options.holder
+      this.verifiableCredential = options.verifiableCredential
+    }
+  }
+
+  @Expose({ name: '@context' })
+  @IsCredentialJsonLdContext()
+  public context!: W3cCredentialContext[]
+
+  @IsString()
+  @IsOptional()
+  public id?: string
+
+  @IsPresentationType()
+  public type!: string[]
+
+  @IsString()
+  @IsOptional()
+  public holder?: string
+
+  @Type(() => W3cVerifiableCredential)
+  @ValidateNested({ each: true })
+  public verifiableCredential!: W3cVerifiableCredential | W3cVerifiableCredential[]
+
+  public get verifiableCredentials(): W3cVerifiableCredential[] {
+    return Array.isArray(this.verifiableCredential) ? this.verifiableCredential : [this.verifiableCredential]
+  }
+}
+
+/**
+ * Checks if the value is a presentation type array that includes the VerifiablePresentation type
+ */
+function IsPresentationType(validationOptions?: ValidationOptions): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'IsPresentationType',
+      validator: {
+        validate: (value): boolean =>
+          Array.isArray(value) && value.every((type) => isString(type)) && value.includes(VERIFIABLE_PRESENTATION_TYPE),
+        defaultMessage: buildMessage(
+          (eachPrefix) =>
+            eachPrefix + `$property must be an array of strings including ${VERIFIABLE_PRESENTATION_TYPE}`,
+          validationOptions
+        ),
+      },
+    },
+    validationOptions
+  )
+}
@@ -0,0 +1,37 @@
+import type { LinkedDataProofOptions } from '../proof/LinkedDataProof'
+import type { W3cPresentationOptions } from './W3cPresentation'
+
+import { Type } from 'class-transformer'
+import { IsDefined, ValidateNested } from 'class-validator'
+
+import { LinkedDataProof } from '../proof/LinkedDataProof'
+
+import { W3cPresentation } from './W3cPresentation'
+
+export interface W3cVerifiablePresentationOptions extends W3cPresentationOptions {
+  proof: LinkedDataProofOptions | LinkedDataProofOptions[]
+}
+
+/**
+ * W3C Verifiable Presentation secured with one or more linked data proofs.
+ */
+export class W3cVerifiablePresentation extends W3cPresentation {
+  public constructor(options: W3cVerifiablePresentationOptions) {
+    super(options)
+
+    if (options) {
+      this.proof = Array.isArray(options.proof)
+        ? options.proof.map((proof) => new LinkedDataProof(proof))
+        : new LinkedDataProof(options.proof)
+    }
+  }
+
+  @Type(() => LinkedDataProof)
+  @ValidateNested()
+  @IsDefined()
+  public proof!: LinkedDataProof | LinkedDataProof[]
+
+  public get proofs(): LinkedDataProof[] {
+    return Array.isArray(this.proof) ? this.proof : [this.proof]
+  }
+}
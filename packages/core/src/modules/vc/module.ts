@@ -0,0 +1,73 @@
+import type { DependencyManager } from '../../plugins'
+import type { Query } from '../../storage/StorageService'
+import type {
+  SignCredentialOptions,
+  SignPresentationOptions,
+  StoreCredentialOptions,
+  VerifyCredentialOptions,
+  VerifyPresentationOptions,
+} from './models/W3cCredentialServiceOptions'
+
+import { injectable, module } from '../../plugins'
+
+import { W3cCredentialService } from './W3cCredentialService'
+import { W3cCredentialRecord } from './repository/W3cCredentialRecord'
+import { W3cCredentialRepository } from './repository/W3cCredentialRepository'
+
+@module()
+@injectable()
+export class W3cVcModule {
+  private w3cCredentialService: W3cCredentialService
+
+  public constructor(w3cCredentialService: W3cCredentialService) {
+    this.w3cCredentialService = w3cCredentialService
+  }
+
+  public async signCredential(options: SignCredentialOptions) {
+    return this.w3cCredentialService.signCredential(options)
+  }
+
+  public async verifyCredential(options: VerifyCredentialOptions) {
+    return this.w3cCredentialService.verifyCredential(options)
+  }
+
+  public async signPresentation(options: SignPresentationOptions) {
+    return this.w3cCredentialService.signPresentation(options)
+  }
+
+  public async verifyPresentation(options: VerifyPresentationOptions) {
+    return this.w3cCredentialService.verifyPresentation(options)
+  }
+
+  public async storeCredential(options: StoreCredentialOptions) {
+    return this.w3cCredentialService.storeCredential(options)
+  }
+
+  public async removeCredentialRecord(id: string) {
+    return this.w3cCredentialService.removeCredentialRecord(id)
+  }
+
+  public async getAllCredentialRecords() {
+    return this.w3cCredentialService.getAllCredentialRecords()
+  }
+
+  public async getCredentialRecordById(id: string) {
+    return this.w3cCredentialService.getCredentialRecordById(id)
+  }
+
+  public async findCredentialRecordsByQuery(query: Query<W3cCredentialRecord>) {
+    return this.w3cCredentialService.findCredentialRecordsByQuery(query)
+  }
+
+  /**
+   * Registers the dependencies of the w3c credentials module on the dependency manager.
+   */
+  public static register(dependencyManager: DependencyManager) {
+    // Api
+    dependencyManager.registerContextScoped(W3cVcModule)
+
+    dependencyManager.registerSingleton(W3cCredentialService)
+    dependencyManager.registerSingleton(W3cCredentialRepository)
+    dependencyManager.registerRecordClasses(W3cCredentialRecord)
+  }
+}
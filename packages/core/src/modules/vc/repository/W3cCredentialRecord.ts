@@ -0,0 +1,58 @@
+import type { TagsBase } from '../../../storage/BaseRecord'
+
+import { Type } from 'class-transformer'
+import { ValidateNested } from 'class-validator'
+
+import { BaseRecord } from '../../../storage/BaseRecord'
+import { uuid } from '../../../utils/uuid'
+import { W3cVerifiableCredential } from '../models/credential/W3cVerifiableCredential'
+
+export interface W3cCredentialRecordProps {
+  id?: string
+  createdAt?: Date
+  credential: W3cVerifiableCredential
+  tags?: CustomW3cCredentialTags
+}
+
+export type CustomW3cCredentialTags = TagsBase
+
+export type DefaultW3cCredentialTags = {
+  issuerId: string
+  subjectIds: string[]
+  contexts: string[]
+  types: string[]
+  proofTypes: string[]
+  givenId?: string
+}
+
+export class W3cCredentialRecord extends BaseRecord<DefaultW3cCredentialTags, CustomW3cCredentialTags> {
+  public static readonly type = 'W3cCredentialRecord'
+  public readonly type = W3cCredentialRecord.type
+
+  @Type(() => W3cVerifiableCredential)
+  @ValidateNested()
+  public credential!: W3cVerifiableCredential
+
+  public constructor(props: W3cCredentialRecordProps) {
+    super()
+
+    if (props) {
+      this.id = props.id ?? uuid()
+      this.createdAt = props.createdAt ?? new Date()
+      this.credential = props.credential
+      this._tags = props.tags ?? {}
+    }
+  }
+
+  public getTags() {
+    return {
+      ...this._tags,
+      issuerId: this.credential.issuerId,
+      subjectIds: this.credential.credentialSubjectIds,
+      contexts: this.credential.contexts,
+      types: this.credential.type,
+      proofTypes: this.credential.proofTypes,
+      givenId: this.credential.id,
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export * from './W3cCredentialRecord'
+export * from './W3cCredentialRepository'
@@ -0,0 +1,80 @@
+import type { Wallet } from '../../../wallet/Wallet'
+import type { JsonLdDocument, SignOptions, VerifySignatureOptions } from '../libraries/jsonld-signatures'
+import type { Ed25519SignatureSuiteOptions } from './Ed25519WalletSignature'
+
+import { AriesFrameworkError } from '../../../error'
+import { JsonEncoder } from '../../../utils/JsonEncoder'
+import { TypedArrayEncoder } from '../../../utils/TypedArrayEncoder'
+import { Buffer } from '../../../utils/buffer'
+import { CREDENTIALS_CONTEXT_V1_URL, ED25519_2018_CONTEXT_URL } from '../constants'
+
+import { Ed25519WalletSignature } from './Ed25519WalletSignature'
+
+const JWS_HEADER = { alg: 'EdDSA', b64: false, crit: ['b64'] }
+
+/**
+ * Ed25519Signature2018 linked data signature suite. The signature is encoded as a detached JWS with
+ * unencoded payload (RFC 7797).
+ *
+ * @see https://w3c-ccg.github.io/lds-ed25519-2018/
+ */
+export class Ed25519Signature2018 extends Ed25519WalletSignature {
+  public static readonly proofType = 'Ed25519Signature2018'
+
+  public constructor(wallet: Wallet, options: Ed25519SignatureSuiteOptions = {}) {
+    super(wallet, { type: Ed25519Signature2018.proofType, contextUrl: ED25519_2018_CONTEXT_URL }, options)
+  }
+
+  public ensureSuiteContext({ document, addSuiteContext }: { document: JsonLdDocument; addSuiteContext: boolean }) {
+    const context = document['@context']
+
+    // The credentials v1 context also defines the Ed25519Signature2018 terms
+    if (
+      context === CREDENTIALS_CONTEXT_V1_URL ||
+      (Array.isArray(context) && context.includes(CREDENTIALS_CONTEXT_V1_URL))
+    ) {
+      return
+    }
+
+    super.ensureSuiteContext({ document, addSuiteContext })
+  }
+
+  public async sign({ verifyData, proof }: SignOptions) {
+    const encodedHeader = JsonEncoder.toBase64URL(JWS_HEADER)
+    const signature = await this.signData(this.createSigningInput(encodedHeader, verifyData))
+
+    return {
+      ...proof,
+      jws: `${encodedHeader}..${TypedArrayEncoder.toBase64URL(Buffer.from(signature))}`,
+    }
+  }
+
+  public async verifySignature({ verifyData, verificationMethod, proof }: VerifySignatureOptions) {
+    if (typeof proof.jws !== 'string') {
+      throw new AriesFrameworkError('The proof does not include a valid "jws" property.')
+    }
+
+    const [encodedHeader, payload, encodedSignature] = proof.jws.split('.')
+    const header = JsonEncoder.fromBase64(encodedHeader)
+
+    if (
+      payload !== '' ||
+      header.alg !== JWS_HEADER.alg ||
+      header.b64 !== JWS_HEADER.b64 ||
+      !Array.isArray(header.crit) ||
+      !header.crit.includes('b64')
+    ) {
+      throw new AriesFrameworkError('Invalid JWS header or payload for Ed25519Signature2018 proof.')
+    }
+
+    return this.verifyData(
+      this.createSigningInput(encodedHeader, verifyData),
+      TypedArrayEncoder.fromBase64(encodedSignature),
+      verificationMethod
+    )
+  }
+
+  private createSigningInput(encodedHeader: string, verifyData: Uint8Array) {
+    return Buffer.concat([TypedArrayEncoder.fromString(`${encodedHeader}.`), Buffer.from(verifyData)])
+  }
+}
@@ -0,0 +1,42 @@
+import type { Wallet } from '../../../wallet/Wallet'
+import type { SignOptions, VerifySignatureOptions } from '../libraries/jsonld-signatures'
+import type { Ed25519SignatureSuiteOptions } from './Ed25519WalletSignature'
+
+import { AriesFrameworkError } from '../../../error'
+import { MultiBaseEncoder } from '../../../utils/MultiBaseEncoder'
+import { ED25519_2020_CONTEXT_URL } from '../constants'
+
+import { Ed25519WalletSignature } from './Ed25519WalletSignature'
+
+/**
+ * Ed25519Signature2020 linked data signature suite. The signature is encoded as a base58btc multibase
+ * `proofValue`.
+ *
+ * @see https://w3c-ccg.github.io/lds-ed25519-2020/
+ */
+export class Ed25519Signature2020 extends Ed25519WalletSignature {
+  public static readonly proofType = 'Ed25519Signature2020'
+
+  public constructor(wallet: Wallet, options: Ed25519SignatureSuiteOptions = {}) {
+    super(wallet, { type: Ed25519Signature2020.proofType, contextUrl: ED25519_2020_CONTEXT_URL }, options)
+  }
+
+  public async sign({ verifyData, proof }: SignOptions) {
+    const signature = await this.signData(verifyData)
+
+    return {
+      ...proof,
+      proofValue: MultiBaseEncoder.encode(signature, 'base58btc'),
+    }
+  }
+
+  public async verifySignature({ verifyData, verificationMethod, proof }: VerifySignatureOptions) {
+    if (typeof proof.proofValue !== 'string' || !proof.proofValue.startsWith('z')) {
+      throw new AriesFrameworkError('The proof does not include a valid base58btc encoded "proofValue" property.')
+    }
+
+    const { data: signature } = MultiBaseEncoder.decode(proof.proofValue)
+
+    return this.verifyData(verifyData, signature, verificationMethod)
+  }
+}
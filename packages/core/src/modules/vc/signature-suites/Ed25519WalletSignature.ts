@@ -0,0 +1,134 @@
+import type { Wallet } from '../../../wallet/Wallet'
+import type { DocumentLoader, JsonLdDocument, Proof } from '../libraries/jsonld-signatures'
+
+import { KeyType } from '../../../crypto'
+import { AriesFrameworkError } from '../../../error'
+import { Buffer } from '../../../utils/buffer'
+import { WalletError } from '../../../wallet/error'
+import { Key } from '../../dids/domain/Key'
+import { LinkedDataSignature } from '../libraries/jsonld-signatures'
+
+export interface Ed25519SignatureSuiteOptions {
+  /**
+   * The verification method that will be referenced from created proofs. Only needed for signing.
+   */
+  verificationMethod?: string
+
+  /**
+   * Base58 encoded public key of the key in the wallet that will be used for signing. Only needed for signing.
+   */
+  verkey?: string
+
+  date?: string | Date
+  proof?: Record<string, unknown>
+}
+
+const SUPPORTED_VERIFICATION_METHOD_TYPES = ['Ed25519VerificationKey2018', 'Ed25519VerificationKey2020']
+
+/**
+ * Base class for Ed25519 linked data signature suites that create and verify signatures using the agent wallet,
+ * so private keys never leave the wallet.
+ */
+export abstract class Ed25519WalletSignature extends LinkedDataSignature {
+  protected wallet: Wallet
+
+  public constructor(
+    wallet: Wallet,
+    { type, contextUrl }: { type: string; contextUrl: string },
+    { verificationMethod, verkey, date, proof }: Ed25519SignatureSuiteOptions
+  ) {
+    super({
+      type,
+      contextUrl,
+      date,
+      proof,
+      signer:
+        verificationMethod && verkey
+          ? {
+              id: verificationMethod,
+              algorithm: 'EdDSA',
+              sign: ({ data }) => wallet.sign(Buffer.from(data), verkey),
+            }
+          : undefined,
+    })
+
+    this.wallet = wallet
+  }
+
+  /**
+   * Retrieve the verification method referenced from the proof. The document loader dereferences DID urls
+   * directly to the verification method, so there is no need to frame the complete DID document.
+   */
+  public async getVerificationMethod({ proof, documentLoader }: { proof: Proof; documentLoader: DocumentLoader }) {
+    const verificationMethodId =
+      typeof proof.verificationMethod === 'object' ? proof.verificationMethod.id : proof.verificationMethod
+
+    if (!verificationMethodId) {
+      throw new AriesFrameworkError('No "verificationMethod" found in proof.')
+    }
+
+    const { document: verificationMethod } = await documentLoader(verificationMethodId)
+
+    if (verificationMethod.id !== verificationMethodId) {
+      throw new AriesFrameworkError(`Verification method ${verificationMethodId} not found.`)
+    }
+
+    if (verificationMethod.revoked !== undefined) {
+      throw new AriesFrameworkError('The verification method has been revoked.')
+    }
+
+    return verificationMethod
+  }
+
+  protected async signData(data: Uint8Array) {
+    if (!this.signer) {
+      throw new AriesFrameworkError(`A verification method and verkey are required to create a ${this.type} proof.`)
+    }
+
+    return this.signer.sign({ data })
+  }
+
+  protected async verifyData(data: Uint8Array, signature: Uint8Array, verificationMethod: JsonLdDocument) {
+    const verkey = getEd25519VerkeyFromVerificationMethod(verificationMethod)
+
+    try {
+      return await this.wallet.verify(verkey, Buffer.from(data), Buffer.from(signature))
+    } catch (error) {
+      // WalletError probably means signature verification failed
+      if (error instanceof WalletError) return false
+
+      throw error
+    }
+  }
+}
+
+/**
+ * Get the base58 encoded Ed25519 public key from a verification method (as JSON) of type
+ * Ed25519VerificationKey2018 or Ed25519VerificationKey2020.
+ */
+export function getEd25519VerkeyFromVerificationMethod(verificationMethod: JsonLdDocument) {
+  if (
+    typeof verificationMethod.type !== 'string' ||
+    !SUPPORTED_VERIFICATION_METHOD_TYPES.includes(verificationMethod.type)
+  ) {
+    throw new AriesFrameworkError(
+      `Verification method type '${verificationMethod.type}' is not supported for Ed25519 signatures.`
+    )
+  }
+
+  if (typeof verificationMethod.publicKeyBase58 === 'string') {
+    return verificationMethod.publicKeyBase58
+  }
+
+  if (typeof verificationMethod.publicKeyMultibase === 'string') {
+    const key = Key.fromFingerprint(verificationMethod.publicKeyMultibase)
+
+    if (key.keyType !== KeyType.Ed25519) {
+      throw new AriesFrameworkError(`Verification method does not contain an ${KeyType.Ed25519} public key.`)
+    }
+
+    return key.publicKeyBase58
+  }
+
+  throw new AriesFrameworkError('Verification method does not contain a supported public key encoding.')
+}
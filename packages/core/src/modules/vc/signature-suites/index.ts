@@ -0,0 +1,3 @@
+export * from './Ed25519WalletSignature'
+export * from './Ed25519Signature2018'
+export * from './Ed25519Signature2020'
@@ -1,3 +1,6 @@
+import type { InboundMessageMiddleware, OutboundMessageMiddleware } from '../agent/MessageMiddleware'
+import type { BaseRecord } from '../storage/BaseRecord'
+import type { BaseRecordConstructor } from '../storage/StorageService'
 import type { Constructor } from '../utils/mixins'
 import type { Module } from './Module'
 import type { DependencyContainer } from 'tsyringe'
@@ -8,13 +11,53 @@ export { InjectionToken }
 
 export class DependencyManager {
   public readonly container: DependencyContainer
+  public readonly inboundMiddlewares: InboundMessageMiddleware[] = []
+  public readonly outboundMiddlewares: OutboundMessageMiddleware[] = []
+  public readonly registeredModules: Module[] = []
+  public readonly registeredRecordClasses: BaseRecordConstructor<BaseRecord>[] = []
 
   public constructor(container: DependencyContainer = rootContainer.createChildContainer()) {
     this.container = container
   }
 
+  /**
+   * Register the modules. Modules that are already registered are skipped.
+   */
   public registerModules(...modules: Module[]) {
-    modules.forEach((module) => module.register(this))
+    for (const module of modules) {
+      if (this.registeredModules.includes(module)) continue
+
+      module.register(this)
+      this.registeredModules.push(module)
+    }
+  }
+
+  /**
+   * Register the classes of the records stored by a module, so all records of the agent can be retrieved from
+   * storage (e.g. to create a backup). Record classes that are already registered are skipped.
+   */
+  public registerRecordClasses(...recordClasses: BaseRecordConstructor<BaseRecord>[]) {
+    for (const recordClass of recordClasses) {
+      if (this.registeredRecordClasses.includes(recordClass)) continue
+
+      this.registeredRecordClasses.push(recordClass)
+    }
+  }
+
+  /**
+   * Register a middleware that is called, in order of registration, for every inbound message before it
+   * is handled.
+   */
+  public registerInboundMiddleware(middleware: InboundMessageMiddleware) {
+    this.inboundMiddlewares.push(middleware)
+  }
+
+  /**
+   * Register a middleware that is called, in order of registration, for every outbound message before it
+   * is packed.
+   */
+  public registerOutboundMiddleware(middleware: OutboundMessageMiddleware) {
+    this.outboundMiddlewares.push(middleware)
   }
 
   public registerSingleton<T>(from: InjectionToken<T>, to: InjectionToken<T>): void
@@ -48,6 +91,12 @@ export class DependencyManager {
   }
 
   public createChild() {
-    return new DependencyManager(this.container.createChildContainer())
+    const dependencyManager = new DependencyManager(this.container.createChildContainer())
+
+    // Middlewares registered on the parent also apply to the child
+    dependencyManager.inboundMiddlewares.push(...this.inboundMiddlewares)
+    dependencyManager.outboundMiddlewares.push(...this.outboundMiddlewares)
+
+    return dependencyManager
   }
 }
@@ -6,6 +6,22 @@ export interface Module {
   register(dependencyManager: DependencyManager): void
 }
 
+/**
+ * Lifecycle hooks that can be implemented by the api (instance) of a module. The hooks are called, in order of
+ * registration, for all modules passed to the agent when the agent is initialized and shutdown.
+ */
+export interface ModuleLifecycle {
+  /**
+   * Called when the agent is initialized, after the wallet is opened and the transports are started
+   */
+  initialize?(): Promise<void>
+
+  /**
+   * Called when the agent is shutdown, before the wallet is closed
+   */
+  shutdown?(): Promise<void>
+}
+
 /**
  * Decorator that marks the class as a module. Will enforce the required interface for a module (with static methods)
  * on the class declaration.
@@ -1,3 +1,3 @@
 export * from './DependencyManager'
 export * from './Module'
-export { inject, injectable } from 'tsyringe'
+export { inject, injectAll, injectable } from 'tsyringe'
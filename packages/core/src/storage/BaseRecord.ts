@@ -30,6 +30,12 @@ export abstract class BaseRecord<
   @DateTransformer()
   public updatedAt?: Date
 
+  /**
+   * The version of the record in storage. Incremented by the storage service on every update, and used to
+   * detect when the record was updated by someone else after it was retrieved from storage.
+   */
+  public version?: number
+
   @Exclude()
   public readonly type = BaseRecord.type
   public static readonly type: string = 'BaseRecord'
@@ -1,9 +1,9 @@
 import type { BaseRecord, TagsBase } from './BaseRecord'
-import type { StorageService, BaseRecordConstructor, Query } from './StorageService'
+import type { StorageService, BaseRecordConstructor, Query, QueryOptions } from './StorageService'
 import type { default as Indy, WalletQuery, WalletRecord, WalletSearchOptions } from 'indy-sdk'
 
 import { AgentConfig } from '../agent/AgentConfig'
-import { RecordNotFoundError, RecordDuplicateError, IndySdkError } from '../error'
+import { RecordNotFoundError, RecordDuplicateError, RecordConflictError, IndySdkError } from '../error'
 import { injectable } from '../plugins'
 import { JsonTransformer } from '../utils/JsonTransformer'
 import { isIndyError } from '../utils/indyError'
@@ -15,11 +15,19 @@ export class IndyStorageService<T extends BaseRecord> implements StorageService<
   private wallet: IndyWallet
   private indy: typeof Indy
 
+  // Pending updates by record, used to make checking the version and updating a record atomic. The locks only
+  // exist in this process, so concurrent updates are only detected reliably when a single agent process uses the wallet
+  private recordLocks = new Map<string, Promise<void>>()
+
   private static DEFAULT_QUERY_OPTIONS = {
     retrieveType: true,
     retrieveTags: true,
   }
 
+  // Unencrypted tag with the creation date of the record, used to sort records by creation date without retrieving
+  // the record values. The tag is not part of the tags of the record.
+  private static CREATED_AT_TAG = '~createdAt'
+
   public constructor(wallet: IndyWallet, agentConfig: AgentConfig) {
     this.wallet = wallet
     this.indy = agentConfig.agentDependencies.indy
@@ -126,16 +134,28 @@ export class IndyStorageService<T extends BaseRecord> implements StorageService<
     const instance = JsonTransformer.deserialize<T>(record.value!, recordClass)
     instance.id = record.id
 
-    const tags = record.tags ? this.transformToRecordTagValues(record.tags) : {}
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { [IndyStorageService.CREATED_AT_TAG]: createdAt, ...recordTags } = record.tags ?? {}
+    const tags = this.transformToRecordTagValues(recordTags)
     instance.replaceTags(tags)
 
     return instance
   }
 
+  private getWalletRecordTags(record: T) {
+    const tags = this.transformFromRecordTagValues(record.getTags()) as Record<string, string>
+
+    if (record.createdAt) {
+      tags[IndyStorageService.CREATED_AT_TAG] = record.createdAt.toISOString()
+    }
+
+    return tags
+  }
+
   /** @inheritDoc */
   public async save(record: T) {
     const value = JsonTransformer.serialize(record)
-    const tags = this.transformFromRecordTagValues(record.getTags()) as Record<string, string>
+    const tags = this.getWalletRecordTags(record)
 
     try {
       await this.indy.addWalletRecord(this.wallet.handle, record.type, record.id, value, tags)
@@ -149,24 +169,72 @@ export class IndyStorageService<T extends BaseRecord> implements StorageService<
     }
   }
 
-  /** @inheritDoc */
+  /**
+   * @inheritDoc
+   *
+   * NOTE: the indy wallet has no compare-and-swap operation, so checking the version and updating the record is
+   * only made atomic within this process. Updates by other processes that use the same wallet can still be lost.
+   */
   public async update(record: T): Promise<void> {
-    const value = JsonTransformer.serialize(record)
-    const tags = this.transformFromRecordTagValues(record.getTags()) as Record<string, string>
-
-    try {
-      await this.indy.updateWalletRecordValue(this.wallet.handle, record.type, record.id, value)
-      await this.indy.updateWalletRecordTags(this.wallet.handle, record.type, record.id, tags)
-    } catch (error) {
-      // Record does not exist
-      if (isIndyError(error, 'WalletItemNotFound')) {
-        throw new RecordNotFoundError(`record with id ${record.id} not found.`, {
-          recordType: record.type,
-          cause: error,
+    await this.withRecordLock(`${record.type}:${record.id}`, async () => {
+      const previousVersion = record.version
+      const version = previousVersion ?? 0
+
+      try {
+        const storedRecord = await this.indy.getWalletRecord(this.wallet.handle, record.type, record.id, {
+          retrieveType: false,
+          retrieveValue: true,
+          retrieveTags: false,
         })
+
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        const storedVersion = (JSON.parse(storedRecord.value!) as { version?: number }).version ?? 0
+        if (storedVersion !== version) {
+          throw new RecordConflictError(
+            `record with id ${record.id} was updated concurrently. Expected version ${version}, found version ${storedVersion}.`,
+            { recordType: record.type }
+          )
+        }
+
+        record.version = version + 1
+        const value = JsonTransformer.serialize(record)
+        const tags = this.getWalletRecordTags(record)
+
+        await this.indy.updateWalletRecordValue(this.wallet.handle, record.type, record.id, value)
+        await this.indy.updateWalletRecordTags(this.wallet.handle, record.type, record.id, tags)
+      } catch (error) {
+        // The record was not updated, so the version of the record should not change
+        record.version = previousVersion
+
+        if (error instanceof RecordConflictError) throw error
+
+        // Record does not exist
+        if (isIndyError(error, 'WalletItemNotFound')) {
+          throw new RecordNotFoundError(`record with id ${record.id} not found.`, {
+            recordType: record.type,
+            cause: error,
+          })
+        }
+
+        throw isIndyError(error) ? new IndySdkError(error) : error
       }
+    })
+  }
 
-      throw isIndyError(error) ? new IndySdkError(error) : error
+  /**
+   * Run the operation after all pending operations for the same key have finished.
+   */
+  private async withRecordLock(key: string, operation: () => Promise<void>) {
+    const previous = this.recordLocks.get(key) ?? Promise.resolve()
+    const current = previous.then(operation)
+    // The lock must not reject, so operations waiting for the lock still run when this operation fails
+    const lock = current.catch(() => undefined)
+    this.recordLocks.set(key, lock)
+
+    try {
+      await current
+    } finally {
+      if (this.recordLocks.get(key) === lock) this.recordLocks.delete(key)
     }
   }
 
@@ -226,25 +294,117 @@ export class IndyStorageService<T extends BaseRecord> implements StorageService<
   }
 
   /** @inheritDoc */
-  public async getAll(recordClass: BaseRecordConstructor<T>): Promise<T[]> {
-    const recordIterator = this.search(recordClass.type, {}, IndyStorageService.DEFAULT_QUERY_OPTIONS)
+  public async getAll(recordClass: BaseRecordConstructor<T>, queryOptions?: QueryOptions): Promise<T[]> {
+    return this.findByQuery(recordClass, {}, queryOptions)
+  }
+
+  /** @inheritDoc */
+  public async findByQuery(
+    recordClass: BaseRecordConstructor<T>,
+    query: Query<T>,
+    { limit, offset = 0, sortBy, sortOrder }: QueryOptions = {}
+  ): Promise<T[]> {
+    const indyQuery = this.indyQueryFromSearchQuery(query)
+
+    // The wallet can't sort records, so we first retrieve the tag to sort on for all matching records (without
+    // retrieving the record values), and only retrieve the records on the requested page. The ids and sort values of
+    // all matching records are kept in memory, so the memory usage and duration of a sorted query grow with the
+    // number of matching records, also when a limit is provided.
+    if (sortBy) {
+      const ids = await this.findSortedIds(recordClass.type, indyQuery, sortBy, sortOrder)
+      const pageIds = ids.slice(offset, limit !== undefined ? offset + limit : undefined)
+
+      return Promise.all(pageIds.map((id) => this.getById(recordClass, id)))
+    }
+
+    const recordIterator = this.search(recordClass.type, indyQuery, {
+      ...IndyStorageService.DEFAULT_QUERY_OPTIONS,
+      limit: limit !== undefined ? offset + limit : undefined,
+    })
+
     const records = []
+    let index = 0
     for await (const record of recordIterator) {
+      if (index++ < offset) continue
+
       records.push(this.recordToInstance(record, recordClass))
     }
     return records
   }
 
   /** @inheritDoc */
-  public async findByQuery(recordClass: BaseRecordConstructor<T>, query: Query<T>): Promise<T[]> {
+  public async count(recordClass: BaseRecordConstructor<T>, query: Query<T>): Promise<number> {
     const indyQuery = this.indyQueryFromSearchQuery(query)
 
-    const recordIterator = this.search(recordClass.type, indyQuery, IndyStorageService.DEFAULT_QUERY_OPTIONS)
-    const records = []
+    try {
+      const searchHandle = await this.indy.openWalletSearch(this.wallet.handle, recordClass.type, indyQuery, {
+        retrieveRecords: false,
+        retrieveTotalCount: true,
+      })
+
+      try {
+        const { totalCount } = await this.indy.fetchWalletSearchNextRecords(this.wallet.handle, searchHandle, 1)
+        return Number(totalCount ?? 0)
+      } finally {
+        await this.indy.closeWalletSearch(searchHandle)
+      }
+    } catch (error) {
+      throw new IndySdkError(
+        error,
+        `Counting '${recordClass.type}' records for query '${JSON.stringify(indyQuery)}' failed`
+      )
+    }
+  }
+
+  private async findSortedIds(type: string, query: WalletQuery, sortBy: string, sortOrder: QueryOptions['sortOrder']) {
+    const sortByCreatedAt = sortBy === 'createdAt'
+    const recordIterator = this.search(type, query, {
+      retrieveType: false,
+      retrieveTags: true,
+      retrieveValue: false,
+    })
+
+    const sortValues: Array<{ id: string; value?: string }> = []
     for await (const record of recordIterator) {
-      records.push(this.recordToInstance(record, recordClass))
+      const tags = (record.tags ?? {}) as Record<string, string | undefined>
+      const value = sortByCreatedAt
+        ? tags[IndyStorageService.CREATED_AT_TAG] ?? (await this.findCreatedAt(type, record.id))
+        : tags[sortBy]
+
+      sortValues.push({ id: record.id, value })
+    }
+
+    const direction = sortOrder === 'desc' ? -1 : 1
+    return sortValues
+      .sort((a, b) => {
+        // Records without a value to sort on are always returned last
+        if (a.value === undefined || b.value === undefined) {
+          return Number(a.value === undefined) - Number(b.value === undefined)
+        }
+
+        if (sortByCreatedAt) return direction * (new Date(a.value).getTime() - new Date(b.value).getTime())
+        return direction * a.value.localeCompare(b.value)
+      })
+      .map(({ id }) => id)
+  }
+
+  /**
+   * Get the creation date of a record that was stored without the created at tag (before the tag was introduced)
+   * from the value of the record.
+   */
+  private async findCreatedAt(type: string, id: string) {
+    try {
+      const record = await this.indy.getWalletRecord(this.wallet.handle, type, id, {
+        retrieveType: false,
+        retrieveValue: true,
+        retrieveTags: false,
+      })
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      return (JSON.parse(record.value!) as { createdAt?: string }).createdAt
+    } catch (error) {
+      throw isIndyError(error) ? new IndySdkError(error) : error
     }
-    return records
   }
 
   private async *search(
@@ -252,37 +412,36 @@ export class IndyStorageService<T extends BaseRecord> implements StorageService<
     query: WalletQuery,
     { limit = Infinity, ...options }: WalletSearchOptions & { limit?: number }
   ) {
-    try {
-      const searchHandle = await this.indy.openWalletSearch(this.wallet.handle, type, query, options)
+    let searchHandle: Indy.SearchHandle | undefined
 
-      let records: Indy.WalletRecord[] = []
+    try {
+      searchHandle = await this.indy.openWalletSearch(this.wallet.handle, type, query, options)
 
-      // Allow max of 256 per fetch operation
-      const chunk = limit ? Math.min(256, limit) : 256
+      let fetchedRecords = 0
 
       // Loop while limit not reached (or no limit specified)
-      while (!limit || records.length < limit) {
+      while (fetchedRecords < limit) {
+        // Allow max of 256 per fetch operation
+        const chunk = Math.min(256, limit - fetchedRecords)
+
         // Retrieve records
         const recordsJson = await this.indy.fetchWalletSearchNextRecords(this.wallet.handle, searchHandle, chunk)
+        const records = recordsJson.records ?? []
+        fetchedRecords += records.length
 
-        if (recordsJson.records) {
-          records = [...records, ...recordsJson.records]
-
-          for (const record of recordsJson.records) {
-            yield record
-          }
+        for (const record of records) {
+          yield record
         }
 
         // If the number of records returned is less than chunk
         // It means we reached the end of the iterator (no more records)
-        if (!records.length || !recordsJson.records || recordsJson.records.length < chunk) {
-          await this.indy.closeWalletSearch(searchHandle)
-
-          return
-        }
+        if (records.length < chunk) return
       }
     } catch (error) {
       throw new IndySdkError(error, `Searching '${type}' records for query '${JSON.stringify(query)}' failed`)
+    } finally {
+      // Also close the search when the consumer stops iterating before all records are fetched
+      if (searchHandle !== undefined) await this.indy.closeWalletSearch(searchHandle)
     }
   }
 }
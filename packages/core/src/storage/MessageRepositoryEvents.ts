@@ -0,0 +1,22 @@
+import type { BaseEvent } from '../agent/Events'
+import type { EncryptedMessage } from '../types'
+
+export enum MessageRepositoryEventTypes {
+  QueuedMessageDropped = 'QueuedMessageDropped',
+}
+
+export enum QueuedMessageDropReason {
+  /** The message was not picked up before the message time to live expired */
+  Expired = 'Expired',
+  /** The message was dropped to make room for a new message, as the maximum queue size was reached */
+  QueueFull = 'QueueFull',
+}
+
+export interface QueuedMessageDroppedEvent extends BaseEvent {
+  type: typeof MessageRepositoryEventTypes.QueuedMessageDropped
+  payload: {
+    connectionId: string
+    encryptedMessage: EncryptedMessage
+    reason: QueuedMessageDropReason
+  }
+}
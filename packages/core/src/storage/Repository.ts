@@ -1,9 +1,9 @@
 import type { EventEmitter } from '../agent/EventEmitter'
 import type { BaseRecord } from './BaseRecord'
 import type { RecordSavedEvent, RecordUpdatedEvent, RecordDeletedEvent } from './RepositoryEvents'
-import type { BaseRecordConstructor, Query, StorageService } from './StorageService'
+import type { BaseRecordConstructor, Query, QueryOptions, StorageService } from './StorageService'
 
-import { RecordDuplicateError, RecordNotFoundError } from '../error'
+import { RecordConflictError, RecordDuplicateError, RecordNotFoundError } from '../error'
 import { JsonTransformer } from '../utils/JsonTransformer'
 
 import { RepositoryEventTypes } from './RepositoryEvents'
@@ -52,6 +52,34 @@ export class Repository<T extends BaseRecord<any, any, any>> {
     })
   }
 
+  /**
+   * Retrieve the record by id, apply the update and store the updated record. If the record was updated
+   * concurrently (a {@link RecordConflictError} is thrown), the record is retrieved again and the update is
+   * applied to the latest version of the record, up to `maxRetries` times.
+   *
+   * @param id the id of the record to update
+   * @param update function that applies the update to the record. Can be called multiple times
+   * @returns the updated record
+   * @throws {RecordConflictError} if the record was still updated concurrently after `maxRetries` retries
+   */
+  public async updateWithRetry(
+    id: string,
+    update: (record: T) => void | Promise<void>,
+    { maxRetries = 3 }: { maxRetries?: number } = {}
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const record = await this.getById(id)
+      await update(record)
+
+      try {
+        await this.update(record)
+        return record
+      } catch (error) {
+        if (!(error instanceof RecordConflictError) || attempt >= maxRetries) throw error
+      }
+    }
+  }
+
   /** @inheritDoc {StorageService#delete} */
   public async delete(record: T): Promise<void> {
     await this.storageService.delete(record)
@@ -96,13 +124,23 @@ export class Repository<T extends BaseRecord<any, any, any>> {
   }
 
   /** @inheritDoc {StorageService#getAll} */
-  public async getAll(): Promise<T[]> {
-    return this.storageService.getAll(this.recordClass)
+  public async getAll(queryOptions?: QueryOptions): Promise<T[]> {
+    return this.storageService.getAll(this.recordClass, queryOptions)
   }
 
   /** @inheritDoc {StorageService#findByQuery} */
-  public async findByQuery(query: Query<T>): Promise<T[]> {
-    return this.storageService.findByQuery(this.recordClass, query)
+  public async findByQuery(query: Query<T>, queryOptions?: QueryOptions): Promise<T[]> {
+    return this.storageService.findByQuery(this.recordClass, query, queryOptions)
+  }
+
+  /** @inheritDoc {StorageService#count} */
+  public async count(query: Query<T> = {}): Promise<number> {
+    if (!this.storageService.count) {
+      const records = await this.storageService.findByQuery(this.recordClass, query)
+      return records.length
+    }
+
+    return this.storageService.count(this.recordClass, query)
   }
 
   /**
@@ -112,7 +150,8 @@ export class Repository<T extends BaseRecord<any, any, any>> {
    * @throws {RecordDuplicateError} if multiple records are found for the given query
    */
   public async findSingleByQuery(query: Query<T>): Promise<T | null> {
-    const records = await this.findByQuery(query)
+    // Two records are enough to know whether the query matches multiple records
+    const records = await this.findByQuery(query, { limit: 2 })
 
     if (records.length > 1) {
       throw new RecordDuplicateError(`Multiple records found for given query '${JSON.stringify(query)}'`, {
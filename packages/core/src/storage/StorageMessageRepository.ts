@@ -0,0 +1,214 @@
+import type { Logger } from '../logger'
+import type { EncryptedMessage } from '../types'
+import type { MessageRepository } from './MessageRepository'
+import type { QueuedMessageDroppedEvent } from './MessageRepositoryEvents'
+import type { QueueConfig } from './queued-message'
+
+import { AgentConfig } from '../agent/AgentConfig'
+import { EventEmitter } from '../agent/EventEmitter'
+import { injectable } from '../plugins'
+
+import { MessageRepositoryEventTypes, QueuedMessageDropReason } from './MessageRepositoryEvents'
+import {
+  QueueConfigRecord,
+  QueueConfigRepository,
+  QueuedMessageRecord,
+  QueuedMessageRepository,
+} from './queued-message'
+
+// The number of queued messages that is retrieved from storage at once when going through the queue of a connection
+const QUEUED_MESSAGES_PAGE_SIZE = 50
+
+/**
+ * Message repository that persists queued messages in the storage of the agent, so queued messages survive a
+ * restart of the mediator. Messages are queued per connection. The `queuedMessageTtlMs` and `maximumQueuedMessages`
+ * agent config options can be used to limit how long, and how many, messages are kept in the queue of a connection.
+ * The limits can be overridden per connection using {@link StorageMessageRepository.setQueueConfig}.
+ *
+ * To use the storage message repository, register it before creating the agent:
+ *
+ * @example
+ * container.registerSingleton(InjectionSymbols.MessageRepository, StorageMessageRepository)
+ */
+@injectable()
+export class StorageMessageRepository implements MessageRepository {
+  private agentConfig: AgentConfig
+  private queuedMessageRepository: QueuedMessageRepository
+  private queueConfigRepository: QueueConfigRepository
+  private eventEmitter: EventEmitter
+  private logger: Logger
+
+  private lastSequenceTime = 0
+  private sequenceCounter = 0
+
+  public constructor(
+    agentConfig: AgentConfig,
+    queuedMessageRepository: QueuedMessageRepository,
+    queueConfigRepository: QueueConfigRepository,
+    eventEmitter: EventEmitter
+  ) {
+    this.agentConfig = agentConfig
+    this.queuedMessageRepository = queuedMessageRepository
+    this.queueConfigRepository = queueConfigRepository
+    this.eventEmitter = eventEmitter
+    this.logger = agentConfig.logger
+  }
+
+  /**
+   * Set the limits of the message queue of a connection. Limits that are not set fall back to the agent config.
+   * The limits are applied to messages that are queued after the config is set.
+   */
+  public async setQueueConfig(connectionId: string, { queuedMessageTtlMs, maximumQueuedMessages }: QueueConfig) {
+    const queueConfigRecord = await this.queueConfigRepository.findByConnectionId(connectionId)
+
+    if (queueConfigRecord) {
+      queueConfigRecord.queuedMessageTtlMs = queuedMessageTtlMs
+      queueConfigRecord.maximumQueuedMessages = maximumQueuedMessages
+      await this.queueConfigRepository.update(queueConfigRecord)
+    } else {
+      await this.queueConfigRepository.save(
+        new QueueConfigRecord({ connectionId, queuedMessageTtlMs, maximumQueuedMessages })
+      )
+    }
+  }
+
+  /**
+   * Get the limits of the message queue of a connection, falling back to the agent config for limits that are not
+   * set for the connection.
+   */
+  public async getQueueConfig(connectionId: string): Promise<QueueConfig> {
+    const queueConfigRecord = await this.queueConfigRepository.findByConnectionId(connectionId)
+
+    return {
+      queuedMessageTtlMs: queueConfigRecord?.queuedMessageTtlMs ?? this.agentConfig.queuedMessageTtlMs,
+      maximumQueuedMessages: queueConfigRecord?.maximumQueuedMessages ?? this.agentConfig.maximumQueuedMessages,
+    }
+  }
+
+  public async getAvailableMessageCount(connectionId: string) {
+    await this.dropExpiredMessages(connectionId)
+
+    return this.queuedMessageRepository.countByConnectionId(connectionId)
+  }
+
+  public async takeFromQueue(connectionId: string, limit?: number, keepMessages?: boolean) {
+    const messagesToTake = await this.getQueuedMessages(connectionId, limit)
+    this.logger.debug(`Taking ${messagesToTake.length} messages from queue for connection ${connectionId}`)
+
+    if (!keepMessages) {
+      for (const queuedMessage of messagesToTake) {
+        await this.queuedMessageRepository.delete(queuedMessage)
+      }
+    }
+
+    return messagesToTake.map((queuedMessage) => queuedMessage.encryptedMessage)
+  }
+
+  public async add(connectionId: string, payload: EncryptedMessage) {
+    const { maximumQueuedMessages, queuedMessageTtlMs } = await this.getQueueConfig(connectionId)
+
+    // Drop the oldest messages to make room for the new message
+    if (maximumQueuedMessages !== undefined) {
+      const queuedMessageCount = await this.queuedMessageRepository.countByConnectionId(connectionId)
+      const overflow = queuedMessageCount - maximumQueuedMessages + 1
+
+      if (overflow > 0) {
+        const oldestMessages = await this.queuedMessageRepository.findByConnectionId(connectionId, { limit: overflow })
+        for (const queuedMessage of oldestMessages) {
+          await this.dropMessage(queuedMessage, QueuedMessageDropReason.QueueFull)
+        }
+      }
+    }
+
+    const createdAt = new Date()
+    await this.queuedMessageRepository.save(
+      new QueuedMessageRecord({
+        connectionId,
+        sequence: this.nextSequence(createdAt),
+        encryptedMessage: payload,
+        createdAt,
+        expiresAt: queuedMessageTtlMs !== undefined ? new Date(createdAt.getTime() + queuedMessageTtlMs) : undefined,
+      })
+    )
+  }
+
+  /**
+   * Get the queued messages for a connection in the order they were queued, retrieving them from storage page by page
+   * until `limit` messages are found. Expired messages that are encountered are dropped from the queue.
+   */
+  private async getQueuedMessages(connectionId: string, limit = Infinity) {
+    const now = new Date()
+    const availableMessages: QueuedMessageRecord[] = []
+
+    while (availableMessages.length < limit) {
+      const pageSize = Math.min(QUEUED_MESSAGES_PAGE_SIZE, limit - availableMessages.length)
+
+      // Dropped messages are removed from storage, so only the messages that are kept have to be skipped
+      const queuedMessages = await this.queuedMessageRepository.findByConnectionId(connectionId, {
+        offset: availableMessages.length,
+        limit: pageSize,
+      })
+
+      for (const queuedMessage of queuedMessages) {
+        if (queuedMessage.isExpired(now)) {
+          await this.dropMessage(queuedMessage, QueuedMessageDropReason.Expired)
+        } else {
+          availableMessages.push(queuedMessage)
+        }
+      }
+
+      if (queuedMessages.length < pageSize) break
+    }
+
+    return availableMessages
+  }
+
+  /**
+   * Drop the expired messages at the front of the queue of a connection. As the time to live of a connection is
+   * rarely changed, messages expire in the order they were queued, so retrieving messages from storage stops at the
+   * first message that has not expired.
+   */
+  private async dropExpiredMessages(connectionId: string) {
+    const now = new Date()
+    let queuedMessages: QueuedMessageRecord[]
+
+    do {
+      queuedMessages = await this.queuedMessageRepository.findByConnectionId(connectionId, {
+        limit: QUEUED_MESSAGES_PAGE_SIZE,
+      })
+
+      for (const queuedMessage of queuedMessages) {
+        if (!queuedMessage.isExpired(now)) return
+        await this.dropMessage(queuedMessage, QueuedMessageDropReason.Expired)
+      }
+    } while (queuedMessages.length === QUEUED_MESSAGES_PAGE_SIZE)
+  }
+
+  /**
+   * Create the sequence of a queued message. The sequence consists of the time the message was queued and a counter
+   * for messages queued in the same millisecond, both padded so the sequences sort in the order messages were queued.
+   */
+  private nextSequence(createdAt: Date) {
+    const time = Math.max(createdAt.getTime(), this.lastSequenceTime)
+
+    this.sequenceCounter = time === this.lastSequenceTime ? this.sequenceCounter + 1 : 0
+    this.lastSequenceTime = time
+
+    return `${time.toString().padStart(15, '0')}${this.sequenceCounter.toString().padStart(6, '0')}`
+  }
+
+  private async dropMessage(queuedMessage: QueuedMessageRecord, reason: QueuedMessageDropReason) {
+    this.logger.debug(`Dropping queued message for connection ${queuedMessage.connectionId}`, { reason })
+
+    await this.queuedMessageRepository.delete(queuedMessage)
+
+    this.eventEmitter.emit<QueuedMessageDroppedEvent>({
+      type: MessageRepositoryEventTypes.QueuedMessageDropped,
+      payload: {
+        connectionId: queuedMessage.connectionId,
+        encryptedMessage: queuedMessage.encryptedMessage,
+        reason,
+      },
+    })
+  }
+}
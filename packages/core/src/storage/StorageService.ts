@@ -12,6 +12,33 @@ interface AdvancedQuery<T extends BaseRecord> {
 
 export type Query<T extends BaseRecord> = AdvancedQuery<T> | SimpleQuery<T>
 
+export interface QueryOptions {
+  /**
+   * The maximum number of records to return
+   */
+  limit?: number
+
+  /**
+   * The number of records to skip before returning records. Mostly useful in combination with `limit`
+   * to paginate through the records.
+   */
+  offset?: number
+
+  /**
+   * Sort the records by `createdAt` or by the value of a tag. Records that don't have the tag are returned last.
+   * If not provided, records are returned in the order they are returned by the storage.
+   *
+   * Not all storage services can sort records in storage. The `IndyStorageService` loads the value to sort on of
+   * all matching records into memory to sort them, so sorting a large number of records is not recommended there.
+   */
+  sortBy?: string
+
+  /**
+   * The order to sort the records in. Defaults to `asc`.
+   */
+  sortOrder?: 'asc' | 'desc'
+}
+
 export interface BaseRecordConstructor<T> extends Constructor<T> {
   type: string
 }
@@ -29,8 +56,9 @@ export interface StorageService<T extends BaseRecord<any, any, any>> {
   /**
    * Update record in storage
    *
-   * @param record the record to update
+   * @param record the record to update. The version of the record is incremented on successful update
    * @throws {RecordNotFoundError} if a record with this id and type does not exist
+   * @throws {RecordConflictError} if the record was updated in storage after it was retrieved (version mismatch)
    */
   update(record: T): Promise<void>
 
@@ -64,14 +92,25 @@ export interface StorageService<T extends BaseRecord<any, any, any>> {
    * Get all records by specified record class.
    *
    * @param recordClass the record class to get records for
+   * @param queryOptions options to paginate and sort the records
    */
-  getAll(recordClass: BaseRecordConstructor<T>): Promise<T[]>
+  getAll(recordClass: BaseRecordConstructor<T>, queryOptions?: QueryOptions): Promise<T[]>
 
   /**
    * Find all records by specified record class and query.
    *
    * @param recordClass the record class to find records for
    * @param query the query to use for finding records
+   * @param queryOptions options to paginate and sort the records
+   */
+  findByQuery(recordClass: BaseRecordConstructor<T>, query: Query<T>, queryOptions?: QueryOptions): Promise<T[]>
+
+  /**
+   * Count the records by specified record class and query. Optional, storage services that don't implement
+   * counting will have the records retrieved using {@link StorageService.findByQuery} and counted instead.
+   *
+   * @param recordClass the record class to count records for
+   * @param query the query to use for counting records
    */
-  findByQuery(recordClass: BaseRecordConstructor<T>, query: Query<T>): Promise<T[]>
+  count?(recordClass: BaseRecordConstructor<T>, query: Query<T>): Promise<number>
 }
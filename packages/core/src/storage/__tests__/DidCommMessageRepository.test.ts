@@ -47,12 +47,16 @@ describe('Repository', () => {
         associatedRecordId: '04a2c382-999e-4de9-a1d2-9dec0b2fa5e4',
       })
 
-      expect(storageMock.findByQuery).toBeCalledWith(DidCommMessageRecord, {
-        associatedRecordId: '04a2c382-999e-4de9-a1d2-9dec0b2fa5e4',
-        messageName: 'invitation',
-        protocolName: 'connections',
-        protocolMajorVersion: '1',
-      })
+      expect(storageMock.findByQuery).toBeCalledWith(
+        DidCommMessageRecord,
+        {
+          associatedRecordId: '04a2c382-999e-4de9-a1d2-9dec0b2fa5e4',
+          messageName: 'invitation',
+          protocolName: 'connections',
+          protocolMajorVersion: '1',
+        },
+        { limit: 2 }
+      )
       expect(invitation).toBeInstanceOf(ConnectionInvitationMessage)
     })
   })
@@ -66,12 +70,16 @@ describe('Repository', () => {
         associatedRecordId: '04a2c382-999e-4de9-a1d2-9dec0b2fa5e4',
       })
 
-      expect(storageMock.findByQuery).toBeCalledWith(DidCommMessageRecord, {
-        associatedRecordId: '04a2c382-999e-4de9-a1d2-9dec0b2fa5e4',
-        messageName: 'invitation',
-        protocolName: 'connections',
-        protocolMajorVersion: '1',
-      })
+      expect(storageMock.findByQuery).toBeCalledWith(
+        DidCommMessageRecord,
+        {
+          associatedRecordId: '04a2c382-999e-4de9-a1d2-9dec0b2fa5e4',
+          messageName: 'invitation',
+          protocolName: 'connections',
+          protocolMajorVersion: '1',
+        },
+        { limit: 2 }
+      )
       expect(invitation).toBeInstanceOf(ConnectionInvitationMessage)
     })
 
@@ -83,12 +91,16 @@ describe('Repository', () => {
         associatedRecordId: '04a2c382-999e-4de9-a1d2-9dec0b2fa5e4',
       })
 
-      expect(storageMock.findByQuery).toBeCalledWith(DidCommMessageRecord, {
-        associatedRecordId: '04a2c382-999e-4de9-a1d2-9dec0b2fa5e4',
-        messageName: 'invitation',
-        protocolName: 'connections',
-        protocolMajorVersion: '1',
-      })
+      expect(storageMock.findByQuery).toBeCalledWith(
+        DidCommMessageRecord,
+        {
+          associatedRecordId: '04a2c382-999e-4de9-a1d2-9dec0b2fa5e4',
+          messageName: 'invitation',
+          protocolName: 'connections',
+          protocolMajorVersion: '1',
+        },
+        { limit: 2 }
+      )
       expect(invitation).toBeNull()
     })
   })
@@ -138,12 +150,16 @@ describe('Repository', () => {
         associatedRecordId: '04a2c382-999e-4de9-a1d2-9dec0b2fa5e4',
       })
 
-      expect(storageMock.findByQuery).toBeCalledWith(DidCommMessageRecord, {
-        associatedRecordId: '04a2c382-999e-4de9-a1d2-9dec0b2fa5e4',
-        messageName: 'invitation',
-        protocolName: 'connections',
-        protocolMajorVersion: '1',
-      })
+      expect(storageMock.findByQuery).toBeCalledWith(
+        DidCommMessageRecord,
+        {
+          associatedRecordId: '04a2c382-999e-4de9-a1d2-9dec0b2fa5e4',
+          messageName: 'invitation',
+          protocolName: 'connections',
+          protocolMajorVersion: '1',
+        },
+        { limit: 2 }
+      )
       expect(storageMock.update).toBeCalledWith(record)
     })
   })
@@ -3,7 +3,7 @@ import type * as Indy from 'indy-sdk'
 
 import { agentDependencies, getAgentConfig } from '../../../tests/helpers'
 import { AgentConfig } from '../../agent/AgentConfig'
-import { RecordDuplicateError, RecordNotFoundError } from '../../error'
+import { RecordConflictError, RecordDuplicateError, RecordNotFoundError } from '../../error'
 import { IndyWallet } from '../../wallet/IndyWallet'
 import { IndyStorageService } from '../IndyStorageService'
 
@@ -66,6 +66,8 @@ describe('IndyStorageService', () => {
         'anArrayValue:bar': '1',
         someStringNumberValue: 'n__1',
         anotherStringNumberValue: 'n__0',
+        // unencrypted tag used to sort by creation date, which is not part of the tags of the record
+        '~createdAt': record.createdAt.toISOString(),
       })
     })
 
@@ -144,6 +146,38 @@ describe('IndyStorageService', () => {
 
       const retrievedRecord = await storageService.getById(TestRecord, record.id)
       expect(retrievedRecord).toEqual(record)
+      expect(retrievedRecord.version).toBe(1)
+    })
+
+    it('should throw RecordConflictError if the record was updated after it was retrieved', async () => {
+      await insertRecord({ id: 'test-id' })
+      const record = await storageService.getById(TestRecord, 'test-id')
+      const staleRecord = await storageService.getById(TestRecord, 'test-id')
+
+      record.foo = 'first'
+      await storageService.update(record)
+
+      staleRecord.foo = 'second'
+      await expect(storageService.update(staleRecord)).rejects.toThrowError(RecordConflictError)
+      expect(staleRecord.version).toBeUndefined()
+      expect((await storageService.getById(TestRecord, 'test-id')).foo).toBe('first')
+    })
+
+    it('should only apply one of multiple concurrent updates of the same record version', async () => {
+      await insertRecord({ id: 'test-id' })
+      const records = await Promise.all([1, 2, 3].map(() => storageService.getById(TestRecord, 'test-id')))
+
+      const results = await Promise.all(
+        records.map((record) =>
+          storageService.update(record).then(
+            () => 'updated',
+            (error) => error
+          )
+        )
+      )
+
+      expect(results.filter((result) => result === 'updated')).toHaveLength(1)
+      expect(results.filter((result) => result instanceof RecordConflictError)).toHaveLength(2)
     })
   })
 
@@ -296,5 +330,62 @@ describe('IndyStorageService', () => {
 
       expect(indySpy).toBeCalledWith(expect.anything(), expect.anything(), expectedQuery, expect.anything())
     })
+
+    it('paginates the records using limit and offset', async () => {
+      const records = []
+      for (let i = 0; i < 5; i++) {
+        records.push(await insertRecord({ tags: { myTag: 'foobar' } }))
+      }
+
+      const page = await storageService.findByQuery(TestRecord, { myTag: 'foobar' }, { limit: 2, offset: 1 })
+
+      expect(page.length).toBe(2)
+      expect(records).toEqual(expect.arrayContaining(page))
+    })
+
+    it('sorts the records by tag value and createdAt', async () => {
+      const first = await insertRecord({ tags: { myTag: 'b' } })
+      const second = await insertRecord({ tags: { myTag: 'a' } })
+      const third = await insertRecord({ tags: { otherTag: 'c' } })
+
+      first.createdAt = new Date('2022-01-02')
+      second.createdAt = new Date('2022-01-01')
+      third.createdAt = new Date('2022-01-03')
+      await Promise.all([first, second, third].map((record) => storageService.update(record)))
+
+      expect(await storageService.getAll(TestRecord, { sortBy: 'myTag' })).toEqual([second, first, third])
+      expect(await storageService.getAll(TestRecord, { sortBy: 'myTag', sortOrder: 'desc' })).toEqual([
+        first,
+        second,
+        third,
+      ])
+      expect(await storageService.getAll(TestRecord, { sortBy: 'createdAt', limit: 2, offset: 1 })).toEqual([
+        first,
+        third,
+      ])
+    })
+
+    it('sorts records that were stored without the created at tag by createdAt', async () => {
+      const first = new TestRecord({ id: 'first', foo: 'bar', tags: {} })
+      first.createdAt = new Date('2022-01-02')
+      const second = new TestRecord({ id: 'second', foo: 'bar', tags: {} })
+      second.createdAt = new Date('2022-01-01')
+
+      await storageService.save(first)
+      await indy.addWalletRecord(wallet.handle, TestRecord.type, second.id, JSON.stringify(second.toJSON()), {})
+
+      expect(await storageService.getAll(TestRecord, { sortBy: 'createdAt' })).toEqual([second, first])
+    })
+  })
+
+  describe('count()', () => {
+    it('should count the records that match the query', async () => {
+      await insertRecord({ tags: { myTag: 'foobar' } })
+      await insertRecord({ tags: { myTag: 'foobar' } })
+      await insertRecord({ tags: { myTag: 'notfoobar' } })
+
+      expect(await storageService.count(TestRecord, { myTag: 'foobar' })).toBe(2)
+      expect(await storageService.count(TestRecord, {})).toBe(3)
+    })
   })
 })
@@ -1,9 +1,11 @@
 import type { TagsBase } from '../BaseRecord'
 import type { RecordDeletedEvent, RecordSavedEvent, RecordUpdatedEvent } from '../RepositoryEvents'
+import type { StorageService } from '../StorageService'
 
-import { getAgentConfig, mockFunction } from '../../../tests/helpers'
+import { InMemoryStorageService } from '../../../../../tests/InMemoryStorageService'
+import { getAgentConfig, mockFunction, mockProperty } from '../../../tests/helpers'
 import { EventEmitter } from '../../agent/EventEmitter'
-import { AriesFrameworkError, RecordDuplicateError, RecordNotFoundError } from '../../error'
+import { AriesFrameworkError, RecordConflictError, RecordDuplicateError, RecordNotFoundError } from '../../error'
 import { IndyStorageService } from '../IndyStorageService'
 import { Repository } from '../Repository'
 import { RepositoryEventTypes } from '../RepositoryEvents'
@@ -93,6 +95,65 @@ describe('Repository', () => {
     })
   })
 
+  describe('updateWithRetry()', () => {
+    it('should apply the update to the latest version of the record when the record was updated concurrently', async () => {
+      mockFunction(storageMock.getById)
+        .mockResolvedValueOnce(getRecord({ id: 'test-id', tags: { myTag: 'stale' } }))
+        .mockResolvedValueOnce(getRecord({ id: 'test-id', tags: { myTag: 'latest' } }))
+      mockFunction(storageMock.update)
+        .mockRejectedValueOnce(new RecordConflictError('conflict', { recordType: TestRecord.type }))
+        .mockResolvedValueOnce()
+
+      const update = jest.fn((record: TestRecord) => {
+        record.foo = 'updated'
+      })
+      const record = await repository.updateWithRetry('test-id', update)
+
+      expect(update).toHaveBeenCalledTimes(2)
+      expect(storageMock.update).toHaveBeenCalledTimes(2)
+      expect(record.foo).toBe('updated')
+      expect(record.getTags()).toEqual({ myTag: 'latest' })
+    })
+
+    it('should throw RecordConflictError when the update still conflicts after the maximum number of retries', async () => {
+      mockFunction(storageMock.getById).mockImplementation(async () => getRecord({ id: 'test-id' }))
+      mockFunction(storageMock.update).mockRejectedValue(
+        new RecordConflictError('conflict', { recordType: TestRecord.type })
+      )
+
+      await expect(repository.updateWithRetry('test-id', jest.fn(), { maxRetries: 2 })).rejects.toThrowError(
+        RecordConflictError
+      )
+      expect(storageMock.update).toHaveBeenCalledTimes(3)
+    })
+
+    it('should not retry on other errors', async () => {
+      mockFunction(storageMock.getById).mockImplementation(async () => getRecord({ id: 'test-id' }))
+      mockFunction(storageMock.update).mockRejectedValue(
+        new RecordNotFoundError('not found', { recordType: TestRecord.type })
+      )
+
+      await expect(repository.updateWithRetry('test-id', jest.fn())).rejects.toThrowError(RecordNotFoundError)
+      expect(storageMock.update).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not lose concurrent updates with a storage service that checks the record version', async () => {
+      const storageService = new InMemoryStorageService<TestRecord>()
+      const inMemoryRepository = new Repository(TestRecord, storageService, eventEmitter)
+      await inMemoryRepository.save(getRecord({ id: 'test-id', tags: {} }))
+
+      await Promise.all([
+        inMemoryRepository.updateWithRetry('test-id', (record) => record.setTag('first', 'updated')),
+        inMemoryRepository.updateWithRetry('test-id', (record) => record.setTag('second', 'updated')),
+      ])
+
+      const record = await inMemoryRepository.getById('test-id')
+      expect(record.getTags()).toEqual({ first: 'updated', second: 'updated' })
+      expect(record.version).toBe(2)
+      await expect(inMemoryRepository.update(getRecord({ id: 'test-id' }))).rejects.toThrowError(RecordConflictError)
+    })
+  })
+
   describe('delete()', () => {
     it('should delete the record using the storage service', async () => {
       const record = getRecord({ id: 'test-id' })
@@ -181,7 +242,7 @@ describe('Repository', () => {
 
       const returnValue = await repository.getAll()
 
-      expect(storageMock.getAll).toBeCalledWith(TestRecord)
+      expect(storageMock.getAll).toBeCalledWith(TestRecord, undefined)
       expect(returnValue).toEqual(expect.arrayContaining([record, record2]))
     })
   })
@@ -194,9 +255,44 @@ describe('Repository', () => {
 
       const returnValue = await repository.findByQuery({ something: 'interesting' })
 
-      expect(storageMock.findByQuery).toBeCalledWith(TestRecord, { something: 'interesting' })
+      expect(storageMock.findByQuery).toBeCalledWith(TestRecord, { something: 'interesting' }, undefined)
       expect(returnValue).toEqual(expect.arrayContaining([record, record2]))
     })
+
+    it('should pass the query options to the storage service', async () => {
+      mockFunction(storageMock.findByQuery).mockReturnValue(Promise.resolve([]))
+
+      await repository.findByQuery({ something: 'interesting' }, { limit: 10, offset: 20, sortBy: 'createdAt' })
+
+      expect(storageMock.findByQuery).toBeCalledWith(
+        TestRecord,
+        { something: 'interesting' },
+        { limit: 10, offset: 20, sortBy: 'createdAt' }
+      )
+    })
+  })
+
+  describe('count()', () => {
+    it('should count the records using the storage service', async () => {
+      mockFunction(storageMock.count).mockReturnValue(Promise.resolve(5))
+
+      const returnValue = await repository.count({ something: 'interesting' })
+
+      expect(storageMock.count).toBeCalledWith(TestRecord, { something: 'interesting' })
+      expect(returnValue).toBe(5)
+    })
+
+    it('should count the records found by query if the storage service does not support counting', async () => {
+      const record = getRecord({ id: 'test-id' })
+      const record2 = getRecord({ id: 'test-id2' })
+      mockFunction(storageMock.findByQuery).mockReturnValue(Promise.resolve([record, record2]))
+      mockProperty<StorageService<TestRecord>, 'count'>(storageMock, 'count', undefined)
+
+      const returnValue = await repository.count({ something: 'interesting' })
+
+      expect(storageMock.findByQuery).toBeCalledWith(TestRecord, { something: 'interesting' })
+      expect(returnValue).toBe(2)
+    })
   })
 
   describe('findSingleByQuery()', () => {
@@ -206,7 +302,7 @@ describe('Repository', () => {
 
       const returnValue = await repository.findSingleByQuery({ something: 'interesting' })
 
-      expect(storageMock.findByQuery).toBeCalledWith(TestRecord, { something: 'interesting' })
+      expect(storageMock.findByQuery).toBeCalledWith(TestRecord, { something: 'interesting' }, { limit: 2 })
       expect(returnValue).toBe(record)
     })
 
@@ -215,7 +311,7 @@ describe('Repository', () => {
 
       const returnValue = await repository.findSingleByQuery({ something: 'interesting' })
 
-      expect(storageMock.findByQuery).toBeCalledWith(TestRecord, { something: 'interesting' })
+      expect(storageMock.findByQuery).toBeCalledWith(TestRecord, { something: 'interesting' }, { limit: 2 })
       expect(returnValue).toBeNull()
     })
 
@@ -225,7 +321,7 @@ describe('Repository', () => {
       mockFunction(storageMock.findByQuery).mockReturnValue(Promise.resolve([record, record2]))
 
       expect(repository.findSingleByQuery({ something: 'interesting' })).rejects.toThrowError(RecordDuplicateError)
-      expect(storageMock.findByQuery).toBeCalledWith(TestRecord, { something: 'interesting' })
+      expect(storageMock.findByQuery).toBeCalledWith(TestRecord, { something: 'interesting' }, { limit: 2 })
     })
   })
 
@@ -236,7 +332,7 @@ describe('Repository', () => {
 
       const returnValue = await repository.getSingleByQuery({ something: 'interesting' })
 
-      expect(storageMock.findByQuery).toBeCalledWith(TestRecord, { something: 'interesting' })
+      expect(storageMock.findByQuery).toBeCalledWith(TestRecord, { something: 'interesting' }, { limit: 2 })
       expect(returnValue).toBe(record)
     })
 
@@ -244,7 +340,7 @@ describe('Repository', () => {
       mockFunction(storageMock.findByQuery).mockReturnValue(Promise.resolve([]))
 
       expect(repository.getSingleByQuery({ something: 'interesting' })).rejects.toThrowError(RecordNotFoundError)
-      expect(storageMock.findByQuery).toBeCalledWith(TestRecord, { something: 'interesting' })
+      expect(storageMock.findByQuery).toBeCalledWith(TestRecord, { something: 'interesting' }, { limit: 2 })
     })
 
     it('should throw RecordDuplicateError if more than one record is returned by the storage service', async () => {
@@ -253,7 +349,7 @@ describe('Repository', () => {
       mockFunction(storageMock.findByQuery).mockReturnValue(Promise.resolve([record, record2]))
 
       expect(repository.getSingleByQuery({ something: 'interesting' })).rejects.toThrowError(RecordDuplicateError)
-      expect(storageMock.findByQuery).toBeCalledWith(TestRecord, { something: 'interesting' })
+      expect(storageMock.findByQuery).toBeCalledWith(TestRecord, { something: 'interesting' }, { limit: 2 })
     })
   })
 })
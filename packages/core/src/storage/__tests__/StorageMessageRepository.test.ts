@@ -0,0 +1,182 @@
+import type { EncryptedMessage } from '../../types'
+import type { BaseRecord } from '../BaseRecord'
+import type { QueuedMessageDroppedEvent } from '../MessageRepositoryEvents'
+import type { StorageService } from '../StorageService'
+import type { QueueConfigRecord } from '../queued-message'
+
+import { InMemoryStorageService } from '../../../../../tests/InMemoryStorageService'
+import { getAgentConfig } from '../../../tests/helpers'
+import { EventEmitter } from '../../agent/EventEmitter'
+import { MessageRepositoryEventTypes, QueuedMessageDropReason } from '../MessageRepositoryEvents'
+import { StorageMessageRepository } from '../StorageMessageRepository'
+import { QueueConfigRepository, QueuedMessageRecord, QueuedMessageRepository } from '../queued-message'
+
+const getEncryptedMessage = (ciphertext: string): EncryptedMessage => ({
+  protected: 'protected',
+  iv: 'iv',
+  ciphertext,
+  tag: 'tag',
+})
+
+describe('StorageMessageRepository', () => {
+  let storageService: InMemoryStorageService<BaseRecord>
+  let queuedMessageRepository: QueuedMessageRepository
+
+  const getMessageRepository = (extraConfig = {}) => {
+    const agentConfig = getAgentConfig('StorageMessageRepository', extraConfig)
+    const eventEmitter = new EventEmitter(agentConfig)
+    queuedMessageRepository = new QueuedMessageRepository(
+      storageService as unknown as StorageService<QueuedMessageRecord>,
+      eventEmitter
+    )
+
+    return {
+      eventEmitter,
+      messageRepository: new StorageMessageRepository(
+        agentConfig,
+        queuedMessageRepository,
+        new QueueConfigRepository(storageService as unknown as StorageService<QueueConfigRecord>, eventEmitter),
+        eventEmitter
+      ),
+    }
+  }
+
+  beforeEach(() => {
+    storageService = new InMemoryStorageService()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  test('queues messages per connection, in the order they were queued', async () => {
+    const { messageRepository } = getMessageRepository()
+
+    // All messages are queued in the same millisecond
+    jest.useFakeTimers('modern').setSystemTime(new Date('2022-01-01'))
+    for (const ciphertext of ['first', 'second', 'third']) {
+      await messageRepository.add('connection-1', getEncryptedMessage(ciphertext))
+    }
+    await messageRepository.add('connection-2', getEncryptedMessage('other'))
+
+    expect(await messageRepository.getAvailableMessageCount('connection-1')).toBe(3)
+    expect(await messageRepository.getAvailableMessageCount('connection-2')).toBe(1)
+
+    expect(await messageRepository.takeFromQueue('connection-1', 1, true)).toEqual([getEncryptedMessage('first')])
+    expect(await messageRepository.getAvailableMessageCount('connection-1')).toBe(3)
+
+    expect(await messageRepository.takeFromQueue('connection-1')).toEqual([
+      getEncryptedMessage('first'),
+      getEncryptedMessage('second'),
+      getEncryptedMessage('third'),
+    ])
+    expect(await messageRepository.getAvailableMessageCount('connection-1')).toBe(0)
+  })
+
+  test('retrieves the queue of a connection from storage in pages', async () => {
+    const { messageRepository } = getMessageRepository()
+    for (let i = 0; i < 60; i++) {
+      await messageRepository.add('connection-1', getEncryptedMessage(`message-${i}`))
+    }
+
+    const findByQuerySpy = jest.spyOn(storageService, 'findByQuery')
+
+    const messages = await messageRepository.takeFromQueue('connection-1')
+    expect(messages).toHaveLength(60)
+    expect(messages[59]).toEqual(getEncryptedMessage('message-59'))
+
+    expect(findByQuerySpy).toHaveBeenCalledTimes(2)
+    expect(findByQuerySpy).toHaveBeenNthCalledWith(
+      1,
+      QueuedMessageRecord,
+      { connectionId: 'connection-1' },
+      { offset: 0, limit: 50, sortBy: 'sequence' }
+    )
+    expect(findByQuerySpy).toHaveBeenNthCalledWith(
+      2,
+      QueuedMessageRecord,
+      { connectionId: 'connection-1' },
+      { offset: 50, limit: 50, sortBy: 'sequence' }
+    )
+  })
+
+  test('drops expired messages', async () => {
+    const { messageRepository, eventEmitter } = getMessageRepository({ queuedMessageTtlMs: 1000 })
+    const droppedListener = jest.fn()
+    eventEmitter.on<QueuedMessageDroppedEvent>(MessageRepositoryEventTypes.QueuedMessageDropped, droppedListener)
+
+    jest.useFakeTimers('modern').setSystemTime(new Date('2022-01-01T00:00:00Z'))
+    await messageRepository.add('connection-1', getEncryptedMessage('expired'))
+    jest.setSystemTime(new Date('2022-01-01T00:00:00.500Z'))
+    await messageRepository.add('connection-1', getEncryptedMessage('new'))
+
+    const [expiredMessage] = await queuedMessageRepository.findByConnectionId('connection-1', { limit: 1 })
+    expect(expiredMessage.expiresAt).toEqual(new Date('2022-01-01T00:00:01Z'))
+
+    jest.setSystemTime(new Date('2022-01-01T00:00:01Z'))
+    expect(await messageRepository.getAvailableMessageCount('connection-1')).toBe(1)
+    expect(await messageRepository.takeFromQueue('connection-1')).toEqual([getEncryptedMessage('new')])
+    expect(droppedListener).toHaveBeenCalledTimes(1)
+    expect(droppedListener).toHaveBeenCalledWith({
+      type: MessageRepositoryEventTypes.QueuedMessageDropped,
+      payload: {
+        connectionId: 'connection-1',
+        encryptedMessage: getEncryptedMessage('expired'),
+        reason: QueuedMessageDropReason.Expired,
+      },
+    })
+  })
+
+  test('drops the oldest messages when the maximum queue size is reached', async () => {
+    const { messageRepository, eventEmitter } = getMessageRepository({ maximumQueuedMessages: 2 })
+    const droppedListener = jest.fn()
+    eventEmitter.on<QueuedMessageDroppedEvent>(MessageRepositoryEventTypes.QueuedMessageDropped, droppedListener)
+
+    for (const ciphertext of ['first', 'second', 'third']) {
+      await messageRepository.add('connection-1', getEncryptedMessage(ciphertext))
+    }
+
+    expect(await messageRepository.takeFromQueue('connection-1')).toEqual([
+      getEncryptedMessage('second'),
+      getEncryptedMessage('third'),
+    ])
+    expect(droppedListener).toHaveBeenCalledTimes(1)
+    expect(droppedListener).toHaveBeenCalledWith({
+      type: MessageRepositoryEventTypes.QueuedMessageDropped,
+      payload: {
+        connectionId: 'connection-1',
+        encryptedMessage: getEncryptedMessage('first'),
+        reason: QueuedMessageDropReason.QueueFull,
+      },
+    })
+  })
+
+  test('applies the queue config of a connection instead of the agent config', async () => {
+    const { messageRepository } = getMessageRepository({ maximumQueuedMessages: 2, queuedMessageTtlMs: 1000 })
+
+    await messageRepository.setQueueConfig('connection-1', { maximumQueuedMessages: 1 })
+    expect(await messageRepository.getQueueConfig('connection-1')).toEqual({
+      maximumQueuedMessages: 1,
+      queuedMessageTtlMs: 1000,
+    })
+    expect(await messageRepository.getQueueConfig('connection-2')).toEqual({
+      maximumQueuedMessages: 2,
+      queuedMessageTtlMs: 1000,
+    })
+
+    for (const connectionId of ['connection-1', 'connection-2']) {
+      await messageRepository.add(connectionId, getEncryptedMessage('first'))
+      await messageRepository.add(connectionId, getEncryptedMessage('second'))
+    }
+
+    expect(await messageRepository.getAvailableMessageCount('connection-1')).toBe(1)
+    expect(await messageRepository.getAvailableMessageCount('connection-2')).toBe(2)
+
+    // Updating the config replaces the existing config of the connection
+    await messageRepository.setQueueConfig('connection-1', { queuedMessageTtlMs: 5000 })
+    expect(await messageRepository.getQueueConfig('connection-1')).toEqual({
+      maximumQueuedMessages: 2,
+      queuedMessageTtlMs: 5000,
+    })
+  })
+})
@@ -0,0 +1,48 @@
+import type { DependencyManager } from '../../plugins'
+import type { BackupExportImportConfig } from './BackupService'
+
+import { injectable, module } from '../../plugins'
+
+import { BackupService } from './BackupService'
+
+@module()
+@injectable()
+export class BackupModule {
+  private backupService: BackupService
+
+  public constructor(backupService: BackupService) {
+    this.backupService = backupService
+  }
+
+  /**
+   * Export all records of the agent into an encrypted JSON archive. In contrast to `agent.wallet.export`, the
+   * archive is not bound to a specific storage implementation, and can be imported into any storage service.
+   *
+   * Keys stored in the wallet are not part of the archive.
+   */
+  public async export(exportConfig: BackupExportImportConfig): Promise<void> {
+    await this.backupService.export(exportConfig)
+  }
+
+  /**
+   * Import all records from an encrypted JSON archive created using {@link BackupModule.export}. If the archive was
+   * created by an older version of the framework, the storage of the agent must be updated afterwards, which is done
+   * on agent initialization if `autoUpdateStorageOnStartup` is enabled.
+   *
+   * No records are imported if the archive is invalid, and the imported records are rolled back if the import fails.
+   */
+  public async import(importConfig: BackupExportImportConfig): Promise<void> {
+    await this.backupService.import(importConfig)
+  }
+
+  /**
+   * Registers the dependencies of the backup module on the dependency manager.
+   */
+  public static register(dependencyManager: DependencyManager) {
+    // Api
+    dependencyManager.registerContextScoped(BackupModule)
+
+    // Services
+    dependencyManager.registerSingleton(BackupService)
+  }
+}
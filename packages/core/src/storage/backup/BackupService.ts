@@ -0,0 +1,409 @@
+import type { Logger } from '../../logger'
+import type { VersionString } from '../../utils/version'
+import type { BaseRecord } from '../BaseRecord'
+import type { BaseRecordConstructor } from '../StorageService'
+
+import { deriveKey } from '@stablelib/pbkdf2'
+import { randomBytes } from '@stablelib/random'
+import { SHA256 } from '@stablelib/sha256'
+
+import { AgentConfig } from '../../agent/AgentConfig'
+import { InjectionSymbols } from '../../constants'
+import {
+  A256CBC_HS512_IV_LENGTH,
+  A256CBC_HS512_KEY_LENGTH,
+  decryptA256CbcHs512,
+  encryptA256CbcHs512,
+} from '../../crypto/jose/aesCbcHmacSha2'
+import { RecordDuplicateError } from '../../error'
+import { DependencyManager, inject, injectable } from '../../plugins'
+import { JsonEncoder } from '../../utils/JsonEncoder'
+import { JsonTransformer } from '../../utils/JsonTransformer'
+import { TypedArrayEncoder } from '../../utils/TypedArrayEncoder'
+import { isFirstVersionHigherThanSecond, parseVersionString } from '../../utils/version'
+import { StorageService } from '../StorageService'
+import { StorageUpdateService } from '../migration/StorageUpdateService'
+import { StorageVersionRecord } from '../migration/repository/StorageVersionRecord'
+import { CURRENT_FRAMEWORK_STORAGE_VERSION } from '../migration/updates'
+
+import { BackupError } from './error/BackupError'
+
+export const BACKUP_ARCHIVE_TYPE = 'afj-records-backup'
+
+const PBKDF2_SALT_LENGTH = 16
+
+// The header of the archive is only authenticated after the key is derived, so the number of iterations is not
+// read from the archive, to prevent a crafted archive from making the key derivation arbitrarily expensive
+const PBKDF2_ITERATIONS = 100000
+
+// The maximum number of records that are retrieved from the storage and encrypted together
+const BACKUP_CHUNK_SIZE = 100
+
+export interface BackupExportImportConfig {
+  /**
+   * The key used to encrypt or decrypt the archive
+   */
+  key: string
+  path: string
+}
+
+/**
+ * Header of the backup archive. The header is not encrypted, but it is authenticated as part of every chunk of
+ * encrypted records.
+ */
+interface BackupArchiveHeader {
+  type: typeof BACKUP_ARCHIVE_TYPE
+  storageVersion: VersionString
+  kdf: {
+    alg: 'PBKDF2-SHA256'
+    salt: string
+    iterations: number
+  }
+  enc: 'A256CBC-HS512'
+}
+
+/**
+ * A chunk of encrypted records. Every chunk contains the records of a single record type, and is encrypted
+ * separately so the records don't have to be kept in memory all at once.
+ */
+interface BackupArchiveChunk {
+  iv: string
+  ciphertext: string
+  tag: string
+}
+
+interface BackupArchive extends BackupArchiveHeader {
+  chunks: BackupArchiveChunk[]
+}
+
+/**
+ * A record in the backup archive. The value is the JSON representation of the record, which includes the custom
+ * tags and metadata of the record.
+ */
+interface BackupRecord {
+  type: string
+  id: string
+  value: Record<string, unknown>
+}
+
+interface ChunkEncryptionOptions {
+  encryptionKey: Uint8Array
+  header: BackupArchiveHeader
+  index: number
+  isLast: boolean
+}
+
+/**
+ * A record written to the storage during an import, with the record it replaced (if any) so the import can be
+ * rolled back.
+ */
+interface ImportedRecord {
+  recordClass: BaseRecordConstructor<BaseRecord>
+  id: string
+  existingRecord?: BaseRecord
+}
+
+@injectable()
+export class BackupService {
+  private storageService: StorageService<BaseRecord>
+  private storageUpdateService: StorageUpdateService
+  private dependencyManager: DependencyManager
+  private agentConfig: AgentConfig
+  private logger: Logger
+
+  public constructor(
+    @inject(InjectionSymbols.StorageService) storageService: StorageService<BaseRecord>,
+    storageUpdateService: StorageUpdateService,
+    dependencyManager: DependencyManager,
+    agentConfig: AgentConfig
+  ) {
+    this.storageService = storageService
+    this.storageUpdateService = storageUpdateService
+    this.dependencyManager = dependencyManager
+    this.agentConfig = agentConfig
+    this.logger = agentConfig.logger
+  }
+
+  /**
+   * Export all records of the record classes registered on the agent into an encrypted JSON archive. The archive
+   * includes the storage version of the agent, so the records can be updated after they are imported by a newer
+   * version of the framework.
+   *
+   * Only records are exported. Keys stored in the wallet (e.g. the keys of created dids) are not part of the archive.
+   *
+   * The records are retrieved from the storage and encrypted in chunks, one record type at a time, so only the
+   * encrypted archive and a single chunk of records are kept in memory while exporting.
+   */
+  public async export({ key, path }: BackupExportImportConfig) {
+    const storageVersion = await this.storageUpdateService.getCurrentStorageVersion()
+
+    const header: BackupArchiveHeader = {
+      type: BACKUP_ARCHIVE_TYPE,
+      storageVersion,
+      kdf: {
+        alg: 'PBKDF2-SHA256',
+        salt: TypedArrayEncoder.toBase64(randomBytes(PBKDF2_SALT_LENGTH)),
+        iterations: PBKDF2_ITERATIONS,
+      },
+      enc: 'A256CBC-HS512',
+    }
+    const encryptionKey = this.deriveEncryptionKey(key, header)
+
+    const recordChunks = this.readRecordChunks()
+    const chunks: BackupArchiveChunk[] = []
+    let recordCount = 0
+
+    // A chunk is only encrypted once the next chunk is read, as the last chunk is marked as such
+    let next = await recordChunks.next()
+    do {
+      const records = next.done ? [] : next.value
+      next = next.done ? next : await recordChunks.next()
+
+      chunks.push(this.encryptChunk(records, { encryptionKey, header, index: chunks.length, isLast: !!next.done }))
+      recordCount += records.length
+    } while (!next.done)
+
+    const archive: BackupArchive = { ...header, chunks }
+
+    await this.agentConfig.fileSystem.write(path, JsonEncoder.toString(archive))
+    this.logger.info(`Exported ${recordCount} record(s) to backup archive`, { path, storageVersion })
+  }
+
+  /**
+   * Import the records from an encrypted JSON archive created using {@link BackupService.export} into the storage of
+   * the agent. Records that already exist in the storage are overwritten.
+   *
+   * The whole archive is decrypted and validated before any record is written to the storage. If writing a record
+   * fails, the records that were already imported are rolled back.
+   *
+   * The storage version of the agent is set to the storage version of the archive. If the archive was created by an
+   * older version of the framework, the storage must be updated afterwards using the `UpdateAssistant`.
+   *
+   * @throws {BackupError} if the archive can't be decrypted, was created by a newer version of the framework,
+   * contains records of a type that is not registered on the agent or the records can't be written to the storage
+   */
+  public async import({ key, path }: BackupExportImportConfig) {
+    const { chunks, ...header } = this.parseArchive(await this.agentConfig.fileSystem.read(path))
+
+    if (
+      isFirstVersionHigherThanSecond(
+        parseVersionString(header.storageVersion),
+        parseVersionString(CURRENT_FRAMEWORK_STORAGE_VERSION)
+      )
+    ) {
+      throw new BackupError(
+        `Backup archive has storage version ${header.storageVersion}, which is newer than the storage version ${CURRENT_FRAMEWORK_STORAGE_VERSION} of the framework`
+      )
+    }
+
+    const encryptionKey = this.deriveEncryptionKey(key, header)
+    const recordClasses = new Map(this.dependencyManager.registeredRecordClasses.map((c) => [c.type, c]))
+
+    // Make sure all records can be imported before writing anything to the storage. The chunks are decrypted again
+    // while importing, so the decrypted records don't have to be kept in memory.
+    const unknownTypes = new Set<string>()
+    for (let index = 0; index < chunks.length; index++) {
+      const records = this.decryptChunk(chunks[index], {
+        encryptionKey,
+        header,
+        index,
+        isLast: index === chunks.length - 1,
+      })
+
+      for (const { type } of records) {
+        if (!recordClasses.has(type)) unknownTypes.add(type)
+      }
+    }
+
+    if (unknownTypes.size > 0) {
+      throw new BackupError(
+        `Backup archive contains records of types that are not registered on the agent: ${Array.from(unknownTypes).join(
+          ', '
+        )}`
+      )
+    }
+
+    const importedRecords: ImportedRecord[] = []
+    try {
+      for (let index = 0; index < chunks.length; index++) {
+        const records = this.decryptChunk(chunks[index], {
+          encryptionKey,
+          header,
+          index,
+          isLast: index === chunks.length - 1,
+        })
+
+        for (const { type, value } of records) {
+          const recordClass = recordClasses.get(type) as BaseRecordConstructor<BaseRecord>
+
+          importedRecords.push(await this.importRecord(JsonTransformer.fromJSON(value, recordClass), recordClass))
+        }
+      }
+    } catch (error) {
+      await this.rollbackImport(importedRecords)
+
+      throw new BackupError(
+        `Importing the records from the backup archive failed. The ${importedRecords.length} record(s) that were already imported were rolled back`,
+        { cause: error }
+      )
+    }
+
+    await this.storageUpdateService.setCurrentStorageVersion(header.storageVersion)
+    this.logger.info(`Imported ${importedRecords.length} record(s) from backup archive`, {
+      path,
+      storageVersion: header.storageVersion,
+    })
+  }
+
+  /**
+   * Read the records of all registered record classes from the storage, in chunks of at most
+   * {@link BACKUP_CHUNK_SIZE} records of the same type.
+   */
+  private async *readRecordChunks(): AsyncGenerator<BackupRecord[]> {
+    for (const recordClass of this.dependencyManager.registeredRecordClasses) {
+      // The storage version is stored in the header of the archive
+      if (recordClass === StorageVersionRecord) continue
+
+      let offset = 0
+      let records: BaseRecord[]
+      do {
+        records = await this.storageService.getAll(recordClass, { limit: BACKUP_CHUNK_SIZE, offset })
+        offset += records.length
+
+        if (records.length > 0) {
+          yield records.map((record) => ({ type: record.type, id: record.id, value: JsonTransformer.toJSON(record) }))
+        }
+      } while (records.length === BACKUP_CHUNK_SIZE)
+
+      this.logger.debug(`Exported ${offset} record(s) of type ${recordClass.type}`)
+    }
+  }
+
+  private encryptChunk(records: BackupRecord[], options: ChunkEncryptionOptions): BackupArchiveChunk {
+    const iv = randomBytes(A256CBC_HS512_IV_LENGTH)
+    const { ciphertext, tag } = encryptA256CbcHs512({
+      key: options.encryptionKey,
+      iv,
+      plaintext: JsonEncoder.toBuffer({ records }),
+      aad: getAdditionalData(options),
+    })
+
+    return {
+      iv: TypedArrayEncoder.toBase64(iv),
+      ciphertext: TypedArrayEncoder.toBase64(ciphertext),
+      tag: TypedArrayEncoder.toBase64(tag),
+    }
+  }
+
+  private decryptChunk({ iv, ciphertext, tag }: BackupArchiveChunk, options: ChunkEncryptionOptions) {
+    try {
+      const plaintext = decryptA256CbcHs512({
+        key: options.encryptionKey,
+        iv: TypedArrayEncoder.fromBase64(iv),
+        ciphertext: TypedArrayEncoder.fromBase64(ciphertext),
+        tag: TypedArrayEncoder.fromBase64(tag),
+        aad: getAdditionalData(options),
+      })
+
+      return JsonEncoder.fromBuffer(plaintext).records as BackupRecord[]
+    } catch (error) {
+      throw new BackupError('Unable to decrypt backup archive. Make sure the key is correct', { cause: error })
+    }
+  }
+
+  private async importRecord(
+    record: BaseRecord,
+    recordClass: BaseRecordConstructor<BaseRecord>
+  ): Promise<ImportedRecord> {
+    // The version of the record is bound to the storage the record was exported from
+    record.version = undefined
+
+    try {
+      await this.storageService.save(record)
+      return { recordClass, id: record.id }
+    } catch (error) {
+      if (!(error instanceof RecordDuplicateError)) throw error
+
+      const existingRecord = await this.storageService.getById(recordClass, record.id)
+      record.version = existingRecord.version
+      await this.storageService.update(record)
+
+      return { recordClass, id: record.id, existingRecord }
+    }
+  }
+
+  /**
+   * Remove the imported records from the storage, and restore the records that were overwritten by the import.
+   */
+  private async rollbackImport(importedRecords: ImportedRecord[]) {
+    for (const { recordClass, id, existingRecord } of [...importedRecords].reverse()) {
+      try {
+        if (existingRecord) {
+          existingRecord.version = (await this.storageService.getById(recordClass, id)).version
+          await this.storageService.update(existingRecord)
+        } else {
+          await this.storageService.deleteById(recordClass, id)
+        }
+      } catch (error) {
+        this.logger.error(`Unable to roll back import of record with id ${id} of type ${recordClass.type}`, {
+          error,
+        })
+      }
+    }
+  }
+
+  private parseArchive(content: string): BackupArchive {
+    let archive: Partial<BackupArchive>
+    try {
+      archive = JsonEncoder.fromString(content)
+    } catch (error) {
+      throw new BackupError('Backup archive is not valid JSON', { cause: error })
+    }
+
+    if (archive.type !== BACKUP_ARCHIVE_TYPE) {
+      throw new BackupError(`Backup archive has invalid type ${archive.type}. Expected ${BACKUP_ARCHIVE_TYPE}`)
+    }
+
+    if (archive.kdf?.alg !== 'PBKDF2-SHA256' || archive.enc !== 'A256CBC-HS512') {
+      throw new BackupError('Backup archive uses an unsupported key derivation or encryption algorithm')
+    }
+
+    if (!Array.isArray(archive.chunks) || archive.chunks.length === 0) {
+      throw new BackupError('Backup archive does not contain any chunks of records')
+    }
+
+    if (archive.kdf.iterations !== PBKDF2_ITERATIONS) {
+      throw new BackupError(
+        `Backup archive uses ${archive.kdf.iterations} PBKDF2 iterations. Only archives with ${PBKDF2_ITERATIONS} iterations are supported`
+      )
+    }
+
+    return archive as BackupArchive
+  }
+
+  private deriveEncryptionKey(key: string, { kdf }: BackupArchiveHeader) {
+    return deriveKey(
+      SHA256,
+      TypedArrayEncoder.fromString(key),
+      TypedArrayEncoder.fromBase64(kdf.salt),
+      PBKDF2_ITERATIONS,
+      A256CBC_HS512_KEY_LENGTH
+    )
+  }
+}
+
+/**
+ * The header of the archive is authenticated as additional data of every chunk, so e.g. the storage version can't be
+ * changed without invalidating the archive. The position of the chunk in the archive, and whether it is the last
+ * chunk, are authenticated as well, so chunks can't be reordered or removed. The fields are taken in a fixed order,
+ * so the additional data doesn't depend on the serialization of the archive.
+ */
+function getAdditionalData({ header: { type, storageVersion, kdf, enc }, index, isLast }: ChunkEncryptionOptions) {
+  return JsonEncoder.toBuffer({
+    type,
+    storageVersion,
+    kdf: { alg: kdf.alg, salt: kdf.salt, iterations: kdf.iterations },
+    enc,
+    chunk: { index, isLast },
+  })
+}
@@ -0,0 +1,241 @@
+import type { BaseRecord } from '../../BaseRecord'
+import type { StorageService } from '../../StorageService'
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { InMemoryStorageService } from '../../../../../../tests/InMemoryStorageService'
+import { getAgentConfig } from '../../../../tests/helpers'
+import { EventEmitter } from '../../../agent/EventEmitter'
+import { RecordNotFoundError } from '../../../error'
+import { ConnectionRecord, DidExchangeRole, DidExchangeState } from '../../../modules/connections'
+import { GenericRecord } from '../../../modules/generic-records/repository/GenericRecord'
+import { DependencyManager } from '../../../plugins'
+import { JsonEncoder } from '../../../utils/JsonEncoder'
+import { StorageUpdateService } from '../../migration/StorageUpdateService'
+import { StorageVersionRecord } from '../../migration/repository/StorageVersionRecord'
+import { StorageVersionRepository } from '../../migration/repository/StorageVersionRepository'
+import { BackupService } from '../BackupService'
+import { BackupError } from '../error/BackupError'
+
+const agentConfig = getAgentConfig('BackupService')
+
+function createBackupService(storageService: InMemoryStorageService<BaseRecord>, dependencyManager: DependencyManager) {
+  const storageUpdateService = new StorageUpdateService(
+    agentConfig,
+    new StorageVersionRepository(
+      storageService as unknown as StorageService<StorageVersionRecord>,
+      new EventEmitter(agentConfig)
+    )
+  )
+
+  return {
+    storageUpdateService,
+    backupService: new BackupService(storageService, storageUpdateService, dependencyManager, agentConfig),
+  }
+}
+
+describe('BackupService', () => {
+  let backupPath: string
+  let dependencyManager: DependencyManager
+  let storageService: InMemoryStorageService<BaseRecord>
+  let backupService: BackupService
+  let storageUpdateService: StorageUpdateService
+
+  beforeEach(() => {
+    backupPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'afj-backup-')), 'backup.json')
+
+    dependencyManager = new DependencyManager()
+    dependencyManager.registerRecordClasses(ConnectionRecord, GenericRecord, StorageVersionRecord)
+
+    storageService = new InMemoryStorageService()
+    ;({ backupService, storageUpdateService } = createBackupService(storageService, dependencyManager))
+  })
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(backupPath), { recursive: true, force: true })
+  })
+
+  const saveRecords = async () => {
+    const connectionRecord = new ConnectionRecord({
+      role: DidExchangeRole.Requester,
+      state: DidExchangeState.Completed,
+      did: 'did:peer:1zQmSomeDid',
+      tags: { myTag: 'foobar' },
+    })
+    connectionRecord.metadata.set('myKey', { foo: 'bar' })
+    const genericRecord = new GenericRecord({ content: { hello: 'world' }, tags: { otherTag: 'value' } })
+
+    await storageService.save(connectionRecord)
+    await storageService.save(genericRecord)
+
+    return { connectionRecord, genericRecord }
+  }
+
+  it('should export the records into an archive that can be imported into another storage service', async () => {
+    const { connectionRecord, genericRecord } = await saveRecords()
+    await storageUpdateService.setCurrentStorageVersion('0.2')
+
+    await backupService.export({ key: 'secret', path: backupPath })
+
+    // The records are encrypted
+    const archive = JsonEncoder.fromString(fs.readFileSync(backupPath, 'utf8'))
+    expect(archive).toMatchObject({ type: 'afj-records-backup', storageVersion: '0.2', enc: 'A256CBC-HS512' })
+    expect(fs.readFileSync(backupPath, 'utf8')).not.toContain('foobar')
+
+    const otherStorageService = new InMemoryStorageService<BaseRecord>()
+    const { backupService: otherBackupService, storageUpdateService: otherStorageUpdateService } = createBackupService(
+      otherStorageService,
+      dependencyManager
+    )
+    await otherBackupService.import({ key: 'secret', path: backupPath })
+
+    const importedConnectionRecord = await otherStorageService.getById(ConnectionRecord, connectionRecord.id)
+    expect(importedConnectionRecord).toMatchObject({
+      id: connectionRecord.id,
+      createdAt: connectionRecord.createdAt,
+      did: 'did:peer:1zQmSomeDid',
+      role: DidExchangeRole.Requester,
+      state: DidExchangeState.Completed,
+    })
+    expect(importedConnectionRecord.getTags()).toEqual(connectionRecord.getTags())
+    expect(importedConnectionRecord.metadata.get('myKey')).toEqual({ foo: 'bar' })
+    expect(await otherStorageService.getById(GenericRecord, genericRecord.id)).toMatchObject({
+      content: { hello: 'world' },
+      _tags: { otherTag: 'value' },
+    })
+    expect(await otherStorageUpdateService.getCurrentStorageVersion()).toBe('0.2')
+  })
+
+  it('should overwrite records that already exist in the storage', async () => {
+    const { genericRecord } = await saveRecords()
+    await backupService.export({ key: 'secret', path: backupPath })
+
+    genericRecord.content = { hello: 'changed' }
+    await storageService.update(genericRecord)
+    await backupService.import({ key: 'secret', path: backupPath })
+
+    expect(await storageService.getById(GenericRecord, genericRecord.id)).toMatchObject({ content: { hello: 'world' } })
+  })
+
+  it('should encrypt the records in chunks', async () => {
+    const genericRecords = []
+    for (let i = 0; i < 150; i++) {
+      const genericRecord = new GenericRecord({ content: { index: i } })
+      await storageService.save(genericRecord)
+      genericRecords.push(genericRecord)
+    }
+
+    await backupService.export({ key: 'secret', path: backupPath })
+
+    const archive = JsonEncoder.fromString(fs.readFileSync(backupPath, 'utf8'))
+    expect(archive.chunks).toHaveLength(2)
+
+    const otherStorageService = new InMemoryStorageService<BaseRecord>()
+    const { backupService: otherBackupService } = createBackupService(otherStorageService, dependencyManager)
+    await otherBackupService.import({ key: 'secret', path: backupPath })
+
+    expect(await otherStorageService.getAll(GenericRecord)).toEqual(genericRecords)
+  })
+
+  it('should not import any records when a chunk was removed from the archive', async () => {
+    for (let i = 0; i < 150; i++) {
+      await storageService.save(new GenericRecord({ content: { index: i } }))
+    }
+    await backupService.export({ key: 'secret', path: backupPath })
+
+    const archive = JsonEncoder.fromString(fs.readFileSync(backupPath, 'utf8'))
+    fs.writeFileSync(backupPath, JsonEncoder.toString({ ...archive, chunks: archive.chunks.slice(0, 1) }))
+
+    const otherStorageService = new InMemoryStorageService<BaseRecord>()
+    const { backupService: otherBackupService } = createBackupService(otherStorageService, dependencyManager)
+
+    await expect(otherBackupService.import({ key: 'secret', path: backupPath })).rejects.toThrow(
+      new BackupError('Unable to decrypt backup archive. Make sure the key is correct')
+    )
+    expect(await otherStorageService.getAll(GenericRecord)).toEqual([])
+  })
+
+  it('should roll back the imported records when importing a record fails', async () => {
+    const { connectionRecord, genericRecord } = await saveRecords()
+    const failingRecord = new GenericRecord({ content: { hello: 'failing' } })
+    await storageService.save(failingRecord)
+    await backupService.export({ key: 'secret', path: backupPath })
+
+    const otherStorageService = new InMemoryStorageService<BaseRecord>()
+    const { backupService: otherBackupService, storageUpdateService: otherStorageUpdateService } = createBackupService(
+      otherStorageService,
+      dependencyManager
+    )
+    const existingRecord = new GenericRecord({ id: genericRecord.id, content: { hello: 'existing' } })
+    await otherStorageService.save(existingRecord)
+
+    const save = otherStorageService.save.bind(otherStorageService)
+    jest.spyOn(otherStorageService, 'save').mockImplementation(async (record) => {
+      if (record.id === failingRecord.id) throw new Error('Storage error')
+      await save(record)
+    })
+
+    await expect(otherBackupService.import({ key: 'secret', path: backupPath })).rejects.toThrow(
+      new BackupError(
+        'Importing the records from the backup archive failed. The 2 record(s) that were already imported were rolled back'
+      )
+    )
+
+    await expect(otherStorageService.getById(ConnectionRecord, connectionRecord.id)).rejects.toThrow(
+      RecordNotFoundError
+    )
+    expect(await otherStorageService.getById(GenericRecord, genericRecord.id)).toMatchObject({
+      content: { hello: 'existing' },
+    })
+    expect(await otherStorageService.getAll(GenericRecord)).toHaveLength(1)
+    expect(await otherStorageUpdateService.getCurrentStorageVersion()).toBe('0.1')
+  })
+
+  it('should throw an error when the archive is imported with an invalid key', async () => {
+    await saveRecords()
+    await backupService.export({ key: 'secret', path: backupPath })
+
+    await expect(backupService.import({ key: 'wrong', path: backupPath })).rejects.toThrow(
+      new BackupError('Unable to decrypt backup archive. Make sure the key is correct')
+    )
+  })
+
+  it('should throw an error when the archive contains records of an unregistered type', async () => {
+    await saveRecords()
+    await backupService.export({ key: 'secret', path: backupPath })
+
+    const otherDependencyManager = new DependencyManager()
+    otherDependencyManager.registerRecordClasses(GenericRecord)
+    const { backupService: otherBackupService } = createBackupService(storageService, otherDependencyManager)
+
+    await expect(otherBackupService.import({ key: 'secret', path: backupPath })).rejects.toThrow(
+      'Backup archive contains records of types that are not registered on the agent: ConnectionRecord'
+    )
+  })
+
+  it('should throw an error when the archive was created with a newer storage version', async () => {
+    await backupService.export({ key: 'secret', path: backupPath })
+
+    const archive = JsonEncoder.fromString(fs.readFileSync(backupPath, 'utf8'))
+    fs.writeFileSync(backupPath, JsonEncoder.toString({ ...archive, storageVersion: '99.0' }))
+
+    await expect(backupService.import({ key: 'secret', path: backupPath })).rejects.toThrow(
+      /Backup archive has storage version 99.0, which is newer than the storage version/
+    )
+  })
+
+  it('should throw an error when the archive uses a different number of key derivation iterations', async () => {
+    await backupService.export({ key: 'secret', path: backupPath })
+
+    const archive = JsonEncoder.fromString(fs.readFileSync(backupPath, 'utf8'))
+    fs.writeFileSync(backupPath, JsonEncoder.toString({ ...archive, kdf: { ...archive.kdf, iterations: 1e12 } }))
+
+    await expect(backupService.import({ key: 'secret', path: backupPath })).rejects.toThrow(
+      new BackupError(
+        'Backup archive uses 1000000000000 PBKDF2 iterations. Only archives with 100000 iterations are supported'
+      )
+    )
+  })
+})
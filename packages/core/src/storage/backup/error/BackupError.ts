@@ -0,0 +1,7 @@
+import { AriesFrameworkError } from '../../../error/AriesFrameworkError'
+
+export class BackupError extends AriesFrameworkError {
+  public constructor(message: string, { cause }: { cause?: Error } = {}) {
+    super(message, { cause })
+  }
+}
@@ -0,0 +1,3 @@
+export * from './BackupModule'
+export * from './BackupService'
+export * from './error/BackupError'
@@ -0,0 +1,243 @@
+import type { BaseRecord, TagsBase } from '../BaseRecord'
+import type { BaseRecordConstructor, Query, QueryOptions, StorageService } from '../StorageService'
+
+import { RecordDuplicateError, RecordNotFoundError } from '../../error'
+import { JsonTransformer } from '../../utils/JsonTransformer'
+
+export type StorageUpdateRecordAction = 'created' | 'updated' | 'deleted'
+
+export interface StorageUpdateRecordChange {
+  recordType: string
+  recordId: string
+  action: StorageUpdateRecordAction
+}
+
+interface DryRunRecord {
+  type: string
+  id: string
+  value: Record<string, unknown>
+  tags: TagsBase
+}
+
+interface PendingRecord extends Partial<DryRunRecord> {
+  type: string
+  id: string
+  action: StorageUpdateRecordAction
+}
+
+/**
+ * Storage service used for dry runs of storage updates. Records are read from the wrapped storage service, but
+ * all changes are kept in memory and never written to the wrapped storage service. The changes that would have
+ * been made to the storage can be retrieved using {@link DryRunStorageService.changes}.
+ */
+export class DryRunStorageService<T extends BaseRecord = BaseRecord> implements StorageService<T> {
+  private storageService: StorageService<T>
+  private pendingRecords = new Map<string, PendingRecord>()
+
+  // Serialized value and tags of records as they were in the wrapped storage before they were updated
+  private originalRecords = new Map<string, string>()
+
+  public constructor(storageService: StorageService<T>) {
+    this.storageService = storageService
+  }
+
+  /**
+   * The records that would have been created, updated or deleted. Records that were updated without changing
+   * their value or tags are not included.
+   */
+  public get changes(): StorageUpdateRecordChange[] {
+    return Array.from(this.pendingRecords.entries())
+      .filter(
+        ([key, record]) =>
+          record.action !== 'updated' || this.originalRecords.get(key) !== serializeRecord(record as DryRunRecord)
+      )
+      .map(([, record]) => ({ recordType: record.type, recordId: record.id, action: record.action }))
+  }
+
+  /** @inheritDoc */
+  public async save(record: T) {
+    const key = getKey(record.type, record.id)
+    const pendingRecord = this.pendingRecords.get(key)
+
+    const exists = pendingRecord
+      ? pendingRecord.action !== 'deleted'
+      : await this.existsInStorage(record.constructor as BaseRecordConstructor<T>, record.id)
+    if (exists) {
+      throw new RecordDuplicateError(`Record with id ${record.id} already exists`, { recordType: record.type })
+    }
+
+    // Saving a record that was deleted during the dry run replaces the record in the wrapped storage
+    this.setPendingRecord(record, pendingRecord ? 'updated' : 'created')
+  }
+
+  /** @inheritDoc */
+  public async update(record: T): Promise<void> {
+    const currentRecord = await this.getCurrentRecord(record.constructor as BaseRecordConstructor<T>, record.id)
+
+    this.setPendingRecord(record, currentRecord.action === 'created' ? 'created' : 'updated')
+  }
+
+  /** @inheritDoc */
+  public async delete(record: T) {
+    await this.deleteById(record.constructor as BaseRecordConstructor<T>, record.id)
+  }
+
+  /** @inheritDoc */
+  public async deleteById(recordClass: BaseRecordConstructor<T>, id: string): Promise<void> {
+    const currentRecord = await this.getCurrentRecord(recordClass, id)
+    const key = getKey(recordClass.type, id)
+
+    // Records that were created during the dry run are not present in the wrapped storage
+    if (currentRecord.action === 'created') {
+      this.pendingRecords.delete(key)
+    } else {
+      this.pendingRecords.set(key, { type: recordClass.type, id, action: 'deleted' })
+    }
+  }
+
+  /** @inheritDoc */
+  public async getById(recordClass: BaseRecordConstructor<T>, id: string): Promise<T> {
+    const record = await this.getCurrentRecord(recordClass, id)
+
+    return recordToInstance(record, recordClass)
+  }
+
+  /** @inheritDoc */
+  public async getAll(recordClass: BaseRecordConstructor<T>, queryOptions?: QueryOptions): Promise<T[]> {
+    return this.findByQuery(recordClass, {}, queryOptions)
+  }
+
+  /** @inheritDoc */
+  public async findByQuery(
+    recordClass: BaseRecordConstructor<T>,
+    query: Query<T>,
+    { limit, offset = 0, sortBy, sortOrder }: QueryOptions = {}
+  ): Promise<T[]> {
+    // Query options are applied in memory, as the pending records need to be merged with the stored records first
+    const storedRecords = await this.storageService.findByQuery(recordClass, query)
+    const pendingRecords = Array.from(this.pendingRecords.values()).filter(
+      (record): record is PendingRecord & DryRunRecord =>
+        record.type === recordClass.type && record.action !== 'deleted' && matchesQuery(record.tags ?? {}, query)
+    )
+
+    const records = [
+      ...storedRecords
+        .filter((record) => !this.pendingRecords.has(getKey(record.type, record.id)))
+        .map(instanceToRecord),
+      ...pendingRecords,
+    ]
+
+    if (sortBy) {
+      const direction = sortOrder === 'desc' ? -1 : 1
+      const sortValue = (record: DryRunRecord) =>
+        (sortBy === 'createdAt' ? record.value.createdAt : record.tags[sortBy]) as string | undefined
+
+      records.sort((a, b) => {
+        const [aValue, bValue] = [sortValue(a), sortValue(b)]
+
+        // Records without a value to sort on are returned last
+        if (aValue === undefined || bValue === undefined) {
+          return Number(aValue === undefined) - Number(bValue === undefined)
+        }
+
+        return direction * String(aValue).localeCompare(String(bValue))
+      })
+    }
+
+    return records
+      .slice(offset, limit !== undefined ? offset + limit : undefined)
+      .map((record) => recordToInstance(record, recordClass))
+  }
+
+  /** @inheritDoc */
+  public async count(recordClass: BaseRecordConstructor<T>, query: Query<T>): Promise<number> {
+    const records = await this.findByQuery(recordClass, query)
+
+    return records.length
+  }
+
+  private setPendingRecord(record: T, action: StorageUpdateRecordAction) {
+    const key = getKey(record.type, record.id)
+
+    this.pendingRecords.set(key, { ...instanceToRecord(record), action })
+  }
+
+  private async getCurrentRecord(
+    recordClass: BaseRecordConstructor<T>,
+    id: string
+  ): Promise<PendingRecord & DryRunRecord> {
+    const key = getKey(recordClass.type, id)
+    const pendingRecord = this.pendingRecords.get(key)
+
+    if (pendingRecord?.action === 'deleted') {
+      throw new RecordNotFoundError(`record with id ${id} not found.`, { recordType: recordClass.type })
+    } else if (pendingRecord) {
+      return pendingRecord as PendingRecord & DryRunRecord
+    }
+
+    const storedRecord = instanceToRecord(await this.storageService.getById(recordClass, id))
+    if (!this.originalRecords.has(key)) {
+      this.originalRecords.set(key, serializeRecord(storedRecord))
+    }
+
+    return { ...storedRecord, action: 'updated' }
+  }
+
+  private async existsInStorage(recordClass: BaseRecordConstructor<T>, id: string) {
+    try {
+      await this.storageService.getById(recordClass, id)
+      return true
+    } catch (error) {
+      if (error instanceof RecordNotFoundError) return false
+      throw error
+    }
+  }
+}
+
+function getKey(type: string, id: string) {
+  return `${type}:${id}`
+}
+
+function instanceToRecord(record: BaseRecord): DryRunRecord {
+  const value = JsonTransformer.toJSON(record)
+  delete value._tags
+  delete value.version
+
+  return { type: record.type, id: record.id, value, tags: record.getTags() }
+}
+
+function recordToInstance<T extends BaseRecord>(record: DryRunRecord, recordClass: BaseRecordConstructor<T>): T {
+  const instance = JsonTransformer.fromJSON<T>(record.value, recordClass)
+  instance.id = record.id
+  instance.replaceTags(record.tags)
+
+  return instance
+}
+
+function serializeRecord({ value, tags }: DryRunRecord) {
+  return JSON.stringify({ value, tags })
+}
+
+function matchesQuery<T extends BaseRecord>(tags: TagsBase, query: Query<T>): boolean {
+  const { $and, $or, $not, ...simpleQuery } = query as Query<T> & {
+    $and?: Query<T>[]
+    $or?: Query<T>[]
+    $not?: Query<T>
+  }
+
+  if ($and && !$and.every((subQuery) => matchesQuery(tags, subQuery))) return false
+  if ($or && !$or.some((subQuery) => matchesQuery(tags, subQuery))) return false
+  if ($not && matchesQuery(tags, $not)) return false
+
+  return Object.entries(simpleQuery).every(([key, value]) => {
+    // Undefined values are ignored, in line with the other storage services
+    if (value === undefined) return true
+
+    const tagValue = tags[key]
+    if (Array.isArray(value)) {
+      return Array.isArray(tagValue) && value.every((item) => tagValue.includes(item))
+    }
+
+    return tagValue === value
+  })
+}
@@ -0,0 +1,18 @@
+import type { BaseEvent } from '../../agent/Events'
+import type { VersionString } from '../../utils/version'
+
+export enum StorageUpdateEventTypes {
+  StorageUpdateProgress = 'StorageUpdateProgress',
+}
+
+export interface StorageUpdateProgressEvent extends BaseEvent {
+  type: typeof StorageUpdateEventTypes.StorageUpdateProgress
+  payload: {
+    fromVersion: VersionString
+    toVersion: VersionString
+    recordType: string
+    recordId: string
+    processedRecords: number
+    totalRecords: number
+  }
+}
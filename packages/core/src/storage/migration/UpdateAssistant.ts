@@ -1,14 +1,35 @@
 import type { Agent } from '../../agent/Agent'
-import type { UpdateConfig } from './updates'
-
+import type { VersionString } from '../../utils/version'
+import type { Wallet } from '../../wallet/Wallet'
+import type { BaseRecord } from '../BaseRecord'
+import type { StorageService } from '../StorageService'
+import type { StorageUpdateRecordChange } from './DryRunStorageService'
+import type { StorageUpdateProgressEvent } from './StorageUpdateEvents'
+import type { UpdateAgentContext, UpdateConfig } from './updates'
+
+import { EventEmitter } from '../../agent/EventEmitter'
+import { InjectionSymbols } from '../../constants'
 import { AriesFrameworkError } from '../../error'
 import { isFirstVersionHigherThanSecond, parseVersionString } from '../../utils/version'
 import { WalletError } from '../../wallet/error/WalletError'
+import { DidCommMessageRepository } from '../didcomm'
 
+import { DryRunStorageService } from './DryRunStorageService'
+import { StorageUpdateEventTypes } from './StorageUpdateEvents'
 import { StorageUpdateService } from './StorageUpdateService'
 import { StorageUpdateError } from './error/StorageUpdateError'
 import { CURRENT_FRAMEWORK_STORAGE_VERSION, supportedUpdates } from './updates'
 
+export interface StorageUpdateDryRunResult {
+  fromVersion: VersionString
+  toVersion: VersionString
+
+  /**
+   * The records that would be created, updated or deleted by the update
+   */
+  changes: StorageUpdateRecordChange[]
+}
+
 export class UpdateAssistant {
   private agent: Agent
   private storageUpdateService: StorageUpdateService
@@ -75,6 +96,12 @@ export class UpdateAssistant {
     return neededUpdates
   }
 
+  /**
+   * Apply the needed updates to the agent storage. A backup of the wallet is created before the updates are applied,
+   * and restored if any of the updates fails. A {@link StorageUpdateProgressEvent} is emitted for every migrated record.
+   *
+   * @returns the identifier of the update, which is also used as identifier of the backup
+   */
   public async update() {
     const updateIdentifier = Date.now().toString()
 
@@ -131,6 +158,78 @@ export class UpdateAssistant {
     return updateIdentifier
   }
 
+  /**
+   * Run the needed updates without persisting any changes to the storage, and report which records would be
+   * created, updated or deleted by the update. Progress events are emitted on the agent the same way as
+   * for {@link UpdateAssistant.update}.
+   */
+  public async dryRun(): Promise<StorageUpdateDryRunResult> {
+    const currentStorageVersion = await this.storageUpdateService.getCurrentStorageVersion()
+    const neededUpdates = await this.getNeededUpdates()
+
+    if (neededUpdates.length == 0) {
+      return { fromVersion: currentStorageVersion, toVersion: currentStorageVersion, changes: [] }
+    }
+
+    const fromVersion = neededUpdates[0].fromVersion
+    const toVersion = neededUpdates[neededUpdates.length - 1].toVersion
+    this.agent.config.logger.info(
+      `Starting dry run of update process from version ${fromVersion} to version ${toVersion}. No changes will be made to the agent storage`
+    )
+
+    const storageService = new DryRunStorageService(
+      this.agent.dependencyManager.resolve<StorageService<BaseRecord>>(InjectionSymbols.StorageService)
+    )
+    const dryRunContext = this.createDryRunContext(storageService)
+
+    const emitProgressEvent = (event: StorageUpdateProgressEvent) => this.agent.events.emit(event)
+    dryRunContext.events.on(StorageUpdateEventTypes.StorageUpdateProgress, emitProgressEvent)
+
+    try {
+      for (const update of neededUpdates) {
+        this.agent.config.logger.info(
+          `Starting dry run of update from version ${update.fromVersion} to version ${update.toVersion}`
+        )
+        await update.doUpdate(dryRunContext, this.updateConfig)
+      }
+    } catch (error) {
+      this.agent.config.logger.error('Error during dry run of storage update', { cause: error })
+
+      throw new StorageUpdateError(`Error during dry run of storage update: ${error.message}`, { cause: error })
+    } finally {
+      dryRunContext.events.off(StorageUpdateEventTypes.StorageUpdateProgress, emitProgressEvent)
+    }
+
+    const changes = storageService.changes
+    this.agent.config.logger.info(`Dry run of update process finished. ${changes.length} record(s) would be changed`)
+
+    return { fromVersion, toVersion, changes }
+  }
+
+  /**
+   * Create the context the updates are run against during a dry run. Records are read from the storage of the agent,
+   * but all changes are kept in memory. No agent is constructed for the dry run: the dependencies of the modules of
+   * the agent are registered on a child of the dependency manager of the agent, so the repositories used by the updates
+   * are bound to the dry run storage service. Other dependencies (e.g. the wallet) are shared with the agent.
+   */
+  private createDryRunContext(storageService: DryRunStorageService): UpdateAgentContext {
+    const dependencyManager = this.agent.dependencyManager.createChild()
+    dependencyManager.registerInstance(InjectionSymbols.StorageService, storageService)
+    dependencyManager.registerInstance(
+      InjectionSymbols.Wallet,
+      this.agent.dependencyManager.resolve<Wallet>(InjectionSymbols.Wallet)
+    )
+
+    // Events of the dry run (e.g. record updated events) must not be emitted on the agent
+    const events = new EventEmitter(this.agent.config)
+    dependencyManager.registerInstance(EventEmitter, events)
+
+    dependencyManager.registerSingleton(DidCommMessageRepository)
+    dependencyManager.registerModules(...this.agent.dependencyManager.registeredModules)
+
+    return { config: this.agent.config, dependencyManager, events }
+  }
+
   private getBackupPath(backupIdentifier: string) {
     const fileSystem = this.agent.config.fileSystem
     return `${fileSystem.basePath}/afj/migration/backup/${backupIdentifier}`
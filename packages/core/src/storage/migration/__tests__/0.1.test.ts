@@ -81,6 +81,11 @@ describe('UpdateAssistant | v0.1 - v0.2', () => {
           toVersion: '0.2',
           doUpdate: expect.any(Function),
         },
+        {
+          fromVersion: '0.2',
+          toVersion: '0.3',
+          doUpdate: expect.any(Function),
+        },
       ])
 
       await updateAssistant.update()
@@ -141,6 +146,11 @@ describe('UpdateAssistant | v0.1 - v0.2', () => {
         toVersion: '0.2',
         doUpdate: expect.any(Function),
       },
+      {
+        fromVersion: '0.2',
+        toVersion: '0.3',
+        doUpdate: expect.any(Function),
+      },
     ])
 
     await updateAssistant.update()
@@ -0,0 +1,76 @@
+import { InMemoryStorageService } from '../../../../../../tests/InMemoryStorageService'
+import { RecordDuplicateError, RecordNotFoundError } from '../../../error'
+import { TestRecord } from '../../__tests__/TestRecord'
+import { DryRunStorageService } from '../DryRunStorageService'
+
+describe('DryRunStorageService', () => {
+  let storageService: InMemoryStorageService<TestRecord>
+  let dryRunStorageService: DryRunStorageService<TestRecord>
+  let storedRecord: TestRecord
+
+  beforeEach(async () => {
+    storageService = new InMemoryStorageService<TestRecord>()
+    dryRunStorageService = new DryRunStorageService(storageService)
+
+    storedRecord = new TestRecord({ id: 'stored-id', foo: 'bar', tags: { myTag: 'foobar' } })
+    await storageService.save(storedRecord)
+  })
+
+  it('should not write any changes to the wrapped storage service', async () => {
+    const beforeStorage = JSON.stringify(storageService.records)
+
+    await dryRunStorageService.save(new TestRecord({ id: 'new-id', foo: 'baz' }))
+    const record = await dryRunStorageService.getById(TestRecord, 'stored-id')
+    record.foo = 'baz'
+    await dryRunStorageService.update(record)
+
+    expect(JSON.parse(beforeStorage)).toEqual(storageService.records)
+  })
+
+  it('should return the pending changes when reading records', async () => {
+    const record = await dryRunStorageService.getById(TestRecord, 'stored-id')
+    record.replaceTags({ myTag: 'changed' })
+    await dryRunStorageService.update(record)
+    const newRecord = new TestRecord({ id: 'new-id', foo: 'baz', tags: { myTag: 'foobar' } })
+    await dryRunStorageService.save(newRecord)
+
+    expect(await dryRunStorageService.getById(TestRecord, 'stored-id')).toEqual(record)
+    expect(await dryRunStorageService.findByQuery(TestRecord, { myTag: 'foobar' })).toEqual([newRecord])
+    expect(await dryRunStorageService.count(TestRecord, { myTag: 'changed' })).toBe(1)
+
+    await dryRunStorageService.delete(record)
+    await expect(dryRunStorageService.getById(TestRecord, 'stored-id')).rejects.toThrowError(RecordNotFoundError)
+    expect(await dryRunStorageService.getAll(TestRecord)).toEqual([newRecord])
+  })
+
+  it('should throw the same errors as the wrapped storage service', async () => {
+    await expect(dryRunStorageService.save(storedRecord)).rejects.toThrowError(RecordDuplicateError)
+    await expect(dryRunStorageService.update(new TestRecord({ foo: 'bar' }))).rejects.toThrowError(RecordNotFoundError)
+    await expect(dryRunStorageService.deleteById(TestRecord, 'does-not-exist')).rejects.toThrowError(
+      RecordNotFoundError
+    )
+  })
+
+  it('should report the records that would be changed', async () => {
+    const otherRecord = new TestRecord({ id: 'other-id', foo: 'bar' })
+    await storageService.save(otherRecord)
+
+    // Updating a record without changing it is not reported
+    await dryRunStorageService.update(await dryRunStorageService.getById(TestRecord, 'other-id'))
+
+    const record = await dryRunStorageService.getById(TestRecord, 'stored-id')
+    record.foo = 'baz'
+    await dryRunStorageService.update(record)
+
+    await dryRunStorageService.save(new TestRecord({ id: 'new-id', foo: 'baz' }))
+    await dryRunStorageService.save(new TestRecord({ id: 'removed-id', foo: 'baz' }))
+    await dryRunStorageService.deleteById(TestRecord, 'removed-id')
+    await dryRunStorageService.delete(otherRecord)
+
+    expect(dryRunStorageService.changes).toEqual([
+      { recordType: TestRecord.type, recordId: 'other-id', action: 'deleted' },
+      { recordType: TestRecord.type, recordId: 'stored-id', action: 'updated' },
+      { recordType: TestRecord.type, recordId: 'new-id', action: 'created' },
+    ])
+  })
+})
@@ -7,6 +7,10 @@ import { InMemoryStorageService } from '../../../../../../tests/InMemoryStorageS
 import { getBaseConfig } from '../../../../tests/helpers'
 import { Agent } from '../../../agent/Agent'
 import { InjectionSymbols } from '../../../constants'
+import { ProofRecord, ProofRepository, ProofState } from '../../../modules/proofs'
+import { RepositoryEventTypes } from '../../RepositoryEvents'
+import { StorageUpdateEventTypes } from '../StorageUpdateEvents'
+import { StorageUpdateService } from '../StorageUpdateService'
 import { UpdateAssistant } from '../UpdateAssistant'
 
 const { agentDependencies, config } = getBaseConfig('UpdateAssistant')
@@ -47,9 +51,29 @@ describe('UpdateAssistant', () => {
     })
   })
 
-  describe('isUpToDate()', () => {
-    it('should return true when a new wallet is created', async () => {
-      expect(await updateAssistant.isUpToDate()).toBe(true)
+  describe('dryRun()', () => {
+    it('should report the records that would be changed without updating the storage', async () => {
+      const proofRecord = new ProofRecord({ threadId: 'thread-id', state: ProofState.Done })
+      await agent.dependencyManager.resolve(ProofRepository).save(proofRecord)
+      await agent.dependencyManager.resolve(StorageUpdateService).setCurrentStorageVersion('0.2')
+
+      const progressListener = jest.fn()
+      agent.events.on(StorageUpdateEventTypes.StorageUpdateProgress, progressListener)
+      const recordUpdatedListener = jest.fn()
+      agent.events.on(RepositoryEventTypes.RecordUpdated, recordUpdatedListener)
+
+      const beforeStorage = JSON.stringify(storageService.records)
+      const result = await updateAssistant.dryRun()
+
+      expect(result).toEqual({
+        fromVersion: '0.2',
+        toVersion: '0.3',
+        changes: [{ recordType: ProofRecord.type, recordId: proofRecord.id, action: 'updated' }],
+      })
+      expect(progressListener).toHaveBeenCalledTimes(1)
+      expect(recordUpdatedListener).not.toHaveBeenCalled()
+      expect(JSON.parse(beforeStorage)).toEqual(storageService.records)
+      expect(await updateAssistant.getCurrentAgentStorageVersion()).toBe('0.2')
     })
   })
 
@@ -60,14 +84,14 @@ describe('UpdateAssistant', () => {
   })
 
   describe('UpdateAssistant.frameworkStorageVersion', () => {
-    it('should return 0.2', async () => {
-      expect(UpdateAssistant.frameworkStorageVersion).toBe('0.2')
+    it('should return 0.3', async () => {
+      expect(UpdateAssistant.frameworkStorageVersion).toBe('0.3')
     })
   })
 
   describe('getCurrentAgentStorageVersion()', () => {
-    it('should return 0.2 when a new wallet is created', async () => {
-      expect(await updateAssistant.getCurrentAgentStorageVersion()).toBe('0.2')
+    it('should return 0.3 when a new wallet is created', async () => {
+      expect(await updateAssistant.getCurrentAgentStorageVersion()).toBe('0.3')
     })
   })
 })
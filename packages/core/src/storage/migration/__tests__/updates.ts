@@ -1,10 +1,11 @@
 import { supportedUpdates } from '../updates'
 import { updateV0_1ToV0_2 } from '../updates/0.1-0.2'
+import { updateV0_2ToV0_3 } from '../updates/0.2-0.3'
 
 describe('supportedUpdates', () => {
   // This test is intentional to be bumped explicitly when a new upgrade is added
-  it('supports 1 update(s)', () => {
-    expect(supportedUpdates.length).toBe(1)
+  it('supports 2 update(s)', () => {
+    expect(supportedUpdates.length).toBe(2)
   })
 
   it('supports an update from 0.1 to 0.2', () => {
@@ -13,4 +14,11 @@ describe('supportedUpdates', () => {
     expect(upgrade.toVersion).toBe('0.2')
     expect(upgrade.doUpdate).toBe(updateV0_1ToV0_2)
   })
+
+  it('supports an update from 0.2 to 0.3', () => {
+    const upgrade = supportedUpdates[1]
+    expect(upgrade.fromVersion).toBe('0.2')
+    expect(upgrade.toVersion).toBe('0.3')
+    expect(upgrade.doUpdate).toBe(updateV0_2ToV0_3)
+  })
 })
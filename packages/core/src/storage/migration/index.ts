@@ -1,3 +1,8 @@
 export * from './repository/StorageVersionRecord'
 export * from './repository/StorageVersionRepository'
 export * from './StorageUpdateService'
+export * from './StorageUpdateEvents'
+export * from './UpdateAssistant'
+export type { StorageUpdateRecordAction, StorageUpdateRecordChange } from './DryRunStorageService'
+export { DEFAULT_UPDATE_CONFIG } from './updates'
+export type { UpdateConfig } from './updates'
@@ -3,13 +3,20 @@ import type { VersionString } from '../../utils/version'
 import type { V0_1ToV0_2UpdateConfig } from './updates/0.1-0.2'
 
 import { updateV0_1ToV0_2 } from './updates/0.1-0.2'
+import { updateV0_2ToV0_3 } from './updates/0.2-0.3'
 
 export const INITIAL_STORAGE_VERSION = '0.1'
 
+/**
+ * The parts of the agent that are used by the updates. This allows to run the updates against a context that
+ * is not a fully constructed agent, as is done for a dry run of the update.
+ */
+export type UpdateAgentContext = Pick<Agent, 'config' | 'dependencyManager' | 'events'>
+
 export interface Update {
   fromVersion: VersionString
   toVersion: VersionString
-  doUpdate: (agent: Agent, updateConfig: UpdateConfig) => Promise<void>
+  doUpdate: (agent: UpdateAgentContext, updateConfig: UpdateConfig) => Promise<void>
 }
 
 export interface UpdateConfig {
@@ -28,6 +35,11 @@ export const supportedUpdates: Update[] = [
     toVersion: '0.2',
     doUpdate: updateV0_1ToV0_2,
   },
+  {
+    fromVersion: '0.2',
+    toVersion: '0.3',
+    doUpdate: updateV0_2ToV0_3,
+  },
 ]
 
 // Current version is last toVersion from the supported updates
@@ -41,6 +41,9 @@ jest.mock('../../../../../agent/Agent', () => {
   return {
     Agent: jest.fn(() => ({
       config: agentConfig,
+      events: {
+        emit: jest.fn(),
+      },
       dependencyManager: {
         resolve: jest.fn((cls) => {
           if (cls === ConnectionRepository) {
@@ -23,6 +23,9 @@ jest.mock('../../../../../agent/Agent', () => {
   return {
     Agent: jest.fn(() => ({
       config: agentConfig,
+      events: {
+        emit: jest.fn(),
+      },
       dependencyManager: {
         resolve: jest.fn((token) =>
           token === CredentialRepositoryMock ? credentialRepository : didCommMessageRepository
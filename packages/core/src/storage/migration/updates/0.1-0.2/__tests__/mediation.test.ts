@@ -3,6 +3,7 @@ import { Agent } from '../../../../../agent/Agent'
 import { MediationRole, MediationRecord } from '../../../../../modules/routing'
 import { MediationRepository } from '../../../../../modules/routing/repository/MediationRepository'
 import { JsonTransformer } from '../../../../../utils'
+import { StorageUpdateEventTypes } from '../../../StorageUpdateEvents'
 import * as testModule from '../mediation'
 
 const agentConfig = getAgentConfig('Migration MediationRecord 0.1-0.2')
@@ -15,6 +16,9 @@ jest.mock('../../../../../agent/Agent', () => {
   return {
     Agent: jest.fn(() => ({
       config: agentConfig,
+      events: {
+        emit: jest.fn(),
+      },
       dependencyManager: {
         resolve: jest.fn(() => mediationRepository),
       },
@@ -53,6 +57,17 @@ describe('0.1-0.2 | Mediation', () => {
 
       expect(mediationRepository.getAll).toHaveBeenCalledTimes(1)
       expect(mediationRepository.update).toHaveBeenCalledTimes(records.length)
+      expect(agent.events.emit).toHaveBeenNthCalledWith(2, {
+        type: StorageUpdateEventTypes.StorageUpdateProgress,
+        payload: {
+          fromVersion: '0.1',
+          toVersion: '0.2',
+          recordType: MediationRecord.type,
+          recordId: records[1].id,
+          processedRecords: 2,
+          totalRecords: 2,
+        },
+      })
 
       // Check second object is transformed correctly
       expect(mediationRepository.update).toHaveBeenNthCalledWith(
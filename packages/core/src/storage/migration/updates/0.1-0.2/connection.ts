@@ -1,6 +1,6 @@
-import type { Agent } from '../../../../agent/Agent'
 import type { ConnectionRecord } from '../../../../modules/connections'
 import type { JsonObject } from '../../../../types'
+import type { UpdateAgentContext } from '../../updates'
 
 import {
   DidExchangeState,
@@ -21,6 +21,7 @@ import { OutOfBandState } from '../../../../modules/oob/domain/OutOfBandState'
 import { convertToNewInvitation } from '../../../../modules/oob/helpers'
 import { OutOfBandRecord, OutOfBandRepository } from '../../../../modules/oob/repository'
 import { JsonEncoder, JsonTransformer } from '../../../../utils'
+import { emitStorageUpdateProgress } from '../progress'
 
 /**
  * Migrates the {@link ConnectionRecord} to 0.2 compatible format. It fetches all records from storage
@@ -32,7 +33,7 @@ import { JsonEncoder, JsonTransformer } from '../../../../utils'
  *  - {@link extractDidDocument}
  *  - {@link migrateToOobRecord}
  */
-export async function migrateConnectionRecordToV0_2(agent: Agent) {
+export async function migrateConnectionRecordToV0_2(agent: UpdateAgentContext) {
   agent.config.logger.info('Migrating connection records to storage version 0.2')
   const connectionRepository = agent.dependencyManager.resolve(ConnectionRepository)
 
@@ -40,7 +41,7 @@ export async function migrateConnectionRecordToV0_2(agent: Agent) {
   const allConnections = await connectionRepository.getAll()
 
   agent.config.logger.debug(`Found a total of ${allConnections.length} connection records to update.`)
-  for (const connectionRecord of allConnections) {
+  for (const [index, connectionRecord] of allConnections.entries()) {
     agent.config.logger.debug(`Migrating connection record with id ${connectionRecord.id} to storage version 0.2`)
 
     await updateConnectionRoleAndState(agent, connectionRecord)
@@ -60,6 +61,13 @@ export async function migrateConnectionRecordToV0_2(agent: Agent) {
     agent.config.logger.debug(
       `Successfully migrated connection record with id ${connectionRecord.id} to storage version 0.2`
     )
+    emitStorageUpdateProgress(agent, {
+      fromVersion: '0.1',
+      toVersion: '0.2',
+      record: connectionRecord,
+      processedRecords: index + 1,
+      totalRecords: allConnections.length,
+    })
   }
 }
 
@@ -88,7 +96,7 @@ export async function migrateConnectionRecordToV0_2(agent: Agent) {
  * }
  * ```
  */
-export async function updateConnectionRoleAndState(agent: Agent, connectionRecord: ConnectionRecord) {
+export async function updateConnectionRoleAndState(agent: UpdateAgentContext, connectionRecord: ConnectionRecord) {
   agent.config.logger.debug(
     `Extracting 'didDoc' and 'theirDidDoc' from connection record into separate DidRecord and updating unqualified dids to did:peer dids`
   )
@@ -141,7 +149,7 @@ export async function updateConnectionRoleAndState(agent: Agent, connectionRecor
  * }
  * ```
  */
-export async function extractDidDocument(agent: Agent, connectionRecord: ConnectionRecord) {
+export async function extractDidDocument(agent: UpdateAgentContext, connectionRecord: ConnectionRecord) {
   agent.config.logger.debug(
     `Extracting 'didDoc' and 'theirDidDoc' from connection record into separate DidRecord and updating unqualified dids to did:peer dids`
   )
@@ -288,7 +296,7 @@ export async function extractDidDocument(agent: Agent, connectionRecord: Connect
  * ```
  */
 export async function migrateToOobRecord(
-  agent: Agent,
+  agent: UpdateAgentContext,
   connectionRecord: ConnectionRecord
 ): Promise<ConnectionRecord | undefined> {
   agent.config.logger.debug(
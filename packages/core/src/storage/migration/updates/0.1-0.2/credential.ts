@@ -1,12 +1,13 @@
-import type { Agent } from '../../../../agent/Agent'
 import type { CredentialMetadata, CredentialExchangeRecord } from '../../../../modules/credentials'
 import type { JsonObject } from '../../../../types'
+import type { UpdateAgentContext } from '../../updates'
 
 import { CredentialState } from '../../../../modules/credentials/models/CredentialState'
 import { CredentialMetadataKeys } from '../../../../modules/credentials/repository/CredentialMetadataTypes'
 import { CredentialRepository } from '../../../../modules/credentials/repository/CredentialRepository'
 import { Metadata } from '../../../Metadata'
 import { DidCommMessageRepository, DidCommMessageRecord, DidCommMessageRole } from '../../../didcomm'
+import { emitStorageUpdateProgress } from '../progress'
 
 /**
  * Migrates the {@link CredentialRecord} to 0.2 compatible format. It fetches all records from storage
@@ -16,7 +17,7 @@ import { DidCommMessageRepository, DidCommMessageRecord, DidCommMessageRole } fr
  * The following transformations are applied:
  *  - {@link updateIndyMetadata}
  */
-export async function migrateCredentialRecordToV0_2(agent: Agent) {
+export async function migrateCredentialRecordToV0_2(agent: UpdateAgentContext) {
   agent.config.logger.info('Migrating credential records to storage version 0.2')
   const credentialRepository = agent.dependencyManager.resolve(CredentialRepository)
 
@@ -24,7 +25,7 @@ export async function migrateCredentialRecordToV0_2(agent: Agent) {
   const allCredentials = await credentialRepository.getAll()
 
   agent.config.logger.debug(`Found a total of ${allCredentials.length} credential records to update.`)
-  for (const credentialRecord of allCredentials) {
+  for (const [index, credentialRecord] of allCredentials.entries()) {
     agent.config.logger.debug(`Migrating credential record with id ${credentialRecord.id} to storage version 0.2`)
 
     await updateIndyMetadata(agent, credentialRecord)
@@ -36,6 +37,13 @@ export async function migrateCredentialRecordToV0_2(agent: Agent) {
     agent.config.logger.debug(
       `Successfully migrated credential record with id ${credentialRecord.id} to storage version 0.2`
     )
+    emitStorageUpdateProgress(agent, {
+      fromVersion: '0.1',
+      toVersion: '0.2',
+      record: credentialRecord,
+      processedRecords: index + 1,
+      totalRecords: allCredentials.length,
+    })
   }
 }
 
@@ -115,7 +123,7 @@ export function getCredentialRole(credentialRecord: CredentialExchangeRecord) {
  * }
  * ```
  */
-export async function updateIndyMetadata(agent: Agent, credentialRecord: CredentialExchangeRecord) {
+export async function updateIndyMetadata(agent: UpdateAgentContext, credentialRecord: CredentialExchangeRecord) {
   agent.config.logger.debug(`Updating indy metadata to use the generic metadata api available to records.`)
 
   const { requestMetadata, schemaId, credentialDefinitionId, ...rest } = credentialRecord.metadata.data
@@ -174,7 +182,7 @@ export async function updateIndyMetadata(agent: Agent, credentialRecord: Credent
  * ```
  */
 export async function migrateInternalCredentialRecordProperties(
-  agent: Agent,
+  agent: UpdateAgentContext,
   credentialRecord: CredentialExchangeRecord
 ) {
   agent.config.logger.debug(
@@ -210,7 +218,7 @@ export async function migrateInternalCredentialRecordProperties(
  * This migration scripts extracts all message (proposalMessage, offerMessage, requestMessage, credentialMessage) and moves
  * them into the DidCommMessageRepository.
  */
-export async function moveDidCommMessages(agent: Agent, credentialRecord: CredentialExchangeRecord) {
+export async function moveDidCommMessages(agent: UpdateAgentContext, credentialRecord: CredentialExchangeRecord) {
   agent.config.logger.debug(
     `Moving didcomm messages from credential record with id ${credentialRecord.id} to DidCommMessageRecord`
   )
@@ -1,5 +1,4 @@
-import type { Agent } from '../../../../agent/Agent'
-import type { UpdateConfig } from '../../updates'
+import type { UpdateAgentContext, UpdateConfig } from '../../updates'
 
 import { migrateConnectionRecordToV0_2 } from './connection'
 import { migrateCredentialRecordToV0_2 } from './credential'
@@ -9,7 +8,7 @@ export interface V0_1ToV0_2UpdateConfig {
   mediationRoleUpdateStrategy: 'allMediator' | 'allRecipient' | 'recipientIfEndpoint' | 'doNotChange'
 }
 
-export async function updateV0_1ToV0_2(agent: Agent, config: UpdateConfig): Promise<void> {
+export async function updateV0_1ToV0_2(agent: UpdateAgentContext, config: UpdateConfig): Promise<void> {
   await migrateCredentialRecordToV0_2(agent)
   await migrateMediationRecordToV0_2(agent, config.v0_1ToV0_2)
   await migrateConnectionRecordToV0_2(agent)
@@ -1,8 +1,9 @@
 import type { V0_1ToV0_2UpdateConfig } from '.'
-import type { Agent } from '../../../../agent/Agent'
 import type { MediationRecord } from '../../../../modules/routing'
+import type { UpdateAgentContext } from '../../updates'
 
 import { MediationRepository, MediationRole } from '../../../../modules/routing'
+import { emitStorageUpdateProgress } from '../progress'
 
 /**
  * Migrates the {@link MediationRecord} to 0.2 compatible format. It fetches all records from storage
@@ -12,7 +13,7 @@ import { MediationRepository, MediationRole } from '../../../../modules/routing'
  * The following transformations are applied:
  *  - {@link updateMediationRole}
  */
-export async function migrateMediationRecordToV0_2(agent: Agent, upgradeConfig: V0_1ToV0_2UpdateConfig) {
+export async function migrateMediationRecordToV0_2(agent: UpdateAgentContext, upgradeConfig: V0_1ToV0_2UpdateConfig) {
   agent.config.logger.info('Migrating mediation records to storage version 0.2')
   const mediationRepository = agent.dependencyManager.resolve(MediationRepository)
 
@@ -20,7 +21,7 @@ export async function migrateMediationRecordToV0_2(agent: Agent, upgradeConfig:
   const allMediationRecords = await mediationRepository.getAll()
 
   agent.config.logger.debug(`Found a total of ${allMediationRecords.length} mediation records to update.`)
-  for (const mediationRecord of allMediationRecords) {
+  for (const [index, mediationRecord] of allMediationRecords.entries()) {
     agent.config.logger.debug(`Migrating mediation record with id ${mediationRecord.id} to storage version 0.2`)
 
     await updateMediationRole(agent, mediationRecord, upgradeConfig)
@@ -30,6 +31,13 @@ export async function migrateMediationRecordToV0_2(agent: Agent, upgradeConfig:
     agent.config.logger.debug(
       `Successfully migrated mediation record with id ${mediationRecord.id} to storage version 0.2`
     )
+    emitStorageUpdateProgress(agent, {
+      fromVersion: '0.1',
+      toVersion: '0.2',
+      record: mediationRecord,
+      processedRecords: index + 1,
+      totalRecords: allMediationRecords.length,
+    })
   }
 }
 
@@ -51,7 +59,7 @@ export async function migrateMediationRecordToV0_2(agent: Agent, upgradeConfig:
  *
  */
 export async function updateMediationRole(
-  agent: Agent,
+  agent: UpdateAgentContext,
   mediationRecord: MediationRecord,
   { mediationRoleUpdateStrategy }: V0_1ToV0_2UpdateConfig
 ) {
@@ -0,0 +1,80 @@
+import { getAgentConfig, mockFunction } from '../../../../../../tests/helpers'
+import { Agent } from '../../../../../agent/Agent'
+import { ProofRecord } from '../../../../../modules/proofs'
+import { ProofRepository } from '../../../../../modules/proofs/repository/ProofRepository'
+import { JsonTransformer } from '../../../../../utils'
+import * as testModule from '../proof'
+
+const agentConfig = getAgentConfig('Migration ProofRecord 0.2-0.3')
+
+jest.mock('../../../../../modules/proofs/repository/ProofRepository')
+const ProofRepositoryMock = ProofRepository as jest.Mock<ProofRepository>
+const proofRepository = new ProofRepositoryMock()
+
+jest.mock('../../../../../agent/Agent', () => {
+  return {
+    Agent: jest.fn(() => ({
+      config: agentConfig,
+      events: {
+        emit: jest.fn(),
+      },
+      dependencyManager: {
+        resolve: jest.fn(() => proofRepository),
+      },
+    })),
+  }
+})
+
+// Mock typed object
+const AgentMock = Agent as jest.Mock<Agent>
+
+describe('0.2-0.3 | Proof', () => {
+  let agent: Agent
+
+  beforeEach(() => {
+    agent = new AgentMock()
+  })
+
+  describe('migrateProofRecordToV0_3()', () => {
+    it('should fetch all records and apply the needed updates ', async () => {
+      const records: ProofRecord[] = [getProofRecord({}), getProofRecord({ protocolVersion: 'v2' })]
+
+      mockFunction(proofRepository.getAll).mockResolvedValue(records)
+
+      await testModule.migrateProofRecordToV0_3(agent)
+
+      expect(proofRepository.getAll).toHaveBeenCalledTimes(1)
+      expect(proofRepository.update).toHaveBeenCalledTimes(records.length)
+      expect(agent.events.emit).toHaveBeenCalledTimes(records.length)
+
+      expect(records).toMatchObject([{ protocolVersion: 'v1' }, { protocolVersion: 'v2' }])
+    })
+  })
+
+  describe('updateProtocolVersion()', () => {
+    it('should set the protocol version to v1 if no protocol version is set', async () => {
+      const proofRecord = getProofRecord({})
+
+      await testModule.updateProtocolVersion(agent, proofRecord)
+
+      expect(proofRecord.protocolVersion).toBe('v1')
+    })
+
+    it('should not change the protocol version if a protocol version is already set', async () => {
+      const proofRecord = getProofRecord({ protocolVersion: 'v2' })
+
+      await testModule.updateProtocolVersion(agent, proofRecord)
+
+      expect(proofRecord.protocolVersion).toBe('v2')
+    })
+  })
+})
+
+function getProofRecord({ protocolVersion }: { protocolVersion?: string }) {
+  return JsonTransformer.fromJSON(
+    {
+      protocolVersion,
+    },
+    ProofRecord
+  )
+}
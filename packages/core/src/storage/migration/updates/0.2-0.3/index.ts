@@ -0,0 +1,7 @@
+import type { UpdateAgentContext } from '../../updates'
+
+import { migrateProofRecordToV0_3 } from './proof'
+
+export async function updateV0_2ToV0_3(agent: UpdateAgentContext): Promise<void> {
+  await migrateProofRecordToV0_3(agent)
+}
@@ -0,0 +1,64 @@
+import type { ProofRecord } from '../../../../modules/proofs'
+import type { UpdateAgentContext } from '../../updates'
+
+import { ProofRepository } from '../../../../modules/proofs/repository/ProofRepository'
+import { emitStorageUpdateProgress } from '../progress'
+
+/**
+ * Migrates the {@link ProofRecord} to 0.3 compatible format. It fetches all records from storage
+ * and applies the needed updates to the records. After a record has been transformed, it is updated
+ * in storage and the next record will be transformed.
+ *
+ * The following transformations are applied:
+ *  - {@link updateProtocolVersion}
+ */
+export async function migrateProofRecordToV0_3(agent: UpdateAgentContext) {
+  agent.config.logger.info('Migrating proof records to storage version 0.3')
+  const proofRepository = agent.dependencyManager.resolve(ProofRepository)
+
+  agent.config.logger.debug(`Fetching all proof records from storage`)
+  const allProofRecords = await proofRepository.getAll()
+
+  agent.config.logger.debug(`Found a total of ${allProofRecords.length} proof records to update.`)
+  for (const [index, proofRecord] of allProofRecords.entries()) {
+    agent.config.logger.debug(`Migrating proof record with id ${proofRecord.id} to storage version 0.3`)
+
+    await updateProtocolVersion(agent, proofRecord)
+
+    await proofRepository.update(proofRecord)
+
+    agent.config.logger.debug(`Successfully migrated proof record with id ${proofRecord.id} to storage version 0.3`)
+    emitStorageUpdateProgress(agent, {
+      fromVersion: '0.2',
+      toVersion: '0.3',
+      record: proofRecord,
+      processedRecords: index + 1,
+      totalRecords: allProofRecords.length,
+    })
+  }
+}
+
+/**
+ * Proof records created before the present proof v2 protocol was supported don't have the `protocolVersion` property set,
+ * in which case the v1 protocol was assumed everywhere the record was used.
+ *
+ * This migration method sets the `protocolVersion` to `v1` for all proof records that don't have a protocol version yet.
+ *
+ * @example
+ * ```json
+ * {
+ *   "protocolVersion": "v1"
+ * }
+ * ```
+ */
+export async function updateProtocolVersion(agent: UpdateAgentContext, proofRecord: ProofRecord) {
+  if (proofRecord.protocolVersion) {
+    agent.config.logger.debug(
+      `Proof record with id ${proofRecord.id} already has protocol version ${proofRecord.protocolVersion}. Skipping.`
+    )
+    return
+  }
+
+  agent.config.logger.debug(`Setting protocol version of proof record with id ${proofRecord.id} to v1`)
+  proofRecord.protocolVersion = 'v1'
+}
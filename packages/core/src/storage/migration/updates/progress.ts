@@ -0,0 +1,39 @@
+import type { VersionString } from '../../../utils/version'
+import type { BaseRecord } from '../../BaseRecord'
+import type { StorageUpdateProgressEvent } from '../StorageUpdateEvents'
+import type { UpdateAgentContext } from '../updates'
+
+import { StorageUpdateEventTypes } from '../StorageUpdateEvents'
+
+/**
+ * Emit a {@link StorageUpdateProgressEvent} after a record has been migrated, so the progress of
+ * long running updates can be shown to the user.
+ */
+export function emitStorageUpdateProgress(
+  agent: UpdateAgentContext,
+  {
+    fromVersion,
+    toVersion,
+    record,
+    processedRecords,
+    totalRecords,
+  }: {
+    fromVersion: VersionString
+    toVersion: VersionString
+    record: BaseRecord
+    processedRecords: number
+    totalRecords: number
+  }
+) {
+  agent.events.emit<StorageUpdateProgressEvent>({
+    type: StorageUpdateEventTypes.StorageUpdateProgress,
+    payload: {
+      fromVersion,
+      toVersion,
+      recordType: record.type,
+      recordId: record.id,
+      processedRecords,
+      totalRecords,
+    },
+  })
+}
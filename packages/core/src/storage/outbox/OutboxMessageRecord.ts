@@ -0,0 +1,78 @@
+import type { PlaintextMessage } from '../../types'
+import type { TagsBase } from '../BaseRecord'
+
+import { DateTransformer } from '../../utils/transformers'
+import { uuid } from '../../utils/uuid'
+import { BaseRecord } from '../BaseRecord'
+
+export type DefaultOutboxMessageTags = {
+  connectionId: string
+  messageId: string
+}
+
+export interface OutboxMessageRecordProps {
+  id?: string
+  createdAt?: Date
+  tags?: TagsBase
+
+  connectionId: string
+  outOfBandId?: string
+  message: PlaintextMessage
+  retryCount?: number
+  nextRetryAt: Date
+  expiresAt: Date
+  lastError?: string
+}
+
+/**
+ * An outbound message that could not be delivered, and is stored in the outbox to be retried later.
+ */
+export class OutboxMessageRecord extends BaseRecord<DefaultOutboxMessageTags> {
+  public connectionId!: string
+  public outOfBandId?: string
+  public message!: PlaintextMessage
+
+  /** The number of times sending the message has been retried */
+  public retryCount!: number
+
+  @DateTransformer()
+  public nextRetryAt!: Date
+
+  @DateTransformer()
+  public expiresAt!: Date
+
+  /** The error message of the last failed attempt to send the message */
+  public lastError?: string
+
+  public static readonly type = 'OutboxMessageRecord'
+  public readonly type = OutboxMessageRecord.type
+
+  public constructor(props: OutboxMessageRecordProps) {
+    super()
+
+    if (props) {
+      this.id = props.id ?? uuid()
+      this.createdAt = props.createdAt ?? new Date()
+      this._tags = props.tags ?? {}
+      this.connectionId = props.connectionId
+      this.outOfBandId = props.outOfBandId
+      this.message = props.message
+      this.retryCount = props.retryCount ?? 0
+      this.nextRetryAt = props.nextRetryAt
+      this.expiresAt = props.expiresAt
+      this.lastError = props.lastError
+    }
+  }
+
+  public isExpired(now = new Date()) {
+    return this.expiresAt.getTime() <= now.getTime()
+  }
+
+  public getTags() {
+    return {
+      ...this._tags,
+      connectionId: this.connectionId,
+      messageId: this.message['@id'],
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { EventEmitter } from '../../agent/EventEmitter'
+import { InjectionSymbols } from '../../constants'
+import { inject, injectable } from '../../plugins'
+import { Repository } from '../Repository'
+import { StorageService } from '../StorageService'
+
+import { OutboxMessageRecord } from './OutboxMessageRecord'
+
+@injectable()
+export class OutboxMessageRepository extends Repository<OutboxMessageRecord> {
+  public constructor(
+    @inject(InjectionSymbols.StorageService) storageService: StorageService<OutboxMessageRecord>,
+    eventEmitter: EventEmitter
+  ) {
+    super(OutboxMessageRecord, storageService, eventEmitter)
+  }
+}
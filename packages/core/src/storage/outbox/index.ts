@@ -0,0 +1,2 @@
+export * from './OutboxMessageRecord'
+export * from './OutboxMessageRepository'
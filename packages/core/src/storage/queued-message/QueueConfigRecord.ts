@@ -0,0 +1,57 @@
+import type { TagsBase } from '../BaseRecord'
+
+import { uuid } from '../../utils/uuid'
+import { BaseRecord } from '../BaseRecord'
+
+export type DefaultQueueConfigTags = {
+  connectionId: string
+}
+
+/**
+ * Limits of the message queue of a connection. Limits that are not set fall back to the `queuedMessageTtlMs` and
+ * `maximumQueuedMessages` agent config options.
+ */
+export interface QueueConfig {
+  queuedMessageTtlMs?: number
+  maximumQueuedMessages?: number
+}
+
+export interface QueueConfigRecordProps extends QueueConfig {
+  id?: string
+  createdAt?: Date
+  tags?: TagsBase
+
+  connectionId: string
+}
+
+/**
+ * The limits of the message queue of a connection, used by the storage message repository.
+ */
+export class QueueConfigRecord extends BaseRecord<DefaultQueueConfigTags> implements QueueConfig {
+  public connectionId!: string
+  public queuedMessageTtlMs?: number
+  public maximumQueuedMessages?: number
+
+  public static readonly type = 'QueueConfigRecord'
+  public readonly type = QueueConfigRecord.type
+
+  public constructor(props: QueueConfigRecordProps) {
+    super()
+
+    if (props) {
+      this.id = props.id ?? uuid()
+      this.createdAt = props.createdAt ?? new Date()
+      this._tags = props.tags ?? {}
+      this.connectionId = props.connectionId
+      this.queuedMessageTtlMs = props.queuedMessageTtlMs
+      this.maximumQueuedMessages = props.maximumQueuedMessages
+    }
+  }
+
+  public getTags() {
+    return {
+      ...this._tags,
+      connectionId: this.connectionId,
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import { EventEmitter } from '../../agent/EventEmitter'
+import { InjectionSymbols } from '../../constants'
+import { inject, injectable } from '../../plugins'
+import { Repository } from '../Repository'
+import { StorageService } from '../StorageService'
+
+import { QueueConfigRecord } from './QueueConfigRecord'
+
+@injectable()
+export class QueueConfigRepository extends Repository<QueueConfigRecord> {
+  public constructor(
+    @inject(InjectionSymbols.StorageService) storageService: StorageService<QueueConfigRecord>,
+    eventEmitter: EventEmitter
+  ) {
+    super(QueueConfigRecord, storageService, eventEmitter)
+  }
+
+  public findByConnectionId(connectionId: string) {
+    return this.findSingleByQuery({ connectionId })
+  }
+}
@@ -0,0 +1,68 @@
+import type { EncryptedMessage } from '../../types'
+import type { TagsBase } from '../BaseRecord'
+
+import { DateTransformer } from '../../utils/transformers'
+import { uuid } from '../../utils/uuid'
+import { BaseRecord } from '../BaseRecord'
+
+export type DefaultQueuedMessageTags = {
+  connectionId: string
+  sequence: string
+}
+
+export interface QueuedMessageRecordProps {
+  id?: string
+  createdAt?: Date
+  tags?: TagsBase
+
+  connectionId: string
+  sequence: string
+  encryptedMessage: EncryptedMessage
+  expiresAt?: Date
+}
+
+/**
+ * A message queued by a mediator for a connection, until it is picked up by the recipient.
+ */
+export class QueuedMessageRecord extends BaseRecord<DefaultQueuedMessageTags> {
+  public connectionId!: string
+
+  /**
+   * Key to order the messages in the queue of a connection. Unlike `createdAt`, the sequence is unique for messages
+   * queued in the same millisecond, and can be sorted on as a tag by the storage service.
+   */
+  public sequence!: string
+  public encryptedMessage!: EncryptedMessage
+
+  @DateTransformer()
+  public expiresAt?: Date
+
+  public static readonly type = 'QueuedMessageRecord'
+  public readonly type = QueuedMessageRecord.type
+
+  public constructor(props: QueuedMessageRecordProps) {
+    super()
+
+    if (props) {
+      this.id = props.id ?? uuid()
+      this.createdAt = props.createdAt ?? new Date()
+      this._tags = props.tags ?? {}
+      this.connectionId = props.connectionId
+      this.sequence = props.sequence
+      this.encryptedMessage = props.encryptedMessage
+      this.expiresAt = props.expiresAt
+    }
+  }
+
+  public isExpired(now = new Date()) {
+    return this.expiresAt !== undefined && this.expiresAt.getTime() <= now.getTime()
+  }
+
+  public getTags() {
+    return {
+      ...this._tags,
+      connectionId: this.connectionId,
+      sequence: this.sequence,
+    }
+  }
+}
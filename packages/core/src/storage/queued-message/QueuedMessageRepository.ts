@@ -0,0 +1,30 @@
+import type { QueryOptions } from '../StorageService'
+
+import { EventEmitter } from '../../agent/EventEmitter'
+import { InjectionSymbols } from '../../constants'
+import { inject, injectable } from '../../plugins'
+import { Repository } from '../Repository'
+import { StorageService } from '../StorageService'
+
+import { QueuedMessageRecord } from './QueuedMessageRecord'
+
+@injectable()
+export class QueuedMessageRepository extends Repository<QueuedMessageRecord> {
+  public constructor(
+    @inject(InjectionSymbols.StorageService) storageService: StorageService<QueuedMessageRecord>,
+    eventEmitter: EventEmitter
+  ) {
+    super(QueuedMessageRecord, storageService, eventEmitter)
+  }
+
+  /**
+   * Find the queued messages for a connection, in the order they were queued.
+   */
+  public findByConnectionId(connectionId: string, queryOptions?: Pick<QueryOptions, 'limit' | 'offset'>) {
+    return this.findByQuery({ connectionId }, { ...queryOptions, sortBy: 'sequence' })
+  }
+
+  public countByConnectionId(connectionId: string) {
+    return this.count({ connectionId })
+  }
+}
@@ -0,0 +1,4 @@
+export * from './QueuedMessageRecord'
+export * from './QueuedMessageRepository'
+export * from './QueueConfigRecord'
+export * from './QueueConfigRepository'
@@ -9,7 +9,9 @@ import { AbortController } from 'abort-controller'
 
 import { AgentConfig } from '../agent/AgentConfig'
 import { AgentEventTypes } from '../agent/Events'
+import { isJweWithSupportedAlgorithm } from '../crypto/jose'
 import { AriesFrameworkError } from '../error/AriesFrameworkError'
+import { DidCommMimeType } from '../types'
 import { isValidJweStructure, JsonEncoder } from '../utils'
 
 export class HttpOutboundTransport implements OutboundTransport {
@@ -45,6 +47,11 @@ export class HttpOutboundTransport implements OutboundTransport {
       payload: outboundPackage.payload,
     })
 
+    // DIDComm v2 messages have a dedicated media type
+    const didCommMimeType = isJweWithSupportedAlgorithm(payload)
+      ? DidCommMimeType.V2Encrypted
+      : this.agentConfig.didCommMimeType
+
     try {
       const abortController = new AbortController()
       const id = setTimeout(() => abortController.abort(), 15000)
@@ -55,7 +62,7 @@ export class HttpOutboundTransport implements OutboundTransport {
         response = await this.fetch(endpoint, {
           method: 'POST',
           body: JSON.stringify(payload),
-          headers: { 'Content-Type': this.agentConfig.didCommMimeType },
+          headers: { 'Content-Type': didCommMimeType },
           signal: abortController.signal,
         })
         clearTimeout(id)
@@ -104,7 +111,7 @@ export class HttpOutboundTransport implements OutboundTransport {
         error,
         message: error.message,
         body: payload,
-        didCommMimeType: this.agentConfig.didCommMimeType,
+        didCommMimeType,
       })
       throw new AriesFrameworkError(`Error sending message to ${endpoint}: ${error.message}`, { cause: error })
     }
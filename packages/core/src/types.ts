@@ -4,6 +4,7 @@ import type { ConnectionRecord } from './modules/connections'
 import type { AutoAcceptCredential } from './modules/credentials/models/CredentialAutoAcceptType'
 import type { ResolvedDidCommService } from './modules/didcomm'
 import type { Key } from './modules/dids/domain/Key'
+import type { PeerDidNumAlgo } from './modules/dids/methods/peer/didPeer'
 import type { IndyPoolConfig } from './modules/ledger/IndyPool'
 import type { OutOfBandRecord } from './modules/oob/repository'
 import type { AutoAcceptProof } from './modules/proofs'
@@ -51,6 +52,9 @@ export type EncryptedMessage = {
 export enum DidCommMimeType {
   V0 = 'application/ssi-agent-wire',
   V1 = 'application/didcomm-envelope-enc',
+  V2Encrypted = 'application/didcomm-encrypted+json',
+  V2Signed = 'application/didcomm-signed+json',
+  V2Plain = 'application/didcomm-plain+json',
 }
 
 export interface InitConfig {
@@ -77,11 +81,65 @@ export interface InitConfig {
   maximumMessagePickup?: number
   baseMediatorReconnectionIntervalMs?: number
   maximumMediatorReconnectionIntervalMs?: number
+  queuedMessageTtlMs?: number
+  maximumQueuedMessages?: number
 
   useLegacyDidSovPrefix?: boolean
   connectionImageUrl?: string
 
   autoUpdateStorageOnStartup?: boolean
+
+  outbox?: OutboxConfig
+
+  didResolutionCache?: DidResolutionCacheConfig
+
+  /**
+   * The numalgo of the `did:peer` did we create for our side of a DID exchange, both in the requester and responder
+   * role. Method 2 dids encode the keys, services and mediator routing keys in the did itself, method 1 dids are sent
+   * along with a signed did document. Defaults to {@link PeerDidNumAlgo.GenesisDoc}
+   */
+  peerNumAlgoForDidExchange?: PeerDidNumAlgo.GenesisDoc | PeerDidNumAlgo.MultipleInceptionKeyWithoutDoc
+}
+
+/**
+ * Configuration of the outbox. When enabled, outbound messages that could not be delivered are stored, and
+ * retried with exponential backoff until they are delivered or expire.
+ */
+export interface OutboxConfig {
+  /** Delay before the first retry. Defaults to 1 second */
+  initialRetryDelayMs?: number
+
+  /** Maximum delay between two retries. Defaults to 5 minutes */
+  maximumRetryDelayMs?: number
+
+  /** Time after which a message that could not be delivered is dropped. Defaults to 24 hours */
+  messageTtlMs?: number
+
+  /** Interval at which the outbox is checked for messages to retry. Defaults to 1 second */
+  pollingIntervalMs?: number
+}
+
+/**
+ * Configuration of the did resolution cache. Successful resolution results of the configured did methods are cached,
+ * so resolving a did does not require a ledger read or network request every time.
+ */
+export interface DidResolutionCacheConfig {
+  /** Maximum number of cached did resolution results. Defaults to 500 */
+  limit?: number
+
+  /**
+   * Time to live of cached resolution results per did method, e.g. `{ sov: 60000 }`. Results of did methods without
+   * ttl, or with a ttl of 0, are not cached. Defaults to 5 minutes for `sov`, `indy` and `web`, configured ttls are
+   * merged with the defaults.
+   */
+  ttlMs?: Record<string, number>
+
+  /**
+   * Whether to persist the cache in the storage, so cached results are kept when the agent restarts. The whole cache
+   * is stored again every time a resolution result is added, so this is only recommended for a small `limit`.
+   * Defaults to `false`, which keeps the cache in memory.
+   */
+  persist?: boolean
 }
 
 export interface PlaintextMessage {
@@ -90,6 +148,37 @@ export interface PlaintextMessage {
   [key: string]: unknown
 }
 
+/**
+ * DIDComm v2 plaintext message. See https://identity.foundation/didcomm-messaging/spec/#plaintext-message-structure
+ */
+export interface DidCommV2PlaintextMessage {
+  id: string
+  type: string
+  typ?: string
+  from?: string
+  to?: string[]
+  thid?: string
+  pthid?: string
+  created_time?: number
+  expires_time?: number
+  return_route?: string
+  body: Record<string, unknown>
+  attachments?: Array<Record<string, unknown>>
+  [key: string]: unknown
+}
+
+/**
+ * DIDComm v2 signed message, using the general JWS JSON serialization
+ */
+export interface SignedMessage {
+  payload: string
+  signatures: Array<{
+    protected: string
+    signature: string
+    header?: { kid: string }
+  }>
+}
+
 export interface OutboundMessage<T extends AgentMessage = AgentMessage> {
   payload: T
   connection: ConnectionRecord
@@ -0,0 +1,29 @@
+import { getExponentialBackoffDelay } from '../backoff'
+
+describe('getExponentialBackoffDelay', () => {
+  const options = { initialDelayMs: 1000, maximumDelayMs: 10000 }
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('doubles the delay with every attempt', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1)
+
+    expect(getExponentialBackoffDelay(0, options)).toBe(1000)
+    expect(getExponentialBackoffDelay(1, options)).toBe(2000)
+    expect(getExponentialBackoffDelay(2, options)).toBe(4000)
+  })
+
+  it('does not exceed the maximum delay', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1)
+
+    expect(getExponentialBackoffDelay(10, options)).toBe(10000)
+  })
+
+  it('randomizes half of the delay', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0)
+
+    expect(getExponentialBackoffDelay(1, options)).toBe(1000)
+  })
+})
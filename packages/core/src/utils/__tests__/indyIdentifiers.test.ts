@@ -0,0 +1,98 @@
+import {
+  isIndyDid,
+  parseIndyCredentialDefinitionId,
+  parseIndyDid,
+  parseIndyRevocationRegistryDefinitionId,
+  parseIndySchemaId,
+} from '../indyIdentifiers'
+
+describe('Utils | Indy identifiers', () => {
+  describe('isIndyDid()', () => {
+    test.each(['did:indy:sovrin:7Tqg6BwSSWapxgUDm9KKgg', 'did:indy:sovrin:staging:7Tqg6BwSSWapxgUDm9KKgg'])(
+      'returns true for %s',
+      (did) => expect(isIndyDid(did)).toBe(true)
+    )
+
+    test.each([
+      'did:sov:7Tqg6BwSSWapxgUDm9KKgg',
+      'did:indy:7Tqg6BwSSWapxgUDm9KKgg',
+      'did:indy:sovrin:staging:test:7Tqg6BwSSWapxgUDm9KKgg',
+      'did:indy:Sovrin:7Tqg6BwSSWapxgUDm9KKgg',
+      'did:indy:sovrin:7Tqg6BwSSWapxgUDm9KKgg#key-1',
+    ])('returns false for %s', (did) => expect(isIndyDid(did)).toBe(false))
+  })
+
+  describe('parseIndyDid()', () => {
+    it('returns the namespace and unqualified did', () => {
+      expect(parseIndyDid('did:indy:sovrin:staging:7Tqg6BwSSWapxgUDm9KKgg')).toEqual({
+        namespace: 'sovrin:staging',
+        did: '7Tqg6BwSSWapxgUDm9KKgg',
+      })
+    })
+
+    it('throws an error for dids that are not did:indy dids', () => {
+      expect(() => parseIndyDid('did:sov:7Tqg6BwSSWapxgUDm9KKgg')).toThrow(
+        'did:sov:7Tqg6BwSSWapxgUDm9KKgg is not a valid did:indy did'
+      )
+    })
+  })
+
+  describe('parseIndySchemaId()', () => {
+    it('parses a qualified schema id', () => {
+      expect(parseIndySchemaId('did:indy:sovrin:F72i3Y3Q4i466efjYJYCHM/anoncreds/v0/SCHEMA/npdb/4.3.4')).toEqual({
+        namespace: 'sovrin',
+        did: 'F72i3Y3Q4i466efjYJYCHM',
+        legacyId: 'F72i3Y3Q4i466efjYJYCHM:2:npdb:4.3.4',
+      })
+    })
+
+    it('parses a legacy schema id', () => {
+      expect(parseIndySchemaId('F72i3Y3Q4i466efjYJYCHM:2:npdb:4.3.4')).toEqual({
+        did: 'F72i3Y3Q4i466efjYJYCHM',
+        legacyId: 'F72i3Y3Q4i466efjYJYCHM:2:npdb:4.3.4',
+      })
+    })
+  })
+
+  describe('parseIndyCredentialDefinitionId()', () => {
+    it('parses a qualified credential definition id', () => {
+      expect(
+        parseIndyCredentialDefinitionId('did:indy:sovrin:5nDyJVP1NrcPAttP3xwMB9/anoncreds/v0/CLAIM_DEF/56495/npdb')
+      ).toEqual({
+        namespace: 'sovrin',
+        did: '5nDyJVP1NrcPAttP3xwMB9',
+        legacyId: '5nDyJVP1NrcPAttP3xwMB9:3:CL:56495:npdb',
+      })
+    })
+
+    it('parses a legacy credential definition id', () => {
+      expect(parseIndyCredentialDefinitionId('5nDyJVP1NrcPAttP3xwMB9:3:CL:56495:npdb')).toEqual({
+        did: '5nDyJVP1NrcPAttP3xwMB9',
+        legacyId: '5nDyJVP1NrcPAttP3xwMB9:3:CL:56495:npdb',
+      })
+    })
+  })
+
+  describe('parseIndyRevocationRegistryDefinitionId()', () => {
+    it('parses a qualified revocation registry definition id', () => {
+      expect(
+        parseIndyRevocationRegistryDefinitionId(
+          'did:indy:sovrin:5nDyJVP1NrcPAttP3xwMB9/anoncreds/v0/REV_REG_DEF/56495/npdb/TAG1'
+        )
+      ).toEqual({
+        namespace: 'sovrin',
+        did: '5nDyJVP1NrcPAttP3xwMB9',
+        legacyId: '5nDyJVP1NrcPAttP3xwMB9:4:5nDyJVP1NrcPAttP3xwMB9:3:CL:56495:npdb:CL_ACCUM:TAG1',
+      })
+    })
+
+    it('parses a legacy revocation registry definition id', () => {
+      const legacyId = '5nDyJVP1NrcPAttP3xwMB9:4:5nDyJVP1NrcPAttP3xwMB9:3:CL:56495:npdb:CL_ACCUM:TAG1'
+
+      expect(parseIndyRevocationRegistryDefinitionId(legacyId)).toEqual({
+        did: '5nDyJVP1NrcPAttP3xwMB9',
+        legacyId,
+      })
+    })
+  })
+})
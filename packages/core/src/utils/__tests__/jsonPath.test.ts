@@ -0,0 +1,51 @@
+import { queryJsonPath } from '../jsonPath'
+
+describe('queryJsonPath', () => {
+  const credential = {
+    type: ['VerifiableCredential', 'UniversityDegreeCredential'],
+    issuer: { id: 'did:example:issuer' },
+    credentialSubject: {
+      id: 'did:example:subject',
+      'degree-type': 'BachelorDegree',
+      degree: { type: 'BachelorDegree', name: 'Bachelor of Science and Arts' },
+    },
+  }
+
+  it('returns the root for $', () => {
+    expect(queryJsonPath(credential, '$')).toEqual([credential])
+  })
+
+  it('selects properties using dot and bracket notation', () => {
+    expect(queryJsonPath(credential, '$.issuer.id')).toEqual(['did:example:issuer'])
+    expect(queryJsonPath(credential, "$['credentialSubject']['degree-type']")).toEqual(['BachelorDegree'])
+    expect(queryJsonPath(credential, '$.credentialSubject["degree"].name')).toEqual(['Bachelor of Science and Arts'])
+  })
+
+  it('selects array elements by index and wildcard', () => {
+    expect(queryJsonPath(credential, '$.type[1]')).toEqual(['UniversityDegreeCredential'])
+    expect(queryJsonPath(credential, '$.type[-1]')).toEqual(['UniversityDegreeCredential'])
+    expect(queryJsonPath(credential, '$.type[*]')).toEqual(['VerifiableCredential', 'UniversityDegreeCredential'])
+    expect(queryJsonPath(credential, '$.issuer.*')).toEqual(['did:example:issuer'])
+  })
+
+  it('selects values using recursive descent', () => {
+    expect(queryJsonPath(credential, '$..type')).toEqual([credential.type, 'BachelorDegree'])
+    expect(queryJsonPath(credential, '$..degree.name')).toEqual(['Bachelor of Science and Arts'])
+  })
+
+  it('returns an empty array when nothing matches', () => {
+    expect(queryJsonPath(credential, '$.credentialSubject.age')).toEqual([])
+    expect(queryJsonPath(credential, '$.type[5]')).toEqual([])
+    expect(queryJsonPath(credential, '$.issuer.id.value')).toEqual([])
+  })
+
+  it('throws on invalid or unsupported paths', () => {
+    expect(() => queryJsonPath(credential, 'credentialSubject.id')).toThrowError(
+      "Invalid JSONPath 'credentialSubject.id'"
+    )
+    expect(() => queryJsonPath(credential, '$.type[?(@ == "VerifiableCredential")]')).toThrowError(
+      'Unsupported JSONPath'
+    )
+    expect(() => queryJsonPath(credential, '$.type[0,1]')).toThrowError('Unsupported JSONPath')
+  })
+})
@@ -0,0 +1,20 @@
+export interface ExponentialBackoffOptions {
+  initialDelayMs: number
+  maximumDelayMs: number
+}
+
+/**
+ * Calculate the delay before the next attempt using exponential backoff with (equal) jitter. The delay doubles with
+ * every attempt, up to the maximum delay. Half of the delay is randomized, to prevent many retries from happening
+ * at the exact same time.
+ *
+ * @param attempt the number of attempts that have been made so far, starting at 0
+ */
+export function getExponentialBackoffDelay(
+  attempt: number,
+  { initialDelayMs, maximumDelayMs }: ExponentialBackoffOptions
+) {
+  const delay = Math.min(maximumDelayMs, initialDelayMs * 2 ** attempt)
+
+  return delay / 2 + Math.random() * (delay / 2)
+}
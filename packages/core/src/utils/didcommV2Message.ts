@@ -0,0 +1,93 @@
+import type { DidCommV2PlaintextMessage, PlaintextMessage, SignedMessage } from '../types'
+
+import { DidCommMimeType } from '../types'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function isDidCommV2PlaintextMessage(message: any): message is DidCommV2PlaintextMessage {
+  return (
+    message &&
+    typeof message === 'object' &&
+    typeof message.id === 'string' &&
+    typeof message.type === 'string' &&
+    typeof message.body === 'object' &&
+    !('@type' in message)
+  )
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function isSignedMessage(message: any): message is SignedMessage {
+  return (
+    message && typeof message === 'object' && typeof message.payload === 'string' && Array.isArray(message.signatures)
+  )
+}
+
+/**
+ * Transform a DIDComm v1 plaintext message (as produced by `AgentMessage.toJSON`) into a DIDComm v2 plaintext message.
+ * The `~thread`, `~transport` and `~attach` decorators are mapped to the corresponding v2 headers, all other properties
+ * (including other decorators) are added to the message body.
+ */
+export function plaintextMessageToDidCommV2Message(
+  plaintextMessage: PlaintextMessage,
+  { from, to }: { from?: string; to?: string[] } = {}
+): DidCommV2PlaintextMessage {
+  const {
+    '@id': id,
+    '@type': type,
+    '~thread': thread,
+    '~transport': transport,
+    '~attach': attachments,
+    ...body
+  } = plaintextMessage as PlaintextMessage & {
+    '~thread'?: { thid?: string; pthid?: string }
+    '~transport'?: { return_route?: string }
+    '~attach'?: Array<Record<string, unknown>>
+  }
+
+  return {
+    id,
+    type,
+    typ: DidCommMimeType.V2Plain,
+    from,
+    to,
+    thid: thread?.thid,
+    pthid: thread?.pthid,
+    created_time: Math.floor(Date.now() / 1000),
+    return_route: transport?.return_route,
+    body,
+    attachments: attachments?.map(({ '@id': id, 'mime-type': mediaType, ...attachment }) => ({
+      ...attachment,
+      id,
+      media_type: mediaType,
+    })),
+  }
+}
+
+/**
+ * Transform a DIDComm v2 plaintext message into a DIDComm v1 plaintext message, so it can be transformed into
+ * the corresponding agent message class. Inverse of {@link plaintextMessageToDidCommV2Message}.
+ */
+export function didCommV2MessageToPlaintextMessage(message: DidCommV2PlaintextMessage): PlaintextMessage {
+  const plaintextMessage: PlaintextMessage = {
+    ...message.body,
+    '@id': message.id,
+    '@type': message.type,
+  }
+
+  if (message.thid || message.pthid) {
+    plaintextMessage['~thread'] = { thid: message.thid, pthid: message.pthid }
+  }
+
+  if (message.attachments) {
+    plaintextMessage['~attach'] = message.attachments.map(({ id, media_type: mediaType, ...attachment }) => ({
+      ...attachment,
+      '@id': id,
+      'mime-type': mediaType,
+    }))
+  }
+
+  if (message.return_route) {
+    plaintextMessage['~transport'] = { return_route: message.return_route }
+  }
+
+  return plaintextMessage
+}
@@ -9,3 +9,4 @@ export * from './regex'
 export * from './indyProofRequest'
 export * from './VarintEncoder'
 export * from './Hasher'
+export * from './didcommV2Message'
@@ -0,0 +1,108 @@
+/**
+ * Utilities for the qualified identifiers of the `did:indy` method, and their conversion to the legacy unqualified
+ * identifiers that are used on the ledger and by the indy-sdk.
+ *
+ * @see https://hyperledger.github.io/indy-did-method/
+ */
+
+import { AriesFrameworkError } from '../error'
+
+import { didFromCredentialDefinitionId, didFromRevocationRegistryDefinitionId, didFromSchemaId } from './did'
+
+const namespaceSegment = '[a-z][_a-z0-9-]*'
+const unqualifiedDid = '[1-9A-HJ-NP-Za-km-z]{21,22}'
+
+// did:indy:<namespace>[:<sub-namespace>]:<unqualified did>
+const indyDid = `did:indy:(${namespaceSegment}(?::${namespaceSegment})?):(${unqualifiedDid})`
+
+export const INDY_DID_REGEX = new RegExp(`^${indyDid}$`)
+
+// did:indy:sovrin:F72i3Y3Q4i466efjYJYCHM/anoncreds/v0/SCHEMA/npdb/4.3.4
+const INDY_SCHEMA_ID_REGEX = new RegExp(`^${indyDid}/anoncreds/v0/SCHEMA/([^/]+)/([^/]+)$`)
+
+// did:indy:sovrin:5nDyJVP1NrcPAttP3xwMB9/anoncreds/v0/CLAIM_DEF/56495/npdb
+const INDY_CREDENTIAL_DEFINITION_ID_REGEX = new RegExp(`^${indyDid}/anoncreds/v0/CLAIM_DEF/(\\d+)/([^/]+)$`)
+
+// did:indy:sovrin:5nDyJVP1NrcPAttP3xwMB9/anoncreds/v0/REV_REG_DEF/56495/npdb/TAG1
+const INDY_REVOCATION_REGISTRY_DEFINITION_ID_REGEX = new RegExp(
+  `^${indyDid}/anoncreds/v0/REV_REG_DEF/(\\d+)/([^/]+)/([^/]+)$`
+)
+
+export interface ParsedIndyIdentifier {
+  /**
+   * The `did:indy` namespace of the identifier. Undefined for legacy unqualified identifiers.
+   */
+  namespace?: string
+
+  /**
+   * The unqualified did of the identifier, e.g. `5nDyJVP1NrcPAttP3xwMB9`
+   */
+  did: string
+
+  /**
+   * The legacy unqualified identifier as used on the ledger, e.g. `5nDyJVP1NrcPAttP3xwMB9:3:CL:56495:npdb`
+   */
+  legacyId: string
+}
+
+export function isIndyDid(did: string) {
+  return INDY_DID_REGEX.test(did)
+}
+
+/**
+ * Parse a `did:indy` did into its namespace and unqualified did.
+ *
+ * @throws {AriesFrameworkError} if the did is not a valid `did:indy` did
+ */
+export function parseIndyDid(did: string): { namespace: string; did: string } {
+  const match = did.match(INDY_DID_REGEX)
+
+  if (!match) {
+    throw new AriesFrameworkError(`${did} is not a valid did:indy did`)
+  }
+
+  const [, namespace, unqualifiedDid] = match
+  return { namespace, did: unqualifiedDid }
+}
+
+/**
+ * Parse a qualified `did:indy` or legacy unqualified schema id
+ */
+export function parseIndySchemaId(schemaId: string): ParsedIndyIdentifier {
+  const match = schemaId.match(INDY_SCHEMA_ID_REGEX)
+  if (!match) return { did: didFromSchemaId(schemaId), legacyId: schemaId }
+
+  const [, namespace, did, name, version] = match
+  return { namespace, did, legacyId: `${did}:2:${name}:${version}` }
+}
+
+/**
+ * Parse a qualified `did:indy` or legacy unqualified credential definition id
+ */
+export function parseIndyCredentialDefinitionId(credentialDefinitionId: string): ParsedIndyIdentifier {
+  const match = credentialDefinitionId.match(INDY_CREDENTIAL_DEFINITION_ID_REGEX)
+  if (!match) return { did: didFromCredentialDefinitionId(credentialDefinitionId), legacyId: credentialDefinitionId }
+
+  const [, namespace, did, schemaSeqNo, tag] = match
+  return { namespace, did, legacyId: `${did}:3:CL:${schemaSeqNo}:${tag}` }
+}
+
+/**
+ * Parse a qualified `did:indy` or legacy unqualified revocation registry definition id
+ */
+export function parseIndyRevocationRegistryDefinitionId(revocationRegistryDefinitionId: string): ParsedIndyIdentifier {
+  const match = revocationRegistryDefinitionId.match(INDY_REVOCATION_REGISTRY_DEFINITION_ID_REGEX)
+  if (!match) {
+    return {
+      did: didFromRevocationRegistryDefinitionId(revocationRegistryDefinitionId),
+      legacyId: revocationRegistryDefinitionId,
+    }
+  }
+
+  const [, namespace, did, schemaSeqNo, credentialDefinitionTag, revocationRegistryTag] = match
+  return {
+    namespace,
+    did,
+    legacyId: `${did}:4:${did}:3:CL:${schemaSeqNo}:${credentialDefinitionTag}:CL_ACCUM:${revocationRegistryTag}`,
+  }
+}
@@ -0,0 +1,163 @@
+import { AriesFrameworkError } from '../error/AriesFrameworkError'
+
+type JsonPathSelector = { type: 'property'; name: string } | { type: 'index'; index: number } | { type: 'wildcard' }
+
+interface JsonPathSegment {
+  selector: JsonPathSelector
+  recursive: boolean
+}
+
+const IDENTIFIER_REGEX = /^[A-Za-z_$@][\w$@-]*/
+const INDEX_REGEX = /^-?\d+/
+
+/**
+ * Parse a JSONPath expression into segments. Only the subset of JSONPath used by DIF Presentation Exchange is
+ * supported: the root (`$`), dot and bracket notation for properties, array indices, wildcards and recursive
+ * descent. Filter expressions, unions and slices are not supported.
+ */
+function parseJsonPath(path: string): JsonPathSegment[] {
+  if (!path.startsWith('$')) {
+    throw new AriesFrameworkError(`Invalid JSONPath '${path}'. A JSONPath must start with '$'`)
+  }
+
+  const segments: JsonPathSegment[] = []
+  let rest = path.slice(1)
+
+  const unsupported = () => new AriesFrameworkError(`Unsupported JSONPath '${path}' at '${rest}'`)
+
+  while (rest.length > 0) {
+    let recursive = false
+
+    if (rest.startsWith('..')) {
+      recursive = true
+      rest = rest.slice(2)
+    } else if (rest.startsWith('.')) {
+      rest = rest.slice(1)
+    } else if (!rest.startsWith('[')) {
+      throw unsupported()
+    }
+
+    // Bracket notation
+    if (rest.startsWith('[')) {
+      const closingIndex = findClosingBracket(rest)
+      if (closingIndex === -1) throw unsupported()
+
+      const content = rest.slice(1, closingIndex).trim()
+      segments.push({ selector: parseBracketSelector(content, unsupported), recursive })
+      rest = rest.slice(closingIndex + 1)
+      continue
+    }
+
+    // Dot notation
+    if (rest.startsWith('*')) {
+      segments.push({ selector: { type: 'wildcard' }, recursive })
+      rest = rest.slice(1)
+      continue
+    }
+
+    const identifier = IDENTIFIER_REGEX.exec(rest)?.[0]
+    if (!identifier) throw unsupported()
+
+    segments.push({ selector: { type: 'property', name: identifier }, recursive })
+    rest = rest.slice(identifier.length)
+  }
+
+  return segments
+}
+
+function findClosingBracket(value: string) {
+  let quote: string | undefined
+
+  for (let i = 1; i < value.length; i++) {
+    const char = value[i]
+
+    if (quote) {
+      if (char === '\\') i++
+      else if (char === quote) quote = undefined
+    } else if (char === "'" || char === '"') {
+      quote = char
+    } else if (char === ']') {
+      return i
+    }
+  }
+
+  return -1
+}
+
+function parseBracketSelector(content: string, unsupported: () => Error): JsonPathSelector {
+  if (content === '*') {
+    return { type: 'wildcard' }
+  }
+
+  const quote = content[0]
+  if ((quote === "'" || quote === '"') && content.length >= 2 && content[content.length - 1] === quote) {
+    return { type: 'property', name: content.slice(1, -1).replace(/\\(.)/g, '$1') }
+  }
+
+  const index = INDEX_REGEX.exec(content)?.[0]
+  if (index && index === content) {
+    return { type: 'index', index: Number(index) }
+  }
+
+  throw unsupported()
+}
+
+function selectChildren(value: unknown, selector: JsonPathSelector): unknown[] {
+  if (Array.isArray(value)) {
+    if (selector.type === 'wildcard') return value
+    if (selector.type === 'index') {
+      const index = selector.index < 0 ? value.length + selector.index : selector.index
+      return index >= 0 && index < value.length ? [value[index]] : []
+    }
+
+    return []
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const object = value as Record<string, unknown>
+
+    if (selector.type === 'wildcard') return Object.values(object)
+    if (selector.type === 'property' && Object.prototype.hasOwnProperty.call(object, selector.name)) {
+      return [object[selector.name]]
+    }
+  }
+
+  return []
+}
+
+function collectDescendants(value: unknown, descendants: unknown[] = []): unknown[] {
+  descendants.push(value)
+
+  if (value !== null && typeof value === 'object') {
+    const children = Array.isArray(value) ? value : Object.values(value as Record<string, unknown>)
+    for (const child of children) {
+      collectDescendants(child, descendants)
+    }
+  }
+
+  return descendants
+}
+
+/**
+ * Query a JSON value using a JSONPath expression.
+ *
+ * @example
+ * queryJsonPath({ credentialSubject: { name: 'Alice' } }, '$.credentialSubject.name') // ['Alice']
+ *
+ * @param value The JSON value to query
+ * @param path The JSONPath expression. See {@link parseJsonPath} for the supported syntax
+ * @returns The values matching the path, in document order. Empty if no values match
+ * @throws {AriesFrameworkError} If the path is invalid or uses unsupported syntax
+ */
+export function queryJsonPath(value: unknown, path: string): unknown[] {
+  let values = [value]
+
+  for (const { selector, recursive } of parseJsonPath(path)) {
+    const nodes = recursive
+      ? values.reduce<unknown[]>((descendants, value) => collectDescendants(value, descendants), [])
+      : values
+    values = nodes.reduce<unknown[]>((children, node) => [...children, ...selectChildren(node, selector)], [])
+  }
+
+  return values
+}
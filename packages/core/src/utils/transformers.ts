@@ -65,10 +65,12 @@ export function MetadataTransformer() {
 }
 
 /**
- * Decorator that transforms to and from a date instance.
+ * Decorator that transforms to and from a date instance. Optional dates that are not set are left undefined.
  */
 export function DateTransformer() {
   return Transform(({ value, type }) => {
+    if (value === undefined) return undefined
+
     if (type === TransformationType.CLASS_TO_PLAIN) {
       return value.toISOString()
     }
@@ -1,3 +1,4 @@
+import type { JweEnvelope } from '../crypto/jose'
 import type { Logger } from '../logger'
 import type {
   EncryptedMessage,
@@ -7,18 +8,44 @@ import type {
   KeyDerivationMethod,
 } from '../types'
 import type { Buffer } from '../utils/buffer'
-import type { Wallet, DidInfo, DidConfig, UnpackedMessageContext } from './Wallet'
+import type {
+  Wallet,
+  DidInfo,
+  DidConfig,
+  UnpackedMessageContext,
+  KeyConfig,
+  DidCommV2PackKeys,
+  DidCommV2UnpackedMessage,
+} from './Wallet'
 import type { default as Indy, WalletStorageConfig } from 'indy-sdk'
 
+import { generateKeyPair, generateKeyPairFromSeed } from '@stablelib/x25519'
+
 import { AgentConfig } from '../agent/AgentConfig'
+import { KeyType } from '../crypto'
+import { decryptJwe, encryptJwe } from '../crypto/jose'
 import { AriesFrameworkError } from '../error'
+import { Key } from '../modules/dids/domain/Key'
 import { injectable } from '../plugins'
+import { DidCommMimeType } from '../types'
 import { JsonEncoder } from '../utils/JsonEncoder'
+import { TypedArrayEncoder } from '../utils/TypedArrayEncoder'
 import { isIndyError } from '../utils/indyError'
 
 import { WalletDuplicateError, WalletNotFoundError, WalletError } from './error'
 import { WalletInvalidKeyError } from './error/WalletInvalidKeyError'
 
+/**
+ * Indy wallet record type used to store key pairs of key types that are not supported by the indy-sdk
+ */
+const KEY_PAIR_RECORD_TYPE = 'KeyPairRecord'
+
+interface KeyPair {
+  keyType: KeyType
+  publicKeyBase58: string
+  privateKeyBase58: string
+}
+
 @injectable()
 export class IndyWallet implements Wallet {
   private walletConfig?: WalletConfig
@@ -399,6 +426,49 @@ export class IndyWallet implements Wallet {
     }
   }
 
+  /**
+   * Create a key in the wallet. Ed25519 keys are created and stored by the indy-sdk. X25519 keys, used for DIDComm v2
+   * key agreement, are not supported by the indy-sdk and are therefore stored as wallet records.
+   */
+  public async createKey({ keyType, seed }: KeyConfig): Promise<Key> {
+    if (seed && seed.length !== 32) {
+      throw new WalletError('Invalid seed provided. Seed must be 32 characters long')
+    }
+
+    try {
+      if (keyType === KeyType.Ed25519) {
+        const verkey = await this.indy.createKey(this.handle, { seed })
+        return Key.fromPublicKeyBase58(verkey, keyType)
+      }
+
+      if (keyType === KeyType.X25519) {
+        const { publicKey, secretKey } = seed
+          ? generateKeyPairFromSeed(TypedArrayEncoder.fromString(seed))
+          : generateKeyPair()
+
+        const keyPair: KeyPair = {
+          keyType,
+          publicKeyBase58: TypedArrayEncoder.toBase58(publicKey),
+          privateKeyBase58: TypedArrayEncoder.toBase58(secretKey),
+        }
+
+        await this.indy.addWalletRecord(
+          this.handle,
+          KEY_PAIR_RECORD_TYPE,
+          `key-${keyPair.publicKeyBase58}`,
+          JsonEncoder.toString(keyPair),
+          { keyType }
+        )
+
+        return Key.fromPublicKey(publicKey, keyType)
+      }
+    } catch (error) {
+      throw new WalletError(`Error creating key with key type '${keyType}'`, { cause: error })
+    }
+
+    throw new WalletError(`Unsupported key type: '${keyType}'`)
+  }
+
   public async pack(
     payload: Record<string, unknown>,
     recipientKeys: string[],
@@ -427,6 +497,67 @@ export class IndyWallet implements Wallet {
     }
   }
 
+  public async packDidCommV2(
+    payload: Record<string, unknown>,
+    { recipientKeys, senderKey }: DidCommV2PackKeys
+  ): Promise<EncryptedMessage> {
+    try {
+      const senderKeyPair = senderKey ? await this.getKeyPair(senderKey.key) : undefined
+      if (senderKey && !senderKeyPair) {
+        throw new WalletError(`Sender key ${senderKey.kid} not found in wallet`)
+      }
+
+      const jwe = encryptJwe({
+        plaintext: JsonEncoder.toBuffer(payload),
+        recipients: recipientKeys.map(({ kid, key }) => ({ kid, publicKey: key.publicKey })),
+        sender:
+          senderKey && senderKeyPair
+            ? {
+                kid: senderKey.kid,
+                publicKey: senderKey.key.publicKey,
+                privateKey: TypedArrayEncoder.fromBase58(senderKeyPair.privateKeyBase58),
+              }
+            : undefined,
+        typ: DidCommMimeType.V2Encrypted,
+      })
+
+      return jwe
+    } catch (error) {
+      if (error instanceof WalletError) throw error
+      throw new WalletError('Error packing DIDComm v2 message', { cause: error })
+    }
+  }
+
+  public async unpackDidCommV2(
+    encryptedMessage: EncryptedMessage,
+    { recipientKeys, senderKey }: DidCommV2PackKeys
+  ): Promise<DidCommV2UnpackedMessage> {
+    for (const recipientKey of recipientKeys) {
+      const recipientKeyPair = await this.getKeyPair(recipientKey.key)
+      if (!recipientKeyPair) continue
+
+      try {
+        const plaintext = decryptJwe(encryptedMessage as unknown as JweEnvelope, {
+          recipient: {
+            kid: recipientKey.kid,
+            publicKey: recipientKey.key.publicKey,
+            privateKey: TypedArrayEncoder.fromBase58(recipientKeyPair.privateKeyBase58),
+          },
+          senderPublicKey: senderKey?.key.publicKey,
+        })
+
+        return {
+          plaintextMessage: JsonEncoder.fromBuffer(plaintext),
+          recipientKid: recipientKey.kid,
+        }
+      } catch (error) {
+        throw new WalletError('Error unpacking DIDComm v2 message', { cause: error })
+      }
+    }
+
+    throw new WalletError('Error unpacking DIDComm v2 message: no private key found for any of the recipients')
+  }
+
   public async sign(data: Buffer, verkey: string): Promise<Buffer> {
     try {
       return await this.indy.cryptoSign(this.handle, verkey, data)
@@ -453,4 +584,28 @@ export class IndyWallet implements Wallet {
       throw new WalletError('Error generating nonce', { cause: error })
     }
   }
+
+  public async generateWalletKey() {
+    try {
+      return await this.indy.generateWalletKey()
+    } catch (error) {
+      throw new WalletError('Error generating wallet key', { cause: error })
+    }
+  }
+
+  private async getKeyPair(key: Key): Promise<KeyPair | null> {
+    try {
+      const record = await this.indy.getWalletRecord(this.handle, KEY_PAIR_RECORD_TYPE, `key-${key.publicKeyBase58}`, {
+        retrieveValue: true,
+        retrieveTags: false,
+        retrieveType: false,
+      })
+
+      return JsonEncoder.fromString(record.value as string) as KeyPair
+    } catch (error) {
+      if (isIndyError(error, 'WalletItemNotFound')) return null
+
+      throw new WalletError(`Error retrieving key pair for key ${key.fingerprint}`, { cause: error })
+    }
+  }
 }
@@ -1,3 +1,5 @@
+import type { KeyType } from '../crypto'
+import type { Key } from '../modules/dids/domain/Key'
 import type {
   EncryptedMessage,
   WalletConfig,
@@ -23,11 +25,19 @@ export interface Wallet {
 
   initPublicDid(didConfig: DidConfig): Promise<void>
   createDid(didConfig?: DidConfig): Promise<DidInfo>
+  createKey(keyConfig: KeyConfig): Promise<Key>
   pack(payload: Record<string, unknown>, recipientKeys: string[], senderVerkey?: string): Promise<EncryptedMessage>
   unpack(encryptedMessage: EncryptedMessage): Promise<UnpackedMessageContext>
+  packDidCommV2(payload: Record<string, unknown>, keys: DidCommV2PackKeys): Promise<EncryptedMessage>
+  unpackDidCommV2(encryptedMessage: EncryptedMessage, keys: DidCommV2PackKeys): Promise<DidCommV2UnpackedMessage>
   sign(data: Buffer, verkey: string): Promise<Buffer>
   verify(signerVerkey: string, data: Buffer, signature: Buffer): Promise<boolean>
   generateNonce(): Promise<string>
+
+  /**
+   * Generate a random key that can be used as a raw wallet key (`KeyDerivationMethod.Raw`)
+   */
+  generateWalletKey(): Promise<string>
 }
 
 export interface DidInfo {
@@ -44,3 +54,26 @@ export interface UnpackedMessageContext {
   senderKey?: string
   recipientKey?: string
 }
+
+export interface KeyConfig {
+  keyType: KeyType
+  seed?: string
+}
+
+/**
+ * A key together with the key id (DID url) it is referenced by. DIDComm v2 envelopes address keys by their key id.
+ */
+export interface DidCommV2KeyReference {
+  kid: string
+  key: Key
+}
+
+export interface DidCommV2PackKeys {
+  recipientKeys: DidCommV2KeyReference[]
+  senderKey?: DidCommV2KeyReference
+}
+
+export interface DidCommV2UnpackedMessage {
+  plaintextMessage: Record<string, unknown>
+  recipientKid: string
+}
@@ -5,7 +5,7 @@ import { Subject } from 'rxjs'
 
 import { SubjectInboundTransport } from '../../../tests/transport/SubjectInboundTransport'
 import { SubjectOutboundTransport } from '../../../tests/transport/SubjectOutboundTransport'
-import { DidExchangeState, HandshakeProtocol } from '../src'
+import { DidExchangeState, HandshakeProtocol, PeerDidNumAlgo } from '../src'
 import { Agent } from '../src/agent/Agent'
 import { OutOfBandState } from '../src/modules/oob/domain/OutOfBandState'
 
@@ -150,3 +150,61 @@ describe('connections', () => {
     return expect(faberOutOfBandRecord.state).toBe(OutOfBandState.AwaitResponse)
   })
 })
+
+describe('connections with method 2 peer dids', () => {
+  let faberAgent: Agent
+  let aliceAgent: Agent
+
+  afterAll(async () => {
+    await faberAgent.shutdown()
+    await faberAgent.wallet.delete()
+    await aliceAgent.shutdown()
+    await aliceAgent.wallet.delete()
+  })
+
+  it('should make a connection using method 2 peer dids for the did exchange', async () => {
+    const faberMessages = new Subject<SubjectMessage>()
+    const aliceMessages = new Subject<SubjectMessage>()
+    const subjectMap = {
+      'rxjs:faber': faberMessages,
+      'rxjs:alice': aliceMessages,
+    }
+
+    const faberConfig = getBaseConfig('Faber Agent Connections Peer Did 2', {
+      endpoints: ['rxjs:faber'],
+      peerNumAlgoForDidExchange: PeerDidNumAlgo.MultipleInceptionKeyWithoutDoc,
+    })
+    const aliceConfig = getBaseConfig('Alice Agent Connections Peer Did 2', {
+      endpoints: ['rxjs:alice'],
+      peerNumAlgoForDidExchange: PeerDidNumAlgo.MultipleInceptionKeyWithoutDoc,
+    })
+
+    faberAgent = new Agent(faberConfig.config, faberConfig.agentDependencies)
+    faberAgent.registerInboundTransport(new SubjectInboundTransport(faberMessages))
+    faberAgent.registerOutboundTransport(new SubjectOutboundTransport(subjectMap))
+    await faberAgent.initialize()
+
+    aliceAgent = new Agent(aliceConfig.config, aliceConfig.agentDependencies)
+    aliceAgent.registerInboundTransport(new SubjectInboundTransport(aliceMessages))
+    aliceAgent.registerOutboundTransport(new SubjectOutboundTransport(subjectMap))
+    await aliceAgent.initialize()
+
+    const faberOutOfBandRecord = await faberAgent.oob.createInvitation({
+      handshakeProtocols: [HandshakeProtocol.DidExchange],
+    })
+    const invitationUrl = faberOutOfBandRecord.outOfBandInvitation.toUrl({ domain: 'https://example.com' })
+
+    let { connectionRecord: aliceFaberConnection } = await aliceAgent.oob.receiveInvitationFromUrl(invitationUrl)
+    aliceFaberConnection = await aliceAgent.connections.returnWhenIsConnected(aliceFaberConnection!.id)
+    expect(aliceFaberConnection.state).toBe(DidExchangeState.Completed)
+
+    let faberAliceConnection = await faberAgent.connections.getByThreadId(aliceFaberConnection.threadId!)
+    faberAliceConnection = await faberAgent.connections.returnWhenIsConnected(faberAliceConnection.id)
+
+    expect(aliceFaberConnection.did).toMatch(/^did:peer:2/)
+    expect(faberAliceConnection.theirDid).toBe(aliceFaberConnection.did)
+    expect(faberAliceConnection.did).toMatch(/^did:peer:2/)
+    expect(aliceFaberConnection.theirDid).toBe(faberAliceConnection.did)
+    expect(faberAliceConnection).toBeConnectedWith(aliceFaberConnection)
+  })
+})
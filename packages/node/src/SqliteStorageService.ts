@@ -0,0 +1,483 @@
+import type {
+  BaseRecord,
+  BaseRecordConstructor,
+  Query,
+  QueryOptions,
+  StorageService,
+  TagsBase,
+} from '@aries-framework/core'
+import type BetterSqlite3 from 'better-sqlite3'
+
+import {
+  AriesFrameworkError,
+  JsonTransformer,
+  RecordConflictError,
+  RecordDuplicateError,
+  RecordNotFoundError,
+} from '@aries-framework/core'
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto'
+
+export interface SqliteStorageConfig {
+  /**
+   * Path to the database file. The file is created if it doesn't exist. Use `:memory:` for an in-memory database.
+   */
+  path: string
+
+  /**
+   * Key used to encrypt the record values at rest. Tags are stored unencrypted, as they are needed to query
+   * the records. Once a database is created with an encryption key, the same key must be provided to open it.
+   */
+  encryptionKey?: string
+}
+
+interface SqliteRecordRow {
+  id: string
+  value: Buffer
+}
+
+interface SqliteTagRow {
+  record_id: string
+  name: string
+  value: string
+}
+
+const ENCRYPTION_ALGORITHM = 'aes-256-gcm'
+const ENCRYPTION_CHECK_VALUE = 'aries-framework-sqlite-storage'
+const IV_LENGTH = 12
+const AUTH_TAG_LENGTH = 16
+
+/**
+ * `better-sqlite3` is an optional peer dependency of this package, so it is only loaded when a SQLite storage
+ * service is created.
+ */
+function loadBetterSqlite3(): typeof BetterSqlite3 {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require('better-sqlite3')
+  } catch (error) {
+    throw new AriesFrameworkError(
+      "The 'better-sqlite3' package must be installed to use the SqliteStorageService. Install it with `yarn add better-sqlite3`",
+      { cause: error }
+    )
+  }
+}
+
+/**
+ * Storage service that stores records in a SQLite database, without depending on the indy-sdk wallet.
+ * Each record is stored with its tags in separate, indexed tables so records can be efficiently queried by tag.
+ *
+ * Tag values are encoded the same way as the `IndyStorageService` encodes them, so the query semantics of both
+ * storage services are the same.
+ *
+ * The storage service uses the `better-sqlite3` package, which must be installed separately.
+ *
+ * @example
+ * const injectionContainer = container.createChildContainer()
+ * injectionContainer.registerInstance(
+ *   InjectionSymbols.StorageService,
+ *   new SqliteStorageService({ path: 'agent.sqlite', encryptionKey: 'my-secret-key' })
+ * )
+ *
+ * const agent = new Agent(config, agentDependencies, { injectionContainer })
+ */
+export class SqliteStorageService<T extends BaseRecord = BaseRecord> implements StorageService<T> {
+  private sqlite: typeof BetterSqlite3
+  private database: BetterSqlite3.Database
+  private encryptionKey?: Buffer
+
+  public constructor({ path, encryptionKey }: SqliteStorageConfig) {
+    this.sqlite = loadBetterSqlite3()
+    this.database = new this.sqlite(path)
+    this.database.pragma('foreign_keys = ON')
+    this.database.pragma('journal_mode = WAL')
+
+    this.createTables()
+    this.encryptionKey = this.loadEncryptionKey(encryptionKey)
+  }
+
+  /**
+   * Close the database. The storage service can't be used anymore after it is closed.
+   */
+  public close() {
+    this.database.close()
+  }
+
+  private createTables() {
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS metadata (
+        name TEXT PRIMARY KEY,
+        value BLOB NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS records (
+        type TEXT NOT NULL,
+        id TEXT NOT NULL,
+        value BLOB NOT NULL,
+        created_at TEXT,
+        version INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (type, id)
+      );
+
+      CREATE INDEX IF NOT EXISTS ix_records_type_created_at ON records (type, created_at);
+
+      CREATE TABLE IF NOT EXISTS tags (
+        record_type TEXT NOT NULL,
+        record_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        value TEXT NOT NULL,
+        PRIMARY KEY (record_type, record_id, name),
+        FOREIGN KEY (record_type, record_id) REFERENCES records (type, id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS ix_tags_name_value ON tags (record_type, name, value);
+    `)
+  }
+
+  /**
+   * Derive the key to encrypt record values with, and verify it against the database. A random salt and an
+   * encrypted check value are stored in the metadata table when the database is first opened with a key.
+   */
+  private loadEncryptionKey(encryptionKey?: string) {
+    const getMetadata = this.database.prepare('SELECT value FROM metadata WHERE name = ?').pluck()
+    const salt = getMetadata.get('encryption_salt') as Buffer | undefined
+
+    if (!encryptionKey) {
+      if (salt) {
+        throw new AriesFrameworkError('SQLite database is encrypted, but no encryption key was provided')
+      }
+
+      return undefined
+    }
+
+    if (!salt) {
+      const recordCount = this.database.prepare('SELECT COUNT(*) FROM records').pluck().get() as number
+      if (recordCount > 0) {
+        throw new AriesFrameworkError('Unable to encrypt SQLite database that already contains unencrypted records')
+      }
+
+      const newSalt = randomBytes(16)
+      const key = scryptSync(encryptionKey, newSalt, 32)
+      const insertMetadata = this.database.prepare('INSERT INTO metadata (name, value) VALUES (?, ?)')
+
+      this.database.transaction(() => {
+        insertMetadata.run('encryption_salt', newSalt)
+        insertMetadata.run('encryption_check', this.encrypt(Buffer.from(ENCRYPTION_CHECK_VALUE), key))
+      })()
+
+      return key
+    }
+
+    const key = scryptSync(encryptionKey, salt, 32)
+    try {
+      this.decrypt(getMetadata.get('encryption_check') as Buffer, key)
+    } catch (error) {
+      throw new AriesFrameworkError('Invalid encryption key for SQLite database', { cause: error })
+    }
+
+    return key
+  }
+
+  private encrypt(data: Buffer, key: Buffer) {
+    const iv = randomBytes(IV_LENGTH)
+    const cipher = createCipheriv(ENCRYPTION_ALGORITHM, key, iv)
+    const encrypted = Buffer.concat([cipher.update(data), cipher.final()])
+
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted])
+  }
+
+  private decrypt(data: Buffer, key: Buffer) {
+    const iv = data.subarray(0, IV_LENGTH)
+    const authTag = data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH)
+    const decipher = createDecipheriv(ENCRYPTION_ALGORITHM, key, iv)
+    decipher.setAuthTag(authTag)
+
+    return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + AUTH_TAG_LENGTH)), decipher.final()])
+  }
+
+  private serializeValue(record: T) {
+    const value = Buffer.from(JsonTransformer.serialize(record))
+
+    return this.encryptionKey ? this.encrypt(value, this.encryptionKey) : value
+  }
+
+  private deserializeValue(value: Buffer, recordClass: BaseRecordConstructor<T>) {
+    const decrypted = this.encryptionKey ? this.decrypt(value, this.encryptionKey) : value
+
+    return JsonTransformer.deserialize<T>(decrypted.toString(), recordClass)
+  }
+
+  private transformToRecordTagValues(tags: Record<string, string>): TagsBase {
+    const transformedTags: TagsBase = {}
+
+    for (const [key, value] of Object.entries(tags)) {
+      // Array items are stored as separate "tagName:arrayItem" = "1" tags
+      if (value === '1' && key.includes(':')) {
+        // Split on the first colon only, as the array item itself can contain colons (e.g. a did)
+        const separatorIndex = key.indexOf(':')
+        const tagName = key.substring(0, separatorIndex)
+        const tagValue = key.substring(separatorIndex + 1)
+        const transformedValue = transformedTags[tagName]
+
+        transformedTags[tagName] = Array.isArray(transformedValue) ? [...transformedValue, tagValue] : [tagValue]
+      }
+      // Booleans are stored as '1' and '0'
+      else if (value === '1' || value === '0') {
+        transformedTags[key] = value === '1'
+      }
+      // The string values '1' and '0' are stored as 'n__1' and 'n__0'
+      else if (value === 'n__1' || value === 'n__0') {
+        transformedTags[key] = value === 'n__1' ? '1' : '0'
+      } else {
+        transformedTags[key] = value
+      }
+    }
+
+    return transformedTags
+  }
+
+  private transformFromRecordTagValues(tags: TagsBase): Record<string, string> {
+    const transformedTags: Record<string, string> = {}
+
+    for (const [key, value] of Object.entries(tags)) {
+      // null and undefined values are not stored (and ignored in queries)
+      if (value === null || value === undefined) {
+        continue
+      } else if (typeof value === 'boolean') {
+        transformedTags[key] = value ? '1' : '0'
+      } else if (value === '1' || value === '0') {
+        transformedTags[key] = `n__${value}`
+      } else if (Array.isArray(value)) {
+        value.forEach((item) => {
+          transformedTags[`${key}:${item}`] = '1'
+        })
+      } else {
+        transformedTags[key] = value
+      }
+    }
+
+    return transformedTags
+  }
+
+  /**
+   * Transforms the search query into a SQL condition on the records table (aliased as `r`). The values of the
+   * condition are added to `parameters` in the order in which they appear in the condition.
+   */
+  private sqlConditionFromQuery(query: Query<T>, parameters: Array<string | number>): string {
+    const { $and, $or, $not, ...tags } = query as {
+      $and?: Query<T>[]
+      $or?: Query<T>[]
+      $not?: Query<T>
+    }
+    const conditions: string[] = []
+
+    for (const [name, value] of Object.entries(this.transformFromRecordTagValues(tags as TagsBase))) {
+      conditions.push(
+        'EXISTS (SELECT 1 FROM tags t WHERE t.record_type = r.type AND t.record_id = r.id AND t.name = ? AND t.value = ?)'
+      )
+      parameters.push(name, value)
+    }
+
+    if ($and) {
+      conditions.push(...$and.map((subQuery) => `(${this.sqlConditionFromQuery(subQuery, parameters)})`))
+    }
+
+    if ($or) {
+      // An empty $or can't be satisfied by any record
+      const orConditions = $or.map((subQuery) => `(${this.sqlConditionFromQuery(subQuery, parameters)})`)
+      conditions.push(orConditions.length > 0 ? `(${orConditions.join(' OR ')})` : '0')
+    }
+
+    if ($not) {
+      conditions.push(`NOT (${this.sqlConditionFromQuery($not, parameters)})`)
+    }
+
+    return conditions.length > 0 ? conditions.join(' AND ') : '1'
+  }
+
+  private insertTags(record: T) {
+    const insertTag = this.database.prepare(
+      'INSERT INTO tags (record_type, record_id, name, value) VALUES (?, ?, ?, ?)'
+    )
+
+    for (const [name, value] of Object.entries(this.transformFromRecordTagValues(record.getTags()))) {
+      insertTag.run(record.type, record.id, name, value)
+    }
+  }
+
+  private findRecords(
+    recordClass: BaseRecordConstructor<T>,
+    query: Query<T>,
+    { limit, offset = 0, sortBy, sortOrder }: QueryOptions = {}
+  ): T[] {
+    const parameters: Array<string | number> = [recordClass.type]
+    const condition = this.sqlConditionFromQuery(query, parameters)
+
+    // Records without a value to sort on are always returned last
+    const direction = sortOrder === 'desc' ? 'DESC' : 'ASC'
+    let orderBy = 'r.rowid'
+    if (sortBy === 'createdAt') {
+      orderBy = `r.created_at IS NULL, r.created_at ${direction}, r.rowid`
+    } else if (sortBy) {
+      const sortValue =
+        '(SELECT s.value FROM tags s WHERE s.record_type = r.type AND s.record_id = r.id AND s.name = ?)'
+      orderBy = `${sortValue} IS NULL, ${sortValue} ${direction}, r.rowid`
+      parameters.push(sortBy, sortBy)
+    }
+
+    // A negative limit means no limit in SQLite
+    parameters.push(limit ?? -1, offset)
+    const matchedRecords = `SELECT r.id, r.value FROM records r WHERE r.type = ? AND ${condition} ORDER BY ${orderBy} LIMIT ? OFFSET ?`
+
+    const rows = this.database.prepare(matchedRecords).all(...parameters) as SqliteRecordRow[]
+    if (rows.length === 0) return []
+
+    // Fetch the tags of all matched records at once
+    const tagRows = this.database
+      .prepare(
+        `SELECT t.record_id, t.name, t.value FROM tags t WHERE t.record_type = ? AND t.record_id IN (SELECT id FROM (${matchedRecords})) ORDER BY t.rowid`
+      )
+      .all(recordClass.type, ...parameters) as SqliteTagRow[]
+
+    const tagsByRecordId: Record<string, Record<string, string>> = {}
+    for (const { record_id, name, value } of tagRows) {
+      tagsByRecordId[record_id] = tagsByRecordId[record_id] ?? {}
+      tagsByRecordId[record_id][name] = value
+    }
+
+    return rows.map((row) => this.rowToInstance(row, tagsByRecordId[row.id] ?? {}, recordClass))
+  }
+
+  private rowToInstance(row: SqliteRecordRow, tags: Record<string, string>, recordClass: BaseRecordConstructor<T>) {
+    const instance = this.deserializeValue(row.value, recordClass)
+    instance.id = row.id
+    instance.replaceTags(this.transformToRecordTagValues(tags))
+
+    return instance
+  }
+
+  /** @inheritDoc */
+  public async save(record: T) {
+    const value = this.serializeValue(record)
+
+    try {
+      this.database.transaction(() => {
+        this.database
+          .prepare('INSERT INTO records (type, id, value, created_at, version) VALUES (?, ?, ?, ?, ?)')
+          .run(record.type, record.id, value, record.createdAt?.toISOString(), record.version ?? 0)
+        this.insertTags(record)
+      })()
+    } catch (error) {
+      if (error instanceof this.sqlite.SqliteError && error.code === 'SQLITE_CONSTRAINT_PRIMARYKEY') {
+        throw new RecordDuplicateError(`Record with id ${record.id} already exists`, { recordType: record.type })
+      }
+
+      throw error
+    }
+  }
+
+  /** @inheritDoc */
+  public async update(record: T): Promise<void> {
+    const previousVersion = record.version
+    const version = previousVersion ?? 0
+
+    record.version = version + 1
+    const value = this.serializeValue(record)
+
+    try {
+      this.database.transaction(() => {
+        // Only update the record if it wasn't updated since it was retrieved
+        const { changes } = this.database
+          .prepare(
+            'UPDATE records SET value = ?, created_at = ?, version = ? WHERE type = ? AND id = ? AND version = ?'
+          )
+          .run(value, record.createdAt?.toISOString(), record.version, record.type, record.id, version)
+
+        if (changes === 0) {
+          const storedVersion = this.database
+            .prepare('SELECT version FROM records WHERE type = ? AND id = ?')
+            .pluck()
+            .get(record.type, record.id) as number | undefined
+
+          if (storedVersion === undefined) {
+            throw new RecordNotFoundError(`record with id ${record.id} not found.`, { recordType: record.type })
+          }
+
+          throw new RecordConflictError(
+            `record with id ${record.id} was updated concurrently. Expected version ${version}, found version ${storedVersion}.`,
+            { recordType: record.type }
+          )
+        }
+
+        this.database.prepare('DELETE FROM tags WHERE record_type = ? AND record_id = ?').run(record.type, record.id)
+        this.insertTags(record)
+      })()
+    } catch (error) {
+      // The record was not updated, so the version of the record should not change
+      record.version = previousVersion
+      throw error
+    }
+  }
+
+  /** @inheritDoc */
+  public async delete(record: T) {
+    const { changes } = this.database
+      .prepare('DELETE FROM records WHERE type = ? AND id = ?')
+      .run(record.type, record.id)
+
+    if (changes === 0) {
+      throw new RecordNotFoundError(`record with id ${record.id} not found.`, { recordType: record.type })
+    }
+  }
+
+  /** @inheritDoc */
+  public async deleteById(recordClass: BaseRecordConstructor<T>, id: string): Promise<void> {
+    const { changes } = this.database.prepare('DELETE FROM records WHERE type = ? AND id = ?').run(recordClass.type, id)
+
+    if (changes === 0) {
+      throw new RecordNotFoundError(`record with id ${id} not found.`, { recordType: recordClass.type })
+    }
+  }
+
+  /** @inheritDoc */
+  public async getById(recordClass: BaseRecordConstructor<T>, id: string): Promise<T> {
+    const row = this.database
+      .prepare('SELECT id, value FROM records WHERE type = ? AND id = ?')
+      .get(recordClass.type, id) as SqliteRecordRow | undefined
+
+    if (!row) {
+      throw new RecordNotFoundError(`record with id ${id} not found.`, { recordType: recordClass.type })
+    }
+
+    const tagRows = this.database
+      .prepare('SELECT record_id, name, value FROM tags WHERE record_type = ? AND record_id = ? ORDER BY rowid')
+      .all(recordClass.type, id) as SqliteTagRow[]
+    const tags = tagRows.reduce<Record<string, string>>((tags, { name, value }) => ({ ...tags, [name]: value }), {})
+
+    return this.rowToInstance(row, tags, recordClass)
+  }
+
+  /** @inheritDoc */
+  public async getAll(recordClass: BaseRecordConstructor<T>, queryOptions?: QueryOptions): Promise<T[]> {
+    return this.findRecords(recordClass, {}, queryOptions)
+  }
+
+  /** @inheritDoc */
+  public async findByQuery(
+    recordClass: BaseRecordConstructor<T>,
+    query: Query<T>,
+    queryOptions?: QueryOptions
+  ): Promise<T[]> {
+    return this.findRecords(recordClass, query, queryOptions)
+  }
+
+  /** @inheritDoc */
+  public async count(recordClass: BaseRecordConstructor<T>, query: Query<T>): Promise<number> {
+    const parameters: string[] = [recordClass.type]
+    const condition = this.sqlConditionFromQuery(query, parameters)
+
+    return this.database
+      .prepare(`SELECT COUNT(*) FROM records r WHERE r.type = ? AND ${condition}`)
+      .pluck()
+      .get(...parameters) as number
+  }
+}
@@ -7,6 +7,7 @@ import WebSocket from 'ws'
 
 import { NodeFileSystem } from './NodeFileSystem'
 import { IndyPostgresStorageConfig, loadPostgresPlugin, WalletScheme } from './PostgresPlugin'
+import { SqliteStorageConfig, SqliteStorageService } from './SqliteStorageService'
 import { HttpInboundTransport } from './transport/HttpInboundTransport'
 import { WsInboundTransport } from './transport/WsInboundTransport'
 
@@ -25,4 +26,6 @@ export {
   loadPostgresPlugin,
   IndyPostgresStorageConfig,
   WalletScheme,
+  SqliteStorageService,
+  SqliteStorageConfig,
 }
@@ -22,7 +22,13 @@ export class HttpInboundTransport implements InboundTransport {
 
     this.app.use(
       text({
-        type: [DidCommMimeType.V0, DidCommMimeType.V1],
+        type: [
+          DidCommMimeType.V0,
+          DidCommMimeType.V1,
+          DidCommMimeType.V2Encrypted,
+          DidCommMimeType.V2Signed,
+          DidCommMimeType.V2Plain,
+        ],
         limit: '5mb',
       })
     )
@@ -0,0 +1,328 @@
+import type { TagsBase } from '@aries-framework/core'
+
+import {
+  BaseRecord,
+  RecordConflictError,
+  RecordDuplicateError,
+  RecordNotFoundError,
+  utils,
+} from '@aries-framework/core'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { SqliteStorageService } from '../src/SqliteStorageService'
+
+class TestRecord extends BaseRecord {
+  public static readonly type = 'TestRecord'
+  public readonly type = TestRecord.type
+
+  public foo!: string
+
+  public constructor(props?: { id?: string; foo: string; tags?: TagsBase }) {
+    super()
+
+    if (props) {
+      this.id = props.id ?? utils.uuid()
+      this.createdAt = new Date()
+      this.foo = props.foo
+      this._tags = props.tags ?? {}
+    }
+  }
+
+  public getTags(): TagsBase {
+    return this._tags
+  }
+}
+
+describe('SqliteStorageService', () => {
+  let storageService: SqliteStorageService<TestRecord>
+
+  beforeEach(() => {
+    storageService = new SqliteStorageService({ path: ':memory:' })
+  })
+
+  afterEach(() => {
+    storageService.close()
+  })
+
+  const insertRecord = async ({ id, tags }: { id?: string; tags?: TagsBase }) => {
+    const record = new TestRecord({ id, foo: 'bar', tags: tags ?? { myTag: 'foobar' } })
+    await storageService.save(record)
+    return record
+  }
+
+  describe('save() and getById()', () => {
+    it('should save the record with its tags', async () => {
+      const record = await insertRecord({
+        id: 'test-id',
+        tags: {
+          someBoolean: true,
+          someOtherBoolean: false,
+          someStringValue: 'string',
+          anArrayValue: ['foo', 'did:example:123'],
+          someStringNumberValue: '1',
+          anotherStringNumberValue: '0',
+        },
+      })
+
+      const retrievedRecord = await storageService.getById(TestRecord, 'test-id')
+      expect(retrievedRecord).toEqual(record)
+      expect(retrievedRecord.getTags()).toEqual({
+        someBoolean: true,
+        someOtherBoolean: false,
+        someStringValue: 'string',
+        anArrayValue: ['foo', 'did:example:123'],
+        someStringNumberValue: '1',
+        anotherStringNumberValue: '0',
+      })
+    })
+
+    it('should throw RecordDuplicateError if a record with the id already exists', async () => {
+      const record = await insertRecord({ id: 'test-id' })
+
+      await expect(storageService.save(record)).rejects.toThrowError(RecordDuplicateError)
+    })
+
+    it('should throw RecordNotFoundError if the record does not exist', async () => {
+      await expect(storageService.getById(TestRecord, 'does-not-exist')).rejects.toThrowError(RecordNotFoundError)
+    })
+  })
+
+  describe('update()', () => {
+    it('should update the value and replace the tags of the record', async () => {
+      const record = await insertRecord({ tags: { myTag: 'foobar', otherTag: 'value' } })
+
+      record.foo = 'baz'
+      record.replaceTags({ myTag: 'foobaz' })
+      await storageService.update(record)
+
+      const retrievedRecord = await storageService.getById(TestRecord, record.id)
+      expect(retrievedRecord.foo).toBe('baz')
+      expect(retrievedRecord.getTags()).toEqual({ myTag: 'foobaz' })
+      expect(retrievedRecord.version).toBe(1)
+    })
+
+    it('should throw RecordConflictError if the record was updated after it was retrieved', async () => {
+      await insertRecord({ id: 'test-id' })
+      const record = await storageService.getById(TestRecord, 'test-id')
+      const staleRecord = await storageService.getById(TestRecord, 'test-id')
+
+      record.foo = 'first'
+      await storageService.update(record)
+
+      staleRecord.foo = 'second'
+      await expect(storageService.update(staleRecord)).rejects.toThrowError(RecordConflictError)
+      expect(staleRecord.version).toBeUndefined()
+      expect((await storageService.getById(TestRecord, 'test-id')).foo).toBe('first')
+    })
+
+    it('should throw RecordNotFoundError if the record does not exist', async () => {
+      const record = new TestRecord({ foo: 'bar' })
+
+      await expect(storageService.update(record)).rejects.toThrowError(RecordNotFoundError)
+    })
+  })
+
+  describe('delete() and deleteById()', () => {
+    it('should delete the record and its tags', async () => {
+      const record = await insertRecord({})
+      const otherRecord = await insertRecord({})
+
+      await storageService.delete(record)
+      await storageService.deleteById(TestRecord, otherRecord.id)
+
+      await expect(storageService.getById(TestRecord, record.id)).rejects.toThrowError(RecordNotFoundError)
+      expect(await storageService.findByQuery(TestRecord, { myTag: 'foobar' })).toEqual([])
+    })
+
+    it('should throw RecordNotFoundError if the record does not exist', async () => {
+      await expect(storageService.deleteById(TestRecord, 'does-not-exist')).rejects.toThrowError(RecordNotFoundError)
+    })
+  })
+
+  describe('getAll()', () => {
+    it('should retrieve all records of the record class', async () => {
+      const records = [await insertRecord({}), await insertRecord({})]
+
+      expect(await storageService.getAll(TestRecord)).toEqual(records)
+    })
+  })
+
+  describe('findByQuery()', () => {
+    it('should retrieve all records that match the query', async () => {
+      const expectedRecord = await insertRecord({ tags: { myTag: 'foobar' } })
+      await insertRecord({ tags: { myTag: 'notfoobar' } })
+
+      expect(await storageService.findByQuery(TestRecord, { myTag: 'foobar' })).toEqual([expectedRecord])
+    })
+
+    it('should ignore undefined values in the query', async () => {
+      const record = await insertRecord({ tags: { myTag: 'foobar' } })
+
+      expect(await storageService.findByQuery(TestRecord, { myTag: 'foobar', otherTag: undefined })).toEqual([record])
+    })
+
+    it('should match records containing all items of an array value', async () => {
+      const expectedRecord = await insertRecord({ tags: { myTag: ['foo', 'bar', 'baz'] } })
+      await insertRecord({ tags: { myTag: ['foo'] } })
+
+      expect(await storageService.findByQuery(TestRecord, { myTag: ['foo', 'bar'] })).toEqual([expectedRecord])
+    })
+
+    it('finds records using $and statements', async () => {
+      const expectedRecord = await insertRecord({ tags: { myTag: 'foo', anotherTag: 'bar' } })
+      await insertRecord({ tags: { myTag: 'notfoobar' } })
+
+      const records = await storageService.findByQuery(TestRecord, {
+        $and: [{ myTag: 'foo' }, { anotherTag: 'bar' }],
+      })
+
+      expect(records).toEqual([expectedRecord])
+    })
+
+    it('finds records using $or statements', async () => {
+      const expectedRecord = await insertRecord({ tags: { myTag: 'foo' } })
+      const expectedRecord2 = await insertRecord({ tags: { anotherTag: 'bar' } })
+      await insertRecord({ tags: { myTag: 'notfoobar' } })
+
+      const records = await storageService.findByQuery(TestRecord, {
+        $or: [{ myTag: 'foo' }, { anotherTag: 'bar' }],
+      })
+
+      expect(records).toEqual([expectedRecord, expectedRecord2])
+    })
+
+    it('finds records using $not statements', async () => {
+      const expectedRecord = await insertRecord({ tags: { myTag: 'foo' } })
+      const expectedRecord2 = await insertRecord({ tags: { anotherTag: 'bar' } })
+      await insertRecord({ tags: { myTag: 'notfoobar' } })
+
+      const records = await storageService.findByQuery(TestRecord, {
+        $not: { myTag: 'notfoobar' },
+      })
+
+      expect(records).toEqual([expectedRecord, expectedRecord2])
+    })
+
+    it('correctly transforms an advanced query', async () => {
+      const expectedRecord = await insertRecord({ tags: { myTag: 'foo', anotherTag: 'bar', isActive: true } })
+      await insertRecord({ tags: { myTag: 'foo', anotherTag: 'bar', isActive: false } })
+      await insertRecord({ tags: { myTag: 'baz', anotherTag: 'qux', isActive: true } })
+
+      const records = await storageService.findByQuery(TestRecord, {
+        isActive: true,
+        $or: [{ myTag: 'foo' }, { $and: [{ myTag: 'baz' }, { $not: { anotherTag: 'qux' } }] }],
+      })
+
+      expect(records).toEqual([expectedRecord])
+    })
+  })
+
+  describe('query options', () => {
+    it('paginates the records using limit and offset', async () => {
+      const records = []
+      for (let i = 0; i < 5; i++) {
+        records.push(await insertRecord({ tags: { myTag: 'foobar' } }))
+      }
+
+      expect(await storageService.findByQuery(TestRecord, { myTag: 'foobar' }, { limit: 2, offset: 1 })).toEqual(
+        records.slice(1, 3)
+      )
+      expect(await storageService.getAll(TestRecord, { offset: 3 })).toEqual(records.slice(3))
+    })
+
+    it('sorts the records by tag value and createdAt', async () => {
+      const first = await insertRecord({ tags: { myTag: 'b' } })
+      const second = await insertRecord({ tags: { myTag: 'a' } })
+      const third = await insertRecord({ tags: { otherTag: 'c' } })
+
+      first.createdAt = new Date('2022-01-02')
+      second.createdAt = new Date('2022-01-01')
+      third.createdAt = new Date('2022-01-03')
+      await Promise.all([first, second, third].map((record) => storageService.update(record)))
+
+      expect(await storageService.getAll(TestRecord, { sortBy: 'myTag' })).toEqual([second, first, third])
+      expect(await storageService.getAll(TestRecord, { sortBy: 'myTag', sortOrder: 'desc' })).toEqual([
+        first,
+        second,
+        third,
+      ])
+      expect(await storageService.getAll(TestRecord, { sortBy: 'createdAt', limit: 2, offset: 1 })).toEqual([
+        first,
+        third,
+      ])
+    })
+
+    it('counts the records that match the query', async () => {
+      await insertRecord({ tags: { myTag: 'foobar' } })
+      await insertRecord({ tags: { myTag: 'foobar' } })
+      await insertRecord({ tags: { myTag: 'notfoobar' } })
+
+      expect(await storageService.count(TestRecord, { myTag: 'foobar' })).toBe(2)
+      expect(await storageService.count(TestRecord, { $not: { myTag: 'foobar' } })).toBe(1)
+      expect(await storageService.count(TestRecord, {})).toBe(3)
+    })
+  })
+
+  describe('encryption', () => {
+    let databasePath: string
+
+    beforeEach(() => {
+      databasePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'afj-sqlite-')), 'storage.sqlite')
+    })
+
+    afterEach(() => {
+      fs.rmSync(path.dirname(databasePath), { recursive: true, force: true })
+    })
+
+    it('should encrypt the record values with the encryption key', async () => {
+      const encryptedStorageService = new SqliteStorageService<TestRecord>({
+        path: databasePath,
+        encryptionKey: 'secret',
+      })
+      const record = new TestRecord({ foo: 'some-secret-value', tags: { myTag: 'foobar' } })
+      await encryptedStorageService.save(record)
+      encryptedStorageService.close()
+
+      expect(fs.readFileSync(databasePath).includes('some-secret-value')).toBe(false)
+
+      const reopenedStorageService = new SqliteStorageService<TestRecord>({
+        path: databasePath,
+        encryptionKey: 'secret',
+      })
+      expect(await reopenedStorageService.findByQuery(TestRecord, { myTag: 'foobar' })).toEqual([record])
+      reopenedStorageService.close()
+    })
+
+    it('should throw when opening an encrypted database without the correct encryption key', async () => {
+      new SqliteStorageService({ path: databasePath, encryptionKey: 'secret' }).close()
+
+      expect(() => new SqliteStorageService({ path: databasePath, encryptionKey: 'wrong' })).toThrow(
+        'Invalid encryption key for SQLite database'
+      )
+      expect(() => new SqliteStorageService({ path: databasePath })).toThrow(
+        'SQLite database is encrypted, but no encryption key was provided'
+      )
+    })
+  })
+
+  describe('better-sqlite3', () => {
+    it('should throw when better-sqlite3 is not installed', () => {
+      jest.isolateModules(() => {
+        jest.doMock('better-sqlite3', () => {
+          throw new Error("Cannot find module 'better-sqlite3'")
+        })
+
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const { SqliteStorageService } = require('../src/SqliteStorageService')
+
+        expect(() => new SqliteStorageService({ path: ':memory:' })).toThrow(
+          "The 'better-sqlite3' package must be installed to use the SqliteStorageService"
+        )
+      })
+
+      jest.dontMock('better-sqlite3')
+    })
+  })
+})
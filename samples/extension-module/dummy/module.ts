@@ -2,6 +2,7 @@ import type { DependencyManager } from '@aries-framework/core'
 
 import { module } from '@aries-framework/core'
 
+import { DummyApi } from './DummyApi'
 import { DummyRepository } from './repository'
 import { DummyService } from './services'
 
@@ -9,7 +10,7 @@ import { DummyService } from './services'
 export class DummyModule {
   public static register(dependencyManager: DependencyManager) {
     // Api
-    dependencyManager.registerContextScoped(DummyModule)
+    dependencyManager.registerContextScoped(DummyApi)
 
     dependencyManager.registerSingleton(DummyRepository)
     dependencyManager.registerSingleton(DummyService)
@@ -1,11 +1,16 @@
 import type { BaseRecord, TagsBase } from '../packages/core/src/storage/BaseRecord'
-import type { StorageService, BaseRecordConstructor, Query } from '../packages/core/src/storage/StorageService'
+import type {
+  StorageService,
+  BaseRecordConstructor,
+  Query,
+  QueryOptions,
+} from '../packages/core/src/storage/StorageService'
 
 import {
   RecordNotFoundError,
   RecordDuplicateError,
+  RecordConflictError,
   JsonTransformer,
-  AriesFrameworkError,
   injectable,
 } from '@aries-framework/core'
 
@@ -50,15 +55,27 @@ export class InMemoryStorageService<T extends BaseRecord = BaseRecord> implement
 
   /** @inheritDoc */
   public async update(record: T): Promise<void> {
-    const value = JsonTransformer.toJSON(record)
-    delete value._tags
+    const storedRecord = this.records[record.id]
 
-    if (!this.records[record.id]) {
+    if (!storedRecord) {
       throw new RecordNotFoundError(`record with id ${record.id} not found.`, {
         recordType: record.type,
       })
     }
 
+    const version = record.version ?? 0
+    const storedVersion = (storedRecord.value.version as number | undefined) ?? 0
+    if (storedVersion !== version) {
+      throw new RecordConflictError(
+        `record with id ${record.id} was updated concurrently. Expected version ${version}, found version ${storedVersion}.`,
+        { recordType: record.type }
+      )
+    }
+
+    record.version = version + 1
+    const value = JsonTransformer.toJSON(record)
+    delete value._tags
+
     this.records[record.id] = {
       value,
       id: record.id,
@@ -103,41 +120,69 @@ export class InMemoryStorageService<T extends BaseRecord = BaseRecord> implement
   }
 
   /** @inheritDoc */
-  public async getAll(recordClass: BaseRecordConstructor<T>): Promise<T[]> {
-    const records = Object.values(this.records)
-      .filter((record) => record.type === recordClass.type)
-      .map((record) => this.recordToInstance(record, recordClass))
-
-    return records
+  public async getAll(recordClass: BaseRecordConstructor<T>, queryOptions?: QueryOptions): Promise<T[]> {
+    return this.findByQuery(recordClass, {}, queryOptions)
   }
 
   /** @inheritDoc */
-  public async findByQuery(recordClass: BaseRecordConstructor<T>, query: Query<T>): Promise<T[]> {
-    if (query.$and || query.$or || query.$not) {
-      throw new AriesFrameworkError(
-        'Advanced wallet query features $and, $or or $not not supported in in memory storage'
-      )
-    }
-
-    const records = Object.values(this.records)
-      .filter((record) => {
-        const tags = record.tags as TagsBase
-
-        for (const [key, value] of Object.entries(query)) {
-          if (Array.isArray(value)) {
-            const tagValue = tags[key]
-            if (!Array.isArray(tagValue) || !value.every((v) => tagValue.includes(v))) {
-              return false
-            }
-          } else if (tags[key] !== value) {
-            return false
-          }
+  public async findByQuery(
+    recordClass: BaseRecordConstructor<T>,
+    query: Query<T>,
+    { limit, offset = 0, sortBy, sortOrder }: QueryOptions = {}
+  ): Promise<T[]> {
+    const records = this.filterRecords(recordClass, query)
+
+    if (sortBy) {
+      const direction = sortOrder === 'desc' ? -1 : 1
+      const sortValue = (record: StorageRecord) =>
+        (sortBy === 'createdAt' ? record.value.createdAt : record.tags[sortBy]) as string | undefined
+
+      records.sort((a, b) => {
+        const [aValue, bValue] = [sortValue(a), sortValue(b)]
+
+        // Records without a value to sort on are returned last
+        if (aValue === undefined || bValue === undefined) {
+          return Number(aValue === undefined) - Number(bValue === undefined)
         }
 
-        return true
+        return direction * String(aValue).localeCompare(String(bValue))
       })
-      .map((record) => this.recordToInstance(record, recordClass))
+    }
 
     return records
+      .slice(offset, limit !== undefined ? offset + limit : undefined)
+      .map((record) => this.recordToInstance(record, recordClass))
+  }
+
+  /** @inheritDoc */
+  public async count(recordClass: BaseRecordConstructor<T>, query: Query<T>): Promise<number> {
+    return this.filterRecords(recordClass, query).length
+  }
+
+  private filterRecords(recordClass: BaseRecordConstructor<T>, query: Query<T>): StorageRecord[] {
+    return Object.values(this.records).filter(
+      (record) => record.type === recordClass.type && matchesQuery(record.tags as TagsBase, query)
+    )
   }
 }
+
+function matchesQuery<T extends BaseRecord>(tags: TagsBase, query: Query<T>): boolean {
+  const { $and, $or, $not, ...simpleQuery } = query as Query<T> & {
+    $and?: Query<T>[]
+    $or?: Query<T>[]
+    $not?: Query<T>
+  }
+
+  if ($and && !$and.every((subQuery) => matchesQuery(tags, subQuery))) return false
+  if ($or && !$or.some((subQuery) => matchesQuery(tags, subQuery))) return false
+  if ($not && matchesQuery(tags, $not)) return false
+
+  return Object.entries(simpleQuery).every(([key, value]) => {
+    const tagValue = tags[key]
+    if (Array.isArray(value)) {
+      return Array.isArray(tagValue) && value.every((item) => tagValue.includes(item))
+    }
+
+    return tagValue === value
+  })
+}